@@ -0,0 +1,256 @@
+using Microsoft.EntityFrameworkCore;
+using Moq;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Tests.Application.Services;
+
+/// <summary>
+/// The ticket workflow as TicketService enforces it, merging duplicates, and the auto-close sweep
+/// </summary>
+public class TicketServiceTests : IDisposable
+{
+    private readonly TestDatabase _database = new();
+
+    private async Task<(User Client, User Technician, User Admin, Category Category)> SeedAsync()
+    {
+        await using var context = _database.CreateContext();
+        return (
+            await TestDatabase.AddUserAsync(context, UserRole.Client),
+            await TestDatabase.AddUserAsync(context, UserRole.Technician),
+            await TestDatabase.AddUserAsync(context, UserRole.Admin),
+            await TestDatabase.AddCategoryAsync(context));
+    }
+
+    private async Task<Ticket> AddTicketAsync(User client, Category category, TicketStatus status, Action<Ticket>? configure = null)
+    {
+        await using var context = _database.CreateContext();
+        return await TestDatabase.AddTicketAsync(context, client, category, status, configure);
+    }
+
+    private async Task<Ticket> FindTicketAsync(Guid id)
+    {
+        await using var context = _database.CreateContext();
+        return await context.Tickets.AsNoTracking().FirstAsync(t => t.Id == id);
+    }
+
+    [Fact]
+    public async Task UpdateTicketAsync_RefusesAResolutionWithoutTheNoteTheWorkflowRequires()
+    {
+        var (client, technician, _, category) = await SeedAsync();
+        var ticket = await AddTicketAsync(client, category, TicketStatus.InProgress, t => t.AssignedToUserId = technician.Id);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        await Assert.ThrowsAsync<StatusChangeForbiddenException>(() =>
+            service.UpdateTicketAsync(ticket.Id, technician.Id, UserRole.Technician, new TicketUpdateRequest { Status = TicketStatus.Resolved }));
+
+        Assert.Equal(TicketStatus.InProgress, (await FindTicketAsync(ticket.Id)).Status);
+    }
+
+    [Fact]
+    public async Task AddMessageAsync_ResolvesWithAReply()
+    {
+        var (client, technician, _, category) = await SeedAsync();
+        var ticket = await AddTicketAsync(client, category, TicketStatus.InProgress, t => t.AssignedToUserId = technician.Id);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        var message = await service.AddMessageAsync(ticket.Id, technician.Id, "The printer driver is reinstalled", TicketStatus.Resolved);
+
+        Assert.NotNull(message);
+        var resolved = await FindTicketAsync(ticket.Id);
+        Assert.Equal(TicketStatus.Resolved, resolved.Status);
+        Assert.NotNull(resolved.SlaResolvedAt);
+    }
+
+    [Fact]
+    public async Task UpdateTicketAsync_LetsTheClientConfirmAResolution()
+    {
+        var (client, _, _, category) = await SeedAsync();
+        var ticket = await AddTicketAsync(client, category, TicketStatus.Resolved);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        var updated = await service.UpdateTicketAsync(ticket.Id, client.Id, UserRole.Client, new TicketUpdateRequest { Status = TicketStatus.Closed });
+
+        Assert.Equal(TicketStatus.Closed, updated!.Status);
+    }
+
+    [Fact]
+    public async Task UpdateTicketAsync_RefusesAClientClosingATicketStillInProgress()
+    {
+        var (client, _, _, category) = await SeedAsync();
+        var ticket = await AddTicketAsync(client, category, TicketStatus.InProgress);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        await Assert.ThrowsAsync<StatusChangeForbiddenException>(() =>
+            service.UpdateTicketAsync(ticket.Id, client.Id, UserRole.Client, new TicketUpdateRequest { Status = TicketStatus.Closed }));
+    }
+
+    [Fact]
+    public async Task UpdateTicketAsync_RefusesToStartWorkWithoutAnAssignee()
+    {
+        var (client, _, admin, category) = await SeedAsync();
+        var ticket = await AddTicketAsync(client, category, TicketStatus.New);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        await Assert.ThrowsAsync<StatusChangeForbiddenException>(() =>
+            service.UpdateTicketAsync(ticket.Id, admin.Id, UserRole.Admin, new TicketUpdateRequest { Status = TicketStatus.InProgress }));
+    }
+
+    [Fact]
+    public async Task MergeTicketsAsync_FoldsTheDuplicatesIntoThePrimary()
+    {
+        var (client, _, admin, category) = await SeedAsync();
+        var primary = await AddTicketAsync(client, category, TicketStatus.InProgress);
+        var duplicate = await AddTicketAsync(client, category, TicketStatus.New);
+        await using (var arrange = _database.CreateContext())
+        {
+            arrange.TicketMessages.Add(new TicketMessage
+            {
+                Id = Guid.NewGuid(),
+                TicketId = duplicate.Id,
+                AuthorUserId = client.Id,
+                Message = "It still doesn't print",
+                CreatedAt = DateTime.UtcNow
+            });
+            await arrange.SaveChangesAsync();
+        }
+        var hubNotifier = new Mock<ITicketHubNotifier>();
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context, hubNotifier.Object);
+
+        var (result, merge) = await service.MergeTicketsAsync(primary.Id, admin.Id, new[] { primary.Id, duplicate.Id });
+
+        Assert.Equal(MergeTicketsResult.Success, result);
+        Assert.Equal(new[] { duplicate.Id }, merge!.MergedTicketIds);
+        Assert.Equal(1, merge.Primary.ResponseCount);
+        var closed = await FindTicketAsync(duplicate.Id);
+        Assert.Equal(TicketStatus.Closed, closed.Status);
+        Assert.Equal(primary.Id, closed.MergedIntoId);
+        await using var check = _database.CreateContext();
+        Assert.Equal(2, await check.TicketActivities.CountAsync(a => a.Type == TicketActivityType.Merged));
+        hubNotifier.Verify(n => n.TicketUpdatedAsync(It.IsAny<TicketResponse>()), Times.Exactly(2));
+    }
+
+    [Fact]
+    public async Task MergeTicketsAsync_RefusesDuplicatesOfAnotherClient()
+    {
+        var (client, _, admin, category) = await SeedAsync();
+        User otherClient;
+        await using (var arrange = _database.CreateContext())
+        {
+            otherClient = await TestDatabase.AddUserAsync(arrange, UserRole.Client);
+        }
+        var primary = await AddTicketAsync(client, category, TicketStatus.New);
+        var duplicate = await AddTicketAsync(otherClient, category, TicketStatus.New);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        var (result, _) = await service.MergeTicketsAsync(primary.Id, admin.Id, new[] { duplicate.Id });
+
+        Assert.Equal(MergeTicketsResult.DifferentClients, result);
+        Assert.Null((await FindTicketAsync(duplicate.Id)).MergedIntoId);
+    }
+
+    [Theory]
+    [InlineData(TicketStatus.Resolved)]
+    [InlineData(TicketStatus.Closed)]
+    public async Task MergeTicketsAsync_RefusesFinishedTickets(TicketStatus status)
+    {
+        var (client, _, admin, category) = await SeedAsync();
+        var primary = await AddTicketAsync(client, category, TicketStatus.New);
+        var duplicate = await AddTicketAsync(client, category, status);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        var (result, _) = await service.MergeTicketsAsync(primary.Id, admin.Id, new[] { duplicate.Id });
+
+        Assert.Equal(MergeTicketsResult.NotMergeable, result);
+    }
+
+    [Fact]
+    public async Task MergeTicketsAsync_RefusesATicketThatIsAlreadyMerged()
+    {
+        var (client, _, admin, category) = await SeedAsync();
+        var primary = await AddTicketAsync(client, category, TicketStatus.New);
+        var other = await AddTicketAsync(client, category, TicketStatus.New);
+        var duplicate = await AddTicketAsync(client, category, TicketStatus.New, t => t.MergedIntoId = other.Id);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        var (result, _) = await service.MergeTicketsAsync(primary.Id, admin.Id, new[] { duplicate.Id });
+
+        Assert.Equal(MergeTicketsResult.NotMergeable, result);
+    }
+
+    [Fact]
+    public async Task MergeTicketsAsync_NeedsADuplicateBesidesThePrimary()
+    {
+        var (client, _, admin, category) = await SeedAsync();
+        var primary = await AddTicketAsync(client, category, TicketStatus.New);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        var (result, _) = await service.MergeTicketsAsync(primary.Id, admin.Id, new[] { primary.Id });
+
+        Assert.Equal(MergeTicketsResult.NotMergeable, result);
+    }
+
+    [Fact]
+    public async Task MergeTicketsAsync_ReportsAnUnknownTicket()
+    {
+        var (client, _, admin, category) = await SeedAsync();
+        var primary = await AddTicketAsync(client, category, TicketStatus.New);
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        var (result, _) = await service.MergeTicketsAsync(primary.Id, admin.Id, new[] { Guid.NewGuid() });
+
+        Assert.Equal(MergeTicketsResult.TicketNotFound, result);
+    }
+
+    [Fact]
+    public async Task CloseUnansweredResolvedTicketsAsync_ClosesResolutionsOlderThanTheWorkflowAllows()
+    {
+        var (client, _, _, category) = await SeedAsync();
+        var stale = await AddTicketAsync(client, category, TicketStatus.Resolved, t => t.SlaResolvedAt = DateTime.UtcNow.AddDays(-8));
+        var recent = await AddTicketAsync(client, category, TicketStatus.Resolved, t => t.SlaResolvedAt = DateTime.UtcNow.AddDays(-6));
+        var waiting = await AddTicketAsync(client, category, TicketStatus.WaitingForClient, t => t.SlaPausedSince = DateTime.UtcNow.AddDays(-8));
+        await using var context = _database.CreateContext();
+        var service = TestDatabase.CreateTicketService(context);
+
+        var closed = await service.CloseUnansweredResolvedTicketsAsync();
+
+        Assert.Equal(1, closed);
+        Assert.Equal(TicketStatus.Closed, (await FindTicketAsync(stale.Id)).Status);
+        Assert.Equal(TicketStatus.Resolved, (await FindTicketAsync(recent.Id)).Status);
+        Assert.Equal(TicketStatus.WaitingForClient, (await FindTicketAsync(waiting.Id)).Status);
+    }
+
+    [Fact]
+    public async Task CloseUnansweredResolvedTicketsAsync_ClosesNothingWhenTheWorkflowTurnsItOff()
+    {
+        var (client, _, _, category) = await SeedAsync();
+        var stale = await AddTicketAsync(client, category, TicketStatus.Resolved, t => t.SlaResolvedAt = DateTime.UtcNow.AddDays(-30));
+        await using var context = _database.CreateContext();
+        var workflowService = new WorkflowService(context);
+        var workflow = await workflowService.GetWorkflowAsync();
+        workflow.AutoCloseResolvedDays = 0;
+        await workflowService.UpdateWorkflowAsync(workflow);
+        var service = TestDatabase.CreateTicketService(context);
+
+        Assert.Equal(0, await service.CloseUnansweredResolvedTicketsAsync());
+        Assert.Equal(TicketStatus.Resolved, (await FindTicketAsync(stale.Id)).Status);
+    }
+
+    public void Dispose()
+    {
+        _database.Dispose();
+    }
+}
@@ -0,0 +1,149 @@
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Tests.Application.Services;
+
+public class WorkflowServiceTests : IDisposable
+{
+    private readonly TestDatabase _database = new();
+
+    private static WorkflowTransitionDto Transition(TicketStatus from, TicketStatus to, params UserRole[] roles) =>
+        new() { From = from, To = to, Roles = roles.ToList() };
+
+    // New → InProgress → Resolved → Closed, each step for admins
+    private static TicketWorkflowDto StraightWorkflow() => new()
+    {
+        Transitions = new List<WorkflowTransitionDto>
+        {
+            Transition(TicketStatus.New, TicketStatus.InProgress, UserRole.Admin),
+            Transition(TicketStatus.InProgress, TicketStatus.Resolved, UserRole.Admin),
+            Transition(TicketStatus.InProgress, TicketStatus.WaitingForClient, UserRole.Admin),
+            Transition(TicketStatus.WaitingForClient, TicketStatus.Closed, UserRole.Admin),
+            Transition(TicketStatus.Resolved, TicketStatus.Closed, UserRole.Admin)
+        }
+    };
+
+    [Theory]
+    [InlineData(TicketStatus.New, TicketStatus.InProgress, UserRole.Technician)]
+    [InlineData(TicketStatus.InProgress, TicketStatus.Resolved, UserRole.Technician)]
+    [InlineData(TicketStatus.WaitingForClient, TicketStatus.InProgress, UserRole.Client)]
+    [InlineData(TicketStatus.Resolved, TicketStatus.Closed, UserRole.Client)]
+    [InlineData(TicketStatus.Resolved, TicketStatus.InProgress, UserRole.Client)]
+    [InlineData(TicketStatus.Closed, TicketStatus.InProgress, UserRole.Admin)]
+    public async Task FindTransitionAsync_AllowsTheBuiltInChanges(TicketStatus from, TicketStatus to, UserRole role)
+    {
+        await using var context = _database.CreateContext();
+
+        var transition = await new WorkflowService(context).FindTransitionAsync(from, to, role);
+
+        Assert.NotNull(transition);
+    }
+
+    [Theory]
+    [InlineData(TicketStatus.New, TicketStatus.Closed, UserRole.Technician)]
+    [InlineData(TicketStatus.InProgress, TicketStatus.Closed, UserRole.Client)]
+    [InlineData(TicketStatus.New, TicketStatus.Resolved, UserRole.Client)]
+    [InlineData(TicketStatus.Closed, TicketStatus.InProgress, UserRole.Technician)]
+    [InlineData(TicketStatus.Closed, TicketStatus.InProgress, UserRole.Client)]
+    public async Task FindTransitionAsync_RefusesWhatTheBuiltInWorkflowLeavesToOthers(TicketStatus from, TicketStatus to, UserRole role)
+    {
+        await using var context = _database.CreateContext();
+
+        var transition = await new WorkflowService(context).FindTransitionAsync(from, to, role);
+
+        Assert.Null(transition);
+    }
+
+    [Fact]
+    public async Task FindTransitionAsync_CarriesTheBuiltInRequirements()
+    {
+        await using var context = _database.CreateContext();
+        var service = new WorkflowService(context);
+
+        var start = await service.FindTransitionAsync(TicketStatus.New, TicketStatus.InProgress, UserRole.Technician);
+        var resolve = await service.FindTransitionAsync(TicketStatus.InProgress, TicketStatus.Resolved, UserRole.Technician);
+
+        Assert.Equal(new[] { WorkflowRequirement.Assignee }, start!.Requires);
+        Assert.Equal(new[] { WorkflowRequirement.Note }, resolve!.Requires);
+    }
+
+    [Fact]
+    public async Task FindTransitionAsync_FollowsASavedWorkflow()
+    {
+        await using var context = _database.CreateContext();
+        var service = new WorkflowService(context);
+
+        await service.UpdateWorkflowAsync(StraightWorkflow());
+
+        Assert.NotNull(await service.FindTransitionAsync(TicketStatus.InProgress, TicketStatus.Resolved, UserRole.Admin));
+        Assert.Null(await service.FindTransitionAsync(TicketStatus.InProgress, TicketStatus.Resolved, UserRole.Technician));
+        Assert.Null(await service.FindTransitionAsync(TicketStatus.Resolved, TicketStatus.InProgress, UserRole.Admin));
+    }
+
+    [Fact]
+    public async Task GetWorkflowError_AcceptsTheBuiltInWorkflow()
+    {
+        await using var context = _database.CreateContext();
+        var service = new WorkflowService(context);
+
+        Assert.Null(service.GetWorkflowError(await service.GetWorkflowAsync()));
+    }
+
+    [Fact]
+    public void GetWorkflowError_AcceptsAWorkflowEveryStatusCanCloseIn()
+    {
+        using var context = _database.CreateContext();
+
+        Assert.Null(new WorkflowService(context).GetWorkflowError(StraightWorkflow()));
+    }
+
+    [Fact]
+    public void GetWorkflowError_RefusesAStatusThatCanNeverClose()
+    {
+        using var context = _database.CreateContext();
+        var workflow = StraightWorkflow();
+        workflow.Transitions.RemoveAll(t => t.From == TicketStatus.WaitingForClient);
+
+        Assert.NotNull(new WorkflowService(context).GetWorkflowError(workflow));
+    }
+
+    [Fact]
+    public void GetWorkflowError_RefusesTheSameChangeTwice()
+    {
+        using var context = _database.CreateContext();
+        var workflow = StraightWorkflow();
+        workflow.Transitions.Add(Transition(TicketStatus.New, TicketStatus.InProgress, UserRole.Technician));
+
+        Assert.NotNull(new WorkflowService(context).GetWorkflowError(workflow));
+    }
+
+    [Fact]
+    public void GetWorkflowError_RefusesAChangeToTheSameStatusOrForNobody()
+    {
+        using var context = _database.CreateContext();
+        var service = new WorkflowService(context);
+        var toItself = StraightWorkflow();
+        toItself.Transitions.Add(Transition(TicketStatus.New, TicketStatus.New, UserRole.Admin));
+        var forNobody = StraightWorkflow();
+        forNobody.Transitions.Add(Transition(TicketStatus.New, TicketStatus.Closed));
+
+        Assert.NotNull(service.GetWorkflowError(toItself));
+        Assert.NotNull(service.GetWorkflowError(forNobody));
+    }
+
+    [Fact]
+    public void GetWorkflowError_RefusesAnUnknownStatus()
+    {
+        using var context = _database.CreateContext();
+        var workflow = StraightWorkflow();
+        workflow.Transitions.Add(Transition(TicketStatus.New, (TicketStatus)42, UserRole.Admin));
+
+        Assert.NotNull(new WorkflowService(context).GetWorkflowError(workflow));
+    }
+
+    public void Dispose()
+    {
+        _database.Dispose();
+    }
+}
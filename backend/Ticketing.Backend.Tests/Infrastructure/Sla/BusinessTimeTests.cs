@@ -0,0 +1,170 @@
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Infrastructure.Sla;
+
+namespace Ticketing.Backend.Tests.Infrastructure.Sla;
+
+public class BusinessTimeTests
+{
+    private static readonly TimeZoneInfo NewYork = BusinessTime.FindTimeZone("America/New_York");
+
+    // Monday to Friday, 09:00 to 17:00
+    private static BusinessCalendarDto OfficeHours(List<string>? holidays = null, List<string>? recurringHolidays = null)
+    {
+        var day = new BusinessHoursDto { Start = "09:00", End = "17:00" };
+        return new BusinessCalendarDto
+        {
+            Hours = new List<BusinessHoursDto?> { null, day, day, day, day, day, null },
+            Holidays = holidays ?? new List<string>(),
+            RecurringHolidays = recurringHolidays ?? new List<string>()
+        };
+    }
+
+    // Every day, all day, so only the length of the day counts
+    private static BusinessCalendarDto AroundTheClock()
+    {
+        var day = new BusinessHoursDto { Start = "00:00", End = "24:00" };
+        return new BusinessCalendarDto { Hours = Enumerable.Repeat<BusinessHoursDto?>(day, 7).ToList() };
+    }
+
+    private static DateTime Utc(int year, int month, int day, int hour, int minute = 0) =>
+        new(year, month, day, hour, minute, 0, DateTimeKind.Utc);
+
+    [Fact]
+    public void MinutesBetween_CountsOnlyWorkingHours()
+    {
+        // Monday 08:00 to 18:00
+        var minutes = BusinessTime.MinutesBetween(Utc(2024, 3, 4, 8), Utc(2024, 3, 4, 18), OfficeHours(), TimeZoneInfo.Utc);
+
+        Assert.Equal(8 * 60, minutes);
+    }
+
+    [Fact]
+    public void MinutesBetween_IsZeroWhenTheEndIsNotAfterTheStart()
+    {
+        Assert.Equal(0, BusinessTime.MinutesBetween(Utc(2024, 3, 4, 12), Utc(2024, 3, 4, 10), OfficeHours(), TimeZoneInfo.Utc));
+    }
+
+    [Fact]
+    public void MinutesBetween_SkipsTheWeekend()
+    {
+        // Friday 16:00 to Monday 10:00
+        var minutes = BusinessTime.MinutesBetween(Utc(2024, 3, 8, 16), Utc(2024, 3, 11, 10), OfficeHours(), TimeZoneInfo.Utc);
+
+        Assert.Equal(120, minutes);
+    }
+
+    [Fact]
+    public void MinutesBetween_SkipsHolidays()
+    {
+        // Friday 16:00 to Tuesday 10:00, with the Monday off
+        var calendar = OfficeHours(holidays: new List<string> { "2024-03-11" });
+
+        var minutes = BusinessTime.MinutesBetween(Utc(2024, 3, 8, 16), Utc(2024, 3, 12, 10), calendar, TimeZoneInfo.Utc);
+
+        Assert.Equal(120, minutes);
+    }
+
+    [Fact]
+    public void MinutesBetween_SkipsRecurringHolidaysOfTheSolarHijriCalendar()
+    {
+        // Tuesday 09:00 to Thursday 17:00; Nowruz (01-01) fell on Wednesday 2024-03-20
+        var calendar = OfficeHours(recurringHolidays: new List<string> { "01-01" });
+
+        var minutes = BusinessTime.MinutesBetween(Utc(2024, 3, 19, 9), Utc(2024, 3, 21, 17), calendar, TimeZoneInfo.Utc);
+
+        Assert.Equal(2 * 8 * 60, minutes);
+    }
+
+    [Fact]
+    public void MinutesBetween_UsesTheWorkingHoursOfTheTimezone()
+    {
+        // 09:00 to 17:00 in New York (UTC-5 in winter) is 14:00 to 22:00 UTC
+        var minutes = BusinessTime.MinutesBetween(Utc(2024, 1, 8, 0), Utc(2024, 1, 8, 15), OfficeHours(), NewYork);
+
+        Assert.Equal(60, minutes);
+    }
+
+    [Fact]
+    public void MinutesBetween_CountsTheShortDayWhenTheClocksGoForward()
+    {
+        // New York skipped 02:00 to 03:00 on 2024-03-10
+        var minutes = BusinessTime.MinutesBetween(Utc(2024, 3, 10, 5), Utc(2024, 3, 11, 4), AroundTheClock(), NewYork);
+
+        Assert.Equal(23 * 60, minutes);
+    }
+
+    [Fact]
+    public void MinutesBetween_CountsTheLongDayWhenTheClocksGoBack()
+    {
+        // New York repeated 01:00 to 02:00 on 2024-11-03
+        var minutes = BusinessTime.MinutesBetween(Utc(2024, 11, 3, 4), Utc(2024, 11, 4, 5), AroundTheClock(), NewYork);
+
+        Assert.Equal(25 * 60, minutes);
+    }
+
+    [Fact]
+    public void MinutesBetween_StartsASkippedOpeningTimeAnHourLater()
+    {
+        // Sunday 02:30 to 05:00 on the day New York skipped 02:00 to 03:00: 03:30 EDT is 07:30 UTC
+        var day = new BusinessHoursDto { Start = "02:30", End = "05:00" };
+        var calendar = new BusinessCalendarDto { Hours = new List<BusinessHoursDto?> { day, null, null, null, null, null, null } };
+
+        var minutes = BusinessTime.MinutesBetween(Utc(2024, 3, 10, 0), Utc(2024, 3, 11, 0), calendar, NewYork);
+
+        Assert.Equal(90, minutes);
+    }
+
+    [Fact]
+    public void AddMinutes_CarriesTheRestOverTheWeekend()
+    {
+        // Two hours from Friday 16:00
+        var deadline = BusinessTime.AddMinutes(Utc(2024, 3, 8, 16), 120, OfficeHours(), TimeZoneInfo.Utc);
+
+        Assert.Equal(Utc(2024, 3, 11, 10), deadline);
+    }
+
+    [Fact]
+    public void AddMinutes_StartsAtTheNextOpeningOutsideWorkingHours()
+    {
+        // An hour from Saturday noon
+        var deadline = BusinessTime.AddMinutes(Utc(2024, 3, 9, 12), 60, OfficeHours(), TimeZoneInfo.Utc);
+
+        Assert.Equal(Utc(2024, 3, 11, 10), deadline);
+    }
+
+    [Fact]
+    public void AddMinutes_CarriesTheRestOverHolidays()
+    {
+        var calendar = OfficeHours(holidays: new List<string> { "2024-03-11" });
+
+        var deadline = BusinessTime.AddMinutes(Utc(2024, 3, 8, 16), 120, calendar, TimeZoneInfo.Utc);
+
+        Assert.Equal(Utc(2024, 3, 12, 10), deadline);
+    }
+
+    [Fact]
+    public void AddMinutes_CountsTheShortDayWhenTheClocksGoForward()
+    {
+        // A day's worth of minutes from New York's midnight on 2024-03-10 ends at midnight EDT, 04:00 UTC
+        var deadline = BusinessTime.AddMinutes(Utc(2024, 3, 10, 5), 23 * 60, AroundTheClock(), NewYork);
+
+        Assert.Equal(Utc(2024, 3, 11, 4), deadline);
+    }
+
+    [Fact]
+    public void AddMinutes_KeepsOfficeHoursAcrossTheChangeOfOffset()
+    {
+        // Friday 16:00 EST is 21:00 UTC; an hour of it is left, the second is Monday 09:00 to 10:00 EDT
+        var deadline = BusinessTime.AddMinutes(Utc(2024, 3, 8, 21), 120, OfficeHours(), NewYork);
+
+        Assert.Equal(Utc(2024, 3, 11, 14), deadline);
+    }
+
+    [Fact]
+    public void AddMinutes_IsNullWithoutWorkingTime()
+    {
+        var calendar = new BusinessCalendarDto { Hours = Enumerable.Repeat<BusinessHoursDto?>(null, 7).ToList() };
+
+        Assert.Null(BusinessTime.AddMinutes(Utc(2024, 3, 8, 16), 60, calendar, TimeZoneInfo.Utc));
+    }
+}
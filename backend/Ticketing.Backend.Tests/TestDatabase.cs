@@ -0,0 +1,102 @@
+using Microsoft.AspNetCore.Http;
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Tests;
+
+/// <summary>
+/// A SQLite database in memory with the app's schema, for one test. It lives as long as its
+/// connection, so every context a test creates sees the same data.
+/// </summary>
+public sealed class TestDatabase : IDisposable
+{
+    private readonly SqliteConnection _connection;
+
+    public TestDatabase()
+    {
+        _connection = new SqliteConnection("DataSource=:memory:");
+        _connection.Open();
+        using var context = CreateContext();
+        context.Database.EnsureCreated();
+    }
+
+    public AppDbContext CreateContext() =>
+        new(new DbContextOptionsBuilder<AppDbContext>().UseSqlite(_connection).Options);
+
+    /// <summary>
+    /// TicketService with the real workflow and SLA services on the context; the services it only
+    /// calls on paths these tests don't take are stand-ins
+    /// </summary>
+    public static TicketService CreateTicketService(AppDbContext context, ITicketHubNotifier? hubNotifier = null)
+    {
+        var notificationService = new NotificationService(context);
+        return new TicketService(
+            context,
+            notificationService,
+            Mock.Of<ITechnicianService>(),
+            Mock.Of<ISystemSettingsService>(),
+            Mock.Of<ISmartAssignmentService>(),
+            new SlaService(context, notificationService, NullLogger<SlaService>.Instance),
+            hubNotifier ?? Mock.Of<ITicketHubNotifier>(),
+            new WorkflowService(context),
+            new HttpContextAccessor());
+    }
+
+    public static async Task<User> AddUserAsync(AppDbContext context, UserRole role)
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            FullName = $"{role} user",
+            Email = $"{Guid.NewGuid():N}@example.com",
+            Role = role,
+            CreatedAt = DateTime.UtcNow
+        };
+        context.Users.Add(user);
+        await context.SaveChangesAsync();
+        return user;
+    }
+
+    public static async Task<Category> AddCategoryAsync(AppDbContext context)
+    {
+        var category = new Category { Name = $"Category {Guid.NewGuid():N}" };
+        context.Categories.Add(category);
+        await context.SaveChangesAsync();
+        return category;
+    }
+
+    public static async Task<Ticket> AddTicketAsync(
+        AppDbContext context,
+        User client,
+        Category category,
+        TicketStatus status,
+        Action<Ticket>? configure = null)
+    {
+        var ticket = new Ticket
+        {
+            Id = Guid.NewGuid(),
+            Title = "Printer is offline",
+            Description = "The printer on the second floor doesn't print",
+            CategoryId = category.Id,
+            Priority = TicketPriority.Medium,
+            Status = status,
+            CreatedByUserId = client.Id,
+            CreatedAt = DateTime.UtcNow.AddDays(-30)
+        };
+        configure?.Invoke(ticket);
+        context.Tickets.Add(ticket);
+        await context.SaveChangesAsync();
+        return ticket;
+    }
+
+    public void Dispose()
+    {
+        _connection.Dispose();
+    }
+}
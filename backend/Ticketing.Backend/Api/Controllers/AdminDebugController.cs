@@ -4,14 +4,15 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
-using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Infrastructure.Auth;
 using Ticketing.Backend.Infrastructure.Data;
 
 namespace Ticketing.Backend.Api.Controllers;
 
 [ApiController]
 [Route("api/admin/debug")]
-[Authorize(Roles = nameof(UserRole.Admin))]
+[RequirePermission(Permissions.UsersManage)]
 public class AdminDebugController : ControllerBase
 {
     private readonly AppDbContext _context;
@@ -1,7 +1,9 @@
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.Services;
 using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 using Ticketing.Backend.Infrastructure.Data;
 
 namespace Ticketing.Backend.Api.Controllers;
@@ -55,7 +57,7 @@ public class AdminMaintenanceController : ControllerBase
     }
 
     [HttpPost("cleanup/invalid-admin-users")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.UsersManage)]
     public async Task<IActionResult> CleanupInvalidAdminUsers([FromBody] CleanupInvalidAdminUsersRequest request)
     {
         // Determine cutoff date if provided
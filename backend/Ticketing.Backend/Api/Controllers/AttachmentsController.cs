@@ -0,0 +1,243 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Net.Http.Headers;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Attachments;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api")]
+[Authorize]
+public class AttachmentsController : ControllerBase
+{
+    private readonly IAttachmentService _attachmentService;
+
+    public AttachmentsController(IAttachmentService attachmentService)
+    {
+        _attachmentService = attachmentService;
+    }
+
+    private (Guid userId, UserRole role)? GetUserContext()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        var roleValue = User.FindFirstValue(ClaimTypes.Role);
+        if (Guid.TryParse(idValue, out var userId) && Enum.TryParse<UserRole>(roleValue, out var role))
+        {
+            return (userId, role);
+        }
+        return null;
+    }
+
+    /// <summary>
+    /// The attachments of a ticket, including those sent with replies
+    /// </summary>
+    [HttpGet("tickets/{ticketId}/attachments")]
+    [ProducesResponseType(typeof(IEnumerable<AttachmentDto>), 200)]
+    public async Task<IActionResult> GetTicketAttachments(Guid ticketId)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var attachments = await _attachmentService.GetTicketAttachmentsAsync(ticketId, context.Value.userId, context.Value.role);
+        if (attachments == null)
+        {
+            return NotFound();
+        }
+        return Ok(attachments);
+    }
+
+    /// <summary>
+    /// Upload a file in one multipart request; large files go through a resumable upload instead
+    /// </summary>
+    [HttpPost("tickets/{ticketId}/attachments")]
+    [ProducesResponseType(typeof(AttachmentDto), 200)]
+    public async Task<IActionResult> UploadAttachment(Guid ticketId, IFormFile file, [FromForm] Guid? messageId)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+        if (file.Length == 0)
+        {
+            return BadRequest(new { message = "فایل خالی است" });
+        }
+
+        await using var content = file.OpenReadStream();
+        var (result, attachment) = await _attachmentService.UploadAsync(
+            ticketId, context.Value.userId, context.Value.role, messageId, file.FileName, file.ContentType, file.Length, content);
+        return result == AttachmentResult.Success ? Ok(attachment) : Refused(result);
+    }
+
+    /// <summary>
+    /// Start a resumable upload for a large file
+    /// </summary>
+    [HttpPost("tickets/{ticketId}/attachments/uploads")]
+    [ProducesResponseType(typeof(AttachmentUploadSessionResponse), 200)]
+    public async Task<IActionResult> CreateUpload(Guid ticketId, [FromBody] AttachmentUploadSessionRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var (result, session) = await _attachmentService.CreateUploadAsync(ticketId, context.Value.userId, context.Value.role, request);
+        return result == AttachmentResult.Success ? Ok(session) : Refused(result);
+    }
+
+    /// <summary>
+    /// Current state of a resumable upload; receivedBytes is where the next chunk starts
+    /// </summary>
+    [HttpGet("attachments/uploads/{uploadId}")]
+    [ProducesResponseType(typeof(AttachmentUploadSessionResponse), 200)]
+    public async Task<IActionResult> GetUpload(Guid uploadId)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var session = await _attachmentService.GetUploadAsync(uploadId, context.Value.userId);
+        if (session == null)
+        {
+            return NotFound();
+        }
+        return Ok(session);
+    }
+
+    /// <summary>
+    /// Send one chunk of a resumable upload as the raw body, placed by its Content-Range header
+    /// </summary>
+    [HttpPut("attachments/uploads/{uploadId}")]
+    [ProducesResponseType(typeof(AttachmentUploadSessionResponse), 200)]
+    public async Task<IActionResult> UploadChunk(Guid uploadId)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var range = Request.GetTypedHeaders().ContentRange;
+        if (range?.From == null || range.To == null || range.Length == null)
+        {
+            return BadRequest(new { message = "سرآیند Content-Range الزامی است" });
+        }
+
+        // A body longer than the range it claims would be cut off silently
+        if (Request.ContentLength > range.To - range.From + 1)
+        {
+            return Refused(AttachmentResult.InvalidRange);
+        }
+
+        var (result, session) = await _attachmentService.AppendChunkAsync(
+            uploadId, context.Value.userId, range.From.Value, range.To.Value, range.Length.Value, Request.Body);
+        return result == AttachmentResult.Success ? Ok(session) : Refused(result);
+    }
+
+    /// <summary>
+    /// Finish a resumable upload once every byte has been received
+    /// </summary>
+    [HttpPost("attachments/uploads/{uploadId}/complete")]
+    [ProducesResponseType(typeof(AttachmentDto), 200)]
+    public async Task<IActionResult> CompleteUpload(Guid uploadId)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var (result, attachment) = await _attachmentService.CompleteUploadAsync(uploadId, context.Value.userId);
+        return result == AttachmentResult.Success ? Ok(attachment) : Refused(result);
+    }
+
+    /// <summary>
+    /// Discard a resumable upload and the chunks received so far
+    /// </summary>
+    [HttpDelete("attachments/uploads/{uploadId}")]
+    public async Task<IActionResult> CancelUpload(Guid uploadId)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var cancelled = await _attachmentService.CancelUploadAsync(uploadId, context.Value.userId);
+        return cancelled ? NoContent() : NotFound();
+    }
+
+    /// <summary>
+    /// Delete an attachment (its uploader or an admin)
+    /// </summary>
+    [HttpDelete("attachments/{id}")]
+    public async Task<IActionResult> DeleteAttachment(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var result = await _attachmentService.DeleteAttachmentAsync(id, context.Value.userId, context.Value.role);
+        return result == AttachmentResult.Success ? NoContent() : Refused(result);
+    }
+
+    /// <summary>
+    /// Download an attachment. disposition=inline asks for the preview rendition, which only PNG, JPEG,
+    /// GIF and WebP images get; everything else, SVG included, is always sent as a download. The
+    /// sandbox policy keeps scripts in a file opened directly from running with the app's origin.
+    /// </summary>
+    [HttpGet("attachments/{id}/content")]
+    public async Task<IActionResult> GetAttachmentContent(Guid id, [FromQuery] string? disposition)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var content = await _attachmentService.OpenAttachmentAsync(id, context.Value.userId, context.Value.role);
+        if (content == null)
+        {
+            return NotFound();
+        }
+
+        Response.Headers[HeaderNames.XContentTypeOptions] = "nosniff";
+        Response.Headers[HeaderNames.ContentSecurityPolicy] = "sandbox";
+        if (AttachmentContentTypes.IsInline(content.ContentType) && string.Equals(disposition, "inline", StringComparison.OrdinalIgnoreCase))
+        {
+            var header = new ContentDispositionHeaderValue("inline");
+            header.SetHttpFileName(content.FileName);
+            Response.Headers[HeaderNames.ContentDisposition] = header.ToString();
+            return File(content.Content, content.ContentType, enableRangeProcessing: true);
+        }
+        return File(content.Content, content.ContentType, content.FileName, enableRangeProcessing: true);
+    }
+
+    private IActionResult Refused(AttachmentResult result) => result switch
+    {
+        AttachmentResult.Forbidden => StatusCode(403, new { message = "اجازه این کار با پیوست را ندارید" }),
+        AttachmentResult.TooLarge => BadRequest(new { message = "حجم فایل از حد مجاز بیشتر است" }),
+        AttachmentResult.InvalidMessage => BadRequest(new { message = "پاسخ انتخاب‌شده متعلق به این تیکت نیست" }),
+        AttachmentResult.Incomplete => Conflict(new { message = "همه بخش‌های فایل هنوز دریافت نشده است" }),
+        AttachmentResult.InvalidRange => BadRequest(new { message = "محدوده Content-Range با حجم اعلام‌شده فایل مطابقت ندارد" }),
+        AttachmentResult.ContentMismatch => BadRequest(new { message = "محتوای فایل با نوع اعلام‌شده آن مطابقت ندارد", error = "CONTENT_TYPE_MISMATCH" }),
+        _ => NotFound()
+    };
+}
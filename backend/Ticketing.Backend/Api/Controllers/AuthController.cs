@@ -5,6 +5,7 @@ using Microsoft.EntityFrameworkCore;
 using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Application.Services;
 using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 using Ticketing.Backend.Infrastructure.Data;
 
 namespace Ticketing.Backend.Api.Controllers;
@@ -15,11 +16,19 @@ public class AuthController : ControllerBase
 {
     private readonly IUserService _userService;
     private readonly AppDbContext _context;
-
-    public AuthController(IUserService userService, AppDbContext context)
+    private readonly IOidcTokenValidator _oidcTokenValidator;
+    private readonly ISignInSecurityService _signInSecurityService;
+
+    public AuthController(
+        IUserService userService,
+        AppDbContext context,
+        IOidcTokenValidator oidcTokenValidator,
+        ISignInSecurityService signInSecurityService)
     {
         _userService = userService;
         _context = context;
+        _oidcTokenValidator = oidcTokenValidator;
+        _signInSecurityService = signInSecurityService;
     }
 
     // ------------------------------
@@ -55,10 +64,12 @@ public class AuthController : ControllerBase
     //    c) FORBIDDEN (HTTP 403) otherwise
     // 5. Email conflict → HTTP 409
     // 6. Invalid role → HTTP 400 (explicit error message)
+    // 7. require2FA on → TwoFactorChallengeResponse (enrollment) instead of a session
     // ------------------------------
     [HttpPost("register")]
     [AllowAnonymous]
-    public async Task<ActionResult<AuthResponse>> Register([FromBody] RegisterRequest request)
+    [ProducesResponseType(typeof(AuthResponse), 200)]
+    public async Task<IActionResult> Register([FromBody] RegisterRequest request)
     {
         // SECURITY-CRITICAL: Validate model state FIRST
         // This ensures all required fields including Role are present
@@ -151,6 +162,16 @@ public class AuthController : ControllerBase
             Department = request.Department
         };
 
+        // Allowed email domains and the password policy from the system settings
+        var (policyMet, policyError) = await _userService.ValidateRegistrationAsync(serviceRequest);
+        if (!policyMet)
+        {
+            return BadRequest(new {
+                message = policyError,
+                error = "REGISTRATION_POLICY"
+            });
+        }
+
         // SECURITY-CRITICAL: Delegate to UserService for role authorization and persistence
         // UserService will:
         // 1. Validate email uniqueness
@@ -183,9 +204,15 @@ public class AuthController : ControllerBase
             });
         }
 
+        // The account exists but has to enroll in two-factor authentication before it gets a session
+        if (response.Challenge != null)
+        {
+            return Ok(response.Challenge);
+        }
+
         // SECURITY: Registration successful - role persisted exactly as requested
         // Verify the response contains the correct role
-        if (response.User?.Role != role)
+        if (response.Session?.User?.Role != role)
         {
             // SYSTEM FAILURE: Role mismatch between request and response
             return StatusCode(500, new { 
@@ -194,25 +221,248 @@ public class AuthController : ControllerBase
             });
         }
 
-        return Ok(response);
+        return Ok(response.Session);
     }
 
     // ------------------------------
     // Login
+    // SECURITY-CRITICAL: answers with a TwoFactorChallengeResponse instead of a session when the
+    // account has an authenticator, or has to enroll one because require2FA is on.
+    // Brute-force protection comes first: too many failures from the address → 429 with Retry-After,
+    // a locked account → 423, a missing or wrong CAPTCHA once one is due → 400 with captchaRequired.
+    // A wrong password → 401 with remainingAttempts and whether the next attempt needs a CAPTCHA.
+    // The right password of a deactivated account → 403 ACCOUNT_DISABLED.
     // ------------------------------
     [HttpPost("login")]
     [AllowAnonymous]
-    public async Task<ActionResult<AuthResponse>> Login([FromBody] LoginRequest request)
+    [ProducesResponseType(typeof(AuthResponse), 200)]
+    public async Task<IActionResult> Login([FromBody] LoginRequest request)
     {
         if (!ModelState.IsValid)
         {
             return BadRequest(ModelState);
         }
 
+        var check = await _signInSecurityService.CheckAsync(request.Email, request.CaptchaId, request.CaptchaAnswer);
+        switch (check.Result)
+        {
+            case SignInCheckResult.Throttled:
+                Response.Headers.RetryAfter = check.RetryAfterSeconds?.ToString();
+                return StatusCode(429, new {
+                    message = "Too many failed sign-ins from this address. Try again later.",
+                    error = "SIGN_IN_THROTTLED",
+                    retryAfterSeconds = check.RetryAfterSeconds
+                });
+            case SignInCheckResult.Locked:
+                return AccountLocked(check.LockedUntil);
+            case SignInCheckResult.CaptchaRequired:
+                return BadRequest(new {
+                    message = "Enter the characters shown in the image.",
+                    error = "CAPTCHA_REQUIRED",
+                    captchaRequired = true
+                });
+        }
+
         var response = await _userService.LoginAsync(request);
         if (response == null)
         {
-            return Unauthorized("Invalid email or password.");
+            var failure = await _signInSecurityService.RecordFailureAsync(request.Email);
+            if (failure.LockedUntil != null)
+            {
+                return AccountLocked(failure.LockedUntil);
+            }
+
+            return Unauthorized(new {
+                message = "Invalid email or password.",
+                error = "INVALID_CREDENTIALS",
+                remainingAttempts = failure.RemainingAttempts,
+                captchaRequired = failure.CaptchaRequired
+            });
+        }
+
+        if (response.AccountDisabled)
+        {
+            return AccountDisabled();
+        }
+
+        return response.Challenge != null ? Ok(response.Challenge) : Ok(response.Session);
+    }
+
+    private ObjectResult AccountLocked(DateTime? lockedUntil) =>
+        StatusCode(423, new {
+            message = "This account is locked after too many failed sign-ins.",
+            error = "ACCOUNT_LOCKED",
+            lockedUntil
+        });
+
+    private ObjectResult AccountDisabled() =>
+        StatusCode(403, new {
+            message = "This account has been deactivated. Ask an administrator to reactivate it.",
+            error = "ACCOUNT_DISABLED"
+        });
+
+    // ------------------------------
+    // CAPTCHA
+    // A new challenge for the sign-in form, once login has answered with captchaRequired
+    // ------------------------------
+    [HttpGet("captcha")]
+    [AllowAnonymous]
+    public async Task<ActionResult<CaptchaChallengeResponse>> Captcha()
+    {
+        return Ok(await _signInSecurityService.CreateCaptchaAsync());
+    }
+
+    // ------------------------------
+    // Sign-in activity
+    // The account's recent sign-ins, failed ones included; the caller's own session is marked
+    // ------------------------------
+    [HttpGet("sessions")]
+    [Authorize]
+    public async Task<ActionResult<IEnumerable<SignInActivityDto>>> Sessions()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(idValue, out var userId))
+        {
+            return Unauthorized();
+        }
+
+        return Ok(await _signInSecurityService.GetActivityAsync(userId, GetCurrentSessionId()));
+    }
+
+    // ------------------------------
+    // Sign out other sessions
+    // SECURITY: revokes the refresh tokens of every session but the caller's
+    // ------------------------------
+    [HttpPost("sessions/revoke-others")]
+    [Authorize]
+    public async Task<ActionResult<RevokeSessionsResponse>> RevokeOtherSessions()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(idValue, out var userId))
+        {
+            return Unauthorized();
+        }
+
+        var revokedCount = await _signInSecurityService.RevokeOtherSessionsAsync(userId, GetCurrentSessionId());
+        return Ok(new RevokeSessionsResponse { RevokedCount = revokedCount });
+    }
+
+    private Guid? GetCurrentSessionId() =>
+        Guid.TryParse(User.FindFirstValue(JwtTokenGenerator.SessionClaim), out var sessionId) ? sessionId : null;
+
+    // ------------------------------
+    // Single sign-on nonce
+    // The frontend sends it with the authorization request; the ID token must come back with it
+    // ------------------------------
+    [HttpGet("oidc/nonce")]
+    [AllowAnonymous]
+    public async Task<ActionResult<OidcNonceResponse>> OidcNonce()
+    {
+        if (!_oidcTokenValidator.Enabled)
+        {
+            return NotFound(new { message = "ورود یکپارچه پیکربندی نشده است" });
+        }
+
+        return Ok(await _userService.IssueOidcNonceAsync());
+    }
+
+    // ------------------------------
+    // Single sign-on (OpenID Connect)
+    // SECURITY-CRITICAL: the ID token is verified against the provider's keys, must carry a nonce issued
+    // by oidc/nonce (once), and the role is mapped from its claims here; like login, this can answer
+    // with a TwoFactorChallengeResponse
+    // ------------------------------
+    [HttpPost("oidc")]
+    [AllowAnonymous]
+    [ProducesResponseType(typeof(AuthResponse), 200)]
+    public async Task<IActionResult> OidcLogin([FromBody] OidcLoginRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        if (!_oidcTokenValidator.Enabled)
+        {
+            return NotFound(new { message = "ورود یکپارچه پیکربندی نشده است" });
+        }
+
+        var identity = await _oidcTokenValidator.ValidateIdTokenAsync(request.IdToken);
+        if (identity == null || !await _userService.TakeOidcNonceAsync(identity.Nonce))
+        {
+            return Unauthorized("Invalid identity token.");
+        }
+
+        var response = await _userService.LoginWithOidcAsync(identity);
+        if (response == null)
+        {
+            return StatusCode(403, new { message = "این حساب نمی‌تواند با ورود یکپارچه وارد شود" });
+        }
+        if (response.AccountDisabled)
+        {
+            return AccountDisabled();
+        }
+
+        return response.Challenge != null ? Ok(response.Challenge) : Ok(response.Session);
+    }
+
+    // ------------------------------
+    // Refresh
+    // SECURITY: the refresh token is the credential here, so the (possibly expired) access token isn't needed
+    // ------------------------------
+    [HttpPost("refresh")]
+    [AllowAnonymous]
+    public async Task<ActionResult<RefreshTokenResponse>> Refresh([FromBody] RefreshTokenRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var response = await _userService.RefreshSessionAsync(request.RefreshToken);
+        if (response == null)
+        {
+            return Unauthorized("Refresh token is invalid or expired.");
+        }
+
+        return Ok(response);
+    }
+
+    // ------------------------------
+    // Logout
+    // Revokes the refresh token; the access token runs out on its own
+    // ------------------------------
+    [HttpPost("logout")]
+    [AllowAnonymous]
+    public async Task<IActionResult> Logout([FromBody] LogoutRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        await _userService.RevokeRefreshTokenAsync(request.RefreshToken);
+        return NoContent();
+    }
+
+    // ------------------------------
+    // Hub token
+    // SECURITY: issued for the hub audience, so it opens a notification hub connection and nothing else
+    // ------------------------------
+    [HttpPost("hub-token")]
+    [Authorize]
+    public async Task<ActionResult<HubTokenResponse>> HubToken()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(idValue, out var userId))
+        {
+            return Unauthorized();
+        }
+
+        var response = await _userService.IssueHubTokenAsync(userId);
+        if (response == null)
+        {
+            return Unauthorized();
         }
 
         return Ok(response);
@@ -245,6 +495,78 @@ public class AuthController : ControllerBase
         return Ok(user);
     }
 
+    // ------------------------------
+    // My permissions
+    // The custom role's when the user has one, otherwise the built-in role's; the API authorizes by the same list
+    // ------------------------------
+    [HttpGet("me/permissions")]
+    [Authorize]
+    public async Task<ActionResult<MyPermissionsResponse>> MyPermissions([FromServices] IRoleService roleService)
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(idValue, out var userId))
+        {
+            return Unauthorized();
+        }
+
+        var permissions = await roleService.GetMyPermissionsAsync(userId);
+        if (permissions == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(permissions);
+    }
+
+    // ------------------------------
+    // Impersonation
+    // SECURITY: audited; the token has no refresh token, and ImpersonationMiddleware refuses it
+    // for account settings and once the impersonation has ended
+    // ------------------------------
+    [HttpPost("impersonate")]
+    [RequirePermission(Permissions.UsersImpersonate)]
+    [ProducesResponseType(typeof(ImpersonationResponse), 200)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(404)]
+    public async Task<IActionResult> Impersonate(
+        [FromBody] ImpersonationRequest request,
+        [FromServices] IImpersonationService impersonationService)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(idValue, out var adminUserId))
+        {
+            return Unauthorized();
+        }
+
+        var (result, response) = await impersonationService.StartAsync(adminUserId, request);
+        return result switch
+        {
+            ImpersonationResult.Success => Ok(response),
+            ImpersonationResult.NotAllowed => BadRequest(new { message = "مشاهده سامانه از دید مدیران یا حساب‌های غیرفعال مجاز نیست" }),
+            _ => NotFound(new { message = "کاربر یافت نشد" })
+        };
+    }
+
+    [HttpPost("impersonate/end")]
+    [Authorize]
+    [ProducesResponseType(204)]
+    [ProducesResponseType(400)]
+    public async Task<IActionResult> EndImpersonation([FromServices] IImpersonationService impersonationService)
+    {
+        if (!Guid.TryParse(User.FindFirstValue(JwtTokenGenerator.ImpersonationClaim), out var impersonationId))
+        {
+            return BadRequest(new { message = "این نشست مشاهده از دید کاربر دیگر نیست" });
+        }
+
+        await impersonationService.EndAsync(impersonationId);
+        return NoContent();
+    }
+
     // ------------------------------
     // Update Profile
     // ------------------------------
@@ -298,4 +620,29 @@ public class AuthController : ControllerBase
 
         return Ok(new { success = true, message = "رمز عبور با موفقیت تغییر کرد" });
     }
+
+    // ------------------------------
+    // Password setup
+    // SECURITY: the token of an invitation or password reset link is the credential; it works once.
+    // The account's sessions are signed out, and it signs in with the new password from the login page.
+    // ------------------------------
+    [HttpPost("password/setup")]
+    [AllowAnonymous]
+    public async Task<IActionResult> SetupPassword(
+        [FromBody] PasswordSetupRequest request,
+        [FromServices] IUserDirectoryService userDirectoryService)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var (success, errorMessage) = await userDirectoryService.SetupPasswordAsync(request);
+        if (!success)
+        {
+            return BadRequest(new { message = errorMessage ?? "رمز عبور قابل تعیین نیست" });
+        }
+
+        return NoContent();
+    }
 }
@@ -2,7 +2,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Application.Services;
-using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 
 namespace Ticketing.Backend.Api.Controllers;
 
@@ -19,6 +19,7 @@ public class CategoriesController : ControllerBase
 
     [HttpGet]
     [AllowAnonymous]
+    [ProducesResponseType(typeof(IEnumerable<CategoryResponse>), 200)]
     public async Task<IActionResult> GetAll()
     {
         var categories = await _categoryService.GetAllAsync();
@@ -26,7 +27,8 @@ public class CategoriesController : ControllerBase
     }
 
     [HttpGet("admin")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.CategoriesManage)]
+    [ProducesResponseType(typeof(CategoryListResponse), 200)]
     public async Task<IActionResult> GetAdminCategories([FromQuery] string? search, [FromQuery] int page = 1, [FromQuery] int pageSize = 50)
     {
         var result = await _categoryService.GetAdminCategoriesAsync(search, page, pageSize);
@@ -34,7 +36,8 @@ public class CategoriesController : ControllerBase
     }
 
     [HttpPost]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.CategoriesManage)]
+    [ProducesResponseType(typeof(CategoryResponse), 201)]
     public async Task<IActionResult> Create([FromBody] CategoryRequest request)
     {
         if (!ModelState.IsValid)
@@ -54,7 +57,8 @@ public class CategoriesController : ControllerBase
     }
 
     [HttpPut("{id}")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.CategoriesManage)]
+    [ProducesResponseType(typeof(CategoryResponse), 200)]
     public async Task<IActionResult> Update(int id, [FromBody] CategoryRequest request)
     {
         if (!ModelState.IsValid)
@@ -78,7 +82,7 @@ public class CategoriesController : ControllerBase
     }
 
     [HttpDelete("{id}")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.CategoriesManage)]
     public async Task<IActionResult> Delete(int id)
     {
         try
@@ -97,7 +101,8 @@ public class CategoriesController : ControllerBase
     }
 
     [HttpGet("{categoryId}/subcategories")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.CategoriesManage)]
+    [ProducesResponseType(typeof(IEnumerable<SubcategoryResponse>), 200)]
     public async Task<IActionResult> GetSubcategories(int categoryId)
     {
         var subcategories = await _categoryService.GetSubcategoriesAsync(categoryId);
@@ -105,7 +110,8 @@ public class CategoriesController : ControllerBase
     }
 
     [HttpPost("{categoryId}/subcategories")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.CategoriesManage)]
+    [ProducesResponseType(typeof(SubcategoryResponse), 201)]
     public async Task<IActionResult> CreateSubcategory(int categoryId, [FromBody] SubcategoryRequest request)
     {
         if (!ModelState.IsValid)
@@ -129,7 +135,8 @@ public class CategoriesController : ControllerBase
     }
 
     [HttpPut("subcategories/{id}")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.CategoriesManage)]
+    [ProducesResponseType(typeof(SubcategoryResponse), 200)]
     public async Task<IActionResult> UpdateSubcategory(int id, [FromBody] SubcategoryRequest request)
     {
         if (!ModelState.IsValid)
@@ -153,7 +160,7 @@ public class CategoriesController : ControllerBase
     }
 
     [HttpDelete("subcategories/{id}")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.CategoriesManage)]
     public async Task<IActionResult> DeleteSubcategory(int id)
     {
         try
@@ -18,6 +18,7 @@ public class NotificationsController : ControllerBase
     }
 
     [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<NotificationDto>), 200)]
     public async Task<IActionResult> GetMyNotifications()
     {
         var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
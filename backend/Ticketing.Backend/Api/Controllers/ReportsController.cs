@@ -0,0 +1,35 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Infrastructure.Auth;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api/reports")]
+[RequirePermission(Permissions.ReportsView)]
+public class ReportsController : ControllerBase
+{
+    private readonly ISurveyService _surveyService;
+
+    public ReportsController(ISurveyService surveyService)
+    {
+        _surveyService = surveyService;
+    }
+
+    /// <summary>
+    /// Satisfaction survey results per technician, category and week or month (reports.view)
+    /// </summary>
+    [HttpGet("csat")]
+    public async Task<ActionResult<CsatReportResponse>> GetCsatReport([FromQuery] CsatReportQuery query)
+    {
+        if (query.From.HasValue && query.To.HasValue && query.From > query.To)
+        {
+            return BadRequest(new { message = "تاریخ شروع نباید بعد از تاریخ پایان باشد" });
+        }
+
+        var report = await _surveyService.GetCsatReportAsync(query);
+        return Ok(report);
+    }
+}
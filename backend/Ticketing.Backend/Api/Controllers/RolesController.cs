@@ -0,0 +1,142 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Infrastructure.Auth;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+/// <summary>
+/// Custom roles and their members. A role's permissions apply to its members' next request.
+/// </summary>
+[ApiController]
+[Route("api/[controller]")]
+[RequirePermission(Permissions.RolesManage)]
+public class RolesController : ControllerBase
+{
+    private readonly IRoleService _roleService;
+
+    public RolesController(IRoleService roleService)
+    {
+        _roleService = roleService;
+    }
+
+    /// <summary>
+    /// The built-in roles, then the custom ones with their members
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(IEnumerable<RoleDto>), 200)]
+    public async Task<IActionResult> GetRoles()
+    {
+        return Ok(await _roleService.GetRolesAsync());
+    }
+
+    /// <summary>
+    /// Every permission, with each base role's defaults and the permissions a custom role on it may hold
+    /// </summary>
+    [HttpGet("permissions")]
+    [ProducesResponseType(typeof(PermissionCatalogResponse), 200)]
+    public IActionResult GetPermissionCatalog()
+    {
+        return Ok(_roleService.GetPermissionCatalog());
+    }
+
+    /// <response code="400">Invalid request, or a permission the base role can't hold</response>
+    /// <response code="409">Another role has the name</response>
+    [HttpPost]
+    [ProducesResponseType(typeof(RoleDto), 200)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(409)]
+    public async Task<IActionResult> CreateRole([FromBody] RoleRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var (result, role) = await _roleService.CreateRoleAsync(request);
+        return result == RoleResult.Success ? Ok(role) : RoleError(result);
+    }
+
+    /// <response code="400">Invalid request, a permission the base role can't hold, or a new base role for a role with members</response>
+    /// <response code="409">Another role has the name</response>
+    [HttpPut("{id:guid}")]
+    [ProducesResponseType(typeof(RoleDto), 200)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(404)]
+    [ProducesResponseType(409)]
+    public async Task<IActionResult> UpdateRole(Guid id, [FromBody] RoleRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var (result, role) = await _roleService.UpdateRoleAsync(id, request);
+        return result == RoleResult.Success ? Ok(role) : RoleError(result);
+    }
+
+    /// <summary>
+    /// Delete a custom role; its members keep their base role
+    /// </summary>
+    [HttpDelete("{id:guid}")]
+    [ProducesResponseType(204)]
+    [ProducesResponseType(404)]
+    public async Task<IActionResult> DeleteRole(Guid id)
+    {
+        var result = await _roleService.DeleteRoleAsync(id);
+        return result == RoleResult.Success ? NoContent() : RoleError(result);
+    }
+
+    /// <summary>
+    /// Give the user this role, replacing the custom role they had. They must already have its base role.
+    /// </summary>
+    [HttpPut("{id:guid}/members/{userId:guid}")]
+    [ProducesResponseType(204)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(404)]
+    public async Task<IActionResult> AddMember(Guid id, Guid userId)
+    {
+        var adminId = GetCurrentUserId();
+        if (adminId == null)
+        {
+            return Unauthorized();
+        }
+
+        var result = await _roleService.AddMemberAsync(id, userId, adminId.Value);
+        return result == RoleResult.Success ? NoContent() : RoleError(result);
+    }
+
+    [HttpDelete("{id:guid}/members/{userId:guid}")]
+    [ProducesResponseType(204)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(404)]
+    public async Task<IActionResult> RemoveMember(Guid id, Guid userId)
+    {
+        var adminId = GetCurrentUserId();
+        if (adminId == null)
+        {
+            return Unauthorized();
+        }
+
+        var result = await _roleService.RemoveMemberAsync(id, userId, adminId.Value);
+        return result == RoleResult.Success ? NoContent() : RoleError(result);
+    }
+
+    private IActionResult RoleError(RoleResult result) => result switch
+    {
+        RoleResult.UserNotFound => NotFound(new { message = "کاربر یافت نشد یا عضو این نقش نیست" }),
+        RoleResult.NameExists => Conflict(new { message = "نقشی با این نام وجود دارد", error = "ROLE_NAME_EXISTS" }),
+        RoleResult.InvalidPermissions => BadRequest(new { message = "برخی دسترسی‌ها برای این نقش پایه مجاز نیستند", error = "INVALID_PERMISSIONS" }),
+        RoleResult.BaseRoleMismatch => BadRequest(new { message = "نقش پایه کاربر با نقش پایه این نقش یکسان نیست", error = "BASE_ROLE_MISMATCH" }),
+        RoleResult.HasMembers => BadRequest(new { message = "نقش پایه نقشی که عضو دارد قابل تغییر نیست", error = "ROLE_HAS_MEMBERS" }),
+        RoleResult.OwnAccount => BadRequest(new { message = "نمی‌توانید نقش خودتان را تغییر دهید" }),
+        _ => NotFound(new { message = "نقش یافت نشد" })
+    };
+
+    private Guid? GetCurrentUserId()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        return Guid.TryParse(idValue, out var userId) ? userId : null;
+    }
+}
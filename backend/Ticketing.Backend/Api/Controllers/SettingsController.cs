@@ -2,7 +2,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Application.Services;
-using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 
 namespace Ticketing.Backend.Api.Controllers;
 
@@ -17,11 +17,23 @@ public class SettingsController : ControllerBase
         _systemSettingsService = systemSettingsService;
     }
 
+    /// <summary>
+    /// Settings every user needs (upload limits, session timeout, password rules, require2FA).
+    /// Readable without signing in, for the sign-in and registration pages.
+    /// </summary>
+    [HttpGet("public")]
+    [AllowAnonymous]
+    public async Task<ActionResult<PublicSettingsResponse>> GetPublicSettings()
+    {
+        var settings = await _systemSettingsService.GetPublicSettingsAsync();
+        return Ok(settings);
+    }
+
     /// <summary>
     /// Get current system settings
     /// </summary>
     [HttpGet("system")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.SettingsSystem)]
     public async Task<ActionResult<SystemSettingsResponse>> GetSystemSettings()
     {
         var settings = await _systemSettingsService.GetSystemSettingsAsync();
@@ -29,10 +41,10 @@ public class SettingsController : ControllerBase
     }
 
     /// <summary>
-    /// Update system settings (Admin only)
+    /// Update system settings (settings.system)
     /// </summary>
     [HttpPut("system")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.SettingsSystem)]
     public async Task<ActionResult<SystemSettingsResponse>> UpdateSystemSettings([FromBody] SystemSettingsUpdateRequest request)
     {
         if (!ModelState.IsValid)
@@ -0,0 +1,71 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Infrastructure.Auth;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api/sla")]
+[Authorize]
+public class SlaController : ControllerBase
+{
+    private readonly ISlaService _slaService;
+
+    public SlaController(ISlaService slaService)
+    {
+        _slaService = slaService;
+    }
+
+    /// <summary>
+    /// SLA policies and the business calendar; every signed-in user reads them for the countdowns
+    /// </summary>
+    [HttpGet("settings")]
+    public async Task<ActionResult<SlaSettingsDto>> GetSettings()
+    {
+        var settings = await _slaService.GetSettingsAsync();
+        return Ok(settings);
+    }
+
+    /// <summary>
+    /// Replace the SLA policies and business calendar (sla.manage)
+    /// </summary>
+    [HttpPut("settings")]
+    [RequirePermission(Permissions.SlaManage)]
+    public async Task<ActionResult<SlaSettingsDto>> UpdateSettings([FromBody] SlaSettingsDto request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var settings = await _slaService.UpdateSettingsAsync(request);
+        return Ok(settings);
+    }
+
+    /// <summary>
+    /// Escalate a breached clock of the ticket now, as the sweep would (sla.manage)
+    /// </summary>
+    [HttpPost("/api/tickets/{id}/sla/escalations")]
+    [RequirePermission(Permissions.SlaManage)]
+    public async Task<IActionResult> Escalate(Guid id, [FromBody] SlaEscalationRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var escalated = await _slaService.EscalateAsync(id, request);
+        if (escalated == null)
+        {
+            return NotFound();
+        }
+        if (escalated == false)
+        {
+            return Conflict(new { message = "این مهلت SLA به پایان نرسیده یا پیش‌تر پیگیری شده است" });
+        }
+
+        return NoContent();
+    }
+}
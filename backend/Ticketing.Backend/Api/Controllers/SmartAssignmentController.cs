@@ -2,13 +2,13 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Application.Services;
-using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 
 namespace Ticketing.Backend.Api.Controllers;
 
 [ApiController]
 [Route("api/admin/assignment")]
-[Authorize(Roles = nameof(UserRole.Admin))]
+[RequirePermission(Permissions.AutomationManage)]
 public class SmartAssignmentController : ControllerBase
 {
     private readonly ISystemSettingsService _systemSettingsService;
@@ -1,8 +1,10 @@
 using System.Security.Claims;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Application.Services;
 using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 
 namespace Ticketing.Backend.Api.Controllers;
 
@@ -34,26 +36,40 @@ public class TechnicianTicketsController : ControllerBase
     /// Get tickets assigned to the current technician
     /// </summary>
     [HttpGet("tickets")]
-    [Authorize(Roles = nameof(UserRole.Technician))]
-    public async Task<IActionResult> GetMyTickets()
+    [RequirePermission(Permissions.TicketsViewAssigned)]
+    [ProducesResponseType(typeof(TicketListResponse), 200)]
+    public async Task<IActionResult> GetMyTickets([FromQuery] TicketListQuery query)
     {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
         var userId = GetCurrentUserId();
         if (userId == null)
         {
             return Unauthorized();
         }
 
-        var tickets = await _ticketService.GetTicketsAsync(
-            userId.Value,
-            UserRole.Technician,
-            status: null,
-            priority: null,
-            assignedTo: null,
-            createdBy: null,
-            search: null
-        );
-
+        var tickets = await _ticketService.GetTicketsAsync(userId.Value, UserRole.Technician, query);
         return Ok(tickets);
     }
-}
 
+    /// <summary>
+    /// Counts by status and assignee over the current technician's tickets
+    /// </summary>
+    [HttpGet("tickets/summary")]
+    [RequirePermission(Permissions.TicketsViewAssigned)]
+    [ProducesResponseType(typeof(TicketSummaryResponse), 200)]
+    public async Task<IActionResult> GetMyTicketSummary([FromQuery] TicketFilterQuery query)
+    {
+        var userId = GetCurrentUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        var summary = await _ticketService.GetTicketSummaryAsync(userId.Value, UserRole.Technician, query);
+        return Ok(summary);
+    }
+}
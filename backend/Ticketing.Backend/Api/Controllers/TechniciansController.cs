@@ -2,13 +2,13 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Application.Services;
-using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 
 namespace Ticketing.Backend.Api.Controllers;
 
 [ApiController]
 [Route("api/admin/technicians")]
-[Authorize(Roles = nameof(UserRole.Admin))]
+[Authorize]
 public class TechniciansController : ControllerBase
 {
     private readonly ITechnicianService _technicianService;
@@ -24,6 +24,8 @@ public class TechniciansController : ControllerBase
     /// Get all technicians
     /// </summary>
     [HttpGet]
+    [RequirePermission(Permissions.TechniciansManage, Permissions.TicketsAssign)]
+    [ProducesResponseType(typeof(IEnumerable<TechnicianResponse>), 200)]
     public async Task<IActionResult> GetAllTechnicians()
     {
         var technicians = await _technicianService.GetAllTechniciansAsync();
@@ -34,6 +36,8 @@ public class TechniciansController : ControllerBase
     /// Get technician by ID
     /// </summary>
     [HttpGet("{id}")]
+    [RequirePermission(Permissions.TechniciansManage)]
+    [ProducesResponseType(typeof(TechnicianResponse), 200)]
     public async Task<IActionResult> GetTechnician(Guid id)
     {
         var technician = await _technicianService.GetTechnicianByIdAsync(id);
@@ -48,6 +52,8 @@ public class TechniciansController : ControllerBase
     /// Create a new technician
     /// </summary>
     [HttpPost]
+    [RequirePermission(Permissions.TechniciansManage)]
+    [ProducesResponseType(typeof(TechnicianResponse), 201)]
     public async Task<IActionResult> CreateTechnician([FromBody] TechnicianCreateRequest request)
     {
         if (!ModelState.IsValid)
@@ -78,8 +84,9 @@ public class TechniciansController : ControllerBase
     /// <response code="400">Invalid request data</response>
     /// <response code="404">Technician not found</response>
     /// <response code="401">Unauthorized</response>
-    /// <response code="403">Forbidden - Admin role required</response>
+    /// <response code="403">Forbidden - technicians.manage permission required</response>
     [HttpPut("{id}")]
+    [RequirePermission(Permissions.TechniciansManage)]
     [ProducesResponseType(typeof(TechnicianResponse), 200)]
     [ProducesResponseType(400)]
     [ProducesResponseType(404)]
@@ -105,6 +112,7 @@ public class TechniciansController : ControllerBase
     /// Update technician status (active/inactive)
     /// </summary>
     [HttpPatch("{id}/status")]
+    [RequirePermission(Permissions.TechniciansManage)]
     public async Task<IActionResult> UpdateTechnicianStatus(Guid id, [FromBody] TechnicianStatusUpdateRequest request)
     {
         var success = await _technicianService.UpdateTechnicianStatusAsync(id, request.IsActive);
@@ -131,6 +139,7 @@ public class TechniciansController : ControllerBase
     /// <response code="400">User does not have Technician role</response>
     /// <response code="409">Technician is already linked to a User</response>
     [HttpPatch("{id}/link-user")]
+    [RequirePermission(Permissions.TechniciansManage)]
     [ProducesResponseType(typeof(TechnicianResponse), 200)]
     [ProducesResponseType(404)]
     [ProducesResponseType(400)]
@@ -4,6 +4,7 @@ using Microsoft.AspNetCore.Mvc;
 using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Application.Services;
 using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 
 namespace Ticketing.Backend.Api.Controllers;
 
@@ -13,11 +14,13 @@ namespace Ticketing.Backend.Api.Controllers;
 public class TicketsController : ControllerBase
 {
     private readonly ITicketService _ticketService;
+    private readonly ISurveyService _surveyService;
     private readonly ILogger<TicketsController> _logger;
 
-    public TicketsController(ITicketService ticketService, ILogger<TicketsController> logger)
+    public TicketsController(ITicketService ticketService, ISurveyService surveyService, ILogger<TicketsController> logger)
     {
         _ticketService = ticketService;
+        _surveyService = surveyService;
         _logger = logger;
     }
 
@@ -34,8 +37,14 @@ public class TicketsController : ControllerBase
     }
 
     [HttpGet]
-    public async Task<IActionResult> GetTickets([FromQuery] TicketStatus? status, [FromQuery] TicketPriority? priority, [FromQuery] Guid? assignedTo, [FromQuery] Guid? createdBy, [FromQuery] string? search)
+    [ProducesResponseType(typeof(TicketListResponse), 200)]
+    public async Task<IActionResult> GetTickets([FromQuery] TicketListQuery query)
     {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
         var context = GetUserContext();
         if (context == null)
         {
@@ -43,11 +52,51 @@ public class TicketsController : ControllerBase
         }
 
         // Service method applies role-based filtering (clients see their own tickets, technicians see assignments)
-        var tickets = await _ticketService.GetTicketsAsync(context.Value.userId, context.Value.role, status, priority, assignedTo, createdBy, search);
+        var tickets = await _ticketService.GetTicketsAsync(context.Value.userId, context.Value.role, query);
+        return Ok(tickets);
+    }
+
+    /// <summary>
+    /// Counts by status and assignee over the tickets the list would return with the same filters
+    /// </summary>
+    [HttpGet("summary")]
+    [ProducesResponseType(typeof(TicketSummaryResponse), 200)]
+    public async Task<IActionResult> GetTicketSummary([FromQuery] TicketFilterQuery query)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var summary = await _ticketService.GetTicketSummaryAsync(context.Value.userId, context.Value.role, query);
+        return Ok(summary);
+    }
+
+    /// <summary>
+    /// Open tickets of a category that read like the given title and description, best match first
+    /// </summary>
+    [HttpGet("similar")]
+    [ProducesResponseType(typeof(IEnumerable<SimilarTicketResponse>), 200)]
+    public async Task<IActionResult> GetSimilarTickets([FromQuery] SimilarTicketsQuery query)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var tickets = await _ticketService.GetSimilarTicketsAsync(context.Value.userId, context.Value.role, query);
         return Ok(tickets);
     }
 
     [HttpGet("{id}")]
+    [ProducesResponseType(typeof(TicketResponse), 200)]
     public async Task<IActionResult> GetTicket(Guid id)
     {
         var context = GetUserContext();
@@ -65,7 +114,8 @@ public class TicketsController : ControllerBase
     }
 
     [HttpPost]
-    [Authorize(Roles = nameof(UserRole.Client))]
+    [RequirePermission(Permissions.TicketsCreate)]
+    [ProducesResponseType(typeof(TicketResponse), 201)]
     public async Task<IActionResult> CreateTicket(TicketCreateRequest request)
     {
         if (!ModelState.IsValid)
@@ -94,7 +144,13 @@ public class TicketsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Change a ticket's status, priority or details. Staff need tickets.update; clients change their own
+    /// tickets, such as closing a resolution, under tickets.viewOwn, which only the client base role holds.
+    /// </summary>
     [HttpPatch("{id}")]
+    [RequirePermission(Permissions.TicketsUpdate, Permissions.TicketsViewOwn)]
+    [ProducesResponseType(typeof(TicketResponse), 200)]
     public async Task<IActionResult> UpdateTicket(Guid id, TicketUpdateRequest request)
     {
         var context = GetUserContext();
@@ -103,16 +159,24 @@ public class TicketsController : ControllerBase
             return Unauthorized();
         }
 
-        var ticket = await _ticketService.UpdateTicketAsync(id, context.Value.userId, context.Value.role, request);
-        if (ticket == null)
+        try
         {
-            return Forbid();
+            var ticket = await _ticketService.UpdateTicketAsync(id, context.Value.userId, context.Value.role, request);
+            if (ticket == null)
+            {
+                return Forbid();
+            }
+            return Ok(ticket);
+        }
+        catch (StatusChangeForbiddenException ex)
+        {
+            return StatusCode(403, new { message = ex.Message, error = "STATUS_CHANGE_FORBIDDEN" });
         }
-        return Ok(ticket);
     }
 
     [HttpPut("{id}/assign-technician")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.TicketsAssign)]
+    [ProducesResponseType(typeof(TicketResponse), 200)]
     public async Task<IActionResult> AssignTechnician(Guid id, [FromBody] AssignTechnicianRequest request)
     {
         if (!ModelState.IsValid)
@@ -129,8 +193,9 @@ public class TicketsController : ControllerBase
     }
 
     [HttpPost("{id}/assign")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.TicketsAssign)]
     [Obsolete("Use PUT /api/tickets/{id}/assign-technician instead")]
+    [ProducesResponseType(typeof(TicketResponse), 200)]
     public async Task<IActionResult> AssignTicket(Guid id, [FromBody] Guid technicianId)
     {
         var ticket = await _ticketService.AssignTicketAsync(id, technicianId);
@@ -142,6 +207,7 @@ public class TicketsController : ControllerBase
     }
 
     [HttpGet("{id}/messages")]
+    [ProducesResponseType(typeof(IEnumerable<TicketMessageDto>), 200)]
     public async Task<IActionResult> GetMessages(Guid id)
     {
         var context = GetUserContext();
@@ -154,7 +220,25 @@ public class TicketsController : ControllerBase
         return Ok(messages);
     }
 
+    /// <summary>
+    /// Timeline events of a ticket other than its messages, newest first
+    /// </summary>
+    [HttpGet("{id}/activities")]
+    [ProducesResponseType(typeof(IEnumerable<TicketActivityDto>), 200)]
+    public async Task<IActionResult> GetActivities(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var activities = await _ticketService.GetActivitiesAsync(id, context.Value.userId, context.Value.role);
+        return Ok(activities);
+    }
+
     [HttpPost("{id}/messages")]
+    [ProducesResponseType(typeof(TicketMessageDto), 200)]
     public async Task<IActionResult> AddMessage(Guid id, [FromBody] TicketMessageRequest request)
     {
         var context = GetUserContext();
@@ -179,10 +263,69 @@ public class TicketsController : ControllerBase
     }
 
     /// <summary>
-    /// Get tickets for calendar view (Admin only)
+    /// Fold duplicate tickets into this one (tickets.merge)
+    /// </summary>
+    [HttpPost("{id}/merge")]
+    [RequirePermission(Permissions.TicketsMerge)]
+    [ProducesResponseType(typeof(TicketMergeResponse), 200)]
+    public async Task<IActionResult> MergeTickets(Guid id, [FromBody] TicketMergeRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var (result, merge) = await _ticketService.MergeTicketsAsync(id, context.Value.userId, request.TicketIds);
+        return result switch
+        {
+            MergeTicketsResult.Success => Ok(merge),
+            MergeTicketsResult.NotMergeable => BadRequest(new { message = "تیکت‌های ادغام‌شده، حل‌شده یا بسته را نمی‌توان ادغام کرد" }),
+            MergeTicketsResult.DifferentClients => BadRequest(new { message = "فقط تیکت‌های یک کاربر را می‌توان با هم ادغام کرد" }),
+            _ => NotFound()
+        };
+    }
+
+    /// <summary>
+    /// Answer the satisfaction survey of a closed ticket (its client only, once)
+    /// </summary>
+    [HttpPost("{id}/survey")]
+    [RequirePermission(Permissions.TicketsViewOwn)]
+    [ProducesResponseType(typeof(TicketSurveyDto), 200)]
+    public async Task<IActionResult> SubmitSurvey(Guid id, [FromBody] TicketSurveyRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var (result, survey) = await _surveyService.SubmitSurveyAsync(id, context.Value.userId, request);
+        return result switch
+        {
+            SubmitSurveyResult.Success => Ok(survey),
+            SubmitSurveyResult.TicketNotClosed => BadRequest(new { message = "نظرسنجی فقط برای تیکت‌های بسته‌شده است" }),
+            SubmitSurveyResult.AlreadySubmitted => Conflict(new { message = "نظرسنجی این تیکت قبلاً ثبت شده است" }),
+            _ => NotFound()
+        };
+    }
+
+    /// <summary>
+    /// Get tickets for calendar view (tickets.viewAll)
     /// </summary>
     [HttpGet("calendar")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.TicketsViewAll)]
+    [ProducesResponseType(typeof(IEnumerable<TicketCalendarResponse>), 200)]
     public async Task<IActionResult> GetCalendarTickets([FromQuery] string start, [FromQuery] string end)
     {
         if (!DateTime.TryParse(start, out var startDate) || !DateTime.TryParse(end, out var endDate))
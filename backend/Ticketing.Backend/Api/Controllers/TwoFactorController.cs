@@ -0,0 +1,228 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Infrastructure.Auth;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+/// <summary>
+/// TOTP two-factor authentication. Setup and enable also take the enrollment challenge token that
+/// login answers with when require2FA is on and the account has no authenticator yet.
+/// </summary>
+[ApiController]
+[Route("api/auth/2fa")]
+public class TwoFactorController : ControllerBase
+{
+    private readonly ITwoFactorService _twoFactorService;
+    private readonly IJwtTokenGenerator _jwtTokenGenerator;
+
+    public TwoFactorController(ITwoFactorService twoFactorService, IJwtTokenGenerator jwtTokenGenerator)
+    {
+        _twoFactorService = twoFactorService;
+        _jwtTokenGenerator = jwtTokenGenerator;
+    }
+
+    private Guid? GetCurrentUserId()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        return Guid.TryParse(idValue, out var userId) ? userId : null;
+    }
+
+    /// <summary>
+    /// SECURITY-CRITICAL: The signed-in user, or the account behind an enrollment challenge token.
+    /// Verification challenges are refused here: they only go to /verify.
+    /// </summary>
+    private (Guid UserId, TwoFactorChallengeClaims? Challenge)? GetEnrollingUser()
+    {
+        if (User.Identity?.IsAuthenticated == true)
+        {
+            var userId = GetCurrentUserId();
+            return userId.HasValue ? (userId.Value, null) : null;
+        }
+
+        var authorization = Request.Headers.Authorization.ToString();
+        if (!authorization.StartsWith("Bearer ", StringComparison.OrdinalIgnoreCase))
+        {
+            return null;
+        }
+
+        var challenge = _jwtTokenGenerator.ReadChallengeToken(authorization["Bearer ".Length..].Trim());
+        return challenge is { Enrollment: true } ? (challenge.UserId, challenge) : null;
+    }
+
+    /// <summary>
+    /// The answer to a refused code during sign-in: the lock (423), or a challenge that has taken
+    /// all its wrong codes (401 with challengeExpired, so the password has to be entered again)
+    /// </summary>
+    private ObjectResult? SignInCodeRefused(TwoFactorCodeResult result, SignInFailure? failure) => result switch
+    {
+        TwoFactorCodeResult.Locked => StatusCode(423, new
+        {
+            message = "This account is locked after too many failed sign-ins.",
+            error = "ACCOUNT_LOCKED",
+            lockedUntil = failure?.LockedUntil
+        }),
+        TwoFactorCodeResult.ChallengeSpent => Unauthorized(new
+        {
+            message = "تعداد تلاش‌های ناموفق این ورود به پایان رسیده است؛ دوباره وارد شوید",
+            error = "CHALLENGE_EXPIRED",
+            challengeExpired = true
+        }),
+        _ => null
+    };
+
+    /// <summary>
+    /// Whether the signed-in user has an authenticator, and how many recovery codes are left
+    /// </summary>
+    [HttpGet]
+    [Authorize]
+    public async Task<ActionResult<TwoFactorStatusResponse>> GetStatus()
+    {
+        var userId = GetCurrentUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        var status = await _twoFactorService.GetStatusAsync(userId.Value);
+        return status == null ? NotFound() : Ok(status);
+    }
+
+    /// <summary>
+    /// Create a new TOTP secret; it isn't active until confirmed with /enable
+    /// </summary>
+    [HttpPost("setup")]
+    [AllowAnonymous]
+    public async Task<ActionResult<TwoFactorSetupResponse>> Setup()
+    {
+        var enrolling = GetEnrollingUser();
+        if (enrolling == null)
+        {
+            return Unauthorized();
+        }
+
+        var setup = await _twoFactorService.StartSetupAsync(enrolling.Value.UserId);
+        if (setup == null)
+        {
+            return Conflict(new { message = "احراز هویت دو مرحله‌ای از قبل فعال است" });
+        }
+
+        return Ok(setup);
+    }
+
+    /// <summary>
+    /// Confirm the secret with a code. With an enrollment challenge token this completes the sign-in,
+    /// and wrong codes count as at /verify.
+    /// </summary>
+    [HttpPost("enable")]
+    [AllowAnonymous]
+    public async Task<ActionResult<TwoFactorEnableResponse>> Enable([FromBody] TwoFactorCodeRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var enrolling = GetEnrollingUser();
+        if (enrolling == null)
+        {
+            return Unauthorized();
+        }
+
+        var (result, response, failure) = await _twoFactorService.EnableAsync(enrolling.Value.UserId, request.Code, enrolling.Value.Challenge);
+        if (result == TwoFactorCodeResult.Success)
+        {
+            return Ok(response);
+        }
+
+        return SignInCodeRefused(result, failure) ?? BadRequest(new
+        {
+            message = "کد تأیید نادرست است",
+            remainingAttempts = failure?.RemainingAttempts
+        });
+    }
+
+    /// <summary>
+    /// Turn two-factor authentication off; needs a current code and is refused while require2FA is on
+    /// </summary>
+    [HttpPost("disable")]
+    [Authorize]
+    public async Task<IActionResult> Disable([FromBody] TwoFactorCodeRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userId = GetCurrentUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        var (success, errorMessage) = await _twoFactorService.DisableAsync(userId.Value, request.Code);
+        if (!success)
+        {
+            return BadRequest(new { message = errorMessage });
+        }
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Replace all recovery codes; the old ones stop working
+    /// </summary>
+    [HttpPost("recovery-codes")]
+    [Authorize]
+    public async Task<ActionResult<TwoFactorRecoveryCodesResponse>> RegenerateRecoveryCodes([FromBody] TwoFactorCodeRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userId = GetCurrentUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        var response = await _twoFactorService.RegenerateRecoveryCodesAsync(userId.Value, request.Code);
+        if (response == null)
+        {
+            return BadRequest(new { message = "کد تأیید نادرست است" });
+        }
+
+        return Ok(response);
+    }
+
+    /// <summary>
+    /// Second sign-in step: trade the login challenge and a code for the session. Wrong codes count
+    /// towards the account's lock like wrong passwords: 401 with remainingAttempts, then 423; the
+    /// challenge itself takes CodeAttemptsPerChallenge of them.
+    /// </summary>
+    [HttpPost("verify")]
+    [AllowAnonymous]
+    public async Task<ActionResult<AuthResponse>> Verify([FromBody] TwoFactorVerifyRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var (result, session, failure) = await _twoFactorService.VerifyChallengeAsync(request);
+        if (result == TwoFactorCodeResult.Success)
+        {
+            return Ok(session);
+        }
+
+        // A wrong code and an expired challenge get the same answer
+        return SignInCodeRefused(result, failure) ?? Unauthorized(new
+        {
+            message = "کد تأیید نادرست است یا مهلت ورود به پایان رسیده است",
+            remainingAttempts = failure?.RemainingAttempts
+        });
+    }
+}
@@ -4,7 +4,7 @@ using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Application.Services;
-using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 
 namespace Ticketing.Backend.Api.Controllers;
 
@@ -14,23 +14,159 @@ public class UsersController : ControllerBase
 {
     private readonly IUserService _userService;
     private readonly IUserPreferencesService _preferencesService;
+    private readonly IUserDirectoryService _userDirectoryService;
 
-    public UsersController(IUserService userService, IUserPreferencesService preferencesService)
+    public UsersController(
+        IUserService userService,
+        IUserPreferencesService preferencesService,
+        IUserDirectoryService userDirectoryService)
     {
         _userService = userService;
         _preferencesService = preferencesService;
+        _userDirectoryService = userDirectoryService;
     }
 
     [HttpGet]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.UsersManage)]
+    [ProducesResponseType(typeof(IEnumerable<UserAccountDto>), 200)]
     public async Task<IActionResult> GetUsers()
     {
-        var users = await _userService.GetAllAsync();
+        var users = await _userDirectoryService.GetAccountsAsync();
         return Ok(users);
     }
 
+    /// <summary>
+    /// Create an account and email the user a link to choose their password (valid for 7 days)
+    /// </summary>
+    /// <response code="400">Invalid request, or an email domain the settings don't allow</response>
+    /// <response code="409">The email already has an account</response>
+    [HttpPost("invite")]
+    [RequirePermission(Permissions.UsersManage)]
+    [ProducesResponseType(typeof(UserAccountDto), 200)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(409)]
+    public async Task<IActionResult> Invite([FromBody] UserInviteRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var (result, user) = await _userDirectoryService.InviteAsync(request);
+        return result switch
+        {
+            UserDirectoryResult.EmailExists => Conflict(new { message = "برای این ایمیل حساب کاربری وجود دارد", error = "EMAIL_EXISTS" }),
+            UserDirectoryResult.EmailDomainNotAllowed => BadRequest(new { message = "دامنه این ایمیل در تنظیمات مجاز نیست", error = "REGISTRATION_POLICY" }),
+            _ => Ok(user)
+        };
+    }
+
+    /// <summary>
+    /// Invite many users at once; rows that fail are reported without stopping the rest
+    /// </summary>
+    [HttpPost("import")]
+    [RequirePermission(Permissions.UsersManage)]
+    [ProducesResponseType(typeof(UserImportResponse), 200)]
+    [ProducesResponseType(400)]
+    public async Task<IActionResult> Import([FromBody] UserImportRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        return Ok(await _userDirectoryService.ImportAsync(request));
+    }
+
+    [HttpPut("{id}/role")]
+    [RequirePermission(Permissions.UsersManage)]
+    [ProducesResponseType(204)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(404)]
+    public async Task<IActionResult> UpdateRole(Guid id, [FromBody] UserRoleUpdateRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var adminId = GetCurrentUserId();
+        if (adminId == null)
+        {
+            return Unauthorized();
+        }
+
+        var result = await _userDirectoryService.UpdateRoleAsync(id, request.Role!.Value, adminId.Value);
+        return DirectoryResult(result, "نمی‌توانید نقش خودتان را تغییر دهید");
+    }
+
+    /// <summary>
+    /// Deactivated users can't sign in, and their sessions end when the access token expires; their
+    /// tickets and history stay
+    /// </summary>
+    [HttpPut("{id}/status")]
+    [RequirePermission(Permissions.UsersManage)]
+    [ProducesResponseType(204)]
+    [ProducesResponseType(400)]
+    [ProducesResponseType(404)]
+    public async Task<IActionResult> UpdateStatus(Guid id, [FromBody] UserStatusUpdateRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var adminId = GetCurrentUserId();
+        if (adminId == null)
+        {
+            return Unauthorized();
+        }
+
+        var result = await _userDirectoryService.UpdateStatusAsync(id, request.IsActive!.Value, adminId.Value);
+        return DirectoryResult(result, "نمی‌توانید حساب خودتان را غیرفعال کنید");
+    }
+
+    /// <summary>
+    /// Email the user a link to choose a new password (valid for 24 hours)
+    /// </summary>
+    [HttpPost("{id}/reset-password")]
+    [RequirePermission(Permissions.UsersManage)]
+    [ProducesResponseType(204)]
+    [ProducesResponseType(404)]
+    public async Task<IActionResult> ResetPassword(Guid id)
+    {
+        var result = await _userDirectoryService.SendPasswordResetAsync(id);
+        return DirectoryResult(result, null);
+    }
+
+    /// <summary>
+    /// Revoke every refresh token of the user, signing them out everywhere once their access token expires
+    /// </summary>
+    [HttpPost("{id}/sessions/revoke")]
+    [RequirePermission(Permissions.UsersManage)]
+    [ProducesResponseType(typeof(RevokeSessionsResponse), 200)]
+    [ProducesResponseType(404)]
+    public async Task<IActionResult> RevokeSessions(Guid id)
+    {
+        var revokedCount = await _userDirectoryService.RevokeSessionsAsync(id);
+        if (revokedCount == null)
+        {
+            return NotFound(new { message = "کاربر یافت نشد" });
+        }
+
+        return Ok(new RevokeSessionsResponse { RevokedCount = revokedCount.Value });
+    }
+
+    private IActionResult DirectoryResult(UserDirectoryResult result, string? ownAccountMessage) => result switch
+    {
+        UserDirectoryResult.NotFound => NotFound(new { message = "کاربر یافت نشد" }),
+        UserDirectoryResult.OwnAccount => BadRequest(new { message = ownAccountMessage }),
+        _ => NoContent()
+    };
+
     [HttpGet("technicians")]
-    [Authorize(Roles = nameof(UserRole.Admin))]
+    [RequirePermission(Permissions.UsersManage, Permissions.TicketsAssign)]
+    [ProducesResponseType(typeof(IEnumerable<UserDto>), 200)]
     public async Task<IActionResult> GetTechnicians()
     {
         var users = await _userService.GetTechniciansAsync();
@@ -0,0 +1,51 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Infrastructure.Auth;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api/workflow")]
+[Authorize]
+public class WorkflowController : ControllerBase
+{
+    private readonly IWorkflowService _workflowService;
+
+    public WorkflowController(IWorkflowService workflowService)
+    {
+        _workflowService = workflowService;
+    }
+
+    /// <summary>
+    /// The ticket workflow; every signed-in user reads it to know which status changes they may make
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<TicketWorkflowDto>> GetWorkflow()
+    {
+        var workflow = await _workflowService.GetWorkflowAsync();
+        return Ok(workflow);
+    }
+
+    /// <summary>
+    /// Replace the ticket workflow (workflow.manage)
+    /// </summary>
+    [HttpPut]
+    [RequirePermission(Permissions.WorkflowManage)]
+    public async Task<ActionResult<TicketWorkflowDto>> UpdateWorkflow([FromBody] TicketWorkflowDto request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+        var error = _workflowService.GetWorkflowError(request);
+        if (error != null)
+        {
+            return BadRequest(new { message = error });
+        }
+
+        var workflow = await _workflowService.UpdateWorkflowAsync(request);
+        return Ok(workflow);
+    }
+}
@@ -0,0 +1,69 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.SignalR;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Api.Hubs;
+
+/// <summary>
+/// Pushes ticket events to signed-in users (frontend lib/ticket-hub-events.ts). Every connection
+/// joins its user's and role's groups; a ticket's group is joined on request, once the ticket
+/// is one the user may see.
+/// </summary>
+[Authorize]
+public class NotificationHub : Hub
+{
+    private readonly ITicketService _ticketService;
+
+    public NotificationHub(ITicketService ticketService)
+    {
+        _ticketService = ticketService;
+    }
+
+    public static string UserGroup(Guid userId) => $"user:{userId}";
+
+    public static string RoleGroup(UserRole role) => $"role:{role}";
+
+    public static string TicketGroup(Guid ticketId) => $"ticket:{ticketId}";
+
+    public override async Task OnConnectedAsync()
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            Context.Abort();
+            return;
+        }
+
+        await Groups.AddToGroupAsync(Context.ConnectionId, UserGroup(context.Value.userId));
+        await Groups.AddToGroupAsync(Context.ConnectionId, RoleGroup(context.Value.role));
+        await base.OnConnectedAsync();
+    }
+
+    public async Task JoinTicketGroup(Guid ticketId)
+    {
+        var context = GetUserContext() ?? throw new HubException("Unauthorized");
+        var ticket = await _ticketService.GetTicketAsync(ticketId, context.userId, context.role);
+        if (ticket == null)
+        {
+            throw new HubException("Ticket not found");
+        }
+
+        await Groups.AddToGroupAsync(Context.ConnectionId, TicketGroup(ticketId));
+    }
+
+    public Task LeaveTicketGroup(Guid ticketId) =>
+        Groups.RemoveFromGroupAsync(Context.ConnectionId, TicketGroup(ticketId));
+
+    private (Guid userId, UserRole role)? GetUserContext()
+    {
+        var idValue = Context.User?.FindFirstValue(ClaimTypes.NameIdentifier);
+        var roleValue = Context.User?.FindFirstValue(ClaimTypes.Role);
+        if (Guid.TryParse(idValue, out var userId) && Enum.TryParse<UserRole>(roleValue, out var role))
+        {
+            return (userId, role);
+        }
+        return null;
+    }
+}
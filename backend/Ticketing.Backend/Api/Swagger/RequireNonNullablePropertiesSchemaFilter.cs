@@ -0,0 +1,37 @@
+using System.Reflection;
+using System.Text.Json;
+using Microsoft.OpenApi.Models;
+using Swashbuckle.AspNetCore.SwaggerGen;
+
+namespace Ticketing.Backend.Api.Swagger;
+
+/// <summary>
+/// Marks every property that can't be null as required, so the frontend's generated types
+/// only make the nullable ones optional.
+/// </summary>
+public class RequireNonNullablePropertiesSchemaFilter : ISchemaFilter
+{
+    private readonly NullabilityInfoContext _nullability = new();
+
+    public void Apply(OpenApiSchema schema, SchemaFilterContext context)
+    {
+        if (schema.Properties == null || schema.Properties.Count == 0)
+        {
+            return;
+        }
+
+        foreach (var property in context.Type.GetProperties(BindingFlags.Public | BindingFlags.Instance))
+        {
+            var name = JsonNamingPolicy.CamelCase.ConvertName(property.Name);
+            if (!schema.Properties.ContainsKey(name))
+            {
+                continue;
+            }
+
+            if (_nullability.Create(property).ReadState != NullabilityState.Nullable)
+            {
+                schema.Required.Add(name);
+            }
+        }
+    }
+}
@@ -0,0 +1,46 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+public class AttachmentDto
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    // Set when the file was sent with a reply rather than on the ticket itself
+    public Guid? MessageId { get; set; }
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public long Size { get; set; }
+    public Guid? UploadedByUserId { get; set; }
+    public string? UploadedByName { get; set; }
+    public DateTime UploadedAt { get; set; }
+}
+
+/// <summary>
+/// Start a resumable upload: the client sends chunks with a Content-Range header and the server
+/// reports how many bytes it already holds, so an interrupted upload continues where it stopped
+/// </summary>
+public class AttachmentUploadSessionRequest
+{
+    [Required(ErrorMessage = "نام فایل الزامی است")]
+    [MaxLength(255, ErrorMessage = "نام فایل حداکثر ۲۵۵ کاراکتر است")]
+    public string FileName { get; set; } = string.Empty;
+
+    [Required(ErrorMessage = "نوع فایل الزامی است")]
+    [MaxLength(200, ErrorMessage = "نوع فایل حداکثر ۲۰۰ کاراکتر است")]
+    public string ContentType { get; set; } = string.Empty;
+
+    [Range(1, long.MaxValue, ErrorMessage = "فایل خالی است")]
+    public long Size { get; set; }
+
+    public Guid? MessageId { get; set; }
+}
+
+public class AttachmentUploadSessionResponse
+{
+    public Guid UploadId { get; set; }
+    public int ChunkSize { get; set; }
+    // Where the next chunk starts
+    public long ReceivedBytes { get; set; }
+    public DateTime? ExpiresAt { get; set; }
+}
@@ -39,16 +39,16 @@ public class RegisterRequest
     public string? Department { get; set; }
 }
 
-public record LoginRequest(string Email, string Password);
+// CaptchaId and CaptchaAnswer answer a challenge from GET /api/auth/captcha, once sign-in asks for one
+public record LoginRequest(string Email, string Password, Guid? CaptchaId = null, string? CaptchaAnswer = null);
 
 public class ChangePasswordRequest
 {
     [Required(ErrorMessage = "رمز عبور فعلی الزامی است")]
     public string CurrentPassword { get; set; } = string.Empty;
 
+    // The password policy in the system settings is checked by UserService.ChangePasswordAsync
     [Required(ErrorMessage = "رمز عبور جدید الزامی است")]
-    [MinLength(8, ErrorMessage = "رمز عبور جدید باید حداقل ۸ کاراکتر باشد")]
-    [RegularExpression(@"^(?=.*[a-zA-Z])(?=.*\d).+$", ErrorMessage = "رمز عبور جدید باید شامل حداقل یک حرف و یک عدد باشد")]
     public string NewPassword { get; set; } = string.Empty;
 
     [Required(ErrorMessage = "تکرار رمز عبور الزامی است")]
@@ -68,9 +68,83 @@ public class UpdateProfileRequest
 public class AuthResponse
 {
     public string Token { get; set; } = string.Empty;
+    // Trades for a new access token at /api/auth/refresh
+    public string RefreshToken { get; set; } = string.Empty;
     public UserDto? User { get; set; }
 }
 
+public class RefreshTokenRequest
+{
+    [Required(ErrorMessage = "توکن نوسازی الزامی است")]
+    public string RefreshToken { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// A new access token; the refresh token that was sent is revoked and this one replaces it
+/// </summary>
+public class RefreshTokenResponse
+{
+    public string Token { get; set; } = string.Empty;
+    public string RefreshToken { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Single sign-on: the ID token the identity provider issued to the frontend
+/// </summary>
+public class OidcLoginRequest
+{
+    [Required(ErrorMessage = "توکن هویت الزامی است")]
+    public string IdToken { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Single sign-on: the nonce to send to the identity provider; its ID token is only accepted with it
+/// </summary>
+public class OidcNonceResponse
+{
+    public string Nonce { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+}
+
+/// <summary>
+/// A short-lived token for the notification hub connection; the rest of the API refuses it
+/// </summary>
+public class HubTokenResponse
+{
+    public string AccessToken { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+}
+
+/// <summary>
+/// View the app as another user. The reason is kept in the audit entry.
+/// </summary>
+public class ImpersonationRequest
+{
+    [Required(ErrorMessage = "کاربر الزامی است")]
+    public Guid? UserId { get; set; }
+
+    [Required(ErrorMessage = "دلیل الزامی است")]
+    [MaxLength(500, ErrorMessage = "دلیل حداکثر ۵۰۰ کاراکتر است")]
+    public string Reason { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// An access token for the user without a refresh token; it stops working at ExpiresAt or when the
+/// impersonation ends
+/// </summary>
+public class ImpersonationResponse
+{
+    public string Token { get; set; } = string.Empty;
+    public UserDto User { get; set; } = new();
+    public DateTime ExpiresAt { get; set; }
+}
+
+public class LogoutRequest
+{
+    [Required(ErrorMessage = "توکن نوسازی الزامی است")]
+    public string RefreshToken { get; set; } = string.Empty;
+}
+
 public class UserDto
 {
     public Guid Id { get; set; }
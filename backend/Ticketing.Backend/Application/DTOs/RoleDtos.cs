@@ -0,0 +1,63 @@
+using System.ComponentModel.DataAnnotations;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+/// <summary>
+/// A role as GET /api/roles lists it. The built-in roles come first, with their role name as the id
+/// and no members listed; they can't be changed.
+/// </summary>
+public class RoleDto
+{
+    public string Id { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public UserRole BaseRole { get; set; }
+    public List<string> Permissions { get; set; } = new();
+    public bool IsBuiltIn { get; set; }
+    public List<Guid> MemberIds { get; set; } = new();
+}
+
+public class RoleRequest
+{
+    [Required(ErrorMessage = "نام نقش الزامی است")]
+    [MaxLength(100, ErrorMessage = "نام نقش حداکثر ۱۰۰ کاراکتر است")]
+    public string Name { get; set; } = string.Empty;
+
+    [MaxLength(500, ErrorMessage = "توضیحات حداکثر ۵۰۰ کاراکتر است")]
+    public string? Description { get; set; }
+
+    // Nullable so a missing base role is refused rather than read as Client
+    [Required(ErrorMessage = "نقش پایه الزامی است")]
+    public UserRole? BaseRole { get; set; }
+
+    [Required(ErrorMessage = "فهرست دسترسی‌ها الزامی است")]
+    public List<string> Permissions { get; set; } = new();
+}
+
+/// <summary>
+/// Every permission, and for each base role the ones it grants by default and the ones a custom role on
+/// it may hold. The app builds its role editor from this instead of keeping its own copy.
+/// </summary>
+public class PermissionCatalogResponse
+{
+    public List<string> Permissions { get; set; } = new();
+    public List<BaseRolePermissionsDto> BaseRoles { get; set; } = new();
+}
+
+public class BaseRolePermissionsDto
+{
+    public UserRole Role { get; set; }
+    public List<string> Defaults { get; set; } = new();
+    public List<string> Available { get; set; } = new();
+}
+
+/// <summary>
+/// The signed-in user's permissions: the custom role's when they have one, otherwise the base role's
+/// </summary>
+public class MyPermissionsResponse
+{
+    public Guid? RoleId { get; set; }
+    public string? RoleName { get; set; }
+    public List<string> Permissions { get; set; } = new();
+}
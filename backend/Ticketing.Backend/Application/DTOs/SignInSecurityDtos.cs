@@ -0,0 +1,34 @@
+namespace Ticketing.Backend.Application.DTOs;
+
+/// <summary>
+/// A CAPTCHA for the sign-in form; send its id and the characters shown with the next login
+/// </summary>
+public class CaptchaChallengeResponse
+{
+    public Guid Id { get; set; }
+    // data: URL of the image
+    public string Image { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+}
+
+/// <summary>
+/// One password sign-in to the account, newest first
+/// </summary>
+public class SignInActivityDto
+{
+    public Guid Id { get; set; }
+    public DateTime OccurredAt { get; set; }
+    public bool Succeeded { get; set; }
+    public string? IpAddress { get; set; }
+    // Browser and operating system read from the user agent
+    public string? Device { get; set; }
+    // The session the caller is using
+    public bool IsCurrent { get; set; }
+    // A sign-in from an address the account hasn't used before, right after failed attempts
+    public bool Suspicious { get; set; }
+}
+
+public class RevokeSessionsResponse
+{
+    public int RevokedCount { get; set; }
+}
@@ -0,0 +1,113 @@
+using System.ComponentModel.DataAnnotations;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+/// <summary>
+/// SLA policies and the business calendar their targets are counted in
+/// </summary>
+public class SlaSettingsDto
+{
+    public List<SlaPolicyDto> Policies { get; set; } = new();
+
+    [Required(ErrorMessage = "تقویم کاری الزامی است")]
+    public BusinessCalendarDto Calendar { get; set; } = new();
+
+    // A clock turns "at risk" once this share of its target is used up
+    [Range(1, 100, ErrorMessage = "درصد هشدار باید بین ۱ تا ۱۰۰ باشد")]
+    public int AtRiskPercent { get; set; } = 75;
+}
+
+/// <summary>
+/// The most specific policy matching a ticket's priority and category sets its targets: one naming
+/// both beats one naming either, which beats a catch-all. Earlier policies win ties.
+/// </summary>
+public class SlaPolicyDto
+{
+    [Required(ErrorMessage = "شناسه سیاست الزامی است")]
+    public string Id { get; set; } = string.Empty;
+
+    [Required(ErrorMessage = "نام سیاست الزامی است")]
+    public string Name { get; set; } = string.Empty;
+
+    // Null matches every priority
+    public TicketPriority? Priority { get; set; }
+    // Null matches every category
+    public int? CategoryId { get; set; }
+
+    [Range(1, int.MaxValue, ErrorMessage = "مهلت پاسخ اولیه باید حداقل ۱ دقیقه باشد")]
+    public int FirstResponseMinutes { get; set; }
+
+    [Range(1, int.MaxValue, ErrorMessage = "مهلت حل باید حداقل ۱ دقیقه باشد")]
+    public int ResolutionMinutes { get; set; }
+
+    public SlaEscalationDto Escalation { get; set; } = new();
+}
+
+/// <summary>
+/// What happens when a target of the policy is breached
+/// </summary>
+public class SlaEscalationDto
+{
+    // Notify the assignee and the administrators
+    public bool Notify { get; set; }
+    // Reassign the ticket to this technician's user; null leaves the assignment alone
+    public Guid? ReassignToUserId { get; set; }
+}
+
+public class BusinessCalendarDto
+{
+    // Indexed by weekday, 0 = Sunday … 6 = Saturday; null when closed all day
+    [MinLength(7, ErrorMessage = "ساعات کاری هر هفت روز هفته الزامی است")]
+    [MaxLength(7, ErrorMessage = "ساعات کاری هر هفت روز هفته الزامی است")]
+    public List<BusinessHoursDto?> Hours { get; set; } = new();
+
+    // One-off closures, "yyyy-MM-dd" in the Gregorian calendar (e.g. religious holidays)
+    public List<string> Holidays { get; set; } = new();
+
+    // Closures every year, "MM-dd" in the Solar Hijri calendar (e.g. 01-01 for Nowruz)
+    public List<string> RecurringHolidays { get; set; } = new();
+}
+
+/// <summary>
+/// Working hours of one weekday in the system timezone
+/// </summary>
+public class BusinessHoursDto
+{
+    [RegularExpression("^([01][0-9]|2[0-3]):[0-5][0-9]$", ErrorMessage = "ساعت باید به شکل HH:mm باشد")]
+    public string Start { get; set; } = "08:00";
+
+    [RegularExpression("^([01][0-9]|2[0-3]):[0-5][0-9]$|^24:00$", ErrorMessage = "ساعت باید به شکل HH:mm باشد")]
+    public string End { get; set; } = "16:00";
+}
+
+/// <summary>
+/// Escalate a breached clock by hand instead of waiting for the next sweep
+/// </summary>
+public class SlaEscalationRequest
+{
+    [Required(ErrorMessage = "شناسه سیاست الزامی است")]
+    public string PolicyId { get; set; } = string.Empty;
+
+    public SlaClock Clock { get; set; }
+}
+
+public enum SlaClock
+{
+    Response,
+    Resolution
+}
+
+/// <summary>
+/// A ticket's SLA clock. Waiting for the client pauses it: PausedMinutes holds the business minutes
+/// already spent paused, and PausedSince is set while the ticket waits.
+/// </summary>
+public class TicketSlaStateDto
+{
+    public DateTime? FirstRespondedAt { get; set; }
+    public DateTime? ResolvedAt { get; set; }
+    public int PausedMinutes { get; set; }
+    public DateTime? PausedSince { get; set; }
+    // When a breach was last escalated
+    public DateTime? EscalatedAt { get; set; }
+}
@@ -0,0 +1,83 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+/// <summary>
+/// The satisfaction survey a client answers once their ticket is closed
+/// </summary>
+public class TicketSurveyRequest
+{
+    // 1 (very dissatisfied) to 5 (very satisfied)
+    [Range(1, 5, ErrorMessage = "امتیاز باید بین ۱ تا ۵ باشد")]
+    public int Rating { get; set; }
+
+    [MaxLength(1000, ErrorMessage = "توضیحات حداکثر ۱۰۰۰ کاراکتر است")]
+    public string? Comment { get; set; }
+
+    // The first answer fixed the problem, without further back-and-forth
+    public bool ResolvedOnFirstContact { get; set; }
+}
+
+public class TicketSurveyDto
+{
+    public int Rating { get; set; }
+    public string? Comment { get; set; }
+    public bool ResolvedOnFirstContact { get; set; }
+    public DateTime SubmittedAt { get; set; }
+}
+
+/// <summary>
+/// Survey results of a group of tickets; the averages are null when nobody answered
+/// </summary>
+public class CsatSummaryDto
+{
+    public int Responses { get; set; }
+    public double? AverageRating { get; set; }
+    // Share of answers rating 4 or 5, 0–1
+    public double? SatisfiedRate { get; set; }
+    // Share of answers saying the first contact fixed the problem, 0–1
+    public double? FirstContactResolutionRate { get; set; }
+}
+
+public class CsatTechnicianSummaryDto : CsatSummaryDto
+{
+    public Guid TechnicianId { get; set; }
+    public string TechnicianName { get; set; } = string.Empty;
+}
+
+public class CsatCategorySummaryDto : CsatSummaryDto
+{
+    public int CategoryId { get; set; }
+    public string CategoryName { get; set; } = string.Empty;
+}
+
+public class CsatPeriodSummaryDto : CsatSummaryDto
+{
+    // First day of the week (Saturday) or month
+    public DateTime Start { get; set; }
+}
+
+public enum CsatPeriod
+{
+    Week,
+    Month
+}
+
+/// <summary>
+/// Query for GET /api/reports/csat; both dates are inclusive and default to the last 30 days
+/// </summary>
+public class CsatReportQuery
+{
+    public DateTime? From { get; set; }
+    public DateTime? To { get; set; }
+    public CsatPeriod Period { get; set; } = CsatPeriod.Week;
+}
+
+public class CsatReportResponse
+{
+    public CsatSummaryDto Overall { get; set; } = new();
+    public List<CsatTechnicianSummaryDto> ByTechnician { get; set; } = new();
+    public List<CsatCategorySummaryDto> ByCategory { get; set; } = new();
+    // Oldest first
+    public List<CsatPeriodSummaryDto> ByPeriod { get; set; } = new();
+}
@@ -36,6 +36,26 @@ public class SystemSettingsResponse
     public List<string> AllowedEmailDomains { get; set; } = new();
 }
 
+/// <summary>
+/// The part of the system settings every user, and the sign-in pages, may read
+/// </summary>
+public class PublicSettingsResponse
+{
+    public string AppName { get; set; } = string.Empty;
+    public string SupportEmail { get; set; } = string.Empty;
+    public string SupportPhone { get; set; } = string.Empty;
+    public string DefaultLanguage { get; set; } = "fa";
+    public string Timezone { get; set; } = "Asia/Tehran";
+
+    public bool AllowClientAttachments { get; set; } = true;
+    public int MaxAttachmentSizeMB { get; set; } = 10;
+
+    public int PasswordMinLength { get; set; } = 6;
+    public bool Require2FA { get; set; } = false;
+    public int SessionTimeoutMinutes { get; set; } = 60;
+    public List<string> AllowedEmailDomains { get; set; } = new();
+}
+
 public class SystemSettingsUpdateRequest
 {
     // App / General
@@ -13,6 +13,10 @@ public class TechnicianResponse
     /// Linked User.Id (for JWT sub / assignment). Null = technician cannot be assigned to tickets.
     /// </summary>
     public Guid? UserId { get; set; }
+    /// <summary>
+    /// Survey results of the tickets assigned to the technician
+    /// </summary>
+    public CsatSummaryDto Satisfaction { get; set; } = new();
 }
 
 public class TechnicianCreateRequest
@@ -1,3 +1,4 @@
+using System.ComponentModel.DataAnnotations;
 using Ticketing.Backend.Domain.Enums;
 
 namespace Ticketing.Backend.Application.DTOs;
@@ -44,6 +45,125 @@ public class TicketResponse
     public DateTime CreatedAt { get; set; }
     public DateTime? UpdatedAt { get; set; }
     public DateTime? DueDate { get; set; }
+    // Thread summary, so lists needn't load the messages themselves
+    public string? LastResponseBy { get; set; }
+    public DateTime? LastResponseAt { get; set; }
+    public int ResponseCount { get; set; }
+    public TicketSlaStateDto Sla { get; set; } = new();
+    // When the ticket was last resolved or closed; null while it is being worked on
+    public DateTime? ResolvedAt { get; set; }
+    public int ReopenCount { get; set; }
+    // The client's answer to the satisfaction survey; null until they give one
+    public TicketSurveyDto? Survey { get; set; }
+    // Set on a duplicate folded into another ticket
+    public Guid? MergedIntoId { get; set; }
+    public int AttachmentCount { get; set; }
+    // Only the detail endpoint lists the attachments; lists send the count
+    public List<AttachmentDto>? Attachments { get; set; }
+}
+
+/// <summary>
+/// Filters of a ticket list, on top of what the caller's role may see. Repeat status and priority
+/// to match any of several values.
+/// </summary>
+public class TicketFilterQuery
+{
+    public List<TicketStatus>? Status { get; set; }
+    public List<TicketPriority>? Priority { get; set; }
+    public int? CategoryId { get; set; }
+    public int? SubcategoryId { get; set; }
+    public Guid? AssignedTo { get; set; }
+    public Guid? CreatedBy { get; set; }
+    // true: only tickets nobody is assigned to; false: only assigned ones
+    public bool? Unassigned { get; set; }
+    public DateTime? CreatedFrom { get; set; }
+    // A date without a time covers that whole day
+    public DateTime? CreatedTo { get; set; }
+    public string? Search { get; set; }
+}
+
+public class TicketListQuery : TicketFilterQuery
+{
+    [Range(1, int.MaxValue, ErrorMessage = "شماره صفحه باید حداقل ۱ باشد")]
+    public int Page { get; set; } = 1;
+
+    [Range(1, 100, ErrorMessage = "اندازه صفحه باید بین ۱ تا ۱۰۰ باشد")]
+    public int PageSize { get; set; } = 20;
+
+    // field:direction, e.g. createdAt:desc (the default)
+    [RegularExpression("^(createdAt|updatedAt|dueDate|priority|status|title):(asc|desc)$", ErrorMessage = "ترتیب نامعتبر است")]
+    public string? Sort { get; set; }
+}
+
+public class TicketListResponse
+{
+    public List<TicketResponse> Items { get; set; } = new();
+    public int TotalCount { get; set; }
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+}
+
+/// <summary>
+/// Counts over the tickets a list query with the same filters would match
+/// </summary>
+public class TicketSummaryResponse
+{
+    public int TotalCount { get; set; }
+    // Statuses without tickets are left out
+    public List<TicketStatusCount> ByStatus { get; set; } = new();
+    // Unassigned tickets are not listed
+    public List<TicketAssigneeCount> ByAssignee { get; set; } = new();
+}
+
+public class TicketStatusCount
+{
+    public TicketStatus Status { get; set; }
+    public int Count { get; set; }
+}
+
+public class TicketAssigneeCount
+{
+    public Guid UserId { get; set; }
+    public int Count { get; set; }
+}
+
+/// <summary>
+/// A draft or ticket to find duplicates of, among the open tickets of the category across every client
+/// </summary>
+public class SimilarTicketsQuery
+{
+    [Required(ErrorMessage = "دسته‌بندی الزامی است")]
+    public int? CategoryId { get; set; }
+
+    [Required(ErrorMessage = "عنوان الزامی است")]
+    public string Title { get; set; } = string.Empty;
+
+    public string? Description { get; set; }
+
+    // The ticket being compared itself, left out of the results
+    public Guid? ExcludeId { get; set; }
+
+    // Without it weak matches are left out
+    [Range(0.0, 1.0, ErrorMessage = "حداقل امتیاز باید بین ۰ تا ۱ باشد")]
+    public double? MinScore { get; set; }
+
+    [Range(1, 20, ErrorMessage = "تعداد نتایج باید بین ۱ تا ۲۰ باشد")]
+    public int? Limit { get; set; }
+}
+
+/// <summary>
+/// Only what a client may see of another client's ticket
+/// </summary>
+public class SimilarTicketResponse
+{
+    public Guid Id { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public TicketStatus Status { get; set; }
+    public DateTime CreatedAt { get; set; }
+    // 0–1, best match first
+    public double Score { get; set; }
+    // Whether the caller may open the ticket itself
+    public bool CanView { get; set; }
 }
 
 public class TicketMessageRequest
@@ -63,6 +183,18 @@ public class TicketMessageDto
     public TicketStatus? Status { get; set; }
 }
 
+public class TicketActivityDto
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public Guid ActorUserId { get; set; }
+    public string ActorName { get; set; } = string.Empty;
+    public string ActorEmail { get; set; } = string.Empty;
+    public TicketActivityType Type { get; set; }
+    public string Message { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; }
+}
+
 public class TicketCalendarResponse
 {
     public Guid Id { get; set; }
@@ -79,4 +211,42 @@ public class TicketCalendarResponse
 public class AssignTechnicianRequest
 {
     public Guid TechnicianId { get; set; }
-}
\ No newline at end of file
+}
+
+/// <summary>
+/// Payload of the hub's ticket:assigned event
+/// </summary>
+public class TicketAssignedEvent
+{
+    public Guid TicketId { get; set; }
+    public Guid? AssignedToUserId { get; set; }
+    public string? AssignedToName { get; set; }
+    public Guid? AssignedByUserId { get; set; }
+}
+
+/// <summary>
+/// Payload of the hub's ticket:messageAdded event
+/// </summary>
+public class TicketMessageAddedEvent
+{
+    public Guid TicketId { get; set; }
+    public TicketMessageDto Message { get; set; } = new();
+    // Thread length after the message was added
+    public int ResponseCount { get; set; }
+}
+
+/// <summary>
+/// Duplicates to fold into the ticket named in the route
+/// </summary>
+public class TicketMergeRequest
+{
+    [Required(ErrorMessage = "تیکت‌های تکراری الزامی است")]
+    [MinLength(1, ErrorMessage = "دست‌کم یک تیکت تکراری انتخاب کنید")]
+    public List<Guid> TicketIds { get; set; } = new();
+}
+
+public class TicketMergeResponse
+{
+    public TicketResponse Primary { get; set; } = new();
+    public List<Guid> MergedTicketIds { get; set; } = new();
+}
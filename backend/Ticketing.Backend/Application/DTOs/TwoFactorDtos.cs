@@ -0,0 +1,74 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+/// <summary>
+/// Answer of login and register when the password alone doesn't start a session: the account has an
+/// authenticator (enter a code at /api/auth/2fa/verify) or require2FA is on and it has none yet
+/// (set one up at /api/auth/2fa/setup and /api/auth/2fa/enable with the challenge token).
+/// </summary>
+public class TwoFactorChallengeResponse
+{
+    public bool TwoFactorRequired { get; set; } = true;
+    public bool EnrollmentRequired { get; set; }
+    public string ChallengeToken { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+}
+
+/// <summary>
+/// Either the session a sign-in starts or the two-factor step it still needs; neither when an admin
+/// has deactivated the account
+/// </summary>
+public class LoginResult
+{
+    public AuthResponse? Session { get; set; }
+    public TwoFactorChallengeResponse? Challenge { get; set; }
+    public bool AccountDisabled { get; set; }
+}
+
+public class TwoFactorStatusResponse
+{
+    public bool Enabled { get; set; }
+    public int RecoveryCodesRemaining { get; set; }
+}
+
+public class TwoFactorSetupResponse
+{
+    // Base32, for authenticator apps that can't scan the QR code
+    public string Secret { get; set; } = string.Empty;
+    public string OtpauthUri { get; set; } = string.Empty;
+    // PNG data URL of the otpauth URI
+    public string QrCodeDataUrl { get; set; } = string.Empty;
+}
+
+public class TwoFactorCodeRequest
+{
+    [Required(ErrorMessage = "کد تأیید الزامی است")]
+    public string Code { get; set; } = string.Empty;
+}
+
+public class TwoFactorVerifyRequest
+{
+    [Required(ErrorMessage = "توکن چالش الزامی است")]
+    public string ChallengeToken { get; set; } = string.Empty;
+
+    // One of the two: a code from the authenticator or a single-use recovery code
+    public string? Code { get; set; }
+    public string? RecoveryCode { get; set; }
+}
+
+public class TwoFactorRecoveryCodesResponse
+{
+    public List<string> RecoveryCodes { get; set; } = new();
+}
+
+/// <summary>
+/// Enabling with an enrollment challenge token completes the sign-in, so the session comes back too
+/// </summary>
+public class TwoFactorEnableResponse
+{
+    public List<string> RecoveryCodes { get; set; } = new();
+    public string? Token { get; set; }
+    public string? RefreshToken { get; set; }
+    public UserDto? User { get; set; }
+}
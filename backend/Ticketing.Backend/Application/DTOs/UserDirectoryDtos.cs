@@ -0,0 +1,98 @@
+using System.ComponentModel.DataAnnotations;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+/// <summary>
+/// A user as the admin directory lists them: the profile and the state of the account
+/// </summary>
+public class UserAccountDto : UserDto
+{
+    public bool IsActive { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime? LastLoginAt { get; set; }
+    // Custom role, when the user has one
+    public Guid? RoleId { get; set; }
+    public string? RoleName { get; set; }
+}
+
+/// <summary>
+/// Creates the account and emails the user a link to choose their password
+/// </summary>
+public class UserInviteRequest
+{
+    [Required(ErrorMessage = "نام الزامی است")]
+    [MaxLength(200, ErrorMessage = "نام حداکثر ۲۰۰ کاراکتر است")]
+    public string FullName { get; set; } = string.Empty;
+
+    [Required(ErrorMessage = "ایمیل الزامی است")]
+    [EmailAddress(ErrorMessage = "ایمیل معتبر نیست")]
+    public string Email { get; set; } = string.Empty;
+
+    // Nullable so a missing role is refused rather than read as Client
+    [Required(ErrorMessage = "نقش الزامی است")]
+    public UserRole? Role { get; set; }
+
+    public string? PhoneNumber { get; set; }
+    public string? Department { get; set; }
+}
+
+/// <summary>
+/// Invitations in bulk. The rows are checked one by one, so a bad row is reported without
+/// stopping the rest.
+/// </summary>
+public class UserImportRequest
+{
+    [Required(ErrorMessage = "فهرست کاربران الزامی است")]
+    [MaxLength(500, ErrorMessage = "حداکثر ۵۰۰ کاربر در هر بار")]
+    public List<UserImportRow> Users { get; set; } = new();
+}
+
+public class UserImportRow
+{
+    public string FullName { get; set; } = string.Empty;
+    public string Email { get; set; } = string.Empty;
+    public UserRole? Role { get; set; }
+    public string? PhoneNumber { get; set; }
+    public string? Department { get; set; }
+}
+
+public class UserImportResponse
+{
+    public int CreatedCount { get; set; }
+    // Rows whose email already has an account
+    public int SkippedCount { get; set; }
+    public List<UserImportError> Errors { get; set; } = new();
+}
+
+public class UserImportError
+{
+    // Index of the row in the request's users
+    public int Row { get; set; }
+    public string Email { get; set; } = string.Empty;
+    public string Message { get; set; } = string.Empty;
+}
+
+public class UserRoleUpdateRequest
+{
+    [Required(ErrorMessage = "نقش الزامی است")]
+    public UserRole? Role { get; set; }
+}
+
+public class UserStatusUpdateRequest
+{
+    [Required(ErrorMessage = "وضعیت الزامی است")]
+    public bool? IsActive { get; set; }
+}
+
+/// <summary>
+/// Choose a password with the token of an invitation or password reset link
+/// </summary>
+public class PasswordSetupRequest
+{
+    [Required(ErrorMessage = "پیوند نامعتبر است")]
+    public string Token { get; set; } = string.Empty;
+
+    [Required(ErrorMessage = "رمز عبور الزامی است")]
+    public string Password { get; set; } = string.Empty;
+}
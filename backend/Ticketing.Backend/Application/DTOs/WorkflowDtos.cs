@@ -0,0 +1,34 @@
+using System.ComponentModel.DataAnnotations;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+/// <summary>
+/// Which status changes each role may make. Staying in the same status is always allowed.
+/// </summary>
+public class TicketWorkflowDto
+{
+    public List<WorkflowTransitionDto> Transitions { get; set; } = new();
+
+    // Resolved tickets the client neither confirms nor reopens are closed after this many days; 0 never
+    [Range(0, 365, ErrorMessage = "مهلت بستن خودکار باید بین ۰ تا ۳۶۵ روز باشد")]
+    public int AutoCloseResolvedDays { get; set; } = 7;
+}
+
+public class WorkflowTransitionDto
+{
+    public TicketStatus From { get; set; }
+    public TicketStatus To { get; set; }
+    public List<UserRole> Roles { get; set; } = new();
+    // A note means the change has to be made with a reply; an assignee, that a technician is assigned
+    public List<WorkflowRequirement> Requires { get; set; } = new();
+}
+
+/// <summary>
+/// What a status change must carry besides the new status
+/// </summary>
+public enum WorkflowRequirement
+{
+    Note,
+    Assignee
+}
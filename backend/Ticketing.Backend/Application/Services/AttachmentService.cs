@@ -0,0 +1,440 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Attachments;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// Result of an attachment operation
+/// </summary>
+public enum AttachmentResult
+{
+    Success,
+    NotFound,
+    // Clients may not attach files while the settings turn client attachments off; only the uploader or an admin deletes
+    Forbidden,
+    TooLarge,
+    // The reply the file is meant for isn't on the ticket
+    InvalidMessage,
+    // Completing an upload that hasn't received every byte yet
+    Incomplete,
+    // A chunk whose Content-Range doesn't fit the upload's declared size
+    InvalidRange,
+    // The file doesn't start with the signature of the content type it was declared as
+    ContentMismatch
+}
+
+/// <summary>
+/// A stored file opened for reading
+/// </summary>
+public record AttachmentContent(Stream Content, string FileName, string ContentType);
+
+public interface IAttachmentService
+{
+    Task<IEnumerable<AttachmentDto>?> GetTicketAttachmentsAsync(Guid ticketId, Guid userId, UserRole role);
+    Task<(AttachmentResult result, AttachmentDto? attachment)> UploadAsync(Guid ticketId, Guid userId, UserRole role, Guid? messageId, string fileName, string contentType, long size, Stream content);
+    Task<(AttachmentResult result, AttachmentUploadSessionResponse? session)> CreateUploadAsync(Guid ticketId, Guid userId, UserRole role, AttachmentUploadSessionRequest request);
+    Task<AttachmentUploadSessionResponse?> GetUploadAsync(Guid uploadId, Guid userId);
+    Task<(AttachmentResult result, AttachmentUploadSessionResponse? session)> AppendChunkAsync(
+        Guid uploadId, Guid userId, long start, long end, long totalBytes, Stream chunk);
+    Task<(AttachmentResult result, AttachmentDto? attachment)> CompleteUploadAsync(Guid uploadId, Guid userId);
+    Task<bool> CancelUploadAsync(Guid uploadId, Guid userId);
+    Task<AttachmentResult> DeleteAttachmentAsync(Guid id, Guid userId, UserRole role);
+    Task<AttachmentContent?> OpenAttachmentAsync(Guid id, Guid userId, UserRole role);
+
+    // Deletes resumable uploads past their expiry, and part files left without an upload; returns how many
+    Task<int> DiscardExpiredUploadsAsync();
+}
+
+/// <summary>
+/// Ticket attachments, kept as files under the attachment storage folder. Small files come in one
+/// multipart request; large ones through a resumable upload whose bytes collect in a part file.
+/// </summary>
+public class AttachmentService : IAttachmentService
+{
+    private const long BytesPerMB = 1024 * 1024;
+    private const string UploadsFolder = "uploads";
+
+    private readonly AppDbContext _context;
+    private readonly ITicketService _ticketService;
+    private readonly ISystemSettingsService _systemSettingsService;
+    private readonly AttachmentStorageSettings _storage;
+    private readonly ILogger<AttachmentService> _logger;
+
+    public AttachmentService(
+        AppDbContext context,
+        ITicketService ticketService,
+        ISystemSettingsService systemSettingsService,
+        AttachmentStorageSettings storage,
+        ILogger<AttachmentService> logger)
+    {
+        _context = context;
+        _ticketService = ticketService;
+        _systemSettingsService = systemSettingsService;
+        _storage = storage;
+        _logger = logger;
+    }
+
+    public async Task<IEnumerable<AttachmentDto>?> GetTicketAttachmentsAsync(Guid ticketId, Guid userId, UserRole role)
+    {
+        if (await _ticketService.GetTicketAsync(ticketId, userId, role) == null)
+        {
+            return null;
+        }
+
+        var attachments = await _context.Attachments
+            .Include(a => a.UploadedByUser)
+            .Where(a => a.TicketId == ticketId)
+            .OrderBy(a => a.UploadedAt)
+            .ToListAsync();
+        return attachments.Select(MapToDto);
+    }
+
+    public async Task<(AttachmentResult result, AttachmentDto? attachment)> UploadAsync(
+        Guid ticketId, Guid userId, UserRole role, Guid? messageId, string fileName, string contentType, long size, Stream content)
+    {
+        var check = await CheckUploadAsync(ticketId, userId, role, messageId, size);
+        if (check != AttachmentResult.Success)
+        {
+            return (check, null);
+        }
+
+        var attachment = NewAttachment(ticketId, userId, messageId, fileName, contentType, size);
+        var path = FullPath(attachment.FileUrl);
+        await using (var file = File.Create(path))
+        {
+            await content.CopyToAsync(file);
+        }
+        if (!await MatchesContentTypeAsync(path, attachment.ContentType))
+        {
+            DeleteFile(path);
+            return (AttachmentResult.ContentMismatch, null);
+        }
+
+        _context.Attachments.Add(attachment);
+        await _context.SaveChangesAsync();
+        return (AttachmentResult.Success, await GetAttachmentDtoAsync(attachment.Id));
+    }
+
+    public async Task<(AttachmentResult result, AttachmentUploadSessionResponse? session)> CreateUploadAsync(
+        Guid ticketId, Guid userId, UserRole role, AttachmentUploadSessionRequest request)
+    {
+        var check = await CheckUploadAsync(ticketId, userId, role, request.MessageId, request.Size);
+        if (check != AttachmentResult.Success)
+        {
+            return (check, null);
+        }
+
+        var now = DateTime.UtcNow;
+        var upload = new AttachmentUpload
+        {
+            Id = Guid.NewGuid(),
+            TicketId = ticketId,
+            MessageId = request.MessageId,
+            UserId = userId,
+            FileName = Path.GetFileName(request.FileName),
+            ContentType = request.ContentType,
+            Size = request.Size,
+            ReceivedBytes = 0,
+            CreatedAt = now,
+            ExpiresAt = now.AddHours(_storage.UploadExpiryHours)
+        };
+        Directory.CreateDirectory(FullPath(UploadsFolder));
+        await File.Create(PartPath(upload.Id)).DisposeAsync();
+
+        _context.AttachmentUploads.Add(upload);
+        await _context.SaveChangesAsync();
+        return (AttachmentResult.Success, MapToSession(upload));
+    }
+
+    public async Task<AttachmentUploadSessionResponse?> GetUploadAsync(Guid uploadId, Guid userId)
+    {
+        var upload = await FindUploadAsync(uploadId, userId);
+        return upload == null ? null : MapToSession(upload);
+    }
+
+    /// <summary>
+    /// Append the bytes start..end (inclusive) of an upload. The range must lie within the size declared
+    /// when the upload started, which was checked against the attachment size limit then.
+    /// </summary>
+    public async Task<(AttachmentResult result, AttachmentUploadSessionResponse? session)> AppendChunkAsync(
+        Guid uploadId, Guid userId, long start, long end, long totalBytes, Stream chunk)
+    {
+        var upload = await FindUploadAsync(uploadId, userId);
+        if (upload == null)
+        {
+            return (AttachmentResult.NotFound, null);
+        }
+
+        if (totalBytes != upload.Size || end < start || end >= upload.Size)
+        {
+            return (AttachmentResult.InvalidRange, null);
+        }
+
+        // A chunk that doesn't continue where the part file ends is ignored; the reply tells the
+        // client where to resume
+        if (start != upload.ReceivedBytes)
+        {
+            return (AttachmentResult.Success, MapToSession(upload));
+        }
+
+        await using (var file = new FileStream(PartPath(upload.Id), FileMode.Open, FileAccess.Write))
+        {
+            file.Seek(start, SeekOrigin.Begin);
+            await CopyUpToAsync(chunk, file, end - start + 1);
+            upload.ReceivedBytes = file.Position;
+        }
+        await _context.SaveChangesAsync();
+        return (AttachmentResult.Success, MapToSession(upload));
+    }
+
+    public async Task<(AttachmentResult result, AttachmentDto? attachment)> CompleteUploadAsync(Guid uploadId, Guid userId)
+    {
+        var upload = await FindUploadAsync(uploadId, userId);
+        if (upload == null)
+        {
+            return (AttachmentResult.NotFound, null);
+        }
+        if (upload.ReceivedBytes < upload.Size)
+        {
+            return (AttachmentResult.Incomplete, null);
+        }
+        if (!await MatchesContentTypeAsync(PartPath(upload.Id), upload.ContentType))
+        {
+            await DiscardUploadAsync(upload);
+            return (AttachmentResult.ContentMismatch, null);
+        }
+
+        var attachment = NewAttachment(upload.TicketId, userId, upload.MessageId, upload.FileName, upload.ContentType, upload.Size);
+        File.Move(PartPath(upload.Id), FullPath(attachment.FileUrl));
+
+        _context.Attachments.Add(attachment);
+        _context.AttachmentUploads.Remove(upload);
+        await _context.SaveChangesAsync();
+        return (AttachmentResult.Success, await GetAttachmentDtoAsync(attachment.Id));
+    }
+
+    public async Task<bool> CancelUploadAsync(Guid uploadId, Guid userId)
+    {
+        var upload = await FindUploadAsync(uploadId, userId);
+        if (upload == null)
+        {
+            return false;
+        }
+
+        await DiscardUploadAsync(upload);
+        return true;
+    }
+
+    public async Task<AttachmentResult> DeleteAttachmentAsync(Guid id, Guid userId, UserRole role)
+    {
+        var attachment = await _context.Attachments.FirstOrDefaultAsync(a => a.Id == id);
+        if (attachment == null || await _ticketService.GetTicketAsync(attachment.TicketId, userId, role) == null)
+        {
+            return AttachmentResult.NotFound;
+        }
+        if (role != UserRole.Admin && attachment.UploadedByUserId != userId)
+        {
+            return AttachmentResult.Forbidden;
+        }
+
+        _context.Attachments.Remove(attachment);
+        await _context.SaveChangesAsync();
+        DeleteFile(FullPath(attachment.FileUrl));
+        return AttachmentResult.Success;
+    }
+
+    public async Task<AttachmentContent?> OpenAttachmentAsync(Guid id, Guid userId, UserRole role)
+    {
+        var attachment = await _context.Attachments.AsNoTracking().FirstOrDefaultAsync(a => a.Id == id);
+        if (attachment == null || await _ticketService.GetTicketAsync(attachment.TicketId, userId, role) == null)
+        {
+            return null;
+        }
+
+        var path = FullPath(attachment.FileUrl);
+        if (!File.Exists(path))
+        {
+            _logger.LogWarning("Attachment {AttachmentId} has no file at {Path}", attachment.Id, path);
+            return null;
+        }
+        return new AttachmentContent(File.OpenRead(path), attachment.FileName, attachment.ContentType);
+    }
+
+    public async Task<int> DiscardExpiredUploadsAsync()
+    {
+        var now = DateTime.UtcNow;
+        var expired = await _context.AttachmentUploads.Where(u => u.ExpiresAt <= now).ToListAsync();
+        if (expired.Count > 0)
+        {
+            _context.AttachmentUploads.RemoveRange(expired);
+            await _context.SaveChangesAsync();
+            foreach (var upload in expired)
+            {
+                DeleteFile(PartPath(upload.Id));
+            }
+        }
+
+        // Part files whose upload row is gone, e.g. after a crash between the two deletes
+        var folder = FullPath(UploadsFolder);
+        if (!Directory.Exists(folder))
+        {
+            return expired.Count;
+        }
+        var active = (await _context.AttachmentUploads.Select(u => u.Id).ToListAsync()).ToHashSet();
+        var cutoff = now.AddHours(-_storage.UploadExpiryHours);
+        var orphaned = 0;
+        foreach (var path in Directory.EnumerateFiles(folder, "*.part"))
+        {
+            if (Guid.TryParseExact(Path.GetFileNameWithoutExtension(path), "N", out var id) && active.Contains(id))
+            {
+                continue;
+            }
+            if (File.GetLastWriteTimeUtc(path) <= cutoff)
+            {
+                DeleteFile(path);
+                orphaned++;
+            }
+        }
+        return expired.Count + orphaned;
+    }
+
+    /// <summary>
+    /// The same rules for both kinds of upload: the ticket is visible to the user, the reply is on
+    /// it, clients may attach files at all, and the file fits the size limit of the settings
+    /// </summary>
+    private async Task<AttachmentResult> CheckUploadAsync(Guid ticketId, Guid userId, UserRole role, Guid? messageId, long size)
+    {
+        if (await _ticketService.GetTicketAsync(ticketId, userId, role) == null)
+        {
+            return AttachmentResult.NotFound;
+        }
+        if (messageId.HasValue && !await _context.TicketMessages.AnyAsync(m => m.Id == messageId && m.TicketId == ticketId))
+        {
+            return AttachmentResult.InvalidMessage;
+        }
+
+        var settings = await _systemSettingsService.GetSystemSettingsAsync();
+        if (role == UserRole.Client && !settings.AllowClientAttachments)
+        {
+            return AttachmentResult.Forbidden;
+        }
+        if (size > settings.MaxAttachmentSizeMB * BytesPerMB)
+        {
+            return AttachmentResult.TooLarge;
+        }
+        return AttachmentResult.Success;
+    }
+
+    // Expired uploads are discarded the next time anyone asks for them, or by the cleanup sweep
+    private async Task<AttachmentUpload?> FindUploadAsync(Guid uploadId, Guid userId)
+    {
+        var upload = await _context.AttachmentUploads.FirstOrDefaultAsync(u => u.Id == uploadId && u.UserId == userId);
+        if (upload != null && upload.ExpiresAt <= DateTime.UtcNow)
+        {
+            await DiscardUploadAsync(upload);
+            return null;
+        }
+        return upload;
+    }
+
+    private async Task DiscardUploadAsync(AttachmentUpload upload)
+    {
+        _context.AttachmentUploads.Remove(upload);
+        await _context.SaveChangesAsync();
+        DeleteFile(PartPath(upload.Id));
+    }
+
+    private async Task<AttachmentDto> GetAttachmentDtoAsync(Guid id)
+    {
+        var attachment = await _context.Attachments
+            .Include(a => a.UploadedByUser)
+            .FirstAsync(a => a.Id == id);
+        return MapToDto(attachment);
+    }
+
+    private static Attachment NewAttachment(Guid ticketId, Guid userId, Guid? messageId, string fileName, string contentType, long size)
+    {
+        var id = Guid.NewGuid();
+        return new Attachment
+        {
+            Id = id,
+            TicketId = ticketId,
+            MessageId = messageId,
+            // Only the base name, so a crafted name can't point outside the storage folder
+            FileName = Path.GetFileName(fileName),
+            FileUrl = id.ToString("N"),
+            ContentType = string.IsNullOrWhiteSpace(contentType) ? "application/octet-stream" : contentType,
+            Size = size,
+            UploadedByUserId = userId,
+            UploadedAt = DateTime.UtcNow
+        };
+    }
+
+    private static async Task<bool> MatchesContentTypeAsync(string path, string contentType)
+    {
+        var head = new byte[AttachmentContentTypes.HeaderLength];
+        int read;
+        await using (var file = File.OpenRead(path))
+        {
+            read = await file.ReadAtLeastAsync(head, head.Length, throwOnEndOfStream: false);
+        }
+        return AttachmentContentTypes.MatchesContent(contentType, head[..read]);
+    }
+
+    // Never keeps more than the range declared, whatever the client sends
+    private static async Task CopyUpToAsync(Stream source, Stream destination, long maxBytes)
+    {
+        var buffer = new byte[81920];
+        while (maxBytes > 0)
+        {
+            var read = await source.ReadAsync(buffer.AsMemory(0, (int)Math.Min(buffer.Length, maxBytes)));
+            if (read == 0)
+            {
+                break;
+            }
+            await destination.WriteAsync(buffer.AsMemory(0, read));
+            maxBytes -= read;
+        }
+    }
+
+    private void DeleteFile(string path)
+    {
+        try
+        {
+            File.Delete(path);
+        }
+        catch (IOException ex)
+        {
+            _logger.LogWarning(ex, "Failed to delete attachment file {Path}", path);
+        }
+    }
+
+    private string FullPath(string relativePath) => Path.Combine(_storage.Path, relativePath);
+
+    private string PartPath(Guid uploadId) => FullPath(Path.Combine(UploadsFolder, $"{uploadId:N}.part"));
+
+    private AttachmentUploadSessionResponse MapToSession(AttachmentUpload upload) => new()
+    {
+        UploadId = upload.Id,
+        ChunkSize = _storage.ChunkSizeBytes,
+        ReceivedBytes = upload.ReceivedBytes,
+        ExpiresAt = upload.ExpiresAt
+    };
+
+    private static AttachmentDto MapToDto(Attachment attachment) => new()
+    {
+        Id = attachment.Id,
+        TicketId = attachment.TicketId,
+        MessageId = attachment.MessageId,
+        FileName = attachment.FileName,
+        ContentType = attachment.ContentType,
+        Size = attachment.Size,
+        UploadedByUserId = attachment.UploadedByUserId,
+        UploadedByName = attachment.UploadedByUser?.FullName,
+        UploadedAt = attachment.UploadedAt
+    };
+}
@@ -0,0 +1,147 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// Result of starting an impersonation
+/// </summary>
+public enum ImpersonationResult
+{
+    Success,
+    UserNotFound,
+    // Admins can't view the app as themselves, another admin or a deactivated account
+    NotAllowed
+}
+
+public interface IImpersonationService
+{
+    Task<(ImpersonationResult Result, ImpersonationResponse? Response)> StartAsync(Guid adminUserId, ImpersonationRequest request);
+    Task EndAsync(Guid impersonationId);
+
+    // The impersonation while its token may be used; null once it has ended or expired
+    Task<ImpersonationSession?> GetActiveAsync(Guid impersonationId);
+
+    // Keeps a request made with the impersonation token in its audit trail
+    Task RecordRequestAsync(ImpersonationSession session, string method, string path, int statusCode);
+}
+
+/// <summary>
+/// SECURITY-CRITICAL: Admins viewing the app as another user. Each impersonation is an audit entry
+/// with both ids and the reason, and every request made with its token is recorded under it. The
+/// token is refused once the entry is ended or has expired.
+/// </summary>
+public class ImpersonationService : IImpersonationService
+{
+    private const int PathMaxLength = 2048;
+
+    private readonly AppDbContext _context;
+    private readonly IJwtTokenGenerator _jwtTokenGenerator;
+    private readonly JwtSettings _jwtSettings;
+    private readonly ILogger<ImpersonationService> _logger;
+
+    public ImpersonationService(
+        AppDbContext context,
+        IJwtTokenGenerator jwtTokenGenerator,
+        JwtSettings jwtSettings,
+        ILogger<ImpersonationService> logger)
+    {
+        _context = context;
+        _jwtTokenGenerator = jwtTokenGenerator;
+        _jwtSettings = jwtSettings;
+        _logger = logger;
+    }
+
+    public async Task<(ImpersonationResult Result, ImpersonationResponse? Response)> StartAsync(Guid adminUserId, ImpersonationRequest request)
+    {
+        var userId = request.UserId!.Value;
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        if (user == null)
+        {
+            return (ImpersonationResult.UserNotFound, null);
+        }
+        if (user.Id == adminUserId || user.Role == UserRole.Admin || !user.IsActive)
+        {
+            return (ImpersonationResult.NotAllowed, null);
+        }
+
+        var now = DateTime.UtcNow;
+        var session = new ImpersonationSession
+        {
+            Id = Guid.NewGuid(),
+            AdminUserId = adminUserId,
+            UserId = user.Id,
+            Reason = request.Reason.Trim(),
+            StartedAt = now,
+            ExpiresAt = now.AddMinutes(_jwtSettings.ImpersonationMinutes)
+        };
+        _context.ImpersonationSessions.Add(session);
+        await _context.SaveChangesAsync();
+
+        _logger.LogWarning(
+            "Admin {AdminUserId} started impersonation {ImpersonationId} of user {UserId}: {Reason}",
+            adminUserId, session.Id, user.Id, session.Reason);
+
+        return (ImpersonationResult.Success, new ImpersonationResponse
+        {
+            Token = _jwtTokenGenerator.GenerateImpersonationToken(user, adminUserId, session.Id, session.ExpiresAt),
+            User = new UserDto
+            {
+                Id = user.Id,
+                FullName = user.FullName,
+                Email = user.Email,
+                Role = user.Role,
+                PhoneNumber = user.PhoneNumber,
+                Department = user.Department,
+                AvatarUrl = user.AvatarUrl
+            },
+            ExpiresAt = session.ExpiresAt
+        });
+    }
+
+    public async Task EndAsync(Guid impersonationId)
+    {
+        var session = await _context.ImpersonationSessions.FirstOrDefaultAsync(s => s.Id == impersonationId);
+        if (session == null || session.EndedAt != null)
+        {
+            return;
+        }
+
+        session.EndedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        _logger.LogWarning(
+            "Admin {AdminUserId} ended impersonation {ImpersonationId} of user {UserId}",
+            session.AdminUserId, session.Id, session.UserId);
+    }
+
+    public async Task<ImpersonationSession?> GetActiveAsync(Guid impersonationId)
+    {
+        var now = DateTime.UtcNow;
+        return await _context.ImpersonationSessions
+            .AsNoTracking()
+            .FirstOrDefaultAsync(s => s.Id == impersonationId && s.EndedAt == null && s.ExpiresAt > now);
+    }
+
+    public async Task RecordRequestAsync(ImpersonationSession session, string method, string path, int statusCode)
+    {
+        // Called once the request is over; changes a failed request left unsaved must not go out with the entry
+        _context.ChangeTracker.Clear();
+        _context.ImpersonationAuditEntries.Add(new ImpersonationAuditEntry
+        {
+            Id = Guid.NewGuid(),
+            ImpersonationSessionId = session.Id,
+            AdminUserId = session.AdminUserId,
+            UserId = session.UserId,
+            Method = method,
+            Path = path.Length > PathMaxLength ? path[..PathMaxLength] : path,
+            StatusCode = statusCode,
+            RequestedAt = DateTime.UtcNow
+        });
+        await _context.SaveChangesAsync();
+    }
+}
@@ -0,0 +1,71 @@
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// Permission names and which base roles hold them. Endpoints behind one check it with [RequirePermission];
+/// a built-in role holds the defaults below and a custom role its own list. This is the only copy: the
+/// frontend reads it from GET /api/roles/permissions.
+/// </summary>
+public static class Permissions
+{
+    public const string TicketsCreate = "tickets.create";
+    public const string TicketsViewOwn = "tickets.viewOwn";
+    public const string TicketsViewAssigned = "tickets.viewAssigned";
+    public const string TicketsViewAll = "tickets.viewAll";
+    public const string TicketsAssign = "tickets.assign";
+    public const string TicketsUpdate = "tickets.update";
+    public const string TicketsMerge = "tickets.merge";
+    public const string TicketsCollaborate = "tickets.collaborate";
+    public const string AttachmentsManage = "attachments.manage";
+    public const string CategoriesManage = "categories.manage";
+    public const string TechniciansManage = "technicians.manage";
+    public const string AutomationManage = "automation.manage";
+    public const string SlaManage = "sla.manage";
+    public const string WorkflowManage = "workflow.manage";
+    public const string ReportsView = "reports.view";
+    public const string SettingsSystem = "settings.system";
+    public const string RolesManage = "roles.manage";
+    public const string UsersManage = "users.manage";
+    public const string UsersImpersonate = "users.impersonate";
+
+    public static readonly IReadOnlyList<string> All = new[]
+    {
+        TicketsCreate, TicketsViewOwn, TicketsViewAssigned, TicketsViewAll, TicketsAssign, TicketsUpdate,
+        TicketsMerge, TicketsCollaborate, AttachmentsManage, CategoriesManage, TechniciansManage,
+        AutomationManage, SlaManage, WorkflowManage, ReportsView, SettingsSystem, RolesManage, UsersManage,
+        UsersImpersonate
+    };
+
+    // Permissions only some base roles can hold. The ticket lists and attachment deletion still decide by
+    // role; managing users and roles, or acting as another user, is as good as being an admin.
+    private static readonly Dictionary<string, UserRole[]> BaseRoles = new()
+    {
+        [TicketsCreate] = new[] { UserRole.Client },
+        [TicketsViewOwn] = new[] { UserRole.Client },
+        [TicketsViewAssigned] = new[] { UserRole.Technician },
+        [TicketsViewAll] = new[] { UserRole.Admin },
+        [AttachmentsManage] = new[] { UserRole.Admin },
+        [RolesManage] = new[] { UserRole.Admin },
+        [UsersManage] = new[] { UserRole.Admin },
+        [UsersImpersonate] = new[] { UserRole.Admin }
+    };
+
+    public static bool IsKnown(string permission) => All.Contains(permission);
+
+    // Whether a user on this base role can hold the permission
+    public static bool IsAvailable(UserRole role, string permission) =>
+        !BaseRoles.TryGetValue(permission, out var roles) || roles.Contains(role);
+
+    // Every permission a custom role on this base role may grant
+    public static IReadOnlyList<string> AvailableTo(UserRole role) =>
+        All.Where(permission => IsAvailable(role, permission)).ToList();
+
+    // The permissions of a built-in role
+    public static IReadOnlyList<string> ForBaseRole(UserRole role) => role switch
+    {
+        UserRole.Client => new[] { TicketsCreate, TicketsViewOwn },
+        UserRole.Technician => new[] { TicketsViewAssigned, TicketsUpdate, TicketsCollaborate },
+        _ => AvailableTo(UserRole.Admin)
+    };
+}
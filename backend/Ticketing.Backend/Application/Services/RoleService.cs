@@ -0,0 +1,293 @@
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// Result of a change to a custom role or its members
+/// </summary>
+public enum RoleResult
+{
+    Success,
+    NotFound,
+    UserNotFound,
+    NameExists,
+    // A permission that doesn't exist, or that the base role can't hold
+    InvalidPermissions,
+    // Members must have the role's base role
+    BaseRoleMismatch,
+    // The base role of a role with members can't change
+    HasMembers,
+    // Admins can't change their own role, so nobody takes away the permission to undo it
+    OwnAccount
+}
+
+public interface IRoleService
+{
+    Task<IEnumerable<RoleDto>> GetRolesAsync();
+    Task<(RoleResult Result, RoleDto? Role)> CreateRoleAsync(RoleRequest request);
+    Task<(RoleResult Result, RoleDto? Role)> UpdateRoleAsync(Guid id, RoleRequest request);
+    Task<RoleResult> DeleteRoleAsync(Guid id);
+    Task<RoleResult> AddMemberAsync(Guid roleId, Guid userId, Guid adminUserId);
+    Task<RoleResult> RemoveMemberAsync(Guid roleId, Guid userId, Guid adminUserId);
+    Task<MyPermissionsResponse?> GetMyPermissionsAsync(Guid userId);
+    PermissionCatalogResponse GetPermissionCatalog();
+
+    // What the user may do; nothing for an unknown or deactivated account
+    Task<IReadOnlyCollection<string>> GetPermissionsAsync(Guid userId);
+}
+
+/// <summary>
+/// SECURITY-CRITICAL: Roles and the permissions the API authorizes by. A built-in role grants its
+/// defaults (Permissions.ForBaseRole); a custom role extends one base role and grants its own list.
+/// Permissions are read from the database on each check, so a change applies to the next request.
+/// </summary>
+public class RoleService : IRoleService
+{
+    private readonly AppDbContext _context;
+
+    public RoleService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IEnumerable<RoleDto>> GetRolesAsync()
+    {
+        var builtIn = Enum.GetValues<UserRole>().Select(role => new RoleDto
+        {
+            Id = role.ToString(),
+            Name = role.ToString(),
+            BaseRole = role,
+            Permissions = Permissions.ForBaseRole(role).ToList(),
+            IsBuiltIn = true
+        });
+
+        var custom = await _context.CustomRoles
+            .AsNoTracking()
+            .Include(r => r.Members)
+            .OrderBy(r => r.Name)
+            .ToListAsync();
+
+        return builtIn.Concat(custom.Select(MapToDto)).ToList();
+    }
+
+    public async Task<(RoleResult Result, RoleDto? Role)> CreateRoleAsync(RoleRequest request)
+    {
+        var baseRole = request.BaseRole!.Value;
+        var name = request.Name.Trim();
+        if (!ArePermissionsValid(baseRole, request.Permissions))
+        {
+            return (RoleResult.InvalidPermissions, null);
+        }
+        if (await IsNameTakenAsync(name, null))
+        {
+            return (RoleResult.NameExists, null);
+        }
+
+        var role = new CustomRole
+        {
+            Id = Guid.NewGuid(),
+            Name = name,
+            Description = string.IsNullOrWhiteSpace(request.Description) ? null : request.Description.Trim(),
+            BaseRole = baseRole,
+            Permissions = JsonSerializer.Serialize(request.Permissions.Distinct().ToList()),
+            CreatedAt = DateTime.UtcNow
+        };
+        _context.CustomRoles.Add(role);
+        await _context.SaveChangesAsync();
+        return (RoleResult.Success, MapToDto(role));
+    }
+
+    public async Task<(RoleResult Result, RoleDto? Role)> UpdateRoleAsync(Guid id, RoleRequest request)
+    {
+        var role = await _context.CustomRoles.Include(r => r.Members).FirstOrDefaultAsync(r => r.Id == id);
+        if (role == null)
+        {
+            return (RoleResult.NotFound, null);
+        }
+
+        var baseRole = request.BaseRole!.Value;
+        var name = request.Name.Trim();
+        if (baseRole != role.BaseRole && role.Members.Count > 0)
+        {
+            return (RoleResult.HasMembers, null);
+        }
+        if (!ArePermissionsValid(baseRole, request.Permissions))
+        {
+            return (RoleResult.InvalidPermissions, null);
+        }
+        if (await IsNameTakenAsync(name, id))
+        {
+            return (RoleResult.NameExists, null);
+        }
+
+        role.Name = name;
+        role.Description = string.IsNullOrWhiteSpace(request.Description) ? null : request.Description.Trim();
+        role.BaseRole = baseRole;
+        role.Permissions = JsonSerializer.Serialize(request.Permissions.Distinct().ToList());
+        await _context.SaveChangesAsync();
+        return (RoleResult.Success, MapToDto(role));
+    }
+
+    public async Task<RoleResult> DeleteRoleAsync(Guid id)
+    {
+        var role = await _context.CustomRoles.Include(r => r.Members).FirstOrDefaultAsync(r => r.Id == id);
+        if (role == null)
+        {
+            return RoleResult.NotFound;
+        }
+
+        // The members keep their base role and its permissions
+        foreach (var member in role.Members)
+        {
+            member.CustomRoleId = null;
+        }
+        _context.CustomRoles.Remove(role);
+        await _context.SaveChangesAsync();
+        return RoleResult.Success;
+    }
+
+    /// <summary>
+    /// A user holds at most one custom role; adding them to another replaces it
+    /// </summary>
+    public async Task<RoleResult> AddMemberAsync(Guid roleId, Guid userId, Guid adminUserId)
+    {
+        if (userId == adminUserId)
+        {
+            return RoleResult.OwnAccount;
+        }
+
+        var role = await _context.CustomRoles.FirstOrDefaultAsync(r => r.Id == roleId);
+        if (role == null)
+        {
+            return RoleResult.NotFound;
+        }
+
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        if (user == null)
+        {
+            return RoleResult.UserNotFound;
+        }
+        if (user.Role != role.BaseRole)
+        {
+            return RoleResult.BaseRoleMismatch;
+        }
+
+        user.CustomRoleId = role.Id;
+        await _context.SaveChangesAsync();
+        return RoleResult.Success;
+    }
+
+    public async Task<RoleResult> RemoveMemberAsync(Guid roleId, Guid userId, Guid adminUserId)
+    {
+        if (userId == adminUserId)
+        {
+            return RoleResult.OwnAccount;
+        }
+
+        if (!await _context.CustomRoles.AnyAsync(r => r.Id == roleId))
+        {
+            return RoleResult.NotFound;
+        }
+
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId && u.CustomRoleId == roleId);
+        if (user == null)
+        {
+            return RoleResult.UserNotFound;
+        }
+
+        user.CustomRoleId = null;
+        await _context.SaveChangesAsync();
+        return RoleResult.Success;
+    }
+
+    public async Task<MyPermissionsResponse?> GetMyPermissionsAsync(Guid userId)
+    {
+        var user = await _context.Users
+            .AsNoTracking()
+            .Include(u => u.CustomRole)
+            .FirstOrDefaultAsync(u => u.Id == userId);
+        if (user == null)
+        {
+            return null;
+        }
+
+        return new MyPermissionsResponse
+        {
+            RoleId = user.CustomRole?.Id,
+            RoleName = user.CustomRole?.Name,
+            Permissions = ResolvePermissions(user).ToList()
+        };
+    }
+
+    public PermissionCatalogResponse GetPermissionCatalog() => new()
+    {
+        Permissions = Permissions.All.ToList(),
+        BaseRoles = Enum.GetValues<UserRole>().Select(role => new BaseRolePermissionsDto
+        {
+            Role = role,
+            Defaults = Permissions.ForBaseRole(role).ToList(),
+            Available = Permissions.AvailableTo(role).ToList()
+        }).ToList()
+    };
+
+    public async Task<IReadOnlyCollection<string>> GetPermissionsAsync(Guid userId)
+    {
+        var user = await _context.Users
+            .AsNoTracking()
+            .Include(u => u.CustomRole)
+            .FirstOrDefaultAsync(u => u.Id == userId);
+        if (user == null || !user.IsActive)
+        {
+            return Array.Empty<string>();
+        }
+
+        return ResolvePermissions(user).ToHashSet();
+    }
+
+    // The custom role's list when the user has one, otherwise the base role's; never more than the
+    // user's base role can hold
+    private static IEnumerable<string> ResolvePermissions(User user)
+    {
+        var permissions = user.CustomRole != null
+            ? ReadPermissions(user.CustomRole)
+            : Permissions.ForBaseRole(user.Role);
+        return permissions.Where(permission => Permissions.IsKnown(permission) && Permissions.IsAvailable(user.Role, permission));
+    }
+
+    private static bool ArePermissionsValid(UserRole baseRole, IEnumerable<string> permissions) =>
+        permissions.All(permission => Permissions.IsKnown(permission) && Permissions.IsAvailable(baseRole, permission));
+
+    private Task<bool> IsNameTakenAsync(string name, Guid? exceptId)
+    {
+        var normalized = name.ToLower();
+        return _context.CustomRoles.AnyAsync(r => r.Id != exceptId && r.Name.ToLower() == normalized);
+    }
+
+    private static List<string> ReadPermissions(CustomRole role)
+    {
+        try
+        {
+            return JsonSerializer.Deserialize<List<string>>(role.Permissions) ?? new List<string>();
+        }
+        catch (JsonException)
+        {
+            return new List<string>();
+        }
+    }
+
+    private static RoleDto MapToDto(CustomRole role) => new()
+    {
+        Id = role.Id.ToString(),
+        Name = role.Name,
+        Description = role.Description,
+        BaseRole = role.BaseRole,
+        Permissions = ReadPermissions(role),
+        IsBuiltIn = false,
+        MemberIds = role.Members.Select(u => u.Id).ToList()
+    };
+}
@@ -0,0 +1,310 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Infrastructure.Auth;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// Whether a password sign-in may go ahead
+/// </summary>
+public enum SignInCheckResult
+{
+    Allowed,
+    Throttled,
+    Locked,
+    // A CAPTCHA is due and was missing, expired or wrong
+    CaptchaRequired
+}
+
+public record SignInCheck(SignInCheckResult Result, int? RetryAfterSeconds = null, DateTime? LockedUntil = null);
+
+/// <summary>
+/// What a wrong password means for the next attempt. RemainingAttempts is null when the email
+/// doesn't belong to an account.
+/// </summary>
+public record SignInFailure(int? RemainingAttempts, bool CaptchaRequired, DateTime? LockedUntil);
+
+public interface ISignInSecurityService
+{
+    Task<SignInCheck> CheckAsync(string email, Guid? captchaId, string? captchaAnswer);
+    Task<SignInFailure> RecordFailureAsync(string email);
+    // Whether a two-factor challenge issued at issuedAt has taken all the wrong codes it may
+    Task<bool> IsChallengeSpentAsync(Guid userId, DateTime issuedAt);
+
+    // Record a sign-in that starts a session; saved together with the session's refresh token
+    Task AddSessionStartAsync(User user, Guid sessionId);
+    Task<CaptchaChallengeResponse> CreateCaptchaAsync();
+    Task<IEnumerable<SignInActivityDto>> GetActivityAsync(Guid userId, Guid? currentSessionId);
+    Task<int> RevokeOtherSessionsAsync(Guid userId, Guid? currentSessionId);
+}
+
+/// <summary>
+/// SECURITY-CRITICAL: Brute-force protection for password sign-in. Failures from one address are
+/// throttled, an account asks for a CAPTCHA after a few failures and is locked after more, and every
+/// sign-in is kept so the owner can review it. The address is the connection's, which the forwarded
+/// headers middleware takes from the trusted proxy in cookie-session mode.
+/// </summary>
+public class SignInSecurityService : ISignInSecurityService
+{
+    private const int ActivityLimit = 20;
+    private const int UserAgentMaxLength = 512;
+
+    private readonly AppDbContext _context;
+    private readonly IHttpContextAccessor _httpContextAccessor;
+    private readonly SignInSecuritySettings _settings;
+
+    public SignInSecurityService(AppDbContext context, IHttpContextAccessor httpContextAccessor, SignInSecuritySettings settings)
+    {
+        _context = context;
+        _httpContextAccessor = httpContextAccessor;
+        _settings = settings;
+    }
+
+    public async Task<SignInCheck> CheckAsync(string email, Guid? captchaId, string? captchaAnswer)
+    {
+        var now = DateTime.UtcNow;
+        var addressFailures = await GetAddressFailuresAsync(now);
+        if (addressFailures.Count >= _settings.AddressFailureLimit)
+        {
+            // Free again once enough of the failures have left the window
+            var freeAt = addressFailures[addressFailures.Count - _settings.AddressFailureLimit].AddMinutes(_settings.AddressWindowMinutes);
+            return new SignInCheck(SignInCheckResult.Throttled, RetryAfterSeconds: Math.Max(1, (int)Math.Ceiling((freeAt - now).TotalSeconds)));
+        }
+
+        var user = await FindUserAsync(email);
+        if (user?.LockedUntil > now)
+        {
+            return new SignInCheck(SignInCheckResult.Locked, LockedUntil: user.LockedUntil);
+        }
+
+        var captchaDue = user?.FailedSignInCount >= _settings.CaptchaAfterFailures ||
+                         addressFailures.Count >= _settings.CaptchaAfterFailures;
+        if (captchaDue && !await TakeCaptchaAsync(captchaId, captchaAnswer, now))
+        {
+            return new SignInCheck(SignInCheckResult.CaptchaRequired);
+        }
+
+        return new SignInCheck(SignInCheckResult.Allowed);
+    }
+
+    public async Task<SignInFailure> RecordFailureAsync(string email)
+    {
+        var now = DateTime.UtcNow;
+        var user = await FindUserAsync(email);
+        _context.SignInAttempts.Add(NewAttempt(user?.Id, email.ToLowerInvariant(), false, now));
+
+        // Attempts nobody will look at any more
+        var cutoff = now.AddDays(-_settings.HistoryDays);
+        var expired = await _context.SignInAttempts.Where(a => a.OccurredAt < cutoff).ToListAsync();
+        _context.SignInAttempts.RemoveRange(expired);
+
+        int? remainingAttempts = null;
+        if (user != null)
+        {
+            user.FailedSignInCount++;
+            if (user.FailedSignInCount >= _settings.LockoutAfterFailures)
+            {
+                user.LockedUntil = now.AddMinutes(_settings.LockoutMinutes);
+                user.FailedSignInCount = 0;
+                await _context.SaveChangesAsync();
+                return new SignInFailure(0, false, user.LockedUntil);
+            }
+            remainingAttempts = _settings.LockoutAfterFailures - user.FailedSignInCount;
+        }
+
+        await _context.SaveChangesAsync();
+
+        var addressFailures = await GetAddressFailuresAsync(now);
+        var captchaRequired = user?.FailedSignInCount >= _settings.CaptchaAfterFailures ||
+                              addressFailures.Count >= _settings.CaptchaAfterFailures;
+        return new SignInFailure(remainingAttempts, captchaRequired, null);
+    }
+
+    /// <summary>
+    /// Wrong codes are recorded as failed sign-ins, so the ones since the challenge was issued are the
+    /// challenge's misses. A failed password sign-in in the meantime counts too, which only makes it stricter.
+    /// </summary>
+    public async Task<bool> IsChallengeSpentAsync(Guid userId, DateTime issuedAt)
+    {
+        var misses = await _context.SignInAttempts
+            .CountAsync(a => a.UserId == userId && !a.Succeeded && a.OccurredAt >= issuedAt);
+        return misses >= _settings.CodeAttemptsPerChallenge;
+    }
+
+    public async Task AddSessionStartAsync(User user, Guid sessionId)
+    {
+        var now = DateTime.UtcNow;
+        var attempt = NewAttempt(user.Id, user.Email, true, now);
+        attempt.SessionId = sessionId;
+
+        // A new address right after failed attempts looks like someone else got the password
+        var lastSuccess = await _context.SignInAttempts
+            .Where(a => a.UserId == user.Id && a.Succeeded)
+            .OrderByDescending(a => a.OccurredAt)
+            .Select(a => (DateTime?)a.OccurredAt)
+            .FirstOrDefaultAsync();
+        if (lastSuccess != null)
+        {
+            var failedSince = await _context.SignInAttempts
+                .AnyAsync(a => a.UserId == user.Id && !a.Succeeded && a.OccurredAt > lastSuccess);
+            var knownAddress = await _context.SignInAttempts
+                .AnyAsync(a => a.UserId == user.Id && a.Succeeded && a.IpAddress == attempt.IpAddress);
+            attempt.Suspicious = failedSince && !knownAddress;
+        }
+
+        _context.SignInAttempts.Add(attempt);
+        user.FailedSignInCount = 0;
+        user.LockedUntil = null;
+    }
+
+    public async Task<CaptchaChallengeResponse> CreateCaptchaAsync()
+    {
+        var now = DateTime.UtcNow;
+        var answer = CaptchaImage.GenerateAnswer();
+        var challenge = new CaptchaChallenge
+        {
+            Id = Guid.NewGuid(),
+            AnswerHash = CaptchaImage.HashAnswer(answer),
+            ExpiresAt = now.AddMinutes(_settings.CaptchaMinutes)
+        };
+        _context.CaptchaChallenges.Add(challenge);
+
+        var expired = await _context.CaptchaChallenges.Where(c => c.ExpiresAt <= now).ToListAsync();
+        _context.CaptchaChallenges.RemoveRange(expired);
+        await _context.SaveChangesAsync();
+
+        return new CaptchaChallengeResponse
+        {
+            Id = challenge.Id,
+            Image = CaptchaImage.Render(answer),
+            ExpiresAt = challenge.ExpiresAt
+        };
+    }
+
+    public async Task<IEnumerable<SignInActivityDto>> GetActivityAsync(Guid userId, Guid? currentSessionId)
+    {
+        var attempts = await _context.SignInAttempts
+            .Where(a => a.UserId == userId)
+            .OrderByDescending(a => a.OccurredAt)
+            .Take(ActivityLimit)
+            .ToListAsync();
+
+        return attempts.Select(a => new SignInActivityDto
+        {
+            Id = a.Id,
+            OccurredAt = a.OccurredAt,
+            Succeeded = a.Succeeded,
+            IpAddress = a.IpAddress,
+            Device = DescribeDevice(a.UserAgent),
+            IsCurrent = a.SessionId != null && a.SessionId == currentSessionId,
+            Suspicious = a.Suspicious
+        });
+    }
+
+    /// <summary>
+    /// Revoke the refresh tokens of every session but the caller's; their access tokens run out on their own
+    /// </summary>
+    public async Task<int> RevokeOtherSessionsAsync(Guid userId, Guid? currentSessionId)
+    {
+        var now = DateTime.UtcNow;
+        var tokens = await _context.RefreshTokens
+            .Where(t => t.UserId == userId && t.RevokedAt == null && t.ExpiresAt > now && t.SessionId != currentSessionId)
+            .ToListAsync();
+
+        foreach (var token in tokens)
+        {
+            token.RevokedAt = now;
+        }
+        await _context.SaveChangesAsync();
+
+        return tokens.Select(t => t.SessionId).Distinct().Count();
+    }
+
+    private Task<User?> FindUserAsync(string email)
+    {
+        var normalizedEmail = email.ToLowerInvariant();
+        return _context.Users.FirstOrDefaultAsync(u => u.Email == normalizedEmail);
+    }
+
+    // Times of the caller's address's failures within the throttling window, oldest first
+    private async Task<List<DateTime>> GetAddressFailuresAsync(DateTime now)
+    {
+        var address = ClientAddress();
+        if (address == null)
+        {
+            return new List<DateTime>();
+        }
+
+        var windowStart = now.AddMinutes(-_settings.AddressWindowMinutes);
+        return await _context.SignInAttempts
+            .Where(a => a.IpAddress == address && !a.Succeeded && a.OccurredAt > windowStart)
+            .OrderBy(a => a.OccurredAt)
+            .Select(a => a.OccurredAt)
+            .ToListAsync();
+    }
+
+    /// <summary>
+    /// Check a CAPTCHA answer. The challenge is used up either way, so each one gets a single guess.
+    /// </summary>
+    private async Task<bool> TakeCaptchaAsync(Guid? captchaId, string? answer, DateTime now)
+    {
+        if (captchaId == null || string.IsNullOrWhiteSpace(answer))
+        {
+            return false;
+        }
+
+        var challenge = await _context.CaptchaChallenges.FindAsync(captchaId.Value);
+        if (challenge == null)
+        {
+            return false;
+        }
+
+        _context.CaptchaChallenges.Remove(challenge);
+        await _context.SaveChangesAsync();
+        return challenge.ExpiresAt > now && challenge.AnswerHash == CaptchaImage.HashAnswer(answer);
+    }
+
+    private SignInAttempt NewAttempt(Guid? userId, string email, bool succeeded, DateTime now)
+    {
+        var request = _httpContextAccessor.HttpContext?.Request;
+        var userAgent = request?.Headers.UserAgent.ToString();
+        return new SignInAttempt
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            Email = email,
+            Succeeded = succeeded,
+            IpAddress = ClientAddress(),
+            UserAgent = string.IsNullOrEmpty(userAgent) ? null : userAgent[..Math.Min(userAgent.Length, UserAgentMaxLength)],
+            OccurredAt = now
+        };
+    }
+
+    private string? ClientAddress() => _httpContextAccessor.HttpContext?.Connection.RemoteIpAddress?.ToString();
+
+    private static string? DescribeDevice(string? userAgent)
+    {
+        if (string.IsNullOrWhiteSpace(userAgent))
+        {
+            return null;
+        }
+
+        // Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari
+        var browser = userAgent.Contains("Edg/") ? "Edge"
+            : userAgent.Contains("OPR/") ? "Opera"
+            : userAgent.Contains("Firefox/") ? "Firefox"
+            : userAgent.Contains("Chrome/") ? "Chrome"
+            : userAgent.Contains("Safari/") ? "Safari"
+            : null;
+        var system = userAgent.Contains("Windows") ? "Windows"
+            : userAgent.Contains("Android") ? "Android"
+            : userAgent.Contains("iPhone") || userAgent.Contains("iPad") ? "iOS"
+            : userAgent.Contains("Mac OS X") ? "macOS"
+            : userAgent.Contains("Linux") ? "Linux"
+            : null;
+
+        return browser != null && system != null ? $"{browser} - {system}" : browser ?? system ?? userAgent;
+    }
+}
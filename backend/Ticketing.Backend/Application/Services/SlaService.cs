@@ -0,0 +1,367 @@
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+using Ticketing.Backend.Infrastructure.Sla;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface ISlaService
+{
+    Task<SlaSettingsDto> GetSettingsAsync();
+    Task<SlaSettingsDto> UpdateSettingsAsync(SlaSettingsDto settings);
+    Task TrackStatusChangeAsync(Ticket ticket, TicketStatus previousStatus);
+    Task<bool?> EscalateAsync(Guid ticketId, SlaEscalationRequest request);
+    Task<int> EscalateBreachesAsync();
+}
+
+/// <summary>
+/// SLA policies and each ticket's clocks. Targets count business minutes of the calendar in the
+/// system timezone (see BusinessTime). Breaches are escalated by SlaEscalationBackgroundService,
+/// once per breach: the ticket's SlaEscalatedAt records the last one.
+/// </summary>
+public class SlaService : ISlaService
+{
+    private static readonly TicketStatus[] OpenStatuses =
+    {
+        TicketStatus.New,
+        TicketStatus.InProgress,
+        TicketStatus.WaitingForClient
+    };
+
+    // Stored the way the API sends it, so the column reads like the response
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web)
+    {
+        Converters = { new JsonStringEnumConverter() }
+    };
+
+    private readonly AppDbContext _context;
+    private readonly INotificationService _notificationService;
+    private readonly ILogger<SlaService> _logger;
+
+    public SlaService(AppDbContext context, INotificationService notificationService, ILogger<SlaService> logger)
+    {
+        _context = context;
+        _notificationService = notificationService;
+        _logger = logger;
+    }
+
+    public async Task<SlaSettingsDto> GetSettingsAsync()
+    {
+        var settings = await _context.SystemSettings.AsNoTracking().FirstOrDefaultAsync(s => s.Id == 1);
+        return ReadSettings(settings?.SlaSettings);
+    }
+
+    public async Task<SlaSettingsDto> UpdateSettingsAsync(SlaSettingsDto request)
+    {
+        var settings = await _context.SystemSettings.FirstOrDefaultAsync(s => s.Id == 1);
+        if (settings == null)
+        {
+            settings = new SystemSettings
+            {
+                Id = 1,
+                CreatedAt = DateTime.UtcNow
+            };
+            _context.SystemSettings.Add(settings);
+        }
+
+        settings.SlaSettings = JsonSerializer.Serialize(request, JsonOptions);
+        settings.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return ReadSettings(settings.SlaSettings);
+    }
+
+    /// <summary>
+    /// Update the ticket's clock for a status change that is about to be saved. Leaving New is the
+    /// first response. Waiting for the client pauses the resolution clock, and so does the time a
+    /// ticket spent resolved before it was reopened.
+    /// </summary>
+    public async Task TrackStatusChangeAsync(Ticket ticket, TicketStatus previousStatus)
+    {
+        if (ticket.Status == previousStatus)
+        {
+            return;
+        }
+
+        var now = DateTime.UtcNow;
+        var wasDone = IsDone(previousStatus);
+        var isDone = IsDone(ticket.Status);
+
+        if (previousStatus == TicketStatus.New)
+        {
+            ticket.SlaFirstRespondedAt ??= now;
+        }
+
+        DateTime? pausedSince = null;
+        if (previousStatus == TicketStatus.WaitingForClient)
+        {
+            pausedSince = ticket.SlaPausedSince;
+            ticket.SlaPausedSince = null;
+        }
+        else if (wasDone && !isDone)
+        {
+            pausedSince = ticket.SlaResolvedAt;
+            ticket.SlaResolvedAt = null;
+        }
+
+        if (pausedSince.HasValue)
+        {
+            var settings = await GetSettingsAsync();
+            var timeZone = await GetTimeZoneAsync();
+            ticket.SlaPausedMinutes += BusinessTime.MinutesBetween(pausedSince.Value, now, settings.Calendar, timeZone);
+        }
+
+        if (ticket.Status == TicketStatus.WaitingForClient)
+        {
+            ticket.SlaPausedSince = now;
+        }
+        if (isDone && !wasDone)
+        {
+            ticket.SlaResolvedAt = now;
+        }
+    }
+
+    /// <summary>
+    /// Escalate a breached clock of the ticket now. Null when there is no such ticket; false when the
+    /// named policy doesn't cover the ticket or the clock hasn't run out since it was last escalated.
+    /// </summary>
+    public async Task<bool?> EscalateAsync(Guid ticketId, SlaEscalationRequest request)
+    {
+        var ticket = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == ticketId);
+        if (ticket == null)
+        {
+            return null;
+        }
+
+        var settings = await GetSettingsAsync();
+        var timeZone = await GetTimeZoneAsync();
+        var now = DateTime.UtcNow;
+
+        var breach = FindBreaches(ticket, settings, timeZone, now)
+            .FirstOrDefault(b => b.Policy.Id == request.PolicyId && b.Clock == request.Clock);
+        if (breach == null)
+        {
+            return false;
+        }
+
+        await ApplyEscalationAsync(ticket, breach, now);
+        return true;
+    }
+
+    /// <summary>
+    /// One sweep over the open tickets: escalate every ticket with a clock that ran out since it was
+    /// last escalated. Escalating covers all of a ticket's clocks that had run out by then.
+    /// Returns the number of tickets escalated.
+    /// </summary>
+    public async Task<int> EscalateBreachesAsync()
+    {
+        var settings = await GetSettingsAsync();
+        if (settings.Policies.Count == 0)
+        {
+            return 0;
+        }
+
+        var timeZone = await GetTimeZoneAsync();
+        var now = DateTime.UtcNow;
+        var tickets = await _context.Tickets
+            .Where(t => OpenStatuses.Contains(t.Status))
+            .ToListAsync();
+
+        var escalated = 0;
+        foreach (var ticket in tickets)
+        {
+            var breach = FindBreaches(ticket, settings, timeZone, now).FirstOrDefault();
+            if (breach == null)
+            {
+                continue;
+            }
+
+            await ApplyEscalationAsync(ticket, breach, now);
+            escalated++;
+        }
+
+        return escalated;
+    }
+
+    private async Task ApplyEscalationAsync(Ticket ticket, SlaBreach breach, DateTime now)
+    {
+        var escalation = breach.Policy.Escalation;
+        if (escalation.ReassignToUserId is { } userId && userId != ticket.AssignedToUserId)
+        {
+            var technician = await _context.Technicians.FirstOrDefaultAsync(t => t.UserId == userId && t.IsActive);
+            if (technician != null)
+            {
+                ticket.TechnicianId = technician.Id;
+                ticket.AssignedToUserId = userId;
+            }
+            else
+            {
+                _logger.LogWarning(
+                    "SLA escalation of ticket {TicketId}: no active technician for user {UserId}, assignment left alone",
+                    ticket.Id, userId);
+            }
+        }
+
+        ticket.SlaEscalatedAt = now;
+        ticket.UpdatedAt = now;
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "SLA escalation: ticket {TicketId} breached the {Clock} target of policy {PolicyId}",
+            ticket.Id, breach.Clock, breach.Policy.Id);
+
+        if (!escalation.Notify)
+        {
+            return;
+        }
+
+        var recipients = await _context.Users
+            .Where(u => u.Role == UserRole.Admin)
+            .Select(u => u.Id)
+            .ToListAsync();
+        if (ticket.AssignedToUserId.HasValue)
+        {
+            recipients.Add(ticket.AssignedToUserId.Value);
+        }
+
+        var clockName = breach.Clock == SlaClock.Response ? "first response" : "resolution";
+        var message = $"SLA breached on ticket '{ticket.Title}': the {clockName} target of '{breach.Policy.Name}' ran out";
+        foreach (var recipient in recipients.Distinct())
+        {
+            await _notificationService.CreateNotificationAsync(recipient, message);
+        }
+    }
+
+    private sealed record SlaBreach(SlaPolicyDto Policy, SlaClock Clock);
+
+    /// <summary>
+    /// The ticket's clocks that ran out by `now` and haven't been escalated since, resolution first.
+    /// Mirrors evaluateTicketSla in the frontend's lib/sla.ts.
+    /// </summary>
+    private static List<SlaBreach> FindBreaches(Ticket ticket, SlaSettingsDto settings, TimeZoneInfo timeZone, DateTime now)
+    {
+        var breaches = new List<SlaBreach>();
+        var policy = FindPolicy(settings.Policies, ticket.Priority, ticket.CategoryId);
+        if (policy == null)
+        {
+            return breaches;
+        }
+
+        var calendar = settings.Calendar;
+
+        void AddIfUnescalated(SlaClock clock, int targetMinutes)
+        {
+            var breachedAt = BusinessTime.AddMinutes(ticket.CreatedAt, targetMinutes, calendar, timeZone);
+            if (breachedAt.HasValue && (ticket.SlaEscalatedAt == null || ticket.SlaEscalatedAt < breachedAt))
+            {
+                breaches.Add(new SlaBreach(policy, clock));
+            }
+        }
+
+        // The resolution clock stops once the ticket is resolved and stands still while it waits
+        if (!IsDone(ticket.Status))
+        {
+            var end = ticket.Status == TicketStatus.WaitingForClient
+                ? ticket.SlaPausedSince ?? ticket.UpdatedAt ?? now
+                : now;
+            var used = BusinessTime.MinutesBetween(ticket.CreatedAt, end, calendar, timeZone) - ticket.SlaPausedMinutes;
+            if (used > policy.ResolutionMinutes)
+            {
+                AddIfUnescalated(SlaClock.Resolution, policy.ResolutionMinutes + ticket.SlaPausedMinutes);
+            }
+        }
+
+        // The response clock stops with the first response
+        var responded = ticket.SlaFirstRespondedAt != null || ticket.Status != TicketStatus.New;
+        if (!responded && BusinessTime.MinutesBetween(ticket.CreatedAt, now, calendar, timeZone) > policy.FirstResponseMinutes)
+        {
+            AddIfUnescalated(SlaClock.Response, policy.FirstResponseMinutes);
+        }
+
+        return breaches;
+    }
+
+    private static SlaPolicyDto? FindPolicy(IEnumerable<SlaPolicyDto> policies, TicketPriority priority, int categoryId)
+    {
+        SlaPolicyDto? best = null;
+        var bestScore = -1;
+        foreach (var policy in policies)
+        {
+            if (policy.Priority.HasValue && policy.Priority != priority)
+            {
+                continue;
+            }
+            if (policy.CategoryId.HasValue && policy.CategoryId != categoryId)
+            {
+                continue;
+            }
+
+            var score = (policy.CategoryId.HasValue ? 2 : 0) + (policy.Priority.HasValue ? 1 : 0);
+            if (score > bestScore)
+            {
+                best = policy;
+                bestScore = score;
+            }
+        }
+
+        return best;
+    }
+
+    private static bool IsDone(TicketStatus status) => status is TicketStatus.Resolved or TicketStatus.Closed;
+
+    private async Task<TimeZoneInfo> GetTimeZoneAsync()
+    {
+        var timezone = await _context.SystemSettings
+            .Where(s => s.Id == 1)
+            .Select(s => s.Timezone)
+            .FirstOrDefaultAsync();
+        return BusinessTime.FindTimeZone(timezone ?? new SystemSettings().Timezone);
+    }
+
+    private static SlaSettingsDto ReadSettings(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+        {
+            return DefaultSettings();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<SlaSettingsDto>(json, JsonOptions) ?? DefaultSettings();
+        }
+        catch (JsonException)
+        {
+            return DefaultSettings();
+        }
+    }
+
+    /// <summary>
+    /// No policies, the Iranian working week (Saturday to Wednesday, Thursday mornings, Fridays off)
+    /// and the national holidays fixed in the Solar Hijri calendar. Lunar holidays move every year
+    /// and are entered as one-off dates.
+    /// </summary>
+    private static SlaSettingsDto DefaultSettings()
+    {
+        BusinessHoursDto Workday() => new() { Start = "08:00", End = "16:00" };
+
+        return new SlaSettingsDto
+        {
+            Calendar = new BusinessCalendarDto
+            {
+                Hours = new List<BusinessHoursDto?>
+                {
+                    Workday(), Workday(), Workday(), Workday(), new() { Start = "08:00", End = "12:00" }, null, Workday()
+                },
+                RecurringHolidays = new List<string>
+                {
+                    "01-01", "01-02", "01-03", "01-04", "01-12", "01-13", "03-14", "03-15", "11-22", "12-29"
+                }
+            },
+            AtRiskPercent = 75
+        };
+    }
+}
@@ -16,12 +16,14 @@ public class SmartAssignmentService : ISmartAssignmentService
 {
     private readonly AppDbContext _context;
     private readonly ITechnicianService _technicianService;
+    private readonly ISlaService _slaService;
     private readonly ILogger<SmartAssignmentService> _logger;
 
-    public SmartAssignmentService(AppDbContext context, ITechnicianService technicianService, ILogger<SmartAssignmentService> logger)
+    public SmartAssignmentService(AppDbContext context, ITechnicianService technicianService, ISlaService slaService, ILogger<SmartAssignmentService> logger)
     {
         _context = context;
         _technicianService = technicianService;
+        _slaService = slaService;
         _logger = logger;
     }
 
@@ -88,9 +90,11 @@ public class SmartAssignmentService : ISmartAssignmentService
         }
 
         // Assign technician to ticket - set BOTH TechnicianId AND AssignedToUserId for consistency
+        var previousStatus = ticket.Status;
         ticket.TechnicianId = selectedTechnician.TechnicianId;
         ticket.AssignedToUserId = technician.UserId; // CRITICAL: Set to Technician.UserId for filtering/queries
         ticket.Status = TicketStatus.InProgress;
+        await _slaService.TrackStatusChangeAsync(ticket, previousStatus);
         ticket.UpdatedAt = DateTime.UtcNow;
 
         await _context.SaveChangesAsync();
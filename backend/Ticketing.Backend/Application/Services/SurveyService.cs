@@ -0,0 +1,161 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// Result of answering a ticket's satisfaction survey
+/// </summary>
+public enum SubmitSurveyResult
+{
+    Success,
+    TicketNotFound,
+    TicketNotClosed,
+    AlreadySubmitted
+}
+
+public interface ISurveyService
+{
+    Task<(SubmitSurveyResult result, TicketSurveyDto? survey)> SubmitSurveyAsync(Guid ticketId, Guid clientId, TicketSurveyRequest request);
+    Task<CsatReportResponse> GetCsatReportAsync(CsatReportQuery query);
+    Task<IReadOnlyDictionary<Guid, CsatSummaryDto>> GetTechnicianSummariesAsync();
+}
+
+/// <summary>
+/// Satisfaction surveys: clients answer one per closed ticket, and the CSAT report and technician
+/// ratings are built from the answers
+/// </summary>
+public class SurveyService : ISurveyService
+{
+    private const int DefaultReportDays = 30;
+
+    private readonly AppDbContext _context;
+
+    public SurveyService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<(SubmitSurveyResult result, TicketSurveyDto? survey)> SubmitSurveyAsync(Guid ticketId, Guid clientId, TicketSurveyRequest request)
+    {
+        var ticket = await _context.Tickets
+            .Include(t => t.Survey)
+            .FirstOrDefaultAsync(t => t.Id == ticketId && t.CreatedByUserId == clientId);
+        if (ticket == null)
+        {
+            return (SubmitSurveyResult.TicketNotFound, null);
+        }
+        if (ticket.Status != TicketStatus.Closed)
+        {
+            return (SubmitSurveyResult.TicketNotClosed, null);
+        }
+        if (ticket.Survey != null)
+        {
+            return (SubmitSurveyResult.AlreadySubmitted, null);
+        }
+
+        var survey = new TicketSurvey
+        {
+            TicketId = ticket.Id,
+            Rating = request.Rating,
+            Comment = string.IsNullOrWhiteSpace(request.Comment) ? null : request.Comment.Trim(),
+            ResolvedOnFirstContact = request.ResolvedOnFirstContact,
+            SubmittedAt = DateTime.UtcNow
+        };
+        _context.TicketSurveys.Add(survey);
+        await _context.SaveChangesAsync();
+
+        return (SubmitSurveyResult.Success, MapToDto(survey));
+    }
+
+    public async Task<CsatReportResponse> GetCsatReportAsync(CsatReportQuery query)
+    {
+        var to = (query.To ?? DateTime.UtcNow).Date;
+        var from = (query.From ?? to.AddDays(1 - DefaultReportDays)).Date;
+        var end = to.AddDays(1);
+
+        var answers = await _context.TicketSurveys
+            .Where(s => s.SubmittedAt >= from && s.SubmittedAt < end)
+            .Select(s => new
+            {
+                s.Rating,
+                s.ResolvedOnFirstContact,
+                s.SubmittedAt,
+                s.Ticket!.CategoryId,
+                CategoryName = s.Ticket.Category!.Name,
+                s.Ticket.TechnicianId,
+                TechnicianName = s.Ticket.Technician!.FullName
+            })
+            .ToListAsync();
+
+        return new CsatReportResponse
+        {
+            Overall = Fill(new CsatSummaryDto(), answers.Select(a => (a.Rating, a.ResolvedOnFirstContact))),
+            ByTechnician = answers
+                .Where(a => a.TechnicianId.HasValue)
+                .GroupBy(a => new { TechnicianId = a.TechnicianId!.Value, a.TechnicianName })
+                .Select(g => Fill(
+                    new CsatTechnicianSummaryDto { TechnicianId = g.Key.TechnicianId, TechnicianName = g.Key.TechnicianName },
+                    g.Select(a => (a.Rating, a.ResolvedOnFirstContact))))
+                .OrderByDescending(s => s.Responses)
+                .ToList(),
+            ByCategory = answers
+                .GroupBy(a => new { a.CategoryId, a.CategoryName })
+                .Select(g => Fill(
+                    new CsatCategorySummaryDto { CategoryId = g.Key.CategoryId, CategoryName = g.Key.CategoryName },
+                    g.Select(a => (a.Rating, a.ResolvedOnFirstContact))))
+                .OrderByDescending(s => s.Responses)
+                .ToList(),
+            ByPeriod = answers
+                .GroupBy(a => PeriodStart(a.SubmittedAt, query.Period))
+                .OrderBy(g => g.Key)
+                .Select(g => Fill(new CsatPeriodSummaryDto { Start = g.Key }, g.Select(a => (a.Rating, a.ResolvedOnFirstContact))))
+                .ToList()
+        };
+    }
+
+    public async Task<IReadOnlyDictionary<Guid, CsatSummaryDto>> GetTechnicianSummariesAsync()
+    {
+        var answers = await _context.TicketSurveys
+            .Where(s => s.Ticket!.TechnicianId != null)
+            .Select(s => new { TechnicianId = s.Ticket!.TechnicianId!.Value, s.Rating, s.ResolvedOnFirstContact })
+            .ToListAsync();
+
+        return answers
+            .GroupBy(a => a.TechnicianId)
+            .ToDictionary(
+                g => g.Key,
+                g => Fill(new CsatSummaryDto(), g.Select(a => (a.Rating, a.ResolvedOnFirstContact))));
+    }
+
+    private static T Fill<T>(T summary, IEnumerable<(int rating, bool firstContact)> group) where T : CsatSummaryDto
+    {
+        var answers = group.ToList();
+        summary.Responses = answers.Count;
+        if (answers.Count > 0)
+        {
+            summary.AverageRating = answers.Average(a => a.rating);
+            summary.SatisfiedRate = answers.Count(a => a.rating >= 4) / (double)answers.Count;
+            summary.FirstContactResolutionRate = answers.Count(a => a.firstContact) / (double)answers.Count;
+        }
+        return summary;
+    }
+
+    // Weeks start on Saturday, as in the Persian calendar
+    private static DateTime PeriodStart(DateTime date, CsatPeriod period) => period switch
+    {
+        CsatPeriod.Month => new DateTime(date.Year, date.Month, 1, 0, 0, 0, DateTimeKind.Utc),
+        _ => DateTime.SpecifyKind(date.Date.AddDays(-(((int)date.DayOfWeek + 1) % 7)), DateTimeKind.Utc)
+    };
+
+    private static TicketSurveyDto MapToDto(TicketSurvey survey) => new()
+    {
+        Rating = survey.Rating,
+        Comment = survey.Comment,
+        ResolvedOnFirstContact = survey.ResolvedOnFirstContact,
+        SubmittedAt = survey.SubmittedAt
+    };
+}
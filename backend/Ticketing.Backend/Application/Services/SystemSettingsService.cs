@@ -9,6 +9,7 @@ namespace Ticketing.Backend.Application.Services;
 public interface ISystemSettingsService
 {
     Task<SystemSettingsResponse> GetSystemSettingsAsync();
+    Task<PublicSettingsResponse> GetPublicSettingsAsync();
     Task<SystemSettingsResponse> UpdateSystemSettingsAsync(SystemSettingsUpdateRequest request);
 }
 
@@ -42,6 +43,28 @@ public class SystemSettingsService : ISystemSettingsService
         return MapToResponse(settings);
     }
 
+    public async Task<PublicSettingsResponse> GetPublicSettingsAsync()
+    {
+        var settings = await GetSystemSettingsAsync();
+
+        return new PublicSettingsResponse
+        {
+            AppName = settings.AppName,
+            SupportEmail = settings.SupportEmail,
+            SupportPhone = settings.SupportPhone,
+            DefaultLanguage = settings.DefaultLanguage,
+            Timezone = settings.Timezone,
+
+            AllowClientAttachments = settings.AllowClientAttachments,
+            MaxAttachmentSizeMB = settings.MaxAttachmentSizeMB,
+
+            PasswordMinLength = settings.PasswordMinLength,
+            Require2FA = settings.Require2FA,
+            SessionTimeoutMinutes = settings.SessionTimeoutMinutes,
+            AllowedEmailDomains = settings.AllowedEmailDomains
+        };
+    }
+
     public async Task<SystemSettingsResponse> UpdateSystemSettingsAsync(SystemSettingsUpdateRequest request)
     {
         var settings = await _context.SystemSettings
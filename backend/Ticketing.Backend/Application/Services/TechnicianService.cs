@@ -33,11 +33,13 @@ public interface ITechnicianService
 public class TechnicianService : ITechnicianService
 {
     private readonly AppDbContext _context;
+    private readonly ISurveyService _surveyService;
     private readonly ILogger<TechnicianService> _logger;
 
-    public TechnicianService(AppDbContext context, ILogger<TechnicianService> logger)
+    public TechnicianService(AppDbContext context, ISurveyService surveyService, ILogger<TechnicianService> logger)
     {
         _context = context;
+        _surveyService = surveyService;
         _logger = logger;
     }
 
@@ -47,7 +49,8 @@ public class TechnicianService : ITechnicianService
             .OrderBy(t => t.FullName)
             .ToListAsync();
 
-        return technicians.Select(MapToResponse);
+        var satisfaction = await _surveyService.GetTechnicianSummariesAsync();
+        return technicians.Select(t => WithSatisfaction(MapToResponse(t), satisfaction));
     }
 
     public async Task<TechnicianResponse?> GetTechnicianByIdAsync(Guid id)
@@ -55,7 +58,13 @@ public class TechnicianService : ITechnicianService
         var technician = await _context.Technicians
             .FirstOrDefaultAsync(t => t.Id == id);
 
-        return technician == null ? null : MapToResponse(technician);
+        if (technician == null)
+        {
+            return null;
+        }
+
+        var satisfaction = await _surveyService.GetTechnicianSummariesAsync();
+        return WithSatisfaction(MapToResponse(technician), satisfaction);
     }
 
     public async Task<TechnicianResponse> CreateTechnicianAsync(TechnicianCreateRequest request)
@@ -182,5 +191,15 @@ public class TechnicianService : ITechnicianService
         CreatedAt = technician.CreatedAt,
         UserId = technician.UserId // For debugging: null = cannot be assigned
     };
+
+    // Technicians nobody has rated keep the empty summary
+    private static TechnicianResponse WithSatisfaction(TechnicianResponse technician, IReadOnlyDictionary<Guid, CsatSummaryDto> satisfaction)
+    {
+        if (satisfaction.TryGetValue(technician.Id, out var summary))
+        {
+            technician.Satisfaction = summary;
+        }
+        return technician;
+    }
 }
 
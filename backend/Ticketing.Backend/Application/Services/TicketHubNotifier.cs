@@ -0,0 +1,81 @@
+using Microsoft.AspNetCore.SignalR;
+using Ticketing.Backend.Api.Hubs;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// Sends ticket events through the notification hub. Created, updated and assigned go to everyone
+/// allowed to see the ticket; messages only to connections that joined the ticket's group.
+/// </summary>
+public interface ITicketHubNotifier
+{
+    Task TicketCreatedAsync(TicketResponse ticket);
+    Task TicketUpdatedAsync(TicketResponse ticket);
+    Task TicketAssignedAsync(TicketResponse ticket, Guid? assignedByUserId);
+    Task MessageAddedAsync(Guid ticketId, TicketMessageDto message, int responseCount);
+}
+
+public class TicketHubNotifier : ITicketHubNotifier
+{
+    private readonly IHubContext<NotificationHub> _hubContext;
+    private readonly ILogger<TicketHubNotifier> _logger;
+
+    public TicketHubNotifier(IHubContext<NotificationHub> hubContext, ILogger<TicketHubNotifier> logger)
+    {
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    public Task TicketCreatedAsync(TicketResponse ticket) =>
+        SendAsync(AudienceOf(ticket), "ticket:created", ticket);
+
+    public Task TicketUpdatedAsync(TicketResponse ticket) =>
+        SendAsync(AudienceOf(ticket), "ticket:updated", ticket);
+
+    public Task TicketAssignedAsync(TicketResponse ticket, Guid? assignedByUserId) =>
+        SendAsync(AudienceOf(ticket), "ticket:assigned", new TicketAssignedEvent
+        {
+            TicketId = ticket.Id,
+            AssignedToUserId = ticket.AssignedToUserId,
+            AssignedToName = ticket.AssignedToName,
+            AssignedByUserId = assignedByUserId
+        });
+
+    public Task MessageAddedAsync(Guid ticketId, TicketMessageDto message, int responseCount) =>
+        SendAsync(new[] { NotificationHub.TicketGroup(ticketId) }, "ticket:messageAdded", new TicketMessageAddedEvent
+        {
+            TicketId = ticketId,
+            Message = message,
+            ResponseCount = responseCount
+        });
+
+    // The same people VisibleTickets lets see the ticket: admins, its client and its technician
+    private static IReadOnlyList<string> AudienceOf(TicketResponse ticket)
+    {
+        var groups = new List<string>
+        {
+            NotificationHub.RoleGroup(UserRole.Admin),
+            NotificationHub.UserGroup(ticket.CreatedByUserId)
+        };
+        if (ticket.AssignedToUserId.HasValue)
+        {
+            groups.Add(NotificationHub.UserGroup(ticket.AssignedToUserId.Value));
+        }
+        return groups;
+    }
+
+    // The change is saved by now, so a failed push is logged rather than failing the request
+    private async Task SendAsync(IReadOnlyList<string> groups, string eventName, object payload)
+    {
+        try
+        {
+            await _hubContext.Clients.Groups(groups).SendAsync(eventName, payload);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to push {Event} to the notification hub", eventName);
+        }
+    }
+}
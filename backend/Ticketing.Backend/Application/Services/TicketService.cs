@@ -2,7 +2,9 @@ using Microsoft.EntityFrameworkCore;
 using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Domain.Entities;
 using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
 using Ticketing.Backend.Infrastructure.Data;
+using Ticketing.Backend.Infrastructure.Tickets;
 
 namespace Ticketing.Backend.Application.Services;
 
@@ -14,16 +16,32 @@ public class StatusChangeForbiddenException : Exception
     public StatusChangeForbiddenException(string message) : base(message) { }
 }
 
+/// <summary>
+/// Result of folding duplicates into a ticket
+/// </summary>
+public enum MergeTicketsResult
+{
+    Success,
+    TicketNotFound,
+    NotMergeable,
+    DifferentClients
+}
+
 public interface ITicketService
 {
-    Task<IEnumerable<TicketResponse>> GetTicketsAsync(Guid userId, UserRole role, TicketStatus? status, TicketPriority? priority, Guid? assignedTo, Guid? createdBy, string? search);
+    Task<TicketListResponse> GetTicketsAsync(Guid userId, UserRole role, TicketListQuery query);
+    Task<TicketSummaryResponse> GetTicketSummaryAsync(Guid userId, UserRole role, TicketFilterQuery query);
+    Task<IEnumerable<SimilarTicketResponse>> GetSimilarTicketsAsync(Guid userId, UserRole role, SimilarTicketsQuery query);
     Task<TicketResponse?> GetTicketAsync(Guid id, Guid userId, UserRole role);
     Task<TicketResponse?> CreateTicketAsync(Guid userId, TicketCreateRequest request);
     Task<TicketResponse?> UpdateTicketAsync(Guid id, Guid userId, UserRole role, TicketUpdateRequest request);
     Task<TicketResponse?> AssignTicketAsync(Guid id, Guid technicianId);
     Task<IEnumerable<TicketMessageDto>> GetMessagesAsync(Guid ticketId, Guid userId, UserRole role);
     Task<TicketMessageDto?> AddMessageAsync(Guid ticketId, Guid authorId, string message, TicketStatus? status = null);
+    Task<IEnumerable<TicketActivityDto>> GetActivitiesAsync(Guid ticketId, Guid userId, UserRole role);
+    Task<(MergeTicketsResult result, TicketMergeResponse? merge)> MergeTicketsAsync(Guid primaryId, Guid userId, IReadOnlyCollection<Guid> ticketIds);
     Task<IEnumerable<TicketCalendarResponse>> GetCalendarTicketsAsync(DateTime startDate, DateTime endDate);
+    Task<int> CloseUnansweredResolvedTicketsAsync();
 }
 
 public class TicketService : ITicketService
@@ -33,63 +51,235 @@ public class TicketService : ITicketService
     private readonly ITechnicianService _technicianService;
     private readonly ISystemSettingsService _systemSettingsService;
     private readonly ISmartAssignmentService _smartAssignmentService;
+    private readonly ISlaService _slaService;
+    private readonly ITicketHubNotifier _hubNotifier;
+    private readonly IWorkflowService _workflowService;
+    private readonly IHttpContextAccessor _httpContextAccessor;
 
     public TicketService(
         AppDbContext context, 
         INotificationService notificationService, 
         ITechnicianService technicianService,
         ISystemSettingsService systemSettingsService,
-        ISmartAssignmentService smartAssignmentService)
+        ISmartAssignmentService smartAssignmentService,
+        ISlaService slaService,
+        ITicketHubNotifier hubNotifier,
+        IWorkflowService workflowService,
+        IHttpContextAccessor httpContextAccessor)
     {
         _context = context;
         _notificationService = notificationService;
         _technicianService = technicianService;
         _systemSettingsService = systemSettingsService;
         _smartAssignmentService = smartAssignmentService;
+        _slaService = slaService;
+        _hubNotifier = hubNotifier;
+        _workflowService = workflowService;
+        _httpContextAccessor = httpContextAccessor;
     }
 
-    public async Task<IEnumerable<TicketResponse>> GetTicketsAsync(Guid userId, UserRole role, TicketStatus? status, TicketPriority? priority, Guid? assignedTo, Guid? createdBy, string? search)
+    public async Task<TicketListResponse> GetTicketsAsync(Guid userId, UserRole role, TicketListQuery query)
     {
-        // Start building a query with all the relationships we need for mapping
-        var query = _context.Tickets
+        var tickets = FilterTickets(VisibleTickets(userId, role), query);
+        var totalCount = await tickets.CountAsync();
+
+        // Include all the relationships we need for mapping
+        var withDetails = tickets
             .Include(t => t.Category)
             .Include(t => t.Subcategory)
             .Include(t => t.CreatedByUser)
             .Include(t => t.AssignedToUser)
             .Include(t => t.Technician)
-            .AsQueryable();
+            .Include(t => t.Survey);
+        var page = await SortTickets(withDetails, query.Sort)
+            .Skip((query.Page - 1) * query.PageSize)
+            .Take(query.PageSize)
+            .ToListAsync();
+
+        var items = page.Select(MapToResponse).ToList();
+        await AddThreadSummariesAsync(items);
 
-        // Restrict tickets based on role
-        query = role switch
+        return new TicketListResponse
+        {
+            Items = items,
+            TotalCount = totalCount,
+            Page = query.Page,
+            PageSize = query.PageSize
+        };
+    }
+
+    public async Task<TicketSummaryResponse> GetTicketSummaryAsync(Guid userId, UserRole role, TicketFilterQuery query)
+    {
+        var tickets = FilterTickets(VisibleTickets(userId, role), query);
+
+        var byStatus = await tickets
+            .GroupBy(t => t.Status)
+            .Select(g => new TicketStatusCount { Status = g.Key, Count = g.Count() })
+            .ToListAsync();
+        var byAssignee = await tickets
+            .Where(t => t.AssignedToUserId != null)
+            .GroupBy(t => t.AssignedToUserId!.Value)
+            .Select(g => new TicketAssigneeCount { UserId = g.Key, Count = g.Count() })
+            .ToListAsync();
+
+        return new TicketSummaryResponse
+        {
+            TotalCount = byStatus.Sum(s => s.Count),
+            ByStatus = byStatus.OrderBy(s => s.Status).ToList(),
+            ByAssignee = byAssignee.OrderByDescending(a => a.Count).ToList()
+        };
+    }
+
+    /// <summary>
+    /// Open tickets of the category that read like the draft, best match first. Clients are only
+    /// offered their own tickets, and can't lower the score threshold or raise the limit; staff search
+    /// every ticket and learn only the title and status of those they may not open.
+    /// </summary>
+    public async Task<IEnumerable<SimilarTicketResponse>> GetSimilarTicketsAsync(Guid userId, UserRole role, SimilarTicketsQuery query)
+    {
+        var draftTitle = TicketSimilarity.Tokenize(query.Title);
+        if (draftTitle.Count == 0)
+        {
+            return Enumerable.Empty<SimilarTicketResponse>();
+        }
+        var draftText = new HashSet<string>(draftTitle);
+        draftText.UnionWith(TicketSimilarity.Tokenize(query.Description));
+
+        // Only tickets sharing a word with the draft are loaded and scored
+        var words = draftText.SelectMany(TicketSimilarity.StoredForms).ToList();
+        var tickets = role == UserRole.Client ? VisibleTickets(userId, role) : _context.Tickets;
+        var candidates = await tickets
+            .Where(t => t.CategoryId == query.CategoryId
+                && t.Status != TicketStatus.Resolved
+                && t.Status != TicketStatus.Closed
+                && (query.ExcludeId == null || t.Id != query.ExcludeId)
+                && words.Any(w => t.Title.ToLower().Contains(w) || t.Description.ToLower().Contains(w)))
+            .OrderByDescending(t => t.CreatedAt)
+            .Take(TicketSimilarity.CandidateLimit)
+            .Select(t => new { t.Id, t.Title, t.Description, t.Status, t.CreatedAt, t.CreatedByUserId, t.TechnicianId, t.AssignedToUserId })
+            .ToListAsync();
+
+        var minScore = query.MinScore ?? TicketSimilarity.DefaultMinScore;
+        var limit = query.Limit ?? TicketSimilarity.DefaultLimit;
+        if (role == UserRole.Client)
+        {
+            minScore = Math.Max(minScore, TicketSimilarity.DefaultMinScore);
+            limit = Math.Min(limit, TicketSimilarity.DefaultLimit);
+        }
+
+        return candidates
+            .Select(t => new SimilarTicketResponse
+            {
+                Id = t.Id,
+                Title = t.Title,
+                Status = t.Status,
+                CreatedAt = t.CreatedAt,
+                Score = TicketSimilarity.Score(draftTitle, draftText, t.Title, t.Description),
+                // The same rule as VisibleTickets
+                CanView = role switch
+                {
+                    UserRole.Client => t.CreatedByUserId == userId,
+                    UserRole.Technician => t.TechnicianId == userId || t.AssignedToUserId == userId,
+                    _ => true
+                }
+            })
+            .Where(t => t.Score >= minScore)
+            .OrderByDescending(t => t.Score)
+            .Take(limit)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Tickets the role may see: clients their own, technicians the ones they work on, admins all
+    /// </summary>
+    private IQueryable<Ticket> VisibleTickets(Guid userId, UserRole role)
+    {
+        var query = _context.Tickets.AsQueryable();
+        return role switch
         {
             UserRole.Client => query.Where(t => t.CreatedByUserId == userId),
             UserRole.Technician => query.Where(t => t.TechnicianId == userId || t.AssignedToUserId == userId),
             _ => query
         };
+    }
 
-        if (status.HasValue)
+    private static IQueryable<Ticket> FilterTickets(IQueryable<Ticket> query, TicketFilterQuery filter)
+    {
+        if (filter.Status is { Count: > 0 } statuses)
+        {
+            query = query.Where(t => statuses.Contains(t.Status));
+        }
+        if (filter.Priority is { Count: > 0 } priorities)
         {
-            query = query.Where(t => t.Status == status.Value);
+            query = query.Where(t => priorities.Contains(t.Priority));
         }
-        if (priority.HasValue)
+        if (filter.CategoryId.HasValue)
         {
-            query = query.Where(t => t.Priority == priority.Value);
+            query = query.Where(t => t.CategoryId == filter.CategoryId.Value);
         }
-        if (assignedTo.HasValue)
+        if (filter.SubcategoryId.HasValue)
         {
-            query = query.Where(t => t.AssignedToUserId == assignedTo.Value);
+            query = query.Where(t => t.SubcategoryId == filter.SubcategoryId.Value);
         }
-        if (createdBy.HasValue)
+        if (filter.AssignedTo.HasValue)
         {
-            query = query.Where(t => t.CreatedByUserId == createdBy.Value);
+            query = query.Where(t => t.AssignedToUserId == filter.AssignedTo.Value);
         }
-        if (!string.IsNullOrWhiteSpace(search))
+        if (filter.CreatedBy.HasValue)
         {
-            query = query.Where(t => t.Title.Contains(search) || t.Description.Contains(search));
+            query = query.Where(t => t.CreatedByUserId == filter.CreatedBy.Value);
         }
+        if (filter.Unassigned.HasValue)
+        {
+            query = filter.Unassigned.Value
+                ? query.Where(t => t.AssignedToUserId == null)
+                : query.Where(t => t.AssignedToUserId != null);
+        }
+        if (filter.CreatedFrom.HasValue)
+        {
+            query = query.Where(t => t.CreatedAt >= filter.CreatedFrom.Value);
+        }
+        if (filter.CreatedTo.HasValue)
+        {
+            var createdTo = filter.CreatedTo.Value;
+            query = createdTo.TimeOfDay == TimeSpan.Zero
+                ? query.Where(t => t.CreatedAt < createdTo.AddDays(1))
+                : query.Where(t => t.CreatedAt <= createdTo);
+        }
+        if (!string.IsNullOrWhiteSpace(filter.Search))
+        {
+            // LIKE ignores case, unlike Contains; escape its wildcards so they match literally
+            var pattern = "%" + filter.Search.Trim().Replace("\\", "\\\\").Replace("%", "\\%").Replace("_", "\\_") + "%";
+            query = query.Where(t => EF.Functions.Like(t.Title, pattern, "\\") || EF.Functions.Like(t.Description, pattern, "\\"));
+        }
+
+        return query;
+    }
 
-        var tickets = await query.OrderByDescending(t => t.CreatedAt).ToListAsync();
-        return tickets.Select(MapToResponse);
+    /// <summary>
+    /// Order by a validated "field:direction" sort, newest first by default. Tickets without the
+    /// date go last, and the id keeps pages stable when values tie.
+    /// </summary>
+    private static IQueryable<Ticket> SortTickets(IQueryable<Ticket> query, string? sort)
+    {
+        var parts = (sort ?? "createdAt:desc").Split(':');
+        var descending = parts.Length > 1 && parts[1] == "desc";
+
+        IOrderedQueryable<Ticket> ordered = parts[0] switch
+        {
+            "updatedAt" => descending
+                ? query.OrderBy(t => t.UpdatedAt == null).ThenByDescending(t => t.UpdatedAt)
+                : query.OrderBy(t => t.UpdatedAt == null).ThenBy(t => t.UpdatedAt),
+            "dueDate" => descending
+                ? query.OrderBy(t => t.DueDate == null).ThenByDescending(t => t.DueDate)
+                : query.OrderBy(t => t.DueDate == null).ThenBy(t => t.DueDate),
+            "priority" => descending ? query.OrderByDescending(t => t.Priority) : query.OrderBy(t => t.Priority),
+            "status" => descending ? query.OrderByDescending(t => t.Status) : query.OrderBy(t => t.Status),
+            "title" => descending ? query.OrderByDescending(t => t.Title) : query.OrderBy(t => t.Title),
+            _ => descending ? query.OrderByDescending(t => t.CreatedAt) : query.OrderBy(t => t.CreatedAt)
+        };
+
+        return ordered.ThenBy(t => t.Id);
     }
 
     public async Task<TicketResponse?> GetTicketAsync(Guid id, Guid userId, UserRole role)
@@ -100,6 +290,7 @@ public class TicketService : ITicketService
             .Include(t => t.CreatedByUser)
             .Include(t => t.AssignedToUser)
             .Include(t => t.Technician)
+            .Include(t => t.Survey)
             .FirstOrDefaultAsync(t => t.Id == id);
 
         if (ticket == null)
@@ -117,7 +308,80 @@ public class TicketService : ITicketService
             return null;
         }
 
-        return MapToResponse(ticket);
+        var response = MapToResponse(ticket);
+        await AddThreadSummariesAsync(new[] { response });
+        response.Attachments = await _context.Attachments
+            .Where(a => a.TicketId == id)
+            .OrderBy(a => a.UploadedAt)
+            .Select(a => new AttachmentDto
+            {
+                Id = a.Id,
+                TicketId = a.TicketId,
+                MessageId = a.MessageId,
+                FileName = a.FileName,
+                ContentType = a.ContentType,
+                Size = a.Size,
+                UploadedByUserId = a.UploadedByUserId,
+                UploadedByName = a.UploadedByUser!.FullName,
+                UploadedAt = a.UploadedAt
+            })
+            .ToListAsync();
+        return response;
+    }
+
+    /// <summary>
+    /// Refuse a status change the ticket workflow doesn't give the role, or that lacks what the
+    /// transition requires: a note (only a reply carries one) or an assigned technician
+    /// </summary>
+    private async Task EnsureTransitionAllowedAsync(Ticket ticket, TicketStatus from, UserRole role, string? note)
+    {
+        if (from == ticket.Status)
+        {
+            return;
+        }
+
+        var transition = await _workflowService.FindTransitionAsync(from, ticket.Status, role);
+        if (transition == null)
+        {
+            throw new StatusChangeForbiddenException("گردش کار تیکت اجازه این تغییر وضعیت را به شما نمی‌دهد");
+        }
+        if (transition.Requires.Contains(WorkflowRequirement.Note) && string.IsNullOrWhiteSpace(note))
+        {
+            throw new StatusChangeForbiddenException("این تغییر وضعیت باید همراه یک پاسخ ثبت شود");
+        }
+        if (transition.Requires.Contains(WorkflowRequirement.Assignee) && ticket.AssignedToUserId == null && ticket.TechnicianId == null)
+        {
+            throw new StatusChangeForbiddenException("برای این تغییر وضعیت ابتدا باید تکنسینی به تیکت اختصاص یابد");
+        }
+    }
+
+    /// <summary>
+    /// Fill in who answered last, when, how many messages each ticket's thread has and how many
+    /// files are attached to it
+    /// </summary>
+    private async Task AddThreadSummariesAsync(IReadOnlyCollection<TicketResponse> tickets)
+    {
+        var ids = tickets.Select(t => t.Id).ToList();
+        var messages = await _context.TicketMessages
+            .Where(m => ids.Contains(m.TicketId))
+            .Select(m => new { m.TicketId, m.CreatedAt, AuthorName = m.AuthorUser!.FullName })
+            .ToListAsync();
+        var threads = messages.ToLookup(m => m.TicketId);
+        var attachmentCounts = await _context.Attachments
+            .Where(a => ids.Contains(a.TicketId))
+            .GroupBy(a => a.TicketId)
+            .Select(g => new { TicketId = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(g => g.TicketId, g => g.Count);
+
+        foreach (var ticket in tickets)
+        {
+            var thread = threads[ticket.Id].ToList();
+            var last = thread.MaxBy(m => m.CreatedAt);
+            ticket.ResponseCount = thread.Count;
+            ticket.LastResponseBy = last?.AuthorName;
+            ticket.LastResponseAt = last?.CreatedAt;
+            ticket.AttachmentCount = attachmentCounts.GetValueOrDefault(ticket.Id);
+        }
     }
 
     public async Task<TicketResponse?> CreateTicketAsync(Guid userId, TicketCreateRequest request)
@@ -152,7 +416,9 @@ public class TicketService : ITicketService
             .Include(t => t.Technician)
             .FirstAsync(t => t.Id == ticket.Id);
 
-        return MapToResponse(ticket);
+        var response = MapToResponse(ticket);
+        await _hubNotifier.TicketCreatedAsync(response);
+        return response;
     }
 
     public async Task<TicketResponse?> UpdateTicketAsync(Guid id, Guid userId, UserRole role, TicketUpdateRequest request)
@@ -173,6 +439,9 @@ public class TicketService : ITicketService
             return null;
         }
 
+        var previousStatus = ticket.Status;
+        var previousAssignee = ticket.AssignedToUserId;
+
         if (request.Description != null && role != UserRole.Technician)
         {
             ticket.Description = request.Description;
@@ -212,10 +481,21 @@ public class TicketService : ITicketService
             ticket.DueDate = request.DueDate;
         }
 
+        await EnsureTransitionAllowedAsync(ticket, previousStatus, role, note: null);
+        await TrackStatusChangeAsync(ticket, previousStatus);
         ticket.UpdatedAt = DateTime.UtcNow;
         await _context.SaveChangesAsync();
 
-        return await GetTicketAsync(id, userId, role);
+        var updated = await GetTicketAsync(id, userId, role);
+        if (updated != null)
+        {
+            await _hubNotifier.TicketUpdatedAsync(updated);
+            if (updated.AssignedToUserId != previousAssignee)
+            {
+                await _hubNotifier.TicketAssignedAsync(updated, userId);
+            }
+        }
+        return updated;
     }
 
     public async Task<TicketResponse?> AssignTicketAsync(Guid id, Guid technicianId)
@@ -236,13 +516,21 @@ public class TicketService : ITicketService
         }
 
         // Set both TechnicianId (for display/navigation) and AssignedToUserId (for filtering/queries)
+        var previousStatus = ticket.Status;
         ticket.TechnicianId = technicianId;
         ticket.AssignedToUserId = technician.UserId; // CRITICAL: Set to Technician.UserId (User.Id), not null
         ticket.Status = TicketStatus.InProgress;
+        await TrackStatusChangeAsync(ticket, previousStatus);
         ticket.UpdatedAt = DateTime.UtcNow;
         await _context.SaveChangesAsync();
 
-        return await GetTicketAsync(id, Guid.Empty, UserRole.Admin);
+        var assigned = await GetTicketAsync(id, Guid.Empty, UserRole.Admin);
+        if (assigned != null)
+        {
+            await _hubNotifier.TicketUpdatedAsync(assigned);
+            await _hubNotifier.TicketAssignedAsync(assigned, null);
+        }
+        return assigned;
     }
 
     public async Task<IEnumerable<TicketMessageDto>> GetMessagesAsync(Guid ticketId, Guid userId, UserRole role)
@@ -270,6 +558,32 @@ public class TicketService : ITicketService
             .ToListAsync();
     }
 
+    public async Task<IEnumerable<TicketActivityDto>> GetActivitiesAsync(Guid ticketId, Guid userId, UserRole role)
+    {
+        var ticket = await GetTicketAsync(ticketId, userId, role);
+        if (ticket == null)
+        {
+            return Enumerable.Empty<TicketActivityDto>();
+        }
+
+        return await _context.TicketActivities
+            .Include(a => a.ActorUser)
+            .Where(a => a.TicketId == ticketId)
+            .OrderByDescending(a => a.CreatedAt)
+            .Select(a => new TicketActivityDto
+            {
+                Id = a.Id,
+                TicketId = a.TicketId,
+                ActorUserId = a.ActorUserId,
+                ActorName = a.ActorUser!.FullName,
+                ActorEmail = a.ActorUser.Email,
+                Type = a.Type,
+                Message = a.Message,
+                CreatedAt = a.CreatedAt
+            })
+            .ToListAsync();
+    }
+
     public async Task<TicketMessageDto?> AddMessageAsync(Guid ticketId, Guid authorId, string message, TicketStatus? status = null)
     {
         var ticket = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == ticketId);
@@ -303,6 +617,7 @@ public class TicketService : ITicketService
         // REOPEN (InProgress from Resolved/Closed): All roles allowed
         // Other status changes: Technician & Admin only
         // ═══════════════════════════════════════════════════════════════════════════════
+        var previousStatus = ticket.Status;
         if (status.HasValue)
         {
             var newStatus = status.Value;
@@ -335,6 +650,8 @@ public class TicketService : ITicketService
             }
         }
 
+        await EnsureTransitionAllowedAsync(ticket, previousStatus, author.Role, message);
+        await TrackStatusChangeAsync(ticket, previousStatus);
         ticket.UpdatedAt = DateTime.UtcNow;
 
         var ticketMessage = new TicketMessage
@@ -344,7 +661,8 @@ public class TicketService : ITicketService
             AuthorUserId = authorId,
             Message = message,
             CreatedAt = DateTime.UtcNow,
-            Status = status ?? ticket.Status
+            Status = status ?? ticket.Status,
+            ImpersonatorUserId = ImpersonationMiddleware.ImpersonatorOf(_httpContextAccessor.HttpContext)
         };
 
         _context.TicketMessages.Add(ticketMessage);
@@ -354,7 +672,7 @@ public class TicketService : ITicketService
         var notifyUserId = ticket.AssignedToUserId == authorId ? ticket.CreatedByUserId : ticket.AssignedToUserId ?? ticket.CreatedByUserId;
         await _notificationService.CreateNotificationAsync(notifyUserId, $"New message on ticket '{ticket.Title}'");
 
-        return await _context.TicketMessages
+        var added = await _context.TicketMessages
             .Include(m => m.AuthorUser)
             .Where(m => m.Id == ticketMessage.Id)
             .Select(m => new TicketMessageDto
@@ -368,8 +686,152 @@ public class TicketService : ITicketService
                 Status = m.Status
             })
             .FirstAsync();
+
+        var responseCount = await _context.TicketMessages.CountAsync(m => m.TicketId == ticketId);
+        await _hubNotifier.MessageAddedAsync(ticketId, added, responseCount);
+        return added;
+    }
+
+    /// <summary>
+    /// Fold duplicates into a ticket: their messages and attachments move to it, and each duplicate
+    /// is closed with MergedIntoId pointing at it. Merged, resolved and closed tickets can't take part, and
+    /// every duplicate must come from the primary's client, who is the only client able to read it.
+    /// Both sides get a Merged activity on their timeline.
+    /// </summary>
+    public async Task<(MergeTicketsResult result, TicketMergeResponse? merge)> MergeTicketsAsync(Guid primaryId, Guid userId, IReadOnlyCollection<Guid> ticketIds)
+    {
+        var duplicateIds = ticketIds.Where(id => id != primaryId).Distinct().ToList();
+        if (duplicateIds.Count == 0)
+        {
+            return (MergeTicketsResult.NotMergeable, null);
+        }
+
+        var tickets = await _context.Tickets
+            .Where(t => t.Id == primaryId || duplicateIds.Contains(t.Id))
+            .ToListAsync();
+        var primary = tickets.FirstOrDefault(t => t.Id == primaryId);
+        if (primary == null || tickets.Count != duplicateIds.Count + 1)
+        {
+            return (MergeTicketsResult.TicketNotFound, null);
+        }
+        if (tickets.Any(t => t.MergedIntoId != null || t.Status is TicketStatus.Resolved or TicketStatus.Closed))
+        {
+            return (MergeTicketsResult.NotMergeable, null);
+        }
+        if (tickets.Any(t => t.CreatedByUserId != primary.CreatedByUserId))
+        {
+            return (MergeTicketsResult.DifferentClients, null);
+        }
+
+        var messages = await _context.TicketMessages.Where(m => duplicateIds.Contains(m.TicketId)).ToListAsync();
+        foreach (var message in messages)
+        {
+            message.TicketId = primaryId;
+        }
+        var attachments = await _context.Attachments.Where(a => duplicateIds.Contains(a.TicketId)).ToListAsync();
+        foreach (var attachment in attachments)
+        {
+            attachment.TicketId = primaryId;
+        }
+
+        var now = DateTime.UtcNow;
+        foreach (var duplicate in tickets.Where(t => t.Id != primaryId))
+        {
+            var previousStatus = duplicate.Status;
+            duplicate.Status = TicketStatus.Closed;
+            duplicate.MergedIntoId = primaryId;
+            await TrackStatusChangeAsync(duplicate, previousStatus);
+            duplicate.UpdatedAt = now;
+            AddActivity(duplicate.Id, userId, TicketActivityType.Merged, $"در تیکت {TicketNumber(primaryId)} ادغام شد", now);
+        }
+        primary.UpdatedAt = now;
+        AddActivity(primaryId, userId, TicketActivityType.Merged,
+            $"تیکت‌های {string.Join("، ", duplicateIds.Select(TicketNumber))} در این تیکت ادغام شدند", now);
+        await _context.SaveChangesAsync();
+
+        var merged = await GetTicketAsync(primaryId, userId, UserRole.Admin);
+        await _hubNotifier.TicketUpdatedAsync(merged!);
+        foreach (var duplicateId in duplicateIds)
+        {
+            var duplicate = await GetTicketAsync(duplicateId, userId, UserRole.Admin);
+            if (duplicate != null)
+            {
+                await _hubNotifier.TicketUpdatedAsync(duplicate);
+            }
+        }
+
+        return (MergeTicketsResult.Success, new TicketMergeResponse { Primary = merged!, MergedTicketIds = duplicateIds });
+    }
+
+    /// <summary>
+    /// One sweep of TicketAutoCloseBackgroundService: close the resolved tickets the client neither
+    /// confirmed nor reopened within the workflow's AutoCloseResolvedDays of their resolution.
+    /// Returns the number of tickets closed.
+    /// </summary>
+    public async Task<int> CloseUnansweredResolvedTicketsAsync()
+    {
+        var workflow = await _workflowService.GetWorkflowAsync();
+        if (workflow.AutoCloseResolvedDays <= 0)
+        {
+            return 0;
+        }
+
+        var now = DateTime.UtcNow;
+        var resolvedBefore = now.AddDays(-workflow.AutoCloseResolvedDays);
+        var tickets = await _context.Tickets
+            .Where(t => t.Status == TicketStatus.Resolved && t.SlaResolvedAt != null && t.SlaResolvedAt <= resolvedBefore)
+            .ToListAsync();
+        if (tickets.Count == 0)
+        {
+            return 0;
+        }
+
+        foreach (var ticket in tickets)
+        {
+            ticket.Status = TicketStatus.Closed;
+            await TrackStatusChangeAsync(ticket, TicketStatus.Resolved);
+            ticket.UpdatedAt = now;
+        }
+        await _context.SaveChangesAsync();
+
+        foreach (var ticket in tickets)
+        {
+            var closed = await GetTicketAsync(ticket.Id, Guid.Empty, UserRole.Admin);
+            if (closed != null)
+            {
+                await _hubNotifier.TicketUpdatedAsync(closed);
+            }
+        }
+        return tickets.Count;
+    }
+
+    // Every status change goes through here: the SLA clock and the reopen count follow it
+    private async Task TrackStatusChangeAsync(Ticket ticket, TicketStatus previousStatus)
+    {
+        if (previousStatus is TicketStatus.Resolved or TicketStatus.Closed
+            && ticket.Status is not (TicketStatus.Resolved or TicketStatus.Closed))
+        {
+            ticket.ReopenCount++;
+        }
+        await _slaService.TrackStatusChangeAsync(ticket, previousStatus);
+    }
+
+    private void AddActivity(Guid ticketId, Guid actorUserId, TicketActivityType type, string message, DateTime createdAt)
+    {
+        _context.TicketActivities.Add(new TicketActivity
+        {
+            Id = Guid.NewGuid(),
+            TicketId = ticketId,
+            ActorUserId = actorUserId,
+            Type = type,
+            Message = message,
+            CreatedAt = createdAt,
+            ImpersonatorUserId = ImpersonationMiddleware.ImpersonatorOf(_httpContextAccessor.HttpContext)
+        });
     }
 
+    private static string TicketNumber(Guid ticketId) => $"T-{ticketId.ToString("N").Substring(0, 8).ToUpper()}";
+
     // ═══════════════════════════════════════════════════════════════════════════════
     // MANUAL TEST CHECKLIST (Swagger):
     // 1. POST /api/Tickets → status=New, assignedToUserId=null, assignedToName/email/phone=null
@@ -406,7 +868,25 @@ public class TicketService : ITicketService
             AssignedTechnicianName = isAssigned ? (ticket.Technician?.FullName ?? ticket.AssignedToUser?.FullName) : null,
             CreatedAt = ticket.CreatedAt,
             UpdatedAt = ticket.UpdatedAt,
-            DueDate = ticket.DueDate
+            DueDate = ticket.DueDate,
+            Sla = new TicketSlaStateDto
+            {
+                FirstRespondedAt = ticket.SlaFirstRespondedAt,
+                ResolvedAt = ticket.SlaResolvedAt,
+                PausedMinutes = ticket.SlaPausedMinutes,
+                PausedSince = ticket.SlaPausedSince,
+                EscalatedAt = ticket.SlaEscalatedAt
+            },
+            ResolvedAt = ticket.SlaResolvedAt,
+            ReopenCount = ticket.ReopenCount,
+            Survey = ticket.Survey == null ? null : new TicketSurveyDto
+            {
+                Rating = ticket.Survey.Rating,
+                Comment = ticket.Survey.Comment,
+                ResolvedOnFirstContact = ticket.Survey.ResolvedOnFirstContact,
+                SubmittedAt = ticket.Survey.SubmittedAt
+            },
+            MergedIntoId = ticket.MergedIntoId
         };
     }
 
@@ -0,0 +1,350 @@
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using QRCoder;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Infrastructure.Auth;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// Result of checking a two-factor code. A challenge that has taken too many wrong codes is spent:
+/// the sign-in has to start again from the password.
+/// </summary>
+public enum TwoFactorCodeResult
+{
+    Success,
+    Rejected,
+    ChallengeSpent,
+    Locked
+}
+
+public interface ITwoFactorService
+{
+    Task<TwoFactorStatusResponse?> GetStatusAsync(Guid userId);
+    Task<TwoFactorSetupResponse?> StartSetupAsync(Guid userId);
+    Task<(TwoFactorCodeResult Result, TwoFactorEnableResponse? Response, SignInFailure? Failure)> EnableAsync(Guid userId, string code, TwoFactorChallengeClaims? challenge);
+    Task<(bool Success, string? ErrorMessage)> DisableAsync(Guid userId, string code);
+    Task<TwoFactorRecoveryCodesResponse?> RegenerateRecoveryCodesAsync(Guid userId, string code);
+    Task<(TwoFactorCodeResult Result, AuthResponse? Session, SignInFailure? Failure)> VerifyChallengeAsync(TwoFactorVerifyRequest request);
+}
+
+public class TwoFactorService : ITwoFactorService
+{
+    private const int RecoveryCodeCount = 10;
+    private const int RecoveryCodeLength = 10;
+    private const string RecoveryCodeAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+    private readonly AppDbContext _context;
+    private readonly IUserService _userService;
+    private readonly ISystemSettingsService _systemSettingsService;
+    private readonly IJwtTokenGenerator _jwtTokenGenerator;
+    private readonly ISignInSecurityService _signInSecurityService;
+
+    public TwoFactorService(
+        AppDbContext context,
+        IUserService userService,
+        ISystemSettingsService systemSettingsService,
+        IJwtTokenGenerator jwtTokenGenerator,
+        ISignInSecurityService signInSecurityService)
+    {
+        _context = context;
+        _userService = userService;
+        _systemSettingsService = systemSettingsService;
+        _jwtTokenGenerator = jwtTokenGenerator;
+        _signInSecurityService = signInSecurityService;
+    }
+
+    public async Task<TwoFactorStatusResponse?> GetStatusAsync(Guid userId)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null)
+        {
+            return null;
+        }
+
+        return new TwoFactorStatusResponse
+        {
+            Enabled = user.TwoFactorEnabled,
+            RecoveryCodesRemaining = user.TwoFactorEnabled ? ReadRecoveryCodeHashes(user).Count : 0
+        };
+    }
+
+    /// <summary>
+    /// Create a new secret for the account. It replaces any earlier unconfirmed one and doesn't count
+    /// until EnableAsync confirms it. Returns null when the account already has an authenticator.
+    /// </summary>
+    public async Task<TwoFactorSetupResponse?> StartSetupAsync(Guid userId)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null || user.TwoFactorEnabled)
+        {
+            return null;
+        }
+
+        var secret = Totp.GenerateSecret();
+        user.TwoFactorSecret = Totp.ToBase32(secret);
+        await _context.SaveChangesAsync();
+
+        var settings = await _systemSettingsService.GetSystemSettingsAsync();
+        var uri = Totp.BuildUri(settings.AppName, user.Email, secret);
+
+        using var generator = new QRCodeGenerator();
+        using var qrData = generator.CreateQrCode(uri, QRCodeGenerator.ECCLevel.Q);
+        var png = new PngByteQRCode(qrData).GetGraphic(5);
+
+        return new TwoFactorSetupResponse
+        {
+            Secret = user.TwoFactorSecret,
+            OtpauthUri = uri,
+            QrCodeDataUrl = $"data:image/png;base64,{Convert.ToBase64String(png)}"
+        };
+    }
+
+    /// <summary>
+    /// Confirm the secret from setup with a code from the authenticator. Returns the recovery codes,
+    /// which are shown only this once, plus the session when the call completes a sign-in with an
+    /// enrollment challenge. Rejected when there is no pending secret; a wrong code is counted like
+    /// one at /verify.
+    /// </summary>
+    public async Task<(TwoFactorCodeResult Result, TwoFactorEnableResponse? Response, SignInFailure? Failure)> EnableAsync(Guid userId, string code, TwoFactorChallengeClaims? challenge)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null || user.TwoFactorEnabled || string.IsNullOrEmpty(user.TwoFactorSecret)
+            || (challenge != null && !user.IsActive))
+        {
+            return (TwoFactorCodeResult.Rejected, null, null);
+        }
+
+        var refused = await RefuseChallengeAsync(user, challenge);
+        if (refused != null)
+        {
+            return (refused.Value.Result, null, refused.Value.Failure);
+        }
+
+        if (!AcceptCode(user, code))
+        {
+            var (result, failure) = await RejectCodeAsync(user, challenge);
+            return (result, null, failure);
+        }
+
+        user.TwoFactorEnabled = true;
+        var recoveryCodes = IssueRecoveryCodes(user);
+        await _context.SaveChangesAsync();
+
+        var response = new TwoFactorEnableResponse { RecoveryCodes = recoveryCodes };
+        if (challenge != null)
+        {
+            var session = await _userService.CreateSessionAsync(user);
+            response.Token = session.Token;
+            response.RefreshToken = session.RefreshToken;
+            response.User = session.User;
+        }
+
+        return (TwoFactorCodeResult.Success, response, null);
+    }
+
+    public async Task<(bool Success, string? ErrorMessage)> DisableAsync(Guid userId, string code)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null)
+        {
+            return (false, "کاربر یافت نشد");
+        }
+
+        if (!user.TwoFactorEnabled)
+        {
+            return (false, "احراز هویت دو مرحله‌ای فعال نیست");
+        }
+
+        var settings = await _systemSettingsService.GetSystemSettingsAsync();
+        if (settings.Require2FA)
+        {
+            return (false, "احراز هویت دو مرحله‌ای برای همه کاربران الزامی است و قابل غیرفعال کردن نیست");
+        }
+
+        if (!AcceptCode(user, code))
+        {
+            await RejectCodeAsync(user, null);
+            return (false, "کد تأیید نادرست است");
+        }
+
+        user.TwoFactorEnabled = false;
+        user.TwoFactorSecret = null;
+        user.TwoFactorRecoveryCodes = null;
+        user.TwoFactorLastUsedStep = null;
+        await _context.SaveChangesAsync();
+        return (true, null);
+    }
+
+    public async Task<TwoFactorRecoveryCodesResponse?> RegenerateRecoveryCodesAsync(Guid userId, string code)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null || !user.TwoFactorEnabled)
+        {
+            return null;
+        }
+
+        if (!AcceptCode(user, code))
+        {
+            await RejectCodeAsync(user, null);
+            return null;
+        }
+
+        var recoveryCodes = IssueRecoveryCodes(user);
+        await _context.SaveChangesAsync();
+        return new TwoFactorRecoveryCodesResponse { RecoveryCodes = recoveryCodes };
+    }
+
+    /// <summary>
+    /// SECURITY-CRITICAL: Second sign-in step. Trades a verification challenge token and a code (or an
+    /// unused recovery code, which is used up) for the session. Enrollment challenges don't qualify.
+    /// A wrong code counts as a failed sign-in of the account, so guessing codes ends in the same lock
+    /// as guessing passwords. A locked account's challenge is refused, and so is one that has taken
+    /// CodeAttemptsPerChallenge wrong codes.
+    /// </summary>
+    public async Task<(TwoFactorCodeResult Result, AuthResponse? Session, SignInFailure? Failure)> VerifyChallengeAsync(TwoFactorVerifyRequest request)
+    {
+        var challenge = _jwtTokenGenerator.ReadChallengeToken(request.ChallengeToken);
+        if (challenge == null || challenge.Enrollment)
+        {
+            return (TwoFactorCodeResult.Rejected, null, null);
+        }
+
+        var user = await _context.Users.FindAsync(challenge.UserId);
+        if (user == null || !user.IsActive || !user.TwoFactorEnabled)
+        {
+            return (TwoFactorCodeResult.Rejected, null, null);
+        }
+
+        var refused = await RefuseChallengeAsync(user, challenge);
+        if (refused != null)
+        {
+            return (refused.Value.Result, null, refused.Value.Failure);
+        }
+
+        var accepted = !string.IsNullOrWhiteSpace(request.RecoveryCode)
+            ? UseRecoveryCode(user, request.RecoveryCode)
+            : !string.IsNullOrWhiteSpace(request.Code) && AcceptCode(user, request.Code);
+        if (!accepted)
+        {
+            var (result, failure) = await RejectCodeAsync(user, challenge);
+            return (result, null, failure);
+        }
+
+        await _context.SaveChangesAsync();
+        return (TwoFactorCodeResult.Success, await _userService.CreateSessionAsync(user), null);
+    }
+
+    // A locked account or a spent challenge can't go on with the sign-in; null when it can
+    private async Task<(TwoFactorCodeResult Result, SignInFailure? Failure)?> RefuseChallengeAsync(User user, TwoFactorChallengeClaims? challenge)
+    {
+        if (challenge == null)
+        {
+            return null;
+        }
+        if (user.LockedUntil > DateTime.UtcNow)
+        {
+            return (TwoFactorCodeResult.Locked, new SignInFailure(0, false, user.LockedUntil));
+        }
+        if (await _signInSecurityService.IsChallengeSpentAsync(user.Id, challenge.IssuedAt))
+        {
+            return (TwoFactorCodeResult.ChallengeSpent, null);
+        }
+        return null;
+    }
+
+    // A wrong code is recorded as a failed sign-in, which may lock the account or spend the challenge
+    private async Task<(TwoFactorCodeResult Result, SignInFailure Failure)> RejectCodeAsync(User user, TwoFactorChallengeClaims? challenge)
+    {
+        var failure = await _signInSecurityService.RecordFailureAsync(user.Email);
+        if (failure.LockedUntil != null)
+        {
+            return (TwoFactorCodeResult.Locked, failure);
+        }
+        if (challenge != null && await _signInSecurityService.IsChallengeSpentAsync(user.Id, challenge.IssuedAt))
+        {
+            return (TwoFactorCodeResult.ChallengeSpent, failure);
+        }
+        return (TwoFactorCodeResult.Rejected, failure);
+    }
+
+    /// <summary>
+    /// Check a TOTP code against the account's secret and remember its time step, so a code that
+    /// was accepted once is refused afterwards
+    /// </summary>
+    private static bool AcceptCode(User user, string code)
+    {
+        if (string.IsNullOrEmpty(user.TwoFactorSecret))
+        {
+            return false;
+        }
+
+        var step = Totp.MatchStep(Totp.FromBase32(user.TwoFactorSecret), code, DateTime.UtcNow);
+        if (step == null || step <= user.TwoFactorLastUsedStep)
+        {
+            return false;
+        }
+
+        user.TwoFactorLastUsedStep = step;
+        return true;
+    }
+
+    private static bool UseRecoveryCode(User user, string recoveryCode)
+    {
+        var hashes = ReadRecoveryCodeHashes(user);
+        if (!hashes.Remove(HashRecoveryCode(recoveryCode)))
+        {
+            return false;
+        }
+
+        user.TwoFactorRecoveryCodes = JsonSerializer.Serialize(hashes);
+        return true;
+    }
+
+    /// <summary>
+    /// Replace the account's recovery codes; only their hashes are stored
+    /// </summary>
+    private static List<string> IssueRecoveryCodes(User user)
+    {
+        var codes = Enumerable.Range(0, RecoveryCodeCount).Select(_ => GenerateRecoveryCode()).ToList();
+        user.TwoFactorRecoveryCodes = JsonSerializer.Serialize(codes.Select(HashRecoveryCode).ToList());
+        return codes;
+    }
+
+    private static List<string> ReadRecoveryCodeHashes(User user)
+    {
+        if (string.IsNullOrWhiteSpace(user.TwoFactorRecoveryCodes))
+        {
+            return new List<string>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<string>>(user.TwoFactorRecoveryCodes) ?? new List<string>();
+        }
+        catch (JsonException)
+        {
+            return new List<string>();
+        }
+    }
+
+    private static string GenerateRecoveryCode()
+    {
+        var characters = Enumerable.Range(0, RecoveryCodeLength)
+            .Select(_ => RecoveryCodeAlphabet[RandomNumberGenerator.GetInt32(RecoveryCodeAlphabet.Length)])
+            .ToArray();
+        var code = new string(characters);
+        return $"{code[..(RecoveryCodeLength / 2)]}-{code[(RecoveryCodeLength / 2)..]}";
+    }
+
+    // Dashes, spaces and case don't matter when a code is typed back in
+    private static string HashRecoveryCode(string recoveryCode)
+    {
+        var normalized = new string(recoveryCode.Where(char.IsLetterOrDigit).ToArray()).ToUpperInvariant();
+        return Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(normalized)));
+    }
+}
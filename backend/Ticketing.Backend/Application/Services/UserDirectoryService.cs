@@ -0,0 +1,328 @@
+using System.ComponentModel.DataAnnotations;
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.AspNetCore.Identity;
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Auth;
+using Ticketing.Backend.Infrastructure.Data;
+using Ticketing.Backend.Infrastructure.Email;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// Result of an admin change to a user account
+/// </summary>
+public enum UserDirectoryResult
+{
+    Success,
+    NotFound,
+    // Admins can't change their own role or deactivate themselves, so nobody locks the last admin out
+    OwnAccount,
+    EmailExists,
+    EmailDomainNotAllowed
+}
+
+public interface IUserDirectoryService
+{
+    Task<IEnumerable<UserAccountDto>> GetAccountsAsync();
+    Task<(UserDirectoryResult Result, UserAccountDto? User)> InviteAsync(UserInviteRequest request);
+    Task<UserImportResponse> ImportAsync(UserImportRequest request);
+    Task<UserDirectoryResult> UpdateRoleAsync(Guid userId, UserRole role, Guid adminUserId);
+    Task<UserDirectoryResult> UpdateStatusAsync(Guid userId, bool isActive, Guid adminUserId);
+    Task<UserDirectoryResult> SendPasswordResetAsync(Guid userId);
+
+    // The number of sessions signed out; null when there is no such user
+    Task<int?> RevokeSessionsAsync(Guid userId);
+
+    // Choose the password with the token of an emailed link
+    Task<(bool Success, string? ErrorMessage)> SetupPasswordAsync(PasswordSetupRequest request);
+}
+
+/// <summary>
+/// The admin user directory. Invited accounts have no password until the user follows the emailed
+/// link; a password reset sends the same kind of link. Only the hash of a link's token is stored,
+/// and following it signs out the account's sessions.
+/// </summary>
+public class UserDirectoryService : IUserDirectoryService
+{
+    private static readonly TimeSpan InvitationLifetime = TimeSpan.FromDays(7);
+    private static readonly TimeSpan PasswordResetLifetime = TimeSpan.FromHours(24);
+
+    private readonly AppDbContext _context;
+    private readonly ISystemSettingsService _systemSettingsService;
+    private readonly ISignInSecurityService _signInSecurityService;
+    private readonly IPasswordHasher<User> _passwordHasher;
+    private readonly IEmailSender _emailSender;
+    private readonly EmailSettings _emailSettings;
+    private readonly ILogger<UserDirectoryService> _logger;
+
+    public UserDirectoryService(
+        AppDbContext context,
+        ISystemSettingsService systemSettingsService,
+        ISignInSecurityService signInSecurityService,
+        IPasswordHasher<User> passwordHasher,
+        IEmailSender emailSender,
+        EmailSettings emailSettings,
+        ILogger<UserDirectoryService> logger)
+    {
+        _context = context;
+        _systemSettingsService = systemSettingsService;
+        _signInSecurityService = signInSecurityService;
+        _passwordHasher = passwordHasher;
+        _emailSender = emailSender;
+        _emailSettings = emailSettings;
+        _logger = logger;
+    }
+
+    public async Task<IEnumerable<UserAccountDto>> GetAccountsAsync()
+    {
+        var users = await _context.Users
+            .Include(u => u.CustomRole)
+            .OrderBy(u => u.FullName)
+            .ToListAsync();
+        return users.Select(MapToDto);
+    }
+
+    public async Task<(UserDirectoryResult Result, UserAccountDto? User)> InviteAsync(UserInviteRequest request)
+    {
+        var settings = await _systemSettingsService.GetSystemSettingsAsync();
+        var (result, user) = await InviteAsync(
+            request.FullName, request.Email, request.Role!.Value, request.PhoneNumber, request.Department, settings.AllowedEmailDomains);
+        return (result, user == null ? null : MapToDto(user));
+    }
+
+    public async Task<UserImportResponse> ImportAsync(UserImportRequest request)
+    {
+        var settings = await _systemSettingsService.GetSystemSettingsAsync();
+        var emailAddress = new EmailAddressAttribute();
+        var response = new UserImportResponse();
+
+        for (var row = 0; row < request.Users.Count; row++)
+        {
+            var item = request.Users[row];
+            void Fail(string message) =>
+                response.Errors.Add(new UserImportError { Row = row, Email = item.Email, Message = message });
+
+            if (string.IsNullOrWhiteSpace(item.FullName))
+            {
+                Fail("نام الزامی است");
+                continue;
+            }
+            if (string.IsNullOrWhiteSpace(item.Email) || !emailAddress.IsValid(item.Email.Trim()))
+            {
+                Fail("ایمیل معتبر نیست");
+                continue;
+            }
+            if (item.Role is not { } role || !Enum.IsDefined(role))
+            {
+                Fail("نقش نامعتبر است");
+                continue;
+            }
+
+            try
+            {
+                var (result, _) = await InviteAsync(
+                    item.FullName, item.Email, role, item.PhoneNumber, item.Department, settings.AllowedEmailDomains);
+                switch (result)
+                {
+                    case UserDirectoryResult.Success:
+                        response.CreatedCount++;
+                        break;
+                    case UserDirectoryResult.EmailExists:
+                        response.SkippedCount++;
+                        break;
+                    case UserDirectoryResult.EmailDomainNotAllowed:
+                        Fail(PasswordPolicy.EmailDomainError(settings.AllowedEmailDomains));
+                        break;
+                }
+            }
+            catch (Exception ex)
+            {
+                // The account isn't created when its invitation can't be sent; the other rows go on
+                _logger.LogError(ex, "Invitation to {Email} could not be sent", item.Email);
+                Fail("ارسال ایمیل دعوت ناموفق بود");
+            }
+        }
+
+        return response;
+    }
+
+    public async Task<UserDirectoryResult> UpdateRoleAsync(Guid userId, UserRole role, Guid adminUserId)
+    {
+        if (userId == adminUserId)
+        {
+            return UserDirectoryResult.OwnAccount;
+        }
+
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        if (user == null)
+        {
+            return UserDirectoryResult.NotFound;
+        }
+
+        // Access tokens carry the role; the next refresh issues one with the new role.
+        // A custom role extends one base role, so the user leaves it along with that role.
+        if (user.Role != role)
+        {
+            user.CustomRoleId = null;
+        }
+        user.Role = role;
+        await _context.SaveChangesAsync();
+        return UserDirectoryResult.Success;
+    }
+
+    /// <summary>
+    /// SECURITY: Deactivating also revokes the account's refresh tokens, so its sessions end when their
+    /// access tokens expire; sign-in and refresh refuse it from then on.
+    /// </summary>
+    public async Task<UserDirectoryResult> UpdateStatusAsync(Guid userId, bool isActive, Guid adminUserId)
+    {
+        if (userId == adminUserId)
+        {
+            return UserDirectoryResult.OwnAccount;
+        }
+
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        if (user == null)
+        {
+            return UserDirectoryResult.NotFound;
+        }
+
+        user.IsActive = isActive;
+        await _context.SaveChangesAsync();
+        if (!isActive)
+        {
+            await _signInSecurityService.RevokeOtherSessionsAsync(userId, currentSessionId: null);
+        }
+        return UserDirectoryResult.Success;
+    }
+
+    public async Task<UserDirectoryResult> SendPasswordResetAsync(Guid userId)
+    {
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        if (user == null)
+        {
+            return UserDirectoryResult.NotFound;
+        }
+
+        var token = IssuePasswordSetupToken(user, PasswordResetLifetime);
+        await _emailSender.SendAsync(
+            user.Email,
+            "بازنشانی رمز عبور",
+            $"{user.FullName} عزیز،\n\nبرای تعیین رمز عبور جدید این پیوند را باز کنید (تا ۲۴ ساعت معتبر است):\n{SetupLink(token)}\n\nاگر درخواست بازنشانی را انتظار نداشتید، به مدیر سامانه اطلاع دهید.");
+        await _context.SaveChangesAsync();
+        return UserDirectoryResult.Success;
+    }
+
+    public async Task<int?> RevokeSessionsAsync(Guid userId)
+    {
+        if (!await _context.Users.AnyAsync(u => u.Id == userId))
+        {
+            return null;
+        }
+
+        return await _signInSecurityService.RevokeOtherSessionsAsync(userId, currentSessionId: null);
+    }
+
+    /// <summary>
+    /// SECURITY-CRITICAL: The link works once and until it expires. The password policy applies as for
+    /// any new password; the account's sessions are signed out and a sign-in lock is lifted.
+    /// </summary>
+    public async Task<(bool Success, string? ErrorMessage)> SetupPasswordAsync(PasswordSetupRequest request)
+    {
+        var hash = HashToken(request.Token);
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.PasswordSetupTokenHash == hash);
+        if (user?.PasswordSetupExpiresAt is not { } expiresAt || expiresAt <= DateTime.UtcNow)
+        {
+            return (false, "این پیوند منقضی شده یا قبلاً استفاده شده است");
+        }
+
+        var settings = await _systemSettingsService.GetSystemSettingsAsync();
+        var passwordError = PasswordPolicy.GetError(request.Password, settings.PasswordMinLength, user.Email);
+        if (passwordError != null)
+        {
+            return (false, passwordError);
+        }
+
+        user.PasswordHash = _passwordHasher.HashPassword(user, request.Password);
+        user.PasswordSetupTokenHash = null;
+        user.PasswordSetupExpiresAt = null;
+        user.FailedSignInCount = 0;
+        user.LockedUntil = null;
+        await _context.SaveChangesAsync();
+        await _signInSecurityService.RevokeOtherSessionsAsync(user.Id, currentSessionId: null);
+        return (true, null);
+    }
+
+    private async Task<(UserDirectoryResult Result, User? User)> InviteAsync(
+        string fullName, string email, UserRole role, string? phoneNumber, string? department, List<string> allowedEmailDomains)
+    {
+        var normalizedEmail = email.Trim().ToLowerInvariant();
+        if (!PasswordPolicy.IsEmailDomainAllowed(normalizedEmail, allowedEmailDomains))
+        {
+            return (UserDirectoryResult.EmailDomainNotAllowed, null);
+        }
+        if (await _context.Users.AnyAsync(u => u.Email == normalizedEmail))
+        {
+            return (UserDirectoryResult.EmailExists, null);
+        }
+
+        // No password hash: password sign-in fails until the user has chosen one
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            FullName = fullName.Trim(),
+            Email = normalizedEmail,
+            Role = role,
+            PhoneNumber = phoneNumber,
+            Department = department,
+            CreatedAt = DateTime.UtcNow
+        };
+        var token = IssuePasswordSetupToken(user, InvitationLifetime);
+
+        // Sent before the account is saved, so a refused message doesn't leave an account nobody can enter
+        await _emailSender.SendAsync(
+            user.Email,
+            "دعوت به سامانه پشتیبانی",
+            $"{user.FullName} عزیز،\n\nبرای شما در سامانه پشتیبانی حساب کاربری ساخته شد. برای تعیین رمز عبور این پیوند را باز کنید (تا ۷ روز معتبر است):\n{SetupLink(token)}");
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return (UserDirectoryResult.Success, user);
+    }
+
+    // A new link replaces the previous one
+    private static string IssuePasswordSetupToken(User user, TimeSpan lifetime)
+    {
+        var token = Convert.ToBase64String(RandomNumberGenerator.GetBytes(32))
+            .TrimEnd('=').Replace('+', '-').Replace('/', '_');
+        user.PasswordSetupTokenHash = HashToken(token);
+        user.PasswordSetupExpiresAt = DateTime.UtcNow.Add(lifetime);
+        return token;
+    }
+
+    private string SetupLink(string token) =>
+        $"{_emailSettings.AppUrl.TrimEnd('/')}/set-password?token={Uri.EscapeDataString(token)}";
+
+    private static string HashToken(string token) =>
+        Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token)));
+
+    private static UserAccountDto MapToDto(User user) => new()
+    {
+        Id = user.Id,
+        FullName = user.FullName,
+        Email = user.Email,
+        Role = user.Role,
+        PhoneNumber = user.PhoneNumber,
+        Department = user.Department,
+        AvatarUrl = user.AvatarUrl,
+        IsActive = user.IsActive,
+        CreatedAt = user.CreatedAt,
+        LastLoginAt = user.LastLoginAt,
+        RoleId = user.CustomRoleId,
+        RoleName = user.CustomRole?.Name
+    };
+}
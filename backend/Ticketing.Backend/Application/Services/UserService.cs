@@ -1,3 +1,5 @@
+using System.Security.Cryptography;
+using System.Text;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
 using Ticketing.Backend.Application.DTOs;
@@ -11,12 +13,34 @@ namespace Ticketing.Backend.Application.Services;
 public interface IUserService
 {
     // Main register method used by AuthController (with creatorRole)
-    Task<AuthResponse?> RegisterAsync(RegisterRequest request, UserRole creatorRole);
+    Task<LoginResult?> RegisterAsync(RegisterRequest request, UserRole creatorRole);
 
     // Convenience overload (self-register: treated as Client)
-    Task<AuthResponse?> RegisterAsync(RegisterRequest request);
+    Task<LoginResult?> RegisterAsync(RegisterRequest request);
 
-    Task<AuthResponse?> LoginAsync(LoginRequest request);
+    // Whether the email domain and password meet the registration policy in the system settings
+    Task<(bool Success, string? ErrorMessage)> ValidateRegistrationAsync(RegisterRequest request);
+
+    Task<LoginResult?> LoginAsync(LoginRequest request);
+
+    // A nonce for the provider's authorization request; an ID token is only accepted with one of these, once
+    Task<OidcNonceResponse> IssueOidcNonceAsync();
+    Task<bool> TakeOidcNonceAsync(string? nonce);
+
+    // Sign in with a verified ID token, provisioning the account on first sign-in; null when it can't be matched to one
+    Task<LoginResult?> LoginWithOidcAsync(OidcIdentity identity);
+
+    // Issue the session tokens for an account that has passed every sign-in step
+    Task<AuthResponse> CreateSessionAsync(User user);
+
+    // Trade a refresh token for a new access token and refresh token; null when it isn't valid any more
+    Task<RefreshTokenResponse?> RefreshSessionAsync(string refreshToken);
+
+    // Revoke a refresh token so it can't start a new session (sign-out)
+    Task RevokeRefreshTokenAsync(string refreshToken);
+
+    // A token only the notification hub accepts, for connections that can't send the session's own; null when the account is gone
+    Task<HubTokenResponse?> IssueHubTokenAsync(Guid userId);
     Task<UserDto?> GetByIdAsync(Guid id);
     Task<IEnumerable<UserDto>> GetAllAsync();
     Task<IEnumerable<UserDto>> GetTechniciansAsync();
@@ -26,25 +50,42 @@ public interface IUserService
 
 public class UserService : IUserService
 {
+    // How long a sign-in may take for its two-factor step
+    private static readonly TimeSpan VerificationChallengeLifetime = TimeSpan.FromMinutes(5);
+    private static readonly TimeSpan EnrollmentChallengeLifetime = TimeSpan.FromMinutes(10);
+    // How long a single sign-on may spend at the identity provider
+    private static readonly TimeSpan OidcNonceLifetime = TimeSpan.FromMinutes(10);
+    // The hub checks the token when the connection opens, so it only has to outlive the handshake and reconnects
+    private static readonly TimeSpan HubTokenLifetime = TimeSpan.FromMinutes(5);
+
     private readonly AppDbContext _context;
     private readonly IJwtTokenGenerator _jwtTokenGenerator;
     private readonly IPasswordHasher<User> _passwordHasher;
+    private readonly ISystemSettingsService _systemSettingsService;
+    private readonly ISignInSecurityService _signInSecurityService;
+    private readonly JwtSettings _jwtSettings;
 
     public UserService(
         AppDbContext context,
         IJwtTokenGenerator jwtTokenGenerator,
-        IPasswordHasher<User> passwordHasher)
+        IPasswordHasher<User> passwordHasher,
+        ISystemSettingsService systemSettingsService,
+        ISignInSecurityService signInSecurityService,
+        JwtSettings jwtSettings)
     {
         _context = context;
         _jwtTokenGenerator = jwtTokenGenerator;
         _passwordHasher = passwordHasher;
+        _systemSettingsService = systemSettingsService;
+        _signInSecurityService = signInSecurityService;
+        _jwtSettings = jwtSettings;
     }
 
     /// <summary>
     /// Convenience overload for self-registration (assumes non-Admin creator)
     /// SECURITY: This method requires explicit role in request - no defaults applied
     /// </summary>
-    public Task<AuthResponse?> RegisterAsync(RegisterRequest request)
+    public Task<LoginResult?> RegisterAsync(RegisterRequest request)
     {
         // For self-register scenarios, creator is treated as non-Admin
         // Role enforcement happens in the main RegisterAsync method
@@ -63,10 +104,12 @@ public class UserService : IUserService
     ///    c) FORBIDDEN otherwise (returns null → HTTP 403 in controller)
     /// 4. Invalid role enum values return null (→ HTTP 400 in controller)
     /// 5. Email conflicts return null (→ HTTP 409 in controller)
+    /// 6. When require2FA is on, the new account gets an enrollment challenge instead of a session
+    /// 7. An email domain or password the settings don't allow returns null (→ HTTP 400 in controller)
     /// 
     /// CRITICAL: This method NEVER modifies request.Role - it is persisted exactly as received
     /// </summary>
-    public async Task<AuthResponse?> RegisterAsync(RegisterRequest request, UserRole creatorRole)
+    public async Task<LoginResult?> RegisterAsync(RegisterRequest request, UserRole creatorRole)
     {
         var normalizedEmail = request.Email.ToLowerInvariant();
 
@@ -87,6 +130,13 @@ public class UserService : IUserService
             return null;
         }
 
+        // Defense-in-depth: the controller reports the specific policy violation first
+        var (allowed, _) = await ValidateRegistrationAsync(request);
+        if (!allowed)
+        {
+            return null;
+        }
+
         // 1) SECURITY: Check email uniqueness (required for user identification)
         var exists = await _context.Users.AnyAsync(u => u.Email == normalizedEmail);
         if (exists)
@@ -135,14 +185,23 @@ public class UserService : IUserService
 
         // 6) SECURITY: Generate JWT token with role claim from persisted user.Role
         // Token generation uses user.Role (which equals request.Role) - no hardcoding
-        return new AuthResponse
+        return await CompleteSignInAsync(user);
+    }
+
+    public async Task<(bool Success, string? ErrorMessage)> ValidateRegistrationAsync(RegisterRequest request)
+    {
+        var settings = await _systemSettingsService.GetSystemSettingsAsync();
+
+        if (!PasswordPolicy.IsEmailDomainAllowed(request.Email, settings.AllowedEmailDomains))
         {
-            Token = _jwtTokenGenerator.GenerateToken(user),
-            User = MapToDto(user)
-        };
+            return (false, PasswordPolicy.EmailDomainError(settings.AllowedEmailDomains));
+        }
+
+        var passwordError = PasswordPolicy.GetError(request.Password, settings.PasswordMinLength, request.Email);
+        return passwordError == null ? (true, null) : (false, passwordError);
     }
 
-    public async Task<AuthResponse?> LoginAsync(LoginRequest request)
+    public async Task<LoginResult?> LoginAsync(LoginRequest request)
     {
         var normalizedEmail = request.Email.ToLowerInvariant();
 
@@ -160,13 +219,249 @@ public class UserService : IUserService
             return null;
         }
 
+        return await CompleteSignInAsync(user);
+    }
+
+    /// <summary>
+    /// SECURITY-CRITICAL: The account is found by the provider's subject. A first sign-in links the
+    /// account with the same email only when the provider has verified the address, and otherwise
+    /// creates one (within the allowed email domains) that has no password. When a role mapping is
+    /// configured, the role of accounts without a password follows the provider's claims on every
+    /// sign-in; a linked account keeps the role given in the app. The two-factor rules apply as for a
+    /// password sign-in.
+    /// </summary>
+    public async Task<LoginResult?> LoginWithOidcAsync(OidcIdentity identity)
+    {
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.ExternalSubject == identity.Subject);
+        if (user == null)
+        {
+            var existing = await _context.Users.FirstOrDefaultAsync(u => u.Email == identity.Email);
+            if (existing != null)
+            {
+                if (!identity.EmailVerified || existing.ExternalSubject != null)
+                {
+                    return null;
+                }
+
+                existing.ExternalSubject = identity.Subject;
+                user = existing;
+            }
+            else
+            {
+                var settings = await _systemSettingsService.GetSystemSettingsAsync();
+                if (!PasswordPolicy.IsEmailDomainAllowed(identity.Email, settings.AllowedEmailDomains))
+                {
+                    return null;
+                }
+
+                // No password hash: the account can only sign in through the provider
+                user = new User
+                {
+                    Id = Guid.NewGuid(),
+                    FullName = identity.FullName,
+                    Email = identity.Email,
+                    ExternalSubject = identity.Subject,
+                    Role = UserRole.Client,
+                    CreatedAt = DateTime.UtcNow
+                };
+                _context.Users.Add(user);
+            }
+        }
+
+        if (identity.Role != null && string.IsNullOrEmpty(user.PasswordHash))
+        {
+            user.Role = identity.Role.Value;
+        }
+        await _context.SaveChangesAsync();
+
+        return await CompleteSignInAsync(user);
+    }
+
+    public async Task<OidcNonceResponse> IssueOidcNonceAsync()
+    {
+        var now = DateTime.UtcNow;
+        var nonce = Convert.ToBase64String(RandomNumberGenerator.GetBytes(32))
+            .TrimEnd('=').Replace('+', '-').Replace('/', '_');
+        var issued = new OidcNonce
+        {
+            Id = Guid.NewGuid(),
+            NonceHash = HashToken(nonce),
+            ExpiresAt = now.Add(OidcNonceLifetime)
+        };
+        _context.OidcNonces.Add(issued);
+
+        var expired = await _context.OidcNonces.Where(n => n.ExpiresAt <= now).ToListAsync();
+        _context.OidcNonces.RemoveRange(expired);
+        await _context.SaveChangesAsync();
+
+        return new OidcNonceResponse { Nonce = nonce, ExpiresAt = issued.ExpiresAt };
+    }
+
+    /// <summary>
+    /// SECURITY-CRITICAL: Whether an ID token's nonce is one issued here that hasn't expired. It is
+    /// removed either way, so a token (or one leaked from another sign-in) can't be presented twice.
+    /// </summary>
+    public async Task<bool> TakeOidcNonceAsync(string? nonce)
+    {
+        if (string.IsNullOrEmpty(nonce))
+        {
+            return false;
+        }
+
+        var hash = HashToken(nonce);
+        var issued = await _context.OidcNonces.FirstOrDefaultAsync(n => n.NonceHash == hash);
+        if (issued == null)
+        {
+            return false;
+        }
+
+        _context.OidcNonces.Remove(issued);
+        await _context.SaveChangesAsync();
+        return issued.ExpiresAt > DateTime.UtcNow;
+    }
+
+    public async Task<AuthResponse> CreateSessionAsync(User user)
+    {
+        var sessionId = Guid.NewGuid();
+        user.LastLoginAt = DateTime.UtcNow;
+        await _signInSecurityService.AddSessionStartAsync(user, sessionId);
+        var refreshToken = await IssueRefreshTokenAsync(user.Id, sessionId);
         return new AuthResponse
         {
-            Token = _jwtTokenGenerator.GenerateToken(user),
+            Token = _jwtTokenGenerator.GenerateToken(user, sessionId),
+            RefreshToken = refreshToken,
             User = MapToDto(user)
         };
     }
 
+    /// <summary>
+    /// SECURITY: Refresh tokens are single-use. The one sent is revoked and a new one issued with the
+    /// access token, so a copy taken earlier stops working once the owner has refreshed. A deactivated
+    /// account's tokens are refused.
+    /// </summary>
+    public async Task<RefreshTokenResponse?> RefreshSessionAsync(string refreshToken)
+    {
+        var now = DateTime.UtcNow;
+        var tokenHash = HashToken(refreshToken);
+        var stored = await _context.RefreshTokens
+            .Include(t => t.User)
+            .FirstOrDefaultAsync(t => t.TokenHash == tokenHash);
+
+        if (stored?.User == null || !stored.User.IsActive || stored.RevokedAt != null || stored.ExpiresAt <= now)
+        {
+            return null;
+        }
+
+        stored.RevokedAt = now;
+        var nextToken = await IssueRefreshTokenAsync(stored.UserId, stored.SessionId);
+
+        return new RefreshTokenResponse
+        {
+            // The role claim comes from the account as it is now, not as it was at sign-in
+            Token = _jwtTokenGenerator.GenerateToken(stored.User, stored.SessionId),
+            RefreshToken = nextToken
+        };
+    }
+
+    public async Task RevokeRefreshTokenAsync(string refreshToken)
+    {
+        var tokenHash = HashToken(refreshToken);
+        var stored = await _context.RefreshTokens.FirstOrDefaultAsync(t => t.TokenHash == tokenHash);
+        if (stored == null || stored.RevokedAt != null)
+        {
+            return;
+        }
+
+        stored.RevokedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+    }
+
+    public async Task<HubTokenResponse?> IssueHubTokenAsync(Guid userId)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null || !user.IsActive)
+        {
+            return null;
+        }
+
+        var expiresAt = DateTime.UtcNow.Add(HubTokenLifetime);
+        return new HubTokenResponse
+        {
+            AccessToken = _jwtTokenGenerator.GenerateHubToken(user, expiresAt),
+            ExpiresAt = expiresAt
+        };
+    }
+
+    /// <summary>
+    /// Store a new refresh token for the user (saving any pending changes with it) and return it.
+    /// Only its hash is kept, so the database alone can't start a session.
+    /// </summary>
+    private async Task<string> IssueRefreshTokenAsync(Guid userId, Guid sessionId)
+    {
+        var now = DateTime.UtcNow;
+        var token = Convert.ToBase64String(RandomNumberGenerator.GetBytes(32))
+            .TrimEnd('=').Replace('+', '-').Replace('/', '_');
+
+        _context.RefreshTokens.Add(new RefreshToken
+        {
+            Id = Guid.NewGuid(),
+            UserId = userId,
+            SessionId = sessionId,
+            TokenHash = HashToken(token),
+            CreatedAt = now,
+            ExpiresAt = now.AddDays(_jwtSettings.RefreshTokenDays)
+        });
+
+        // Tokens that can no longer be used only take up space
+        var stale = await _context.RefreshTokens
+            .Where(t => t.UserId == userId && (t.ExpiresAt <= now || t.RevokedAt != null))
+            .ToListAsync();
+        _context.RefreshTokens.RemoveRange(stale);
+
+        await _context.SaveChangesAsync();
+        return token;
+    }
+
+    private static string HashToken(string token) =>
+        Convert.ToHexString(SHA256.HashData(Encoding.UTF8.GetBytes(token)));
+
+    /// <summary>
+    /// SECURITY-CRITICAL: The password was right; the session is only issued when no second factor is due
+    /// and the account is active.
+    /// An account with an authenticator must enter a code; when require2FA is on, an account without one
+    /// must enroll first. Both get a challenge token that the rest of the API refuses.
+    /// </summary>
+    private async Task<LoginResult> CompleteSignInAsync(User user)
+    {
+        if (!user.IsActive)
+        {
+            return new LoginResult { AccountDisabled = true };
+        }
+
+        var enrollment = false;
+        if (!user.TwoFactorEnabled)
+        {
+            var settings = await _systemSettingsService.GetSystemSettingsAsync();
+            if (!settings.Require2FA)
+            {
+                return new LoginResult { Session = await CreateSessionAsync(user) };
+            }
+
+            enrollment = true;
+        }
+
+        var expiresAt = DateTime.UtcNow.Add(enrollment ? EnrollmentChallengeLifetime : VerificationChallengeLifetime);
+        return new LoginResult
+        {
+            Challenge = new TwoFactorChallengeResponse
+            {
+                EnrollmentRequired = enrollment,
+                ChallengeToken = _jwtTokenGenerator.GenerateChallengeToken(user, enrollment, expiresAt),
+                ExpiresAt = expiresAt
+            }
+        };
+    }
+
     public async Task<UserDto?> GetByIdAsync(Guid id)
     {
         var user = await _context.Users.FindAsync(id);
@@ -246,23 +541,20 @@ public class UserService : IUserService
             return (false, "رمز عبور جدید و تکرار آن مطابقت ندارند");
         }
 
-        // Validate password complexity
-        if (newPassword.Length < 8)
-        {
-            return (false, "رمز عبور جدید باید حداقل ۸ کاراکتر باشد");
-        }
-
-        if (!System.Text.RegularExpressions.Regex.IsMatch(newPassword, @"^(?=.*[a-zA-Z])(?=.*\d).+$"))
-        {
-            return (false, "رمز عبور جدید باید شامل حداقل یک حرف و یک عدد باشد");
-        }
-
         var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
         if (user == null)
         {
             return (false, "کاربر یافت نشد");
         }
 
+        // Validate password against the policy in the system settings
+        var settings = await _systemSettingsService.GetSystemSettingsAsync();
+        var passwordError = PasswordPolicy.GetError(newPassword, settings.PasswordMinLength, user.Email);
+        if (passwordError != null)
+        {
+            return (false, passwordError);
+        }
+
         // Verify current password
         var verifyResult = _passwordHasher.VerifyHashedPassword(user, user.PasswordHash, currentPassword);
         if (verifyResult == PasswordVerificationResult.Failed)
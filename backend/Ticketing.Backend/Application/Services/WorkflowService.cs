@@ -0,0 +1,175 @@
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface IWorkflowService
+{
+    Task<TicketWorkflowDto> GetWorkflowAsync();
+    Task<TicketWorkflowDto> UpdateWorkflowAsync(TicketWorkflowDto workflow);
+
+    // Why a workflow can't be saved; null when it can
+    string? GetWorkflowError(TicketWorkflowDto workflow);
+
+    // The transition that lets the role make this status change; null when the workflow has none
+    Task<WorkflowTransitionDto?> FindTransitionAsync(TicketStatus from, TicketStatus to, UserRole role);
+}
+
+/// <summary>
+/// The ticket workflow: which status changes each role may make. Stored as JSON on the settings row;
+/// until an admin saves one, the built-in workflow (frontend lib/ticket-workflow.ts) applies.
+/// </summary>
+public class WorkflowService : IWorkflowService
+{
+    // Stored the way the API sends it, so the column reads like the response
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web)
+    {
+        Converters = { new JsonStringEnumConverter() }
+    };
+
+    private readonly AppDbContext _context;
+
+    public WorkflowService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<TicketWorkflowDto> GetWorkflowAsync()
+    {
+        var settings = await _context.SystemSettings.AsNoTracking().FirstOrDefaultAsync(s => s.Id == 1);
+        return ReadWorkflow(settings?.WorkflowSettings);
+    }
+
+    public async Task<TicketWorkflowDto> UpdateWorkflowAsync(TicketWorkflowDto request)
+    {
+        var settings = await _context.SystemSettings.FirstOrDefaultAsync(s => s.Id == 1);
+        if (settings == null)
+        {
+            settings = new SystemSettings
+            {
+                Id = 1,
+                CreatedAt = DateTime.UtcNow
+            };
+            _context.SystemSettings.Add(settings);
+        }
+
+        settings.WorkflowSettings = JsonSerializer.Serialize(request, JsonOptions);
+        settings.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return ReadWorkflow(settings.WorkflowSettings);
+    }
+
+    /// <summary>
+    /// Every status, role and requirement must exist, each change may appear once, and every ticket
+    /// must be able to reach Closed from whatever status it is in
+    /// </summary>
+    public string? GetWorkflowError(TicketWorkflowDto workflow)
+    {
+        foreach (var transition in workflow.Transitions)
+        {
+            if (!Enum.IsDefined(transition.From) || !Enum.IsDefined(transition.To) ||
+                !transition.Roles.All(role => Enum.IsDefined(role)) ||
+                !transition.Requires.All(requirement => Enum.IsDefined(requirement)))
+            {
+                return "وضعیت، نقش یا پیش‌نیاز ناشناخته در گردش کار";
+            }
+            if (transition.From == transition.To || transition.Roles.Count == 0)
+            {
+                return "هر تغییر وضعیت باید به وضعیتی دیگر و دست‌کم برای یک نقش باشد";
+            }
+        }
+
+        if (workflow.Transitions.GroupBy(t => (t.From, t.To)).Any(g => g.Count() > 1))
+        {
+            return "هر تغییر وضعیت فقط یک بار در گردش کار می‌آید";
+        }
+
+        // Walk the transitions backwards from Closed; every status has to be reached
+        var reachesClosed = new HashSet<TicketStatus> { TicketStatus.Closed };
+        var pending = new Queue<TicketStatus>(reachesClosed);
+        while (pending.Count > 0)
+        {
+            var to = pending.Dequeue();
+            foreach (var transition in workflow.Transitions.Where(t => t.To == to))
+            {
+                if (reachesClosed.Add(transition.From))
+                {
+                    pending.Enqueue(transition.From);
+                }
+            }
+        }
+        if (Enum.GetValues<TicketStatus>().Any(status => !reachesClosed.Contains(status)))
+        {
+            return "از هر وضعیت باید راهی به وضعیت بسته وجود داشته باشد";
+        }
+
+        return null;
+    }
+
+    public async Task<WorkflowTransitionDto?> FindTransitionAsync(TicketStatus from, TicketStatus to, UserRole role)
+    {
+        var workflow = await GetWorkflowAsync();
+        return workflow.Transitions.FirstOrDefault(t => t.From == from && t.To == to && t.Roles.Contains(role));
+    }
+
+    private static TicketWorkflowDto ReadWorkflow(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+        {
+            return DefaultWorkflow();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<TicketWorkflowDto>(json, JsonOptions) ?? DefaultWorkflow();
+        }
+        catch (JsonException)
+        {
+            return DefaultWorkflow();
+        }
+    }
+
+    /// <summary>
+    /// Technicians work tickets through to resolved, clients confirm or reopen them, and only admins
+    /// close unresolved tickets or reopen closed ones. Resolutions nobody answers close after a week.
+    /// </summary>
+    private static TicketWorkflowDto DefaultWorkflow()
+    {
+        var staff = new[] { UserRole.Technician, UserRole.Admin };
+        var everyone = new[] { UserRole.Client, UserRole.Technician, UserRole.Admin };
+        var admin = new[] { UserRole.Admin };
+        var note = new[] { WorkflowRequirement.Note };
+        var none = Array.Empty<WorkflowRequirement>();
+
+        WorkflowTransitionDto Transition(TicketStatus from, TicketStatus to, UserRole[] roles, WorkflowRequirement[] requires) =>
+            new() { From = from, To = to, Roles = roles.ToList(), Requires = requires.ToList() };
+
+        return new TicketWorkflowDto
+        {
+            Transitions = new List<WorkflowTransitionDto>
+            {
+                Transition(TicketStatus.New, TicketStatus.InProgress, staff, new[] { WorkflowRequirement.Assignee }),
+                Transition(TicketStatus.New, TicketStatus.WaitingForClient, staff, note),
+                Transition(TicketStatus.New, TicketStatus.Resolved, staff, note),
+                Transition(TicketStatus.New, TicketStatus.Closed, admin, note),
+                Transition(TicketStatus.InProgress, TicketStatus.New, admin, none),
+                Transition(TicketStatus.InProgress, TicketStatus.WaitingForClient, staff, note),
+                Transition(TicketStatus.InProgress, TicketStatus.Resolved, staff, note),
+                Transition(TicketStatus.InProgress, TicketStatus.Closed, admin, note),
+                Transition(TicketStatus.WaitingForClient, TicketStatus.InProgress, everyone, none),
+                Transition(TicketStatus.WaitingForClient, TicketStatus.Resolved, staff, note),
+                Transition(TicketStatus.WaitingForClient, TicketStatus.Closed, admin, note),
+                Transition(TicketStatus.Resolved, TicketStatus.InProgress, everyone, note),
+                Transition(TicketStatus.Resolved, TicketStatus.Closed, everyone, none),
+                Transition(TicketStatus.Closed, TicketStatus.InProgress, admin, note)
+            },
+            AutoCloseResolvedDays = 7
+        };
+    }
+}
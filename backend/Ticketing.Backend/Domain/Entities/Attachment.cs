@@ -4,8 +4,16 @@ public class Attachment
 {
     public Guid Id { get; set; }
     public Guid TicketId { get; set; }
+    // Set when the file was sent with a reply rather than on the ticket itself
+    public Guid? MessageId { get; set; }
     public string FileName { get; set; } = string.Empty;
+    // Where the file is kept, relative to the attachment storage folder
     public string FileUrl { get; set; } = string.Empty;
+    public string ContentType { get; set; } = "application/octet-stream";
+    public long Size { get; set; }
+    public Guid? UploadedByUserId { get; set; }
+    public DateTime UploadedAt { get; set; }
 
     public Ticket? Ticket { get; set; }
+    public User? UploadedByUser { get; set; }
 }
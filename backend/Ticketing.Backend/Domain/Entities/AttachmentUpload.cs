@@ -0,0 +1,22 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// A resumable upload in progress. The bytes received so far are kept in a part file; completing
+/// the upload turns it into an Attachment.
+/// </summary>
+public class AttachmentUpload
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public Guid? MessageId { get; set; }
+    public Guid UserId { get; set; }
+    public string FileName { get; set; } = string.Empty;
+    public string ContentType { get; set; } = "application/octet-stream";
+    public long Size { get; set; }
+    public long ReceivedBytes { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime ExpiresAt { get; set; }
+
+    public Ticket? Ticket { get; set; }
+    public User? User { get; set; }
+}
@@ -0,0 +1,12 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// A CAPTCHA shown on the sign-in form. Only the hash of the answer is kept, and a challenge is
+/// removed as soon as an answer to it is checked.
+/// </summary>
+public class CaptchaChallenge
+{
+    public Guid Id { get; set; }
+    public string AnswerHash { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+}
@@ -0,0 +1,19 @@
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// A role defined by an admin. It extends a built-in role, which decides the endpoints its members
+/// use, and replaces that role's permissions with its own list. Members must have the base role.
+/// </summary>
+public class CustomRole
+{
+    public Guid Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public UserRole BaseRole { get; set; }
+    public string Permissions { get; set; } = "[]"; // JSON array of permission names
+    public DateTime CreatedAt { get; set; }
+
+    public ICollection<User> Members { get; set; } = new List<User>();
+}
@@ -0,0 +1,17 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// One request made during an impersonation, allowed or refused, with the status it got. Like the
+/// impersonation itself, the ids aren't foreign keys so the trail outlives a deleted account.
+/// </summary>
+public class ImpersonationAuditEntry
+{
+    public Guid Id { get; set; }
+    public Guid ImpersonationSessionId { get; set; }
+    public Guid AdminUserId { get; set; }
+    public Guid UserId { get; set; }
+    public string Method { get; set; } = string.Empty;
+    public string Path { get; set; } = string.Empty;
+    public int StatusCode { get; set; }
+    public DateTime RequestedAt { get; set; }
+}
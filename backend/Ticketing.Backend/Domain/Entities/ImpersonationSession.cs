@@ -0,0 +1,17 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// An admin viewing the app as another user: the audit entry of who, as whom, why and for how long.
+/// The impersonation token names it, and stops working once it has ended. The ids aren't foreign keys,
+/// so the entry outlives a deleted account.
+/// </summary>
+public class ImpersonationSession
+{
+    public Guid Id { get; set; }
+    public Guid AdminUserId { get; set; }
+    public Guid UserId { get; set; }
+    public string Reason { get; set; } = string.Empty;
+    public DateTime StartedAt { get; set; }
+    public DateTime ExpiresAt { get; set; }
+    public DateTime? EndedAt { get; set; }
+}
@@ -0,0 +1,12 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// A nonce handed out for a single sign-on. The ID token must carry one that is still here; only its
+/// hash is kept, and it is removed when a token presents it.
+/// </summary>
+public class OidcNonce
+{
+    public Guid Id { get; set; }
+    public string NonceHash { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+}
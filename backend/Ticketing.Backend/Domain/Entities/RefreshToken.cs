@@ -0,0 +1,19 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// A long-lived sign-in that trades for new access tokens. Only the SHA-256 hash of the token is
+/// kept; each use revokes it and issues the next one.
+/// </summary>
+public class RefreshToken
+{
+    public Guid Id { get; set; }
+    public Guid UserId { get; set; }
+    // Stays the same across refreshes, so every token of one sign-in can be told apart from other sign-ins
+    public Guid SessionId { get; set; }
+    public string TokenHash { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; }
+    public DateTime ExpiresAt { get; set; }
+    public DateTime? RevokedAt { get; set; }
+
+    public User? User { get; set; }
+}
@@ -0,0 +1,22 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// One password sign-in, failed or not. Failures from an address throttle it, and the account's own
+/// attempts are listed to its owner as recent sign-in activity.
+/// </summary>
+public class SignInAttempt
+{
+    public Guid Id { get; set; }
+    // Null when the email doesn't belong to an account
+    public Guid? UserId { get; set; }
+    public string Email { get; set; } = string.Empty;
+    public bool Succeeded { get; set; }
+    public string? IpAddress { get; set; }
+    public string? UserAgent { get; set; }
+    // The session a successful sign-in started (carried by its refresh tokens and access tokens)
+    public Guid? SessionId { get; set; }
+    public bool Suspicious { get; set; }
+    public DateTime OccurredAt { get; set; }
+
+    public User? User { get; set; }
+}
@@ -22,6 +22,8 @@ public class SystemSettings
     public bool AutoAssignEnabled { get; set; } = false;
     public bool AllowClientAttachments { get; set; } = true;
     public int MaxAttachmentSizeMB { get; set; } = 10;
+    public string SlaSettings { get; set; } = ""; // JSON SlaSettingsDto; empty for the built-in defaults
+    public string WorkflowSettings { get; set; } = ""; // JSON TicketWorkflowDto; empty for the built-in workflow
 
     // Notifications
     public bool EmailNotificationsEnabled { get; set; } = true;
@@ -18,6 +18,18 @@ public class Ticket
     public DateTime? UpdatedAt { get; set; }
     public DateTime? DueDate { get; set; }
 
+    // SLA clock, kept by SlaService on every status change
+    public DateTime? SlaFirstRespondedAt { get; set; }
+    public DateTime? SlaResolvedAt { get; set; }
+    public DateTime? SlaPausedSince { get; set; }
+    // Business minutes the resolution clock stood still: waiting for the client, or resolved before a reopen
+    public int SlaPausedMinutes { get; set; }
+    public DateTime? SlaEscalatedAt { get; set; }
+    // Times the ticket went from resolved or closed back to work
+    public int ReopenCount { get; set; }
+    // Set on a duplicate folded into another ticket; the duplicate stays as a closed pointer to it
+    public Guid? MergedIntoId { get; set; }
+
     public Category? Category { get; set; }
     public Subcategory? Subcategory { get; set; }
     public User? CreatedByUser { get; set; }
@@ -25,4 +37,5 @@ public class Ticket
     public Technician? Technician { get; set; }
     public ICollection<TicketMessage> Messages { get; set; } = new List<TicketMessage>();
     public ICollection<Attachment> Attachments { get; set; } = new List<Attachment>();
+    public TicketSurvey? Survey { get; set; }
 }
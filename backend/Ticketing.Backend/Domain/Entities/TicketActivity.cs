@@ -0,0 +1,21 @@
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// An event on a ticket's timeline that isn't a message, such as another ticket being merged into it.
+/// </summary>
+public class TicketActivity
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public Guid ActorUserId { get; set; }
+    public TicketActivityType Type { get; set; }
+    public string Message { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; }
+    // The admin who acted while viewing the app as the actor; not a foreign key, like the impersonation's ids
+    public Guid? ImpersonatorUserId { get; set; }
+
+    public Ticket? Ticket { get; set; }
+    public User? ActorUser { get; set; }
+}
@@ -10,6 +10,8 @@ public class TicketMessage
     public string Message { get; set; } = string.Empty;
     public DateTime CreatedAt { get; set; }
     public TicketStatus? Status { get; set; }
+    // The admin who wrote it while viewing the app as the author; not a foreign key, like the impersonation's ids
+    public Guid? ImpersonatorUserId { get; set; }
 
     public Ticket? Ticket { get; set; }
     public User? AuthorUser { get; set; }
@@ -0,0 +1,15 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// The client's answer to the satisfaction survey of a closed ticket; at most one per ticket
+/// </summary>
+public class TicketSurvey
+{
+    public Guid TicketId { get; set; }
+    public int Rating { get; set; }
+    public string? Comment { get; set; }
+    public bool ResolvedOnFirstContact { get; set; }
+    public DateTime SubmittedAt { get; set; }
+
+    public Ticket? Ticket { get; set; }
+}
@@ -9,14 +9,38 @@ public class User
     public string Email { get; set; } = string.Empty;
     public string PasswordHash { get; set; } = string.Empty;
     public UserRole Role { get; set; }
+    public Guid? CustomRoleId { get; set; } // Replaces the role's permissions; its base role is Role
     public string? PhoneNumber { get; set; }
     public string? Department { get; set; }
     public string? AvatarUrl { get; set; }
     public DateTime CreatedAt { get; set; }
 
+    // A deactivated account can't sign in or refresh its sessions; its tickets and history stay
+    public bool IsActive { get; set; } = true;
+    public DateTime? LastLoginAt { get; set; }
+
+    // The emailed link of an invitation or password reset: SHA-256 of its token, and when it stops working
+    public string? PasswordSetupTokenHash { get; set; }
+    public DateTime? PasswordSetupExpiresAt { get; set; }
+
+    // Two-factor authentication (TOTP). The secret is set by setup and only counts once enabled.
+    public string? TwoFactorSecret { get; set; }
+    public bool TwoFactorEnabled { get; set; }
+    public string? TwoFactorRecoveryCodes { get; set; } // JSON array of SHA-256 hashes of the unused codes
+    public long? TwoFactorLastUsedStep { get; set; } // Time step of the last accepted code, so it can't be replayed
+
+    // Single sign-on: the identity provider's subject (sub claim) of the account this user signs in with
+    public string? ExternalSubject { get; set; }
+
+    // Password sign-in protection: failures since the last success or lock, and when the current lock ends
+    public int FailedSignInCount { get; set; }
+    public DateTime? LockedUntil { get; set; }
+
     public ICollection<Ticket> TicketsCreated { get; set; } = new List<Ticket>();
     public ICollection<Ticket> TicketsAssigned { get; set; } = new List<Ticket>();
     public ICollection<TicketMessage> Messages { get; set; } = new List<TicketMessage>();
     public ICollection<Notification> Notifications { get; set; } = new List<Notification>();
+    public ICollection<RefreshToken> RefreshTokens { get; set; } = new List<RefreshToken>();
     public UserPreferences? Preferences { get; set; }
+    public CustomRole? CustomRole { get; set; }
 }
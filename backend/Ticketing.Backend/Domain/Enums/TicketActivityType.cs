@@ -0,0 +1,6 @@
+namespace Ticketing.Backend.Domain.Enums;
+
+public enum TicketActivityType
+{
+    Merged = 0
+}
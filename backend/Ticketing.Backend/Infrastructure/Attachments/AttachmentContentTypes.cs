@@ -0,0 +1,49 @@
+using System.Text;
+
+namespace Ticketing.Backend.Infrastructure.Attachments;
+
+/// <summary>
+/// SECURITY-CRITICAL: What an attachment's declared content type is trusted for. Only raster images
+/// are ever served inline, and a file declared as one of the types below must start with that type's
+/// signature, so markup can't be uploaded under an image or PDF type.
+/// </summary>
+public static class AttachmentContentTypes
+{
+    // Bytes read from the start of a file to check its signature
+    public const int HeaderLength = 16;
+
+    private static readonly HashSet<string> InlineTypes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "image/png", "image/jpeg", "image/gif", "image/webp"
+    };
+
+    private static readonly byte[] Zip = { 0x50, 0x4B, 0x03, 0x04 };
+
+    private static readonly Dictionary<string, Func<byte[], bool>> Signatures = new(StringComparer.OrdinalIgnoreCase)
+    {
+        ["image/png"] = head => StartsWith(head, 0, new byte[] { 0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A }),
+        ["image/jpeg"] = head => StartsWith(head, 0, new byte[] { 0xFF, 0xD8, 0xFF }),
+        ["image/gif"] = head => StartsWith(head, 0, Encoding.ASCII.GetBytes("GIF87a")) || StartsWith(head, 0, Encoding.ASCII.GetBytes("GIF89a")),
+        ["image/webp"] = head => StartsWith(head, 0, Encoding.ASCII.GetBytes("RIFF")) && StartsWith(head, 8, Encoding.ASCII.GetBytes("WEBP")),
+        ["application/pdf"] = head => StartsWith(head, 0, Encoding.ASCII.GetBytes("%PDF-")),
+        ["application/zip"] = head => StartsWith(head, 0, Zip),
+        ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"] = head => StartsWith(head, 0, Zip),
+        ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"] = head => StartsWith(head, 0, Zip),
+        ["application/vnd.openxmlformats-officedocument.presentationml.presentation"] = head => StartsWith(head, 0, Zip)
+    };
+
+    /// <summary>
+    /// Whether the file may be shown in the browser. SVG and everything else is always a download.
+    /// </summary>
+    public static bool IsInline(string contentType) => InlineTypes.Contains(contentType);
+
+    /// <summary>
+    /// Whether the file's first bytes fit its declared type. Types without a known signature pass;
+    /// they are only ever downloaded.
+    /// </summary>
+    public static bool MatchesContent(string contentType, byte[] head) =>
+        !Signatures.TryGetValue(contentType, out var matches) || matches(head);
+
+    private static bool StartsWith(byte[] head, int offset, byte[] signature) =>
+        head.Length >= offset + signature.Length && head.AsSpan(offset, signature.Length).SequenceEqual(signature);
+}
@@ -0,0 +1,14 @@
+namespace Ticketing.Backend.Infrastructure.Attachments;
+
+public class AttachmentStorageSettings
+{
+    // Folder the files are kept in; relative paths are under the content root
+    public string Path { get; set; } = "App_Data/attachments";
+    // Size of the chunks resumable uploads are sent in
+    public int ChunkSizeBytes { get; set; } = 4 * 1024 * 1024;
+    // Resumable uploads nobody finishes are discarded after this long
+    public int UploadExpiryHours { get; set; } = 24;
+    // Turn the expired-upload sweep off on all but one instance when several share the storage folder
+    public bool CleanupEnabled { get; set; } = true;
+    public int CleanupIntervalMinutes { get; set; } = 60;
+}
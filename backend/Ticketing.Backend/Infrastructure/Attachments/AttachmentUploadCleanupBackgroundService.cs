@@ -0,0 +1,54 @@
+using Ticketing.Backend.Application.Services;
+
+namespace Ticketing.Backend.Infrastructure.Attachments;
+
+/// <summary>
+/// Deletes resumable uploads nobody finished: every Attachments:CleanupIntervalMinutes (default 60) it
+/// discards the uploads past Attachments:UploadExpiryHours and their part files. A failed sweep is
+/// logged and the next one tries again.
+/// </summary>
+public class AttachmentUploadCleanupBackgroundService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly AttachmentStorageSettings _settings;
+    private readonly ILogger<AttachmentUploadCleanupBackgroundService> _logger;
+
+    public AttachmentUploadCleanupBackgroundService(
+        IServiceScopeFactory scopeFactory,
+        AttachmentStorageSettings settings,
+        ILogger<AttachmentUploadCleanupBackgroundService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _settings = settings;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        if (!_settings.CleanupEnabled)
+        {
+            _logger.LogInformation("Upload cleanup sweep is turned off (Attachments:CleanupEnabled)");
+            return;
+        }
+
+        using var timer = new PeriodicTimer(TimeSpan.FromMinutes(Math.Max(1, _settings.CleanupIntervalMinutes)));
+        do
+        {
+            try
+            {
+                using var scope = _scopeFactory.CreateScope();
+                var attachmentService = scope.ServiceProvider.GetRequiredService<IAttachmentService>();
+                var discarded = await attachmentService.DiscardExpiredUploadsAsync();
+                if (discarded > 0)
+                {
+                    _logger.LogInformation("Upload cleanup sweep discarded {Count} expired uploads", discarded);
+                }
+            }
+            catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+            {
+                _logger.LogError(ex, "Upload cleanup sweep failed");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+}
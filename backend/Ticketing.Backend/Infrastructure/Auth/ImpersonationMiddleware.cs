@@ -0,0 +1,98 @@
+using System.Security.Claims;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Auth;
+
+/// <summary>
+/// SECURITY-CRITICAL: Requests made with an impersonation token. The impersonation must still be open,
+/// the account's credentials and profile stay with its owner, and each request, allowed or refused, is
+/// recorded in the impersonation's audit trail with the status it got.
+/// </summary>
+public class ImpersonationMiddleware
+{
+    private const string EndPath = "/api/auth/impersonate/end";
+    private const string SessionItem = "ImpersonationSession";
+
+    // Changing the password, two-factor settings or sessions, or impersonating again
+    private static readonly string[] BlockedPaths =
+    {
+        "/api/auth/change-password",
+        "/api/auth/2fa",
+        "/api/auth/sessions/revoke-others",
+        "/api/auth/impersonate"
+    };
+
+    private readonly RequestDelegate _next;
+    private readonly ILogger<ImpersonationMiddleware> _logger;
+
+    public ImpersonationMiddleware(RequestDelegate next, ILogger<ImpersonationMiddleware> logger)
+    {
+        _next = next;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// The admin behind the current request when it is made with an impersonation token, so what the
+    /// request writes can name them next to the user
+    /// </summary>
+    public static Guid? ImpersonatorOf(HttpContext? context) =>
+        (context?.Items[SessionItem] as ImpersonationSession)?.AdminUserId;
+
+    public async Task InvokeAsync(HttpContext context, IImpersonationService impersonationService)
+    {
+        var claim = context.User.FindFirstValue(JwtTokenGenerator.ImpersonationClaim);
+        if (claim == null)
+        {
+            await _next(context);
+            return;
+        }
+
+        var path = context.Request.Path;
+        // Ending is allowed with a token whose impersonation is already over, so it can always be left
+        if (path.Equals(EndPath, StringComparison.OrdinalIgnoreCase))
+        {
+            await _next(context);
+            return;
+        }
+
+        var session = Guid.TryParse(claim, out var impersonationId)
+            ? await impersonationService.GetActiveAsync(impersonationId)
+            : null;
+        if (session == null)
+        {
+            context.Response.StatusCode = StatusCodes.Status401Unauthorized;
+            return;
+        }
+
+        var method = context.Request.Method;
+        var profileChange = path.Equals("/api/auth/me", StringComparison.OrdinalIgnoreCase) && !HttpMethods.IsGet(method);
+        if (profileChange || BlockedPaths.Any(blocked => path.StartsWithSegments(blocked, StringComparison.OrdinalIgnoreCase)))
+        {
+            await impersonationService.RecordRequestAsync(session, method, path, StatusCodes.Status403Forbidden);
+            context.Response.StatusCode = StatusCodes.Status403Forbidden;
+            await context.Response.WriteAsJsonAsync(new
+            {
+                message = "هنگام مشاهده سامانه از دید کاربر دیگر این کار مجاز نیست",
+                error = "IMPERSONATION_FORBIDDEN"
+            });
+            return;
+        }
+
+        _logger.LogInformation(
+            "Impersonation {ImpersonationId}: admin {AdminUserId} as user {UserId} {Method} {Path}",
+            session.Id, session.AdminUserId, session.UserId, method, path);
+        context.Items[SessionItem] = session;
+        // A request that throws is recorded as the 500 the exception handler turns it into
+        var statusCode = StatusCodes.Status500InternalServerError;
+        try
+        {
+            await _next(context);
+            statusCode = context.Response.StatusCode;
+        }
+        finally
+        {
+            await impersonationService.RecordRequestAsync(session, method, path, statusCode);
+        }
+    }
+}
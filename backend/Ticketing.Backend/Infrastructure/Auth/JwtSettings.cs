@@ -6,4 +6,10 @@ public class JwtSettings
     public string Issuer { get; set; } = "TicketingBackend";
     public string Audience { get; set; } = "TicketingFrontend";
     public int ExpirationMinutes { get; set; } = 120;
+    // How long a sign-in lasts without being used to refresh the access token
+    public int RefreshTokenDays { get; set; } = 14;
+    // How long an admin can view the app as another user before signing in as them again
+    public int ImpersonationMinutes { get; set; } = 30;
+    // Tokens from /api/auth/hub-token are issued for this audience; only the notification hub accepts it
+    public string HubAudience => $"{Audience}:hub";
 }
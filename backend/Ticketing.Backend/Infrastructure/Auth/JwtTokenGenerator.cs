@@ -1,6 +1,7 @@
 using System.IdentityModel.Tokens.Jwt;
 using System.Security.Claims;
 using System.Text;
+using System.Text.Json;
 using Microsoft.IdentityModel.Tokens;
 using Ticketing.Backend.Domain.Entities;
 using Ticketing.Backend.Domain.Enums;
@@ -9,11 +10,29 @@ namespace Ticketing.Backend.Infrastructure.Auth;
 
 public interface IJwtTokenGenerator
 {
-    string GenerateToken(User user);
+    string GenerateToken(User user, Guid sessionId);
+    string GenerateChallengeToken(User user, bool enrollment, DateTime expiresAt);
+    string GenerateHubToken(User user, DateTime expiresAt);
+    string GenerateImpersonationToken(User user, Guid adminUserId, Guid impersonationId, DateTime expiresAt);
+    TwoFactorChallengeClaims? ReadChallengeToken(string token);
 }
 
+/// <summary>
+/// Who a two-factor challenge token was issued to and when, and whether it is for enrolling an
+/// authenticator (require2FA is on and the account has none) or for entering a code from one
+/// </summary>
+public record TwoFactorChallengeClaims(Guid UserId, bool Enrollment, DateTime IssuedAt);
+
 public class JwtTokenGenerator : IJwtTokenGenerator
 {
+    // The sign-in a session token belongs to; the same for every token a refresh issues after it
+    public const string SessionClaim = "session";
+    // The impersonation an access token was issued for; such a token has no session and no refresh token
+    public const string ImpersonationClaim = "impersonation";
+    private const string ChallengePurposeClaim = "2fa";
+    private const string EnrollmentPurpose = "enroll";
+    private const string VerificationPurpose = "verify";
+
     private readonly JwtSettings _settings;
 
     public JwtTokenGenerator(JwtSettings settings)
@@ -32,10 +51,9 @@ public class JwtTokenGenerator : IJwtTokenGenerator
     /// 
     /// CRITICAL: This method trusts the database - user.Role must be valid when persisted
     /// </summary>
-    public string GenerateToken(User user)
+    public string GenerateToken(User user, Guid sessionId)
     {
-        var securityKey = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(_settings.Secret));
-        var credentials = new SigningCredentials(securityKey, SecurityAlgorithms.HmacSha256);
+        var credentials = new SigningCredentials(SigningKey(), SecurityAlgorithms.HmacSha256);
 
         // SECURITY-CRITICAL: Role claim is ALWAYS from persisted user.Role
         // NO hardcoding, NO defaults, NO modifications
@@ -46,7 +64,8 @@ public class JwtTokenGenerator : IJwtTokenGenerator
             new(ClaimTypes.NameIdentifier, user.Id.ToString()),
             new(JwtRegisteredClaimNames.Email, user.Email),
             new(ClaimTypes.Role, user.Role.ToString()), // EXACT role from database - no modifications, no hardcoding
-            new("name", user.FullName)
+            new("name", user.FullName),
+            new(SessionClaim, sessionId.ToString())
         };
 
         var token = new JwtSecurityToken(
@@ -58,4 +77,121 @@ public class JwtTokenGenerator : IJwtTokenGenerator
 
         return new JwtSecurityTokenHandler().WriteToken(token);
     }
+
+    /// <summary>
+    /// SECURITY-CRITICAL: Token for the second sign-in step. It is issued for a different audience,
+    /// so the API's bearer authentication rejects it; only the /api/auth/2fa endpoints read it.
+    /// </summary>
+    public string GenerateChallengeToken(User user, bool enrollment, DateTime expiresAt)
+    {
+        var credentials = new SigningCredentials(SigningKey(), SecurityAlgorithms.HmacSha256);
+        var claims = new List<Claim>
+        {
+            new(JwtRegisteredClaimNames.Sub, user.Id.ToString()),
+            new(ClaimTypes.NameIdentifier, user.Id.ToString()),
+            new(ChallengePurposeClaim, enrollment ? EnrollmentPurpose : VerificationPurpose)
+        };
+
+        var token = new JwtSecurityToken(
+            issuer: _settings.Issuer,
+            audience: ChallengeAudience,
+            claims: claims,
+            notBefore: DateTime.UtcNow,
+            expires: expiresAt,
+            signingCredentials: credentials);
+
+        return new JwtSecurityTokenHandler().WriteToken(token);
+    }
+
+    /// <summary>
+    /// SECURITY-CRITICAL: Token for the notification hub connection, with the same claims as a session
+    /// token but issued for the hub audience, so bearer authentication refuses it everywhere else
+    /// </summary>
+    public string GenerateHubToken(User user, DateTime expiresAt)
+    {
+        var credentials = new SigningCredentials(SigningKey(), SecurityAlgorithms.HmacSha256);
+        var claims = new List<Claim>
+        {
+            new(JwtRegisteredClaimNames.Sub, user.Id.ToString()),
+            new(ClaimTypes.NameIdentifier, user.Id.ToString()),
+            new(ClaimTypes.Role, user.Role.ToString())
+        };
+
+        var token = new JwtSecurityToken(
+            issuer: _settings.Issuer,
+            audience: _settings.HubAudience,
+            claims: claims,
+            expires: expiresAt,
+            signingCredentials: credentials);
+
+        return new JwtSecurityTokenHandler().WriteToken(token);
+    }
+
+    /// <summary>
+    /// SECURITY-CRITICAL: Access token for an admin viewing the app as another user. It carries the
+    /// user's own claims, so they see what the user sees, and names the admin in the `act` claim
+    /// (RFC 8693) and the impersonation it belongs to, which must still be open when it is used.
+    /// </summary>
+    public string GenerateImpersonationToken(User user, Guid adminUserId, Guid impersonationId, DateTime expiresAt)
+    {
+        var credentials = new SigningCredentials(SigningKey(), SecurityAlgorithms.HmacSha256);
+        var claims = new List<Claim>
+        {
+            new(JwtRegisteredClaimNames.Sub, user.Id.ToString()),
+            new(ClaimTypes.NameIdentifier, user.Id.ToString()),
+            new(JwtRegisteredClaimNames.Email, user.Email),
+            new(ClaimTypes.Role, user.Role.ToString()),
+            new("name", user.FullName),
+            new("act", JsonSerializer.Serialize(new { sub = adminUserId.ToString() }), Microsoft.IdentityModel.JsonWebTokens.JsonClaimValueTypes.Json),
+            new(ImpersonationClaim, impersonationId.ToString())
+        };
+
+        var token = new JwtSecurityToken(
+            issuer: _settings.Issuer,
+            audience: _settings.Audience,
+            claims: claims,
+            expires: expiresAt,
+            signingCredentials: credentials);
+
+        return new JwtSecurityTokenHandler().WriteToken(token);
+    }
+
+    /// <summary>
+    /// The claims of a valid, unexpired challenge token; null for anything else, session tokens included
+    /// </summary>
+    public TwoFactorChallengeClaims? ReadChallengeToken(string token)
+    {
+        var parameters = new TokenValidationParameters
+        {
+            ValidateIssuer = true,
+            ValidateAudience = true,
+            ValidateLifetime = true,
+            ValidateIssuerSigningKey = true,
+            ValidIssuer = _settings.Issuer,
+            ValidAudience = ChallengeAudience,
+            IssuerSigningKey = SigningKey(),
+            ClockSkew = TimeSpan.Zero
+        };
+
+        try
+        {
+            var principal = new JwtSecurityTokenHandler().ValidateToken(token, parameters, out var validatedToken);
+            var purpose = principal.FindFirstValue(ChallengePurposeClaim);
+            if (!Guid.TryParse(principal.FindFirstValue(ClaimTypes.NameIdentifier), out var userId) ||
+                (purpose != EnrollmentPurpose && purpose != VerificationPurpose))
+            {
+                return null;
+            }
+
+            return new TwoFactorChallengeClaims(userId, purpose == EnrollmentPurpose, validatedToken.ValidFrom);
+        }
+        catch (Exception ex) when (ex is SecurityTokenException or ArgumentException)
+        {
+            return null;
+        }
+    }
+
+    private string ChallengeAudience => $"{_settings.Audience}:2fa";
+
+    private SymmetricSecurityKey SigningKey() => new(Encoding.UTF8.GetBytes(_settings.Secret));
 }
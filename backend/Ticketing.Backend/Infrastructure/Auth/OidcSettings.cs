@@ -0,0 +1,20 @@
+namespace Ticketing.Backend.Infrastructure.Auth;
+
+public class OidcSettings
+{
+    // The identity provider's issuer; single sign-on is off while this or ClientId is empty
+    public string Authority { get; set; } = string.Empty;
+    // Client id the frontend signs in with; ID tokens must be issued for it
+    public string ClientId { get; set; } = string.Empty;
+    // Only for a local provider such as `npm run oidc:mock`
+    public bool RequireHttpsMetadata { get; set; } = true;
+    // Claim whose values decide the role; accounts matching neither list are clients
+    public string RoleClaim { get; set; } = "groups";
+    public string[] AdminValues { get; set; } = Array.Empty<string>();
+    public string[] TechnicianValues { get; set; } = Array.Empty<string>();
+
+    // Without values for either role the provider's claims don't decide roles at all
+    public bool MapsRoles => AdminValues.Length > 0 || TechnicianValues.Length > 0;
+
+    public bool Enabled => !string.IsNullOrWhiteSpace(Authority) && !string.IsNullOrWhiteSpace(ClientId);
+}
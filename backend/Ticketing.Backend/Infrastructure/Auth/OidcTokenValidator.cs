@@ -0,0 +1,122 @@
+using System.IdentityModel.Tokens.Jwt;
+using Microsoft.IdentityModel.Protocols;
+using Microsoft.IdentityModel.Protocols.OpenIdConnect;
+using Microsoft.IdentityModel.Tokens;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Infrastructure.Auth;
+
+public interface IOidcTokenValidator
+{
+    bool Enabled { get; }
+    Task<OidcIdentity?> ValidateIdTokenAsync(string idToken);
+}
+
+/// <summary>
+/// Who a verified ID token says signed in, the nonce it was issued for, and the role mapped from its
+/// claims (null when no mapping is configured)
+/// </summary>
+public record OidcIdentity(string Subject, string Email, bool EmailVerified, string FullName, string? Nonce, UserRole? Role);
+
+/// <summary>
+/// SECURITY-CRITICAL: Checks ID tokens from the organization's OpenID Connect provider. The signature
+/// is verified against the keys the provider publishes, and the issuer, audience and lifetime are
+/// checked; the role is mapped here from the verified claims, never taken from the browser. The nonce
+/// is returned for the caller to match against the ones it issued.
+/// </summary>
+public class OidcTokenValidator : IOidcTokenValidator
+{
+    private readonly OidcSettings _settings;
+    private readonly ConfigurationManager<OpenIdConnectConfiguration>? _configurationManager;
+    private readonly ILogger<OidcTokenValidator> _logger;
+
+    public OidcTokenValidator(OidcSettings settings, ILogger<OidcTokenValidator> logger)
+    {
+        _settings = settings;
+        _logger = logger;
+        if (settings.Enabled)
+        {
+            // Caches the discovery document and signing keys, and fetches them again when they age
+            _configurationManager = new ConfigurationManager<OpenIdConnectConfiguration>(
+                $"{settings.Authority.TrimEnd('/')}/.well-known/openid-configuration",
+                new OpenIdConnectConfigurationRetriever(),
+                new HttpDocumentRetriever { RequireHttps = settings.RequireHttpsMetadata });
+        }
+    }
+
+    public bool Enabled => _configurationManager != null;
+
+    /// <summary>
+    /// The identity in a valid ID token; null for anything else, including when the provider can't be reached
+    /// </summary>
+    public async Task<OidcIdentity?> ValidateIdTokenAsync(string idToken)
+    {
+        if (_configurationManager == null)
+        {
+            return null;
+        }
+
+        OpenIdConnectConfiguration configuration;
+        try
+        {
+            configuration = await _configurationManager.GetConfigurationAsync(CancellationToken.None);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Could not load the OpenID Connect configuration from {Authority}", _settings.Authority);
+            return null;
+        }
+
+        var parameters = new TokenValidationParameters
+        {
+            ValidateIssuer = true,
+            ValidateAudience = true,
+            ValidateLifetime = true,
+            ValidateIssuerSigningKey = true,
+            ValidIssuer = configuration.Issuer,
+            ValidAudience = _settings.ClientId,
+            IssuerSigningKeys = configuration.SigningKeys
+        };
+
+        try
+        {
+            // Keep the provider's claim names (sub, email, groups) instead of mapping them
+            var handler = new JwtSecurityTokenHandler { MapInboundClaims = false };
+            var principal = handler.ValidateToken(idToken, parameters, out _);
+
+            var subject = principal.FindFirst(JwtRegisteredClaimNames.Sub)?.Value;
+            var email = principal.FindFirst(JwtRegisteredClaimNames.Email)?.Value;
+            if (string.IsNullOrWhiteSpace(subject) || string.IsNullOrWhiteSpace(email))
+            {
+                return null;
+            }
+
+            UserRole? role = null;
+            if (_settings.MapsRoles)
+            {
+                var roleValues = principal.FindAll(_settings.RoleClaim).Select(c => c.Value).ToHashSet(StringComparer.OrdinalIgnoreCase);
+                role = _settings.AdminValues.Any(roleValues.Contains) ? UserRole.Admin
+                    : _settings.TechnicianValues.Any(roleValues.Contains) ? UserRole.Technician
+                    : UserRole.Client;
+            }
+
+            return new OidcIdentity(
+                subject,
+                email.ToLowerInvariant(),
+                string.Equals(principal.FindFirst("email_verified")?.Value, "true", StringComparison.OrdinalIgnoreCase),
+                principal.FindFirst("name")?.Value ?? email,
+                principal.FindFirst(JwtRegisteredClaimNames.Nonce)?.Value,
+                role);
+        }
+        catch (SecurityTokenSignatureKeyNotFoundException)
+        {
+            // The provider may have rotated its keys; the next sign-in fetches them again
+            _configurationManager.RequestRefresh();
+            return null;
+        }
+        catch (Exception ex) when (ex is SecurityTokenException or ArgumentException)
+        {
+            return null;
+        }
+    }
+}
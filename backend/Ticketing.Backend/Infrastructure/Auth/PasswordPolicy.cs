@@ -0,0 +1,124 @@
+using System.Globalization;
+using System.Text.RegularExpressions;
+
+namespace Ticketing.Backend.Infrastructure.Auth;
+
+/// <summary>
+/// The rules a new password must meet and the email domains registration accepts. The forms check
+/// the same rules as the user types (frontend lib/password-policy.ts), so both report the same message.
+/// </summary>
+public static class PasswordPolicy
+{
+    // Below what RegisterRequest accepts, the configured minimum length doesn't apply
+    public const int MinLengthFloor = 6;
+
+    // How many of lowercase, uppercase, digits and symbols a password must mix. Fixed on purpose:
+    // the admin configures only the length (SystemSettings.PasswordMinLength).
+    public const int MinCharacterClasses = 3;
+
+    /*
+     * Passwords that top every breach list. Compared after lowercasing, undoing common letter
+     * substitutions and dropping the digits and symbols people append, so "P@ssw0rd123!" matches too.
+     */
+    private static readonly HashSet<string> CommonPasswords = new()
+    {
+        "password", "passw0rd", "qwerty", "qwertyuiop", "asdfgh", "asdfghjkl", "zxcvbnm", "azerty",
+        "123456", "1234567", "12345678", "123456789", "1234567890", "111111", "000000", "123123",
+        "654321", "666666", "121212", "112233", "987654321", "abc123", "abcdef", "abcd1234",
+        "letmein", "welcome", "admin", "administrator", "root", "login", "guest", "user", "test",
+        "iloveyou", "monkey", "dragon", "master", "sunshine", "princess", "football", "baseball",
+        "shadow", "superman", "michael", "freedom", "whatever", "trustno1", "secret", "changeme",
+        "default", "hello", "starwars", "computer", "internet", "google", "samsung", "ticket",
+        "ticketing", "support", "helpdesk", "company", "iran", "tehran",
+    };
+
+    private static readonly Dictionary<char, char> LeetSubstitutions = new()
+    {
+        ['@'] = 'a', ['4'] = 'a', ['3'] = 'e', ['1'] = 'i', ['!'] = 'i', ['0'] = 'o', ['$'] = 's', ['5'] = 's', ['7'] = 't'
+    };
+
+    private static readonly Regex[] CharacterClasses =
+    {
+        new("[a-z]"), new("[A-Z]"), new(@"\d"), new("[^A-Za-z0-9]")
+    };
+
+    /// <summary>
+    /// Why the password breaks the policy, or null when it doesn't
+    /// </summary>
+    public static string? GetError(string password, int configuredMinLength, string? email)
+    {
+        var minLength = Math.Max(configuredMinLength, MinLengthFloor);
+        if (password.Length < minLength)
+        {
+            return $"رمز عبور باید حداقل {ToFaDigits(minLength)} کاراکتر باشد";
+        }
+
+        if (CharacterClasses.Count(pattern => pattern.IsMatch(password)) < MinCharacterClasses)
+        {
+            return $"رمز عبور باید ترکیبی از حداقل {ToFaDigits(MinCharacterClasses)} نوع از حروف کوچک، حروف بزرگ، عدد و نماد باشد";
+        }
+
+        if (IsCommon(password))
+        {
+            return "این رمز عبور بسیار رایج است یا در نشت‌های اطلاعاتی دیده شده است";
+        }
+
+        if (ContainsEmail(password, email))
+        {
+            return "رمز عبور نباید شامل ایمیل شما باشد";
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Whether registration accepts this email. An empty list allows every domain, and subdomains of
+    /// an allowed domain count too.
+    /// </summary>
+    public static bool IsEmailDomainAllowed(string email, IEnumerable<string> allowedDomains)
+    {
+        var domains = allowedDomains.Select(NormalizeDomain).Where(d => d.Length > 0).ToList();
+        if (domains.Count == 0)
+        {
+            return true;
+        }
+
+        var at = email.Trim().LastIndexOf('@');
+        var domain = at >= 0 ? email.Trim()[(at + 1)..].ToLowerInvariant() : string.Empty;
+        return domain.Length > 0 && domains.Any(allowed => domain == allowed || domain.EndsWith("." + allowed));
+    }
+
+    public static string EmailDomainError(IEnumerable<string> allowedDomains) =>
+        $"ثبت‌نام فقط با ایمیل سازمانی امکان‌پذیر است ({string.Join("، ", allowedDomains.Select(NormalizeDomain))})";
+
+    private static bool IsCommon(string password)
+    {
+        var lower = password.ToLowerInvariant();
+        var trimmed = Regex.Replace(lower, @"[\d\W_]+$", string.Empty);
+        if (trimmed.Length == 0)
+        {
+            trimmed = lower;
+        }
+        var unsubstituted = new string(trimmed.Select(c => LeetSubstitutions.GetValueOrDefault(c, c)).ToArray());
+        return CommonPasswords.Contains(lower) || CommonPasswords.Contains(trimmed) || CommonPasswords.Contains(unsubstituted);
+    }
+
+    // The email, or its part before the @ when that is long enough to be meaningful
+    private static bool ContainsEmail(string password, string? email)
+    {
+        if (string.IsNullOrEmpty(email))
+        {
+            return false;
+        }
+
+        var lower = password.ToLowerInvariant();
+        var normalizedEmail = email.ToLowerInvariant();
+        var localPart = normalizedEmail.Split('@')[0];
+        return lower.Contains(normalizedEmail) || (localPart.Length >= 3 && lower.Contains(localPart));
+    }
+
+    private static string NormalizeDomain(string domain) => domain.Trim().ToLowerInvariant().TrimStart('@');
+
+    private static string ToFaDigits(int value) =>
+        string.Concat(value.ToString(CultureInfo.InvariantCulture).Select(c => (char)('۰' + (c - '0'))));
+}
@@ -0,0 +1,54 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Ticketing.Backend.Application.Services;
+
+namespace Ticketing.Backend.Infrastructure.Auth;
+
+/// <summary>
+/// Lets a signed-in user through when they hold any of the permissions. Several attributes on one
+/// endpoint must all pass, so put one on an action instead of its controller when it takes a different set.
+/// </summary>
+[AttributeUsage(AttributeTargets.Class | AttributeTargets.Method, AllowMultiple = true)]
+public sealed class RequirePermissionAttribute : AuthorizeAttribute, IAuthorizationRequirement, IAuthorizationRequirementData
+{
+    public RequirePermissionAttribute(params string[] permissions)
+    {
+        Permissions = permissions;
+    }
+
+    public IReadOnlyList<string> Permissions { get; }
+
+    public IEnumerable<IAuthorizationRequirement> GetRequirements()
+    {
+        yield return this;
+    }
+}
+
+/// <summary>
+/// SECURITY-CRITICAL: Checks [RequirePermission] against the user's current permissions in the
+/// database, not the token, so a role change or deactivation applies to the next request.
+/// </summary>
+public class PermissionAuthorizationHandler : AuthorizationHandler<RequirePermissionAttribute>
+{
+    private readonly IRoleService _roleService;
+
+    public PermissionAuthorizationHandler(IRoleService roleService)
+    {
+        _roleService = roleService;
+    }
+
+    protected override async Task HandleRequirementAsync(AuthorizationHandlerContext context, RequirePermissionAttribute requirement)
+    {
+        var idValue = context.User.FindFirstValue(ClaimTypes.NameIdentifier);
+        if (!Guid.TryParse(idValue, out var userId))
+        {
+            return;
+        }
+
+        var permissions = await _roleService.GetPermissionsAsync(userId);
+        if (requirement.Permissions.Any(permissions.Contains))
+        {
+            context.Succeed(requirement);
+        }
+    }
+}
@@ -0,0 +1,18 @@
+namespace Ticketing.Backend.Infrastructure.Auth;
+
+public class SignInSecuritySettings
+{
+    // Failed passwords on an account (or from an address) before each further attempt needs a CAPTCHA
+    public int CaptchaAfterFailures { get; set; } = 3;
+    // Failed passwords on an account before it is locked, and for how long
+    public int LockoutAfterFailures { get; set; } = 5;
+    public int LockoutMinutes { get; set; } = 15;
+    // Wrong two-factor codes one sign-in's challenge takes before the password must be entered again
+    public int CodeAttemptsPerChallenge { get; set; } = 3;
+    // Failed sign-ins one address may make within the window before it has to wait
+    public int AddressFailureLimit { get; set; } = 20;
+    public int AddressWindowMinutes { get; set; } = 15;
+    public int CaptchaMinutes { get; set; } = 5;
+    // Sign-in attempts older than this are deleted
+    public int HistoryDays { get; set; } = 90;
+}
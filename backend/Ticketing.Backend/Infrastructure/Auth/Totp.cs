@@ -0,0 +1,125 @@
+using System.Security.Cryptography;
+using System.Text;
+
+namespace Ticketing.Backend.Infrastructure.Auth;
+
+/// <summary>
+/// Time-based one-time passwords (RFC 6238) as authenticator apps compute them:
+/// HMAC-SHA1, six digits, 30-second steps, secrets shared as Base32.
+/// </summary>
+public static class Totp
+{
+    public const int Digits = 6;
+    public const int StepSeconds = 30;
+
+    // Steps either side of the current one that are still accepted, for clocks that drift
+    private const int AllowedDriftSteps = 1;
+    private const int SecretLength = 20;
+    private const string Base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+    public static byte[] GenerateSecret() => RandomNumberGenerator.GetBytes(SecretLength);
+
+    /// <summary>
+    /// otpauth:// URI that authenticator apps read from the QR code
+    /// </summary>
+    public static string BuildUri(string issuer, string accountName, byte[] secret)
+    {
+        var label = Uri.EscapeDataString($"{issuer}:{accountName}");
+        return $"otpauth://totp/{label}?secret={ToBase32(secret)}&issuer={Uri.EscapeDataString(issuer)}" +
+               $"&algorithm=SHA1&digits={Digits}&period={StepSeconds}";
+    }
+
+    /// <summary>
+    /// The time step the code belongs to, or null when it matches none of the accepted steps.
+    /// Callers remember the step so the same code can't be used twice.
+    /// </summary>
+    public static long? MatchStep(byte[] secret, string code, DateTime utcNow)
+    {
+        var normalized = code.Replace(" ", string.Empty);
+        if (normalized.Length != Digits || !normalized.All(char.IsAsciiDigit))
+        {
+            return null;
+        }
+
+        var currentStep = new DateTimeOffset(utcNow).ToUnixTimeSeconds() / StepSeconds;
+        for (var offset = -AllowedDriftSteps; offset <= AllowedDriftSteps; offset++)
+        {
+            var step = currentStep + offset;
+            var expected = Encoding.ASCII.GetBytes(ComputeCode(secret, step));
+            if (CryptographicOperations.FixedTimeEquals(expected, Encoding.ASCII.GetBytes(normalized)))
+            {
+                return step;
+            }
+        }
+
+        return null;
+    }
+
+    private static string ComputeCode(byte[] secret, long step)
+    {
+        var counter = BitConverter.GetBytes(step);
+        if (BitConverter.IsLittleEndian)
+        {
+            Array.Reverse(counter);
+        }
+
+        using var hmac = new HMACSHA1(secret);
+        var hash = hmac.ComputeHash(counter);
+
+        // Dynamic truncation (RFC 4226 section 5.3)
+        var offset = hash[^1] & 0x0F;
+        var binary = ((hash[offset] & 0x7F) << 24)
+                     | (hash[offset + 1] << 16)
+                     | (hash[offset + 2] << 8)
+                     | hash[offset + 3];
+
+        return (binary % (int)Math.Pow(10, Digits)).ToString().PadLeft(Digits, '0');
+    }
+
+    public static string ToBase32(byte[] data)
+    {
+        var builder = new StringBuilder((data.Length * 8 + 4) / 5);
+        int buffer = 0, bits = 0;
+        foreach (var value in data)
+        {
+            buffer = (buffer << 8) | value;
+            bits += 8;
+            while (bits >= 5)
+            {
+                builder.Append(Base32Alphabet[(buffer >> (bits - 5)) & 0x1F]);
+                bits -= 5;
+            }
+        }
+
+        if (bits > 0)
+        {
+            builder.Append(Base32Alphabet[(buffer << (5 - bits)) & 0x1F]);
+        }
+
+        return builder.ToString();
+    }
+
+    public static byte[] FromBase32(string encoded)
+    {
+        var output = new List<byte>(encoded.Length * 5 / 8);
+        int buffer = 0, bits = 0;
+        foreach (var character in encoded.TrimEnd('=').ToUpperInvariant())
+        {
+            var value = Base32Alphabet.IndexOf(character);
+            if (value < 0)
+            {
+                throw new FormatException($"'{character}' is not a Base32 character.");
+            }
+
+            buffer = (buffer << 5) | value;
+            bits += 5;
+            if (bits >= 8)
+            {
+                output.Add((byte)((buffer >> (bits - 8)) & 0xFF));
+                bits -= 8;
+            }
+        }
+
+        return output.ToArray();
+    }
+}
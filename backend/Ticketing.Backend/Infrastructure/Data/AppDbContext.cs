@@ -6,12 +6,22 @@ namespace Ticketing.Backend.Infrastructure.Data;
 public class AppDbContext : DbContext
 {
     public DbSet<User> Users => Set<User>();
+    public DbSet<CustomRole> CustomRoles => Set<CustomRole>();
     public DbSet<Ticket> Tickets => Set<Ticket>();
     public DbSet<TicketMessage> TicketMessages => Set<TicketMessage>();
+    public DbSet<TicketSurvey> TicketSurveys => Set<TicketSurvey>();
+    public DbSet<TicketActivity> TicketActivities => Set<TicketActivity>();
     public DbSet<Category> Categories => Set<Category>();
     public DbSet<Subcategory> Subcategories => Set<Subcategory>();
     public DbSet<Attachment> Attachments => Set<Attachment>();
+    public DbSet<AttachmentUpload> AttachmentUploads => Set<AttachmentUpload>();
     public DbSet<Notification> Notifications => Set<Notification>();
+    public DbSet<RefreshToken> RefreshTokens => Set<RefreshToken>();
+    public DbSet<SignInAttempt> SignInAttempts => Set<SignInAttempt>();
+    public DbSet<CaptchaChallenge> CaptchaChallenges => Set<CaptchaChallenge>();
+    public DbSet<OidcNonce> OidcNonces => Set<OidcNonce>();
+    public DbSet<ImpersonationSession> ImpersonationSessions => Set<ImpersonationSession>();
+    public DbSet<ImpersonationAuditEntry> ImpersonationAuditEntries => Set<ImpersonationAuditEntry>();
     public DbSet<SystemSettings> SystemSettings => Set<SystemSettings>();
     public DbSet<UserPreferences> UserPreferences => Set<UserPreferences>();
     public DbSet<Technician> Technicians => Set<Technician>();
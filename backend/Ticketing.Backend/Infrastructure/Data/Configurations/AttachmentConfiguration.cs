@@ -9,12 +9,23 @@ public class AttachmentConfiguration : IEntityTypeConfiguration<Attachment>
     public void Configure(EntityTypeBuilder<Attachment> builder)
     {
         builder.HasKey(a => a.Id);
-        builder.Property(a => a.FileName).IsRequired();
+        builder.Property(a => a.FileName).IsRequired().HasMaxLength(255);
         builder.Property(a => a.FileUrl).IsRequired();
+        builder.Property(a => a.ContentType).IsRequired().HasMaxLength(200);
 
         builder.HasOne(a => a.Ticket)
             .WithMany(t => t.Attachments)
             .HasForeignKey(a => a.TicketId)
             .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne<TicketMessage>()
+            .WithMany()
+            .HasForeignKey(a => a.MessageId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        builder.HasOne(a => a.UploadedByUser)
+            .WithMany()
+            .HasForeignKey(a => a.UploadedByUserId)
+            .OnDelete(DeleteBehavior.SetNull);
     }
 }
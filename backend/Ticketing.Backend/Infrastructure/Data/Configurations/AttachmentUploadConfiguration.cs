@@ -0,0 +1,25 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class AttachmentUploadConfiguration : IEntityTypeConfiguration<AttachmentUpload>
+{
+    public void Configure(EntityTypeBuilder<AttachmentUpload> builder)
+    {
+        builder.HasKey(u => u.Id);
+        builder.Property(u => u.FileName).IsRequired().HasMaxLength(255);
+        builder.Property(u => u.ContentType).IsRequired().HasMaxLength(200);
+
+        builder.HasOne(u => u.Ticket)
+            .WithMany()
+            .HasForeignKey(u => u.TicketId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne(u => u.User)
+            .WithMany()
+            .HasForeignKey(u => u.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
@@ -0,0 +1,14 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class CaptchaChallengeConfiguration : IEntityTypeConfiguration<CaptchaChallenge>
+{
+    public void Configure(EntityTypeBuilder<CaptchaChallenge> builder)
+    {
+        builder.HasKey(c => c.Id);
+        builder.Property(c => c.AnswerHash).IsRequired().HasMaxLength(64);
+    }
+}
@@ -0,0 +1,23 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class CustomRoleConfiguration : IEntityTypeConfiguration<CustomRole>
+{
+    public void Configure(EntityTypeBuilder<CustomRole> builder)
+    {
+        builder.HasKey(r => r.Id);
+        builder.HasIndex(r => r.Name).IsUnique();
+        builder.Property(r => r.Name).IsRequired().HasMaxLength(100);
+        builder.Property(r => r.Description).HasMaxLength(500);
+        builder.Property(r => r.Permissions).IsRequired();
+
+        // Deleting a role leaves its members on their base role
+        builder.HasMany(r => r.Members)
+            .WithOne(u => u.CustomRole)
+            .HasForeignKey(u => u.CustomRoleId)
+            .OnDelete(DeleteBehavior.SetNull);
+    }
+}
@@ -0,0 +1,17 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class ImpersonationAuditEntryConfiguration : IEntityTypeConfiguration<ImpersonationAuditEntry>
+{
+    public void Configure(EntityTypeBuilder<ImpersonationAuditEntry> builder)
+    {
+        builder.HasKey(e => e.Id);
+        builder.Property(e => e.Method).IsRequired().HasMaxLength(10);
+        builder.Property(e => e.Path).IsRequired().HasMaxLength(2048);
+        builder.HasIndex(e => new { e.ImpersonationSessionId, e.RequestedAt });
+        builder.HasIndex(e => new { e.AdminUserId, e.RequestedAt });
+    }
+}
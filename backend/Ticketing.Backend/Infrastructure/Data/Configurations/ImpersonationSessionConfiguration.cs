@@ -0,0 +1,16 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class ImpersonationSessionConfiguration : IEntityTypeConfiguration<ImpersonationSession>
+{
+    public void Configure(EntityTypeBuilder<ImpersonationSession> builder)
+    {
+        builder.HasKey(s => s.Id);
+        builder.Property(s => s.Reason).IsRequired().HasMaxLength(500);
+        builder.HasIndex(s => new { s.AdminUserId, s.StartedAt });
+        builder.HasIndex(s => new { s.UserId, s.StartedAt });
+    }
+}
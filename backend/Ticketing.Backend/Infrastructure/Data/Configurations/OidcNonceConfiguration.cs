@@ -0,0 +1,15 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class OidcNonceConfiguration : IEntityTypeConfiguration<OidcNonce>
+{
+    public void Configure(EntityTypeBuilder<OidcNonce> builder)
+    {
+        builder.HasKey(n => n.Id);
+        builder.Property(n => n.NonceHash).IsRequired().HasMaxLength(64);
+        builder.HasIndex(n => n.NonceHash).IsUnique();
+    }
+}
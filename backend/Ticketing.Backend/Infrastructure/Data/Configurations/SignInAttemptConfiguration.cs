@@ -0,0 +1,23 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class SignInAttemptConfiguration : IEntityTypeConfiguration<SignInAttempt>
+{
+    public void Configure(EntityTypeBuilder<SignInAttempt> builder)
+    {
+        builder.HasKey(a => a.Id);
+        builder.Property(a => a.Email).IsRequired().HasMaxLength(200);
+        builder.Property(a => a.IpAddress).HasMaxLength(64);
+        builder.Property(a => a.UserAgent).HasMaxLength(512);
+        builder.HasIndex(a => new { a.UserId, a.OccurredAt });
+        builder.HasIndex(a => new { a.IpAddress, a.OccurredAt });
+
+        builder.HasOne(a => a.User)
+            .WithMany()
+            .HasForeignKey(a => a.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
@@ -38,5 +38,10 @@ public class TicketConfiguration : IEntityTypeConfiguration<Ticket>
             .WithMany(t => t.AssignedTickets)
             .HasForeignKey(t => t.TechnicianId)
             .OnDelete(DeleteBehavior.SetNull);
+
+        builder.HasOne<Ticket>()
+            .WithMany()
+            .HasForeignKey(t => t.MergedIntoId)
+            .OnDelete(DeleteBehavior.Restrict);
     }
 }
@@ -0,0 +1,20 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class TicketSurveyConfiguration : IEntityTypeConfiguration<TicketSurvey>
+{
+    public void Configure(EntityTypeBuilder<TicketSurvey> builder)
+    {
+        builder.HasKey(s => s.TicketId);
+        builder.Property(s => s.Comment).HasMaxLength(1000);
+        builder.HasIndex(s => s.SubmittedAt);
+
+        builder.HasOne(s => s.Ticket)
+            .WithOne(t => t.Survey)
+            .HasForeignKey<TicketSurvey>(s => s.TicketId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
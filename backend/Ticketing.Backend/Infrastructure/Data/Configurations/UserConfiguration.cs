@@ -10,11 +10,16 @@ public class UserConfiguration : IEntityTypeConfiguration<User>
     {
         builder.HasKey(u => u.Id);
         builder.HasIndex(u => u.Email).IsUnique();
+        builder.HasIndex(u => u.ExternalSubject).IsUnique();
+        builder.HasIndex(u => u.PasswordSetupTokenHash).IsUnique();
         builder.Property(u => u.FullName).IsRequired().HasMaxLength(200);
         builder.Property(u => u.Email).IsRequired().HasMaxLength(200);
         builder.Property(u => u.Role).IsRequired();
         builder.Property(u => u.PhoneNumber).HasMaxLength(50);
         builder.Property(u => u.Department).HasMaxLength(200);
         builder.Property(u => u.AvatarUrl).HasMaxLength(8192);
+        builder.Property(u => u.TwoFactorSecret).HasMaxLength(64);
+        builder.Property(u => u.ExternalSubject).HasMaxLength(255);
+        builder.Property(u => u.PasswordSetupTokenHash).HasMaxLength(64);
     }
 }
@@ -0,0 +1,60 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTwoFactorAuthentication : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "TwoFactorEnabled",
+                table: "Users",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<long>(
+                name: "TwoFactorLastUsedStep",
+                table: "Users",
+                type: "INTEGER",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "TwoFactorRecoveryCodes",
+                table: "Users",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "TwoFactorSecret",
+                table: "Users",
+                type: "TEXT",
+                maxLength: 64,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "TwoFactorEnabled",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "TwoFactorLastUsedStep",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "TwoFactorRecoveryCodes",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "TwoFactorSecret",
+                table: "Users");
+        }
+    }
+}
@@ -0,0 +1,90 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSlaTracking : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "SlaSettings",
+                table: "SystemSettings",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "");
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "SlaEscalatedAt",
+                table: "Tickets",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "SlaFirstRespondedAt",
+                table: "Tickets",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SlaPausedMinutes",
+                table: "Tickets",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "SlaPausedSince",
+                table: "Tickets",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "SlaResolvedAt",
+                table: "Tickets",
+                type: "TEXT",
+                nullable: true);
+
+            // Tickets from before the clock was kept: their last update is the latest the first
+            // response, the resolution or the wait for the client can have started
+            migrationBuilder.Sql(
+                "UPDATE \"Tickets\" SET \"SlaFirstRespondedAt\" = COALESCE(\"UpdatedAt\", \"CreatedAt\") WHERE \"Status\" <> 0;");
+            migrationBuilder.Sql(
+                "UPDATE \"Tickets\" SET \"SlaResolvedAt\" = COALESCE(\"UpdatedAt\", \"CreatedAt\") WHERE \"Status\" IN (3, 4);");
+            migrationBuilder.Sql(
+                "UPDATE \"Tickets\" SET \"SlaPausedSince\" = COALESCE(\"UpdatedAt\", \"CreatedAt\") WHERE \"Status\" = 2;");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "SlaSettings",
+                table: "SystemSettings");
+
+            migrationBuilder.DropColumn(
+                name: "SlaEscalatedAt",
+                table: "Tickets");
+
+            migrationBuilder.DropColumn(
+                name: "SlaFirstRespondedAt",
+                table: "Tickets");
+
+            migrationBuilder.DropColumn(
+                name: "SlaPausedMinutes",
+                table: "Tickets");
+
+            migrationBuilder.DropColumn(
+                name: "SlaPausedSince",
+                table: "Tickets");
+
+            migrationBuilder.DropColumn(
+                name: "SlaResolvedAt",
+                table: "Tickets");
+        }
+    }
+}
@@ -0,0 +1,178 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddAttachmentUploads : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AlterColumn<string>(
+                name: "FileName",
+                table: "Attachments",
+                type: "TEXT",
+                maxLength: 255,
+                nullable: false,
+                oldClrType: typeof(string),
+                oldType: "TEXT");
+
+            migrationBuilder.AddColumn<string>(
+                name: "ContentType",
+                table: "Attachments",
+                type: "TEXT",
+                maxLength: 200,
+                nullable: false,
+                defaultValue: "application/octet-stream");
+
+            migrationBuilder.AddColumn<Guid>(
+                name: "MessageId",
+                table: "Attachments",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<long>(
+                name: "Size",
+                table: "Attachments",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 0L);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "UploadedAt",
+                table: "Attachments",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: new DateTime(1, 1, 1, 0, 0, 0, 0, DateTimeKind.Unspecified));
+
+            migrationBuilder.AddColumn<Guid>(
+                name: "UploadedByUserId",
+                table: "Attachments",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "AttachmentUploads",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    TicketId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    MessageId = table.Column<Guid>(type: "TEXT", nullable: true),
+                    UserId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    FileName = table.Column<string>(type: "TEXT", maxLength: 255, nullable: false),
+                    ContentType = table.Column<string>(type: "TEXT", maxLength: 200, nullable: false),
+                    Size = table.Column<long>(type: "INTEGER", nullable: false),
+                    ReceivedBytes = table.Column<long>(type: "INTEGER", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    ExpiresAt = table.Column<DateTime>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_AttachmentUploads", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_AttachmentUploads_Tickets_TicketId",
+                        column: x => x.TicketId,
+                        principalTable: "Tickets",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_AttachmentUploads_Users_UserId",
+                        column: x => x.UserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Attachments_MessageId",
+                table: "Attachments",
+                column: "MessageId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Attachments_UploadedByUserId",
+                table: "Attachments",
+                column: "UploadedByUserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_AttachmentUploads_TicketId",
+                table: "AttachmentUploads",
+                column: "TicketId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_AttachmentUploads_UserId",
+                table: "AttachmentUploads",
+                column: "UserId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Attachments_TicketMessages_MessageId",
+                table: "Attachments",
+                column: "MessageId",
+                principalTable: "TicketMessages",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Attachments_Users_UploadedByUserId",
+                table: "Attachments",
+                column: "UploadedByUserId",
+                principalTable: "Users",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Attachments_TicketMessages_MessageId",
+                table: "Attachments");
+
+            migrationBuilder.DropForeignKey(
+                name: "FK_Attachments_Users_UploadedByUserId",
+                table: "Attachments");
+
+            migrationBuilder.DropTable(
+                name: "AttachmentUploads");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Attachments_MessageId",
+                table: "Attachments");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Attachments_UploadedByUserId",
+                table: "Attachments");
+
+            migrationBuilder.DropColumn(
+                name: "ContentType",
+                table: "Attachments");
+
+            migrationBuilder.DropColumn(
+                name: "MessageId",
+                table: "Attachments");
+
+            migrationBuilder.DropColumn(
+                name: "Size",
+                table: "Attachments");
+
+            migrationBuilder.DropColumn(
+                name: "UploadedAt",
+                table: "Attachments");
+
+            migrationBuilder.DropColumn(
+                name: "UploadedByUserId",
+                table: "Attachments");
+
+            migrationBuilder.AlterColumn<string>(
+                name: "FileName",
+                table: "Attachments",
+                type: "TEXT",
+                nullable: false,
+                oldClrType: typeof(string),
+                oldType: "TEXT",
+                oldMaxLength: 255);
+        }
+    }
+}
@@ -0,0 +1,75 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCustomRoles : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<Guid>(
+                name: "CustomRoleId",
+                table: "Users",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "CustomRoles",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    Name = table.Column<string>(type: "TEXT", maxLength: 100, nullable: false),
+                    Description = table.Column<string>(type: "TEXT", maxLength: 500, nullable: true),
+                    BaseRole = table.Column<int>(type: "INTEGER", nullable: false),
+                    Permissions = table.Column<string>(type: "TEXT", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_CustomRoles", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Users_CustomRoleId",
+                table: "Users",
+                column: "CustomRoleId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_CustomRoles_Name",
+                table: "CustomRoles",
+                column: "Name",
+                unique: true);
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Users_CustomRoles_CustomRoleId",
+                table: "Users",
+                column: "CustomRoleId",
+                principalTable: "CustomRoles",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Users_CustomRoles_CustomRoleId",
+                table: "Users");
+
+            migrationBuilder.DropTable(
+                name: "CustomRoles");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Users_CustomRoleId",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "CustomRoleId",
+                table: "Users");
+        }
+    }
+}
@@ -0,0 +1,70 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddImpersonationAudit : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<Guid>(
+                name: "ImpersonatorUserId",
+                table: "TicketMessages",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<Guid>(
+                name: "ImpersonatorUserId",
+                table: "TicketActivities",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "ImpersonationAuditEntries",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    ImpersonationSessionId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    AdminUserId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    UserId = table.Column<Guid>(type: "TEXT", nullable: false),
+                    Method = table.Column<string>(type: "TEXT", maxLength: 10, nullable: false),
+                    Path = table.Column<string>(type: "TEXT", maxLength: 2048, nullable: false),
+                    StatusCode = table.Column<int>(type: "INTEGER", nullable: false),
+                    RequestedAt = table.Column<DateTime>(type: "TEXT", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_ImpersonationAuditEntries", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ImpersonationAuditEntries_AdminUserId_RequestedAt",
+                table: "ImpersonationAuditEntries",
+                columns: new[] { "AdminUserId", "RequestedAt" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ImpersonationAuditEntries_ImpersonationSessionId_RequestedAt",
+                table: "ImpersonationAuditEntries",
+                columns: new[] { "ImpersonationSessionId", "RequestedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "ImpersonationAuditEntries");
+
+            migrationBuilder.DropColumn(
+                name: "ImpersonatorUserId",
+                table: "TicketMessages");
+
+            migrationBuilder.DropColumn(
+                name: "ImpersonatorUserId",
+                table: "TicketActivities");
+        }
+    }
+}
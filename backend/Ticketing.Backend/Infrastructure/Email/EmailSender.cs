@@ -0,0 +1,45 @@
+using System.Net;
+using System.Net.Mail;
+
+namespace Ticketing.Backend.Infrastructure.Email;
+
+public interface IEmailSender
+{
+    Task SendAsync(string to, string subject, string body);
+}
+
+/// <summary>
+/// Plain-text mail over SMTP. Without a host (local development) the message is logged, links
+/// included, so invitations and password resets can still be followed.
+/// </summary>
+public class SmtpEmailSender : IEmailSender
+{
+    private readonly EmailSettings _settings;
+    private readonly ILogger<SmtpEmailSender> _logger;
+
+    public SmtpEmailSender(EmailSettings settings, ILogger<SmtpEmailSender> logger)
+    {
+        _settings = settings;
+        _logger = logger;
+    }
+
+    public async Task SendAsync(string to, string subject, string body)
+    {
+        if (!_settings.Enabled)
+        {
+            _logger.LogWarning("Email is not configured (Email:Host); not sent to {To}: {Subject}\n{Body}", to, subject, body);
+            return;
+        }
+
+        using var message = new MailMessage(_settings.From, to, subject, body);
+        using var client = new SmtpClient(_settings.Host, _settings.Port)
+        {
+            EnableSsl = _settings.EnableSsl
+        };
+        if (!string.IsNullOrEmpty(_settings.UserName))
+        {
+            client.Credentials = new NetworkCredential(_settings.UserName, _settings.Password);
+        }
+        await client.SendMailAsync(message);
+    }
+}
@@ -0,0 +1,16 @@
+namespace Ticketing.Backend.Infrastructure.Email;
+
+public class EmailSettings
+{
+    // SMTP server; while empty, messages are written to the log instead of sent
+    public string Host { get; set; } = string.Empty;
+    public int Port { get; set; } = 587;
+    public bool EnableSsl { get; set; } = true;
+    public string UserName { get; set; } = string.Empty;
+    public string Password { get; set; } = string.Empty;
+    public string From { get; set; } = "helpdesk@localhost";
+    // Where the frontend is served; links in the messages point here
+    public string AppUrl { get; set; } = "http://localhost:3000";
+
+    public bool Enabled => !string.IsNullOrWhiteSpace(Host);
+}
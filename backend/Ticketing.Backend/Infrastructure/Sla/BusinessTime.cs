@@ -0,0 +1,145 @@
+using System.Globalization;
+using Ticketing.Backend.Application.DTOs;
+
+namespace Ticketing.Backend.Infrastructure.Sla;
+
+/// <summary>
+/// Working time of a business calendar: only minutes inside a weekday's working hours count, in the
+/// given timezone, and holidays don't count at all. The same rules drive the countdowns in the
+/// frontend (lib/sla.ts), so both agree on when a clock runs out.
+/// </summary>
+public static class BusinessTime
+{
+    // Give up looking for working time after this many days (a calendar with no working hours)
+    private const int MaxSearchDays = 3 * 366;
+
+    private static readonly PersianCalendar Persian = new();
+
+    /// <summary>
+    /// The timezone with the given IANA id, or UTC when the system doesn't know it
+    /// </summary>
+    public static TimeZoneInfo FindTimeZone(string? id) =>
+        !string.IsNullOrWhiteSpace(id) && TimeZoneInfo.TryFindSystemTimeZoneById(id, out var timeZone)
+            ? timeZone
+            : TimeZoneInfo.Utc;
+
+    /// <summary>
+    /// Whole working minutes between two UTC instants
+    /// </summary>
+    public static int MinutesBetween(DateTime from, DateTime to, BusinessCalendarDto calendar, TimeZoneInfo timeZone)
+    {
+        if (to <= from)
+        {
+            return 0;
+        }
+
+        var total = TimeSpan.Zero;
+        // A day's working hours may start before its UTC midnight, hence the extra day
+        var lastDay = LocalDay(to, timeZone).AddDays(1);
+        for (var day = LocalDay(from, timeZone); day <= lastDay; day = day.AddDays(1))
+        {
+            if (WorkingWindow(day, calendar, timeZone) is not { } window)
+            {
+                continue;
+            }
+
+            var start = window.Start > from ? window.Start : from;
+            var end = window.End < to ? window.End : to;
+            if (end > start)
+            {
+                total += end - start;
+            }
+        }
+
+        return (int)Math.Floor(total.TotalMinutes);
+    }
+
+    /// <summary>
+    /// The UTC instant the given number of working minutes after `from`; null when the calendar has
+    /// no working time
+    /// </summary>
+    public static DateTime? AddMinutes(DateTime from, int minutes, BusinessCalendarDto calendar, TimeZoneInfo timeZone)
+    {
+        var remaining = TimeSpan.FromMinutes(Math.Max(0, minutes));
+        var day = LocalDay(from, timeZone);
+        for (var i = 0; i < MaxSearchDays; i++, day = day.AddDays(1))
+        {
+            if (WorkingWindow(day, calendar, timeZone) is not { } window || window.End <= from)
+            {
+                continue;
+            }
+
+            var start = window.Start > from ? window.Start : from;
+            if (remaining <= window.End - start)
+            {
+                return start + remaining;
+            }
+            remaining -= window.End - start;
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// The working hours of a calendar date as UTC instants, or null when it is closed
+    /// </summary>
+    private static (DateTime Start, DateTime End)? WorkingWindow(DateOnly day, BusinessCalendarDto calendar, TimeZoneInfo timeZone)
+    {
+        var hours = calendar.Hours.ElementAtOrDefault((int)day.DayOfWeek);
+        if (hours == null || IsHoliday(day, calendar))
+        {
+            return null;
+        }
+
+        var start = ParseClock(hours.Start);
+        var end = ParseClock(hours.End);
+        if (end <= start)
+        {
+            return null;
+        }
+
+        return (ToUtc(day, start, timeZone), ToUtc(day, end, timeZone));
+    }
+
+    private static bool IsHoliday(DateOnly day, BusinessCalendarDto calendar)
+    {
+        if (calendar.Holidays.Contains(day.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture)))
+        {
+            return true;
+        }
+
+        if (calendar.RecurringHolidays.Count == 0)
+        {
+            return false;
+        }
+
+        var date = day.ToDateTime(TimeOnly.MinValue);
+        return calendar.RecurringHolidays.Contains($"{Persian.GetMonth(date):00}-{Persian.GetDayOfMonth(date):00}");
+    }
+
+    /// <summary>
+    /// The calendar date of a UTC instant in the timezone
+    /// </summary>
+    private static DateOnly LocalDay(DateTime instant, TimeZoneInfo timeZone) =>
+        DateOnly.FromDateTime(TimeZoneInfo.ConvertTimeFromUtc(DateTime.SpecifyKind(instant, DateTimeKind.Utc), timeZone));
+
+    private static DateTime ToUtc(DateOnly day, int minuteOfDay, TimeZoneInfo timeZone)
+    {
+        var local = day.ToDateTime(TimeOnly.MinValue).AddMinutes(minuteOfDay);
+        // A wall-clock time skipped when the clocks go forward counts from the hour after it
+        if (timeZone.IsInvalidTime(local))
+        {
+            local = local.AddHours(1);
+        }
+        return TimeZoneInfo.ConvertTimeToUtc(local, timeZone);
+    }
+
+    // "HH:mm" as minutes after midnight
+    private static int ParseClock(string value)
+    {
+        var parts = value.Split(':');
+        var hours = parts.Length > 0 && int.TryParse(parts[0], out var h) ? h : 0;
+        var minutes = parts.Length > 1 && int.TryParse(parts[1], out var m) ? m : 0;
+        return hours * 60 + minutes;
+    }
+}
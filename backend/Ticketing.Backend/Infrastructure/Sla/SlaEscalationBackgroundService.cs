@@ -0,0 +1,54 @@
+using Ticketing.Backend.Application.Services;
+
+namespace Ticketing.Backend.Infrastructure.Sla;
+
+/// <summary>
+/// Escalates SLA breaches: every Sla:IntervalSeconds (default 60) it sweeps the open tickets once
+/// through ISlaService. A failed sweep is logged and the next one tries again.
+/// </summary>
+public class SlaEscalationBackgroundService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly SlaEscalationSettings _settings;
+    private readonly ILogger<SlaEscalationBackgroundService> _logger;
+
+    public SlaEscalationBackgroundService(
+        IServiceScopeFactory scopeFactory,
+        SlaEscalationSettings settings,
+        ILogger<SlaEscalationBackgroundService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _settings = settings;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        if (!_settings.Enabled)
+        {
+            _logger.LogInformation("SLA escalation sweep is turned off (Sla:Enabled)");
+            return;
+        }
+
+        using var timer = new PeriodicTimer(TimeSpan.FromSeconds(Math.Max(1, _settings.IntervalSeconds)));
+        do
+        {
+            try
+            {
+                // The services are scoped like a request's, so each sweep gets its own DbContext
+                using var scope = _scopeFactory.CreateScope();
+                var slaService = scope.ServiceProvider.GetRequiredService<ISlaService>();
+                var escalated = await slaService.EscalateBreachesAsync();
+                if (escalated > 0)
+                {
+                    _logger.LogInformation("SLA escalation sweep escalated {Count} tickets", escalated);
+                }
+            }
+            catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+            {
+                _logger.LogError(ex, "SLA escalation sweep failed");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+}
@@ -0,0 +1,8 @@
+namespace Ticketing.Backend.Infrastructure.Sla;
+
+public class SlaEscalationSettings
+{
+    // Turn the sweep off on all but one instance when several share a database
+    public bool Enabled { get; set; } = true;
+    public int IntervalSeconds { get; set; } = 60;
+}
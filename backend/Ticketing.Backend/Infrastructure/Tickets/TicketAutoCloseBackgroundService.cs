@@ -0,0 +1,55 @@
+using Ticketing.Backend.Application.Services;
+
+namespace Ticketing.Backend.Infrastructure.Tickets;
+
+/// <summary>
+/// Closes resolved tickets the client left unanswered: every TicketAutoClose:IntervalMinutes
+/// (default 15) it sweeps them once through ITicketService. How long a ticket may stay resolved is
+/// the workflow's AutoCloseResolvedDays. A failed sweep is logged and the next one tries again.
+/// </summary>
+public class TicketAutoCloseBackgroundService : BackgroundService
+{
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly TicketAutoCloseSettings _settings;
+    private readonly ILogger<TicketAutoCloseBackgroundService> _logger;
+
+    public TicketAutoCloseBackgroundService(
+        IServiceScopeFactory scopeFactory,
+        TicketAutoCloseSettings settings,
+        ILogger<TicketAutoCloseBackgroundService> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _settings = settings;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        if (!_settings.Enabled)
+        {
+            _logger.LogInformation("Auto-close sweep is turned off (TicketAutoClose:Enabled)");
+            return;
+        }
+
+        using var timer = new PeriodicTimer(TimeSpan.FromMinutes(Math.Max(1, _settings.IntervalMinutes)));
+        do
+        {
+            try
+            {
+                // The services are scoped like a request's, so each sweep gets its own DbContext
+                using var scope = _scopeFactory.CreateScope();
+                var ticketService = scope.ServiceProvider.GetRequiredService<ITicketService>();
+                var closed = await ticketService.CloseUnansweredResolvedTicketsAsync();
+                if (closed > 0)
+                {
+                    _logger.LogInformation("Auto-close sweep closed {Count} resolved tickets", closed);
+                }
+            }
+            catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+            {
+                _logger.LogError(ex, "Auto-close sweep failed");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+}
@@ -0,0 +1,8 @@
+namespace Ticketing.Backend.Infrastructure.Tickets;
+
+public class TicketAutoCloseSettings
+{
+    // Turn the sweep off on all but one instance when several share a database
+    public bool Enabled { get; set; } = true;
+    public int IntervalMinutes { get; set; } = 15;
+}
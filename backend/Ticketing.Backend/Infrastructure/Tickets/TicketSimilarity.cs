@@ -0,0 +1,93 @@
+using System.Text;
+using System.Text.RegularExpressions;
+
+namespace Ticketing.Backend.Infrastructure.Tickets;
+
+/// <summary>
+/// Duplicate detection by word overlap. Titles and descriptions are normalized (Arabic letter forms,
+/// zero-width joiners, Persian and Arabic digits), split into words and compared with the Dice
+/// coefficient; the title weighs more because it is where people name the problem.
+/// </summary>
+public static class TicketSimilarity
+{
+    // Suggestions below this score are noise more often than not
+    public const double DefaultMinScore = 0.35;
+
+    public const int DefaultLimit = 3;
+
+    // Most recent tickets sharing a word with the draft that are scored at most
+    public const int CandidateLimit = 200;
+
+    private const double TitleWeight = 0.6;
+
+    // Words that appear in nearly every ticket and say nothing about the problem
+    private static readonly HashSet<string> StopWords = new()
+    {
+        "و", "در", "به", "از", "که", "این", "آن", "با", "را", "برای", "است", "هست", "نیست", "شده", "شد",
+        "می", "نمی", "یک", "تا", "هم", "یا", "من", "ما", "ام", "های", "ها", "کار", "کند", "نمیکند", "مشکل",
+        "the", "a", "an", "is", "not", "to", "of", "and", "in", "on", "my", "it",
+    };
+
+    private static readonly Regex WordSeparators = new(@"[\s.,:;!?()\[\]{}""'`«»\-_/\\|+*=<>@#%&\u060C\u061B\u061F]+");
+
+    private static readonly Regex IgnoredMarks = new(@"[\u064B-\u065F\u0670\u200C\u200F]");
+
+    /// <summary>
+    /// How alike a ticket is to the draft, 0–1
+    /// </summary>
+    public static double Score(ISet<string> draftTitle, ISet<string> draftText, string title, string? description)
+    {
+        var otherTitle = Tokenize(title);
+        var otherText = new HashSet<string>(otherTitle);
+        otherText.UnionWith(Tokenize(description));
+        return TitleWeight * Dice(draftTitle, otherTitle) + (1 - TitleWeight) * Dice(draftText, otherText);
+    }
+
+    /// <summary>
+    /// The words of a text that say something about the problem
+    /// </summary>
+    public static HashSet<string> Tokenize(string? text) =>
+        WordSeparators.Split(Normalize(text ?? string.Empty))
+            .Where(word => word.Length > 1 && !StopWords.Contains(word))
+            .ToHashSet();
+
+    /// <summary>
+    /// How a word may be stored before normalization: as typed, or with the Arabic forms of ی and ک
+    /// that Arabic keyboard layouts produce. Used to find candidates in the database.
+    /// </summary>
+    public static IEnumerable<string> StoredForms(string word)
+    {
+        yield return word;
+        var arabic = word.Replace('\u06CC', '\u064A').Replace('\u06A9', '\u0643');
+        if (arabic != word)
+        {
+            yield return arabic;
+        }
+    }
+
+    private static string Normalize(string text)
+    {
+        var builder = new StringBuilder(text.Length);
+        foreach (var c in IgnoredMarks.Replace(text.ToLowerInvariant(), string.Empty))
+        {
+            builder.Append(c switch
+            {
+                '\u064A' or '\u0649' => '\u06CC',
+                '\u0643' => '\u06A9',
+                >= '\u06F0' and <= '\u06F9' => (char)('0' + (c - '\u06F0')),
+                >= '\u0660' and <= '\u0669' => (char)('0' + (c - '\u0660')),
+                _ => c
+            });
+        }
+        return builder.ToString();
+    }
+
+    private static double Dice(ISet<string> a, ISet<string> b)
+    {
+        if (a.Count == 0 || b.Count == 0)
+        {
+            return 0;
+        }
+        return 2.0 * a.Count(b.Contains) / (a.Count + b.Count);
+    }
+}
@@ -1,15 +1,25 @@
+using System.IdentityModel.Tokens.Jwt;
 using System.Text;
 using System.Text.Json;
 using System.Text.Json.Serialization;
+using System.Net;
 using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.HttpOverrides;
 using Microsoft.AspNetCore.Identity;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.IdentityModel.Tokens;
 using Microsoft.OpenApi.Models;
+using Ticketing.Backend.Api.Hubs;
+using Ticketing.Backend.Api.Swagger;
 using Ticketing.Backend.Application.Services;
 using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Infrastructure.Attachments;
 using Ticketing.Backend.Infrastructure.Auth;
 using Ticketing.Backend.Infrastructure.Data;
+using Ticketing.Backend.Infrastructure.Email;
+using Ticketing.Backend.Infrastructure.Sla;
+using Ticketing.Backend.Infrastructure.Tickets;
 
 var builder = WebApplication.CreateBuilder(args);
 
@@ -28,6 +38,40 @@ if (string.IsNullOrWhiteSpace(jwtSettings.Secret))
 
 builder.Services.AddSingleton(jwtSettings);
 
+// Single sign-on with the organization's OpenID Connect provider (off until Oidc:Authority is set)
+var oidcSettings = new OidcSettings();
+builder.Configuration.GetSection("Oidc").Bind(oidcSettings);
+builder.Services.AddSingleton(oidcSettings);
+builder.Services.AddSingleton<IOidcTokenValidator, OidcTokenValidator>();
+
+// Sign-in throttling, lockout and CAPTCHA thresholds
+var signInSecuritySettings = new SignInSecuritySettings();
+builder.Configuration.GetSection("SignInSecurity").Bind(signInSecuritySettings);
+builder.Services.AddSingleton(signInSecuritySettings);
+
+// Invitations and password resets (logged instead of sent until Email:Host is set)
+var emailSettings = new EmailSettings();
+builder.Configuration.GetSection("Email").Bind(emailSettings);
+builder.Services.AddSingleton(emailSettings);
+builder.Services.AddSingleton<IEmailSender, SmtpEmailSender>();
+
+// =======================
+// Client address
+// =======================
+// Sign-in throttling counts failures per address. Only X-Forwarded-For from a known proxy is read
+// (loopback, where the Next.js cookie-session proxy runs, plus ForwardedHeaders:KnownProxies), and
+// only its last entry, the one that proxy appended.
+builder.Services.Configure<ForwardedHeadersOptions>(options =>
+{
+    options.ForwardedHeaders = ForwardedHeaders.XForwardedFor;
+    options.ForwardLimit = 1;
+    foreach (var proxy in builder.Configuration.GetSection("ForwardedHeaders:KnownProxies").Get<string[]>() ?? Array.Empty<string>())
+    {
+        options.KnownProxies.Add(IPAddress.Parse(proxy));
+    }
+});
+builder.Services.AddHttpContextAccessor();
+
 // =======================
 // DbContext (SQLite) - DETERMINISTIC PATH
 // =======================
@@ -94,6 +138,11 @@ static string ResolveSqliteDbPath(IConfiguration config, string contentRoot)
 builder.Services.AddScoped<IJwtTokenGenerator, JwtTokenGenerator>();
 builder.Services.AddScoped<IPasswordHasher<User>, PasswordHasher<User>>();
 builder.Services.AddScoped<IUserService, UserService>();
+builder.Services.AddScoped<IUserDirectoryService, UserDirectoryService>();
+builder.Services.AddScoped<IRoleService, RoleService>();
+builder.Services.AddScoped<IImpersonationService, ImpersonationService>();
+builder.Services.AddScoped<ISignInSecurityService, SignInSecurityService>();
+builder.Services.AddScoped<ITwoFactorService, TwoFactorService>();
 builder.Services.AddScoped<ICategoryService, CategoryService>();
 builder.Services.AddScoped<INotificationService, NotificationService>();
 builder.Services.AddScoped<ITicketService, TicketService>();
@@ -101,6 +150,48 @@ builder.Services.AddScoped<ISystemSettingsService, SystemSettingsService>();
 builder.Services.AddScoped<IUserPreferencesService, UserPreferencesService>();
 builder.Services.AddScoped<ISmartAssignmentService, SmartAssignmentService>();
 builder.Services.AddScoped<ITechnicianService, TechnicianService>();
+builder.Services.AddScoped<ISlaService, SlaService>();
+builder.Services.AddScoped<ITicketHubNotifier, TicketHubNotifier>();
+builder.Services.AddScoped<IWorkflowService, WorkflowService>();
+builder.Services.AddScoped<ISurveyService, SurveyService>();
+builder.Services.AddScoped<IAttachmentService, AttachmentService>();
+
+// =======================
+// Attachment storage
+// =======================
+var attachmentStorageSettings = new AttachmentStorageSettings();
+builder.Configuration.GetSection("Attachments").Bind(attachmentStorageSettings);
+attachmentStorageSettings.Path = Path.Combine(builder.Environment.ContentRootPath, attachmentStorageSettings.Path);
+Directory.CreateDirectory(attachmentStorageSettings.Path);
+builder.Services.AddSingleton(attachmentStorageSettings);
+builder.Services.AddHostedService<AttachmentUploadCleanupBackgroundService>();
+
+// =======================
+// SLA escalation sweep
+// =======================
+var slaEscalationSettings = new SlaEscalationSettings();
+builder.Configuration.GetSection("Sla").Bind(slaEscalationSettings);
+builder.Services.AddSingleton(slaEscalationSettings);
+builder.Services.AddHostedService<SlaEscalationBackgroundService>();
+
+// =======================
+// Auto-close sweep
+// =======================
+var ticketAutoCloseSettings = new TicketAutoCloseSettings();
+builder.Configuration.GetSection("TicketAutoClose").Bind(ticketAutoCloseSettings);
+builder.Services.AddSingleton(ticketAutoCloseSettings);
+builder.Services.AddHostedService<TicketAutoCloseBackgroundService>();
+
+// =======================
+// SignalR (notification hub)
+// =======================
+// Where the frontend connects by default (NEXT_PUBLIC_SIGNALR_HUB_URL overrides it)
+const string NotificationHubPath = "/notificationHub";
+
+builder.Services.AddSignalR().AddJsonProtocol(options =>
+{
+    options.PayloadSerializerOptions.Converters.Add(new JsonStringEnumConverter());
+});
 
 // =======================
 // Authentication / JWT
@@ -119,13 +210,40 @@ builder.Services.AddAuthentication(options =>
         ValidateLifetime = true,
         ValidateIssuerSigningKey = true,
         ValidIssuer = jwtSettings.Issuer,
-        ValidAudience = jwtSettings.Audience,
+        ValidAudiences = new[] { jwtSettings.Audience, jwtSettings.HubAudience },
         IssuerSigningKey = new SymmetricSecurityKey(
             Encoding.UTF8.GetBytes(jwtSettings.Secret))
     };
+
+    // Browsers can't set headers on WebSocket and server-sent event requests, so the hub's
+    // clients send the token in the query string instead
+    options.Events = new JwtBearerEvents
+    {
+        OnMessageReceived = context =>
+        {
+            var accessToken = context.Request.Query["access_token"];
+            if (!string.IsNullOrEmpty(accessToken) && context.HttpContext.Request.Path.StartsWithSegments(NotificationHubPath))
+            {
+                context.Token = accessToken;
+            }
+            return Task.CompletedTask;
+        },
+        // Hub tokens are only good for the hub; everywhere else they count as no token at all
+        OnTokenValidated = context =>
+        {
+            var audience = context.Principal?.FindFirst(JwtRegisteredClaimNames.Aud)?.Value;
+            if (audience == jwtSettings.HubAudience && !context.HttpContext.Request.Path.StartsWithSegments(NotificationHubPath))
+            {
+                context.Fail("Hub tokens are only accepted by the notification hub");
+            }
+            return Task.CompletedTask;
+        }
+    };
 });
 
 builder.Services.AddAuthorization();
+// [RequirePermission] endpoints: checked against the user's role in the database on each request
+builder.Services.AddScoped<IAuthorizationHandler, PermissionAuthorizationHandler>();
 
 // =======================
 // CORS
@@ -148,7 +266,9 @@ builder.Services.AddCors(options =>
             .WithOrigins(allowedCorsOrigins)
             .AllowAnyHeader()
             .AllowAnyMethod()
-            .AllowCredentials());
+            .AllowCredentials()
+            // Lets the sign-in form read how long a throttled address has to wait
+            .WithExposedHeaders("Retry-After"));
 });
 
 // =======================
@@ -174,6 +294,12 @@ builder.Services.AddSwaggerGen(options =>
         Version = "v1"
     });
 
+    // The frontend generates its API types from this document (frontend/openapi), so keep
+    // nullability accurate: nullable references stay optional, everything else is required
+    options.SupportNonNullableReferenceTypes();
+    options.UseAllOfToExtendReferenceSchemas();
+    options.SchemaFilter<RequireNonNullablePropertiesSchemaFilter>();
+
     options.AddSecurityDefinition("Bearer", new OpenApiSecurityScheme
     {
         Type = SecuritySchemeType.Http,
@@ -216,6 +342,7 @@ using (var scope = app.Services.CreateScope())
 // =======================
 // Middleware pipeline
 // =======================
+app.UseForwardedHeaders();
 app.UseCors("Frontend");
 
 // Always enable Swagger
@@ -227,10 +354,12 @@ app.UseSwaggerUI(c =>
 });
 
 app.UseAuthentication();
+app.UseMiddleware<ImpersonationMiddleware>();
 app.UseAuthorization();
 
 app.MapGet("/api/ping", () => Results.Ok(new { message = "pong" }));
 
 app.MapControllers();
+app.MapHub<NotificationHub>(NotificationHubPath);
 
 app.Run();
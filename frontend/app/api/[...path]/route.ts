@@ -0,0 +1,9 @@
+import type { NextRequest } from "next/server"
+import { isCookieModeEnabled, notFound, proxyToBackend } from "@/lib/session-proxy"
+
+// Cookie session mode only: every backend call goes through here so the token stays server-side
+const handle = (request: NextRequest) => (isCookieModeEnabled() ? proxyToBackend(request) : notFound())
+
+export const dynamic = "force-dynamic"
+
+export { handle as GET, handle as POST, handle as PUT, handle as PATCH, handle as DELETE }
@@ -0,0 +1,9 @@
+import type { NextRequest } from "next/server"
+import { isCookieModeEnabled, issueHubToken, notFound } from "@/lib/session-proxy"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  if (!isCookieModeEnabled()) return notFound()
+  return issueHubToken(request)
+}
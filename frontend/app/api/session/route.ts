@@ -0,0 +1,22 @@
+import type { NextRequest } from "next/server"
+import {
+  csrfRejected,
+  describeSession,
+  endSession,
+  hasValidCsrfToken,
+  isCookieModeEnabled,
+  notFound,
+} from "@/lib/session-proxy"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  if (!isCookieModeEnabled()) return notFound()
+  return describeSession(request)
+}
+
+export async function DELETE(request: NextRequest) {
+  if (!isCookieModeEnabled()) return notFound()
+  if (!hasValidCsrfToken(request)) return csrfRejected()
+  return endSession(request)
+}
@@ -3,6 +3,7 @@ import type { Metadata } from "next"
 import { Inter } from "next/font/google"
 import localFont from "next/font/local"
 import "./globals.css"
+import { SessionTimeoutDialog } from "@/components/session-timeout-dialog"
 import { ThemeProvider } from "@/components/theme-provider"
 import { AuthProvider } from "@/lib/auth-context"
 import { PreferencesProvider } from "@/lib/preferences-context"
@@ -36,6 +37,7 @@ export default function RootLayout({
             <PreferencesProvider>
               <CategoryProvider initial={initialCategoriesData}>{children}</CategoryProvider>
             </PreferencesProvider>
+            <SessionTimeoutDialog />
           </AuthProvider>
         </ThemeProvider>
       </body>
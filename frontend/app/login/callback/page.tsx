@@ -0,0 +1,77 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useAuth } from "@/lib/auth-context"
+import { completeOidcLogin, OidcError } from "@/lib/oidc"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { TwoFactorLoginStep, type TwoFactorStep } from "@/components/two-factor-login-step"
+import { Button } from "@/components/ui/button"
+
+/**
+ * Where the identity provider sends the browser back after single sign-on
+ */
+export default function OidcCallbackPage() {
+  const router = useRouter()
+  const { loginWithOidc } = useAuth()
+  const [error, setError] = useState<string | null>(null)
+  const [twoFactorStep, setTwoFactorStep] = useState<TwoFactorStep | null>(null)
+  const [returnTo, setReturnTo] = useState("/")
+  // The pending sign-in is consumed on first use; a second effect run would see a state mismatch
+  const handledRef = useRef(false)
+
+  useEffect(() => {
+    if (handledRef.current) return
+    handledRef.current = true
+
+    const finish = async () => {
+      try {
+        const callback = await completeOidcLogin(new URLSearchParams(window.location.search))
+        setReturnTo(callback.returnTo)
+        const result = await loginWithOidc(callback)
+        if (result.status === "signed-in") {
+          router.replace(callback.returnTo)
+        } else if (result.status === "two-factor-required" || result.status === "enrollment-required") {
+          setTwoFactorStep(result)
+        } else if (result.status === "disabled") {
+          setError("This account has been deactivated. Ask an administrator to reactivate it.")
+        } else {
+          setError("Your account could not be signed in. Ask an administrator to check your access.")
+        }
+      } catch (err) {
+        console.error("Single sign-on failed:", err)
+        setError(err instanceof OidcError ? err.message : getApiErrorMessage(err))
+      }
+    }
+    void finish()
+  }, [loginWithOidc, router])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background text-foreground p-6">
+      <div className="w-full max-w-md space-y-4 text-center">
+        {twoFactorStep ? (
+          <TwoFactorLoginStep
+            step={twoFactorStep}
+            onSignedIn={() => router.replace(returnTo)}
+            onCancel={() => router.replace("/login")}
+          />
+        ) : error ? (
+          <>
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+            <Button asChild variant="outline">
+              <Link href="/login">Back to sign in</Link>
+            </Button>
+          </>
+        ) : (
+          <div className="space-y-2">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-foreground/40 mx-auto" />
+            <p className="text-sm text-muted-foreground">Signing you in...</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,11 @@
 import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useAuth } from "@/lib/auth-context"
+import { sanitizeReturnTo } from "@/lib/route-access"
+import { useLoginAttempts } from "@/hooks/use-login-attempts"
+import { CaptchaChallenge } from "@/components/captcha-challenge"
+import { SsoLoginButton } from "@/components/sso-login-button"
+import { TwoFactorLoginStep, type TwoFactorStep } from "@/components/two-factor-login-step"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -16,23 +21,40 @@ export default function LoginPage() {
   const [submitting, setSubmitting] = useState(false)
   const [showPassword, setShowPassword] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [twoFactorStep, setTwoFactorStep] = useState<TwoFactorStep | null>(null)
+  const attempts = useLoginAttempts()
+  // The deep link middleware.ts sent the visitor here from
+  const [returnTo, setReturnTo] = useState("/")
+
+  useEffect(() => {
+    setReturnTo(sanitizeReturnTo(new URLSearchParams(window.location.search).get("returnTo")))
+  }, [])
 
   useEffect(() => {
     if (user) {
-      router.replace("/")
+      router.replace(returnTo)
     }
-  }, [user, router])
+  }, [user, router, returnTo])
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setSubmitting(true)
     setError(null)
     try {
-      const ok = await login(email.trim(), password)
-      if (ok) {
-        router.replace("/")
-      } else {
-        setError("Invalid username or password. Please check your credentials and ensure the backend server is running.")
+      const result = await login(email.trim(), password, attempts.captchaSolution)
+      attempts.record(result)
+      if (result.status === "signed-in") {
+        router.replace(returnTo)
+      } else if (result.status === "two-factor-required" || result.status === "enrollment-required") {
+        setTwoFactorStep(result)
+      } else if (result.status === "disabled") {
+        setError("This account has been deactivated. Ask an administrator to reactivate it.")
+      } else if (result.status === "failed" || (result.status === "captcha-required" && !result.invalidCaptcha)) {
+        setError(
+          result.remainingAttempts !== null
+            ? `Invalid username or password. ${result.remainingAttempts} attempt(s) left before the account is locked.`
+            : "Invalid username or password. Please check your credentials and ensure the backend server is running."
+        )
       }
     } catch (err: any) {
       console.error("Login error:", err)
@@ -69,79 +91,123 @@ export default function LoginPage() {
             </h1>
           </div>
 
-          <form onSubmit={onSubmit} className="space-y-5">
-            <div className="space-y-2">
-              <Label htmlFor="username" className="text-sm text-muted-foreground">
-                Username
-              </Label>
-              <Input
-                id="username"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="your.email@company.com"
-                className="bg-background border-input focus:border-primary text-foreground placeholder:text-muted-foreground"
-                autoComplete="username"
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-sm text-muted-foreground">
-                Password
-              </Label>
-              <div className="relative">
+          {twoFactorStep ? (
+            <TwoFactorLoginStep
+              step={twoFactorStep}
+              onSignedIn={() => router.replace(returnTo)}
+              onCancel={() => {
+                setTwoFactorStep(null)
+                setPassword("")
+              }}
+            />
+          ) : (
+            <form onSubmit={onSubmit} className="space-y-5">
+              <div className="space-y-2">
+                <Label htmlFor="username" className="text-sm text-muted-foreground">
+                  Username
+                </Label>
                 <Input
-                  id="password"
-                  type={showPassword ? "text" : "password"}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  placeholder="******"
-                  className="bg-background border-input focus:border-primary text-foreground placeholder:text-muted-foreground pr-10"
-                  autoComplete="current-password"
+                  id="username"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="your.email@company.com"
+                  className="bg-background border-input focus:border-primary text-foreground placeholder:text-muted-foreground"
+                  autoComplete="username"
                   required
                 />
-                <button
-                  type="button"
-                  className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                  onClick={() => setShowPassword((v) => !v)}
-                  aria-label={showPassword ? "Hide password" : "Show password"}
-                >
-                  {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                </button>
               </div>
-            </div>
 
-            {error && (
-              <p className="text-sm text-destructive" role="alert">
-                {error}
-              </p>
-            )}
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-sm text-muted-foreground">
+                  Password
+                </Label>
+                <div className="relative">
+                  <Input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="******"
+                    className="bg-background border-input focus:border-primary text-foreground placeholder:text-muted-foreground pr-10"
+                    autoComplete="current-password"
+                    required
+                  />
+                  <button
+                    type="button"
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    onClick={() => setShowPassword((v) => !v)}
+                    aria-label={showPassword ? "Hide password" : "Show password"}
+                  >
+                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+
+              {attempts.captcha && (
+                <CaptchaChallenge
+                  challenge={attempts.captcha}
+                  answer={attempts.captchaAnswer}
+                  onAnswerChange={attempts.setCaptchaAnswer}
+                  onRefresh={attempts.refreshCaptcha}
+                  invalid={attempts.invalidCaptcha}
+                  labels={{
+                    prompt: "Type the characters shown",
+                    refresh: "Show a different image",
+                    invalid: "Those characters didn't match. Try this one.",
+                  }}
+                />
+              )}
 
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={submitting || isLoading}
-            >
-              {submitting || isLoading ? (
-                <span className="inline-flex items-center gap-2">
-                  <span className="h-4 w-4 animate-spin rounded-full border-2 border-foreground/40 border-t-foreground" />
-                  Signing in...
-                </span>
+              {attempts.locked ? (
+                <p className="text-sm text-destructive" role="alert">
+                  {attempts.lockedUntil
+                    ? `This account is locked after too many failed attempts. Try again after ${new Date(attempts.lockedUntil).toLocaleTimeString()}.`
+                    : "This account is locked after too many failed attempts. Ask an administrator to unlock it."}
+                </p>
+              ) : attempts.retryIn > 0 ? (
+                <p className="text-sm text-destructive" role="alert">
+                  Too many sign-in attempts. Try again in {attempts.retryIn} s.
+                </p>
               ) : (
-                <span className="inline-flex items-center gap-2">
-                  <LogIn className="w-4 h-4" />
-                  Sign In
-                </span>
+                error && (
+                  <p className="text-sm text-destructive" role="alert">
+                    {error}
+                  </p>
+                )
               )}
-            </Button>
 
-            {/* Demo credentials for local testing */}
-            <div className="text-xs text-muted-foreground mt-2 space-y-1">
-              <p>Client: client1@test.com / Client123!</p>
-              <p>Technician: tech1@test.com / Tech123!</p>
-              <p>Admin: admin@test.com / Admin123!</p>
-            </div>
-          </form>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={submitting || isLoading || attempts.blocked}
+              >
+                {submitting || isLoading ? (
+                  <span className="inline-flex items-center gap-2">
+                    <span className="h-4 w-4 animate-spin rounded-full border-2 border-foreground/40 border-t-foreground" />
+                    Signing in...
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center gap-2">
+                    <LogIn className="w-4 h-4" />
+                    Sign In
+                  </span>
+                )}
+              </Button>
+
+              <SsoLoginButton
+                className="w-full gap-2"
+                label={(name) => `Sign in with ${name}`}
+                returnTo={returnTo}
+              />
+
+              {/* Demo credentials for local testing */}
+              <div className="text-xs text-muted-foreground mt-2 space-y-1">
+                <p>Client: client1@test.com / Client123!</p>
+                <p>Technician: tech1@test.com / Tech123!</p>
+                <p>Admin: admin@test.com / Admin123!</p>
+              </div>
+            </form>
+          )}
         </div>
       </div>
     </div>
@@ -1,427 +1,89 @@
 ﻿"use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import {
   FolderTree,
   LayoutDashboard,
   ListChecks,
   Settings2,
+  ShieldCheck,
+  Timer,
+  Workflow,
+  Smile,
+  Users,
   Ticket as TicketIcon,
   UserPlus,
 } from "lucide-react";
 
 import { apiRequest } from "@/lib/api-client";
-import type {
-  ApiCategoryResponse,
-  ApiTicketMessageDto,
-  ApiTicketResponse,
-  ApiUserDto,
-} from "@/lib/api-types";
-import {
-  mapApiMessageToResponse,
-  mapApiTicketToUi,
-  mapUiPriorityToApi,
-  mapUiStatusToApi,
-} from "@/lib/ticket-mappers";
-import {
-  buildTechnicianProfile,
-  type TechnicianProfile,
-} from "@/data/technician-profiles";
+import type { ApiCategoryResponse } from "@/lib/api-types";
+import { useOfflineSync, useSyncStatus } from "@/hooks/use-offline-sync";
+import { useLiveTicketUpdates } from "@/hooks/use-signalr";
+import { useTicketSummary } from "@/hooks/use-ticket-query";
+import { useCan } from "@/hooks/use-permissions";
 import { ClientDashboard } from "@/components/client-dashboard";
 import { TechnicianDashboard } from "@/components/technician-dashboard";
-import { AdminDashboard } from "@/components/admin-dashboard";
+import { AdminDashboard, type AdminSection } from "@/components/admin-dashboard";
 import {
   DashboardShell,
   type DashboardNavItem,
 } from "@/components/dashboard-shell";
 import { useAuth } from "@/lib/auth-context";
+import { loginPath } from "@/lib/route-access";
 import { useCategories } from "@/services/useCategories";
-import { categoryService } from "@/services/CategoryService";
 import type { CategoriesData } from "@/services/categories-types";
-import type { Ticket, TicketStatus } from "@/types";
 import { toast } from "@/hooks/use-toast";
 
 export default function Home() {
   const { user, token, isLoading } = useAuth();
   const router = useRouter();
+  const can = useCan();
 
-  const [tickets, setTickets] = useState<Ticket[]>([]);
-  const [technicians, setTechnicians] = useState<TechnicianProfile[]>([]);
+  // Badge counts come from the server; the tickets themselves load page by page in each view
+  const { count: ownCount, error: ownError } = useTicketSummary(
+    { createdBy: user?.id },
+    { enabled: !!user && can("tickets.viewOwn") }
+  );
+  const { count: assignedCount, error: assignedError } = useTicketSummary(
+    {},
+    { scope: "technician", enabled: !!user && can("tickets.viewAssigned") }
+  );
+  const { count: allCount, error: allError } = useTicketSummary(
+    {},
+    { enabled: !!user && (can("tickets.viewAll") || can("tickets.assign")) }
+  );
+  const ticketsError = ownError ?? assignedError ?? allError;
+  useLiveTicketUpdates();
+  useOfflineSync();
+  const { online } = useSyncStatus();
   const { categories: categoriesData, save: saveCategories } = useCategories();
-  const categoriesRef = useRef<CategoriesData>(categoriesData);
   const [activeView, setActiveView] = useState<string>("");
 
-  const getDefaultViewForRole = (role: "client" | "engineer" | "admin") => {
-    switch (role) {
-      case "admin":
-        return "admin.tickets";
-      case "engineer":
-        return "engineer.assigned";
-      default:
-        return "client.tickets";
-    }
-  };
-
-  const categoriesReady = useMemo(
-    () =>
-      Object.values(categoriesData).some(
-        (cat) => typeof cat.backendId !== "undefined"
-      ),
-    [categoriesData]
-  );
-
-  useEffect(() => {
-    categoriesRef.current = categoriesData;
-  }, [categoriesData]);
-
-  const loadTickets = async (
-    authToken: string,
-    categorySnapshot: CategoriesData,
-    userRole?: string
-  ): Promise<Ticket[]> => {
-    try {
-      // Use technician-specific endpoint for engineers
-      const endpoint = userRole === "engineer" ? "/api/technician/tickets" : "/api/tickets";
-      const apiTickets = await apiRequest<ApiTicketResponse[]>(endpoint, {
-        token: authToken,
-      });
-
-      const mapped = await Promise.all(
-        apiTickets.map(async (apiTicket) => {
-          const messages = await apiRequest<ApiTicketMessageDto[]>(
-            `/api/tickets/${apiTicket.id}/messages`,
-            {
-              token: authToken,
-            }
-          );
-
-          return mapApiTicketToUi(
-            apiTicket,
-            categorySnapshot,
-            messages.map(mapApiMessageToResponse)
-          );
-        })
-      );
-
-      setTickets(mapped);
-      return mapped;
-    } catch (error) {
-      console.error("Failed to load tickets", error);
-      toast({
-        title: "بارگذاری تیکت‌ها ناموفق بود",
-        description: "اتصال یا سرور بررسی شود.",
-        variant: "destructive",
-      });
-      setTickets([]);
-      return [];
-    }
-  };
-
-  const loadTechnicians = async (authToken: string, currentTickets: Ticket[] = tickets) => {
-    try {
-      const { getAllTechnicians } = await import("@/lib/technicians-api");
-      const apiTechnicians = await getAllTechnicians(authToken);
-      
-      // Calculate active tickets for each technician
-      const techniciansWithLoad = apiTechnicians
-        .filter((tech) => tech.isActive) // Only show active technicians
-        .map((tech) => {
-          // Count active tickets assigned to this technician
-          const activeTicketsCount = currentTickets.filter(
-            (ticket) => ticket.assignedTo === tech.id && 
-                       (ticket.status === "open" || ticket.status === "in-progress")
-          ).length;
-          
-          return {
-            id: tech.id,
-            name: tech.fullName,
-            email: tech.email,
-            phone: tech.phone || "",
-            department: tech.department || "",
-            status: activeTicketsCount >= 5 ? ("busy" as const) : ("available" as const),
-            specialties: [],
-            rating: 5,
-            activeTickets: activeTicketsCount,
-          };
-        });
-      
-      setTechnicians(techniciansWithLoad);
-    } catch (error) {
-      console.error("Failed to load technicians", error);
-      toast({
-        title: "خطا در بارگذاری تکنسین‌ها",
-        description: "لطفاً صفحه را رفرش کنید",
-        variant: "destructive",
-      });
-      setTechnicians([]);
-    }
-  };
-
-  // Redirect unauthenticated users to the login page
+  // middleware.ts redirects first; this covers a session that turns out to be gone
   useEffect(() => {
     if (!isLoading && !user) {
-      router.replace("/login");
+      router.replace(loginPath(`${window.location.pathname}${window.location.search}`));
     }
   }, [isLoading, user, router]);
 
   useEffect(() => {
-    if (!token || !user) {
-      setTickets([]);
-      setTechnicians([]);
-      return;
-    }
-
-    // Load tickets first, then technicians (technicians need tickets to calculate load)
-    const loadData = async () => {
-      const loadedTickets = await loadTickets(token, categoriesReady ? categoriesRef.current : {}, user?.role);
-      
-      if (user.role === "admin") {
-        await loadTechnicians(token, loadedTickets);
-      } else {
-        setTechnicians([]);
-      }
-    };
-    
-    void loadData();
-  }, [token, user, categoriesReady]);
-
-  // -------- Ticket handlers (single definitions) --------
-
-  const ensureBackendCategories = async () => {
-    // If we already have backend ids, skip.
-    if (
-      Object.values(categoriesRef.current).some(
-        (cat) => typeof cat.backendId !== "undefined"
-      )
-    ) {
-      return categoriesRef.current;
-    }
-
-    try {
-      const fresh = await categoryService.list();
-      categoriesRef.current = fresh;
-      await saveCategories(fresh);
-      return fresh;
-    } catch (error) {
-      console.error("Failed to hydrate categories from backend", error);
-      return categoriesRef.current;
-    }
-  };
-
-  const handleTicketCreate = async (draft: Ticket) => {
-    if (!token) return;
-
-    const catMap =
-      Object.values(categoriesRef.current).some(
-        (cat) => typeof cat.backendId !== "undefined"
-      )
-        ? categoriesRef.current
-        : await ensureBackendCategories();
-
-    const category = catMap[draft.category];
-    if (!category || typeof category.backendId === "undefined") {
-      console.warn("Missing category mapping for", draft.category, category);
-      toast({
-        title: "دسته‌بندی نامعتبر است",
-        description:
-          "دسته‌بندی‌ها هنوز از سرور بارگذاری نشده‌اند. چند لحظه بعد دوباره تلاش کنید.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      const created = await apiRequest<ApiTicketResponse>("/api/tickets", {
-        method: "POST",
-        token,
-        body: {
-          title: draft.title,
-          description: draft.description,
-          categoryId: category.backendId,
-          subcategoryId: draft.subcategory
-            ? category.subIssues[draft.subcategory]?.backendId
-            : undefined,
-          priority: mapUiPriorityToApi(draft.priority),
-        },
-      });
-
-      const ticket = mapApiTicketToUi(created, categoriesRef.current, []);
-      setTickets((prev) => [ticket, ...prev]);
-      await refreshTickets();
-    } catch (error) {
-      console.error("Failed to create ticket", error);
-      toast({
-        title: "ثبت تیکت ناموفق بود",
-          description: "لطفا اتصال و داده‌ها را بررسی کنید.",
-          variant: "destructive",
-        });
-    }
-  };
-
-  const refreshTickets = async () => {
-    if (!token || !user) return;
-    await loadTickets(token, categoriesRef.current, user?.role);
-  };
-
-  const handleTicketUpdate = async (
-    ticketId: string,
-    updates: Partial<Ticket>
-  ) => {
-    if (!token) {
-      toast({
-        title: "خطا",
-        description: "لطفاً ابتدا وارد سیستم شوید",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    const payload: Record<string, unknown> = {};
-
-    if (updates.status) {
-      payload.status = mapUiStatusToApi(updates.status);
-    }
-    if (updates.priority) {
-      payload.priority = mapUiPriorityToApi(updates.priority);
-    }
-    
-    // Handle technician assignment separately
-    if (typeof updates.assignedTo !== "undefined" && updates.assignedTo) {
-      // Use the new assign-technician endpoint
-      try {
-        const { assignTechnicianToTicket } = await import("@/lib/technicians-api");
-        const updatedTicket = await assignTechnicianToTicket(token, ticketId, updates.assignedTo);
-        
-        // Refresh tickets list to get latest data
-        const refreshedTickets = await loadTickets(token, categoriesRef.current, user?.role);
-        
-        // Also refresh technicians to update their active ticket counts
-        if (user?.role === "admin") {
-          await loadTechnicians(token, refreshedTickets);
-        }
-
-        toast({
-          title: "تکنسین تعیین شد",
-          description: `تیکت ${ticketId} با موفقیت به تکنسین واگذار شد`,
-        });
-        return;
-      } catch (error: any) {
-        console.error("Failed to assign technician", error);
-        const errorMessage = error?.body?.message || error?.message || "لطفا مجددا تلاش کنید.";
-        toast({
-          title: "تعیین تکنسین ناموفق بود",
-          description: errorMessage,
-          variant: "destructive",
-        });
-        return;
-      }
-    }
-
-    if (typeof updates.assignedTo !== "undefined" && !updates.assignedTo) {
-      // Unassign technician
-      payload.assignedToUserId = null;
-    }
-
-    if (Object.keys(payload).length === 0) {
-      return;
-    }
-
-    try {
-      const updatedTicket = await apiRequest<ApiTicketResponse>(
-        `/api/tickets/${ticketId}`,
-        {
-          method: "PATCH",
-          token,
-          body: payload,
-        }
-      );
-
-      // Refresh tickets list to get latest data
-      await refreshTickets();
-      
-      toast({
-        title: "تیکت به‌روزرسانی شد",
-        description: "تغییرات با موفقیت اعمال شد",
-      });
-    } catch (error: any) {
-      console.error("Failed to update ticket", error);
-      const errorMessage = error?.body?.message || error?.message || "لطفا مجددا تلاش کنید.";
-      toast({
-        title: "به‌روزرسانی تیکت ناموفق بود",
-        description: errorMessage,
-        variant: "destructive",
-      });
-    }
-  };
-
-  const handleTicketResponse = async (
-    ticketId: string,
-    message: string,
-    status: TicketStatus
-  ) => {
-    if (!token) return;
-
-    try {
-      await apiRequest<ApiTicketMessageDto>(
-        `/api/tickets/${ticketId}/messages`,
-        {
-          method: "POST",
-          token,
-          body: {
-            message,
-            status: mapUiStatusToApi(status),
-          },
-        }
-      );
-
-      const [ticketDetails, messages] = await Promise.all([
-        apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}`, { token }),
-        apiRequest<ApiTicketMessageDto[]>(`/api/tickets/${ticketId}/messages`, {
-          token,
-        }),
-      ]);
-
-      const mapped = mapApiTicketToUi(
-        ticketDetails,
-        categoriesRef.current,
-        messages.map(mapApiMessageToResponse)
-      );
-      setTickets((prev) =>
-        prev.map((ticket) => (ticket.id === ticketId ? mapped : ticket))
-      );
-      await refreshTickets();
-    } catch (error) {
-      console.error("Failed to add response", error);
-      toast({
-        title: "ثبت پاسخ ناموفق بود",
-        description: "لطفا مجددا تلاش کنید.",
-        variant: "destructive",
-      });
-    }
-  };
+    // Offline, the header's sync indicator already says so and the mirrored tickets are shown
+    if (!ticketsError || !online) return;
+    toast({
+      title: "بارگذاری تیکت‌ها ناموفق بود",
+      description: "اتصال یا سرور بررسی شود.",
+      variant: "destructive",
+    });
+  }, [ticketsError, online]);
 
   // -------- Active view handling --------
 
-  useEffect(() => {
-    if (!user) {
-      setActiveView("");
-      return;
-    }
-
-    setActiveView((current) => {
-      if (current && current.startsWith(user.role)) {
-        return current;
-      }
-      return getDefaultViewForRole(user.role);
-    });
-  }, [user]);
-
   const handleCategoryUpdate = async (updatedCategories: CategoriesData) => {
     let nextCategories: CategoriesData = { ...updatedCategories };
 
     // If admin creates a new category (no backendId), sync it to the backend so tickets can use it
-    if (token && user?.role === "admin") {
+    if (token && can("categories.manage")) {
       for (const [key, category] of Object.entries(updatedCategories)) {
         if (typeof category.backendId === "undefined") {
           try {
@@ -453,15 +115,12 @@ export default function Home() {
       return [];
     }
 
-    if (user.role === "client") {
-      const userTickets = tickets.filter(
-        (ticket) => ticket.clientEmail === user.email
-      );
-      const newTicketCount = userTickets.filter(
-        (ticket) => ticket.status === "open"
-      ).length;
+    const items: DashboardNavItem[] = [];
+
+    if (can("tickets.viewOwn")) {
+      const newTicketCount = ownCount("open");
 
-      return [
+      items.push(
         {
           id: "client-overview",
           title: "داشبورد",
@@ -477,31 +136,28 @@ export default function Home() {
               id: "client-tickets-list",
               title: "همه درخواست‌ها",
               target: "client.tickets",
-              badge: userTickets.length,
-            },
-            {
-              id: "client-tickets-create",
-              title: "ثبت درخواست جدید",
-              target: "client.create",
-              badge: newTicketCount > 0 ? "+" : undefined,
+              badge: ownCount(),
             },
+            ...(can("tickets.create")
+              ? [
+                  {
+                    id: "client-tickets-create",
+                    title: "ثبت درخواست جدید",
+                    target: "client.create",
+                    badge: newTicketCount > 0 ? "+" : undefined,
+                  },
+                ]
+              : []),
           ],
-        },
-      ];
+        }
+      );
     }
 
-    if (user.role === "engineer") {
-      const technicianTickets = tickets.filter(
-        (ticket) => ticket.assignedTechnicianEmail === user.email
-      );
-      const inProgressCount = technicianTickets.filter(
-        (ticket) => ticket.status === "in-progress"
-      ).length;
-      const closedCount = technicianTickets.filter(
-        (ticket) => ticket.status === "resolved" || ticket.status === "closed"
-      ).length;
-
-      return [
+    if (can("tickets.viewAssigned")) {
+      const inProgressCount = assignedCount("in-progress", "waiting-for-client");
+      const closedCount = assignedCount("resolved", "closed");
+
+      items.push(
         {
           id: "engineer-overview",
           title: "داشبورد پشتیبان",
@@ -517,7 +173,7 @@ export default function Home() {
               id: "engineer-assigned",
               title: "تیکت‌های من",
               target: "engineer.assigned",
-              badge: technicianTickets.length,
+              badge: assignedCount(),
             },
             {
               id: "engineer-progress",
@@ -532,41 +188,55 @@ export default function Home() {
               badge: closedCount,
             },
           ],
-        },
-      ];
+        }
+      );
     }
 
-    const openTicketsCount = tickets.filter(
-      (ticket) => ticket.status === "open"
-    ).length;
+    const openTicketsCount = allCount("open");
 
-    return [
-      {
+    if (can("tickets.viewAll")) {
+      items.push({
         id: "admin-overview",
         title: "داشبورد مدیر",
         icon: LayoutDashboard,
         target: "admin.tickets",
-      },
-      {
+      });
+    }
+
+    const adminTicketChildren = [
+      ...(can("tickets.viewAll")
+        ? [
+            {
+              id: "admin-tickets-all",
+              title: "همه تیکت‌ها",
+              target: "admin.tickets",
+              badge: allCount(),
+            },
+          ]
+        : []),
+      ...(can("tickets.assign")
+        ? [
+            {
+              id: "admin-assignment",
+              title: "تخصیص تیکت‌ها",
+              target: "admin.assignment",
+              badge: openTicketsCount,
+            },
+          ]
+        : []),
+    ];
+
+    if (adminTicketChildren.length > 0) {
+      items.push({
         id: "admin-tickets",
         title: "مدیریت تیکت‌ها",
         icon: TicketIcon,
-        children: [
-          {
-            id: "admin-tickets-all",
-            title: "همه تیکت‌ها",
-            target: "admin.tickets",
-            badge: tickets.length,
-          },
-          {
-            id: "admin-assignment",
-            title: "تخصیص تیکت‌ها",
-            target: "admin.assignment",
-            badge: openTicketsCount,
-          },
-        ],
-      },
-      {
+        children: adminTicketChildren,
+      });
+    }
+
+    if (can("categories.manage")) {
+      items.push({
         id: "admin-categories",
         title: "مدیریت دسته‌بندی‌ها",
         icon: FolderTree,
@@ -578,15 +248,82 @@ export default function Home() {
             badge: Object.keys(categoriesData).length,
           },
         ],
-      },
-      {
+      });
+    }
+
+    if (can("automation.manage")) {
+      items.push({
         id: "admin-automation",
         title: "تنظیمات خودکار",
         icon: Settings2,
         target: "admin.auto-settings",
-      },
-    ];
-  }, [user, tickets, categoriesData]);
+      });
+    }
+
+    if (can("sla.manage")) {
+      items.push({
+        id: "admin-sla",
+        title: "SLA و ساعات کاری",
+        icon: Timer,
+        target: "admin.sla",
+      });
+    }
+
+    if (can("workflow.manage")) {
+      items.push({
+        id: "admin-workflow",
+        title: "گردش کار تیکت‌ها",
+        icon: Workflow,
+        target: "admin.workflow",
+      });
+    }
+
+    if (can("reports.view")) {
+      items.push({
+        id: "admin-csat",
+        title: "رضایت مشتریان",
+        icon: Smile,
+        target: "admin.csat",
+      });
+    }
+
+    if (can("users.manage")) {
+      items.push({
+        id: "admin-users",
+        title: "مدیریت کاربران",
+        icon: Users,
+        target: "admin.users",
+      });
+    }
+
+    if (can("roles.manage")) {
+      items.push({
+        id: "admin-roles",
+        title: "نقش‌ها و دسترسی‌ها",
+        icon: ShieldCheck,
+        target: "admin.roles",
+      });
+    }
+
+    return items;
+  }, [user, ownCount, assignedCount, allCount, categoriesData, can]);
+
+  // Views the user's permissions open; the first one is where they land
+  const allowedViews = useMemo(
+    () =>
+      navItems.flatMap((item) => [
+        ...(item.target ? [item.target] : []),
+        ...(item.children ?? []).map((child) => child.target),
+      ]),
+    [navItems]
+  );
+  const defaultView = allowedViews[0] ?? "";
+
+  useEffect(() => {
+    setActiveView((current) =>
+      current && allowedViews.includes(current) ? current : defaultView
+    );
+  }, [allowedViews, defaultView]);
 
   // -------- Loading & unauthenticated states --------
 
@@ -613,17 +350,15 @@ export default function Home() {
   }
 // -------- Main dashboard content --------
 
-  const resolvedActiveView = activeView || getDefaultViewForRole(user.role);
+  const resolvedActiveView = activeView || defaultView;
 
   const dashboardContent = (() => {
-    if (user.role === "client") {
+    if (resolvedActiveView.startsWith("client.")) {
       const clientSection: "tickets" | "create" =
         resolvedActiveView === "client.create" ? "create" : "tickets";
 
       return (
         <ClientDashboard
-          tickets={tickets}
-          onTicketCreate={handleTicketCreate}
           currentUser={user}
           categoriesData={categoriesData}
           activeSection={clientSection}
@@ -631,7 +366,7 @@ export default function Home() {
       );
     }
 
-    if (user.role === "engineer") {
+    if (resolvedActiveView.startsWith("engineer.")) {
       const engineerSection: "assigned" | "in-progress" | "history" =
         resolvedActiveView === "engineer.in-progress"
           ? "in-progress"
@@ -646,39 +381,8 @@ export default function Home() {
         setActiveView((prev) => (prev === next ? prev : next));
       };
 
-      // Load technician-specific tickets
-      const loadTechnicianTickets = async () => {
-        if (!token || user.role !== "engineer") return;
-        try {
-          const apiTickets = await apiRequest<ApiTicketResponse[]>("/api/technician/tickets", {
-            token,
-          });
-
-          const mapped = await Promise.all(
-            apiTickets.map(async (apiTicket) => {
-              const messages = await apiRequest<ApiTicketMessageDto[]>(
-                `/api/tickets/${apiTicket.id}/messages`,
-                { token }
-              );
-              return mapApiTicketToUi(apiTicket, categoriesRef.current, messages.map(mapApiMessageToResponse));
-            })
-          );
-          setTickets(mapped);
-        } catch (error) {
-          console.error("Failed to load technician tickets", error);
-        }
-      };
-
-      // Load technician tickets when engineer logs in
-      if (token && user.role === "engineer") {
-        loadTechnicianTickets();
-      }
-
       return (
         <TechnicianDashboard
-          tickets={tickets}
-          onTicketUpdate={handleTicketUpdate}
-          onTicketRespond={handleTicketResponse}
           currentUser={user}
           activeSection={engineerSection}
           onSectionChange={handleTechnicianSectionChange}
@@ -686,24 +390,14 @@ export default function Home() {
       );
     }
 
-    const adminSection:
-      | "tickets"
-      | "assignment"
-      | "categories"
-      | "auto-settings" =
-      resolvedActiveView === "admin.assignment"
-        ? "assignment"
-        : resolvedActiveView === "admin.categories"
-        ? "categories"
-        : resolvedActiveView === "admin.auto-settings"
-        ? "auto-settings"
-        : "tickets";
+    if (!resolvedActiveView.startsWith("admin.")) {
+      return null;
+    }
+
+    const adminSection = resolvedActiveView.slice("admin.".length) as AdminSection;
 
     return (
       <AdminDashboard
-        tickets={tickets}
-        onTicketUpdate={handleTicketUpdate}
-        technicians={technicians}
         categoriesData={categoriesData}
         onCategoryUpdate={handleCategoryUpdate}
         activeSection={adminSection}
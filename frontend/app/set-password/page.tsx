@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { usePublicSettings } from "@/hooks/use-system-settings"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { getPasswordPolicyError, passwordPolicyFromSettings } from "@/lib/password-policy"
+import { setupPassword } from "@/lib/users-api"
+import { PasswordStrengthMeter } from "@/components/password-strength-meter"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+/**
+ * Where invitation and password reset emails link to: choose a password with the link's token
+ */
+export default function SetPasswordPage() {
+  const { settings } = usePublicSettings()
+  const policy = useMemo(() => passwordPolicyFromSettings(settings), [settings])
+  // undefined until the query string has been read
+  const [token, setToken] = useState<string | null | undefined>(undefined)
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [done, setDone] = useState(false)
+
+  useEffect(() => {
+    setToken(new URLSearchParams(window.location.search).get("token"))
+  }, [])
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!token) return
+    const policyError = getPasswordPolicyError(password, policy)
+    if (policyError) {
+      setError(policyError)
+      return
+    }
+    if (password !== confirmPassword) {
+      setError("The passwords don't match.")
+      return
+    }
+    setSubmitting(true)
+    setError(null)
+    try {
+      await setupPassword({ token, password })
+      setDone(true)
+    } catch (err) {
+      setError(getApiErrorMessage(err))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background text-foreground p-6">
+      <div className="w-full max-w-md space-y-5">
+        <h1 className="text-2xl font-bold text-center">Choose your password</h1>
+        {done ? (
+          <div className="space-y-4 text-center">
+            <p className="text-sm text-muted-foreground">Your password is set. Sign in with it now.</p>
+            <Button asChild className="w-full">
+              <Link href="/login">Go to sign in</Link>
+            </Button>
+          </div>
+        ) : token === undefined ? null : token === null ? (
+          <p className="text-sm text-destructive text-center" role="alert">
+            This link is incomplete. Open the link from your email again, or ask an administrator for a new one.
+          </p>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+              />
+              <PasswordStrengthMeter password={password} policy={policy} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Repeat the password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+            <Button type="submit" className="w-full" disabled={submitting}>
+              {submitting ? "Saving..." : "Set password"}
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,29 +1,34 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth-context";
-import { apiRequest } from "@/lib/api-client";
-import type { ApiTicketResponse, ApiTicketMessageDto } from "@/lib/api-types";
-import { mapApiTicketToUi, mapApiMessageToResponse } from "@/lib/ticket-mappers";
-import { useCategories } from "@/services/useCategories";
+import { loginPath } from "@/lib/route-access";
+import { getApiErrorMessage } from "@/lib/api-errors";
+import { ticketStatusLabels } from "@/lib/ticket-workflow";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+import { useCan } from "@/hooks/use-permissions";
+import { useTicketSla } from "@/hooks/use-sla";
+import { useLiveTicketUpdates, useTicketGroup } from "@/hooks/use-signalr";
+import { useTicketMessages } from "@/hooks/use-ticket-messages";
+import { useTicket } from "@/hooks/use-tickets";
+import { Can } from "@/components/can";
+import { ResolutionConfirmation } from "@/components/resolution-confirmation";
+import { SatisfactionSurvey } from "@/components/satisfaction-survey";
+import { SlaBadge } from "@/components/sla-badge";
+import { TicketActivityTimeline } from "@/components/ticket-activity-timeline";
+import { TicketAttachments } from "@/components/ticket-attachments";
+import { TicketStatusChange } from "@/components/ticket-status-change";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { ArrowRight, Calendar, Hash, User, Flag, MessageSquare } from "lucide-react";
-import type { Ticket } from "@/types";
-
-const statusLabels: Record<string, string> = {
-  open: "باز",
-  "in-progress": "در حال انجام",
-  resolved: "حل شده",
-  closed: "بسته",
-};
+import { ArrowRight, Calendar, Clock, GitMerge, Hash, User, Flag, MessageSquare, RotateCcw } from "lucide-react";
 
 const statusColors: Record<string, string> = {
   open: "bg-rose-100 text-rose-700 border border-rose-200",
   "in-progress": "bg-amber-100 text-amber-700 border border-amber-200",
+  "waiting-for-client": "bg-sky-100 text-sky-700 border border-sky-200",
   resolved: "bg-emerald-100 text-emerald-700 border border-emerald-200",
   closed: "bg-slate-100 text-slate-700 border border-slate-200",
 };
@@ -38,40 +43,36 @@ const priorityLabels: Record<string, string> = {
 export default function TicketDetailPage() {
   const params = useParams();
   const router = useRouter();
-  const { token, user } = useAuth();
-  const { categories } = useCategories();
-  const [ticket, setTicket] = useState<Ticket | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { token, user, isLoading: authLoading } = useAuth();
+  const can = useCan();
 
   const ticketId = params.id as string;
+  const { ticket, isLoading, error: loadError } = useTicket(ticketId);
+  useLiveTicketUpdates();
+  useTicketGroup(ticketId);
+  useOfflineSync();
+  const thread = useTicketMessages(ticket ? ticketId : null, ticket?.responseCount);
+  const sla = useTicketSla(ticket ?? null);
+  // The server sets dueDate when it knows the policy; otherwise the resolution clock says when
+  const dueAt = ticket?.dueDate ? new Date(ticket.dueDate).getTime() : sla?.resolution.dueAt ?? null;
+
+  // middleware.ts redirects first; this covers a session that turns out to be gone
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.replace(loginPath(window.location.pathname));
+    }
+  }, [authLoading, user, router]);
 
+  // A merged ticket is only a pointer now; old links land on the ticket it was folded into
+  const mergedIntoId = ticket?.mergedIntoId;
   useEffect(() => {
-    if (!token || !ticketId) {
-      setError("دسترسی غیرمجاز");
-      setLoading(false);
-      return;
+    if (mergedIntoId) {
+      router.replace(`/tickets/${mergedIntoId}`);
     }
+  }, [mergedIntoId, router]);
 
-    const loadTicket = async () => {
-      try {
-        const [ticketDetails, messages] = await Promise.all([
-          apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}`, { token }),
-          apiRequest<ApiTicketMessageDto[]>(`/api/tickets/${ticketId}/messages`, { token }),
-        ]);
-
-        const mapped = mapApiTicketToUi(ticketDetails, categories, messages.map(mapApiMessageToResponse));
-        setTicket(mapped);
-      } catch (err: any) {
-        console.error("Failed to load ticket:", err);
-        setError(err?.message || "خطا در بارگذاری تیکت");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadTicket();
-  }, [token, ticketId, categories]);
+  const loading = authLoading || (!!token && isLoading);
+  const error = !token ? "دسترسی غیرمجاز" : loadError && !ticket ? getApiErrorMessage(loadError) : null;
 
   if (loading) {
     return (
@@ -95,6 +96,19 @@ export default function TicketDetailPage() {
     );
   }
 
+  if (ticket.mergedIntoId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background" dir="rtl">
+        <div className="text-center space-y-4">
+          <GitMerge className="h-8 w-8 text-muted-foreground mx-auto" />
+          <p className="text-lg">این تیکت در تیکت {ticket.mergedIntoId} ادغام شده است</p>
+          <p className="text-sm text-muted-foreground">در حال انتقال به تیکت اصلی...</p>
+          <Button onClick={() => router.replace(`/tickets/${ticket.mergedIntoId}`)}>رفتن به تیکت اصلی</Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background p-6" dir="rtl">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -112,9 +126,10 @@ export default function TicketDetailPage() {
                 <CardTitle className="text-2xl">{ticket.title}</CardTitle>
                 <div className="flex gap-2">
                   <Badge className={statusColors[ticket.status]}>
-                    {statusLabels[ticket.status] || ticket.status}
+                    {ticketStatusLabels[ticket.status] || ticket.status}
                   </Badge>
                   <Badge>{priorityLabels[ticket.priority] || ticket.priority}</Badge>
+                  <SlaBadge ticket={ticket} />
                 </div>
               </div>
               <div className="text-left">
@@ -124,6 +139,9 @@ export default function TicketDetailPage() {
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
+            <ResolutionConfirmation ticket={ticket} />
+            <SatisfactionSurvey ticket={ticket} />
+
             <div>
               <h3 className="text-lg font-semibold mb-2">توضیحات</h3>
               <p className="text-muted-foreground whitespace-pre-wrap">{ticket.description}</p>
@@ -135,12 +153,12 @@ export default function TicketDetailPage() {
               <div className="flex items-center gap-2">
                 <Hash className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm text-muted-foreground">دسته‌بندی:</span>
-                <span className="text-sm font-medium">{ticket.category}</span>
+                <span className="text-sm font-medium">{ticket.categoryLabel || ticket.category}</span>
               </div>
               <div className="flex items-center gap-2">
                 <User className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm text-muted-foreground">تکنسین:</span>
-                <span className="text-sm font-medium">{ticket.assignedTechnician || "اختصاص نیافته"}</span>
+                <span className="text-sm font-medium">{ticket.assignedTechnicianName || "اختصاص نیافته"}</span>
               </div>
               <div className="flex items-center gap-2">
                 <Calendar className="h-4 w-4 text-muted-foreground" />
@@ -154,25 +172,56 @@ export default function TicketDetailPage() {
                 <span className="text-sm text-muted-foreground">اولویت:</span>
                 <span className="text-sm font-medium">{priorityLabels[ticket.priority] || ticket.priority}</span>
               </div>
+              {dueAt !== null && (
+                <div className="flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">مهلت رفع:</span>
+                  <span className="text-sm font-medium">{new Date(dueAt).toLocaleString("fa-IR")}</span>
+                </div>
+              )}
+              {!!ticket.reopenCount && (
+                <div className="flex items-center gap-2">
+                  <RotateCcw className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">بازگشایی:</span>
+                  <span className="text-sm font-medium">{ticket.reopenCount.toLocaleString("fa-IR")} بار</span>
+                </div>
+              )}
             </div>
 
-            {ticket.messages && ticket.messages.length > 0 && (
+            {/* Clients answer a resolution through the confirmation above */}
+            <Can permission="tickets.update">
+              <TicketStatusChange ticket={ticket} className="max-w-sm" />
+            </Can>
+
+            <TicketAttachments ticketId={ticket.id} allowUpload />
+
+            {/* Status changes, assignments and merges, for the people working the ticket */}
+            {(can("tickets.viewAll") || can("tickets.viewAssigned")) && <TicketActivityTimeline ticketId={ticket.id} />}
+
+            {thread.isLoading && (
+              <>
+                <Separator />
+                <p className="text-sm text-muted-foreground">در حال بارگذاری پیام‌ها...</p>
+              </>
+            )}
+
+            {thread.responses.length > 0 && (
               <>
                 <Separator />
                 <div>
                   <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
                     <MessageSquare className="h-5 w-5" />
-                    پیام‌ها ({ticket.messages.length})
+                    پیام‌ها ({thread.responses.length})
                   </h3>
                   <div className="space-y-4">
-                    {ticket.messages.map((message) => (
-                      <Card key={message.id}>
+                    {thread.responses.map((message, index) => (
+                      <Card key={message.id ?? index}>
                         <CardContent className="pt-6">
                           <div className="flex items-start justify-between mb-2">
                             <div>
                               <p className="font-medium">{message.authorName}</p>
                               <p className="text-xs text-muted-foreground">
-                                {new Date(message.createdAt).toLocaleString("fa-IR")}
+                                {new Date(message.timestamp).toLocaleString("fa-IR")}
                               </p>
                             </div>
                           </div>
@@ -3,35 +3,76 @@
 import type React from "react"
 
 import { useEffect, useState } from "react"
-import type { TechnicianProfile } from "@/data/technician-profiles"
-import type { Ticket } from "@/types"
+import { useCan } from "@/hooks/use-permissions"
+import { useTechnicianProfiles } from "@/hooks/use-technicians"
+import { useTicketMutations } from "@/hooks/use-tickets"
+import type { Permission } from "@/lib/permissions"
 import { AdminTicketManagement } from "./admin-ticket-management"
 import { AdminTechnicianAssignment } from "./admin-technician-assignment"
 import { CategoryManagement } from "./category-management"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { TicketIcon, UserPlus, FolderTree, Users } from "lucide-react"
+import {
+  TicketIcon,
+  UserPlus,
+  FolderTree,
+  Users,
+  ShieldCheck,
+  Contact,
+  Timer,
+  Workflow,
+  Smile,
+  type LucideIcon,
+} from "lucide-react"
 import { EnhancedAutoAssignment } from "./enhanced-auto-assignment"
 import { Settings } from "lucide-react"
 import { TechnicianManagement } from "./technician-management"
+import { RoleManagement } from "./role-management"
+import { SlaPolicyManagement } from "./sla-policy-management"
+import { WorkflowManagement } from "./workflow-management"
+import { CsatReport } from "./csat-report"
+import { UserManagement } from "./user-management"
+
+export type AdminSection =
+  | "tickets"
+  | "assignment"
+  | "categories"
+  | "auto-settings"
+  | "sla"
+  | "workflow"
+  | "csat"
+  | "technicians"
+  | "users"
+  | "roles"
 
 interface AdminDashboardProps {
-  tickets: Ticket[]
-  onTicketUpdate: (ticketId: string, updates: Partial<Ticket>) => void
-  technicians: TechnicianProfile[]
   categoriesData: any
   onCategoryUpdate: (categories: any) => void
-  activeSection?: "tickets" | "assignment" | "categories" | "auto-settings" | "technicians"
+  activeSection?: AdminSection
 }
 
+const adminTabs: { value: AdminSection; label: string; icon: LucideIcon; permission: Permission }[] = [
+  { value: "tickets", label: "مدیریت کامل تیکت‌ها", icon: TicketIcon, permission: "tickets.viewAll" },
+  { value: "assignment", label: "تعیین تکنسین", icon: UserPlus, permission: "tickets.assign" },
+  { value: "technicians", label: "مدیریت تکنسین‌ها", icon: Users, permission: "technicians.manage" },
+  { value: "categories", label: "مدیریت دسته‌بندی", icon: FolderTree, permission: "categories.manage" },
+  { value: "auto-settings", label: "تنظیمات خودکار", icon: Settings, permission: "automation.manage" },
+  { value: "sla", label: "SLA و ساعات کاری", icon: Timer, permission: "sla.manage" },
+  { value: "workflow", label: "گردش کار", icon: Workflow, permission: "workflow.manage" },
+  { value: "csat", label: "رضایت مشتریان", icon: Smile, permission: "reports.view" },
+  { value: "users", label: "مدیریت کاربران", icon: Contact, permission: "users.manage" },
+  { value: "roles", label: "نقش‌ها و دسترسی‌ها", icon: ShieldCheck, permission: "roles.manage" },
+]
+
 export const AdminDashboard: React.FC<AdminDashboardProps> = ({
-  tickets,
-  onTicketUpdate,
-  technicians,
   categoriesData,
   onCategoryUpdate,
   activeSection,
 }) => {
-  const [activeTab, setActiveTab] = useState("tickets")
+  const can = useCan()
+  const technicians = useTechnicianProfiles()
+  const { updateTicket: onTicketUpdate } = useTicketMutations()
+  const visibleTabs = adminTabs.filter((tab) => can(tab.permission))
+  const [activeTab, setActiveTab] = useState<string>(activeSection ?? "tickets")
 
   useEffect(() => {
     if (activeSection) {
@@ -39,50 +80,81 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
     }
   }, [activeSection])
 
+  const selectedTab = visibleTabs.some((tab) => tab.value === activeTab) ? activeTab : visibleTabs[0]?.value
+
   return (
-    <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full" dir="rtl">
-      <TabsList className="grid w-full grid-cols-5">
-        <TabsTrigger value="tickets" className="gap-2">
-          <TicketIcon className="w-4 h-4" />
-          مدیریت کامل تیکت‌ها
-        </TabsTrigger>
-        <TabsTrigger value="assignment" className="gap-2">
-          <UserPlus className="w-4 h-4" />
-          تعیین تکنسین
-        </TabsTrigger>
-        <TabsTrigger value="technicians" className="gap-2">
-          <Users className="w-4 h-4" />
-          مدیریت تکنسین‌ها
-        </TabsTrigger>
-        <TabsTrigger value="categories" className="gap-2">
-          <FolderTree className="w-4 h-4" />
-          مدیریت دسته‌بندی
-        </TabsTrigger>
-        <TabsTrigger value="auto-settings" className="gap-2">
-          <Settings className="w-4 h-4" />
-          تنظیمات خودکار
-        </TabsTrigger>
+    <Tabs value={selectedTab} onValueChange={setActiveTab} className="w-full" dir="rtl">
+      <TabsList
+        className="grid w-full"
+        style={{ gridTemplateColumns: `repeat(${Math.max(visibleTabs.length, 1)}, minmax(0, 1fr))` }}
+      >
+        {visibleTabs.map(({ value, label, icon: Icon }) => (
+          <TabsTrigger key={value} value={value} className="gap-2">
+            <Icon className="w-4 h-4" />
+            {label}
+          </TabsTrigger>
+        ))}
       </TabsList>
 
-      <TabsContent value="tickets">
-        <AdminTicketManagement tickets={tickets} technicians={technicians} onTicketUpdate={onTicketUpdate} />
-      </TabsContent>
+      {can("tickets.viewAll") && (
+        <TabsContent value="tickets">
+          <AdminTicketManagement technicians={technicians} onTicketUpdate={onTicketUpdate} />
+        </TabsContent>
+      )}
+
+      {can("tickets.assign") && (
+        <TabsContent value="assignment">
+          <AdminTechnicianAssignment technicians={technicians} onTicketUpdate={onTicketUpdate} />
+        </TabsContent>
+      )}
+
+      {can("technicians.manage") && (
+        <TabsContent value="technicians">
+          <TechnicianManagement />
+        </TabsContent>
+      )}
+
+      {can("categories.manage") && (
+        <TabsContent value="categories">
+          <CategoryManagement categoriesData={categoriesData} onCategoryUpdate={onCategoryUpdate} />
+        </TabsContent>
+      )}
+
+      {can("automation.manage") && (
+        <TabsContent value="auto-settings">
+          <EnhancedAutoAssignment technicians={technicians} onTicketUpdate={onTicketUpdate} />
+        </TabsContent>
+      )}
+
+      {can("sla.manage") && (
+        <TabsContent value="sla">
+          <SlaPolicyManagement categoriesData={categoriesData} />
+        </TabsContent>
+      )}
 
-      <TabsContent value="assignment">
-        <AdminTechnicianAssignment tickets={tickets} technicians={technicians} onTicketUpdate={onTicketUpdate} />
-      </TabsContent>
+      {can("workflow.manage") && (
+        <TabsContent value="workflow">
+          <WorkflowManagement />
+        </TabsContent>
+      )}
 
-      <TabsContent value="technicians">
-        <TechnicianManagement />
-      </TabsContent>
+      {can("reports.view") && (
+        <TabsContent value="csat">
+          <CsatReport />
+        </TabsContent>
+      )}
 
-      <TabsContent value="categories">
-        <CategoryManagement categoriesData={categoriesData} onCategoryUpdate={onCategoryUpdate} />
-      </TabsContent>
+      {can("users.manage") && (
+        <TabsContent value="users">
+          <UserManagement />
+        </TabsContent>
+      )}
 
-      <TabsContent value="auto-settings">
-        <EnhancedAutoAssignment tickets={tickets} technicians={technicians} onTicketUpdate={onTicketUpdate} />
-      </TabsContent>
+      {can("roles.manage") && (
+        <TabsContent value="roles">
+          <RoleManagement />
+        </TabsContent>
+      )}
     </Tabs>
   )
 }
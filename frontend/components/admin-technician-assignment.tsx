@@ -7,10 +7,12 @@ import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { SlaBadge } from "@/components/sla-badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Separator } from "@/components/ui/separator"
 import { Checkbox } from "@/components/ui/checkbox"
+import { useTicketQuery } from "@/hooks/use-ticket-query"
 import { toast } from "@/hooks/use-toast"
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
@@ -35,7 +37,9 @@ import {
 } from "lucide-react"
 import type { LucideIcon } from "lucide-react"
 import { AssignmentCriteriaDialog } from "./assignment-criteria-dialog"
-import type { TechnicianProfile } from "@/data/technician-profiles"
+import { TicketListPagination } from "./ticket-list-controls"
+import { formatTechnicianRating, type TechnicianProfile } from "@/data/technician-profiles"
+import type { Ticket, TicketPriority } from "@/types"
 
 const getAutomaticAssignment = (ticket: any, technicians: any[]) => {
   const availableTechnicians = technicians.filter((tech) => tech.status === "available")
@@ -187,20 +191,6 @@ const getMatchReasons = (technician: any, ticket: any) => {
   return reasons
 }
 
-const statusColors: Record<string, string> = {
-  open: "bg-red-100 text-red-800 border-red-200",
-  "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
-  resolved: "bg-green-100 text-green-800 border-green-200",
-  closed: "bg-gray-100 text-gray-800 border-gray-200",
-}
-
-const statusLabels: Record<string, string> = {
-  open: "باز",
-  "in-progress": "در حال انجام",
-  resolved: "حل شده",
-  closed: "بسته",
-}
-
 const priorityColors: Record<string, string> = {
   low: "bg-blue-100 text-blue-800 border-blue-200",
   medium: "bg-orange-100 text-orange-800 border-orange-200",
@@ -290,12 +280,11 @@ const mockTechnicians = [
 ]
 
 interface AdminTechnicianAssignmentProps {
-  tickets: any[]
   technicians: TechnicianProfile[]
-  onTicketUpdate: (ticketId: string, updates: any) => void
+  onTicketUpdate: (ticketId: string, updates: Partial<Ticket>) => void
 }
 
-export function AdminTechnicianAssignment({ tickets, technicians: technicianOptions, onTicketUpdate }: AdminTechnicianAssignmentProps) {
+export function AdminTechnicianAssignment({ technicians: technicianOptions, onTicketUpdate }: AdminTechnicianAssignmentProps) {
   // Filter to only show active technicians
   const technicians = (technicianOptions && technicianOptions.length > 0 ? technicianOptions : []).filter((tech: any) => {
     // If technician has isActive property, use it; otherwise assume active
@@ -314,22 +303,13 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
   const [criteriaDialogOpen, setCriteriaDialogOpen] = useState(false)
   const [selectedTicketForCriteria, setSelectedTicketForCriteria] = useState<any>(null)
 
-  const filteredTickets = tickets.filter((ticket) => {
-    const matchesSearch =
-      ticket.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.clientName.toLowerCase().includes(searchQuery.toLowerCase())
-
-    const matchesStatus =
-      filterStatus === "all" ||
-      (filterStatus === "unassigned" && !ticket.assignedTo) ||
-      (filterStatus === "assigned" && ticket.assignedTo)
-
-    const matchesPriority = filterPriority === "all" || ticket.priority === filterPriority
-
-    return matchesSearch && matchesStatus && matchesPriority
+  // Searching, filtering and paging happen on the server
+  const ticketPage = useTicketQuery({
+    assignedTo: filterStatus === "all" ? null : (filterStatus as "assigned" | "unassigned"),
+    priority: filterPriority as TicketPriority | "all",
+    search: searchQuery,
   })
+  const filteredTickets = ticketPage.tickets
 
   const handleAssignTicket = (ticket: any) => {
     setSelectedTicket(ticket)
@@ -383,7 +363,7 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
     try {
       await Promise.all(
         selectedTickets.map((ticketId) => {
-          const ticket = tickets.find((t) => t.id === ticketId)
+          const ticket = filteredTickets.find((t) => t.id === ticketId)
           return onTicketUpdate(ticketId, {
             assignedTo: technicianId,
             assignedTechnicianName: technicianName,
@@ -641,6 +621,7 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
                   <TableHead className="text-right">شماره تیکت</TableHead>
                   <TableHead className="text-right">عنوان</TableHead>
                   <TableHead className="text-right">اولویت</TableHead>
+                  <TableHead className="text-right">SLA</TableHead>
                   <TableHead className="text-right">دسته‌بندی</TableHead>
                   <TableHead className="text-right">درخواست‌کننده</TableHead>
                   <TableHead className="text-right">تکنسین فعلی</TableHead>
@@ -671,6 +652,9 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
                         <TableCell>
                           <Badge className={priorityColors[ticket.priority]}>{priorityLabels[ticket.priority]}</Badge>
                         </TableCell>
+                        <TableCell>
+                          <SlaBadge ticket={ticket} />
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <CategoryIcon className="w-4 h-4" />
@@ -746,7 +730,7 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
                   })
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={9} className="text-center py-8">
+                    <TableCell colSpan={10} className="text-center py-8">
                       <div className="flex flex-col items-center gap-2">
                         <Search className="w-8 h-8 text-muted-foreground" />
                         <p className="text-muted-foreground">تیکتی یافت نشد</p>
@@ -757,6 +741,17 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
               </TableBody>
             </Table>
           </div>
+
+          <div className="mt-4">
+            <TicketListPagination
+              page={ticketPage.page}
+              pageSize={ticketPage.pageSize}
+              pageCount={ticketPage.pageCount}
+              totalCount={ticketPage.totalCount}
+              isLoading={ticketPage.isLoading}
+              onPageChange={ticketPage.setPage}
+            />
+          </div>
         </CardContent>
       </Card>
 
@@ -809,7 +804,7 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
                             <div className="flex items-center gap-4 text-sm text-muted-foreground">
                               <div className="flex items-center gap-1">
                                 <Star className="w-3 h-3 text-yellow-500" />
-                                <span>{technician.rating}</span>
+                                <span>{formatTechnicianRating(technician)}</span>
                               </div>
                               <span>تیکت‌های فعال: {technician.activeTickets}</span>
                               <span>تکمیل شده: {technician.completedTickets}</span>
@@ -912,7 +907,7 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
                           <span className="text-xs text-muted-foreground">{getStatusLabel(technician.status)}</span>
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          فعال: {technician.activeTickets} | امتیاز: {technician.rating}
+                          فعال: {technician.activeTickets} | امتیاز: {formatTechnicianRating(technician)}
                         </div>
                       </div>
                     </div>
@@ -971,7 +966,7 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
                             <p className="font-medium text-green-800">{technician.name}</p>
                             <div className="flex items-center gap-1 text-xs text-green-600">
                               <Star className="w-3 h-3" />
-                              <span>{technician.rating}</span>
+                              <span>{formatTechnicianRating(technician)}</span>
                               <span>• {technician.activeTickets} فعال</span>
                             </div>
                           </div>
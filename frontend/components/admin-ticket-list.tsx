@@ -13,6 +13,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Checkbox } from "@/components/ui/checkbox"
 import { toast } from "@/hooks/use-toast"
+import { useTicketMessages } from "@/hooks/use-ticket-messages"
+import { useTicketQuery } from "@/hooks/use-ticket-query"
+import type { TicketListSort } from "@/lib/ticket-mappers"
+import { ticketStatusColors, ticketStatusLabels } from "@/lib/ticket-workflow"
+import { useCategories } from "@/services/useCategories"
+import type { Ticket, TicketPriority, TicketStatus } from "@/types"
+import { TicketListPagination, TicketSortSelect } from "./ticket-list-controls"
+import { TicketAttachments } from "./ticket-attachments"
 import {
   Search,
   Filter,
@@ -27,30 +35,17 @@ import {
   Clock,
   AlertCircle,
   CheckCircle,
+  Hourglass,
   XCircle,
-  Paperclip,
   Settings,
   Mail,
 } from "lucide-react"
 import type { LucideIcon } from "lucide-react"
 
-const statusColors: Record<string, string> = {
-  open: "bg-red-100 text-red-800 border-red-200",
-  "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
-  resolved: "bg-green-100 text-green-800 border-green-200",
-  closed: "bg-gray-100 text-gray-800 border-gray-200",
-}
-
-const statusLabels: Record<string, string> = {
-  open: "باز",
-  "in-progress": "در حال انجام",
-  resolved: "حل شده",
-  closed: "بسته",
-}
-
 const statusIcons: Record<string, LucideIcon> = {
   open: AlertCircle,
   "in-progress": Clock,
+  "waiting-for-client": Hourglass,
   resolved: CheckCircle,
   closed: XCircle,
 }
@@ -87,7 +82,7 @@ const getCategoryLabel = (ticketOrId: any) => {
 
 interface AdminTicketListProps {
   tickets: any[]
-  onTicketUpdate: (ticketId: string, updates: any) => void
+  onTicketUpdate: (ticketId: string, updates: Partial<Ticket>) => void
 }
 
 export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProps) {
@@ -95,26 +90,31 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
   const [filterStatus, setFilterStatus] = useState("all")
   const [filterPriority, setFilterPriority] = useState("all")
   const [filterCategory, setFilterCategory] = useState("all")
+  const [sort, setSort] = useState<TicketListSort>("createdAt:desc")
   const [selectedTickets, setSelectedTickets] = useState<string[]>([])
-  const [selectedTicket, setSelectedTicket] = useState<any>(null)
+  const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null)
   const [viewDialogOpen, setViewDialogOpen] = useState(false)
+  const selectedThread = useTicketMessages(
+    viewDialogOpen ? selectedTicket?.id : null,
+    selectedTicket?.responseCount,
+  )
 
-  // Filter tickets based on search and filters
-  const filteredTickets = tickets.filter((ticket) => {
-    const matchesSearch =
-      ticket.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.clientName.toLowerCase().includes(searchQuery.toLowerCase())
-
-    const matchesStatus = filterStatus === "all" || ticket.status === filterStatus
-    const matchesPriority = filterPriority === "all" || ticket.priority === filterPriority
-    const matchesCategory = filterCategory === "all" || ticket.category === filterCategory
+  const { categories } = useCategories()
+
+  // Filtering, sorting and paging happen on the server; ticket mutations refresh the cached page
+  const ticketPage = useTicketQuery(
+    {
+      statuses: filterStatus === "all" ? [] : [filterStatus as TicketStatus],
+      priority: filterPriority as TicketPriority | "all",
+      categoryId: filterCategory === "all" ? null : (categories[filterCategory]?.backendId ?? null),
+      search: searchQuery,
+      sort,
+    },
+  )
+  const filteredTickets = ticketPage.tickets
 
-    return matchesSearch && matchesStatus && matchesPriority && matchesCategory
-  })
 
-  const handleViewTicket = (ticket: any) => {
+  const handleViewTicket = (ticket: Ticket) => {
     console.log("Opening ticket preview for:", ticket.id) 
     setSelectedTicket(ticket)
     setViewDialogOpen(true)
@@ -136,7 +136,7 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
     }
   }
 
-  const handleBulkStatusUpdate = (newStatus: string) => {
+  const handleBulkStatusUpdate = (newStatus: TicketStatus) => {
     selectedTickets.forEach((ticketId) => {
       onTicketUpdate(ticketId, { status: newStatus })
     })
@@ -164,6 +164,7 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
           th { background-color: #f5f5f5; font-weight: bold; }
           .status-open { background-color: #fee2e2; color: #991b1b; }
           .status-in-progress { background-color: #fef3c7; color: #92400e; }
+          .status-waiting-for-client { background-color: #e0f2fe; color: #075985; }
           .status-resolved { background-color: #d1fae5; color: #065f46; }
           .status-closed { background-color: #f3f4f6; color: #374151; }
           .priority-urgent { background-color: #fce7f3; color: #be185d; }
@@ -218,7 +219,7 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
               <tr>
                 <td>${ticket.id}</td>
                 <td>${ticket.title}</td>
-                <td class="status-${ticket.status}">${statusLabels[ticket.status]}</td>
+                <td class="status-${ticket.status}">${ticketStatusLabels[ticket.status]}</td>
                 <td class="priority-${ticket.priority}">${priorityLabels[ticket.priority]}</td>
                 <td>${getCategoryLabel(ticket)}</td>
                 <td>${ticket.clientName}</td>
@@ -262,14 +263,14 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
         [
           ticket.id,
           `"${ticket.title}"`,
-          statusLabels[ticket.status],
+          ticketStatusLabels[ticket.status],
           priorityLabels[ticket.priority],
           getCategoryLabel(ticket),
           `"${ticket.clientName}"`,
           ticket.clientEmail,
           `"${ticket.assignedTechnicianName || "تعیین نشده"}"`,
           new Date(ticket.createdAt).toLocaleDateString("fa-IR"),
-          new Date(ticket.updatedAt).toLocaleDateString("fa-IR"),
+          new Date(ticket.updatedAt ?? ticket.createdAt).toLocaleDateString("fa-IR"),
         ].join(","),
       ),
     ].join("\n")
@@ -318,7 +319,7 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
         </CardHeader>
         <CardContent>
           {/* Filters */}
-          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-6">
             <div className="relative">
               <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
               <Input
@@ -338,6 +339,7 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                 <SelectItem value="all">همه وضعیت‌ها</SelectItem>
                 <SelectItem value="open">باز</SelectItem>
                 <SelectItem value="in-progress">در حال انجام</SelectItem>
+                <SelectItem value="waiting-for-client">در انتظار مشتری</SelectItem>
                 <SelectItem value="resolved">حل شده</SelectItem>
                 <SelectItem value="closed">بسته</SelectItem>
               </SelectContent>
@@ -362,15 +364,18 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
               </SelectTrigger>
               <SelectContent className="font-iran">
                 <SelectItem value="all">همه دسته‌ها</SelectItem>
-                <SelectItem value="hardware">سخت‌افزار</SelectItem>
-                <SelectItem value="software">نرم‌افزار</SelectItem>
-                <SelectItem value="network">شبکه</SelectItem>
-                <SelectItem value="email">ایمیل</SelectItem>
-                <SelectItem value="security">امنیت</SelectItem>
-                <SelectItem value="access">دسترسی</SelectItem>
+                {Object.entries(categories)
+                  .filter(([, category]) => typeof category.backendId === "number")
+                  .map(([slug, category]) => (
+                    <SelectItem key={slug} value={slug}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
               </SelectContent>
             </Select>
 
+            <TicketSortSelect value={sort} onChange={setSort} />
+
             <Button
               variant="outline"
               onClick={() => {
@@ -378,6 +383,7 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                 setFilterStatus("all")
                 setFilterPriority("all")
                 setFilterCategory("all")
+                setSort("createdAt:desc")
               }}
               className="gap-2 font-iran"
             >
@@ -461,8 +467,8 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge className={`${statusColors[ticket.status]} font-iran`}>
-                            {statusLabels[ticket.status]}
+                          <Badge className={`${ticketStatusColors[ticket.status]} font-iran`}>
+                            {ticketStatusLabels[ticket.status]}
                           </Badge>
                         </TableCell>
                         <TableCell>
@@ -530,6 +536,17 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
               </TableBody>
             </Table>
           </div>
+
+          <div className="mt-4">
+            <TicketListPagination
+              page={ticketPage.page}
+              pageSize={ticketPage.pageSize}
+              pageCount={ticketPage.pageCount}
+              totalCount={ticketPage.totalCount}
+              isLoading={ticketPage.isLoading}
+              onPageChange={ticketPage.setPage}
+            />
+          </div>
         </CardContent>
       </Card>
 
@@ -547,9 +564,9 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                   <div className="text-right space-y-3">
                     <h2 className="text-2xl font-bold font-iran text-gray-900">{selectedTicket.title}</h2>
                     <div className="flex gap-3 items-center">
-                      <Badge className={`${statusColors[selectedTicket.status]} font-iran text-sm px-3 py-1`}>
+                      <Badge className={`${ticketStatusColors[selectedTicket.status]} font-iran text-sm px-3 py-1`}>
                         {React.createElement(statusIcons[selectedTicket.status], { className: "w-4 h-4 ml-1" })}
-                        {statusLabels[selectedTicket.status]}
+                        {ticketStatusLabels[selectedTicket.status]}
                       </Badge>
                       <Badge className={`${priorityColors[selectedTicket.priority]} font-iran text-sm px-3 py-1`}>
                         {priorityLabels[selectedTicket.priority]}
@@ -612,44 +629,24 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                   )}
 
                   {/* Attachments */}
-                  {selectedTicket.attachments && selectedTicket.attachments.length > 0 && (
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="flex items-center gap-2 text-right font-iran">
-                          <Paperclip className="w-5 h-5 text-purple-600" />
-                          فایل‌های پیوست
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                          {selectedTicket.attachments.map((file: any, index: number) => (
-                            <div key={index} className="flex items-center gap-3 p-3 bg-gray-50 border rounded-lg">
-                              <Paperclip className="w-4 h-4 text-gray-500" />
-                              <div className="flex-1 text-right">
-                                <p className="text-sm font-medium font-iran">{file.name}</p>
-                                <p className="text-xs text-muted-foreground font-iran">
-                                  {(file.size / 1024).toFixed(1)} KB
-                                </p>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      </CardContent>
-                    </Card>
+                  <TicketAttachments ticketId={selectedTicket.id} />
+
+                  {selectedThread.isLoading && (
+                    <p className="text-sm text-muted-foreground text-right font-iran">در حال بارگذاری پاسخ‌ها...</p>
                   )}
 
                   {/* Responses and Updates */}
-                  {selectedTicket.responses && selectedTicket.responses.length > 0 && (
+                  {selectedThread.responses.length > 0 && (
                     <Card>
                       <CardHeader>
                         <CardTitle className="flex items-center gap-2 text-right font-iran">
                           <MessageSquare className="w-5 h-5 text-orange-600" />
-                          پاسخ‌ها و به‌روزرسانی‌ها ({selectedTicket.responses.length})
+                          پاسخ‌ها و به‌روزرسانی‌ها ({selectedThread.responses.length})
                         </CardTitle>
                       </CardHeader>
                       <CardContent>
                         <div className="space-y-4">
-                          {selectedTicket.responses.map((response: any, index: number) => {
+                          {selectedThread.responses.map((response, index) => {
                             const responseDateTime = formatDateTime(response.timestamp)
                             const StatusIcon = statusIcons[response.status]
 
@@ -668,9 +665,9 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                                     </div>
                                   </div>
                                   <div className="text-left space-y-2">
-                                    <Badge className={`${statusColors[response.status]} font-iran text-xs`}>
+                                    <Badge className={`${ticketStatusColors[response.status]} font-iran text-xs`}>
                                       <StatusIcon className="w-3 h-3 ml-1" />
-                                      {statusLabels[response.status]}
+                                      {ticketStatusLabels[response.status]}
                                     </Badge>
                                     <div className="text-xs text-muted-foreground font-iran">
                                       <div className="flex items-center gap-1 justify-end">
@@ -741,7 +738,7 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                         <div className="flex justify-between items-center p-2 bg-gray-50 rounded">
                           <span className="text-sm text-muted-foreground font-iran">آخرین به‌روزرسانی:</span>
                           <span className="text-sm font-medium font-iran">
-                            {formatDateTime(selectedTicket.updatedAt).date}
+                            {formatDateTime(selectedTicket.updatedAt ?? selectedTicket.createdAt).date}
                           </span>
                         </div>
                       </div>
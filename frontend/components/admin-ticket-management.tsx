@@ -3,7 +3,7 @@
 import React from "react"
 
 import { useState, useEffect } from "react"
-import type { TechnicianProfile } from "@/data/technician-profiles"
+import { formatTechnicianRating, type TechnicianProfile } from "@/data/technician-profiles"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -11,10 +11,18 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { SlaBadge } from "@/components/sla-badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Separator } from "@/components/ui/separator"
+import { useCan } from "@/hooks/use-permissions"
 import { toast } from "@/hooks/use-toast"
+import { useTicketMessages } from "@/hooks/use-ticket-messages"
+import { useTicketQuery } from "@/hooks/use-ticket-query"
+import type { TicketListSort } from "@/lib/ticket-mappers"
+import { isMergeable, ticketStatusColors, ticketStatusLabels } from "@/lib/ticket-workflow"
+import { useCategories } from "@/services/useCategories"
+import type { Ticket, TicketPriority, TicketStatus } from "@/types"
 import {
   Printer,
   UserPlus,
@@ -36,30 +44,23 @@ import {
   AlertCircle,
   CheckCircle,
   XCircle,
-  Paperclip,
   Settings,
   Mail,
+  Hourglass,
+  RotateCcw,
+  GitMerge,
 } from "lucide-react"
 import type { LucideIcon } from "lucide-react"
 import { TicketCalendarOverview } from "./ticket-calendar-overview"
-
-const statusColors: Record<string, string> = {
-  open: "bg-red-100 text-red-800 border-red-200",
-  "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
-  resolved: "bg-green-100 text-green-800 border-green-200",
-  closed: "bg-gray-100 text-gray-800 border-gray-200",
-}
-
-const statusLabels: Record<string, string> = {
-  open: "باز",
-  "in-progress": "در حال انجام",
-  resolved: "حل شده",
-  closed: "بسته",
-}
+import { TicketListPagination, TicketSortSelect } from "./ticket-list-controls"
+import { TicketAttachments } from "./ticket-attachments"
+import { TicketStatusChange } from "./ticket-status-change"
+import { TicketMergeDialog } from "./ticket-merge-dialog"
 
 const statusIcons: Record<string, LucideIcon> = {
   open: AlertCircle,
   "in-progress": Clock,
+  "waiting-for-client": Hourglass,
   resolved: CheckCircle,
   closed: XCircle,
 }
@@ -158,12 +159,11 @@ const initialTechnicians = [
 ]
 
 interface AdminTicketManagementProps {
-  tickets: any[]
   technicians: TechnicianProfile[]
-  onTicketUpdate: (ticketId: string, updates: any) => void
+  onTicketUpdate: (ticketId: string, updates: Partial<Ticket>) => void
 }
 
-export function AdminTicketManagement({ tickets, technicians: technicianOptions, onTicketUpdate }: AdminTicketManagementProps) {
+export function AdminTicketManagement({ technicians: technicianOptions, onTicketUpdate }: AdminTicketManagementProps) {
   const [technicians, setTechnicians] = useState(
     technicianOptions && technicianOptions.length > 0 ? technicianOptions : [],
   )
@@ -172,13 +172,24 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
   const [filterPriority, setFilterPriority] = useState("all")
   const [filterCategory, setFilterCategory] = useState("all")
   const [filterTechnician, setFilterTechnician] = useState("all")
+  const [sort, setSort] = useState<TicketListSort>("createdAt:desc")
   const [selectedTickets, setSelectedTickets] = useState<string[]>([])
   const [assignDialogOpen, setAssignDialogOpen] = useState(false)
   const [bulkAssignDialogOpen, setBulkAssignDialogOpen] = useState(false)
-  const [selectedTicketForAssign, setSelectedTicketForAssign] = useState<any>(null)
+  const [selectedTicketForAssign, setSelectedTicketForAssign] = useState<Ticket | null>(null)
   const [technicianFilter, setTechnicianFilter] = useState("all") 
-  const [selectedTicket, setSelectedTicket] = useState<any>(null)
+  const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null)
   const [viewDialogOpen, setViewDialogOpen] = useState(false)
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false)
+  const [mergePrimary, setMergePrimary] = useState<Ticket | null>(null)
+  const [mergeSelection, setMergeSelection] = useState<Ticket[]>([])
+  const can = useCan()
+  const selectedThread = useTicketMessages(
+    viewDialogOpen ? selectedTicket?.id : null,
+    selectedTicket?.responseCount,
+  )
+  const { categories } = useCategories()
+
 
   useEffect(() => {
     if (technicianOptions && technicianOptions.length > 0) {
@@ -186,41 +197,56 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
     }
   }, [technicianOptions])
 
-  useEffect(() => {
-    setTechnicians((prev) =>
-      prev.map((tech) => {
-        const assignedTickets = tickets.filter(
-          (ticket) => ticket.assignedTo === tech.id && (ticket.status === "open" || ticket.status === "in-progress"),
-        )
+  
+  // Filtering, sorting and paging happen on the server; ticket mutations refresh the cached page
+  const ticketPage = useTicketQuery(
+    {
+      statuses: filterStatus === "all" ? [] : [filterStatus as TicketStatus],
+      priority: filterPriority as TicketPriority | "all",
+      categoryId: filterCategory === "all" ? null : (categories[filterCategory]?.backendId ?? null),
+      assignedTo: filterTechnician === "all" ? null : filterTechnician,
+      search: searchQuery,
+      sort,
+    },
+  )
+  const filteredTickets = ticketPage.tickets
 
-        return {
-          ...tech,
-          activeTickets: assignedTickets.length,
-          status: assignedTickets.length >= 5 ? "busy" : "available",
-        }
-      }),
+  // Keep the preview in step with the list, e.g. after a status change made from the preview
+  useEffect(() => {
+    setSelectedTicket((current) =>
+      current ? (filteredTickets.find((ticket) => ticket.id === current.id) ?? current) : current,
     )
-  }, [tickets])
+  }, [filteredTickets])
 
-  
-  const filteredTickets = tickets.filter((ticket) => {
-    const matchesSearch =
-      ticket.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.clientName.toLowerCase().includes(searchQuery.toLowerCase())
-
-    const matchesStatus = filterStatus === "all" || ticket.status === filterStatus
-    const matchesPriority = filterPriority === "all" || ticket.priority === filterPriority
-    const matchesCategory = filterCategory === "all" || ticket.category === filterCategory
-    const matchesTechnician =
-      filterTechnician === "all" ||
-      (filterTechnician === "unassigned" && !ticket.assignedTo) ||
-      ticket.assignedTo === filterTechnician
-
-    return matchesSearch && matchesStatus && matchesPriority && matchesCategory && matchesTechnician
-  })
+  const openMergeDialog = (primary: Ticket, selection: Ticket[] = []) => {
+    setMergePrimary(primary)
+    setMergeSelection(selection)
+    setMergeDialogOpen(true)
+  }
 
+  // The earliest report stays; the later ones are folded into it
+  const handleBulkMerge = () => {
+    const picked = filteredTickets
+      .filter((ticket) => selectedTickets.includes(ticket.id) && isMergeable(ticket))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    if (picked.some((ticket) => ticket.clientId !== picked[0].clientId)) {
+      toast({
+        title: "ادغام ممکن نیست",
+        description: "فقط تیکت‌های یک کاربر را می‌توان با هم ادغام کرد",
+        variant: "destructive",
+      })
+      return
+    }
+    if (picked.length < 2) {
+      toast({
+        title: "ادغام ممکن نیست",
+        description: "حداقل دو تیکت باز برای ادغام انتخاب کنید",
+        variant: "destructive",
+      })
+      return
+    }
+    openMergeDialog(picked[0], picked.slice(1))
+  }
   
   const handleViewTicket = (ticket: any) => {
     console.log("Opening ticket preview for:", ticket.id)
@@ -284,12 +310,13 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
 
   const handleAssignTechnician = async (ticketId: string, technicianId: string) => {
     const technician = technicians.find((tech) => tech.id === technicianId)
+    const ticket = filteredTickets.find((item) => item.id === ticketId)
     if (technician) {
       try {
         await onTicketUpdate(ticketId, {
           assignedTo: technicianId,
           assignedTechnicianName: technician.name,
-          status: "in-progress",
+          status: ticket?.status === "open" ? "in-progress" : ticket?.status,
         })
 
         toast({
@@ -315,13 +342,14 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
       try {
         // Assign all selected tickets
         await Promise.all(
-          selectedTickets.map((ticketId) =>
-            onTicketUpdate(ticketId, {
+          selectedTickets.map((ticketId) => {
+            const ticket = filteredTickets.find((item) => item.id === ticketId)
+            return onTicketUpdate(ticketId, {
               assignedTo: technicianId,
               assignedTechnicianName: technician.name,
-              status: "in-progress",
+              status: ticket?.status === "open" ? "in-progress" : ticket?.status,
             })
-          )
+          })
         )
 
         toast({
@@ -364,6 +392,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
             .header { text-align: center; margin-bottom: 30px; }
             .status-open { background-color: #fee2e2; color: #991b1b; }
             .status-in-progress { background-color: #fef3c7; color: #92400e; }
+            .status-waiting-for-client { background-color: #e0f2fe; color: #075985; }
             .status-resolved { background-color: #d1fae5; color: #065f46; }
             .status-closed { background-color: #f3f4f6; color: #374151; }
             .priority-low { background-color: #dbeafe; color: #1e40af; }
@@ -404,13 +433,13 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                 <tr>
                   <td>${ticket.id}</td>
                   <td>${ticket.title}</td>
-                  <td class="status-${ticket.status}">${statusLabels[ticket.status]}</td>
+                  <td class="status-${ticket.status}">${ticketStatusLabels[ticket.status]}</td>
                   <td class="priority-${ticket.priority}">${priorityLabels[ticket.priority]}</td>
                   <td>${getCategoryLabel(ticket)}</td>
                   <td>${ticket.clientName}</td>
                   <td>${ticket.assignedTechnicianName || "تعیین نشده"}</td>
                   <td>${new Date(ticket.createdAt).toLocaleDateString("fa-IR")}</td>
-                  <td>${new Date(ticket.updatedAt).toLocaleDateString("fa-IR")}</td>
+                  <td>${new Date(ticket.updatedAt ?? ticket.createdAt).toLocaleDateString("fa-IR")}</td>
                 </tr>
               `,
                 )
@@ -450,13 +479,13 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
       ...ticketsToExport.map((ticket) => [
         ticket.id,
         ticket.title,
-        statusLabels[ticket.status],
+        ticketStatusLabels[ticket.status],
         priorityLabels[ticket.priority],
         getCategoryLabel(ticket),
         ticket.clientName,
         ticket.assignedTechnicianName || "تعیین نشده",
         new Date(ticket.createdAt).toLocaleDateString("fa-IR"),
-        new Date(ticket.updatedAt).toLocaleDateString("fa-IR"),
+        new Date(ticket.updatedAt ?? ticket.createdAt).toLocaleDateString("fa-IR"),
       ]),
     ]
       .map((row) => row.join(","))
@@ -558,7 +587,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
           </Badge>
           <div className="flex items-center gap-1 text-xs text-muted-foreground">
             <Star className="w-3 h-3 fill-current text-yellow-500" />
-            <span className="font-iran">{technician.rating}</span>
+            <span className="font-iran">{formatTechnicianRating(technician)}</span>
           </div>
         </div>
       </div>
@@ -599,7 +628,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
 
   return (
     <div className="space-y-6 font-iran" dir="rtl">
-      <TicketCalendarOverview tickets={tickets} />
+      <TicketCalendarOverview />
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
@@ -625,6 +654,12 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                 <Download className="w-4 h-4" />
                 خروجی CSV
               </Button>
+              {can("tickets.merge") && selectedTickets.length > 1 && (
+                <Button variant="outline" size="sm" onClick={handleBulkMerge} className="gap-2 font-iran">
+                  <GitMerge className="w-4 h-4" />
+                  ادغام ({selectedTickets.length})
+                </Button>
+              )}
               {selectedTickets.length > 0 && (
                 <Dialog open={bulkAssignDialogOpen} onOpenChange={setBulkAssignDialogOpen}>
                   <DialogTrigger asChild>
@@ -694,6 +729,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                 <SelectItem value="all">همه وضعیت‌ها</SelectItem>
                 <SelectItem value="open">باز</SelectItem>
                 <SelectItem value="in-progress">در حال انجام</SelectItem>
+                <SelectItem value="waiting-for-client">در انتظار مشتری</SelectItem>
                 <SelectItem value="resolved">حل شده</SelectItem>
                 <SelectItem value="closed">بسته</SelectItem>
               </SelectContent>
@@ -718,12 +754,13 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
               </SelectTrigger>
               <SelectContent className="font-iran">
                 <SelectItem value="all">همه دسته‌ها</SelectItem>
-                <SelectItem value="hardware">سخت‌افزار</SelectItem>
-                <SelectItem value="software">نرم‌افزار</SelectItem>
-                <SelectItem value="network">شبکه</SelectItem>
-                <SelectItem value="email">ایمیل</SelectItem>
-                <SelectItem value="security">امنیت</SelectItem>
-                <SelectItem value="access">دسترسی</SelectItem>
+                {Object.entries(categories)
+                  .filter(([, category]) => typeof category.backendId === "number")
+                  .map(([slug, category]) => (
+                    <SelectItem key={slug} value={slug}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
               </SelectContent>
             </Select>
 
@@ -750,6 +787,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                 setFilterPriority("all")
                 setFilterCategory("all")
                 setFilterTechnician("all")
+                setSort("createdAt:desc")
               }}
               className="gap-2 font-iran"
             >
@@ -761,10 +799,11 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
           {/* Results Summary */}
           <div className="flex justify-between items-center mb-4">
             <p className="text-sm text-muted-foreground text-right font-iran">
-              نمایش {filteredTickets.length} از {tickets.length} تیکت
+              {ticketPage.totalCount} تیکت مطابق فیلترها
               {selectedTickets.length > 0 && ` - ${selectedTickets.length} انتخاب شده`}
             </p>
             <div className="flex items-center gap-2">
+              <TicketSortSelect value={sort} onChange={setSort} className="w-44" />
               <input
                 type="checkbox"
                 checked={selectedTickets.length === filteredTickets.length && filteredTickets.length > 0}
@@ -785,6 +824,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                   <TableHead className="text-right font-iran">عنوان</TableHead>
                   <TableHead className="text-right font-iran">وضعیت</TableHead>
                   <TableHead className="text-right font-iran">اولویت</TableHead>
+                  <TableHead className="text-right font-iran">SLA</TableHead>
                   <TableHead className="text-right font-iran">دسته‌بندی</TableHead>
                   <TableHead className="text-right font-iran">درخواست‌کننده</TableHead>
                   <TableHead className="text-right font-iran">تکنسین</TableHead>
@@ -814,15 +854,36 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge className={`${statusColors[ticket.status]} font-iran`}>
-                            {statusLabels[ticket.status]}
-                          </Badge>
+                          <div className="flex items-center gap-1">
+                            <Badge className={`${ticketStatusColors[ticket.status]} font-iran`}>
+                              {ticketStatusLabels[ticket.status]}
+                            </Badge>
+                            {!!ticket.reopenCount && (
+                              <Badge
+                                variant="outline"
+                                className="font-iran"
+                                title={`${ticket.reopenCount.toLocaleString("fa-IR")} بار بازگشایی شده`}
+                              >
+                                <RotateCcw className="w-3 h-3 ml-1" />
+                                {ticket.reopenCount.toLocaleString("fa-IR")}
+                              </Badge>
+                            )}
+                            {ticket.mergedIntoId && (
+                              <Badge variant="outline" className="font-iran" title={`ادغام‌شده در تیکت ${ticket.mergedIntoId}`}>
+                                <GitMerge className="w-3 h-3 ml-1" />
+                                {ticket.mergedIntoId}
+                              </Badge>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell>
                           <Badge className={`${priorityColors[ticket.priority]} font-iran`}>
                             {priorityLabels[ticket.priority]}
                           </Badge>
                         </TableCell>
+                        <TableCell>
+                          <SlaBadge ticket={ticket} />
+                        </TableCell>
                         <TableCell>
                           <span className="text-sm font-iran">{getCategoryLabel(ticket)}</span>
                         </TableCell>
@@ -914,6 +975,17 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                                 تغییر
                               </Button>
                             )}
+                            {can("tickets.merge") && isMergeable(ticket) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="gap-1 font-iran"
+                                onClick={() => openMergeDialog(ticket)}
+                              >
+                                <GitMerge className="w-3 h-3" />
+                                ادغام
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -921,7 +993,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                   })
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={10} className="text-center py-8">
+                    <TableCell colSpan={11} className="text-center py-8">
                       <div className="flex flex-col items-center gap-2">
                         <Search className="w-8 h-8 text-muted-foreground" />
                         <p className="text-muted-foreground font-iran">تیکتی یافت نشد</p>
@@ -932,9 +1004,30 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
               </TableBody>
             </Table>
           </div>
+
+          <div className="mt-4">
+            <TicketListPagination
+              page={ticketPage.page}
+              pageSize={ticketPage.pageSize}
+              pageCount={ticketPage.pageCount}
+              totalCount={ticketPage.totalCount}
+              isLoading={ticketPage.isLoading}
+              onPageChange={ticketPage.setPage}
+            />
+          </div>
         </CardContent>
       </Card>
 
+      <TicketMergeDialog
+        primary={mergePrimary}
+        initialSelection={mergeSelection}
+        open={mergeDialogOpen}
+        onOpenChange={(open) => {
+          setMergeDialogOpen(open)
+          if (!open) setSelectedTickets([])
+        }}
+      />
+
       {/* Individual Assign Technician Dialog */}
       <Dialog open={assignDialogOpen} onOpenChange={setAssignDialogOpen}>
         <DialogContent className="max-w-5xl max-h-[80vh] overflow-y-auto font-iran" dir="rtl">
@@ -954,7 +1047,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                     {selectedTicketForAssign && priorityLabels[selectedTicketForAssign.priority]}
                   </p>
                 </div>
-                <Badge className={selectedTicketForAssign && priorityColors[selectedTicketForAssign.priority]}>
+                <Badge className={selectedTicketForAssign ? priorityColors[selectedTicketForAssign.priority] : undefined}>
                   {selectedTicketForAssign && priorityLabels[selectedTicketForAssign.priority]}
                 </Badge>
               </div>
@@ -1022,7 +1115,9 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                       key={technician.id}
                       technician={technician}
                       ticket={selectedTicketForAssign}
-                      onAssign={(techId: string) => handleAssignTechnician(selectedTicketForAssign.id, techId)}
+                      onAssign={(techId: string) =>
+                        selectedTicketForAssign && handleAssignTechnician(selectedTicketForAssign.id, techId)
+                      }
                     />
                   ))}
                 </div>
@@ -1056,9 +1151,9 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                   <div className="text-right space-y-3">
                     <h2 className="text-2xl font-bold font-iran text-gray-900">{selectedTicket.title}</h2>
                     <div className="flex gap-3 items-center">
-                      <Badge className={`${statusColors[selectedTicket.status]} font-iran text-sm px-3 py-1`}>
+                      <Badge className={`${ticketStatusColors[selectedTicket.status]} font-iran text-sm px-3 py-1`}>
                         {React.createElement(statusIcons[selectedTicket.status], { className: "w-4 h-4 ml-1" })}
-                        {statusLabels[selectedTicket.status]}
+                        {ticketStatusLabels[selectedTicket.status]}
                       </Badge>
                       <Badge className={`${priorityColors[selectedTicket.priority]} font-iran text-sm px-3 py-1`}>
                         {priorityLabels[selectedTicket.priority]}
@@ -1121,44 +1216,24 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                   )}
 
                   {/* Attachments */}
-                  {selectedTicket.attachments && selectedTicket.attachments.length > 0 && (
-                    <Card>
-                      <CardHeader>
-                        <CardTitle className="flex items-center gap-2 text-right font-iran">
-                          <Paperclip className="w-5 h-5 text-purple-600" />
-                          فایل‌های پیوست
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                          {selectedTicket.attachments.map((file: any, index: number) => (
-                            <div key={index} className="flex items-center gap-3 p-3 bg-gray-50 border rounded-lg">
-                              <Paperclip className="w-4 h-4 text-gray-500" />
-                              <div className="flex-1 text-right">
-                                <p className="text-sm font-medium font-iran">{file.name}</p>
-                                <p className="text-xs text-muted-foreground font-iran">
-                                  {(file.size / 1024).toFixed(1)} KB
-                                </p>
-                              </div>
-                            </div>
-                          ))}
-                        </div>
-                      </CardContent>
-                    </Card>
+                  <TicketAttachments ticketId={selectedTicket.id} />
+
+                  {selectedThread.isLoading && (
+                    <p className="text-sm text-muted-foreground text-right font-iran">در حال بارگذاری پاسخ‌ها...</p>
                   )}
 
                   {/* Responses and Updates */}
-                  {selectedTicket.responses && selectedTicket.responses.length > 0 && (
+                  {selectedThread.responses.length > 0 && (
                     <Card>
                       <CardHeader>
                         <CardTitle className="flex items-center gap-2 text-right font-iran">
                           <MessageSquare className="w-5 h-5 text-orange-600" />
-                          پاسخ‌ها و به‌روزرسانی‌ها ({selectedTicket.responses.length})
+                          پاسخ‌ها و به‌روزرسانی‌ها ({selectedThread.responses.length})
                         </CardTitle>
                       </CardHeader>
                       <CardContent>
                         <div className="space-y-4">
-                          {selectedTicket.responses.map((response: any, index: number) => {
+                          {selectedThread.responses.map((response, index) => {
                             const responseDateTime = formatDateTime(response.timestamp)
                             const StatusIcon = statusIcons[response.status]
 
@@ -1177,9 +1252,9 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                                     </div>
                                   </div>
                                   <div className="text-left space-y-2">
-                                    <Badge className={`${statusColors[response.status]} font-iran text-xs`}>
+                                    <Badge className={`${ticketStatusColors[response.status]} font-iran text-xs`}>
                                       <StatusIcon className="w-3 h-3 ml-1" />
-                                      {statusLabels[response.status]}
+                                      {ticketStatusLabels[response.status]}
                                     </Badge>
                                     <div className="text-xs text-muted-foreground font-iran">
                                       <div className="flex items-center gap-1 justify-end">
@@ -1209,6 +1284,18 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
 
                 {/* Right Column - Sidebar Info */}
                 <div className="space-y-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2 text-right font-iran">
+                        <Edit className="w-5 h-5 text-amber-600" />
+                        تغییر وضعیت
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <TicketStatusChange ticket={selectedTicket} />
+                    </CardContent>
+                  </Card>
+
                   {/* Ticket Information */}
                   <Card>
                     <CardHeader>
@@ -1250,7 +1337,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                         <div className="flex justify-between items-center p-2 bg-gray-50 rounded">
                           <span className="text-sm text-muted-foreground font-iran">آخرین به‌روزرسانی:</span>
                           <span className="text-sm font-medium font-iran">
-                            {formatDateTime(selectedTicket.updatedAt).date}
+                            {formatDateTime(selectedTicket.updatedAt ?? selectedTicket.createdAt).date}
                           </span>
                         </div>
                       </div>
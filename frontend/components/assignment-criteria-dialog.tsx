@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Target, Star, Users, Award, TrendingUp, CheckCircle, Info, Zap } from "lucide-react"
+import { formatTechnicianRating } from "@/data/technician-profiles"
 
 const categoryLabels: Record<string, string> = {
   hardware: "سخت‌افزار",
@@ -352,7 +353,7 @@ export function AssignmentCriteriaDialog({
                             <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
                               <div className="flex items-center gap-1">
                                 <Star className="w-3 h-3 text-yellow-500" />
-                                <span>{tech.rating}</span>
+                                <span>{formatTechnicianRating(tech)}</span>
                               </div>
                               <div className="flex items-center gap-1">
                                 <Users className="w-3 h-3" />
@@ -0,0 +1,20 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { useCan } from "@/hooks/use-permissions"
+import type { Permission } from "@/lib/permissions"
+
+interface CanProps {
+  /** Every listed permission is required */
+  permission: Permission | readonly Permission[]
+  fallback?: ReactNode
+  children: ReactNode
+}
+
+/**
+ * Render children only for users holding the permission
+ */
+export function Can({ permission, fallback = null, children }: CanProps) {
+  const can = useCan()
+  return <>{can(permission) ? children : fallback}</>
+}
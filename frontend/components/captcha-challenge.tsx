@@ -0,0 +1,79 @@
+"use client"
+
+import { useState } from "react"
+import { RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { ApiCaptchaChallenge } from "@/lib/api-types"
+
+interface CaptchaChallengeProps {
+  challenge: ApiCaptchaChallenge
+  answer: string
+  onAnswerChange: (answer: string) => void
+  onRefresh: () => Promise<void>
+  /** Texts in the form's language */
+  labels: { prompt: string; refresh: string; invalid: string }
+  invalid?: boolean
+  dir?: "rtl" | "ltr"
+}
+
+/**
+ * The image challenge the server asks for after repeated failed sign-ins
+ */
+export function CaptchaChallenge({
+  challenge,
+  answer,
+  onAnswerChange,
+  onRefresh,
+  labels,
+  invalid = false,
+  dir = "ltr",
+}: CaptchaChallengeProps) {
+  const [refreshing, setRefreshing] = useState(false)
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    try {
+      await onRefresh()
+    } catch (error) {
+      console.error("Loading a new CAPTCHA failed:", error)
+    } finally {
+      setRefreshing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2" dir={dir}>
+      <Label htmlFor="captcha-answer" className="text-sm text-muted-foreground">
+        {labels.prompt}
+      </Label>
+      <div className="flex items-center gap-2">
+        {/* eslint-disable-next-line @next/next/no-img-element -- a data URL from the API */}
+        <img src={challenge.image} alt="CAPTCHA" className="h-12 rounded border border-border bg-white" />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={handleRefresh}
+          disabled={refreshing}
+          aria-label={labels.refresh}
+          title={labels.refresh}
+        >
+          <RefreshCw className={refreshing ? "h-4 w-4 animate-spin" : "h-4 w-4"} />
+        </Button>
+      </div>
+      <Input
+        id="captcha-answer"
+        value={answer}
+        onChange={(e) => onAnswerChange(e.target.value)}
+        autoComplete="off"
+        autoCapitalize="off"
+        spellCheck={false}
+        aria-invalid={invalid}
+        dir="ltr"
+      />
+      {invalid && <p className="text-sm text-destructive">{labels.invalid}</p>}
+    </div>
+  )
+}
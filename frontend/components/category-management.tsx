@@ -1029,7 +1029,7 @@ export function CategoryManagement({
                 </Label>
                 <Textarea
                   id="editCategoryDescription"
-                  value={editingCategory.description}
+                  value={editingCategory.description ?? ""}
                   onChange={(e) =>
                     setEditingCategory({
                       ...editingCategory,
@@ -1110,7 +1110,7 @@ export function CategoryManagement({
                 </Label>
                 <Textarea
                   id="editSubCategoryDescription"
-                  value={editingSubCategory.description}
+                  value={editingSubCategory.description ?? ""}
                   onChange={(e) =>
                     setEditingSubCategory({
                       ...editingSubCategory,
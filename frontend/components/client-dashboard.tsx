@@ -20,6 +20,9 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { ResolutionConfirmation } from "@/components/resolution-confirmation";
+import { SatisfactionSurvey } from "@/components/satisfaction-survey";
+import { SlaBadge } from "@/components/sla-badge";
 import {
   Dialog,
   DialogContent,
@@ -41,31 +44,33 @@ import {
   Ticket as TicketIcon,
   MessageSquare,
   Calendar,
+  GitMerge,
 } from "lucide-react";
+import Link from "next/link";
+import { useTicketMessages } from "@/hooks/use-ticket-messages";
+import { useTicketQuery, useTicketSummary } from "@/hooks/use-ticket-query";
+import { useTicket, useTicketMutations } from "@/hooks/use-tickets";
+import type { TicketListSort } from "@/lib/ticket-mappers";
+import { ticketStatusColors, ticketStatusLabels } from "@/lib/ticket-workflow";
 import type { CategoriesData } from "@/services/categories-types";
-import type { Ticket, TicketPriority, TicketStatus, TicketCategory } from "@/types";
+import type { Ticket, TicketDraft, TicketPriority, TicketStatus, TicketCategory } from "@/types";
+import { TicketListPagination, TicketSortSelect } from "./ticket-list-controls";
+import { TicketAttachments } from "./ticket-attachments";
 
 /* =========================
    Strong Types & Dictionaries
    ========================= */
 
 interface CurrentUser {
+  id?: string;
   email: string;
   name?: string;
 }
 
-const statusColors: Record<TicketStatus, string> = {
-  open: "bg-red-100 text-red-800 border-red-200",
-  "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
-  resolved: "bg-green-100 text-green-800 border-green-200",
-  closed: "bg-gray-100 text-gray-800 border-gray-200",
-};
-
-const statusLabels: Record<TicketStatus, string> = {
-  open: "باز",
-  "in-progress": "در حال انجام",
-  resolved: "حل شده",
-  closed: "بسته",
+// Clients are the ones the ticket waits for
+const clientStatusLabels: Record<TicketStatus, string> = {
+  ...ticketStatusLabels,
+  "waiting-for-client": "در انتظار پاسخ شما",
 };
 
 const priorityColors: Record<TicketPriority, string> = {
@@ -90,6 +95,11 @@ const categoryLabels: Record<TicketCategory, string> = {
   security: "امنیت",
   access: "دسترسی",
 };
+/** Surveys offered on the dashboard at once; older closed tickets keep theirs in the ticket view */
+const MAX_SURVEY_PROMPTS = 3;
+/** Recently closed tickets checked for a missing survey answer */
+const SURVEY_CANDIDATES = 10;
+
 const getCategoryLabel = (cat: string, categoriesData: CategoriesData) =>
   categoriesData?.[cat]?.label ?? categoryLabels[cat as TicketCategory] ?? cat;
 
@@ -98,8 +108,6 @@ const getCategoryLabel = (cat: string, categoriesData: CategoriesData) =>
    ========================= */
 
 interface ClientDashboardProps {
-  tickets: Ticket[];
-  onTicketCreate: (ticket: Ticket) => void;
   currentUser: CurrentUser | null;
   categoriesData: CategoriesData;
   activeSection?: "tickets" | "create";
@@ -110,20 +118,32 @@ interface ClientDashboardProps {
    ========================= */
 
 export function ClientDashboard({
-  tickets,
-  onTicketCreate,
   currentUser,
   categoriesData,
   activeSection = "tickets",
 }: ClientDashboardProps) {
+  const { count } = useTicketSummary(
+    { createdBy: currentUser?.id },
+    { enabled: !!currentUser?.id },
+  );
+  const { createTicket } = useTicketMutations();
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState<TicketStatus | "all">("all");
   const [filterPriority, setFilterPriority] = useState<TicketPriority | "all">("all");
+  const [sort, setSort] = useState<TicketListSort>("createdAt:desc");
   const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
+  const selectedThread = useTicketMessages(
+    viewDialogOpen ? selectedTicket?.id : null,
+    selectedTicket?.responseCount,
+  );
   const [ticketDialogOpen, setTicketDialogOpen] = useState(activeSection === "create");
   const [statsDialogOpen, setStatsDialogOpen] = useState(false);
-  const [statsDialogData, setStatsDialogData] = useState<{ title: string; tickets: Ticket[] } | null>(null);
+  const [statsDialogData, setStatsDialogData] = useState<{ title: string; statuses: TicketStatus[] } | null>(null);
+  const statsPage = useTicketQuery(
+    { statuses: statsDialogData?.statuses ?? [] },
+    { enabled: statsDialogOpen && statsDialogData !== null },
+  );
 
   useEffect(() => {
     if (activeSection === "create") {
@@ -133,43 +153,47 @@ export function ClientDashboard({
     }
   }, [activeSection]);
 
-  const userTickets = tickets.filter(
-    (t) => t.clientEmail === currentUser?.email
+  // Keep the open ticket in step with the server, e.g. after confirming its resolution
+  const { ticket: liveSelectedTicket } = useTicket(viewDialogOpen ? selectedTicket?.id : null);
+  useEffect(() => {
+    if (!liveSelectedTicket) return;
+    setSelectedTicket((current) => (current?.id === liveSelectedTicket.id ? liveSelectedTicket : current));
+  }, [liveSelectedTicket]);
+
+  // The backend scopes /api/tickets to the signed-in client; the table shows one server-filtered page
+  const ticketPage = useTicketQuery(
+    {
+      statuses: filterStatus === "all" ? [] : [filterStatus],
+      priority: filterPriority,
+      search: searchQuery,
+      sort,
+    },
   );
+  const filteredTickets = ticketPage.tickets;
 
-  const filteredTickets = userTickets.filter((ticket) => {
-    const idStr = String(ticket.id ?? "");
-    const matchesSearch =
-      (ticket.title ?? "").toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (ticket.description ?? "")
-        .toLowerCase()
-        .includes(searchQuery.toLowerCase()) ||
-      idStr.toLowerCase().includes(searchQuery.toLowerCase());
-
-    const matchesStatus =
-      filterStatus === "all" || ticket.status === filterStatus;
-    const matchesPriority =
-      filterPriority === "all" || ticket.priority === filterPriority;
 
-    return matchesSearch && matchesStatus && matchesPriority;
-  });
-
-  const openTickets = userTickets.filter((t) => t.status === "open");
-  const inProgressTickets = userTickets.filter((t) => t.status === "in-progress");
-  const resolvedTickets = userTickets.filter((t) => t.status === "resolved");
+  const resolvedTickets = useTicketQuery({ statuses: ["resolved"], sort: "updatedAt:desc" }).tickets;
+  // Closed tickets still waiting for a survey answer, most recent first
+  const unratedTickets = useTicketQuery(
+    { statuses: ["closed"], sort: "updatedAt:desc" },
+    { pageSize: SURVEY_CANDIDATES },
+  )
+    .tickets.filter((t) => !t.survey)
+    .slice(0, MAX_SURVEY_PROMPTS);
 
   const handleViewTicket = (ticket: Ticket) => {
     setSelectedTicket(ticket);
     setViewDialogOpen(true);
   };
 
-  const handleStatsClick = (title: string, ticketsList: Ticket[]) => {
-    setStatsDialogData({ title, tickets: ticketsList });
+  const handleStatsClick = (title: string, statuses: TicketStatus[]) => {
+    setStatsDialogData({ title, statuses });
     setStatsDialogOpen(true);
   };
 
-  const handleTicketCreate = (ticket: Ticket) => {
-    onTicketCreate(ticket);
+  // Errors propagate to the form so it can show them; the dialog only closes on success
+  const handleTicketCreate = async (ticket: TicketDraft, files: File[]) => {
+    await createTicket(ticket, files);
     setTicketDialogOpen(false);
   };
 
@@ -225,7 +249,7 @@ export function ClientDashboard({
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card
           role="button"
-          onClick={() => handleStatsClick("کل تیکت‌ها", userTickets)}
+          onClick={() => handleStatsClick("کل تیکت‌ها", [])}
           className="cursor-pointer hover:border-primary transition"
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -236,13 +260,13 @@ export function ClientDashboard({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-right font-iran">
-              {userTickets.length}
+              {count()}
             </div>
           </CardContent>
         </Card>
         <Card
           role="button"
-          onClick={() => handleStatsClick("در انتظار پاسخ", openTickets)}
+          onClick={() => handleStatsClick("در انتظار پاسخ", ["open"])}
           className="cursor-pointer hover:border-primary transition"
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -253,13 +277,13 @@ export function ClientDashboard({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-right font-iran">
-              {openTickets.length}
+              {count("open")}
             </div>
           </CardContent>
         </Card>
         <Card
           role="button"
-          onClick={() => handleStatsClick("در حال انجام", inProgressTickets)}
+          onClick={() => handleStatsClick("در حال انجام", ["in-progress", "waiting-for-client"])}
           className="cursor-pointer hover:border-primary transition"
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -270,13 +294,13 @@ export function ClientDashboard({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-right font-iran">
-              {inProgressTickets.length}
+              {count("in-progress", "waiting-for-client")}
             </div>
           </CardContent>
         </Card>
         <Card
           role="button"
-          onClick={() => handleStatsClick("حل شده", resolvedTickets)}
+          onClick={() => handleStatsClick("حل شده", ["resolved"])}
           className="cursor-pointer hover:border-primary transition"
         >
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -287,7 +311,7 @@ export function ClientDashboard({
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-right font-iran">
-              {resolvedTickets.length}
+              {count("resolved")}
             </div>
           </CardContent>
         </Card>
@@ -300,9 +324,9 @@ export function ClientDashboard({
               {statsDialogData?.title ?? "جزئیات"}
             </DialogTitle>
           </DialogHeader>
-          {statsDialogData?.tickets.length ? (
+          {statsPage.tickets.length ? (
             <div className="space-y-3">
-              {statsDialogData.tickets.map((ticket) => {
+              {statsPage.tickets.map((ticket) => {
                 const idStr = String(ticket.id ?? "");
                 return (
                   <div key={idStr} className="border rounded-lg p-3 space-y-2">
@@ -312,12 +336,13 @@ export function ClientDashboard({
                         <div className="text-xs text-muted-foreground">شناسه: {idStr}</div>
                       </div>
                       <div className="flex gap-2">
-                        <Badge className={`${statusColors[ticket.status]} font-iran`}>
-                          {statusLabels[ticket.status]}
+                        <Badge className={`${ticketStatusColors[ticket.status]} font-iran`}>
+                          {clientStatusLabels[ticket.status]}
                         </Badge>
                         <Badge className={`${priorityColors[ticket.priority]} font-iran`}>
                           {priorityLabels[ticket.priority]}
                         </Badge>
+                        <SlaBadge ticket={ticket} />
                       </div>
                     </div>
                     <div className="flex items-center justify-between text-sm text-muted-foreground">
@@ -340,12 +365,50 @@ export function ClientDashboard({
             </div>
           ) : (
             <p className="text-sm text-muted-foreground text-right font-iran">
-              تیکتی برای نمایش وجود ندارد.
+              {statsPage.isLoading ? "در حال بارگذاری..." : "تیکتی برای نمایش وجود ندارد."}
             </p>
           )}
+          {statsPage.pageCount > 1 && (
+            <TicketListPagination
+              page={statsPage.page}
+              pageSize={statsPage.pageSize}
+              pageCount={statsPage.pageCount}
+              totalCount={statsPage.totalCount}
+              isLoading={statsPage.isLoading}
+              onPageChange={statsPage.setPage}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
+      {/* Resolutions waiting for the client's answer */}
+      {resolvedTickets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-right font-iran">در انتظار تأیید شما</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {resolvedTickets.map((ticket) => (
+              <ResolutionConfirmation key={ticket.id} ticket={ticket} showTitle />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Satisfaction surveys of recently closed tickets */}
+      {unratedTickets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-right font-iran">نظر شما درباره رسیدگی</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {unratedTickets.map((ticket) => (
+              <SatisfactionSurvey key={ticket.id} ticket={ticket} showTitle />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Tickets Management */}
       <Card>
         <CardHeader>
@@ -353,7 +416,7 @@ export function ClientDashboard({
         </CardHeader>
         <CardContent>
           {/* Filters */}
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
             <div className="relative">
               <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
               <Input
@@ -377,6 +440,7 @@ export function ClientDashboard({
                 <SelectItem value="all">همه وضعیت‌ها</SelectItem>
                 <SelectItem value="open">باز</SelectItem>
                 <SelectItem value="in-progress">در حال انجام</SelectItem>
+                <SelectItem value="waiting-for-client">در انتظار پاسخ شما</SelectItem>
                 <SelectItem value="resolved">حل شده</SelectItem>
                 <SelectItem value="closed">بسته</SelectItem>
               </SelectContent>
@@ -399,12 +463,15 @@ export function ClientDashboard({
               </SelectContent>
             </Select>
 
+            <TicketSortSelect value={sort} onChange={setSort} />
+
             <Button
               variant="outline"
               onClick={() => {
                 setSearchQuery("");
                 setFilterStatus("all");
                 setFilterPriority("all");
+                setSort("createdAt:desc");
               }}
               className="gap-2 font-iran"
             >
@@ -424,6 +491,7 @@ export function ClientDashboard({
                   <TableHead className="text-right font-iran">عنوان</TableHead>
                   <TableHead className="text-right font-iran">وضعیت</TableHead>
                   <TableHead className="text-right font-iran">اولویت</TableHead>
+                  <TableHead className="text-right font-iran">SLA</TableHead>
                   <TableHead className="text-right font-iran">
                     دسته‌بندی
                   </TableHead>
@@ -454,10 +522,10 @@ export function ClientDashboard({
                         <TableCell>
                           <Badge
                             className={`${
-                              statusColors[ticket.status]
+                              ticketStatusColors[ticket.status]
                             } font-iran`}
                           >
-                            {statusLabels[ticket.status]}
+                            {clientStatusLabels[ticket.status]}
                           </Badge>
                         </TableCell>
                         <TableCell>
@@ -469,6 +537,9 @@ export function ClientDashboard({
                             {priorityLabels[ticket.priority]}
                           </Badge>
                         </TableCell>
+                        <TableCell>
+                          <SlaBadge ticket={ticket} />
+                        </TableCell>
                         <TableCell>
                           <span className="text-sm font-iran">
                             {getCategoryLabel(ticket.category, categoriesData)}
@@ -511,7 +582,7 @@ export function ClientDashboard({
                   })
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center py-8">
+                    <TableCell colSpan={9} className="text-center py-8">
                       <div className="flex flex-col items-center gap-2">
                         <Search className="w-8 h-8 text-muted-foreground" />
                         <p className="text-muted-foreground font-iran">
@@ -524,6 +595,17 @@ export function ClientDashboard({
               </TableBody>
             </Table>
           </div>
+
+          <div className="mt-4">
+            <TicketListPagination
+              page={ticketPage.page}
+              pageSize={ticketPage.pageSize}
+              pageCount={ticketPage.pageCount}
+              totalCount={ticketPage.totalCount}
+              isLoading={ticketPage.isLoading}
+              onPageChange={ticketPage.setPage}
+            />
+          </div>
         </CardContent>
       </Card>
 
@@ -550,10 +632,10 @@ export function ClientDashboard({
                   <div className="flex gap-2">
                     <Badge
                       className={`${
-                        statusColors[selectedTicket.status]
+                        ticketStatusColors[selectedTicket.status]
                       } font-iran`}
                     >
-                      {statusLabels[selectedTicket.status]}
+                      {clientStatusLabels[selectedTicket.status]}
                     </Badge>
                     <Badge
                       className={`${
@@ -574,6 +656,21 @@ export function ClientDashboard({
                 </div>
               </div>
 
+              {selectedTicket.mergedIntoId && (
+                <div className="flex items-center gap-2 rounded-lg border bg-muted/50 p-4 text-right" dir="rtl">
+                  <GitMerge className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <p className="text-sm font-iran">
+                    این تیکت با تیکت مشابه دیگری ادغام شد و پیگیری در{" "}
+                    <Link href={`/tickets/${selectedTicket.mergedIntoId}`} className="font-mono underline">
+                      تیکت {selectedTicket.mergedIntoId}
+                    </Link>{" "}
+                    ادامه دارد.
+                  </p>
+                </div>
+              )}
+              <ResolutionConfirmation ticket={selectedTicket} />
+              <SatisfactionSurvey ticket={selectedTicket} />
+
               <Separator />
 
               {/* Ticket Details */}
@@ -689,16 +786,21 @@ export function ClientDashboard({
                 </div>
               </div>
 
+              <TicketAttachments ticketId={selectedTicket.id} allowUpload />
+
+              {selectedThread.isLoading && (
+                <p className="text-sm text-muted-foreground text-right font-iran">در حال بارگذاری پاسخ‌ها...</p>
+              )}
+
               {/* Responses */}
-              {selectedTicket.responses &&
-                selectedTicket.responses.length > 0 && (
+              {selectedThread.responses.length > 0 && (
                   <div>
                     <h4 className="font-medium mb-4 flex items-center gap-2 font-iran">
                       <MessageSquare className="w-4 h-4" />
                       پاسخ‌ها و به‌روزرسانی‌ها
                     </h4>
                     <div className="space-y-4">
-                      {selectedTicket.responses.map((response, index) => (
+                      {selectedThread.responses.map((response, index) => (
                         <div key={index} className="border rounded-lg p-4">
                           <div className="flex justify-between items-start mb-2">
                             <div className="flex items-center gap-2">
@@ -714,10 +816,10 @@ export function ClientDashboard({
                             <div className="text-left">
                               <Badge
                                 className={`${
-                                  statusColors[response.status]
+                                  ticketStatusColors[response.status]
                                 } mb-1 font-iran`}
                               >
-                                {statusLabels[response.status]}
+                                {clientStatusLabels[response.status]}
                               </Badge>
                               <p className="text-xs text-muted-foreground flex items-center gap-1 font-iran">
                                 <Calendar className="w-3 h-3" />
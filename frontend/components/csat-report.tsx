@@ -0,0 +1,245 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { RefreshCw, Smile, Star, Target, Users } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useQuery } from "@/hooks/use-query"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import type { ApiCsatPeriod, ApiCsatReportQuery, ApiCsatSummary } from "@/lib/api-types"
+import { useAuth } from "@/lib/auth-context"
+import { queryKeys } from "@/lib/query-keys"
+import { getCsatReport } from "@/lib/surveys-api"
+
+const RANGE_DAYS = [30, 90, 365] as const
+type RangeDays = (typeof RANGE_DAYS)[number]
+
+const rangeLabels: Record<RangeDays, string> = {
+  30: "۳۰ روز گذشته",
+  90: "۹۰ روز گذشته",
+  365: "یک سال گذشته",
+}
+
+const periodLabels: Record<ApiCsatPeriod, string> = {
+  Week: "هفتگی",
+  Month: "ماهانه",
+}
+
+const DAY_MS = 24 * 60 * 60_000
+
+const isoDate = (time: number) => new Date(time).toISOString().slice(0, 10)
+
+const formatRating = (value?: number | null) =>
+  value == null ? "—" : value.toLocaleString("fa-IR", { maximumFractionDigits: 1 })
+
+const formatRate = (value?: number | null) =>
+  value == null ? "—" : `${Math.round(value * 100).toLocaleString("fa-IR")}٪`
+
+const SummaryCells = ({ summary }: { summary: ApiCsatSummary }) => (
+  <>
+    <TableCell>{summary.responses.toLocaleString("fa-IR")}</TableCell>
+    <TableCell>
+      <div className="flex items-center gap-2 min-w-32">
+        <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+        <span className="w-8">{formatRating(summary.averageRating)}</span>
+        <Progress value={((summary.averageRating ?? 0) / 5) * 100} className="h-2" />
+      </div>
+    </TableCell>
+    <TableCell>{formatRate(summary.satisfiedRate)}</TableCell>
+    <TableCell>{formatRate(summary.firstContactResolutionRate)}</TableCell>
+  </>
+)
+
+const SummaryHeads = () => (
+  <>
+    <TableHead className="text-right">پاسخ‌ها</TableHead>
+    <TableHead className="text-right">میانگین امتیاز</TableHead>
+    <TableHead className="text-right">راضی (۴ و ۵)</TableHead>
+    <TableHead className="text-right">حل در اولین پاسخ</TableHead>
+  </>
+)
+
+/**
+ * Satisfaction survey results for a date range: overall, per technician, per category and per week or month
+ */
+export function CsatReport() {
+  const { token } = useAuth()
+  const [rangeDays, setRangeDays] = useState<RangeDays>(90)
+  const [period, setPeriod] = useState<ApiCsatPeriod>("Week")
+
+  // Whole days, so the key stays the same between renders
+  const today = isoDate(Date.now())
+  const query = useMemo<ApiCsatReportQuery>(
+    () => ({ from: isoDate(new Date(today).getTime() - (rangeDays - 1) * DAY_MS), to: today, period }),
+    [today, rangeDays, period]
+  )
+  const { data: report, isLoading, error, refetch } = useQuery(
+    token ? queryKeys.csatReport(query) : null,
+    () => getCsatReport(token, query),
+    { keepPreviousData: true }
+  )
+
+  const overall = report?.overall
+  const stats = [
+    { label: "پاسخ‌ها", value: overall ? overall.responses.toLocaleString("fa-IR") : "—", icon: Users },
+    { label: "میانگین امتیاز", value: formatRating(overall?.averageRating ?? null), icon: Star },
+    { label: "مشتریان راضی", value: formatRate(overall?.satisfiedRate ?? null), icon: Smile },
+    { label: "حل در اولین پاسخ", value: formatRate(overall?.firstContactResolutionRate ?? null), icon: Target },
+  ]
+
+  const renderEmpty = (columns: number) => (
+    <TableRow>
+      <TableCell colSpan={columns} className="text-center text-muted-foreground py-6">
+        {isLoading ? "در حال بارگذاری..." : "پاسخی در این بازه ثبت نشده است"}
+      </TableCell>
+    </TableRow>
+  )
+
+  return (
+    <div className="space-y-6" dir="rtl">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap justify-between items-center gap-4">
+            <div className="space-y-1">
+              <CardTitle className="text-right">رضایت مشتریان</CardTitle>
+              <CardDescription className="text-right">
+                نتایج نظرسنجی‌هایی که مشتریان پس از بسته شدن تیکت پاسخ داده‌اند
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value) as RangeDays)} dir="rtl">
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RANGE_DAYS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {rangeLabels[days]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={period} onValueChange={(value) => setPeriod(value as ApiCsatPeriod)} dir="rtl">
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(periodLabels) as ApiCsatPeriod[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {periodLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="icon" onClick={() => void refetch()} aria-label="بارگذاری مجدد">
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-red-500 text-right">{getApiErrorMessage(error)}</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.map(({ label, value, icon: Icon }) => (
+                <div key={label} className="rounded-lg border p-4 text-right space-y-1">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Icon className="w-4 h-4" />
+                    {label}
+                  </div>
+                  <div className="text-2xl font-bold">{value}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-right">به تفکیک تکنسین</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">تکنسین</TableHead>
+                <SummaryHeads />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report?.byTechnician.length
+                ? report.byTechnician.map((row) => (
+                    <TableRow key={row.technicianId}>
+                      <TableCell className="font-medium">{row.technicianName}</TableCell>
+                      <SummaryCells summary={row} />
+                    </TableRow>
+                  ))
+                : renderEmpty(5)}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-right">به تفکیک دسته‌بندی</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">دسته‌بندی</TableHead>
+                  <SummaryHeads />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report?.byCategory.length
+                  ? report.byCategory.map((row) => (
+                      <TableRow key={row.categoryId}>
+                        <TableCell className="font-medium">{row.categoryName}</TableCell>
+                        <SummaryCells summary={row} />
+                      </TableRow>
+                    ))
+                  : renderEmpty(5)}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-right">روند {periodLabels[period]}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">{period === "Week" ? "هفته از" : "ماه از"}</TableHead>
+                  <SummaryHeads />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report?.byPeriod.length
+                  ? report.byPeriod.map((row) => (
+                      <TableRow key={row.start}>
+                        <TableCell className="font-medium whitespace-nowrap">
+                          {new Date(row.start).toLocaleDateString("fa-IR")}
+                        </TableCell>
+                        <SummaryCells summary={row} />
+                      </TableRow>
+                    ))
+                  : renderEmpty(5)}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
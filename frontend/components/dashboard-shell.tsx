@@ -15,6 +15,8 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
+import { ImpersonationBanner } from "@/components/impersonation-banner"
+import { SyncIndicator } from "@/components/sync-indicator"
 import { UserMenu } from "@/components/user-menu"
 import { usePreferences } from "@/lib/preferences-context"
 
@@ -273,42 +275,46 @@ export function DashboardShell({ user, navItems, activeItem, onSelect, children
         </aside>
 
         <div className="flex min-h-screen flex-1 flex-col lg:mr-0">
-          <header className="sticky top-0 z-30 flex h-16 items-center justify-between border-b border-border bg-background/95 px-4 shadow-md backdrop-blur">
-            <div className="flex items-center gap-2">
-              <Button
-                variant="ghost"
-                size="icon"
-                className="text-muted-foreground hover:text-foreground lg:hidden"
-                onClick={() => setMobileSidebarOpen(true)}
-              >
-                <Menu className="h-5 w-5" />
-              </Button>
-              <div className="hidden lg:flex lg:items-center lg:gap-2">
-                <span className="text-sm text-muted-foreground">مسیر</span>
-                <span className="text-sm text-muted-foreground">/</span>
-                <span className="text-sm font-medium text-foreground">
-                  {navItems.find((item) => item.target === activeItem)?.title ||
-                    navItems
-                      .flatMap((item) => item.children || [])
-                      .find((child) => child.target === activeItem)?.title ||
-                    "ناشناخته"}
-                </span>
+          <div className="sticky top-0 z-30">
+            <ImpersonationBanner />
+            <header className="flex h-16 items-center justify-between border-b border-border bg-background/95 px-4 shadow-md backdrop-blur">
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-foreground lg:hidden"
+                  onClick={() => setMobileSidebarOpen(true)}
+                >
+                  <Menu className="h-5 w-5" />
+                </Button>
+                <div className="hidden lg:flex lg:items-center lg:gap-2">
+                  <span className="text-sm text-muted-foreground">مسیر</span>
+                  <span className="text-sm text-muted-foreground">/</span>
+                  <span className="text-sm font-medium text-foreground">
+                    {navItems.find((item) => item.target === activeItem)?.title ||
+                      navItems
+                        .flatMap((item) => item.children || [])
+                        .find((child) => child.target === activeItem)?.title ||
+                      "ناشناخته"}
+                  </span>
+                </div>
               </div>
-            </div>
 
-            <div className="flex items-center gap-2">
-              <Button
-                variant="ghost"
-                size="icon"
-                className="text-muted-foreground hover:text-foreground"
-                onClick={handleThemeToggle}
-                title={theme === "dark" ? "تغییر به حالت روشن" : "تغییر به حالت تیره"}
-              >
-                {theme === "dark" ? <SunMedium className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
-              </Button>
-              <UserMenu />
-            </div>
-          </header>
+              <div className="flex items-center gap-2">
+                <SyncIndicator />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={handleThemeToggle}
+                  title={theme === "dark" ? "تغییر به حالت روشن" : "تغییر به حالت تیره"}
+                >
+                  {theme === "dark" ? <SunMedium className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+                </Button>
+                <UserMenu />
+              </div>
+            </header>
+          </div>
 
           <main className="flex-1 overflow-y-auto bg-background">
             <div className="mx-auto w-full max-w-7xl px-4 py-8 lg:px-8">{children}</div>
@@ -0,0 +1,74 @@
+"use client"
+
+import Link from "next/link"
+import { Copy, ExternalLink } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { useSimilarTickets } from "@/hooks/use-tickets"
+import { ticketStatusLabels } from "@/lib/ticket-workflow"
+import { useCategories } from "@/services/useCategories"
+
+interface DuplicateTicketSuggestionsProps {
+  title: string
+  description?: string | null
+  category?: string | null
+}
+
+/**
+ * Open tickets of the same category that read like the one being written, so the client can
+ * follow the existing ticket instead of filing it again. The server offers clients only their own
+ * tickets. Renders nothing without a match.
+ */
+export function DuplicateTicketSuggestions({ title, description, category }: DuplicateTicketSuggestionsProps) {
+  const { categories } = useCategories()
+  const { tickets: candidates } = useSimilarTickets({
+    categoryId: category ? categories[category]?.backendId : null,
+    title,
+    description,
+  })
+
+  if (candidates.length === 0) return null
+
+  return (
+    <div className="bg-sky-50 border border-sky-200 rounded-lg p-4 space-y-3 text-right" dir="rtl">
+      <div className="flex items-start gap-2">
+        <Copy className="w-4 h-4 text-sky-700 mt-0.5 flex-shrink-0" />
+        <div className="text-sm text-sky-900">
+          <p className="font-medium">ممکن است این مشکل قبلاً ثبت شده باشد</p>
+          <p className="text-sky-800">اگر یکی از تیکت‌های زیر همین مشکل است، پیگیری آن سریع‌تر از ثبت تیکت جدید است.</p>
+        </div>
+      </div>
+      <ul className="space-y-2">
+        {candidates.map((ticket) => {
+          const status = (
+            <Badge variant="outline" className="text-xs">
+              {ticketStatusLabels[ticket.status]}
+            </Badge>
+          )
+          return (
+            <li key={ticket.id}>
+              {ticket.canView ? (
+                <Link
+                  href={`/tickets/${ticket.id}`}
+                  target="_blank"
+                  className="flex items-center justify-between gap-2 rounded-md bg-background border px-3 py-2 text-sm hover:bg-muted"
+                >
+                  <span className="truncate">{ticket.title}</span>
+                  <span className="flex items-center gap-2 flex-shrink-0">
+                    {status}
+                    <ExternalLink className="w-3 h-3 text-muted-foreground" />
+                  </span>
+                </Link>
+              ) : (
+                // Someone else's report: enough to recognise the problem, nothing to open
+                <div className="flex items-center justify-between gap-2 rounded-md bg-background border px-3 py-2 text-sm">
+                  <span className="truncate">{ticket.title}</span>
+                  {status}
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
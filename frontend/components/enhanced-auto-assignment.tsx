@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import type { TechnicianProfile } from "@/data/technician-profiles"
+import { formatTechnicianRating, type TechnicianProfile } from "@/data/technician-profiles"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -12,6 +12,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Progress } from "@/components/ui/progress"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useTicketQuery } from "@/hooks/use-ticket-query"
 import { toast } from "@/hooks/use-toast"
 import { useAuth } from "@/lib/auth-context"
 import {
@@ -19,6 +20,7 @@ import {
   updateSmartAssignmentStatus,
   runSmartAssignment,
 } from "@/lib/smart-assignment-api"
+import type { Ticket } from "@/types"
 import { Loader2 } from "lucide-react"
 import {
   Settings,
@@ -64,97 +66,6 @@ interface AssignmentRule {
   description: string
 }
 
-const mockTechnicians = [
-  {
-    id: "tech-001",
-    name: "علی احمدی",
-    email: "ali@company.com",
-    specialties: ["network", "hardware", "security"],
-    primarySpecialty: "network",
-    rating: 4.8,
-    activeTickets: 3,
-    completedTickets: 145,
-    status: "available",
-    avgResponseTime: 1.2, // hours
-    avgResolutionTime: 4.5, // hours
-    customerSatisfaction: 4.9,
-    workingHours: { start: 8, end: 17 },
-    timezone: "Asia/Tehran",
-    certifications: ["CCNA", "CompTIA Network+"],
-    languages: ["فارسی", "انگلیسی"],
-    lastActive: new Date(),
-    performanceScore: 92,
-    efficiency: 88,
-    escalationRate: 5, // percentage
-  },
-  {
-    id: "tech-002",
-    name: "سارا محمدی",
-    email: "sara@company.com",
-    specialties: ["software", "security", "access"],
-    primarySpecialty: "software",
-    rating: 4.9,
-    activeTickets: 2,
-    completedTickets: 198,
-    status: "available",
-    avgResponseTime: 0.8,
-    avgResolutionTime: 3.2,
-    customerSatisfaction: 4.95,
-    workingHours: { start: 9, end: 18 },
-    timezone: "Asia/Tehran",
-    certifications: ["CISSP", "CEH"],
-    languages: ["فارسی", "انگلیسی", "آلمانی"],
-    lastActive: new Date(),
-    performanceScore: 96,
-    efficiency: 94,
-    escalationRate: 2,
-  },
-  {
-    id: "tech-003",
-    name: "حسن رضایی",
-    email: "hassan@company.com",
-    specialties: ["hardware", "email", "network"],
-    primarySpecialty: "hardware",
-    rating: 4.7,
-    activeTickets: 5,
-    completedTickets: 89,
-    status: "busy",
-    avgResponseTime: 2.1,
-    avgResolutionTime: 6.8,
-    customerSatisfaction: 4.6,
-    workingHours: { start: 8, end: 16 },
-    timezone: "Asia/Tehran",
-    certifications: ["CompTIA A+", "ITIL"],
-    languages: ["فارسی"],
-    lastActive: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
-    performanceScore: 78,
-    efficiency: 72,
-    escalationRate: 12,
-  },
-  {
-    id: "tech-004",
-    name: "مریم کریمی",
-    email: "maryam@company.com",
-    specialties: ["software", "access", "email"],
-    primarySpecialty: "access",
-    rating: 4.6,
-    activeTickets: 1,
-    completedTickets: 67,
-    status: "available",
-    avgResponseTime: 1.5,
-    avgResolutionTime: 5.1,
-    customerSatisfaction: 4.7,
-    workingHours: { start: 10, end: 19 },
-    timezone: "Asia/Tehran",
-    certifications: ["Microsoft 365", "Azure AD"],
-    languages: ["فارسی", "انگلیسی"],
-    lastActive: new Date(),
-    performanceScore: 84,
-    efficiency: 81,
-    escalationRate: 8,
-  },
-]
-
 const defaultRules: AssignmentRule[] = [
   {
     id: "urgent-expert",
@@ -240,18 +151,17 @@ const getCategoryLabel = (ticketOrId: any) => {
   return categoryLabels[id] ?? id
 }
 
+// Tickets a simulation run scores
+const SIMULATION_SIZE = 10
+
 interface EnhancedAutoAssignmentProps {
-  tickets: any[]
   technicians: TechnicianProfile[]
-  onTicketUpdate: (ticketId: string, updates: any) => void
+  onTicketUpdate: (ticketId: string, updates: Partial<Ticket>) => void
 }
 
-export function EnhancedAutoAssignment({
-  tickets,
-  technicians: technicianOptions,
-  onTicketUpdate,
-}: EnhancedAutoAssignmentProps) {
+export function EnhancedAutoAssignment({ technicians, onTicketUpdate }: EnhancedAutoAssignmentProps) {
   const { token } = useAuth()
+  const { tickets: unassignedTickets } = useTicketQuery({ assignedTo: "unassigned" }, { pageSize: SIMULATION_SIZE })
   const [isEnabled, setIsEnabled] = useState(false)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
@@ -262,7 +172,12 @@ export function EnhancedAutoAssignment({
   const [simulationDialogOpen, setSimulationDialogOpen] = useState(false)
   const [simulationResults, setSimulationResults] = useState<any[]>([])
   const [activeTab, setActiveTab] = useState("rules")
-  const technicians = technicianOptions && technicianOptions.length > 0 ? technicianOptions : mockTechnicians
+  // Survey average across technicians, weighted by how many answers each has
+  const surveyAnswers = technicians.reduce((sum, tech) => sum + tech.ratingCount, 0)
+  const averageSatisfaction =
+    surveyAnswers > 0
+      ? technicians.reduce((sum, tech) => sum + tech.rating * tech.ratingCount, 0) / surveyAnswers
+      : null
 
   // Load current status on mount
   useEffect(() => {
@@ -390,7 +305,7 @@ export function EnhancedAutoAssignment({
     const matchingRelated = technician.specialties.filter((s: string) => relatedSpecialties.includes(s))
     score += matchingRelated.length * 5
 
-    score += technician.certifications.length * 2
+    score += (technician.expertise?.length ?? 0) * 2
 
     return Math.min(100, score)
   }
@@ -448,8 +363,9 @@ export function EnhancedAutoAssignment({
     return Math.min(100, (technician.completedTickets / maxExperience) * 100)
   }
 
-  const calculateCustomerRatingScore = (technician: any) => {
-    return (technician.customerSatisfaction / 5) * 100
+  // Average of the clients' satisfaction surveys, 1–5
+  const calculateCustomerRatingScore = (technician: TechnicianProfile) => {
+    return (technician.rating / 5) * 100
   }
 
   const getRelatedSpecialties = (category: string) => {
@@ -531,8 +447,6 @@ export function EnhancedAutoAssignment({
   }
 
   const runSimulation = () => {
-    const unassignedTickets = tickets.filter((ticket) => !ticket.assignedTo).slice(0, 10) // Limit to 10 for demo
-
     const results = unassignedTickets.map((ticket) => {
       const bestTech = findBestTechnician(ticket)
       return {
@@ -835,6 +749,12 @@ export function EnhancedAutoAssignment({
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
+                      {technicians.length === 0 && (
+                        <div className="text-center py-8">
+                          <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                          <p className="text-muted-foreground">هنوز تکنسینی ثبت نشده است</p>
+                        </div>
+                      )}
                       <div className="space-y-4">
                         {technicians.map((tech) => (
                           <div key={tech.id} className="flex items-center justify-between p-3 border rounded-lg">
@@ -853,8 +773,8 @@ export function EnhancedAutoAssignment({
                               </div>
                             </div>
                             <div className="text-left">
-                              <div className="text-sm font-medium">{tech.performanceScore}</div>
-                              <div className="text-xs text-muted-foreground">امتیاز کل</div>
+                              <div className="text-sm font-medium">{formatTechnicianRating(tech)}</div>
+                              <div className="text-xs text-muted-foreground">رضایت مشتری</div>
                             </div>
                           </div>
                         ))}
@@ -913,7 +833,11 @@ export function EnhancedAutoAssignment({
                   <Card>
                     <CardContent className="pt-6">
                       <div className="text-center">
-                        <div className="text-2xl font-bold text-purple-600">4.7</div>
+                        <div className="text-2xl font-bold text-purple-600">
+                          {averageSatisfaction !== null
+                            ? averageSatisfaction.toLocaleString("fa-IR", { maximumFractionDigits: 1 })
+                            : "—"}
+                        </div>
                         <div className="text-sm text-muted-foreground">رضایت مشتری</div>
                       </div>
                     </CardContent>
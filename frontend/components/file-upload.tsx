@@ -5,81 +5,39 @@ import { useDropzone } from "react-dropzone"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { toast } from "@/hooks/use-toast"
-import { Upload, X, File, ImageIcon, FileText } from "lucide-react"
-
-
-export const validateFile = (file: File): string | null => {
-  const maxSize = 10 * 1024 * 1024 // 10MB
-  const allowedTypes = [
-    "image/jpeg",
-    "image/png",
-    "image/gif",
-    "application/pdf",
-    "text/plain",
-    "application/msword",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    "application/vnd.ms-excel",
-    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  ]
-
-  if (file.size > maxSize) {
-    return "حجم فایل نباید بیشتر از ۱۰ مگابایت باشد"
-  }
-
-  if (!allowedTypes.includes(file.type)) {
-    return "نوع فایل مجاز نیست"
-  }
-
-  return null
-}
-
-export const uploadFile = async (file: File): Promise<UploadedFile> => {
-  
-  await new Promise((resolve) => setTimeout(resolve, 1000))
-
-  return {
-    id: Math.random().toString(36).substr(2, 9),
-    name: file.name,
-    size: file.size,
-    type: file.type,
-    url: URL.createObjectURL(file),
-    uploadedAt: new Date().toISOString(),
-  }
-}
-
-export const formatFileSize = (bytes: number): string => {
-  if (bytes === 0) return "0 بایت"
-
-  const k = 1024
-  const sizes = ["بایت", "کیلوبایت", "مگابایت", "گیگابایت"]
-  const i = Math.floor(Math.log(bytes) / Math.log(k))
-
-  return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
-}
-
-export interface UploadedFile {
-  id: string
-  name: string
-  size: number
-  type: string
-  url: string
-  uploadedAt: string
-}
+import { useAttachmentPolicy, useAttachmentUpload } from "@/hooks/use-attachments"
+import { formatFileSize, validateFile, type PendingAttachment } from "@/lib/file-upload"
+import { Upload, X, File, ImageIcon, FileText, Ban } from "lucide-react"
 
 interface FileUploadProps {
-  onFilesChange: (files: UploadedFile[]) => void
+  /**
+   * Upload straight to this ticket. Without it the files are only collected and reported
+   * through `onFilesChange`, to be uploaded once the ticket has been created.
+   */
+  ticketId?: string
+  /** Attach uploads to a reply rather than the ticket itself */
+  messageId?: string | null
+  onFilesChange?: (files: PendingAttachment[]) => void
   maxFiles?: number
   className?: string
 }
 
-export function FileUpload({ onFilesChange, maxFiles = 5, className }: FileUploadProps) {
-  const [files, setFiles] = useState<UploadedFile[]>([])
-  const [uploading, setUploading] = useState<string[]>([])
-  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({})
+export const getFileIcon = (type: string) => {
+  if (type.startsWith("image/")) return <ImageIcon className="w-4 h-4" />
+  if (type.includes("pdf") || type.includes("document")) return <FileText className="w-4 h-4" />
+  return <File className="w-4 h-4" />
+}
+
+export function FileUpload({ ticketId, messageId, onFilesChange, maxFiles = 5, className }: FileUploadProps) {
+  const policy = useAttachmentPolicy()
+  const { uploads, upload, cancel } = useAttachmentUpload(ticketId)
+  const [pending, setPending] = useState<PendingAttachment[]>([])
+
+  const fileCount = ticketId ? uploads.length : pending.length
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
-      if (files.length + acceptedFiles.length > maxFiles) {
+      if (fileCount + acceptedFiles.length > maxFiles) {
         toast({
           title: "تعداد فایل‌ها زیاد است",
           description: `حداکثر ${maxFiles} فایل مجاز است`,
@@ -88,110 +46,76 @@ export function FileUpload({ onFilesChange, maxFiles = 5, className }: FileUploa
         return
       }
 
-      for (const file of acceptedFiles) {
-        const error = validateFile(file)
+      const valid = acceptedFiles.filter((file) => {
+        const error = validateFile(file, policy)
         if (error) {
           toast({
             title: "خطا در فایل",
             description: `${file.name}: ${error}`,
             variant: "destructive",
           })
-          continue
         }
+        return !error
+      })
 
-        const tempId = Math.random().toString(36).substr(2, 9)
-        setUploading((prev) => [...prev, tempId])
-        setUploadProgress((prev) => ({ ...prev, [tempId]: 0 }))
-
-        
-        const progressInterval = setInterval(() => {
-          setUploadProgress((prev) => {
-            const currentProgress = prev[tempId] || 0
-            if (currentProgress >= 90) {
-              clearInterval(progressInterval)
-              return prev
-            }
-            return { ...prev, [tempId]: currentProgress + 10 }
-          })
-        }, 100)
-
-        try {
-          const uploadedFile = await uploadFile(file)
-          setFiles((prev) => {
-            const newFiles = [...prev, uploadedFile]
-            onFilesChange(newFiles)
-            return newFiles
-          })
-          setUploadProgress((prev) => ({ ...prev, [tempId]: 100 }))
-
-          setTimeout(() => {
-            setUploading((prev) => prev.filter((id) => id !== tempId))
-            setUploadProgress((prev) => {
-              const { [tempId]: _, ...rest } = prev
-              return rest
-            })
-          }, 500)
-
-          toast({
-            title: "فایل آپلود شد",
-            description: `${file.name} با موفقیت آپلود شد`,
-          })
-        } catch (error) {
-          setUploading((prev) => prev.filter((id) => id !== tempId))
-          setUploadProgress((prev) => {
-            const { [tempId]: _, ...rest } = prev
-            return rest
-          })
-          toast({
-            title: "خطا در آپلود",
-            description: `خطا در آپلود ${file.name}`,
-            variant: "destructive",
-          })
-        }
+      if (ticketId) {
+        await Promise.all(valid.map((file) => upload(file, { messageId })))
+        return
       }
+
+      setPending((prev) => {
+        const next = [
+          ...prev,
+          ...valid.map((file) => ({ id: `${file.name}-${file.size}-${file.lastModified}`, file })),
+        ]
+        onFilesChange?.(next)
+        return next
+      })
     },
-    [files.length, maxFiles, onFilesChange],
+    [fileCount, maxFiles, policy, ticketId, upload, messageId, onFilesChange],
   )
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     multiple: true,
-    disabled: files.length >= maxFiles,
+    disabled: fileCount >= maxFiles || !policy.canUpload,
   })
 
   const removeFile = (fileId: string) => {
-    setFiles((prev) => {
+    setPending((prev) => {
       const newFiles = prev.filter((f) => f.id !== fileId)
-      onFilesChange(newFiles)
+      onFilesChange?.(newFiles)
       return newFiles
     })
-    toast({
-      title: "فایل حذف شد",
-      description: "فایل از لیست پیوست‌ها حذف شد",
-    })
   }
 
-  const getFileIcon = (type: string) => {
-    if (type.startsWith("image/")) return <ImageIcon className="w-4 h-4" />
-    if (type.includes("pdf") || type.includes("document")) return <FileText className="w-4 h-4" />
-    return <File className="w-4 h-4" />
+  if (!policy.canUpload) {
+    return (
+      <div
+        className={`flex items-center gap-2 border rounded-lg p-4 text-sm text-muted-foreground bg-muted/50 ${className ?? ""}`}
+        dir="rtl"
+      >
+        <Ban className="w-4 h-4" />
+        ارسال پیوست توسط مدیر سیستم غیرفعال شده است
+      </div>
+    )
   }
 
   return (
-    <div className={`space-y-4 ${className}`} dir="rtl">
+    <div className={`space-y-4 ${className ?? ""}`} dir="rtl">
       <div
         {...getRootProps()}
         className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
           isDragActive
             ? "border-primary bg-primary/5"
-            : files.length >= maxFiles
+            : fileCount >= maxFiles
               ? "border-muted-foreground/25 bg-muted/50 cursor-not-allowed"
               : "border-muted-foreground/25 hover:border-primary hover:bg-primary/5"
         }`}
       >
         <input {...getInputProps()} />
         <Upload className="w-8 h-8 mx-auto text-muted-foreground mb-2" />
-        {files.length >= maxFiles ? (
+        {fileCount >= maxFiles ? (
           <p className="text-sm text-muted-foreground">حداکثر تعداد فایل ({maxFiles}) آپلود شده است</p>
         ) : isDragActive ? (
           <p className="text-sm text-muted-foreground">فایل‌ها را اینجا رها کنید...</p>
@@ -201,46 +125,59 @@ export function FileUpload({ onFilesChange, maxFiles = 5, className }: FileUploa
             <Button variant="outline" size="sm" type="button">
               انتخاب فایل
             </Button>
-            <p className="text-xs text-muted-foreground mt-2">حداکثر {maxFiles} فایل، هر کدام تا ۱۰ مگابایت</p>
+            <p className="text-xs text-muted-foreground mt-2">
+              حداکثر {maxFiles} فایل، هر کدام تا {policy.maxSizeMB.toLocaleString("fa-IR")} مگابایت
+            </p>
           </div>
         )}
       </div>
 
       {/* Upload Progress */}
-      {uploading.length > 0 && (
+      {uploads.length > 0 && (
         <div className="space-y-2">
-          {uploading.map((tempId) => (
-            <div key={tempId} className="space-y-1">
-              <div className="flex justify-between text-sm">
-                <span>در حال آپلود...</span>
-                <span>{uploadProgress[tempId] || 0}%</span>
+          {uploads.map((item) => (
+            <div key={item.id} className="space-y-1">
+              <div className="flex justify-between items-center text-sm">
+                <span className="truncate">در حال آپلود {item.name}...</span>
+                <div className="flex items-center gap-2">
+                  <span>{item.progress}%</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    type="button"
+                    onClick={() => cancel(item.id)}
+                    className="h-6 px-2 text-red-500 hover:text-red-700 hover:bg-red-50"
+                  >
+                    لغو
+                  </Button>
+                </div>
               </div>
-              <Progress value={uploadProgress[tempId] || 0} className="h-2" />
+              <Progress value={item.progress} className="h-2" />
             </div>
           ))}
         </div>
       )}
 
-      {/* Uploaded Files */}
-      {files.length > 0 && (
+      {/* Files waiting for the ticket to be created */}
+      {pending.length > 0 && (
         <div className="space-y-2">
           <h4 className="text-sm font-medium text-right">فایل‌های پیوست شده:</h4>
+          <p className="text-xs text-muted-foreground text-right">فایل‌ها پس از ثبت تیکت آپلود می‌شوند.</p>
           <div className="space-y-2">
-            {files.map((file) => (
-              <div key={file.id} className="flex items-center justify-between p-3 border rounded-lg bg-muted/50">
+            {pending.map(({ id, file }) => (
+              <div key={id} className="flex items-center justify-between p-3 border rounded-lg bg-muted/50">
                 <div className="flex items-center gap-2">
                   {getFileIcon(file.type)}
                   <div>
                     <p className="text-sm font-medium text-right">{file.name}</p>
-                    <p className="text-xs text-muted-foreground text-right">
-                      {formatFileSize(file.size)} • {new Date(file.uploadedAt).toLocaleTimeString("fa-IR")}
-                    </p>
+                    <p className="text-xs text-muted-foreground text-right">{formatFileSize(file.size)}</p>
                   </div>
                 </div>
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => removeFile(file.id)}
+                  type="button"
+                  onClick={() => removeFile(id)}
                   className="text-red-500 hover:text-red-700 hover:bg-red-50"
                 >
                   <X className="w-4 h-4" />
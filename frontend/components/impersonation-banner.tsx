@@ -0,0 +1,55 @@
+"use client"
+
+import { useState } from "react"
+import { Eye, LogOut } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useAuth } from "@/lib/auth-context"
+
+/**
+ * Stays on screen for as long as an admin views the app as another user
+ */
+export function ImpersonationBanner() {
+  const { user, impersonation, exitImpersonation } = useAuth()
+  const [exiting, setExiting] = useState(false)
+
+  if (!user || !impersonation) return null
+
+  const handleExit = async () => {
+    setExiting(true)
+    try {
+      await exitImpersonation()
+    } finally {
+      setExiting(false)
+    }
+  }
+
+  return (
+    <div
+      role="status"
+      className="flex flex-wrap items-center justify-between gap-2 bg-amber-500 px-4 py-2 text-sm text-amber-950"
+    >
+      <div className="flex items-center gap-2">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span>
+          در حال مشاهده به عنوان <strong>{user.name}</strong> ({user.email}) - وارد شده توسط{" "}
+          {impersonation.impersonator.name}
+        </span>
+        {impersonation.expiresAt && (
+          <span className="text-amber-900/80">
+            تا {new Date(impersonation.expiresAt).toLocaleTimeString("fa-IR", { hour: "2-digit", minute: "2-digit" })}
+          </span>
+        )}
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="gap-2 border-amber-950/30 bg-amber-50 text-amber-950 hover:bg-amber-100"
+        onClick={handleExit}
+        disabled={exiting}
+      >
+        <LogOut className="h-4 w-4" />
+        بازگشت به حساب خودم
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Eye } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useQuery } from "@/hooks/use-query"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { useAuth } from "@/lib/auth-context"
+import { baseRoleLabels } from "@/lib/permissions"
+import { queryKeys } from "@/lib/query-keys"
+import { roleFromApi } from "@/lib/role-mappers"
+import { getUsers } from "@/lib/users-api"
+
+interface ImpersonationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Preselect the user, e.g. when opened from the user directory */
+  userId?: string
+}
+
+/**
+ * Pick a user and a reason, then see the app as they do. The reason goes into the audit trail.
+ */
+export function ImpersonationDialog({ open, onOpenChange, userId }: ImpersonationDialogProps) {
+  const { token, user: currentUser, startImpersonation } = useAuth()
+  const { data: users = [] } = useQuery(open && token ? queryKeys.users : null, () => getUsers(token))
+  const [selectedId, setSelectedId] = useState("")
+  const [reason, setReason] = useState("")
+  const [starting, setStarting] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setSelectedId(userId ?? "")
+    setReason("")
+  }, [open, userId])
+
+  // Deactivated accounts can't sign in, so there is nothing to see as them
+  const candidates = useMemo(
+    () => users.filter((user) => user.id !== currentUser?.id && (user.isActive ?? true)),
+    [users, currentUser?.id]
+  )
+
+  const handleStart = async () => {
+    if (!selectedId || !reason.trim() || starting) return
+    setStarting(true)
+    try {
+      await startImpersonation(selectedId, reason.trim())
+      onOpenChange(false)
+    } catch (error) {
+      toast({
+        title: "مشاهده از دید کاربر ممکن نشد",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">مشاهده از دید کاربر</DialogTitle>
+          <DialogDescription className="text-right">
+            سامانه همان‌طور که کاربر می‌بیند نمایش داده می‌شود. هر کاری که در این حالت انجام دهید با نام شما و کاربر
+            ثبت می‌شود.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>کاربر</Label>
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger className="text-right" dir="rtl">
+                <SelectValue placeholder="انتخاب کاربر" />
+              </SelectTrigger>
+              <SelectContent dir="rtl">
+                {candidates.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.fullName} ({baseRoleLabels[roleFromApi(user.role)]}) - {user.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="impersonation-reason">دلیل</Label>
+            <Textarea
+              id="impersonation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="مثلاً: بررسی مشکل نمایش تیکت‌ها برای این کاربر"
+              className="text-right"
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            انصراف
+          </Button>
+          <Button onClick={handleStart} disabled={!selectedId || !reason.trim() || starting} className="gap-2">
+            <Eye className="w-4 h-4" />
+            {starting ? "در حال ورود..." : "شروع"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { Check, X } from "lucide-react"
+import {
+  checkPassword,
+  getPasswordStrength,
+  passwordStrengthLabels,
+  type PasswordPolicy,
+} from "@/lib/password-policy"
+import { cn } from "@/lib/utils"
+
+const strengthColors = ["bg-red-500", "bg-red-500", "bg-amber-500", "bg-emerald-500", "bg-emerald-600"]
+
+interface PasswordStrengthMeterProps {
+  password: string
+  policy: PasswordPolicy
+  /** The account's email, which the password must not contain */
+  email?: string | null
+  className?: string
+}
+
+/**
+ * Live strength bar and policy checklist under a new-password field
+ */
+export function PasswordStrengthMeter({ password, policy, email, className }: PasswordStrengthMeterProps) {
+  if (!password) return null
+
+  const strength = getPasswordStrength(password, policy, email)
+  const checks = checkPassword(password, policy, email)
+
+  return (
+    <div className={cn("space-y-2 text-right", className)} dir="rtl" aria-live="polite">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {[1, 2, 3, 4].map((level) => (
+            <div
+              key={level}
+              className={cn("h-1.5 flex-1 rounded-full bg-muted", strength >= level && strengthColors[strength])}
+            />
+          ))}
+        </div>
+        <span className="text-xs text-muted-foreground">{passwordStrengthLabels[strength]}</span>
+      </div>
+      <ul className="space-y-1 text-xs">
+        {checks.map((check) => (
+          <li
+            key={check.rule}
+            className={cn("flex items-center gap-1", check.passed ? "text-emerald-600" : "text-muted-foreground")}
+          >
+            {check.passed ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {check.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+"use client"
+
+import { useState } from "react"
+import { CheckCircle2, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { useTicketWorkflow } from "@/hooks/use-ticket-workflow"
+import { useTicketMutations } from "@/hooks/use-tickets"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { useAuth } from "@/lib/auth-context"
+import { TicketTransitionError, autoCloseAt, findTransition } from "@/lib/ticket-workflow"
+import { cn } from "@/lib/utils"
+import type { Ticket } from "@/types"
+
+interface ResolutionConfirmationProps {
+  ticket: Pick<Ticket, "id" | "title" | "status" | "clientId" | "resolvedAt" | "updatedAt">
+  /** Show the ticket's title, for lists of several tickets */
+  showTitle?: boolean
+  className?: string
+}
+
+/**
+ * Asks the client whether a resolved ticket is really fixed: confirming closes it, "still broken"
+ * reopens it with the client's comment. Renders nothing for anyone else or any other status.
+ */
+export function ResolutionConfirmation({ ticket, showTitle = false, className }: ResolutionConfirmationProps) {
+  const { user } = useAuth()
+  const { workflow } = useTicketWorkflow()
+  const { updateTicket, respondToTicket } = useTicketMutations()
+  const [reopening, setReopening] = useState(false)
+  const [comment, setComment] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  if (!user || ticket.status !== "resolved" || ticket.clientId !== user.id) return null
+
+  const canConfirm = !!findTransition(workflow, "resolved", "closed", user.role)
+  const canReopen = !!findTransition(workflow, "resolved", "in-progress", user.role)
+  if (!canConfirm && !canReopen) return null
+
+  const closesAt = autoCloseAt(ticket, workflow)
+
+  const handleConfirm = async () => {
+    setSaving(true)
+    try {
+      await updateTicket(ticket.id, { status: "closed" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReopen = async () => {
+    if (!comment.trim()) return
+    setSaving(true)
+    try {
+      const result = await respondToTicket(ticket.id, comment.trim(), "in-progress")
+      toast(
+        result?.queued
+          ? { title: "درخواست بازگشایی در صف ارسال", description: "پس از اتصال مجدد ارسال می‌شود" }
+          : { title: "تیکت دوباره باز شد", description: "توضیح شما برای تکنسین ارسال شد" }
+      )
+      setReopening(false)
+      setComment("")
+    } catch (error) {
+      toast({
+        title: "بازگشایی تیکت ناموفق بود",
+        description: error instanceof TicketTransitionError ? error.message : getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className={cn("rounded-lg border border-emerald-200 bg-emerald-50 p-4 space-y-3 text-right", className)} dir="rtl">
+      <div className="space-y-1">
+        <p className="font-medium font-iran">
+          {showTitle ? `«${ticket.title}» حل شده اعلام شده است` : "این تیکت حل شده اعلام شده است"}
+        </p>
+        <p className="text-sm text-muted-foreground font-iran">
+          آیا مشکل شما برطرف شد؟
+          {closesAt !== null &&
+            ` اگر تا ${new Date(closesAt).toLocaleDateString("fa-IR")} پاسخی ندهید، تیکت به‌طور خودکار بسته می‌شود.`}
+        </p>
+      </div>
+
+      {reopening ? (
+        <div className="space-y-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            className="text-right font-iran bg-background"
+            dir="rtl"
+            rows={3}
+            placeholder="چه چیزی هنوز درست کار نمی‌کند؟"
+            autoFocus
+          />
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={() => setReopening(false)} disabled={saving}>
+              انصراف
+            </Button>
+            <Button size="sm" onClick={handleReopen} disabled={saving || !comment.trim()} className="gap-1">
+              <RotateCcw className="w-4 h-4" />
+              {saving ? "در حال ارسال..." : "بازگشایی تیکت"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2 justify-end">
+          {canReopen && (
+            <Button variant="outline" size="sm" onClick={() => setReopening(true)} disabled={saving} className="gap-1">
+              <RotateCcw className="w-4 h-4" />
+              هنوز مشکل دارم
+            </Button>
+          )}
+          {canConfirm && (
+            <Button size="sm" onClick={handleConfirm} disabled={saving} className="gap-1">
+              <CheckCircle2 className="w-4 h-4" />
+              مشکل برطرف شد
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
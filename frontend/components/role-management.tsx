@@ -0,0 +1,522 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Edit, Plus, Trash2, UserMinus, Users } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { useQuery } from "@/hooks/use-query"
+import { toast } from "@/hooks/use-toast"
+import { ApiValidationError, getApiErrorMessage } from "@/lib/api-errors"
+import type { ApiRoleDto } from "@/lib/api-types"
+import { useAuth } from "@/lib/auth-context"
+import {
+  PERMISSIONS,
+  baseRoleLabels,
+  isPermission,
+  permissionLabels,
+  toPermissionCatalog,
+  type BaseRole,
+  type Permission,
+  type PermissionCatalog,
+} from "@/lib/permissions"
+import { invalidateQueries } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { roleFromApi, roleToApi } from "@/lib/role-mappers"
+import {
+  addRoleMember,
+  createRole,
+  deleteRole,
+  getPermissionCatalog,
+  getRoles,
+  removeRoleMember,
+  updateRole,
+} from "@/lib/roles-api"
+import { getUsers } from "@/lib/users-api"
+
+interface RoleFormState {
+  name: string
+  description: string
+  baseRole: BaseRole
+  permissions: Permission[]
+}
+
+const emptyForm = (catalog?: PermissionCatalog): RoleFormState => ({
+  name: "",
+  description: "",
+  baseRole: "engineer",
+  permissions: [...(catalog?.defaults.engineer ?? [])],
+})
+
+// Both the role list and the signed-in user's own permissions may change
+const refreshRoles = () => Promise.all([invalidateQueries(queryKeys.roles), invalidateQueries(queryKeys.myPermissions)])
+
+/**
+ * Custom roles: a name, the built-in role it extends and the permissions it grants, plus its members
+ */
+export function RoleManagement() {
+  const { token } = useAuth()
+  const { data: roles = [], isLoading, error: loadError } = useQuery(token ? queryKeys.roles : null, () =>
+    getRoles(token)
+  )
+  const { data: users = [] } = useQuery(token ? queryKeys.users : null, () => getUsers(token))
+  // Which permissions each base role may hold is the server's to say
+  const { data: catalogResponse } = useQuery(token ? queryKeys.permissionCatalog : null, () =>
+    getPermissionCatalog(token)
+  )
+  const catalog = useMemo(() => (catalogResponse ? toPermissionCatalog(catalogResponse) : undefined), [catalogResponse])
+  const isAvailable = (baseRole: BaseRole, permission: Permission) =>
+    catalog?.available[baseRole].includes(permission) ?? false
+
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingRole, setEditingRole] = useState<ApiRoleDto | null>(null)
+  const [form, setForm] = useState<RoleFormState>(emptyForm)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [deletingRole, setDeletingRole] = useState<ApiRoleDto | null>(null)
+  const [membersRoleId, setMembersRoleId] = useState<string | null>(null)
+  const [memberToAdd, setMemberToAdd] = useState("")
+  const [updatingMember, setUpdatingMember] = useState<string | null>(null)
+
+  const membersRole = roles.find((role) => role.id === membersRoleId) ?? null
+  const usersById = useMemo(() => new Map(users.map((user) => [user.id, user])), [users])
+
+  useEffect(() => {
+    if (!loadError) return
+    toast({
+      title: "خطا در بارگذاری نقش‌ها",
+      description: getApiErrorMessage(loadError),
+      variant: "destructive",
+    })
+  }, [loadError])
+
+  const openCreateDialog = () => {
+    setEditingRole(null)
+    setForm(emptyForm(catalog))
+    setFieldErrors({})
+    setFormOpen(true)
+  }
+
+  const openEditDialog = (role: ApiRoleDto) => {
+    setEditingRole(role)
+    setForm({
+      name: role.name,
+      description: role.description ?? "",
+      baseRole: roleFromApi(role.baseRole),
+      permissions: role.permissions
+        .filter(isPermission)
+        .filter((permission) => isAvailable(roleFromApi(role.baseRole), permission)),
+    })
+    setFieldErrors({})
+    setFormOpen(true)
+  }
+
+  const handleBaseRoleChange = (baseRole: BaseRole) => {
+    // A new role starts from what its base role already grants; an edited one loses what the new base can't use
+    setForm((current) => ({
+      ...current,
+      baseRole,
+      permissions: editingRole
+        ? current.permissions.filter((permission) => isAvailable(baseRole, permission))
+        : [...(catalog?.defaults[baseRole] ?? [])],
+    }))
+  }
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setForm((current) => ({
+      ...current,
+      permissions: checked
+        ? [...current.permissions, permission]
+        : current.permissions.filter((granted) => granted !== permission),
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!token || saving) return
+    if (!form.name.trim()) {
+      setFieldErrors({ name: "نام نقش الزامی است" })
+      return
+    }
+
+    setSaving(true)
+    setFieldErrors({})
+    const request = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      baseRole: roleToApi(form.baseRole),
+      // Keep the order of the permission map so diffs on the server stay readable
+      permissions: PERMISSIONS.filter((permission) => form.permissions.includes(permission)),
+    }
+    try {
+      if (editingRole) {
+        await updateRole(token, editingRole.id, request)
+      } else {
+        await createRole(token, request)
+      }
+      toast({
+        title: editingRole ? "نقش به‌روزرسانی شد" : "نقش ایجاد شد",
+        description: `نقش «${request.name}» ذخیره شد`,
+      })
+      setFormOpen(false)
+      await refreshRoles()
+    } catch (error) {
+      setFieldErrors(error instanceof ApiValidationError ? error.firstErrors() : {})
+      toast({
+        title: "خطا در ذخیره نقش",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!token || !deletingRole) return
+    try {
+      await deleteRole(token, deletingRole.id)
+      toast({
+        title: "نقش حذف شد",
+        description: "اعضای این نقش به نقش پایه خود بازگشتند",
+      })
+      await refreshRoles()
+    } catch (error) {
+      toast({
+        title: "خطا در حذف نقش",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setDeletingRole(null)
+    }
+  }
+
+  const handleAddMember = async () => {
+    if (!token || !membersRole || !memberToAdd) return
+    setUpdatingMember(memberToAdd)
+    try {
+      await addRoleMember(token, membersRole.id, memberToAdd)
+      setMemberToAdd("")
+      await refreshRoles()
+    } catch (error) {
+      toast({
+        title: "خطا در افزودن عضو",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setUpdatingMember(null)
+    }
+  }
+
+  const handleRemoveMember = async (userId: string) => {
+    if (!token || !membersRole) return
+    setUpdatingMember(userId)
+    try {
+      await removeRoleMember(token, membersRole.id, userId)
+      await refreshRoles()
+    } catch (error) {
+      toast({
+        title: "خطا در حذف عضو",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setUpdatingMember(null)
+    }
+  }
+
+  // Members must already have the role's base role on their account
+  const candidateMembers = membersRole
+    ? users.filter((user) => user.role === membersRole.baseRole && !membersRole.memberIds.includes(user.id))
+    : []
+
+  return (
+    <div className="space-y-6" dir="rtl">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div className="space-y-1">
+              <CardTitle className="text-right">نقش‌ها و دسترسی‌ها</CardTitle>
+              <CardDescription className="text-right">
+                نقش‌های سفارشی بر پایه یکی از نقش‌های اصلی ساخته می‌شوند و دسترسی‌های خود را دارند
+              </CardDescription>
+            </div>
+            <Button onClick={openCreateDialog} className="gap-2" disabled={!catalog}>
+              <Plus className="w-4 h-4" />
+              نقش جدید
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-8 h-8 border-2 border-current border-t-transparent rounded-full animate-spin" />
+              <span className="mr-3 text-sm text-muted-foreground">در حال بارگذاری...</span>
+            </div>
+          ) : roles.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">هیچ نقشی تعریف نشده است</div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">نام</TableHead>
+                    <TableHead className="text-right">نقش پایه</TableHead>
+                    <TableHead className="text-right">دسترسی‌ها</TableHead>
+                    <TableHead className="text-right">اعضا</TableHead>
+                    <TableHead className="text-right">عملیات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roles.map((role) => (
+                    <TableRow key={role.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {role.isBuiltIn ? baseRoleLabels[roleFromApi(role.baseRole)] : role.name}
+                          {role.isBuiltIn && <Badge variant="secondary">پیش‌فرض</Badge>}
+                        </div>
+                        {role.description && (
+                          <p className="text-xs text-muted-foreground mt-1">{role.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{baseRoleLabels[roleFromApi(role.baseRole)]}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1 max-w-md">
+                          {role.permissions.filter(isPermission).map((permission) => (
+                            <Badge key={permission} variant="outline" className="font-normal">
+                              {permissionLabels[permission]}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{role.isBuiltIn ? "--" : role.memberIds.length.toLocaleString("fa-IR")}</TableCell>
+                      <TableCell>
+                        {!role.isBuiltIn && (
+                          <div className="flex items-center gap-2 justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openEditDialog(role)}
+                              className="gap-1"
+                              disabled={!catalog}
+                            >
+                              <Edit className="w-4 h-4" />
+                              ویرایش
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setMembersRoleId(role.id)}
+                              className="gap-1"
+                            >
+                              <Users className="w-4 h-4" />
+                              اعضا
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeletingRole(role)}
+                              className="gap-1 text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                              حذف
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right">{editingRole ? "ویرایش نقش" : "نقش جدید"}</DialogTitle>
+            <DialogDescription className="text-right">
+              مثلاً «سرپرست تیم» که می‌تواند تیکت‌ها را تخصیص دهد اما به تنظیمات سیستم دسترسی ندارد
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="role-name" className="text-right">نام نقش *</Label>
+              <Input
+                id="role-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="text-right"
+                dir="rtl"
+                placeholder="سرپرست تیم"
+              />
+              {fieldErrors.name && <p className="text-sm text-red-500 text-right">{fieldErrors.name}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role-description" className="text-right">توضیحات</Label>
+              <Textarea
+                id="role-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="text-right"
+                dir="rtl"
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-right">نقش پایه</Label>
+              <Select
+                value={form.baseRole}
+                onValueChange={(value) => handleBaseRoleChange(value as BaseRole)}
+                disabled={!!editingRole && editingRole.memberIds.length > 0}
+              >
+                <SelectTrigger className="text-right" dir="rtl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent dir="rtl">
+                  {(Object.keys(baseRoleLabels) as BaseRole[]).map((baseRole) => (
+                    <SelectItem key={baseRole} value={baseRole}>
+                      {baseRoleLabels[baseRole]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground text-right">
+                نقش پایه تعیین می‌کند کاربر از کدام داشبورد و سرویس‌ها استفاده کند؛ دسترسی‌هایی که سرور برای این نقش نمی‌پذیرد نمایش داده نمی‌شوند
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-right">دسترسی‌ها</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 rounded-lg border p-3">
+                {PERMISSIONS.filter((permission) => isAvailable(form.baseRole, permission)).map((permission) => (
+                  <label key={permission} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={form.permissions.includes(permission)}
+                      onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                    />
+                    {permissionLabels[permission]}
+                  </label>
+                ))}
+              </div>
+              {fieldErrors.permissions && (
+                <p className="text-sm text-red-500 text-right">{fieldErrors.permissions}</p>
+              )}
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={saving}>
+              انصراف
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "در حال ذخیره..." : "ذخیره"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Members dialog */}
+      <Dialog open={!!membersRole} onOpenChange={(open) => !open && setMembersRoleId(null)}>
+        <DialogContent className="max-w-lg" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right">اعضای نقش «{membersRole?.name}»</DialogTitle>
+            <DialogDescription className="text-right">
+              هر کاربر فقط یک نقش سفارشی دارد؛ افزودن به این نقش جایگزین نقش قبلی او می‌شود
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Select value={memberToAdd} onValueChange={setMemberToAdd}>
+                <SelectTrigger className="text-right flex-1" dir="rtl">
+                  <SelectValue placeholder="انتخاب کاربر" />
+                </SelectTrigger>
+                <SelectContent dir="rtl">
+                  {candidateMembers.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.fullName} ({user.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAddMember} disabled={!memberToAdd || !!updatingMember} className="gap-1">
+                <Plus className="w-4 h-4" />
+                افزودن
+              </Button>
+            </div>
+            {membersRole && membersRole.memberIds.length === 0 ? (
+              <div className="text-center py-4 text-sm text-muted-foreground">این نقش هنوز عضوی ندارد</div>
+            ) : (
+              <ul className="divide-y rounded-lg border">
+                {membersRole?.memberIds.map((userId) => {
+                  const member = usersById.get(userId)
+                  return (
+                    <li key={userId} className="flex items-center justify-between gap-2 px-3 py-2">
+                      <div className="text-sm">
+                        <div className="font-medium">{member?.fullName ?? userId}</div>
+                        {member && <div className="text-xs text-muted-foreground">{member.email}</div>}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemoveMember(userId)}
+                        disabled={updatingMember === userId}
+                        className="gap-1"
+                      >
+                        <UserMinus className="w-4 h-4" />
+                        حذف
+                      </Button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingRole} onOpenChange={(open) => !open && setDeletingRole(null)}>
+        <AlertDialogContent dir="rtl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-right">حذف نقش «{deletingRole?.name}»؟</AlertDialogTitle>
+            <AlertDialogDescription className="text-right">
+              اعضای این نقش دسترسی‌های اضافه خود را از دست می‌دهند و به نقش پایه بازمی‌گردند.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel>انصراف</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              حذف
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
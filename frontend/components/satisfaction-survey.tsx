@@ -0,0 +1,171 @@
+"use client"
+
+import { useState } from "react"
+import { Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Textarea } from "@/components/ui/textarea"
+import { patchCachedTicket } from "@/hooks/use-tickets"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { useAuth } from "@/lib/auth-context"
+import { invalidateQueries } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { submitTicketSurvey } from "@/lib/surveys-api"
+import { cn } from "@/lib/utils"
+import type { Ticket } from "@/types"
+
+const RATINGS = [1, 2, 3, 4, 5] as const
+
+const ratingLabels: Record<(typeof RATINGS)[number], string> = {
+  1: "خیلی ناراضی",
+  2: "ناراضی",
+  3: "معمولی",
+  4: "راضی",
+  5: "خیلی راضی",
+}
+
+interface SatisfactionSurveyProps {
+  ticket: Pick<Ticket, "id" | "title" | "status" | "clientId" | "survey">
+  /** Show the ticket's title, for lists of several tickets */
+  showTitle?: boolean
+  className?: string
+}
+
+const Stars = ({ value, size = "w-5 h-5" }: { value: number; size?: string }) => (
+  <>
+    {RATINGS.map((rating) => (
+      <Star
+        key={rating}
+        className={cn(size, rating <= value ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground")}
+      />
+    ))}
+  </>
+)
+
+/**
+ * Satisfaction survey on a closed ticket: a 1–5 rating, an optional comment and whether the first
+ * contact fixed the problem. Its client answers it once; afterwards the answer is shown instead.
+ */
+export function SatisfactionSurvey({ ticket, showTitle = false, className }: SatisfactionSurveyProps) {
+  const { user, token } = useAuth()
+  const [rating, setRating] = useState(0)
+  const [comment, setComment] = useState("")
+  const [firstContact, setFirstContact] = useState<"yes" | "no" | "">("")
+  const [saving, setSaving] = useState(false)
+
+  if (!user || ticket.status !== "closed" || ticket.clientId !== user.id) return null
+
+  if (ticket.survey) {
+    return (
+      <div className={cn("rounded-lg border p-4 space-y-2 text-right", className)} dir="rtl">
+        <p className="text-sm font-medium font-iran">از پاسخ شما به نظرسنجی متشکریم</p>
+        <div className="flex items-center gap-1" aria-label={`امتیاز ${ticket.survey.rating} از ۵`}>
+          <Stars value={ticket.survey.rating} size="w-4 h-4" />
+        </div>
+        {ticket.survey.comment && (
+          <p className="text-sm text-muted-foreground font-iran whitespace-pre-wrap">{ticket.survey.comment}</p>
+        )}
+      </div>
+    )
+  }
+
+  const handleSubmit = async () => {
+    if (!token || saving || rating === 0 || !firstContact) return
+    setSaving(true)
+    try {
+      const survey = await submitTicketSurvey(token, ticket.id, {
+        rating,
+        comment: comment.trim() || null,
+        resolvedOnFirstContact: firstContact === "yes",
+      })
+      patchCachedTicket(ticket.id, (cached) => ({ ...cached, survey }))
+      void invalidateQueries(queryKeys.csatReports)
+      toast({ title: "نظر شما ثبت شد", description: "از وقتی که گذاشتید متشکریم" })
+    } catch (error) {
+      toast({
+        title: "ثبت نظرسنجی ناموفق بود",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className={cn("rounded-lg border border-sky-200 bg-sky-50 p-4 space-y-4 text-right", className)} dir="rtl">
+      <p className="font-medium font-iran">
+        {showTitle ? `از رسیدگی به «${ticket.title}» چقدر راضی هستید؟` : "از رسیدگی به این تیکت چقدر راضی هستید؟"}
+      </p>
+
+      <div className="flex items-center gap-3">
+        <div className="flex items-center gap-1" role="radiogroup" aria-label="امتیاز">
+          {RATINGS.map((value) => (
+            <button
+              key={value}
+              type="button"
+              role="radio"
+              aria-checked={rating === value}
+              aria-label={ratingLabels[value]}
+              title={ratingLabels[value]}
+              onClick={() => setRating(value)}
+              disabled={saving}
+              className="p-0.5 rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <Star
+                className={cn("w-6 h-6", value <= rating ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground")}
+              />
+            </button>
+          ))}
+        </div>
+        {rating > 0 && (
+          <span className="text-sm text-muted-foreground font-iran">
+            {ratingLabels[rating as (typeof RATINGS)[number]]}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-right">آیا مشکل در همان اولین پاسخ برطرف شد؟</Label>
+        <RadioGroup
+          value={firstContact}
+          onValueChange={(value) => setFirstContact(value as "yes" | "no")}
+          className="flex gap-6"
+          dir="rtl"
+          disabled={saving}
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="yes" id={`first-contact-yes-${ticket.id}`} />
+            <Label htmlFor={`first-contact-yes-${ticket.id}`} className="font-normal">
+              بله
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="no" id={`first-contact-no-${ticket.id}`} />
+            <Label htmlFor={`first-contact-no-${ticket.id}`} className="font-normal">
+              خیر
+            </Label>
+          </div>
+        </RadioGroup>
+      </div>
+
+      <Textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        className="text-right font-iran bg-background"
+        dir="rtl"
+        rows={2}
+        placeholder="توضیح (اختیاری)"
+        disabled={saving}
+      />
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSubmit} disabled={saving || rating === 0 || !firstContact}>
+          {saving ? "در حال ارسال..." : "ثبت نظر"}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+"use client"
+
+import { Clock } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useIdleTimeout } from "@/hooks/use-idle-timeout"
+
+/**
+ * Warns before the idle sign-out and lets the user keep the session. Mount once inside AuthProvider.
+ */
+export function SessionTimeoutDialog() {
+  const { remainingMs, staySignedIn, signOut } = useIdleTimeout()
+  const seconds = Math.ceil((remainingMs ?? 0) / 1000)
+
+  return (
+    <AlertDialog open={remainingMs !== null}>
+      <AlertDialogContent className="font-iran" dir="rtl">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2 text-right">
+            <Clock className="h-5 w-5 text-amber-500" />
+            نشست شما در حال پایان است
+          </AlertDialogTitle>
+          <AlertDialogDescription className="text-right">
+            به دلیل عدم فعالیت، {seconds.toLocaleString("fa-IR")} ثانیه دیگر از حساب کاربری خارج می‌شوید.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="gap-2 sm:justify-start">
+          <AlertDialogAction onClick={staySignedIn}>ادامه کار</AlertDialogAction>
+          <AlertDialogCancel onClick={signOut}>خروج</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
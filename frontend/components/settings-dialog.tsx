@@ -16,11 +16,19 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Separator } from "@/components/ui/separator"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
+import { PasswordStrengthMeter } from "@/components/password-strength-meter"
+import { SignInActivity } from "@/components/sign-in-activity"
+import { TwoFactorSettings } from "@/components/two-factor-settings"
+import { useCan } from "@/hooks/use-permissions"
+import { usePublicSettings } from "@/hooks/use-system-settings"
 import { toast } from "@/hooks/use-toast"
 import { useAuth } from "@/lib/auth-context"
 import { usePreferences } from "@/lib/preferences-context"
 import { getSystemSettings, updateSystemSettings } from "@/lib/settings-api"
+import { fetchQuery, invalidateQueries, setQueryData } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
 import { getMyNotificationPreferences, updateMyNotificationPreferences } from "@/lib/notification-preferences-api"
+import { passwordPolicyFromSettings, passwordPolicySchema, type PasswordPolicy } from "@/lib/password-policy"
 import type { ApiSystemSettingsResponse, ApiNotificationPreferencesResponse } from "@/lib/api-types"
 import {
   User,
@@ -48,21 +56,17 @@ const profileSchema = yup.object({
   department: yup.string().optional(),
 })
 
-const passwordSchema = yup.object({
-  currentPassword: yup.string().required("رمز عبور فعلی الزامی است"),
-  newPassword: yup
-    .string()
-    .required("رمز عبور جدید الزامی است")
-    .min(8, "رمز عبور جدید باید حداقل ۸ کاراکتر باشد")
-    .matches(
-      /^(?=.*[a-zA-Z])(?=.*\d).+$/,
-      "رمز عبور جدید باید شامل حداقل یک حرف و یک عدد باشد"
-    ),
-  confirmPassword: yup
-    .string()
-    .required("تکرار رمز عبور الزامی است")
-    .oneOf([yup.ref("newPassword")], "رمز عبور جدید و تکرار آن مطابقت ندارند"),
-})
+const createPasswordSchema = (policy: PasswordPolicy, email: string | null | undefined) =>
+  yup.object({
+    currentPassword: yup.string().required("رمز عبور فعلی الزامی است"),
+    newPassword: passwordPolicySchema(policy, { email })
+      .required("رمز عبور جدید الزامی است")
+      .notOneOf([yup.ref("currentPassword")], "رمز عبور جدید باید با رمز عبور فعلی متفاوت باشد"),
+    confirmPassword: yup
+      .string()
+      .required("تکرار رمز عبور الزامی است")
+      .oneOf([yup.ref("newPassword")], "رمز عبور جدید و تکرار آن مطابقت ندارند"),
+  })
 
 const systemSettingsSchema = yup.object({
   appName: yup.string().required("نام سامانه الزامی است"),
@@ -135,7 +139,8 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
   const [notificationPreferences, setNotificationPreferences] = useState<ApiNotificationPreferencesResponse | null>(null)
   const [notificationPreferencesLoading, setNotificationPreferencesLoading] = useState(false)
   const [notificationPreferencesSaving, setNotificationPreferencesSaving] = useState(false)
-  const isAdmin = user?.role === "admin"
+  const can = useCan()
+  const isAdmin = can("settings.system")
 
   const [systemSettings, setSystemSettings] = useState<SystemSettings>({
     notifications: {
@@ -172,6 +177,10 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     },
   })
 
+  const { settings: publicSettings } = usePublicSettings()
+  const passwordPolicy = useMemo(() => passwordPolicyFromSettings(publicSettings), [publicSettings])
+  const passwordSchema = useMemo(() => createPasswordSchema(passwordPolicy, user?.email), [passwordPolicy, user?.email])
+
   const passwordForm = useForm({
     resolver: yupResolver(passwordSchema),
     defaultValues: {
@@ -213,7 +222,7 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
   useEffect(() => {
     if (open && isAdmin && token) {
       setSystemSettingsLoading(true)
-      getSystemSettings(token)
+      fetchQuery(queryKeys.systemSettings, () => getSystemSettings(token))
         .then((data) => {
           setSystemSettingsData(data)
           systemSettingsForm.reset(data)
@@ -327,6 +336,8 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
       console.log("Calling updateSystemSettings API...")
       const updated = await updateSystemSettings(token, data)
       console.log("Settings updated successfully:", updated)
+      setQueryData(queryKeys.systemSettings, updated)
+      void invalidateQueries(queryKeys.publicSettings)
       setSystemSettingsData(updated)
       systemSettingsForm.reset(updated)
       toast({
@@ -1125,6 +1136,11 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                           {passwordForm.formState.errors.newPassword.message}
                         </p>
                       )}
+                      <PasswordStrengthMeter
+                        password={passwordForm.watch("newPassword")}
+                        email={user?.email}
+                        policy={passwordPolicy}
+                      />
                     </div>
 
                     <div className="space-y-2 text-right">
@@ -1170,6 +1186,9 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                   </form>
                 </CardContent>
               </Card>
+
+              <TwoFactorSettings />
+              <SignInActivity />
             </TabsContent>
 
             <TabsContent value="notifications" className="space-y-4 w-full">
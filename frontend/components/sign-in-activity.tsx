@@ -0,0 +1,135 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle, LogOut, Monitor } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useQuery } from "@/hooks/use-query"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { useAuth } from "@/lib/auth-context"
+import { invalidateQueries } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { getSignInActivity, signOutOtherSessions } from "@/lib/sign-in-security-api"
+
+/**
+ * Security tab card: recent sign-ins to the account, with the option to end every other session
+ */
+export function SignInActivity() {
+  const { token } = useAuth()
+  const { data: activity = [], isLoading, error } = useQuery(token ? queryKeys.signInActivity : null, () =>
+    getSignInActivity(token)
+  )
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [revoking, setRevoking] = useState(false)
+
+  const handleSignOutOthers = async () => {
+    setRevoking(true)
+    try {
+      const { revokedCount } = await signOutOtherSessions(token)
+      toast({
+        title: "از سایر دستگاه‌ها خارج شدید",
+        description: `${revokedCount.toLocaleString("fa-IR")} نشست باطل شد`,
+      })
+      await invalidateQueries(queryKeys.signInActivity)
+    } catch (err) {
+      toast({ title: "خطا در خروج از سایر دستگاه‌ها", description: getApiErrorMessage(err), variant: "destructive" })
+    } finally {
+      setRevoking(false)
+      setConfirmOpen(false)
+    }
+  }
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <p className="text-sm text-muted-foreground text-right">در حال بارگذاری...</p>
+    }
+    if (error) {
+      return <p className="text-sm text-red-500 text-right">{getApiErrorMessage(error)}</p>
+    }
+    if (activity.length === 0) {
+      return <p className="text-sm text-muted-foreground text-right">ورودی ثبت نشده است</p>
+    }
+    return (
+      <ul className="divide-y rounded-lg border max-h-72 overflow-y-auto">
+        {activity.map((entry) => (
+          <li key={entry.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+            <div className="flex items-start gap-2 min-w-0">
+              {entry.suspicious ? (
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" />
+              ) : (
+                <Monitor className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+              )}
+              <div className="min-w-0">
+                <div className="font-medium truncate">{entry.device || "دستگاه نامشخص"}</div>
+                <div className="text-xs text-muted-foreground">
+                  <span dir="ltr">{entry.ipAddress || "--"}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">{new Date(entry.occurredAt).toLocaleString("fa-IR")}</div>
+              </div>
+            </div>
+            <div className="flex flex-wrap justify-end gap-1 shrink-0">
+              {entry.isCurrent && <Badge>همین دستگاه</Badge>}
+              {!entry.succeeded && <Badge variant="destructive">ناموفق</Badge>}
+              {entry.suspicious && (
+                <Badge variant="outline" className="border-amber-400 text-amber-700 dark:text-amber-300">
+                  مشکوک
+                </Badge>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  const hasSuspicious = activity.some((entry) => entry.suspicious)
+
+  return (
+    <Card dir="rtl" className="w-full">
+      <CardHeader className="text-right">
+        <CardTitle className="flex items-center justify-between">
+          فعالیت‌های اخیر ورود
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setConfirmOpen(true)} disabled={!token}>
+            <LogOut className="h-4 w-4" />
+            خروج از سایر دستگاه‌ها
+          </Button>
+        </CardTitle>
+        <CardDescription className="text-right">
+          {hasSuspicious
+            ? "ورود مشکوکی به حساب شما ثبت شده است. اگر کار شما نبوده، رمز عبور را تغییر دهید و از سایر دستگاه‌ها خارج شوید."
+            : "دستگاه، نشانی IP و زمان ورودهای اخیر به حساب شما"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent dir="rtl">{renderBody()}</CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent dir="rtl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-right">خروج از سایر دستگاه‌ها</AlertDialogTitle>
+            <AlertDialogDescription className="text-right">
+              همه نشست‌های این حساب به جز همین مرورگر باطل می‌شود و باید دوباره وارد شوند.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel disabled={revoking}>انصراف</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSignOutOthers} disabled={revoking}>
+              خروج از همه
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { AlertTriangle, CheckCircle2, Clock, PauseCircle, Siren } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { useTicketSla } from "@/hooks/use-sla"
+import { activeSlaClock, formatSlaDuration, type SlaClock, type SlaClockState, type SlaTicket } from "@/lib/sla"
+import { cn } from "@/lib/utils"
+
+const stateStyles: Record<SlaClockState, string> = {
+  running: "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-300",
+  "at-risk": "bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-950 dark:text-amber-300",
+  breached: "bg-red-100 text-red-800 border-red-300 dark:bg-red-950 dark:text-red-300",
+  paused: "bg-sky-50 text-sky-700 border-sky-200 dark:bg-sky-950 dark:text-sky-300",
+  met: "bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-900 dark:text-gray-300",
+  missed: "bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300",
+}
+
+const clockLabels: Record<SlaClock["kind"], string> = {
+  response: "پاسخ",
+  resolution: "رفع",
+}
+
+const describe = (clock: SlaClock) => {
+  const kind = clockLabels[clock.kind]
+  switch (clock.state) {
+    case "running":
+    case "at-risk":
+      return `${kind}: ${formatSlaDuration(clock.remainingMinutes)} مانده`
+    case "breached":
+      return `${kind}: ${formatSlaDuration(clock.remainingMinutes)} تأخیر`
+    case "paused":
+      return `${kind}: متوقف (${formatSlaDuration(clock.remainingMinutes)} مانده)`
+    case "met":
+      return `${kind}: در مهلت`
+    case "missed":
+      return `${kind}: با تأخیر`
+  }
+}
+
+const StateIcon = ({ state }: { state: SlaClockState }) => {
+  const className = "w-3 h-3"
+  if (state === "breached" || state === "missed") return <Siren className={className} />
+  if (state === "at-risk") return <AlertTriangle className={className} />
+  if (state === "paused") return <PauseCircle className={className} />
+  if (state === "met") return <CheckCircle2 className={className} />
+  return <Clock className={className} />
+}
+
+interface SlaBadgeProps {
+  ticket: SlaTicket
+  className?: string
+}
+
+/**
+ * Countdown to the ticket's current SLA target, colored by how close it is to a breach.
+ * Renders nothing when no policy covers the ticket.
+ */
+export function SlaBadge({ ticket, className }: SlaBadgeProps) {
+  const sla = useTicketSla(ticket)
+  if (!sla) return null
+
+  const clock = activeSlaClock(sla)
+  const details = [
+    `سیاست: ${sla.policy.name}`,
+    `هدف ${clockLabels[clock.kind]}: ${formatSlaDuration(clock.targetMinutes)} کاری`,
+    clock.dueAt !== null && `مهلت: ${new Date(clock.dueAt).toLocaleString("fa-IR")}`,
+    sla.escalatedAt && `ارجاع خودکار: ${new Date(sla.escalatedAt).toLocaleString("fa-IR")}`,
+  ]
+    .filter(Boolean)
+    .join("\n")
+
+  return (
+    <Badge variant="outline" className={cn("gap-1 whitespace-nowrap font-iran", stateStyles[clock.state], className)} title={details}>
+      <StateIcon state={clock.state} />
+      {describe(clock)}
+    </Badge>
+  )
+}
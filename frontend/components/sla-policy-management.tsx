@@ -0,0 +1,644 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Edit, Plus, Save, Trash2 } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { useCan } from "@/hooks/use-permissions"
+import { useSlaSettings } from "@/hooks/use-sla"
+import { useSystemSettings } from "@/hooks/use-system-settings"
+import { useTechnicians } from "@/hooks/use-technicians"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import type { ApiBusinessCalendar, ApiSlaPolicy, ApiSlaSettings, ApiTicketPriority } from "@/lib/api-types"
+import { useAuth } from "@/lib/auth-context"
+import { setQueryData } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { DEFAULT_SLA_SETTINGS, formatSlaDuration } from "@/lib/sla"
+import { updateSlaSettings } from "@/lib/sla-api"
+import type { CategoriesData } from "@/services/categories-types"
+
+const ANY = "any"
+const NO_REASSIGN = "none"
+
+const priorityLabels: Record<ApiTicketPriority, string> = {
+  Low: "کم",
+  Medium: "متوسط",
+  High: "بالا",
+  Critical: "فوری",
+}
+
+// Index 0 is Sunday, as in the calendar; listed from Saturday like the Iranian week
+const weekDays: { index: number; label: string }[] = [
+  { index: 6, label: "شنبه" },
+  { index: 0, label: "یکشنبه" },
+  { index: 1, label: "دوشنبه" },
+  { index: 2, label: "سه‌شنبه" },
+  { index: 3, label: "چهارشنبه" },
+  { index: 4, label: "پنجشنبه" },
+  { index: 5, label: "جمعه" },
+]
+
+const GREGORIAN_DATE = /^\d{4}-\d{2}-\d{2}$/
+const MONTH_DAY = /^\d{2}-\d{2}$/
+
+interface PolicyFormState {
+  name: string
+  priority: string
+  categoryId: string
+  firstResponseHours: string
+  resolutionHours: string
+  notify: boolean
+  reassignToUserId: string
+}
+
+const emptyForm = (responseHours = 4): PolicyFormState => ({
+  name: "",
+  priority: ANY,
+  categoryId: ANY,
+  firstResponseHours: String(responseHours),
+  resolutionHours: String(responseHours * 4),
+  notify: true,
+  reassignToUserId: NO_REASSIGN,
+})
+
+const toHours = (minutes: number) => String(Math.round((minutes / 60) * 100) / 100)
+const toMinutes = (hours: string) => Math.round(Number(hours) * 60)
+
+const parseLines = (value: string) =>
+  value
+    .split(/[\n,،]/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+interface SlaPolicyManagementProps {
+  categoriesData: CategoriesData
+}
+
+/**
+ * SLA policies per priority and category, the business calendar their clocks run on and the
+ * point at which a ticket counts as at risk
+ */
+export function SlaPolicyManagement({ categoriesData }: SlaPolicyManagementProps) {
+  const { token } = useAuth()
+  const can = useCan()
+  const { settings: loadedSettings, isLoading, error: loadError } = useSlaSettings()
+  const { settings: systemSettings } = useSystemSettings({ enabled: can("settings.system") })
+  const { technicians } = useTechnicians()
+  const settings = loadedSettings ?? DEFAULT_SLA_SETTINGS
+
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingPolicy, setEditingPolicy] = useState<ApiSlaPolicy | null>(null)
+  const [form, setForm] = useState<PolicyFormState>(() => emptyForm())
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [deletingPolicy, setDeletingPolicy] = useState<ApiSlaPolicy | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const [hours, setHours] = useState<ApiBusinessCalendar["hours"]>(settings.calendar.hours)
+  const [holidays, setHolidays] = useState("")
+  const [recurringHolidays, setRecurringHolidays] = useState("")
+  const [atRiskPercent, setAtRiskPercent] = useState(String(settings.atRiskPercent))
+  const [calendarErrors, setCalendarErrors] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (!loadError) return
+    toast({
+      title: "خطا در بارگذاری تنظیمات SLA",
+      description: getApiErrorMessage(loadError),
+      variant: "destructive",
+    })
+  }, [loadError])
+
+  // The calendar form follows the saved settings whenever they (re)load
+  useEffect(() => {
+    const current = loadedSettings ?? DEFAULT_SLA_SETTINGS
+    setHours(current.calendar.hours)
+    setHolidays(current.calendar.holidays.join("\n"))
+    setRecurringHolidays(current.calendar.recurringHolidays.join("\n"))
+    setAtRiskPercent(String(current.atRiskPercent))
+    setCalendarErrors({})
+  }, [loadedSettings])
+
+  const categories = useMemo(
+    () =>
+      Object.values(categoriesData ?? {}).filter(
+        (category): category is typeof category & { backendId: number } => typeof category.backendId === "number"
+      ),
+    [categoriesData]
+  )
+  const categoryLabel = (categoryId: number | null) =>
+    categoryId === null
+      ? "همه"
+      : categories.find((category) => category.backendId === categoryId)?.label ?? `#${categoryId}`
+
+  const assignableTechnicians = technicians.filter((tech) => tech.isActive && tech.userId)
+  const technicianName = (userId: string) =>
+    technicians.find((tech) => tech.userId === userId)?.fullName ?? userId
+
+  const save = async (next: ApiSlaSettings, successTitle: string) => {
+    if (!token) return false
+    setSaving(true)
+    try {
+      const saved = await updateSlaSettings(token, next)
+      setQueryData(queryKeys.slaSettings, saved)
+      toast({ title: successTitle, description: "مهلت‌های تیکت‌ها با تنظیمات جدید محاسبه می‌شوند" })
+      return true
+    } catch (error) {
+      toast({
+        title: "خطا در ذخیره تنظیمات SLA",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openCreateDialog = () => {
+    setEditingPolicy(null)
+    // The first policy starts from the response target in the system settings
+    setForm(emptyForm(settings.policies.length === 0 ? systemSettings?.responseSlaHours : undefined))
+    setFieldErrors({})
+    setFormOpen(true)
+  }
+
+  const openEditDialog = (policy: ApiSlaPolicy) => {
+    setEditingPolicy(policy)
+    setForm({
+      name: policy.name,
+      priority: policy.priority ?? ANY,
+      categoryId: policy.categoryId == null ? ANY : String(policy.categoryId),
+      firstResponseHours: toHours(policy.firstResponseMinutes),
+      resolutionHours: toHours(policy.resolutionMinutes),
+      notify: policy.escalation.notify,
+      reassignToUserId: policy.escalation.reassignToUserId ?? NO_REASSIGN,
+    })
+    setFieldErrors({})
+    setFormOpen(true)
+  }
+
+  const handleSavePolicy = async () => {
+    if (saving) return
+    const firstResponseMinutes = toMinutes(form.firstResponseHours)
+    const resolutionMinutes = toMinutes(form.resolutionHours)
+    const errors: Record<string, string> = {}
+    if (!form.name.trim()) errors.name = "نام سیاست الزامی است"
+    if (!(firstResponseMinutes > 0)) errors.firstResponse = "مهلت پاسخ باید بیشتر از صفر باشد"
+    if (!(resolutionMinutes > 0)) errors.resolution = "مهلت رفع باید بیشتر از صفر باشد"
+    else if (resolutionMinutes < firstResponseMinutes) errors.resolution = "مهلت رفع نباید از مهلت پاسخ کمتر باشد"
+
+    const priority = form.priority === ANY ? null : (form.priority as ApiTicketPriority)
+    const categoryId = form.categoryId === ANY ? null : Number(form.categoryId)
+    const duplicate = settings.policies.find(
+      (policy) => policy.id !== editingPolicy?.id && policy.priority === priority && policy.categoryId === categoryId
+    )
+    if (duplicate) errors.scope = `سیاست «${duplicate.name}» همین اولویت و دسته‌بندی را پوشش می‌دهد`
+
+    setFieldErrors(errors)
+    if (Object.keys(errors).length > 0) return
+
+    const policy: ApiSlaPolicy = {
+      id: editingPolicy?.id ?? crypto.randomUUID(),
+      name: form.name.trim(),
+      priority,
+      categoryId,
+      firstResponseMinutes,
+      resolutionMinutes,
+      escalation: {
+        notify: form.notify,
+        reassignToUserId: form.reassignToUserId === NO_REASSIGN ? null : form.reassignToUserId,
+      },
+    }
+    const policies = editingPolicy
+      ? settings.policies.map((existing) => (existing.id === policy.id ? policy : existing))
+      : [...settings.policies, policy]
+
+    if (await save({ ...settings, policies }, editingPolicy ? "سیاست به‌روزرسانی شد" : "سیاست ایجاد شد")) {
+      setFormOpen(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deletingPolicy) return
+    await save(
+      { ...settings, policies: settings.policies.filter((policy) => policy.id !== deletingPolicy.id) },
+      "سیاست حذف شد"
+    )
+    setDeletingPolicy(null)
+  }
+
+  const updateDay = (index: number, value: ApiBusinessCalendar["hours"][number]) => {
+    setHours((current) => current.map((day, i) => (i === index ? value : day)))
+  }
+
+  const handleSaveCalendar = async () => {
+    if (saving) return
+    const errors: Record<string, string> = {}
+    const oneOff = parseLines(holidays)
+    const recurring = parseLines(recurringHolidays)
+    const percent = Number(atRiskPercent)
+
+    if (hours.some((day) => day && day.start >= day.end)) errors.hours = "ساعت پایان هر روز باید بعد از ساعت شروع باشد"
+    if (hours.every((day) => !day)) errors.hours = "دست‌کم یک روز کاری لازم است"
+    if (oneOff.some((date) => !GREGORIAN_DATE.test(date))) errors.holidays = "تاریخ‌ها را به شکل 2025-03-31 وارد کنید"
+    if (recurring.some((date) => !MONTH_DAY.test(date))) errors.recurringHolidays = "روزها را به شکل 01-13 وارد کنید"
+    if (!Number.isInteger(percent) || percent < 1 || percent > 99) errors.atRiskPercent = "عددی بین ۱ تا ۹۹ وارد کنید"
+
+    setCalendarErrors(errors)
+    if (Object.keys(errors).length > 0) return
+
+    await save(
+      {
+        ...settings,
+        calendar: { hours, holidays: oneOff, recurringHolidays: recurring },
+        atRiskPercent: percent,
+      },
+      "ساعات کاری ذخیره شد"
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8" dir="rtl">
+        <div className="w-8 h-8 border-2 border-current border-t-transparent rounded-full animate-spin" />
+        <span className="mr-3 text-sm text-muted-foreground">در حال بارگذاری...</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6" dir="rtl">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div className="space-y-1">
+              <CardTitle className="text-right">سیاست‌های SLA</CardTitle>
+              <CardDescription className="text-right">
+                مهلت پاسخ و رفع بر اساس اولویت و دسته‌بندی؛ دقیق‌ترین سیاستی که با تیکت جور باشد اعمال می‌شود
+              </CardDescription>
+            </div>
+            <Button onClick={openCreateDialog} className="gap-2" disabled={saving}>
+              <Plus className="w-4 h-4" />
+              سیاست جدید
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {settings.policies.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              هیچ سیاستی تعریف نشده است؛ تیکت‌ها بدون مهلت SLA نمایش داده می‌شوند
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">نام</TableHead>
+                    <TableHead className="text-right">اولویت</TableHead>
+                    <TableHead className="text-right">دسته‌بندی</TableHead>
+                    <TableHead className="text-right">مهلت پاسخ</TableHead>
+                    <TableHead className="text-right">مهلت رفع</TableHead>
+                    <TableHead className="text-right">هنگام نقض</TableHead>
+                    <TableHead className="text-right">عملیات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {settings.policies.map((policy) => (
+                    <TableRow key={policy.id}>
+                      <TableCell className="font-medium">{policy.name}</TableCell>
+                      <TableCell>{policy.priority ? priorityLabels[policy.priority] : "همه"}</TableCell>
+                      <TableCell>{categoryLabel(policy.categoryId ?? null)}</TableCell>
+                      <TableCell>{formatSlaDuration(policy.firstResponseMinutes)}</TableCell>
+                      <TableCell>{formatSlaDuration(policy.resolutionMinutes)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {policy.escalation.notify && (
+                            <Badge variant="outline" className="font-normal">
+                              اطلاع به مدیران
+                            </Badge>
+                          )}
+                          {policy.escalation.reassignToUserId && (
+                            <Badge variant="outline" className="font-normal">
+                              ارجاع به {technicianName(policy.escalation.reassignToUserId)}
+                            </Badge>
+                          )}
+                          {!policy.escalation.notify && !policy.escalation.reassignToUserId && "--"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2 justify-end">
+                          <Button variant="ghost" size="sm" onClick={() => openEditDialog(policy)} className="gap-1">
+                            <Edit className="w-4 h-4" />
+                            ویرایش
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeletingPolicy(policy)}
+                            className="gap-1 text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            حذف
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-right">ساعات کاری و تعطیلات</CardTitle>
+          <CardDescription className="text-right">
+            مهلت‌ها فقط در ساعات کاری شمرده می‌شوند؛ زمانی که تیکت منتظر پاسخ مشتری است هم حساب نمی‌شود
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label className="text-right">روزهای کاری</Label>
+            <div className="rounded-lg border divide-y">
+              {weekDays.map(({ index, label }) => {
+                const day = hours[index]
+                return (
+                  <div key={index} className="flex items-center gap-4 px-3 py-2">
+                    <label className="flex items-center gap-2 text-sm w-28 cursor-pointer">
+                      <Checkbox
+                        checked={!!day}
+                        onCheckedChange={(checked) =>
+                          updateDay(index, checked === true ? { start: "08:00", end: "16:00" } : null)
+                        }
+                      />
+                      {label}
+                    </label>
+                    {day ? (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-muted-foreground">از</span>
+                        <Input
+                          type="time"
+                          value={day.start}
+                          onChange={(e) => updateDay(index, { ...day, start: e.target.value })}
+                          className="w-28"
+                          dir="ltr"
+                        />
+                        <span className="text-muted-foreground">تا</span>
+                        <Input
+                          type="time"
+                          value={day.end}
+                          onChange={(e) => updateDay(index, { ...day, end: e.target.value })}
+                          className="w-28"
+                          dir="ltr"
+                        />
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">تعطیل</span>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+            {calendarErrors.hours && <p className="text-sm text-red-500 text-right">{calendarErrors.hours}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sla-recurring-holidays" className="text-right">تعطیلات ثابت سالانه (ماه-روز شمسی)</Label>
+              <Textarea
+                id="sla-recurring-holidays"
+                value={recurringHolidays}
+                onChange={(e) => setRecurringHolidays(e.target.value)}
+                rows={5}
+                dir="ltr"
+                placeholder="01-01"
+              />
+              <p className="text-xs text-muted-foreground text-right">هر سال تکرار می‌شوند، مثل نوروز و ۲۲ بهمن</p>
+              {calendarErrors.recurringHolidays && (
+                <p className="text-sm text-red-500 text-right">{calendarErrors.recurringHolidays}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sla-holidays" className="text-right">تعطیلات یک‌باره (تاریخ میلادی)</Label>
+              <Textarea
+                id="sla-holidays"
+                value={holidays}
+                onChange={(e) => setHolidays(e.target.value)}
+                rows={5}
+                dir="ltr"
+                placeholder="2025-03-31"
+              />
+              <p className="text-xs text-muted-foreground text-right">
+                تعطیلات قمری هر سال جابه‌جا می‌شوند و باید این‌جا وارد شوند
+              </p>
+              {calendarErrors.holidays && <p className="text-sm text-red-500 text-right">{calendarErrors.holidays}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="sla-at-risk" className="text-right">هشدار نزدیک شدن به مهلت (درصد مصرف‌شده)</Label>
+            <Input
+              id="sla-at-risk"
+              type="number"
+              min={1}
+              max={99}
+              value={atRiskPercent}
+              onChange={(e) => setAtRiskPercent(e.target.value)}
+              dir="ltr"
+            />
+            {calendarErrors.atRiskPercent && (
+              <p className="text-sm text-red-500 text-right">{calendarErrors.atRiskPercent}</p>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSaveCalendar} disabled={saving} className="gap-2">
+              <Save className="w-4 h-4" />
+              {saving ? "در حال ذخیره..." : "ذخیره ساعات کاری"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Create / edit dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-lg" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right">{editingPolicy ? "ویرایش سیاست" : "سیاست جدید"}</DialogTitle>
+            <DialogDescription className="text-right">
+              مهلت‌ها به ساعت کاری هستند؛ مثلاً ۸ ساعت یعنی یک روز کاری کامل
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sla-policy-name" className="text-right">نام سیاست *</Label>
+              <Input
+                id="sla-policy-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="text-right"
+                dir="rtl"
+                placeholder="تیکت‌های فوری"
+              />
+              {fieldErrors.name && <p className="text-sm text-red-500 text-right">{fieldErrors.name}</p>}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-right">اولویت</Label>
+                <Select value={form.priority} onValueChange={(value) => setForm({ ...form, priority: value })}>
+                  <SelectTrigger className="text-right" dir="rtl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent dir="rtl">
+                    <SelectItem value={ANY}>همه</SelectItem>
+                    {(Object.keys(priorityLabels) as ApiTicketPriority[]).map((priority) => (
+                      <SelectItem key={priority} value={priority}>
+                        {priorityLabels[priority]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-right">دسته‌بندی</Label>
+                <Select value={form.categoryId} onValueChange={(value) => setForm({ ...form, categoryId: value })}>
+                  <SelectTrigger className="text-right" dir="rtl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent dir="rtl">
+                    <SelectItem value={ANY}>همه</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.backendId} value={String(category.backendId)}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {fieldErrors.scope && <p className="text-sm text-red-500 text-right">{fieldErrors.scope}</p>}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sla-first-response" className="text-right">مهلت اولین پاسخ (ساعت)</Label>
+                <Input
+                  id="sla-first-response"
+                  type="number"
+                  min={0.25}
+                  step={0.25}
+                  value={form.firstResponseHours}
+                  onChange={(e) => setForm({ ...form, firstResponseHours: e.target.value })}
+                  dir="ltr"
+                />
+                {fieldErrors.firstResponse && (
+                  <p className="text-sm text-red-500 text-right">{fieldErrors.firstResponse}</p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sla-resolution" className="text-right">مهلت رفع (ساعت)</Label>
+                <Input
+                  id="sla-resolution"
+                  type="number"
+                  min={0.25}
+                  step={0.25}
+                  value={form.resolutionHours}
+                  onChange={(e) => setForm({ ...form, resolutionHours: e.target.value })}
+                  dir="ltr"
+                />
+                {fieldErrors.resolution && <p className="text-sm text-red-500 text-right">{fieldErrors.resolution}</p>}
+              </div>
+            </div>
+            <div className="space-y-3 rounded-lg border p-3">
+              <Label className="text-right">هنگام نقض مهلت</Label>
+              <p className="text-xs text-muted-foreground text-right">
+                این تنظیمات ذخیره می‌شوند، اما ارجاع خودکار هنوز در سرور اجرا نمی‌شود.
+              </p>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="sla-notify" className="font-normal">
+                  اطلاع‌رسانی به مدیران
+                </Label>
+                <Switch
+                  id="sla-notify"
+                  checked={form.notify}
+                  onCheckedChange={(checked) => setForm({ ...form, notify: checked })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-right font-normal">ارجاع خودکار به</Label>
+                <Select
+                  value={form.reassignToUserId}
+                  onValueChange={(value) => setForm({ ...form, reassignToUserId: value })}
+                >
+                  <SelectTrigger className="text-right" dir="rtl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent dir="rtl">
+                    <SelectItem value={NO_REASSIGN}>بدون ارجاع</SelectItem>
+                    {assignableTechnicians.map((tech) => (
+                      <SelectItem key={tech.id} value={tech.userId!}>
+                        {tech.fullName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={saving}>
+              انصراف
+            </Button>
+            <Button onClick={handleSavePolicy} disabled={saving}>
+              {saving ? "در حال ذخیره..." : "ذخیره"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingPolicy} onOpenChange={(open) => !open && setDeletingPolicy(null)}>
+        <AlertDialogContent dir="rtl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-right">حذف سیاست «{deletingPolicy?.name}»؟</AlertDialogTitle>
+            <AlertDialogDescription className="text-right">
+              تیکت‌هایی که این سیاست را داشتند مشمول سیاست کلی‌تر بعدی می‌شوند، یا بدون مهلت می‌مانند.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2">
+            <AlertDialogCancel>انصراف</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+              حذف
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { useState } from "react"
+import { KeyRound } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { toast } from "@/hooks/use-toast"
+import { beginOidcLogin, oidcConfig } from "@/lib/oidc"
+import { getOidcNonce } from "@/lib/sign-in-security-api"
+
+interface SsoLoginButtonProps {
+  /** Receives the provider's name, e.g. `(name) => \`Sign in with ${name}\`` */
+  label: (providerName: string) => string
+  returnTo?: string
+  className?: string
+}
+
+/**
+ * Sign in through the organization's identity provider. Renders nothing when SSO isn't configured.
+ */
+export function SsoLoginButton({ label, returnTo, className }: SsoLoginButtonProps) {
+  const [redirecting, setRedirecting] = useState(false)
+
+  if (!oidcConfig) return null
+
+  const handleClick = async () => {
+    setRedirecting(true)
+    try {
+      const { nonce } = await getOidcNonce()
+      await beginOidcLogin(nonce, returnTo)
+    } catch (error) {
+      setRedirecting(false)
+      toast({
+        title: "ورود یکپارچه در دسترس نیست",
+        description: (error as Error).message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Button type="button" variant="outline" className={className} onClick={handleClick} disabled={redirecting}>
+      {redirecting ? (
+        <span className="h-4 w-4 animate-spin rounded-full border-2 border-foreground/40 border-t-foreground" />
+      ) : (
+        <KeyRound className="w-4 h-4" />
+      )}
+      {label(oidcConfig.providerName)}
+    </Button>
+  )
+}
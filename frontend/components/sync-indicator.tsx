@@ -0,0 +1,127 @@
+"use client"
+
+import { AlertTriangle, CheckCircle2, CloudOff, Loader2, RefreshCw } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useSyncStatus } from "@/hooks/use-offline-sync"
+import type { OutboxEntry } from "@/lib/offline-outbox"
+import { cn } from "@/lib/utils"
+
+const operationLabel = (entry: OutboxEntry) => {
+  const { operation } = entry
+  switch (operation.kind) {
+    case "createTicket":
+      return `تیکت جدید: ${operation.request.title}`
+    case "reply":
+      return "پاسخ به تیکت"
+    case "updateTicket":
+      return "تغییر وضعیت یا اولویت تیکت"
+  }
+}
+
+const stateMeta: Record<OutboxEntry["state"], { label: string; className: string }> = {
+  pending: { label: "در انتظار ارسال", className: "border-border bg-muted text-muted-foreground" },
+  conflict: {
+    label: "تداخل",
+    className: "border-amber-300 bg-amber-100 text-amber-900 dark:border-amber-500/40 dark:bg-amber-500/10 dark:text-amber-100",
+  },
+  failed: {
+    label: "ناموفق",
+    className: "border-rose-300 bg-rose-100 text-rose-900 dark:border-rose-500/40 dark:bg-rose-500/10 dark:text-rose-100",
+  },
+}
+
+const faTime = (value: string | number) => new Date(value).toLocaleTimeString("fa-IR")
+
+/**
+ * Header badge for offline mode: connection state, queued changes, and the conflicts
+ * that need a decision before they can be sent
+ */
+export function SyncIndicator() {
+  const { online, syncing, entries, pending, conflicts, failed, lastSyncedAt, retry, resolve } = useSyncStatus()
+  const attention = conflicts + failed
+
+  const summary = !online
+    ? { icon: CloudOff, label: "آفلاین", className: "text-rose-600 dark:text-rose-400" }
+    : syncing
+      ? { icon: Loader2, label: "در حال همگام‌سازی", className: "text-blue-600 dark:text-blue-400" }
+      : attention > 0
+        ? { icon: AlertTriangle, label: "نیاز به بررسی", className: "text-amber-600 dark:text-amber-400" }
+        : pending > 0
+          ? { icon: RefreshCw, label: "در صف ارسال", className: "text-muted-foreground" }
+          : { icon: CheckCircle2, label: "همگام", className: "text-emerald-600 dark:text-emerald-400" }
+  const Icon = summary.icon
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2 text-muted-foreground hover:text-foreground" title={summary.label}>
+          <Icon className={cn("h-4 w-4", summary.className, syncing && "animate-spin")} />
+          <span className="hidden text-xs sm:inline">{summary.label}</span>
+          {entries.length > 0 && (
+            <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-semibold text-muted-foreground">
+              {entries.length.toLocaleString("fa-IR")}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3 text-right font-iran" dir="rtl">
+        <div className="space-y-1">
+          <p className="text-sm font-semibold text-foreground">
+            {online ? "اتصال به سرور برقرار است" : "اتصال به سرور برقرار نیست"}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {online
+              ? lastSyncedAt
+                ? `آخرین همگام‌سازی: ${faTime(lastSyncedAt)}`
+                : "تغییرات مستقیم به سرور ارسال می‌شوند."
+              : "آخرین اطلاعات ذخیره‌شده نمایش داده می‌شود و تغییرات پس از اتصال ارسال می‌شوند."}
+          </p>
+        </div>
+
+        {entries.length > 0 && (
+          <div className="max-h-72 space-y-2 overflow-y-auto">
+            {entries.map((entry) => (
+              <div key={entry.id} className="space-y-2 rounded-lg border border-border p-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm text-foreground">{operationLabel(entry)}</p>
+                    <p className="text-[11px] text-muted-foreground">ثبت در {faTime(entry.queuedAt)}</p>
+                  </div>
+                  <Badge className={cn("shrink-0 border", stateMeta[entry.state].className)}>
+                    {stateMeta[entry.state].label}
+                  </Badge>
+                </div>
+                {entry.state === "conflict" && (
+                  <p className="text-xs text-muted-foreground">
+                    این تیکت پس از ثبت تغییر شما
+                    {entry.serverUpdatedAt ? ` (${faTime(entry.serverUpdatedAt)})` : ""} روی سرور تغییر کرده است.
+                  </p>
+                )}
+                {entry.state === "failed" && entry.error && <p className="text-xs text-destructive">{entry.error}</p>}
+                {entry.state !== "pending" && (
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="outline" onClick={() => void resolve(entry.id, "discard")}>
+                      حذف تغییر
+                    </Button>
+                    <Button size="sm" disabled={!online} onClick={() => void resolve(entry.id, "overwrite")}>
+                      {entry.state === "conflict" ? "ارسال با وجود تغییر" : "تلاش دوباره"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pending > 0 && online && !syncing && (
+          <Button size="sm" variant="outline" className="w-full gap-2" onClick={() => void retry()}>
+            <RefreshCw className="h-4 w-4" />
+            ارسال تغییرات در صف
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
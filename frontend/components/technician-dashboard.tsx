@@ -21,6 +21,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { SlaBadge } from "@/components/sla-badge";
 import {
   Dialog,
   DialogContent,
@@ -31,6 +32,12 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "@/hooks/use-toast";
+import { useTicketMessages } from "@/hooks/use-ticket-messages";
+import { useTicketQuery, useTicketSummary } from "@/hooks/use-ticket-query";
+import { useStatusOptions, useTicketWorkflow } from "@/hooks/use-ticket-workflow";
+import { useTicketMutations } from "@/hooks/use-tickets";
+import type { TicketListSort } from "@/lib/ticket-mappers";
+import { ticketStatusColors, ticketStatusLabels, TicketTransitionError } from "@/lib/ticket-workflow";
 import {
   Search,
   Filter,
@@ -44,6 +51,8 @@ import {
   CheckCircle,
 } from "lucide-react";
 import type { Ticket, TicketCategory, TicketPriority, TicketStatus } from "@/types";
+import { TicketListPagination, TicketSortSelect } from "./ticket-list-controls";
+import { TicketAttachments } from "./ticket-attachments";
 
 /* ====================== TYPES ====================== */
 type FilterStatus = "all" | TicketStatus;
@@ -51,35 +60,25 @@ type FilterPriority = "all" | TicketPriority;
 
 type SummaryScope = "all" | "open" | "in-progress" | "resolved";
 
+const scopeStatuses: Record<SummaryScope, TicketStatus[]> = {
+  all: [],
+  open: ["open"],
+  "in-progress": ["in-progress", "waiting-for-client"],
+  resolved: ["resolved", "closed"],
+};
+
 interface User {
   name?: string;
   email?: string;
 }
 
 interface TechnicianDashboardProps {
-  tickets: Ticket[];
-  onTicketUpdate: (ticketId: string, updates: Partial<Ticket>) => void;
-  onTicketRespond?: (ticketId: string, message: string, status: TicketStatus) => Promise<void> | void;
   currentUser: User;
   activeSection?: "assigned" | "in-progress" | "history";
   onSectionChange?: (section: "assigned" | "in-progress" | "history") => void;
 }
 
 /* =================== LABELS / COLORS =================== */
-const statusColors: Record<TicketStatus, string> = {
-  open: "bg-red-100 text-red-800 border-red-200",
-  "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
-  resolved: "bg-green-100 text-green-800 border-green-200",
-  closed: "bg-gray-100 text-gray-800 border-gray-200",
-};
-
-const statusLabels: Record<TicketStatus, string> = {
-  open: "باز",
-  "in-progress": "در حال انجام",
-  resolved: "حل شده",
-  closed: "بسته",
-};
-
 const priorityColors: Record<TicketPriority, string> = {
   low: "bg-blue-100 text-blue-800 border-blue-200",
   medium: "bg-orange-100 text-orange-800 border-orange-200",
@@ -112,27 +111,38 @@ const getCategoryLabel = (ticketOrId: any) => {
 
 /* ====================== COMPONENT ====================== */
 export function TechnicianDashboard({
-  tickets,
-  onTicketUpdate,
-  onTicketRespond,
   currentUser,
   activeSection = "assigned",
   onSectionChange,
 }: TechnicianDashboardProps) {
+  const { count } = useTicketSummary({}, { scope: "technician" });
+  const { respondToTicket } = useTicketMutations();
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState<FilterStatus>("all");
   const [filterPriority, setFilterPriority] = useState<FilterPriority>("all");
+  const [sort, setSort] = useState<TicketListSort>("createdAt:desc");
   const [selectedTicket, setSelectedTicket] = useState<Ticket | null>(null);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
+  const selectedThread = useTicketMessages(
+    viewDialogOpen ? selectedTicket?.id : null,
+    selectedTicket?.responseCount,
+  );
   const [responseDialogOpen, setResponseDialogOpen] = useState(false);
   const [responseMessage, setResponseMessage] = useState("");
   const [responseStatus, setResponseStatus] = useState<TicketStatus>("open");
+  // Only the changes the workflow lets a technician make from the ticket's current status
+  const responseStatusOptions = useStatusOptions(selectedTicket?.status);
+  const { workflow } = useTicketWorkflow();
   const [summaryDialogOpen, setSummaryDialogOpen] = useState(false);
   const [summaryDialogData, setSummaryDialogData] = useState<{
     title: string;
     description: string;
-    tickets: Ticket[];
+    statuses: TicketStatus[];
   } | null>(null);
+  const summaryPage = useTicketQuery(
+    { statuses: summaryDialogData?.statuses ?? [] },
+    { scope: "technician", enabled: summaryDialogOpen && summaryDialogData !== null },
+  );
   const [selectedScope, setSelectedScope] = useState<SummaryScope>('all');
   const cardOverrideRef = useRef<SummaryScope | null>(null);
 
@@ -163,54 +173,34 @@ export function TechnicianDashboard({
     }
   }, [activeSection]);
 
-  // Filter tickets assigned to current technician
-  // Backend already filters by TechnicianId, but we keep this as a safety check
-  const technicianTickets = tickets.filter((ticket) => {
-    // Check if ticket is assigned to this technician by email or ID
-    return (
-      ticket.assignedTechnicianEmail === currentUser?.email ||
-      ticket.assignedTo === currentUser?.id
-    );
-  });
-
-  const matchesScope = (ticket: Ticket, scope: SummaryScope) => {
-    switch (scope) {
-      case "open":
-        return ticket.status === "open";
-      case "in-progress":
-        return ticket.status === "in-progress";
-      case "resolved":
-        return ticket.status === "resolved" || ticket.status === "closed";
-      case "all":
-      default:
-        return true;
-    }
-  };
-
-  const sectionTickets = technicianTickets.filter((ticket) =>
-    matchesScope(ticket, selectedScope),
-  );
+  // The backend only counts and lists tickets assigned to the signed-in technician
+  const sectionTicketCount = count(...scopeStatuses[selectedScope]);
 
-  const filteredTickets = sectionTickets.filter((ticket) => {
-    const q = searchQuery.toLowerCase();
-    const matchesSearch =
-      ticket.title.toLowerCase().includes(q) ||
-      ticket.description.toLowerCase().includes(q) ||
-      ticket.id.toLowerCase().includes(q) ||
-      ticket.clientName.toLowerCase().includes(q);
+  // The status filter narrows the selected scope; a status outside the scope can never match
+  const allowedStatuses = scopeStatuses[selectedScope];
+  const queryStatuses =
+    filterStatus === "all"
+      ? allowedStatuses
+      : allowedStatuses.length === 0 || allowedStatuses.includes(filterStatus)
+        ? [filterStatus]
+        : null;
 
-    const matchesStatus =
-      filterStatus === "all" || ticket.status === filterStatus;
-    const matchesPriority =
-      filterPriority === "all" || ticket.priority === filterPriority;
+  const ticketPage = useTicketQuery(
+    {
+      statuses: queryStatuses ?? [],
+      priority: filterPriority,
+      search: searchQuery,
+      sort,
+    },
+    { scope: "technician", enabled: queryStatuses !== null },
+  );
+  const filteredTickets = queryStatuses === null ? [] : ticketPage.tickets;
 
-    return matchesSearch && matchesStatus && matchesPriority;
-  });
 
-  const totalTickets = technicianTickets.length;
-  const openTickets = technicianTickets.filter((t) => t.status === "open").length;
-  const inProgressTickets = technicianTickets.filter((t) => t.status === "in-progress").length;
-  const resolvedTickets = technicianTickets.filter((t) => t.status === "resolved" || t.status === "closed").length;
+  const totalTickets = count();
+  const openTickets = count(...scopeStatuses.open);
+  const inProgressTickets = count(...scopeStatuses["in-progress"]);
+  const resolvedTickets = count(...scopeStatuses.resolved);
 
   const summaryCards = [
     {
@@ -284,14 +274,10 @@ export function TechnicianDashboard({
       }
     }
 
-    const scopedTickets = technicianTickets.filter((ticket) =>
-      matchesScope(ticket, scope),
-    );
-
     setSummaryDialogData({
       title: card.title,
       description: card.description,
-      tickets: scopedTickets,
+      statuses: scopeStatuses[scope],
     });
     setSummaryDialogOpen(true);
   };
@@ -321,26 +307,30 @@ export function TechnicianDashboard({
     }
 
     try {
-      if (onTicketRespond) {
-        await onTicketRespond(selectedTicket.id, responseMessage.trim(), responseStatus);
-      } else {
-        onTicketUpdate(selectedTicket.id, {
-          status: responseStatus,
-        });
-      }
-
-      toast({
-        title: "پاسخ ثبت شد",
-        description: "پاسخ و وضعیت تیکت با موفقیت به‌روزرسانی شد.",
-      });
+      const result = await respondToTicket(selectedTicket.id, responseMessage.trim(), responseStatus);
+
+      toast(
+        result?.queued
+          ? {
+              title: "پاسخ در صف ارسال",
+              description: "اتصال برقرار نیست؛ پاسخ پس از اتصال مجدد ارسال می‌شود.",
+            }
+          : {
+              title: "پاسخ ثبت شد",
+              description: "پاسخ و وضعیت تیکت با موفقیت به‌روزرسانی شد.",
+            }
+      );
 
       setResponseDialogOpen(false);
       setResponseMessage("");
       setSelectedTicket(null);
-    } catch {
+    } catch (error) {
       toast({
         title: "خطا در ثبت پاسخ",
-        description: "در ثبت پاسخ مشکلی پیش آمد. دوباره تلاش کنید.",
+        description:
+          error instanceof TicketTransitionError
+            ? error.message
+            : "در ثبت پاسخ مشکلی پیش آمد. دوباره تلاش کنید.",
         variant: "destructive",
       });
     }
@@ -419,8 +409,8 @@ export function TechnicianDashboard({
               ) : null}
             </DialogHeader>
             <div className="space-y-3">
-              {summaryDialogData.tickets.length ? (
-                summaryDialogData.tickets.map((ticket) => (
+              {summaryPage.tickets.length ? (
+                summaryPage.tickets.map((ticket) => (
                   <div
                     key={ticket.id}
                     role="button"
@@ -448,17 +438,28 @@ export function TechnicianDashboard({
                         </p>
                       </div>
                       <div className="flex items-center gap-2">
-                        <Badge className={[statusColors[ticket.status], "font-iran"].join(" ")}>{statusLabels[ticket.status]}</Badge>
+                        <Badge className={[ticketStatusColors[ticket.status], "font-iran"].join(" ")}>{ticketStatusLabels[ticket.status]}</Badge>
                         <Badge className={[priorityColors[ticket.priority], "font-iran"].join(" ")}>{priorityLabels[ticket.priority]}</Badge>
+                        <SlaBadge ticket={ticket} />
                       </div>
                     </div>
                   </div>
                 ))
               ) : (
                 <div className="py-6 text-center text-sm text-muted-foreground font-iran">
-                  موردی یافت نشد
+                  {summaryPage.isLoading ? "در حال بارگذاری..." : "موردی یافت نشد"}
                 </div>
               )}
+              {summaryPage.pageCount > 1 && (
+                <TicketListPagination
+                  page={summaryPage.page}
+                  pageSize={summaryPage.pageSize}
+                  pageCount={summaryPage.pageCount}
+                  totalCount={summaryPage.totalCount}
+                  isLoading={summaryPage.isLoading}
+                  onPageChange={summaryPage.setPage}
+                />
+              )}
             </div>
           </DialogContent>
         )}
@@ -473,7 +474,7 @@ export function TechnicianDashboard({
         </CardHeader>
         <CardContent>
           {/* Filters */}
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
             <div className="relative">
               <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
               <Input
@@ -497,6 +498,7 @@ export function TechnicianDashboard({
                 <SelectItem value="all">همه وضعیت‌ها</SelectItem>
                 <SelectItem value="open">باز</SelectItem>
                 <SelectItem value="in-progress">در حال انجام</SelectItem>
+                <SelectItem value="waiting-for-client">در انتظار مشتری</SelectItem>
                 <SelectItem value="resolved">حل شده</SelectItem>
                 <SelectItem value="closed">بسته</SelectItem>
               </SelectContent>
@@ -519,12 +521,15 @@ export function TechnicianDashboard({
               </SelectContent>
             </Select>
 
+            <TicketSortSelect value={sort} onChange={setSort} />
+
             <Button
               variant="outline"
               onClick={() => {
                 setSearchQuery("");
                 setFilterStatus("all");
                 setFilterPriority("all");
+                setSort("createdAt:desc");
               }}
               className="gap-2 font-iran"
             >
@@ -544,6 +549,7 @@ export function TechnicianDashboard({
                   <TableHead className="text-right font-iran">عنوان</TableHead>
                   <TableHead className="text-right font-iran">وضعیت</TableHead>
                   <TableHead className="text-right font-iran">اولویت</TableHead>
+                  <TableHead className="text-right font-iran">SLA</TableHead>
                   <TableHead className="text-right font-iran">
                     دسته‌بندی
                   </TableHead>
@@ -573,9 +579,9 @@ export function TechnicianDashboard({
                       </TableCell>
                       <TableCell>
                         <Badge
-                          className={`${statusColors[ticket.status]} font-iran`}
+                          className={`${ticketStatusColors[ticket.status]} font-iran`}
                         >
-                          {statusLabels[ticket.status]}
+                          {ticketStatusLabels[ticket.status]}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -587,6 +593,9 @@ export function TechnicianDashboard({
                           {priorityLabels[ticket.priority]}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <SlaBadge ticket={ticket} />
+                      </TableCell>
                       <TableCell>
                         <span className="text-sm font-iran">
                           {getCategoryLabel(ticket)}
@@ -633,11 +642,11 @@ export function TechnicianDashboard({
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center py-8">
+                    <TableCell colSpan={9} className="text-center py-8">
                       <div className="flex flex-col items-center gap-2">
                         <Search className="w-8 h-8 text-muted-foreground" />
                         <p className="text-muted-foreground font-iran">
-                          {sectionTickets.length === 0
+                          {sectionTicketCount === 0
                             ? "هیچ تیکتی به شما واگذار نشده است"
                             : "تیکتی یافت نشد"}
                         </p>
@@ -648,6 +657,19 @@ export function TechnicianDashboard({
               </TableBody>
             </Table>
           </div>
+
+          {queryStatuses !== null && (
+            <div className="mt-4">
+              <TicketListPagination
+                page={ticketPage.page}
+                pageSize={ticketPage.pageSize}
+                pageCount={ticketPage.pageCount}
+                totalCount={ticketPage.totalCount}
+                isLoading={ticketPage.isLoading}
+                onPageChange={ticketPage.setPage}
+              />
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -673,10 +695,10 @@ export function TechnicianDashboard({
                   <div className="flex gap-2">
                     <Badge
                       className={`${
-                        statusColors[selectedTicket.status]
+                        ticketStatusColors[selectedTicket.status]
                       } font-iran`}
                     >
-                      {statusLabels[selectedTicket.status]}
+                      {ticketStatusLabels[selectedTicket.status]}
                     </Badge>
                     <Badge
                       className={`${
@@ -798,16 +820,21 @@ export function TechnicianDashboard({
                 </div>
               </div>
 
+              <TicketAttachments ticketId={selectedTicket.id} allowUpload />
+
+              {selectedThread.isLoading && (
+                <p className="text-sm text-muted-foreground text-right font-iran">در حال بارگذاری پاسخ‌ها...</p>
+              )}
+
               {/* Responses */}
-              {selectedTicket.responses &&
-                selectedTicket.responses.length > 0 && (
+              {selectedThread.responses.length > 0 && (
                   <div>
                     <h4 className="font-medium mb-4 flex items-center gap-2 font-iran">
                       <MessageSquare className="w-4 h-4" />
                       پاسخ‌ها و به‌روزرسانی‌ها
                     </h4>
                     <div className="space-y-4">
-                      {selectedTicket.responses.map((response, index) => (
+                      {selectedThread.responses.map((response, index) => (
                         <div key={index} className="border rounded-lg p-4">
                           <div className="flex justify-between items-start mb-2">
                             <div className="flex items-center gap-2">
@@ -823,10 +850,10 @@ export function TechnicianDashboard({
                             <div className="text-left">
                               <Badge
                                 className={`${
-                                  statusColors[response.status]
+                                  ticketStatusColors[response.status]
                                 } mb-1 font-iran`}
                               >
-                                {statusLabels[response.status]}
+                                {ticketStatusLabels[response.status]}
                               </Badge>
                               <p className="text-xs text-muted-foreground flex items-center gap-1 font-iran">
                                 <Calendar className="w-3 h-3" />
@@ -889,12 +916,20 @@ export function TechnicianDashboard({
                   <SelectValue placeholder="انتخاب وضعیت جدید" />
                 </SelectTrigger>
                 <SelectContent className="font-iran">
-                  <SelectItem value="open">باز</SelectItem>
-                  <SelectItem value="in-progress">در حال انجام</SelectItem>
-                  <SelectItem value="resolved">حل شده</SelectItem>
-                  <SelectItem value="closed">بسته</SelectItem>
+                  {responseStatusOptions.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {ticketStatusLabels[status]}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              {responseStatus === "resolved" && selectedTicket?.status !== "resolved" && (
+                <p className="text-xs text-muted-foreground text-right font-iran">
+                  مشتری باید حل شدن تیکت را تأیید کند
+                  {workflow.autoCloseResolvedDays > 0 &&
+                    `؛ بدون پاسخ، پس از ${workflow.autoCloseResolvedDays.toLocaleString("fa-IR")} روز بسته می‌شود`}
+                </p>
+              )}
             </div>
 
             {/* Response Message */}
@@ -25,18 +25,21 @@ import { Switch } from "@/components/ui/switch"
 import { toast } from "@/hooks/use-toast"
 import { useAuth } from "@/lib/auth-context"
 import {
-  getAllTechnicians,
   createTechnician,
   updateTechnician,
   updateTechnicianStatus,
 } from "@/lib/technicians-api"
 import type { ApiTechnicianResponse } from "@/lib/api-types"
-import { Search, Plus, Edit, Trash2, UserCheck, UserX } from "lucide-react"
+import { ApiValidationError, getApiErrorMessage } from "@/lib/api-errors"
+import { invalidateQueries } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { useTechnicians } from "@/hooks/use-technicians"
+import { formatTechnicianRating, technicianRating } from "@/data/technician-profiles"
+import { Search, Plus, Edit, Trash2, UserCheck, UserX, Star } from "lucide-react"
 
 export function TechnicianManagement() {
   const { token } = useAuth()
-  const [technicians, setTechnicians] = useState<ApiTechnicianResponse[]>([])
-  const [loading, setLoading] = useState(false)
+  const { technicians, isLoading: loading, error: loadError } = useTechnicians()
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null) // Track which technician is being updated
   const [saving, setSaving] = useState(false) // Track if save operation is in progress
   const [searchQuery, setSearchQuery] = useState("")
@@ -52,33 +55,28 @@ export function TechnicianManagement() {
     department: "",
     isActive: true,
   })
+  // Server-side validation messages, keyed by form field
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+
+  const applyFieldErrors = (error: unknown) => {
+    setFieldErrors(error instanceof ApiValidationError ? error.firstErrors() : {})
+  }
 
   useEffect(() => {
-    if (token) {
-      loadTechnicians()
-    }
-  }, [token])
+    if (!loadError) return
+    toast({
+      title: "خطا در بارگذاری تکنسین‌ها",
+      description: getApiErrorMessage(loadError),
+      variant: "destructive",
+    })
+  }, [loadError])
 
-  const loadTechnicians = async () => {
-    if (!token) return
-    setLoading(true)
-    try {
-      const data = await getAllTechnicians(token)
-      setTechnicians(data)
-    } catch (error: any) {
-      console.error("Failed to load technicians:", error)
-      toast({
-        title: "خطا در بارگذاری تکنسین‌ها",
-        description: error?.message || "لطفاً دوباره تلاش کنید",
-        variant: "destructive",
-      })
-    } finally {
-      setLoading(false)
-    }
-  }
+  // Technician lists elsewhere (assignment pickers, load counters) read the same cache
+  const loadTechnicians = () => invalidateQueries(queryKeys.technicians)
 
   const handleCreate = async () => {
     if (!token) return
+    setFieldErrors({})
     try {
       await createTechnician(token, {
         fullName: formData.fullName,
@@ -94,11 +92,12 @@ export function TechnicianManagement() {
       setCreateDialogOpen(false)
       resetForm()
       await loadTechnicians()
-    } catch (error: any) {
+    } catch (error) {
       console.error("Failed to create technician:", error)
+      applyFieldErrors(error)
       toast({
         title: "خطا در ایجاد تکنسین",
-        description: error?.message || "لطفاً دوباره تلاش کنید",
+        description: getApiErrorMessage(error),
         variant: "destructive",
       })
     }
@@ -130,6 +129,7 @@ export function TechnicianManagement() {
     }
 
     setSaving(true)
+    setFieldErrors({})
     try {
       console.log("[TechnicianManagement] Updating technician:", {
         id: selectedTechnician.id,
@@ -152,13 +152,12 @@ export function TechnicianManagement() {
       setSelectedTechnician(null)
       resetForm()
       await loadTechnicians()
-    } catch (error: any) {
+    } catch (error) {
       console.error("[TechnicianManagement] Failed to update technician:", error)
-      
-      const errorMessage = error?.message || error?.body?.message || "لطفاً دوباره تلاش کنید"
+      applyFieldErrors(error)
       toast({
         title: "خطا در به‌روزرسانی تکنسین",
-        description: errorMessage,
+        description: getApiErrorMessage(error),
         variant: "destructive",
       })
     } finally {
@@ -200,13 +199,12 @@ export function TechnicianManagement() {
 
       // Reload technicians to get updated status
       await loadTechnicians()
-    } catch (error: any) {
+    } catch (error) {
       console.error("[TechnicianManagement] Failed to update technician status:", error)
       
-      const errorMessage = error?.message || error?.body?.message || "لطفاً دوباره تلاش کنید"
       toast({
         title: "خطا در تغییر وضعیت",
-        description: errorMessage,
+        description: getApiErrorMessage(error),
         variant: "destructive",
       })
     } finally {
@@ -215,6 +213,7 @@ export function TechnicianManagement() {
   }
 
   const resetForm = () => {
+    setFieldErrors({})
     setFormData({
       fullName: "",
       email: "",
@@ -293,6 +292,7 @@ export function TechnicianManagement() {
                     <TableHead className="text-right">تلفن</TableHead>
                     <TableHead className="text-right">بخش</TableHead>
                     <TableHead className="text-right">وضعیت</TableHead>
+                    <TableHead className="text-right">رضایت مشتریان</TableHead>
                     <TableHead className="text-right">تاریخ ایجاد</TableHead>
                     <TableHead className="text-right">عملیات</TableHead>
                   </TableRow>
@@ -312,6 +312,15 @@ export function TechnicianManagement() {
                           {technician.isActive ? "فعال" : "غیرفعال"}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <div
+                          className="flex items-center gap-1"
+                          title={`${(technician.satisfaction?.responses ?? 0).toLocaleString("fa-IR")} پاسخ نظرسنجی`}
+                        >
+                          <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
+                          {formatTechnicianRating(technicianRating(technician.satisfaction))}
+                        </div>
+                      </TableCell>
                       <TableCell>
                         {new Date(technician.createdAt).toLocaleDateString("fa-IR")}
                       </TableCell>
@@ -381,6 +390,7 @@ export function TechnicianManagement() {
                 dir="rtl"
                 placeholder="نام کامل تکنسین"
               />
+              {fieldErrors.fullName && <p className="text-sm text-red-500 text-right">{fieldErrors.fullName}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="email" className="text-right">ایمیل *</Label>
@@ -393,6 +403,7 @@ export function TechnicianManagement() {
                 dir="rtl"
                 placeholder="email@example.com"
               />
+              {fieldErrors.email && <p className="text-sm text-red-500 text-right">{fieldErrors.email}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="phone" className="text-right">تلفن</Label>
@@ -404,6 +415,7 @@ export function TechnicianManagement() {
                 dir="rtl"
                 placeholder="09123456789"
               />
+              {fieldErrors.phone && <p className="text-sm text-red-500 text-right">{fieldErrors.phone}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="department" className="text-right">بخش</Label>
@@ -415,6 +427,7 @@ export function TechnicianManagement() {
                 dir="rtl"
                 placeholder="بخش تکنسین"
               />
+              {fieldErrors.department && <p className="text-sm text-red-500 text-right">{fieldErrors.department}</p>}
             </div>
             <div className="flex items-center gap-2">
               <Switch
@@ -462,6 +475,7 @@ export function TechnicianManagement() {
                 dir="rtl"
                 placeholder="نام کامل تکنسین"
               />
+              {fieldErrors.fullName && <p className="text-sm text-red-500 text-right">{fieldErrors.fullName}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-email" className="text-right">ایمیل *</Label>
@@ -474,6 +488,7 @@ export function TechnicianManagement() {
                 dir="rtl"
                 placeholder="email@example.com"
               />
+              {fieldErrors.email && <p className="text-sm text-red-500 text-right">{fieldErrors.email}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-phone" className="text-right">تلفن</Label>
@@ -485,6 +500,7 @@ export function TechnicianManagement() {
                 dir="rtl"
                 placeholder="09123456789"
               />
+              {fieldErrors.phone && <p className="text-sm text-red-500 text-right">{fieldErrors.phone}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-department" className="text-right">بخش</Label>
@@ -496,6 +512,7 @@ export function TechnicianManagement() {
                 dir="rtl"
                 placeholder="بخش تکنسین"
               />
+              {fieldErrors.department && <p className="text-sm text-red-500 text-right">{fieldErrors.department}</p>}
             </div>
             <div className="flex items-center gap-2">
               <Switch
@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Clock, MessageSquare, UserPlus, CheckCircle, XCircle } from "lucide-react"
+import { Clock, MessageSquare, UserPlus, CheckCircle, XCircle, GitMerge } from "lucide-react"
 import { useAuth } from "@/lib/auth-context"
 import { getTicketActivities } from "@/lib/tickets-api"
 import type { ApiTicketActivityDto } from "@/lib/api-types"
@@ -14,6 +14,7 @@ const activityLabels: Record<string, string> = {
   AssignmentChanged: "تغییر اختصاص",
   TechnicianStateChanged: "تغییر وضعیت تکنسین",
   WorkNoteAdded: "بروزرسانی کار",
+  Merged: "ادغام تیکت",
 }
 
 const activityIcons: Record<string, any> = {
@@ -21,6 +22,7 @@ const activityIcons: Record<string, any> = {
   CommentAdded: MessageSquare,
   AssignmentChanged: UserPlus,
   TechnicianStateChanged: Clock,
+  Merged: GitMerge,
 }
 
 interface TicketActivityTimelineProps {
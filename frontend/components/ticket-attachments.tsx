@@ -0,0 +1,169 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { FileUpload, getFileIcon } from "@/components/file-upload"
+import { useCan } from "@/hooks/use-permissions"
+import { toast } from "@/hooks/use-toast"
+import { downloadAttachment, getAttachmentObjectUrl, useTicketAttachments } from "@/hooks/use-attachments"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { useAuth } from "@/lib/auth-context"
+import { formatFileSize } from "@/lib/file-upload"
+import type { TicketAttachment } from "@/types"
+import { Download, Eye, Paperclip, Trash2 } from "lucide-react"
+
+interface TicketAttachmentsProps {
+  ticketId: string
+  /** Show the upload area below the list */
+  allowUpload?: boolean
+  className?: string
+}
+
+// SVG can carry scripts, so images are previewed only in the raster formats the server serves inline
+const PREVIEW_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"])
+
+const isPreviewable = (type: string) => PREVIEW_IMAGE_TYPES.has(type) || type === "application/pdf" || type === "text/plain"
+
+export function TicketAttachments({ ticketId, allowUpload = false, className }: TicketAttachmentsProps) {
+  const { user, token } = useAuth()
+  const can = useCan()
+  const { attachments, isLoading, remove } = useTicketAttachments(ticketId)
+  const [preview, setPreview] = useState<{ attachment: TicketAttachment; url: string } | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  // Object URLs hold the whole file in memory until revoked
+  useEffect(() => {
+    if (!preview) return
+    return () => URL.revokeObjectURL(preview.url)
+  }, [preview])
+
+  const canDelete = (attachment: TicketAttachment) =>
+    can("attachments.manage") || (!!attachment.uploadedById && attachment.uploadedById === user?.id)
+
+  const handlePreview = async (attachment: TicketAttachment) => {
+    setBusyId(attachment.id)
+    try {
+      const url = await getAttachmentObjectUrl(token, attachment.id, { inline: true })
+      setPreview({ attachment, url })
+    } catch (error) {
+      console.error("Failed to load attachment preview", error)
+      toast({
+        title: "نمایش فایل ناموفق بود",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDownload = async (attachment: TicketAttachment) => {
+    setBusyId(attachment.id)
+    try {
+      await downloadAttachment(token, attachment)
+    } catch (error) {
+      console.error("Failed to download attachment", error)
+      toast({
+        title: "دریافت فایل ناموفق بود",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (!allowUpload && !isLoading && attachments.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-right font-iran">
+          <Paperclip className="w-5 h-5 text-purple-600" />
+          فایل‌های پیوست
+          {attachments.length > 0 && ` (${attachments.length})`}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-right font-iran">در حال بارگذاری پیوست‌ها...</p>
+        ) : attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-right font-iran">فایلی پیوست نشده است</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {attachments.map((attachment) => (
+              <div key={attachment.id} className="flex items-center gap-3 p-3 bg-gray-50 border rounded-lg">
+                {getFileIcon(attachment.type)}
+                <div className="flex-1 min-w-0 text-right">
+                  <p className="text-sm font-medium font-iran truncate">{attachment.name}</p>
+                  <p className="text-xs text-muted-foreground font-iran">
+                    {formatFileSize(attachment.size)}
+                    {attachment.uploadedBy ? ` • ${attachment.uploadedBy}` : ""}
+                    {` • ${new Date(attachment.uploadedAt).toLocaleDateString("fa-IR")}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  {isPreviewable(attachment.type) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      type="button"
+                      disabled={busyId === attachment.id}
+                      onClick={() => handlePreview(attachment)}
+                      title="پیش‌نمایش"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    type="button"
+                    disabled={busyId === attachment.id}
+                    onClick={() => handleDownload(attachment)}
+                    title="دریافت"
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                  {canDelete(attachment) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      type="button"
+                      onClick={() => remove(attachment.id)}
+                      className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                      title="حذف"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {allowUpload && <FileUpload ticketId={ticketId} />}
+      </CardContent>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-4xl" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right font-iran truncate">{preview?.attachment.name}</DialogTitle>
+          </DialogHeader>
+          {preview &&
+            (preview.attachment.type.startsWith("image/") ? (
+              // eslint-disable-next-line @next/next/no-img-element -- blob URLs can't go through next/image
+              <img src={preview.url} alt={preview.attachment.name} className="max-h-[70vh] mx-auto rounded" />
+            ) : (
+              <iframe src={preview.url} title={preview.attachment.name} className="w-full h-[70vh] rounded border" />
+            ))}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -2,9 +2,13 @@
 
 import { useEffect, useMemo, useState, type ReactNode } from "react";
 import { useRouter } from "next/navigation";
+import { useCan } from "@/hooks/use-permissions";
+import { useQuery } from "@/hooks/use-query";
 import { useAuth } from "@/lib/auth-context";
-import { apiRequest } from "@/lib/api-client";
-import type { ApiTicketResponse } from "@/lib/api-types";
+import { queryKeys } from "@/lib/query-keys";
+import { mapApiStatusToUi } from "@/lib/ticket-mappers";
+import { ticketStatusLabels } from "@/lib/ticket-workflow";
+import { getCalendarTickets } from "@/lib/tickets-api";
 
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -109,16 +113,13 @@ const statusMeta: Record<
   },
 };
 
-const statusLabels: Record<string, string> = {
-  open: "باز",
-  "in-progress": "در حال انجام",
-  resolved: "حل شده",
-  closed: "بسته",
-};
+// Tickets passed in are loosely typed, so their status is looked up as a plain string
+const statusLabels: Record<string, string> = ticketStatusLabels;
 
 const statusColors: Record<string, string> = {
   open: "bg-rose-100 text-rose-700 border border-rose-200",
   "in-progress": "bg-amber-100 text-amber-700 border border-amber-200",
+  "waiting-for-client": "bg-sky-100 text-sky-700 border border-sky-200",
   resolved: "bg-emerald-100 text-emerald-700 border border-emerald-200",
   closed: "bg-slate-100 text-slate-700 border border-slate-200",
 };
@@ -194,7 +195,7 @@ const getTicketDate = (ticket: any): dayjs.Dayjs | null => {
 };
 
 const getStatusBucket = (status: string): StatusBucket => {
-  if (status === "in-progress") return "working";
+  if (status === "in-progress" || status === "waiting-for-client") return "working";
   if (status === "open") return "notResponded";
   return "answered";
 };
@@ -202,7 +203,8 @@ const getStatusBucket = (status: string): StatusBucket => {
 export function TicketCalendarOverview({
   tickets: ticketsProp,
 }: TicketCalendarOverviewProps) {
-  const { token, user } = useAuth();
+  const { token } = useAuth();
+  const can = useCan();
   const router = useRouter();
   
   // Current Jalali month, first day
@@ -211,59 +213,39 @@ export function TicketCalendarOverview({
   );
   const [selectedDateKey, setSelectedDateKey] = useState<string | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [calendarTickets, setCalendarTickets] = useState<any[]>([]);
-  const [loading, setLoading] = useState(false);
 
-  // Fetch tickets for the visible date range
-  useEffect(() => {
-    if (!token || !user || user.role !== "Admin") return;
-    
-    // Calculate date range for current month view
-    const startOfMonth = currentMonth.startOf("month");
-    const endOfMonth = currentMonth.endOf("month");
-    
-    // Convert Jalali dates to Gregorian for API
-    const startGregorian = startOfMonth.calendar("gregory").startOf("day").toISOString();
-    const endGregorian = endOfMonth.calendar("gregory").endOf("day").toISOString();
-    
-    setLoading(true);
-    const startDate = startGregorian.split("T")[0]; // YYYY-MM-DD
-    const endDate = endGregorian.split("T")[0];
-    
-    apiRequest<any[]>(`/api/tickets/calendar?start=${startDate}&end=${endDate}`, {
-      method: "GET",
-      token,
-    })
-      .then((data) => {
-        // Map API response to calendar format
-        const mapped = (data || []).map((ticket: any) => ({
-          id: ticket.id,
-          ticketNumber: ticket.ticketNumber || `T-${ticket.id.substring(0, 8).toUpperCase()}`,
-          title: ticket.title,
-          status: ticket.status === "New" ? "open" :
-                  ticket.status === "InProgress" ? "in-progress" :
-                  ticket.status === "Resolved" ? "resolved" :
-                  ticket.status === "Closed" ? "closed" : ticket.status,
-          priority: ticket.priority === "Low" ? "low" :
-                    ticket.priority === "Medium" ? "medium" :
-                    ticket.priority === "High" ? "high" :
-                    ticket.priority === "Critical" ? "urgent" : ticket.priority,
-          categoryName: ticket.categoryName || "",
-          assignedTechnicianName: ticket.assignedTechnicianName || ticket.assignedToName || null,
-          createdAt: ticket.createdAt,
-          updatedAt: ticket.createdAt,
-          dueDate: ticket.dueDate,
-        }));
-        setCalendarTickets(mapped);
-      })
-      .catch((error) => {
-        console.error("Failed to load calendar tickets:", error);
-        setCalendarTickets([]);
-      })
-      .finally(() => {
-        setLoading(false);
-      });
-  }, [currentMonth, token, user]);
+  // Date range of the visible Jalali month, as Gregorian YYYY-MM-DD for the API
+  const startDate = currentMonth.startOf("month").calendar("gregory").startOf("day").toISOString().split("T")[0];
+  const endDate = currentMonth.endOf("month").calendar("gregory").endOf("day").toISOString().split("T")[0];
+
+  // Cached per month so live ticket events can refresh it
+  const { data: calendarData } = useQuery(
+    !ticketsProp && token && can("tickets.viewAll")
+      ? queryKeys.ticketCalendarRange(startDate, endDate)
+      : null,
+    () => getCalendarTickets(token, startDate, endDate),
+    { keepPreviousData: true }
+  );
+
+  const calendarTickets = useMemo(
+    () =>
+      (calendarData ?? []).map((ticket) => ({
+        id: ticket.id,
+        ticketNumber: ticket.ticketNumber || `T-${ticket.id.substring(0, 8).toUpperCase()}`,
+        title: ticket.title,
+        status: mapApiStatusToUi(ticket.status),
+        priority: ticket.priority === "Low" ? "low" :
+                  ticket.priority === "Medium" ? "medium" :
+                  ticket.priority === "High" ? "high" :
+                  ticket.priority === "Critical" ? "urgent" : ticket.priority,
+        categoryName: ticket.categoryName || "",
+        assignedTechnicianName: ticket.assignedTechnicianName || null,
+        createdAt: ticket.createdAt,
+        updatedAt: ticket.createdAt,
+        dueDate: ticket.dueDate,
+      })),
+    [calendarData]
+  );
 
   // Use tickets from props if provided, otherwise use fetched tickets
   const activeTickets = ticketsProp || calendarTickets;
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -20,8 +20,9 @@ import { useAuth } from "@/lib/auth-context"
 import { getTicketCollaboration, updateWorkSession } from "@/lib/tickets-api"
 import { getStatusLabel, getStatusColor } from "@/lib/ticket-status"
 import type { ApiTicketCollaborationResponse, ApiUpdateWorkSessionRequest } from "@/lib/api-types"
+import { useCan } from "@/hooks/use-permissions"
 import { toast } from "@/hooks/use-toast"
-import { useSignalR } from "@/hooks/use-signalr"
+import { useTicketGroup } from "@/hooks/use-signalr"
 
 const stateLabels: Record<string, string> = {
   Idle: "بیکار",
@@ -43,9 +44,6 @@ interface TicketCollaborationBoxProps {
   ticketId: string
 }
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL?.replace(/\/+$/, "") || "http://localhost:5000"
-const SIGNALR_HUB_URL = `${API_BASE_URL}/notificationHub`
-
 export function TicketCollaborationBox({ ticketId }: TicketCollaborationBoxProps) {
   const { token, user } = useAuth()
   const [collaboration, setCollaboration] = useState<ApiTicketCollaborationResponse | null>(null)
@@ -57,24 +55,29 @@ export function TicketCollaborationBox({ ticketId }: TicketCollaborationBoxProps
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null)
   const lastUpdateRef = useRef<string | null>(null)
 
-  const isTechnician = user?.role === "engineer"
-  const isAdmin = user?.role === "admin"
+  const can = useCan()
 
-  // SignalR connection
-  const { connection, connected, invoke, on } = useSignalR(SIGNALR_HUB_URL)
+  // Live updates while the ticket group is joined; polling covers the time the hub is unreachable
+  const { connected, on } = useTicketGroup(ticketId)
 
-  useEffect(() => {
+  const loadCollaboration = useCallback(async () => {
     if (!token) return
-
-    // Join ticket group when SignalR is connected
-    if (connected && connection && invoke) {
-      invoke("JoinTicketGroup", ticketId).catch((err) => {
-        console.error("Failed to join ticket group:", err)
-      })
+    try {
+      const data = await getTicketCollaboration(token, ticketId)
+      setCollaboration(data)
+      lastUpdateRef.current = new Date().toISOString()
+    } catch (error) {
+      console.error("Failed to load collaboration data:", error)
+    } finally {
+      setLoading(false)
     }
+  }, [token, ticketId])
+
+  useEffect(() => {
+    if (!token) return
 
     // Subscribe to collaboration updates
-    const unsubscribe = on?.("ticket:collaborationUpdated", (data: ApiTicketCollaborationResponse) => {
+    const unsubscribe = on("ticket:collaborationUpdated", (data) => {
       if (data.ticketId === ticketId) {
         setCollaboration(data)
         lastUpdateRef.current = new Date().toISOString()
@@ -108,25 +111,9 @@ export function TicketCollaborationBox({ ticketId }: TicketCollaborationBoxProps
         clearInterval(pollIntervalRef.current)
       }
       window.removeEventListener("focus", handleFocus)
-      if (connected && connection && invoke) {
-        invoke("LeaveTicketGroup", ticketId).catch(() => {})
-      }
-      unsubscribe?.()
+      unsubscribe()
     }
-  }, [token, ticketId, connected, connection, user?.id])
-
-  const loadCollaboration = async () => {
-    if (!token) return
-    try {
-      const data = await getTicketCollaboration(token, ticketId)
-      setCollaboration(data)
-      lastUpdateRef.current = new Date().toISOString()
-    } catch (error: any) {
-      console.error("Failed to load collaboration data:", error)
-    } finally {
-      setLoading(false)
-    }
-  }
+  }, [token, ticketId, connected, on, user?.id, loadCollaboration])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -148,7 +135,7 @@ export function TicketCollaborationBox({ ticketId }: TicketCollaborationBoxProps
       setNote("")
       // Reload to get updated data
       await loadCollaboration()
-    } catch (error: any) {
+    } catch (error) {
       console.error("Failed to update work session:", error)
       toast({
         title: "خطا",
@@ -278,7 +265,7 @@ export function TicketCollaborationBox({ ticketId }: TicketCollaborationBoxProps
         </div>
 
         {/* My Work Form (for technicians) */}
-        {isTechnician && (
+        {can("tickets.collaborate") && (
           <>
             <Separator />
             <form onSubmit={handleSubmit} className="space-y-4">
@@ -1,6 +1,6 @@
 ﻿"use client"
 
-import { Controller } from "react-hook-form"
+import { Controller, useWatch } from "react-hook-form"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { FileUpload } from "@/components/file-upload"
 import { DynamicFieldRenderer } from "@/components/dynamic-field-renderer"
+import { DuplicateTicketSuggestions } from "@/components/duplicate-ticket-suggestions"
 import type { FormFieldDef } from "@/lib/dynamic-forms"
 import {
   FileText,
@@ -23,7 +24,7 @@ import {
   GraduationCap,
   Wrench,
 } from "lucide-react"
-import type { UploadedFile } from "@/lib/file-upload"
+import type { PendingAttachment } from "@/lib/file-upload"
 
 interface TicketFormStep2Props {
   control: any
@@ -31,8 +32,8 @@ interface TicketFormStep2Props {
   selectedIssue: string
   selectedSubIssue: string
   categoriesData?: any
-  attachedFiles: UploadedFile[]
-  onFilesChange: (files: UploadedFile[]) => void
+  attachedFiles: PendingAttachment[]
+  onFilesChange: (files: PendingAttachment[]) => void
 }
 
 export function TicketFormStep2({
@@ -44,6 +45,8 @@ export function TicketFormStep2({
   attachedFiles,
   onFilesChange,
 }: TicketFormStep2Props) {
+  const [title, description] = useWatch({ control, name: ["title", "description"] })
+
   const getDefinedFields = (): FormFieldDef[] => {
     if (!categoriesData || !selectedIssue) return []
     const cat = categoriesData[selectedIssue]
@@ -1179,6 +1182,8 @@ export function TicketFormStep2({
             {errors.description && <p className="text-sm text-red-500 text-right">{errors.description.message}</p>}
           </div>
 
+          <DuplicateTicketSuggestions title={title ?? ""} description={description} category={selectedIssue} />
+
           <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
             <div className="flex items-start gap-2">
               <AlertCircle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
@@ -0,0 +1,93 @@
+"use client"
+
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { TicketListSort } from "@/lib/ticket-mappers"
+
+const sortLabels: Partial<Record<TicketListSort, string>> = {
+  "createdAt:desc": "جدیدترین",
+  "createdAt:asc": "قدیمی‌ترین",
+  "updatedAt:desc": "آخرین به‌روزرسانی",
+  "priority:desc": "بیشترین اولویت",
+  "dueDate:asc": "نزدیک‌ترین مهلت",
+  "title:asc": "عنوان (الفبایی)",
+}
+
+interface TicketListPaginationProps {
+  page: number
+  pageSize: number
+  pageCount: number
+  totalCount: number
+  isLoading?: boolean
+  onPageChange: (page: number) => void
+}
+
+export function TicketListPagination({
+  page,
+  pageSize,
+  pageCount,
+  totalCount,
+  isLoading = false,
+  onPageChange,
+}: TicketListPaginationProps) {
+  const from = totalCount === 0 ? 0 : (page - 1) * pageSize + 1
+  const to = Math.min(page * pageSize, totalCount)
+
+  return (
+    <div className="flex flex-col-reverse items-center justify-between gap-3 sm:flex-row font-iran" dir="rtl">
+      <p className="text-sm text-muted-foreground flex items-center gap-2">
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+        نمایش {from.toLocaleString("fa-IR")}–{to.toLocaleString("fa-IR")} از {totalCount.toLocaleString("fa-IR")} تیکت
+      </p>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1 || isLoading}
+          className="gap-1 font-iran"
+        >
+          <ChevronRight className="w-4 h-4" />
+          قبلی
+        </Button>
+        <span className="text-sm min-w-[5rem] text-center">
+          صفحه {page.toLocaleString("fa-IR")} از {pageCount.toLocaleString("fa-IR")}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount || isLoading}
+          className="gap-1 font-iran"
+        >
+          بعدی
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface TicketSortSelectProps {
+  value: TicketListSort
+  onChange: (value: TicketListSort) => void
+  className?: string
+}
+
+export function TicketSortSelect({ value, onChange, className }: TicketSortSelectProps) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as TicketListSort)} dir="rtl">
+      <SelectTrigger className={`text-right font-iran ${className ?? ""}`}>
+        <SelectValue placeholder="مرتب‌سازی" />
+      </SelectTrigger>
+      <SelectContent className="font-iran">
+        {Object.entries(sortLabels).map(([sort, label]) => (
+          <SelectItem key={sort} value={sort}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { GitMerge, Search } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { useTicketQuery } from "@/hooks/use-ticket-query"
+import { useSimilarTickets, useTicketMutations } from "@/hooks/use-tickets"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { isMergeable, ticketStatusLabels } from "@/lib/ticket-workflow"
+import type { Ticket, TicketStatus } from "@/types"
+
+// Admins review every suggestion, so the bar is lower than for the client's hint
+const SUGGESTION_THRESHOLD = 0.2
+const MAX_SUGGESTIONS = 5
+const MAX_SEARCH_RESULTS = 10
+const MERGEABLE_STATUSES: TicketStatus[] = ["open", "in-progress", "waiting-for-client"]
+
+// Suggestions only carry what the similarity query returns
+type MergeCandidate = Pick<Ticket, "id" | "title" | "status" | "createdAt"> & { clientName?: string }
+
+interface TicketMergeDialogProps {
+  /** The ticket the others are folded into */
+  primary: Ticket | null
+  /** Duplicates to start with, e.g. the other tickets picked in the list */
+  initialSelection?: Ticket[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Picks duplicates of a ticket, suggesting similar open tickets of its category, and merges them
+ * into it. Each duplicate is closed and points at the primary ticket afterwards.
+ */
+export function TicketMergeDialog({ primary, initialSelection, open, onOpenChange }: TicketMergeDialogProps) {
+  const { mergeTickets } = useTicketMutations()
+  const [selected, setSelected] = useState<MergeCandidate[]>([])
+  const [search, setSearch] = useState("")
+  const [merging, setMerging] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setSelected((initialSelection ?? []).filter((ticket) => ticket.id !== primary?.id))
+    setSearch("")
+  }, [open, primary?.id, initialSelection])
+
+  const { tickets: suggestions } = useSimilarTickets(
+    { categoryId: primary?.categoryId, title: primary?.title, description: primary?.description },
+    { excludeId: primary?.id, minScore: SUGGESTION_THRESHOLD, limit: MAX_SUGGESTIONS, enabled: open }
+  )
+
+  const searching = search.trim() !== ""
+  const { tickets: found } = useTicketQuery(
+    { search, statuses: MERGEABLE_STATUSES },
+    { pageSize: MAX_SEARCH_RESULTS, enabled: open && searching }
+  )
+  const searchResults = useMemo(
+    // Only the primary's client can read the merged ticket, so their other tickets are the only candidates
+    () =>
+      searching
+        ? found.filter(
+            (ticket) => ticket.id !== primary?.id && ticket.clientId === primary?.clientId && isMergeable(ticket)
+          )
+        : [],
+    [searching, found, primary?.id, primary?.clientId]
+  )
+
+  // Picked tickets stay listed even when they are no longer suggested or found
+  const listed = useMemo(() => {
+    const byId = new Map<string, MergeCandidate>()
+    ;[...selected, ...suggestions, ...searchResults].forEach((ticket) => {
+      if (!byId.has(ticket.id)) byId.set(ticket.id, ticket)
+    })
+    return Array.from(byId.values())
+  }, [selected, suggestions, searchResults])
+
+  const isSelected = (ticketId: string) => selected.some((ticket) => ticket.id === ticketId)
+
+  const toggle = (candidate: MergeCandidate, checked: boolean) =>
+    setSelected((current) =>
+      checked ? [...current, candidate] : current.filter((ticket) => ticket.id !== candidate.id)
+    )
+
+  const handleMerge = async () => {
+    if (!primary || selected.length === 0 || merging) return
+    setMerging(true)
+    try {
+      const merged = await mergeTickets(primary.id, selected.map((ticket) => ticket.id))
+      toast({
+        title: "تیکت‌ها ادغام شدند",
+        description: `${merged.length.toLocaleString("fa-IR")} تیکت در تیکت ${primary.id} ادغام شد`,
+      })
+      onOpenChange(false)
+    } catch (error) {
+      toast({
+        title: "ادغام تیکت‌ها ناموفق بود",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl font-iran" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">ادغام تیکت‌های تکراری</DialogTitle>
+          <DialogDescription className="text-right">
+            پیام‌ها، پیوست‌ها و دنبال‌کنندگان تیکت‌های انتخاب‌شده به تیکت {primary?.id} منتقل می‌شوند و آن تیکت‌ها
+            بسته می‌شوند.
+          </DialogDescription>
+        </DialogHeader>
+
+        {primary && (
+          <div className="rounded-lg border bg-muted/50 p-3 text-right">
+            <p className="text-xs text-muted-foreground">تیکت اصلی</p>
+            <p className="font-medium">
+              <span className="font-mono text-sm text-muted-foreground ml-2">{primary.id}</span>
+              {primary.title}
+            </p>
+          </div>
+        )}
+
+        <div className="relative">
+          <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="جستجوی تیکت با شماره یا عنوان"
+            className="pr-10 text-right"
+            dir="rtl"
+          />
+        </div>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {listed.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              تیکت مشابهی پیدا نشد؛ تیکت تکراری را با شماره یا عنوان جستجو کنید
+            </p>
+          ) : (
+            listed.map((ticket) => (
+              <label
+                key={ticket.id}
+                className="flex items-center gap-3 rounded-md border px-3 py-2 cursor-pointer hover:bg-muted"
+              >
+                <Checkbox
+                  checked={isSelected(ticket.id)}
+                  onCheckedChange={(checked) => toggle(ticket, checked === true)}
+                />
+                <div className="flex-1 min-w-0 text-right">
+                  <p className="truncate text-sm font-medium">{ticket.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-mono">{ticket.id}</span> • {ticket.clientName && `${ticket.clientName} • `}
+                    {new Date(ticket.createdAt).toLocaleDateString("fa-IR")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {suggestions.some((suggestion) => suggestion.id === ticket.id) && (
+                    <Badge variant="secondary" className="text-xs">
+                      مشابه
+                    </Badge>
+                  )}
+                  <Badge variant="outline" className="text-xs">
+                    {ticketStatusLabels[ticket.status]}
+                  </Badge>
+                </div>
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-start">
+          <Button onClick={handleMerge} disabled={!primary || selected.length === 0 || merging} className="gap-2">
+            <GitMerge className="w-4 h-4" />
+            {merging
+              ? "در حال ادغام..."
+              : `ادغام ${selected.length > 0 ? selected.length.toLocaleString("fa-IR") : ""} تیکت`}
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={merging}>
+            انصراف
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -63,7 +63,7 @@ export function TicketResponsibleDelegation({ ticketId, ticket, onUpdate }: Tick
     setLoading(true);
     try {
       await setResponsibleTechnician(token, ticketId, {
-        technicianId: selectedTechnicianId,
+        responsibleTechnicianId: selectedTechnicianId,
       });
 
       toast.success("مسئول تیکت با موفقیت تغییر کرد");
@@ -89,7 +89,7 @@ export function TicketResponsibleDelegation({ ticketId, ticket, onUpdate }: Tick
         {currentResponsible && (
           <div className="text-sm">
             <span className="text-muted-foreground">مسئول فعلی: </span>
-            <span className="font-medium">{currentResponsible.name}</span>
+            <span className="font-medium">{currentResponsible.technicianName}</span>
           </div>
         )}
         <div className="flex gap-2">
@@ -100,7 +100,7 @@ export function TicketResponsibleDelegation({ ticketId, ticket, onUpdate }: Tick
             <SelectContent>
               {assignedTechnicians.map((tech) => (
                 <SelectItem key={tech.technicianId} value={tech.technicianId}>
-                  {tech.name}
+                  {tech.technicianName}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -0,0 +1,118 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useStatusOptions, useTicketWorkflow } from "@/hooks/use-ticket-workflow"
+import { useTicketMutations } from "@/hooks/use-tickets"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { useAuth } from "@/lib/auth-context"
+import { TicketTransitionError, findTransition, ticketStatusLabels } from "@/lib/ticket-workflow"
+import { cn } from "@/lib/utils"
+import type { Ticket, TicketStatus } from "@/types"
+
+interface TicketStatusChangeProps {
+  ticket: Pick<Ticket, "id" | "status" | "assignedTo">
+  className?: string
+}
+
+/**
+ * Status picker limited to the changes the workflow allows the signed-in user. A note, when
+ * given or required, is posted as a reply with the change. Renders nothing when no change is allowed.
+ */
+export function TicketStatusChange({ ticket, className }: TicketStatusChangeProps) {
+  const { user } = useAuth()
+  const { workflow } = useTicketWorkflow()
+  const { updateTicket, respondToTicket } = useTicketMutations()
+  const options = useStatusOptions(ticket.status)
+  const [status, setStatus] = useState<TicketStatus>(ticket.status)
+  const [note, setNote] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setStatus(ticket.status)
+    setNote("")
+  }, [ticket.id, ticket.status])
+
+  if (!user || options.length <= 1) return null
+
+  const transition = status !== ticket.status ? findTransition(workflow, ticket.status, status, user.role) : null
+  const noteRequired = !!transition?.requires.includes("note")
+  const missingAssignee = !!transition?.requires.includes("assignee") && !ticket.assignedTo
+
+  const handleSubmit = async () => {
+    if (saving || !transition) return
+    setSaving(true)
+    try {
+      if (note.trim()) {
+        const result = await respondToTicket(ticket.id, note.trim(), status)
+        toast(
+          result?.queued
+            ? { title: "تغییر وضعیت در صف ارسال", description: "پس از اتصال مجدد ارسال می‌شود" }
+            : { title: "وضعیت تیکت تغییر کرد", description: `وضعیت به «${ticketStatusLabels[status]}» تغییر کرد` }
+        )
+      } else {
+        // Reports success or failure itself
+        await updateTicket(ticket.id, { status })
+      }
+    } catch (error) {
+      toast({
+        title: "تغییر وضعیت ناموفق بود",
+        description: error instanceof TicketTransitionError ? error.message : getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className={cn("space-y-3", className)} dir="rtl">
+      <div className="space-y-2">
+        <Label className="text-right">وضعیت</Label>
+        <Select value={status} onValueChange={(value) => setStatus(value as TicketStatus)} dir="rtl">
+          <SelectTrigger className="text-right font-iran">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="font-iran">
+            {options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {ticketStatusLabels[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {transition && (
+        <div className="space-y-2">
+          <Label htmlFor={`status-note-${ticket.id}`} className="text-right">
+            {noteRequired ? "توضیح *" : "توضیح (اختیاری)"}
+          </Label>
+          <Textarea
+            id={`status-note-${ticket.id}`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="text-right font-iran"
+            dir="rtl"
+            rows={3}
+            placeholder={status === "resolved" ? "مشکل چگونه برطرف شد؟" : "دلیل تغییر وضعیت"}
+          />
+          <p className="text-xs text-muted-foreground text-right">توضیح به‌عنوان پاسخ در تیکت ثبت می‌شود</p>
+        </div>
+      )}
+      {missingAssignee && (
+        <p className="text-sm text-red-500 text-right">برای این تغییر ابتدا تکنسین را تعیین کنید</p>
+      )}
+      <Button
+        onClick={handleSubmit}
+        disabled={!transition || saving || missingAssignee || (noteRequired && !note.trim())}
+        className="w-full"
+      >
+        {saving ? "در حال ذخیره..." : "ثبت وضعیت"}
+      </Button>
+    </div>
+  )
+}
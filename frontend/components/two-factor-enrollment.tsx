@@ -0,0 +1,188 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Copy, Download, KeyRound, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import type { ApiTwoFactorSetupResponse } from "@/lib/api-types"
+import { startTwoFactorSetup } from "@/lib/two-factor-api"
+
+export const TOTP_CODE_LENGTH = 6
+
+interface TwoFactorEnrollmentProps {
+  /** Session token, or the challenge token of a sign-in that requires enrollment */
+  token: string
+  /** Confirm the first code; resolves to the recovery codes */
+  onEnable: (code: string) => Promise<string[]>
+  /** The user has seen the recovery codes */
+  onDone: () => void
+  onCancel?: () => void
+}
+
+/**
+ * Authenticator setup: scan the QR code, confirm a code, then keep the recovery codes
+ */
+export function TwoFactorEnrollment({ token, onEnable, onDone, onCancel }: TwoFactorEnrollmentProps) {
+  const [setup, setSetup] = useState<ApiTwoFactorSetupResponse | null>(null)
+  const [setupError, setSetupError] = useState<string | null>(null)
+  const [code, setCode] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setSetup(null)
+    setSetupError(null)
+    startTwoFactorSetup(token)
+      .then((response) => {
+        if (!cancelled) setSetup(response)
+      })
+      .catch((error) => {
+        if (!cancelled) setSetupError(getApiErrorMessage(error))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  const handleEnable = async (value = code) => {
+    if (value.length !== TOTP_CODE_LENGTH) return
+    setSubmitting(true)
+    try {
+      setRecoveryCodes(await onEnable(value))
+    } catch (error) {
+      setCode("")
+      toast({
+        title: "کد تأیید نادرست است",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={onDone} />
+  }
+
+  if (setupError) {
+    return (
+      <div className="space-y-4 text-right" dir="rtl">
+        <p className="text-sm text-destructive">{setupError}</p>
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel}>
+            بازگشت
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  if (!setup) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        در حال آماده‌سازی...
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 text-right" dir="rtl">
+      <p className="text-sm text-muted-foreground">
+        کد QR را با برنامه احراز هویت (مانند Google Authenticator یا Microsoft Authenticator) اسکن کنید و کد
+        شش‌رقمی آن را وارد کنید.
+      </p>
+      <div className="flex justify-center">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={setup.qrCodeDataUrl} alt="QR code" className="h-44 w-44 rounded border bg-white p-2" />
+      </div>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">یا این کلید را دستی وارد کنید:</p>
+        <code className="block break-all rounded bg-muted px-2 py-1 text-center text-sm" dir="ltr">
+          {setup.secret}
+        </code>
+      </div>
+      <div className="flex justify-center" dir="ltr">
+        <InputOTP maxLength={TOTP_CODE_LENGTH} value={code} onChange={setCode} onComplete={(value: string) => void handleEnable(value)}>
+          <InputOTPGroup>
+            {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            انصراف
+          </Button>
+        )}
+        <Button onClick={() => void handleEnable()} disabled={submitting || code.length !== TOTP_CODE_LENGTH}>
+          {submitting ? "در حال بررسی..." : "فعال‌سازی"}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Single-use recovery codes, shown once; they are the way in when the authenticator is lost
+ */
+export function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const text = codes.join("\n")
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast({ title: "کدها کپی شدند" })
+    } catch {
+      toast({ title: "کپی انجام نشد", variant: "destructive" })
+    }
+  }
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "recovery-codes.txt"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-4 text-right" dir="rtl">
+      <div className="flex items-center gap-2 font-medium">
+        <KeyRound className="h-4 w-4 text-amber-500" />
+        کدهای بازیابی
+      </div>
+      <p className="text-sm text-muted-foreground">
+        این کدها را در جای امنی نگه دارید. اگر به برنامه احراز هویت دسترسی نداشته باشید، با هر کد یک بار می‌توانید وارد
+        شوید. این کدها دوباره نمایش داده نمی‌شوند.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded border bg-muted/50 p-3 font-mono text-sm" dir="ltr">
+        {codes.map((code) => (
+          <span key={code} className="text-center">
+            {code}
+          </span>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" className="gap-2" onClick={copy}>
+          <Copy className="h-4 w-4" />
+          کپی
+        </Button>
+        <Button variant="outline" size="sm" className="gap-2" onClick={download}>
+          <Download className="h-4 w-4" />
+          دانلود
+        </Button>
+        <Button size="sm" onClick={onDone}>
+          کدها را ذخیره کردم
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { ShieldCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { TOTP_CODE_LENGTH, TwoFactorEnrollment } from "@/components/two-factor-enrollment"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { useAuth, type LoginResult, type TwoFactorEnrollment as Enrollment } from "@/lib/auth-context"
+
+export type TwoFactorStep = Extract<LoginResult, { status: "two-factor-required" | "enrollment-required" }>
+
+interface TwoFactorLoginStepProps {
+  step: TwoFactorStep
+  onSignedIn: () => void
+  /** Back to the password form */
+  onCancel: () => void
+}
+
+/**
+ * Second sign-in step: a code from the authenticator or a recovery code, or enrollment
+ * when require2FA is on and the account has no authenticator yet
+ */
+export function TwoFactorLoginStep({ step, onSignedIn, onCancel }: TwoFactorLoginStepProps) {
+  const { verifyTwoFactor, enrollTwoFactor } = useAuth()
+  const [code, setCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const enrollmentRef = useRef<Enrollment | null>(null)
+
+  if (step.status === "enrollment-required") {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground text-right" dir="rtl">
+          ورود به سیستم نیازمند احراز هویت دو مرحله‌ای است. پیش از ادامه، برنامه احراز هویت خود را متصل کنید.
+        </p>
+        <TwoFactorEnrollment
+          token={step.challenge.token}
+          onEnable={async (enrollCode) => {
+            enrollmentRef.current = await enrollTwoFactor(step.challenge, enrollCode)
+            return enrollmentRef.current.recoveryCodes
+          }}
+          onDone={() => {
+            enrollmentRef.current?.complete()
+            onSignedIn()
+          }}
+          onCancel={onCancel}
+        />
+      </div>
+    )
+  }
+
+  const submit = async (value = code) => {
+    if (!value || (!useRecoveryCode && value.length !== TOTP_CODE_LENGTH)) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      const result = await verifyTwoFactor(step.challenge, value.trim(), { recovery: useRecoveryCode })
+      if (result.status === "signed-in") {
+        onSignedIn()
+        return
+      }
+      setCode("")
+      if (result.status === "locked") {
+        setError(
+          result.lockedUntil
+            ? `حساب به دلیل تلاش‌های ناموفق متعدد قفل شده است. پس از ساعت ${new Date(result.lockedUntil).toLocaleTimeString("fa-IR", { hour: "2-digit", minute: "2-digit" })} دوباره وارد شوید.`
+            : "حساب به دلیل تلاش‌های ناموفق متعدد قفل شده است."
+        )
+        return
+      }
+      if (result.status === "invalid-code" && result.challengeExpired) {
+        setError("تعداد تلاش‌های ناموفق این ورود به پایان رسیده است. برای ورود، دوباره رمز عبور را وارد کنید.")
+        return
+      }
+      setError(
+        result.status === "invalid-code" && result.remainingAttempts !== null
+          ? `کد وارد شده معتبر نیست یا زمان آن گذشته است. ${result.remainingAttempts.toLocaleString("fa-IR")} تلاش دیگر تا قفل شدن حساب باقی مانده است.`
+          : "کد وارد شده معتبر نیست یا زمان آن گذشته است"
+      )
+    } catch (caught) {
+      setError(getApiErrorMessage(caught))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form
+      className="space-y-4 text-right"
+      dir="rtl"
+      onSubmit={(event) => {
+        event.preventDefault()
+        void submit()
+      }}
+    >
+      <div className="flex items-center gap-2 font-medium">
+        <ShieldCheck className="h-4 w-4 text-primary" />
+        احراز هویت دو مرحله‌ای
+      </div>
+      <p className="text-sm text-muted-foreground">
+        {useRecoveryCode
+          ? "یکی از کدهای بازیابی خود را وارد کنید. هر کد فقط یک بار قابل استفاده است."
+          : "کد شش‌رقمی برنامه احراز هویت را وارد کنید."}
+      </p>
+
+      {useRecoveryCode ? (
+        <Input
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder="xxxx-xxxx"
+          className="text-center font-mono"
+          dir="ltr"
+          autoComplete="one-time-code"
+          autoFocus
+        />
+      ) : (
+        <div className="flex justify-center" dir="ltr">
+          <InputOTP
+            maxLength={TOTP_CODE_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={(value: string) => void submit(value)}
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Button type="submit" className="w-full" disabled={submitting || !code}>
+        {submitting ? "در حال بررسی..." : "تأیید"}
+      </Button>
+      <div className="flex justify-between text-sm">
+        <Button
+          type="button"
+          variant="link"
+          className="h-auto p-0"
+          onClick={() => {
+            setUseRecoveryCode((current) => !current)
+            setCode("")
+            setError(null)
+          }}
+        >
+          {useRecoveryCode ? "استفاده از برنامه احراز هویت" : "استفاده از کد بازیابی"}
+        </Button>
+        <Button type="button" variant="link" className="h-auto p-0 text-muted-foreground" onClick={onCancel}>
+          بازگشت
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,178 @@
+"use client"
+
+import { useState } from "react"
+import { ShieldCheck, ShieldOff } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { RecoveryCodes, TOTP_CODE_LENGTH, TwoFactorEnrollment } from "@/components/two-factor-enrollment"
+import { useQuery } from "@/hooks/use-query"
+import { usePublicSettings } from "@/hooks/use-system-settings"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { useAuth } from "@/lib/auth-context"
+import { invalidateQueries } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { disableTwoFactor, enableTwoFactor, getTwoFactorStatus, regenerateRecoveryCodes } from "@/lib/two-factor-api"
+
+type Mode = "idle" | "enroll" | "disable" | "regenerate"
+
+/**
+ * Security tab card: set up, replace the recovery codes of, or turn off two-factor authentication
+ */
+export function TwoFactorSettings() {
+  const { token } = useAuth()
+  const { settings } = usePublicSettings()
+  const { data: status, isLoading } = useQuery(token ? queryKeys.twoFactorStatus : null, () =>
+    getTwoFactorStatus(token)
+  )
+  const [mode, setMode] = useState<Mode>("idle")
+  const [code, setCode] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null)
+
+  const required = settings?.require2FA ?? false
+
+  const reset = () => {
+    setMode("idle")
+    setCode("")
+    void invalidateQueries(queryKeys.twoFactorStatus)
+  }
+
+  const confirmWithCode = async () => {
+    if (code.length !== TOTP_CODE_LENGTH) return
+    setSubmitting(true)
+    try {
+      if (mode === "disable") {
+        await disableTwoFactor(token, code)
+        toast({ title: "احراز هویت دو مرحله‌ای غیرفعال شد" })
+        reset()
+      } else {
+        const response = await regenerateRecoveryCodes(token, code)
+        setNewRecoveryCodes(response.recoveryCodes)
+      }
+    } catch (error) {
+      setCode("")
+      toast({ title: "کد تأیید نادرست است", description: getApiErrorMessage(error), variant: "destructive" })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const renderBody = () => {
+    if (newRecoveryCodes) {
+      return (
+        <RecoveryCodes
+          codes={newRecoveryCodes}
+          onDone={() => {
+            setNewRecoveryCodes(null)
+            reset()
+          }}
+        />
+      )
+    }
+
+    if (mode === "enroll" && token) {
+      return (
+        <TwoFactorEnrollment
+          token={token}
+          onEnable={async (enrollCode) => (await enableTwoFactor(token, enrollCode)).recoveryCodes}
+          onDone={() => {
+            toast({ title: "احراز هویت دو مرحله‌ای فعال شد" })
+            reset()
+          }}
+          onCancel={reset}
+        />
+      )
+    }
+
+    if (mode === "disable" || mode === "regenerate") {
+      return (
+        <div className="space-y-4 text-right" dir="rtl">
+          <p className="text-sm text-muted-foreground">
+            {mode === "disable"
+              ? "برای غیرفعال کردن، کد فعلی برنامه احراز هویت را وارد کنید."
+              : "برای ساخت کدهای بازیابی جدید، کد فعلی برنامه احراز هویت را وارد کنید. کدهای قبلی باطل می‌شوند."}
+          </p>
+          <div className="flex justify-center" dir="ltr">
+            <InputOTP maxLength={TOTP_CODE_LENGTH} value={code} onChange={setCode}>
+              <InputOTPGroup>
+                {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={reset} disabled={submitting}>
+              انصراف
+            </Button>
+            <Button
+              variant={mode === "disable" ? "destructive" : "default"}
+              onClick={confirmWithCode}
+              disabled={submitting || code.length !== TOTP_CODE_LENGTH}
+            >
+              {mode === "disable" ? "غیرفعال‌سازی" : "ساخت کدهای جدید"}
+            </Button>
+          </div>
+        </div>
+      )
+    }
+
+    if (isLoading && !status) {
+      return <p className="text-sm text-muted-foreground text-right">در حال بارگذاری...</p>
+    }
+
+    if (!status?.enabled) {
+      return (
+        <div className="flex items-center justify-between gap-4" dir="rtl">
+          <p className="text-sm text-muted-foreground">
+            {required
+              ? "مدیر سیستم احراز هویت دو مرحله‌ای را برای همه کاربران الزامی کرده است."
+              : "با فعال‌سازی، ورود به حساب علاوه بر رمز عبور به کد برنامه احراز هویت نیاز دارد."}
+          </p>
+          <Button className="gap-2 shrink-0" onClick={() => setMode("enroll")}>
+            <ShieldCheck className="h-4 w-4" />
+            فعال‌سازی
+          </Button>
+        </div>
+      )
+    }
+
+    return (
+      <div className="space-y-3 text-right" dir="rtl">
+        <p className="text-sm text-muted-foreground">
+          {status.recoveryCodesRemaining.toLocaleString("fa-IR")} کد بازیابی استفاده‌نشده باقی مانده است.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setMode("regenerate")}>
+            کدهای بازیابی جدید
+          </Button>
+          {/* Turning it off would lock the user out at the next sign-in */}
+          {!required && (
+            <Button variant="destructive" className="gap-2" onClick={() => setMode("disable")}>
+              <ShieldOff className="h-4 w-4" />
+              غیرفعال‌سازی
+            </Button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Card dir="rtl" className="w-full">
+      <CardHeader className="text-right">
+        <CardTitle className="flex items-center justify-between">
+          احراز هویت دو مرحله‌ای
+          {status && (
+            <Badge variant={status.enabled ? "default" : "secondary"}>{status.enabled ? "فعال" : "غیرفعال"}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="text-right">ورود با رمز عبور و کد یک‌بارمصرف برنامه احراز هویت</CardDescription>
+      </CardHeader>
+      <CardContent dir="rtl">{renderBody()}</CardContent>
+    </Card>
+  )
+}
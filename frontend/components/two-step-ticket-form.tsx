@@ -17,7 +17,10 @@ import { TicketFormStep1 } from "@/components/ticket-form-step1"
 import { TicketFormStep2 } from "@/components/ticket-form-step2"
 import { getCombinedSchema } from "@/lib/validation-schemas"
 import { useAuth } from "@/lib/auth-context"
-import type { UploadedFile } from "@/lib/file-upload"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { applyServerValidationErrors } from "@/lib/form-errors"
+import type { PendingAttachment } from "@/lib/file-upload"
+import type { TicketDraft } from "@/types"
 
 const priorityLabels: Record<string, string> = {
   low: "کم",
@@ -26,16 +29,25 @@ const priorityLabels: Record<string, string> = {
   urgent: "فوری",
 }
 
+const STEP_ONE_FIELDS = ["priority", "mainIssue", "subIssue"]
+
+// Ticket API field names that differ from the form's own
+const serverFieldMap: Record<string, string> = {
+  categoryId: "mainIssue",
+  subcategoryId: "subIssue",
+}
+
 interface TwoStepTicketFormProps {
   onClose: () => void
-  onSubmit: (data: any) => Promise<void> | void
+  /** `files` are uploaded once the ticket exists */
+  onSubmit: (data: TicketDraft, files: File[]) => Promise<void> | void
   categoriesData: any
 }
 
 export function TwoStepTicketForm({ onClose, onSubmit, categoriesData }: TwoStepTicketFormProps) {
   const { user } = useAuth()
   const [currentStep, setCurrentStep] = useState(1)
-  const [attachedFiles, setAttachedFiles] = useState<UploadedFile[]>([])
+  const [attachedFiles, setAttachedFiles] = useState<PendingAttachment[]>([])
   const [isSaving, setIsSaving] = useState(false)
 
   const activeSchema = useMemo(() => getCombinedSchema(currentStep, categoriesData), [currentStep, categoriesData])
@@ -45,6 +57,8 @@ export function TwoStepTicketForm({ onClose, onSubmit, categoriesData }: TwoStep
     handleSubmit,
     watch,
     trigger,
+    setError,
+    getValues,
     formState: { errors, isSubmitting },
   } = useForm<any>({
     resolver: yupResolver(activeSchema),
@@ -148,7 +162,6 @@ export function TwoStepTicketForm({ onClose, onSubmit, categoriesData }: TwoStep
         clientEmail: user?.email || "",
         clientPhone: user?.phone || "",
         createdAt: new Date().toISOString(),
-        attachments: attachedFiles,
         dynamicFields: {
           ...Object.fromEntries(dynEntries),
           ...Object.fromEntries(
@@ -178,7 +191,7 @@ export function TwoStepTicketForm({ onClose, onSubmit, categoriesData }: TwoStep
         }
       }
 
-      await onSubmit(ticketData)
+      await onSubmit(ticketData, attachedFiles.map((attachment) => attachment.file))
 
       toast({
         title: "تیکت با موفقیت ثبت شد",
@@ -187,9 +200,13 @@ export function TwoStepTicketForm({ onClose, onSubmit, categoriesData }: TwoStep
 
       onClose()
     } catch (error) {
+      const invalidFields = applyServerValidationErrors(error, setError, Object.keys(getValues()), serverFieldMap)
+      if (invalidFields.some((field) => STEP_ONE_FIELDS.includes(field))) {
+        setCurrentStep(1)
+      }
       toast({
         title: "خطا در ثبت تیکت",
-        description: "لطفاً دوباره تلاش کنید.",
+        description: getApiErrorMessage(error),
         variant: "destructive",
       })
     } finally {
@@ -273,8 +290,8 @@ export function TwoStepTicketForm({ onClose, onSubmit, categoriesData }: TwoStep
             <div className="space-y-2">
               <h4 className="font-medium text-right font-iran">فایل‌های پیوست شده</h4>
               <div className="space-y-1 text-sm text-muted-foreground">
-                {attachedFiles.map((file, index) => (
-                  <div key={index} className="text-right font-iran">• {file.name}</div>
+                {attachedFiles.map(({ id, file }) => (
+                  <div key={id} className="text-right font-iran">• {file.name}</div>
                 ))}
               </div>
             </div>
@@ -0,0 +1,738 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  Download,
+  Eye,
+  KeyRound,
+  LogOut,
+  MoreHorizontal,
+  Plus,
+  Search,
+  Ticket as TicketIcon,
+  Upload,
+  UserCheck,
+  UserCog,
+  UserX,
+} from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ImpersonationDialog } from "@/components/impersonation-dialog"
+import { useCan } from "@/hooks/use-permissions"
+import { useQuery } from "@/hooks/use-query"
+import { toast } from "@/hooks/use-toast"
+import { ApiValidationError, getApiErrorMessage } from "@/lib/api-errors"
+import type { ApiUserAccountDto, ApiUserImportResponse } from "@/lib/api-types"
+import { useAuth } from "@/lib/auth-context"
+import { baseRoleLabels, type BaseRole } from "@/lib/permissions"
+import { invalidateQueries } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { roleFromApi, roleToApi } from "@/lib/role-mappers"
+import { getStatusColor, getStatusLabel } from "@/lib/ticket-status"
+import { queryTickets } from "@/lib/tickets-api"
+import { USER_IMPORT_TEMPLATE, parseUserImportCsv, type UserImportParseResult } from "@/lib/user-import"
+import {
+  getUsers,
+  importUsers,
+  inviteUser,
+  resetUserPassword,
+  revokeUserSessions,
+  updateUserRole,
+  updateUserStatus,
+} from "@/lib/users-api"
+
+type RoleFilter = "all" | BaseRole
+
+type UserAction = "deactivate" | "activate" | "reset-password" | "revoke-sessions"
+
+const actionCopy: Record<UserAction, { title: string; description: string; confirm: string; done: string }> = {
+  deactivate: {
+    title: "غیرفعال کردن کاربر",
+    description: "کاربر دیگر نمی‌تواند وارد شود. تیکت‌ها و سوابق او باقی می‌مانند.",
+    confirm: "غیرفعال کن",
+    done: "کاربر غیرفعال شد",
+  },
+  activate: {
+    title: "فعال کردن کاربر",
+    description: "کاربر دوباره می‌تواند وارد سیستم شود.",
+    confirm: "فعال کن",
+    done: "کاربر فعال شد",
+  },
+  "reset-password": {
+    title: "بازنشانی رمز عبور",
+    description: "پیوند تعیین رمز عبور جدید به ایمیل کاربر ارسال می‌شود.",
+    confirm: "ارسال پیوند",
+    done: "پیوند بازنشانی ارسال شد",
+  },
+  "revoke-sessions": {
+    title: "خروج اجباری",
+    description: "همه نشست‌های کاربر در همه دستگاه‌ها باطل می‌شود و باید دوباره وارد شود.",
+    confirm: "خروج از همه دستگاه‌ها",
+    done: "نشست‌های کاربر باطل شد",
+  },
+}
+
+const emptyInvite = { email: "", fullName: "", role: "client" as BaseRole, department: "", phoneNumber: "" }
+
+const USER_TICKETS_PAGE_SIZE = 20
+
+const refreshUsers = () => invalidateQueries(queryKeys.users)
+
+/**
+ * Tickets submitted by one user, newest first
+ */
+function UserTickets({ userId }: { userId: string }) {
+  const { token } = useAuth()
+  const query = { createdBy: userId, pageSize: USER_TICKETS_PAGE_SIZE, sort: "createdAt:desc" as const }
+  const { data, isLoading, error } = useQuery(token ? queryKeys.ticketList("all", query) : null, () =>
+    queryTickets(token, query)
+  )
+
+  if (isLoading) {
+    return <div className="py-6 text-center text-sm text-muted-foreground">در حال بارگذاری...</div>
+  }
+  if (error) {
+    return <div className="py-6 text-center text-sm text-red-500">{getApiErrorMessage(error)}</div>
+  }
+  if (!data || data.items.length === 0) {
+    return <div className="py-6 text-center text-sm text-muted-foreground">این کاربر تیکتی ثبت نکرده است</div>
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="divide-y rounded-lg border max-h-96 overflow-y-auto">
+        {data.items.map((ticket) => (
+          <li key={ticket.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+            <div className="min-w-0">
+              <div className="font-medium truncate">{ticket.title}</div>
+              <div className="text-xs text-muted-foreground">
+                {new Date(ticket.createdAt).toLocaleDateString("fa-IR")}
+              </div>
+            </div>
+            <Badge className={`border ${getStatusColor(ticket.status)}`}>{getStatusLabel(ticket.status)}</Badge>
+          </li>
+        ))}
+      </ul>
+      {data.totalCount > data.items.length && (
+        <p className="text-xs text-muted-foreground text-right">
+          {data.items.length.toLocaleString("fa-IR")} مورد از {data.totalCount.toLocaleString("fa-IR")} تیکت
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Admin directory of every account: invite, change role, deactivate, reset password, sign out
+ * everywhere, see their tickets, and onboard a whole department from a CSV file
+ */
+export function UserManagement() {
+  const { token, user: currentUser } = useAuth()
+  const can = useCan()
+  const { data: users = [], isLoading, error: loadError } = useQuery(token ? queryKeys.users : null, () =>
+    getUsers(token)
+  )
+
+  const [searchQuery, setSearchQuery] = useState("")
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>("all")
+
+  const [inviteOpen, setInviteOpen] = useState(false)
+  const [inviteForm, setInviteForm] = useState(emptyInvite)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+
+  const [roleUser, setRoleUser] = useState<ApiUserAccountDto | null>(null)
+  const [nextRole, setNextRole] = useState<BaseRole>("client")
+  const [pendingAction, setPendingAction] = useState<{ action: UserAction; user: ApiUserAccountDto } | null>(null)
+  const [ticketsUser, setTicketsUser] = useState<ApiUserAccountDto | null>(null)
+  const [impersonatedUser, setImpersonatedUser] = useState<ApiUserAccountDto | null>(null)
+
+  const [importOpen, setImportOpen] = useState(false)
+  const [importParse, setImportParse] = useState<UserImportParseResult | null>(null)
+  const [importResult, setImportResult] = useState<ApiUserImportResponse | null>(null)
+
+  useEffect(() => {
+    if (!loadError) return
+    toast({
+      title: "خطا در بارگذاری کاربران",
+      description: getApiErrorMessage(loadError),
+      variant: "destructive",
+    })
+  }, [loadError])
+
+  const filteredUsers = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    return users.filter((user) => {
+      if (roleFilter !== "all" && roleFromApi(user.role) !== roleFilter) return false
+      return (
+        !query ||
+        user.fullName.toLowerCase().includes(query) ||
+        user.email.toLowerCase().includes(query) ||
+        (user.department ?? "").toLowerCase().includes(query)
+      )
+    })
+  }, [users, searchQuery, roleFilter])
+
+  const handleInvite = async () => {
+    if (!token || saving) return
+    if (!inviteForm.email.trim() || !inviteForm.fullName.trim()) {
+      setFieldErrors({
+        ...(inviteForm.email.trim() ? {} : { email: "ایمیل الزامی است" }),
+        ...(inviteForm.fullName.trim() ? {} : { fullName: "نام کامل الزامی است" }),
+      })
+      return
+    }
+
+    setSaving(true)
+    setFieldErrors({})
+    try {
+      await inviteUser(token, {
+        email: inviteForm.email.trim(),
+        fullName: inviteForm.fullName.trim(),
+        role: roleToApi(inviteForm.role),
+        department: inviteForm.department.trim() || null,
+        phoneNumber: inviteForm.phoneNumber.trim() || null,
+      })
+      toast({
+        title: "دعوت‌نامه ارسال شد",
+        description: `${inviteForm.fullName} از طریق ایمیل دعوت شد`,
+      })
+      setInviteOpen(false)
+      setInviteForm(emptyInvite)
+      await refreshUsers()
+    } catch (error) {
+      setFieldErrors(error instanceof ApiValidationError ? error.firstErrors() : {})
+      toast({
+        title: "خطا در دعوت کاربر",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openRoleDialog = (user: ApiUserAccountDto) => {
+    setRoleUser(user)
+    setNextRole(roleFromApi(user.role))
+  }
+
+  const handleRoleChange = async () => {
+    if (!token || !roleUser || saving) return
+    setSaving(true)
+    try {
+      await updateUserRole(token, roleUser.id, roleToApi(nextRole))
+      toast({
+        title: "نقش کاربر تغییر کرد",
+        description: `${roleUser.fullName}: ${baseRoleLabels[nextRole]}`,
+      })
+      setRoleUser(null)
+      // A custom role only applies on top of the base role it was made for
+      await Promise.all([refreshUsers(), invalidateQueries(queryKeys.roles), invalidateQueries(queryKeys.technicians)])
+    } catch (error) {
+      toast({
+        title: "خطا در تغییر نقش",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAction = async () => {
+    if (!token || !pendingAction) return
+    const { action, user } = pendingAction
+    try {
+      if (action === "deactivate" || action === "activate") {
+        await updateUserStatus(token, user.id, action === "activate")
+        await refreshUsers()
+      } else if (action === "reset-password") {
+        await resetUserPassword(token, user.id)
+      } else {
+        await revokeUserSessions(token, user.id)
+      }
+      toast({ title: actionCopy[action].done, description: user.fullName })
+    } catch (error) {
+      toast({
+        title: `خطا: ${actionCopy[action].title}`,
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  const handleImportFile = async (file: File | undefined) => {
+    setImportResult(null)
+    setImportParse(file ? parseUserImportCsv(await file.text()) : null)
+  }
+
+  const handleImport = async () => {
+    if (!token || !importParse || importParse.users.length === 0 || saving) return
+    setSaving(true)
+    try {
+      const result = await importUsers(token, { users: importParse.users })
+      setImportResult(result)
+      toast({
+        title: "ورود گروهی انجام شد",
+        description: `${result.createdCount.toLocaleString("fa-IR")} کاربر دعوت شد`,
+      })
+      await refreshUsers()
+    } catch (error) {
+      toast({
+        title: "خطا در ورود گروهی",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const closeImport = (open: boolean) => {
+    setImportOpen(open)
+    if (!open) {
+      setImportParse(null)
+      setImportResult(null)
+    }
+  }
+
+  const downloadTemplate = () => {
+    // BOM so Excel reads the Persian sample as UTF-8
+    const url = URL.createObjectURL(new Blob(["\uFEFF", USER_IMPORT_TEMPLATE], { type: "text/csv;charset=utf-8" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "users-template.csv"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-6" dir="rtl">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap gap-2 justify-between items-center">
+            <CardTitle className="text-right">مدیریت کاربران</CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setImportOpen(true)} className="gap-2">
+                <Upload className="w-4 h-4" />
+                ورود گروهی از CSV
+              </Button>
+              <Button
+                onClick={() => {
+                  setInviteForm(emptyInvite)
+                  setFieldErrors({})
+                  setInviteOpen(true)
+                }}
+                className="gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                دعوت کاربر
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4 flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <Input
+                placeholder="جستجو بر اساس نام، ایمیل یا بخش..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pr-10 text-right"
+                dir="rtl"
+              />
+            </div>
+            <Select value={roleFilter} onValueChange={(value) => setRoleFilter(value as RoleFilter)}>
+              <SelectTrigger className="sm:w-48 text-right" dir="rtl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent dir="rtl">
+                <SelectItem value="all">همه نقش‌ها</SelectItem>
+                {(Object.keys(baseRoleLabels) as BaseRole[]).map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {baseRoleLabels[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-8 h-8 border-2 border-current border-t-transparent rounded-full animate-spin" />
+              <span className="mr-3 text-sm text-muted-foreground">در حال بارگذاری...</span>
+            </div>
+          ) : filteredUsers.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {searchQuery || roleFilter !== "all" ? "نتیجه‌ای یافت نشد" : "هیچ کاربری ثبت نشده است"}
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">نام</TableHead>
+                    <TableHead className="text-right">ایمیل</TableHead>
+                    <TableHead className="text-right">نقش</TableHead>
+                    <TableHead className="text-right">بخش</TableHead>
+                    <TableHead className="text-right">وضعیت</TableHead>
+                    <TableHead className="text-right">آخرین ورود</TableHead>
+                    <TableHead className="text-right">عملیات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredUsers.map((user) => {
+                    const isActive = user.isActive
+                    const isSelf = user.id === currentUser?.id
+                    return (
+                      <TableRow key={user.id}>
+                        <TableCell className="font-medium">{user.fullName}</TableCell>
+                        <TableCell>{user.email}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant="outline">{baseRoleLabels[roleFromApi(user.role)]}</Badge>
+                            {user.roleName && <Badge variant="secondary">{user.roleName}</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>{user.department || "--"}</TableCell>
+                        <TableCell>
+                          <Badge variant={isActive ? "default" : "secondary"} className={isActive ? "" : "bg-gray-500"}>
+                            {isActive ? "فعال" : "غیرفعال"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleDateString("fa-IR") : "--"}
+                        </TableCell>
+                        <TableCell>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" aria-label="عملیات">
+                                <MoreHorizontal className="w-4 h-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => setTicketsUser(user)} className="gap-2">
+                                <TicketIcon className="w-4 h-4" />
+                                تیکت‌های کاربر
+                              </DropdownMenuItem>
+                              {can("users.impersonate") && (
+                                <DropdownMenuItem
+                                  onClick={() => setImpersonatedUser(user)}
+                                  disabled={isSelf || !isActive || roleFromApi(user.role) === "admin"}
+                                  className="gap-2"
+                                >
+                                  <Eye className="w-4 h-4" />
+                                  مشاهده از دید کاربر
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem onClick={() => openRoleDialog(user)} disabled={isSelf} className="gap-2">
+                                <UserCog className="w-4 h-4" />
+                                تغییر نقش
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setPendingAction({ action: "reset-password", user })}
+                                className="gap-2"
+                              >
+                                <KeyRound className="w-4 h-4" />
+                                بازنشانی رمز عبور
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setPendingAction({ action: "revoke-sessions", user })}
+                                disabled={isSelf}
+                                className="gap-2"
+                              >
+                                <LogOut className="w-4 h-4" />
+                                خروج اجباری
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onClick={() => setPendingAction({ action: isActive ? "deactivate" : "activate", user })}
+                                disabled={isSelf}
+                                className={isActive ? "gap-2 text-red-600" : "gap-2"}
+                              >
+                                {isActive ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                                {isActive ? "غیرفعال کردن" : "فعال کردن"}
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Invite dialog */}
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent className="max-w-lg" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right">دعوت کاربر جدید</DialogTitle>
+            <DialogDescription className="text-right">
+              حساب کاربری ساخته می‌شود و پیوند تعیین رمز عبور به ایمیل او ارسال می‌شود
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-fullName" className="text-right">نام کامل *</Label>
+              <Input
+                id="invite-fullName"
+                value={inviteForm.fullName}
+                onChange={(e) => setInviteForm({ ...inviteForm, fullName: e.target.value })}
+                className="text-right"
+                dir="rtl"
+              />
+              {fieldErrors.fullName && <p className="text-sm text-red-500 text-right">{fieldErrors.fullName}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-email" className="text-right">ایمیل *</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={inviteForm.email}
+                onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                className="text-right"
+                dir="ltr"
+                placeholder="email@example.com"
+              />
+              {fieldErrors.email && <p className="text-sm text-red-500 text-right">{fieldErrors.email}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label className="text-right">نقش</Label>
+              <Select
+                value={inviteForm.role}
+                onValueChange={(value) => setInviteForm({ ...inviteForm, role: value as BaseRole })}
+              >
+                <SelectTrigger className="text-right" dir="rtl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent dir="rtl">
+                  {(Object.keys(baseRoleLabels) as BaseRole[]).map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {baseRoleLabels[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-department" className="text-right">بخش</Label>
+                <Input
+                  id="invite-department"
+                  value={inviteForm.department}
+                  onChange={(e) => setInviteForm({ ...inviteForm, department: e.target.value })}
+                  className="text-right"
+                  dir="rtl"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-phone" className="text-right">تلفن</Label>
+                <Input
+                  id="invite-phone"
+                  value={inviteForm.phoneNumber}
+                  onChange={(e) => setInviteForm({ ...inviteForm, phoneNumber: e.target.value })}
+                  className="text-right"
+                  dir="ltr"
+                  placeholder="09123456789"
+                />
+                {fieldErrors.phoneNumber && (
+                  <p className="text-sm text-red-500 text-right">{fieldErrors.phoneNumber}</p>
+                )}
+              </div>
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setInviteOpen(false)} disabled={saving}>
+              انصراف
+            </Button>
+            <Button onClick={handleInvite} disabled={saving}>
+              {saving ? "در حال ارسال..." : "ارسال دعوت‌نامه"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Role dialog */}
+      <Dialog open={!!roleUser} onOpenChange={(open) => !open && setRoleUser(null)}>
+        <DialogContent className="max-w-md" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right">تغییر نقش {roleUser?.fullName}</DialogTitle>
+            <DialogDescription className="text-right">
+              با تغییر نقش پایه، نقش سفارشی کاربر (در صورت وجود) حذف می‌شود
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={nextRole} onValueChange={(value) => setNextRole(value as BaseRole)}>
+            <SelectTrigger className="text-right" dir="rtl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent dir="rtl">
+              {(Object.keys(baseRoleLabels) as BaseRole[]).map((role) => (
+                <SelectItem key={role} value={role}>
+                  {baseRoleLabels[role]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setRoleUser(null)} disabled={saving}>
+              انصراف
+            </Button>
+            <Button
+              onClick={handleRoleChange}
+              disabled={saving || (!!roleUser && roleFromApi(roleUser.role) === nextRole)}
+            >
+              ذخیره
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* User tickets dialog */}
+      <Dialog open={!!ticketsUser} onOpenChange={(open) => !open && setTicketsUser(null)}>
+        <DialogContent className="max-w-2xl" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right">تیکت‌های {ticketsUser?.fullName}</DialogTitle>
+            <DialogDescription className="text-right">{ticketsUser?.email}</DialogDescription>
+          </DialogHeader>
+          {ticketsUser && <UserTickets userId={ticketsUser.id} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* CSV import dialog */}
+      <Dialog open={importOpen} onOpenChange={closeImport}>
+        <DialogContent className="max-w-2xl" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right">ورود گروهی کاربران</DialogTitle>
+            <DialogDescription className="text-right">
+              فایل CSV با ستون‌های email، fullName و در صورت نیاز role، department و phone. برای هر کاربر دعوت‌نامه ارسال
+              می‌شود.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => void handleImportFile(e.target.files?.[0])}
+                className="flex-1"
+              />
+              <Button variant="ghost" size="sm" onClick={downloadTemplate} className="gap-1">
+                <Download className="w-4 h-4" />
+                نمونه فایل
+              </Button>
+            </div>
+
+            {importParse && !importResult && (
+              <div className="space-y-2 text-sm">
+                <p>{importParse.users.length.toLocaleString("fa-IR")} کاربر آماده دعوت</p>
+                {importParse.errors.length > 0 && (
+                  <ul className="max-h-40 overflow-y-auto rounded-lg border border-red-200 bg-red-50 p-3 text-red-700 space-y-1 dark:border-red-500/30 dark:bg-red-500/10 dark:text-red-200">
+                    {importParse.errors.map((error) => (
+                      <li key={`${error.line}-${error.message}`}>
+                        سطر {error.line.toLocaleString("fa-IR")}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {importResult && importParse && (
+              <div className="space-y-2 text-sm">
+                <p>
+                  {importResult.createdCount.toLocaleString("fa-IR")} کاربر دعوت شد،{" "}
+                  {importResult.skippedCount.toLocaleString("fa-IR")} مورد از قبل حساب داشت.
+                </p>
+                {importResult.errors.length > 0 && (
+                  <ul className="max-h-40 overflow-y-auto rounded-lg border border-red-200 bg-red-50 p-3 text-red-700 space-y-1 dark:border-red-500/30 dark:bg-red-500/10 dark:text-red-200">
+                    {importResult.errors.map((error) => (
+                      <li key={`${error.row}-${error.email}`}>
+                        سطر {(importParse.lines[error.row] ?? error.row + 2).toLocaleString("fa-IR")} ({error.email}):{" "}
+                        {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => closeImport(false)} disabled={saving}>
+              {importResult ? "بستن" : "انصراف"}
+            </Button>
+            {!importResult && (
+              <Button onClick={handleImport} disabled={saving || !importParse || importParse.users.length === 0}>
+                {saving ? "در حال ارسال..." : "دعوت کاربران"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent dir="rtl">
+          {pendingAction && (
+            <>
+              <AlertDialogHeader>
+                <AlertDialogTitle className="text-right">
+                  {actionCopy[pendingAction.action].title}: {pendingAction.user.fullName}
+                </AlertDialogTitle>
+                <AlertDialogDescription className="text-right">
+                  {actionCopy[pendingAction.action].description}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter className="gap-2">
+                <AlertDialogCancel>انصراف</AlertDialogCancel>
+                <AlertDialogAction onClick={handleAction}>{actionCopy[pendingAction.action].confirm}</AlertDialogAction>
+              </AlertDialogFooter>
+            </>
+          )}
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ImpersonationDialog
+        open={!!impersonatedUser}
+        onOpenChange={(open) => !open && setImpersonatedUser(null)}
+        userId={impersonatedUser?.id}
+      />
+    </div>
+  )
+}
@@ -12,13 +12,17 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
+import { useCan } from "@/hooks/use-permissions"
 import { useAuth } from "@/lib/auth-context"
+import { ImpersonationDialog } from "./impersonation-dialog"
 import { SettingsDialog } from "./settings-dialog"
-import { User, Settings, LogOut, Shield, Wrench } from "lucide-react"
+import { User, Settings, LogOut, Shield, Wrench, Eye, Undo2 } from "lucide-react"
 
 export function UserMenu() {
-  const { user, logout } = useAuth()
+  const { user, logout, impersonation, exitImpersonation } = useAuth()
+  const can = useCan()
   const [settingsOpen, setSettingsOpen] = useState(false)
+  const [impersonationOpen, setImpersonationOpen] = useState(false)
 
   if (!user) return null
 
@@ -101,8 +105,25 @@ export function UserMenu() {
               <Settings className="h-4 w-4" />
             </div>
           </DropdownMenuItem>
+          {impersonation ? (
+            <DropdownMenuItem onClick={() => void exitImpersonation()} className="justify-end">
+              <div className="flex items-center gap-2">
+                <span>بازگشت به حساب {impersonation.impersonator.name}</span>
+                <Undo2 className="h-4 w-4" />
+              </div>
+            </DropdownMenuItem>
+          ) : (
+            can("users.impersonate") && (
+              <DropdownMenuItem onClick={() => setImpersonationOpen(true)} className="justify-end">
+                <div className="flex items-center gap-2">
+                  <span>مشاهده از دید کاربر</span>
+                  <Eye className="h-4 w-4" />
+                </div>
+              </DropdownMenuItem>
+            )
+          )}
           <DropdownMenuSeparator />
-          <DropdownMenuItem onClick={logout} className="text-red-600 justify-end">
+          <DropdownMenuItem onClick={() => logout()} className="text-red-600 justify-end">
             <div className="flex items-center gap-2">
               <span>خروج</span>
               <LogOut className="h-4 w-4" />
@@ -112,6 +133,7 @@ export function UserMenu() {
       </DropdownMenu>
 
       <SettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+      <ImpersonationDialog open={impersonationOpen} onOpenChange={setImpersonationOpen} />
     </>
   )
 }
@@ -0,0 +1,219 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ArrowLeft, RotateCcw, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useTicketWorkflow } from "@/hooks/use-ticket-workflow"
+import { toast } from "@/hooks/use-toast"
+import { getApiErrorMessage } from "@/lib/api-errors"
+import { useAuth } from "@/lib/auth-context"
+import { baseRoleLabels, type BaseRole } from "@/lib/permissions"
+import { setQueryData } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import {
+  DEFAULT_TICKET_WORKFLOW,
+  TICKET_STATUSES,
+  requirementLabels,
+  ticketStatusLabels,
+  workflowToApi,
+  type TicketWorkflow,
+  type TransitionRequirement,
+  type WorkflowTransition,
+} from "@/lib/ticket-workflow"
+import { updateTicketWorkflow } from "@/lib/workflow-api"
+import type { TicketStatus } from "@/types"
+
+const ROLES = Object.keys(baseRoleLabels) as BaseRole[]
+const REQUIREMENTS = Object.keys(requirementLabels) as TransitionRequirement[]
+
+// Every status change there could be, grouped by the status it starts from
+const STATUS_PAIRS = TICKET_STATUSES.flatMap((from) =>
+  TICKET_STATUSES.filter((to) => to !== from).map((to) => ({ from, to }))
+)
+
+const sameTransition = (transition: WorkflowTransition, from: TicketStatus, to: TicketStatus) =>
+  transition.from === from && transition.to === to
+
+/**
+ * Which status changes each role may make and what they must include
+ */
+export function WorkflowManagement() {
+  const { token } = useAuth()
+  const { workflow, error: loadError } = useTicketWorkflow()
+  const [draft, setDraft] = useState<TicketWorkflow>(workflow)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setDraft(workflow)
+  }, [workflow])
+
+  useEffect(() => {
+    if (!loadError) return
+    toast({
+      title: "خطا در بارگذاری گردش کار",
+      description: `${getApiErrorMessage(loadError)}؛ گردش کار پیش‌فرض نمایش داده می‌شود`,
+      variant: "destructive",
+    })
+  }, [loadError])
+
+  const transitionOf = (from: TicketStatus, to: TicketStatus) =>
+    draft.transitions.find((transition) => sameTransition(transition, from, to))
+
+  const updateTransition = (
+    from: TicketStatus,
+    to: TicketStatus,
+    update: (transition: WorkflowTransition) => WorkflowTransition
+  ) => {
+    setDraft((current) => {
+      const existing = current.transitions.find((transition) => sameTransition(transition, from, to))
+      const next = update(existing ?? { from, to, roles: [], requires: [] })
+      const others = current.transitions.filter((transition) => !sameTransition(transition, from, to))
+      return { ...current, transitions: [...others, next] }
+    })
+  }
+
+  const toggleRole = (from: TicketStatus, to: TicketStatus, role: BaseRole, checked: boolean) =>
+    updateTransition(from, to, (transition) => ({
+      ...transition,
+      roles: checked ? [...transition.roles, role] : transition.roles.filter((granted) => granted !== role),
+    }))
+
+  const toggleRequirement = (from: TicketStatus, to: TicketStatus, requirement: TransitionRequirement, checked: boolean) =>
+    updateTransition(from, to, (transition) => ({
+      ...transition,
+      requires: checked
+        ? [...transition.requires, requirement]
+        : transition.requires.filter((required) => required !== requirement),
+    }))
+
+  const handleSave = async () => {
+    if (!token || saving) return
+    setSaving(true)
+    // A change nobody may make is simply left out; keep the table's order for readable diffs
+    const transitions = STATUS_PAIRS.flatMap(({ from, to }) => {
+      const transition = transitionOf(from, to)
+      return transition && transition.roles.length > 0 ? [transition] : []
+    })
+    try {
+      const saved = await updateTicketWorkflow(token, workflowToApi({ ...draft, transitions }))
+      setQueryData(queryKeys.ticketWorkflow, saved)
+      toast({ title: "گردش کار ذخیره شد", description: "تغییر وضعیت تیکت‌ها از این پس با این قواعد انجام می‌شود" })
+    } catch (error) {
+      toast({
+        title: "خطا در ذخیره گردش کار",
+        description: getApiErrorMessage(error),
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card dir="rtl">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div className="space-y-1">
+            <CardTitle className="text-right">گردش کار تیکت‌ها</CardTitle>
+            <CardDescription className="text-right">
+              هر تغییر وضعیت فقط برای نقش‌های انتخاب‌شده مجاز است؛ تغییری که هیچ نقشی ندارد ممکن نیست
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setDraft(DEFAULT_TICKET_WORKFLOW)} disabled={saving} className="gap-2">
+              <RotateCcw className="w-4 h-4" />
+              پیش‌فرض
+            </Button>
+            <Button onClick={handleSave} disabled={saving} className="gap-2">
+              <Save className="w-4 h-4" />
+              {saving ? "در حال ذخیره..." : "ذخیره"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-w-sm">
+          <Label htmlFor="auto-close-days" className="text-right">
+            بستن خودکار تیکت‌های حل‌شده (روز)
+          </Label>
+          <Input
+            id="auto-close-days"
+            type="number"
+            min={0}
+            value={draft.autoCloseResolvedDays}
+            onChange={(e) =>
+              setDraft((current) => ({
+                ...current,
+                autoCloseResolvedDays: Math.max(0, Math.floor(Number(e.target.value) || 0)),
+              }))
+            }
+            className="text-right"
+          />
+          <p className="text-xs text-muted-foreground text-right">
+            اگر مشتری در این مدت حل شدن تیکت را تأیید یا رد نکند، تیکت بسته می‌شود؛ صفر یعنی هرگز
+          </p>
+        </div>
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">تغییر وضعیت</TableHead>
+                {ROLES.map((role) => (
+                  <TableHead key={role} className="text-center">
+                    {baseRoleLabels[role]}
+                  </TableHead>
+                ))}
+                {REQUIREMENTS.map((requirement) => (
+                  <TableHead key={requirement} className="text-center">
+                    {requirementLabels[requirement]} الزامی
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {STATUS_PAIRS.map(({ from, to }) => {
+                const transition = transitionOf(from, to)
+                const allowed = !!transition && transition.roles.length > 0
+                return (
+                  <TableRow key={`${from}-${to}`} className={allowed ? undefined : "text-muted-foreground"}>
+                    <TableCell>
+                      <div className="flex items-center gap-2 whitespace-nowrap">
+                        {ticketStatusLabels[from]}
+                        <ArrowLeft className="w-3 h-3" />
+                        {ticketStatusLabels[to]}
+                      </div>
+                    </TableCell>
+                    {ROLES.map((role) => (
+                      <TableCell key={role} className="text-center">
+                        <Checkbox
+                          checked={!!transition?.roles.includes(role)}
+                          onCheckedChange={(checked) => toggleRole(from, to, role, checked === true)}
+                          aria-label={`${baseRoleLabels[role]}: ${ticketStatusLabels[from]} به ${ticketStatusLabels[to]}`}
+                        />
+                      </TableCell>
+                    ))}
+                    {REQUIREMENTS.map((requirement) => (
+                      <TableCell key={requirement} className="text-center">
+                        <Checkbox
+                          checked={!!transition?.requires.includes(requirement)}
+                          onCheckedChange={(checked) => toggleRequirement(from, to, requirement, checked === true)}
+                          disabled={!allowed}
+                          aria-label={`${requirementLabels[requirement]} الزامی: ${ticketStatusLabels[from]} به ${ticketStatusLabels[to]}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
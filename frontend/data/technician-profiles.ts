@@ -1,10 +1,9 @@
-import type { ApiUserDto } from "@/lib/api-types"
+import type { ApiCsatSummary, ApiUserDto } from "@/lib/api-types"
 
 export type TechnicianAvailability = "available" | "busy" | "offline"
 
 export interface TechnicianMetadata {
   specialties: string[]
-  rating: number
   activeTickets: number
   status: TechnicianAvailability
   completedTickets: number
@@ -17,11 +16,27 @@ export interface TechnicianProfile extends TechnicianMetadata {
   name: string
   email: string
   department?: string | null
+  /** Average satisfaction survey rating, 1–5; UNRATED_TECHNICIAN_RATING until a client answers */
+  rating: number
+  /** Survey answers behind the rating */
+  ratingCount: number
 }
 
+/** Scale midpoint, so technicians without survey answers are neither favored nor penalized */
+export const UNRATED_TECHNICIAN_RATING = 3
+
+export const technicianRating = (satisfaction?: ApiCsatSummary | null): Pick<TechnicianProfile, "rating" | "ratingCount"> =>
+  satisfaction?.averageRating != null && satisfaction.responses > 0
+    ? { rating: satisfaction.averageRating, ratingCount: satisfaction.responses }
+    : { rating: UNRATED_TECHNICIAN_RATING, ratingCount: 0 }
+
+export const formatTechnicianRating = (technician: Pick<TechnicianProfile, "rating" | "ratingCount">) =>
+  technician.ratingCount > 0
+    ? technician.rating.toLocaleString("fa-IR", { maximumFractionDigits: 1 })
+    : "بدون امتیاز"
+
 const defaultMetadata: TechnicianMetadata = {
   specialties: ["hardware"],
-  rating: 4.2,
   activeTickets: 0,
   status: "available",
   completedTickets: 10,
@@ -32,7 +47,6 @@ const defaultMetadata: TechnicianMetadata = {
 export const technicianMetadataByEmail: Record<string, TechnicianMetadata> = {
   "tech1@test.com": {
     specialties: ["network", "hardware"],
-    rating: 4.8,
     activeTickets: 3,
     status: "available",
     completedTickets: 45,
@@ -41,7 +55,6 @@ export const technicianMetadataByEmail: Record<string, TechnicianMetadata> = {
   },
   "tech2@test.com": {
     specialties: ["software", "security"],
-    rating: 4.7,
     activeTickets: 2,
     status: "available",
     completedTickets: 38,
@@ -50,7 +63,7 @@ export const technicianMetadataByEmail: Record<string, TechnicianMetadata> = {
   },
 }
 
-export function buildTechnicianProfile(user: ApiUserDto): TechnicianProfile {
+export function buildTechnicianProfile(user: ApiUserDto, satisfaction?: ApiCsatSummary | null): TechnicianProfile {
   const overrides = technicianMetadataByEmail[user.email.toLowerCase()] ?? defaultMetadata
   return {
     id: user.id,
@@ -58,7 +71,7 @@ export function buildTechnicianProfile(user: ApiUserDto): TechnicianProfile {
     email: user.email,
     department: user.department ?? null,
     specialties: overrides.specialties,
-    rating: overrides.rating,
+    ...technicianRating(satisfaction),
     activeTickets: overrides.activeTickets,
     status: overrides.status,
     completedTickets: overrides.completedTickets,
@@ -0,0 +1,198 @@
+"use client"
+
+import * as React from "react"
+
+import { useQuery } from "@/hooks/use-query"
+import { usePublicSettings } from "@/hooks/use-system-settings"
+import { toast } from "@/hooks/use-toast"
+import { ApiCancelledError, getApiErrorMessage } from "@/lib/api-errors"
+import type { ApiAttachmentDto } from "@/lib/api-types"
+import { deleteAttachment, getAttachmentContent, getTicketAttachments } from "@/lib/attachments-api"
+import { useAuth } from "@/lib/auth-context"
+import { getAttachmentPolicy, uploadFile, type AttachmentPolicy } from "@/lib/file-upload"
+import { invalidateQueries, runOptimisticMutation, updateQueries } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { mapApiAttachmentToUi } from "@/lib/ticket-mappers"
+import type { TicketAttachment } from "@/types"
+
+/**
+ * Upload limits for the signed-in user
+ */
+export function useAttachmentPolicy(): AttachmentPolicy {
+  const { user } = useAuth()
+  const { settings } = usePublicSettings()
+  return React.useMemo(() => getAttachmentPolicy(settings, user?.role), [settings, user?.role])
+}
+
+const addToCache = (ticketId: string, attachment: ApiAttachmentDto) => {
+  updateQueries<ApiAttachmentDto[]>(queryKeys.ticketAttachments(ticketId), (list) =>
+    list.some((item) => item.id === attachment.id) ? list : [...list, attachment],
+  )
+  void invalidateQueries(queryKeys.ticket(ticketId))
+}
+
+/**
+ * Attachments of a ticket, with deletion applied optimistically
+ */
+export function useTicketAttachments(ticketId: string | null | undefined) {
+  const { token } = useAuth()
+  const result = useQuery(token && ticketId ? queryKeys.ticketAttachments(ticketId) : null, () =>
+    getTicketAttachments(token, ticketId!),
+  )
+
+  const attachments = React.useMemo<TicketAttachment[]>(
+    () => (result.data ?? []).map(mapApiAttachmentToUi),
+    [result.data],
+  )
+
+  const remove = React.useCallback(
+    async (attachmentId: string) => {
+      if (!token || !ticketId) return
+      try {
+        await runOptimisticMutation({
+          affects: [queryKeys.ticketAttachments(ticketId)],
+          apply: () =>
+            updateQueries<ApiAttachmentDto[]>(queryKeys.ticketAttachments(ticketId), (list) =>
+              list.filter((item) => item.id !== attachmentId),
+            ),
+          mutate: () => deleteAttachment(token, attachmentId),
+          invalidate: [queryKeys.ticketAttachments(ticketId), queryKeys.ticket(ticketId)],
+        })
+        toast({
+          title: "فایل حذف شد",
+          description: "فایل از لیست پیوست‌ها حذف شد",
+        })
+      } catch (error) {
+        console.error("Failed to delete attachment", error)
+        toast({
+          title: "حذف فایل ناموفق بود",
+          description: getApiErrorMessage(error),
+          variant: "destructive",
+        })
+      }
+    },
+    [token, ticketId],
+  )
+
+  return {
+    attachments,
+    isLoading: result.isLoading,
+    error: result.error,
+    refresh: result.refetch,
+    remove,
+  }
+}
+
+export interface AttachmentUploadItem {
+  id: string
+  name: string
+  size: number
+  progress: number
+}
+
+/**
+ * Uploads files to an existing ticket, tracking progress per file and allowing cancellation
+ */
+export function useAttachmentUpload(ticketId: string | null | undefined) {
+  const { token } = useAuth()
+  const [uploads, setUploads] = React.useState<AttachmentUploadItem[]>([])
+  const controllers = React.useRef(new Map<string, AbortController>())
+
+  React.useEffect(() => {
+    const active = controllers.current
+    return () => active.forEach((controller) => controller.abort())
+  }, [])
+
+  const upload = React.useCallback(
+    async (file: File, { messageId }: { messageId?: string | null } = {}) => {
+      if (!token || !ticketId) return null
+
+      const id = `${file.name}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+      const controller = new AbortController()
+      controllers.current.set(id, controller)
+      setUploads((prev) => [...prev, { id, name: file.name, size: file.size, progress: 0 }])
+
+      try {
+        const attachment = await uploadFile(token, ticketId, file, {
+          messageId,
+          signal: controller.signal,
+          onProgress: (progress) =>
+            setUploads((prev) => prev.map((item) => (item.id === id ? { ...item, progress } : item))),
+        })
+        addToCache(ticketId, attachment)
+        toast({
+          title: "فایل آپلود شد",
+          description: `${file.name} با موفقیت آپلود شد`,
+        })
+        return mapApiAttachmentToUi(attachment)
+      } catch (error) {
+        if (!(error instanceof ApiCancelledError)) {
+          console.error("Failed to upload attachment", error)
+          toast({
+            title: "خطا در آپلود",
+            description: `${file.name}: ${getApiErrorMessage(error)}`,
+            variant: "destructive",
+          })
+        }
+        return null
+      } finally {
+        controllers.current.delete(id)
+        setUploads((prev) => prev.filter((item) => item.id !== id))
+      }
+    },
+    [token, ticketId],
+  )
+
+  const cancel = React.useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+  }, [])
+
+  return { uploads, upload, cancel }
+}
+
+/**
+ * Fetch an attachment with the session's credentials and hand back an object URL.
+ * The caller must revoke it with URL.revokeObjectURL when done.
+ */
+export async function getAttachmentObjectUrl(
+  token: string | null,
+  attachmentId: string,
+  { inline = false }: { inline?: boolean } = {},
+): Promise<string> {
+  const blob = await getAttachmentContent(token, attachmentId, { inline })
+  return URL.createObjectURL(blob)
+}
+
+/**
+ * Save an attachment to disk under its original name
+ */
+export async function downloadAttachment(token: string | null, attachment: TicketAttachment) {
+  const url = await getAttachmentObjectUrl(token, attachment.id)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = attachment.name
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download before the URL goes away
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * Uploads the files picked while a ticket was being created. Failures are reported per file;
+ * the ticket itself stays created.
+ */
+export async function uploadPendingAttachments(token: string | null, ticketId: string, files: File[]) {
+  for (const file of files) {
+    try {
+      addToCache(ticketId, await uploadFile(token, ticketId, file))
+    } catch (error) {
+      console.error("Failed to upload attachment", error)
+      toast({
+        title: "خطا در آپلود",
+        description: `${file.name}: ${getApiErrorMessage(error)}`,
+        variant: "destructive",
+      })
+    }
+  }
+}
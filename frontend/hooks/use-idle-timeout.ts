@@ -0,0 +1,83 @@
+"use client"
+
+import * as React from "react"
+
+import { usePublicSettings } from "@/hooks/use-system-settings"
+import { useAuth } from "@/lib/auth-context"
+import { getLastSessionActivity, markSessionActivity } from "@/lib/auth-session"
+
+/**
+ * Used until the settings have loaded, and when they can't be: failing to load them must not turn
+ * the idle sign-out off. Matches the backend's default.
+ */
+export const DEFAULT_SESSION_TIMEOUT_MINUTES = 60
+/** How long before the idle sign-out the warning appears */
+export const IDLE_WARNING_MS = 60_000
+const CHECK_INTERVAL_MS = 1_000
+/** Activity is written to localStorage at most this often */
+const ACTIVITY_THROTTLE_MS = 10_000
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const
+
+/**
+ * Sign the user out after `sessionTimeoutMinutes` without activity in any tab.
+ * `remainingMs` is set during the last minute, while the warning should be shown.
+ */
+export function useIdleTimeout() {
+  const { user, logout } = useAuth()
+  const { settings } = usePublicSettings()
+  const timeoutMinutes = settings?.sessionTimeoutMinutes || DEFAULT_SESSION_TIMEOUT_MINUTES
+  const timeoutMs = user ? timeoutMinutes * 60_000 : null
+  const [remainingMs, setRemainingMs] = React.useState<number | null>(null)
+
+  const logoutRef = React.useRef(logout)
+  logoutRef.current = logout
+  const warningRef = React.useRef(false)
+
+  React.useEffect(() => {
+    warningRef.current = false
+    setRemainingMs(null)
+    if (!timeoutMs) return
+
+    if (getLastSessionActivity() === null) markSessionActivity()
+    let lastMarked = 0
+
+    const handleActivity = () => {
+      // Once the warning is up only the dialog keeps the session alive
+      if (warningRef.current) return
+      const now = Date.now()
+      if (now - lastMarked < ACTIVITY_THROTTLE_MS) return
+      lastMarked = now
+      markSessionActivity(now)
+    }
+
+    const check = () => {
+      const lastActivity = getLastSessionActivity() ?? Date.now()
+      const remaining = lastActivity + timeoutMs - Date.now()
+      if (remaining <= 0) {
+        logoutRef.current("idle")
+        return
+      }
+      // Activity in another tab also dismisses the warning here
+      warningRef.current = remaining <= IDLE_WARNING_MS
+      setRemainingMs(warningRef.current ? remaining : null)
+    }
+
+    check()
+    const interval = setInterval(check, CHECK_INTERVAL_MS)
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }))
+    return () => {
+      clearInterval(interval)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity))
+    }
+  }, [timeoutMs])
+
+  const staySignedIn = React.useCallback(() => {
+    markSessionActivity()
+    warningRef.current = false
+    setRemainingMs(null)
+  }, [])
+
+  const signOut = React.useCallback(() => logoutRef.current(), [])
+
+  return { remainingMs, staySignedIn, signOut }
+}
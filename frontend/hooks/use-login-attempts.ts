@@ -0,0 +1,86 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { ApiCaptchaChallenge } from "@/lib/api-types"
+import type { CaptchaSolution, LoginResult } from "@/lib/auth-context"
+import { getCaptchaChallenge } from "@/lib/sign-in-security-api"
+
+/**
+ * What the sign-in forms show between attempts: the throttling countdown, a lock, the CAPTCHA to
+ * solve and the attempts left. Feed every login result to `record`.
+ */
+export function useLoginAttempts() {
+  const [retryAt, setRetryAt] = useState<number | null>(null)
+  const [retryIn, setRetryIn] = useState(0)
+  const [lockedUntil, setLockedUntil] = useState<string | null | undefined>(undefined)
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null)
+  const [captcha, setCaptcha] = useState<ApiCaptchaChallenge | null>(null)
+  const [captchaAnswer, setCaptchaAnswer] = useState("")
+  const [invalidCaptcha, setInvalidCaptcha] = useState(false)
+
+  useEffect(() => {
+    if (retryAt === null) return
+    const tick = () => {
+      const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000))
+      setRetryIn(seconds)
+      if (seconds === 0) setRetryAt(null)
+    }
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [retryAt])
+
+  const record = useCallback((result: LoginResult) => {
+    setRetryAt(result.status === "rate-limited" ? result.retryAt : null)
+    setLockedUntil(result.status === "locked" ? result.lockedUntil : undefined)
+    setRemainingAttempts(
+      result.status === "failed" || result.status === "captcha-required" ? result.remainingAttempts : null
+    )
+    setInvalidCaptcha(result.status === "captcha-required" && result.invalidCaptcha)
+    // A throttled or locked attempt doesn't lift the CAPTCHA requirement; keep the challenge shown
+    if (result.status === "captcha-required") {
+      setCaptcha(result.captcha)
+      setCaptchaAnswer("")
+    } else if (result.status === "signed-in" || result.status === "failed") {
+      setCaptcha(null)
+    }
+  }, [])
+
+  const refreshCaptcha = useCallback(async () => {
+    setCaptcha(await getCaptchaChallenge())
+    setCaptchaAnswer("")
+    setInvalidCaptcha(false)
+  }, [])
+
+  const reset = useCallback(() => {
+    setRetryAt(null)
+    setRetryIn(0)
+    setLockedUntil(undefined)
+    setRemainingAttempts(null)
+    setCaptcha(null)
+    setCaptchaAnswer("")
+    setInvalidCaptcha(false)
+  }, [])
+
+  const captchaSolution: CaptchaSolution | undefined =
+    captcha && captchaAnswer.trim() ? { id: captcha.id, answer: captchaAnswer.trim() } : undefined
+
+  return {
+    /** Seconds until the next attempt is accepted; 0 when not throttled */
+    retryIn,
+    /** Undefined while not locked; null when only an administrator can unlock the account */
+    lockedUntil,
+    locked: lockedUntil !== undefined,
+    remainingAttempts,
+    captcha,
+    captchaAnswer,
+    setCaptchaAnswer,
+    captchaSolution,
+    invalidCaptcha,
+    /** Submitting is pointless until the countdown ends or the CAPTCHA is answered */
+    blocked: retryIn > 0 || (!!captcha && !captchaSolution),
+    record,
+    refreshCaptcha,
+    reset,
+  }
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import * as React from "react"
+
+import { ticketOutboxHandlers } from "@/hooks/use-tickets"
+import type { ApiPagedResponse, ApiTicketResponse } from "@/lib/api-types"
+import { useAuth } from "@/lib/auth-context"
+import { startOfflineMirror } from "@/lib/offline-mirror"
+import {
+  getOfflineSyncStatus,
+  replayOutbox,
+  resolveOutboxEntry,
+  startOutbox,
+  subscribeOfflineSync,
+  type OfflineSyncStatus,
+} from "@/lib/offline-outbox"
+import { invalidateQueries, updateQueries } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+
+const SERVER_STATUS: OfflineSyncStatus = { online: true, syncing: false, entries: [], lastSyncedAt: null }
+
+/**
+ * Offline mode for the signed-in user: mirror tickets, threads and categories to IndexedDB
+ * and replay queued changes when the connection returns. Mount once per page.
+ */
+export function useOfflineSync() {
+  const { user } = useAuth()
+  const userId = user?.id
+
+  React.useEffect(() => {
+    if (!userId) return
+    const stopMirror = startOfflineMirror(userId)
+    const stopOutbox = startOutbox(userId, ticketOutboxHandlers)
+    return () => {
+      stopOutbox()
+      stopMirror()
+    }
+  }, [userId])
+}
+
+/**
+ * Connection state and the outbox, for the sync indicator
+ */
+export function useSyncStatus() {
+  const status = React.useSyncExternalStore(subscribeOfflineSync, getOfflineSyncStatus, () => SERVER_STATUS)
+
+  const counts = React.useMemo(
+    () => ({
+      pending: status.entries.filter((entry) => entry.state === "pending").length,
+      conflicts: status.entries.filter((entry) => entry.state === "conflict").length,
+      failed: status.entries.filter((entry) => entry.state === "failed").length,
+    }),
+    [status.entries],
+  )
+
+  /** Send a held entry anyway, or drop it and reload what the server has */
+  const resolve = React.useCallback(async (entryId: string, resolution: "overwrite" | "discard") => {
+    const entry = await resolveOutboxEntry(entryId, resolution)
+    if (!entry || resolution !== "discard") return
+    const { operation } = entry
+    if (operation.kind === "createTicket") {
+      const keep = (ticket: ApiTicketResponse) => ticket.id !== operation.tempId
+      updateQueries<ApiPagedResponse<ApiTicketResponse>>(queryKeys.ticketLists, (data) => ({
+        ...data,
+        items: data.items.filter(keep),
+      }))
+    } else {
+      void invalidateQueries(queryKeys.ticket(operation.ticketId))
+      void invalidateQueries(queryKeys.ticketMessages(operation.ticketId))
+    }
+    void invalidateQueries(queryKeys.tickets)
+  }, [])
+
+  return { ...status, ...counts, retry: replayOutbox, resolve }
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import * as React from "react"
+
+import { useQuery } from "@/hooks/use-query"
+import { useAuth } from "@/lib/auth-context"
+import { hasPermissions, resolvePermissions, type Permission } from "@/lib/permissions"
+import { queryKeys } from "@/lib/query-keys"
+import { getMyPermissions } from "@/lib/roles-api"
+
+const PERMISSIONS_STALE_TIME_MS = 5 * 60_000
+
+/**
+ * The signed-in user's permissions, as the server reports them. Nothing is granted while the
+ * answer is loading or when the server can't be asked.
+ */
+export function usePermissions() {
+  const { user, token } = useAuth()
+  const result = useQuery(token && user ? queryKeys.myPermissions : null, () => getMyPermissions(token), {
+    staleTime: PERMISSIONS_STALE_TIME_MS,
+  })
+  const serverPermissions = result.data?.permissions
+
+  const permissions = React.useMemo(() => resolvePermissions(serverPermissions), [serverPermissions])
+
+  return {
+    permissions,
+    /** Name of the custom role, when the user has one */
+    roleName: result.data?.roleName ?? null,
+    isLoading: result.isLoading,
+  }
+}
+
+/**
+ * `can("tickets.assign")`, or `can(["tickets.viewAll", "tickets.assign"])` for all of several
+ */
+export function useCan() {
+  const { permissions } = usePermissions()
+  return React.useCallback(
+    (required: Permission | readonly Permission[]) => hasPermissions(permissions, required),
+    [permissions],
+  )
+}
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from "vitest"
+
+import { holdQueryData, type HeldQueryData } from "@/hooks/use-query"
+import { clearQueryCache, fetchQuery, getQueryCacheGeneration, getQueryState } from "@/lib/query-cache"
+
+const PAGE_1 = ["tickets", "list", { page: 1 }]
+const PAGE_2 = ["tickets", "list", { page: 2 }]
+
+// What the hook does on each render of `key`
+const render = <T>(held: HeldQueryData<T> | undefined, key: readonly unknown[]) => {
+  const state = getQueryState<T>(key)
+  const next = holdQueryData(held, state, getQueryCacheGeneration())
+  return { held: next, data: state.data ?? next?.data }
+}
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((res) => {
+    resolve = res
+  })
+  return { promise, resolve }
+}
+
+afterEach(() => {
+  clearQueryCache()
+})
+
+describe("holdQueryData", () => {
+  it("keeps the previous key's data while the next key loads", async () => {
+    await fetchQuery(PAGE_1, async () => "page 1")
+    let view = render<string>(undefined, PAGE_1)
+
+    const page2 = deferred<string>()
+    void fetchQuery(PAGE_2, () => page2.promise)
+    view = render(view.held, PAGE_2)
+    expect(view.data).toBe("page 1")
+
+    page2.resolve("page 2")
+    await page2.promise
+    expect(render(view.held, PAGE_2).data).toBe("page 2")
+  })
+
+  it("shows nothing from before a clear while the query is fetched again", async () => {
+    await fetchQuery(PAGE_1, async () => "first account")
+    let view = render<string>(undefined, PAGE_1)
+
+    clearQueryCache()
+    view = render(view.held, PAGE_1)
+    expect(view.data).toBeUndefined()
+
+    const refetch = deferred<string>()
+    void fetchQuery(PAGE_1, () => refetch.promise)
+    view = render(view.held, PAGE_1)
+    expect(view.data).toBeUndefined()
+
+    refetch.resolve("second account")
+    await refetch.promise
+    expect(render(view.held, PAGE_1).data).toBe("second account")
+  })
+
+  it("drops the previous data when the next key fails to load", async () => {
+    await fetchQuery(PAGE_1, async () => "page 1")
+    const view = render<string>(undefined, PAGE_1)
+
+    await fetchQuery(PAGE_2, async () => {
+      throw new Error("offline")
+    }).catch(() => undefined)
+
+    expect(render(view.held, PAGE_2).data).toBeUndefined()
+  })
+})
@@ -0,0 +1,105 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  fetchQuery,
+  getQueryCacheGeneration,
+  getQueryState,
+  hashQueryKey,
+  subscribeQuery,
+  type QueryKey,
+  type QueryState,
+} from "@/lib/query-cache"
+
+export const DEFAULT_STALE_TIME_MS = 30_000
+
+const EMPTY_STATE: QueryState<never> = { error: null, updatedAt: 0, isFetching: false }
+const noopSubscribe = () => () => {}
+
+interface UseQueryOptions {
+  /** Cached data younger than this is used without a background refetch */
+  staleTime?: number
+  enabled?: boolean
+  /** Keep showing the previous key's data while a new key loads (e.g. when paging) */
+  keepPreviousData?: boolean
+  /** Don't log a failed load, for best-effort data the caller can do without */
+  silent?: boolean
+}
+
+export interface HeldQueryData<T> {
+  data: T
+  /** Cache generation the data was read in */
+  generation: number
+}
+
+/**
+ * What keepPreviousData may show next: the query's own data once it has some, otherwise the data
+ * held from an earlier key while the new one loads. Held data is dropped when the load fails and
+ * when the cache has been cleared since, so nothing outlives a sign-out or an account switch.
+ */
+export function holdQueryData<T>(
+  held: HeldQueryData<T> | undefined,
+  state: QueryState<T>,
+  generation: number,
+): HeldQueryData<T> | undefined {
+  if (typeof state.data !== "undefined") return { data: state.data, generation }
+  if (state.error || held?.generation !== generation) return undefined
+  return held
+}
+
+/**
+ * Read a cached server resource and keep it fresh. Cached data is returned immediately
+ * and revalidated in the background once it is older than `staleTime`.
+ * Pass `null` as the key to skip the query.
+ */
+export function useQuery<T>(key: QueryKey | null, fetcher: () => Promise<T>, options: UseQueryOptions = {}) {
+  const { staleTime = DEFAULT_STALE_TIME_MS, enabled = true, keepPreviousData = false, silent = false } = options
+  const hash = key ? hashQueryKey(key) : null
+
+  // The key array is usually rebuilt on every render; the hash is what identifies it
+  const keyRef = React.useRef(key)
+  keyRef.current = key
+  const fetcherRef = React.useRef(fetcher)
+  fetcherRef.current = fetcher
+
+  const subscribe = React.useMemo(
+    () => (hash && keyRef.current ? (listener: () => void) => subscribeQuery(keyRef.current!, listener) : noopSubscribe),
+    [hash],
+  )
+  const getSnapshot = React.useCallback(
+    () => (hash && keyRef.current ? getQueryState<T>(keyRef.current) : (EMPTY_STATE as QueryState<T>)),
+    [hash],
+  )
+  const state = React.useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+
+  const load = React.useCallback(
+    (force: boolean) => {
+      if (!keyRef.current) return Promise.resolve(undefined)
+      return fetchQuery(keyRef.current, () => fetcherRef.current(), { staleTime, force }).catch((err: unknown) => {
+        if (!silent) console.error("Query failed", keyRef.current, err)
+        return undefined
+      })
+    },
+    [staleTime, silent],
+  )
+
+  React.useEffect(() => {
+    if (!hash || !enabled) return
+    void load(false)
+  }, [hash, enabled, load])
+
+  const held = React.useRef<HeldQueryData<T> | undefined>(undefined)
+  held.current = holdQueryData(held.current, state, getQueryCacheGeneration())
+  const data = state.data ?? (keepPreviousData ? held.current?.data : undefined)
+
+  const refetch = React.useCallback(() => load(true), [load])
+
+  return {
+    data,
+    error: state.error,
+    isLoading: enabled && !!hash && typeof data === "undefined" && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  }
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { subscribeLiveTicketUpdates } from "@/hooks/use-signalr"
+import type { ApiPagedResponse, ApiTicketMessageDto, ApiTicketResponse } from "@/lib/api-types"
+import type { HubConnectionLike } from "@/lib/hub-connection"
+import { InProcessHub } from "@/lib/in-process-hub"
+import { clearQueryCache, getQueryData, setQueryData } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { TicketHubMethods, ticketGroupName } from "@/lib/ticket-hub-events"
+
+const ticket = (overrides: Partial<ApiTicketResponse> = {}): ApiTicketResponse => ({
+  id: "T-1",
+  title: "چاپگر کار نمی‌کند",
+  description: "چاپگر طبقه دوم روشن نمی‌شود",
+  status: "New",
+  priority: "Medium",
+  categoryId: 1,
+  categoryName: "سخت‌افزار",
+  createdAt: "2026-01-01T08:00:00Z",
+  createdByUserId: "client-1",
+  createdByName: "مشتری",
+  createdByEmail: "client@example.com",
+  responseCount: 0,
+  attachmentCount: 0,
+  sla: { pausedMinutes: 0 },
+  reopenCount: 0,
+  ...overrides,
+})
+
+const message = (id: string): ApiTicketMessageDto => ({
+  id,
+  message: "در حال بررسی",
+  authorUserId: "tech-1",
+  authorName: "تکنسین",
+  authorEmail: "tech@example.com",
+  createdAt: "2026-01-01T09:00:00Z",
+  status: "InProgress",
+})
+
+const listKey = queryKeys.ticketList("all", { page: 1, pageSize: 20 })
+
+const page = (...items: ApiTicketResponse[]): ApiPagedResponse<ApiTicketResponse> => ({
+  items,
+  totalCount: items.length,
+  page: 1,
+  pageSize: 20,
+})
+
+describe("subscribeLiveTicketUpdates", () => {
+  let hub: InProcessHub
+  let connection: HubConnectionLike
+  let unsubscribe: () => void
+
+  beforeEach(async () => {
+    hub = new InProcessHub()
+    connection = hub.createConnection()
+    await connection.start()
+    unsubscribe = subscribeLiveTicketUpdates(connection, "tech-1")
+  })
+
+  afterEach(async () => {
+    unsubscribe()
+    await connection.stop()
+    clearQueryCache()
+  })
+
+  it("patches cached lists and the ticket page from ticket:updated", () => {
+    setQueryData(listKey, page(ticket(), ticket({ id: "T-2" })))
+    setQueryData(queryKeys.ticket("T-1"), ticket())
+
+    hub.send("ticket:updated", ticket({ status: "InProgress", title: "چاپگر طبقه دوم" }))
+
+    const list = getQueryData<ApiPagedResponse<ApiTicketResponse>>(listKey)
+    expect(list?.items[0]).toMatchObject({ status: "InProgress", title: "چاپگر طبقه دوم" })
+    expect(list?.items[1]).toMatchObject({ id: "T-2", status: "New" })
+    expect(getQueryData<ApiTicketResponse>(queryKeys.ticket("T-1"))?.status).toBe("InProgress")
+  })
+
+  it("records the technician from ticket:assigned", () => {
+    setQueryData(listKey, page(ticket()))
+
+    hub.send("ticket:assigned", { ticketId: "T-1", assignedToUserId: "tech-2", assignedToName: "تکنسین دوم" })
+
+    expect(getQueryData<ApiPagedResponse<ApiTicketResponse>>(listKey)?.items[0]).toMatchObject({
+      assignedToUserId: "tech-2",
+      assignedTechnicianName: "تکنسین دوم",
+    })
+  })
+
+  it("appends group messages to the thread once and updates the thread summary", async () => {
+    await connection.invoke(TicketHubMethods.joinTicketGroup, "T-1")
+    setQueryData(listKey, page(ticket()))
+    setQueryData<ApiTicketMessageDto[]>(queryKeys.ticketMessages("T-1"), [])
+
+    const event = { ticketId: "T-1", message: message("M-1"), responseCount: 1 }
+    hub.sendToGroup(ticketGroupName("T-1"), "ticket:messageAdded", event)
+    // The sender's own message can arrive after it was already added from the request's response
+    hub.sendToGroup(ticketGroupName("T-1"), "ticket:messageAdded", event)
+
+    expect(getQueryData<ApiTicketMessageDto[]>(queryKeys.ticketMessages("T-1"))?.map((item) => item.id)).toEqual([
+      "M-1",
+    ])
+    expect(getQueryData<ApiPagedResponse<ApiTicketResponse>>(listKey)?.items[0]).toMatchObject({
+      status: "InProgress",
+      lastResponseBy: "تکنسین",
+      responseCount: 1,
+    })
+  })
+
+  it("ignores messages of tickets the connection has not joined", () => {
+    setQueryData<ApiTicketMessageDto[]>(queryKeys.ticketMessages("T-1"), [])
+
+    hub.sendToGroup(ticketGroupName("T-1"), "ticket:messageAdded", { ticketId: "T-1", message: message("M-1") })
+
+    expect(getQueryData<ApiTicketMessageDto[]>(queryKeys.ticketMessages("T-1"))).toEqual([])
+  })
+
+  it("stops patching the cache once unsubscribed", () => {
+    setQueryData(queryKeys.ticket("T-1"), ticket())
+    unsubscribe()
+
+    hub.send("ticket:updated", ticket({ status: "Resolved" }))
+
+    expect(getQueryData<ApiTicketResponse>(queryKeys.ticket("T-1"))?.status).toBe("New")
+  })
+})
@@ -0,0 +1,155 @@
+"use client"
+
+import * as React from "react"
+
+import { patchCachedTicket } from "@/hooks/use-tickets"
+import type { ApiTicketMessageDto } from "@/lib/api-types"
+import { useAuth } from "@/lib/auth-context"
+import {
+  SIGNALR_HUB_URL,
+  acquireHub,
+  getHubStatus,
+  joinTicketGroup,
+  subscribeHubStatus,
+  type HubConnectionLike,
+  type HubStatus,
+} from "@/lib/hub-connection"
+import { invalidateQueries, updateQueries } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import type { TicketHubEventName, TicketHubEvents } from "@/lib/ticket-hub-events"
+
+const noopSubscribe = () => () => {}
+
+/**
+ * Connection to the notification hub, shared by every component that uses it.
+ * Connects once signed in, reconnects with backoff and disconnects on sign-out.
+ */
+export function useSignalR(url: string = SIGNALR_HUB_URL, { enabled = true }: { enabled?: boolean } = {}) {
+  const { token, user } = useAuth()
+  const [connection, setConnection] = React.useState<HubConnectionLike | null>(null)
+  const userId = token ? (user?.id ?? null) : null
+  const active = enabled && !!userId
+
+  // Keyed on the account, not the token: switching accounts opens a fresh, correctly authenticated
+  // connection, while a refreshed token is picked up by the connection's accessTokenFactory
+  React.useEffect(() => {
+    if (!active) return
+    const hub = acquireHub(url)
+    setConnection(hub.connection)
+    return () => {
+      setConnection(null)
+      hub.release()
+    }
+  }, [url, active, userId])
+
+  const subscribe = React.useMemo(
+    () => (connection ? (listener: () => void) => subscribeHubStatus(url, listener) : noopSubscribe),
+    [url, connection],
+  )
+  const getSnapshot = React.useCallback<() => HubStatus>(
+    () => (connection ? getHubStatus(url) : "disconnected"),
+    [url, connection],
+  )
+  const status = React.useSyncExternalStore(subscribe, getSnapshot, () => "disconnected" as HubStatus)
+
+  const invoke = React.useCallback(
+    <T = unknown>(methodName: string, ...args: unknown[]): Promise<T> =>
+      connection ? connection.invoke<T>(methodName, ...args) : Promise.reject(new Error("Hub is not connected")),
+    [connection],
+  )
+
+  /** Listen for a server event; returns the function that stops listening */
+  const on = React.useCallback(
+    <E extends TicketHubEventName>(event: E, handler: (payload: TicketHubEvents[E]) => void): (() => void) => {
+      if (!connection) return () => {}
+      connection.on(event, handler)
+      return () => connection.off(event, handler)
+    },
+    [connection],
+  )
+
+  const joinTicket = React.useCallback(
+    (ticketId: string) => (connection ? joinTicketGroup(ticketId, url) : () => {}),
+    [url, connection],
+  )
+
+  return { connection, status, connected: status === "connected", invoke, on, joinTicket }
+}
+
+/**
+ * Receive a ticket's group events (new messages, work sessions) while mounted
+ */
+export function useTicketGroup(ticketId: string | null | undefined) {
+  const signalR = useSignalR()
+  const { joinTicket } = signalR
+
+  React.useEffect(() => {
+    if (!ticketId) return
+    return joinTicket(ticketId)
+  }, [ticketId, joinTicket])
+
+  return signalR
+}
+
+/**
+ * Apply a connection's ticket events to the query cache so ticket lists, the calendar and the
+ * ticket page follow changes made elsewhere. Returns the function that stops listening.
+ */
+export function subscribeLiveTicketUpdates(connection: HubConnectionLike, userId?: string | null): () => void {
+  const on = <E extends TicketHubEventName>(event: E, handler: (payload: TicketHubEvents[E]) => void) => {
+    connection.on(event, handler)
+    return () => connection.off(event, handler)
+  }
+
+  const unsubscribers = [
+    on("ticket:created", () => {
+      void invalidateQueries(queryKeys.tickets)
+      void invalidateQueries(queryKeys.ticketCalendar)
+    }),
+    on("ticket:updated", (ticket) => {
+      patchCachedTicket(ticket.id, (current) => ({ ...current, ...ticket }))
+      void invalidateQueries(queryKeys.ticketCalendar)
+    }),
+    on("ticket:assigned", (event) => {
+      patchCachedTicket(event.ticketId, (ticket) => ({
+        ...ticket,
+        assignedToUserId: event.assignedToUserId,
+        assignedToName: event.assignedToName ?? null,
+        assignedTechnicianName: event.assignedToName ?? null,
+      }))
+      // A technician's queue only lists their own tickets, so a new assignment has to be fetched
+      if (event.assignedToUserId === userId) {
+        void invalidateQueries(queryKeys.tickets)
+      }
+      void invalidateQueries(queryKeys.ticketCalendar)
+    }),
+    on("ticket:messageAdded", ({ ticketId, message, responseCount }) => {
+      updateQueries<ApiTicketMessageDto[]>(queryKeys.ticketMessages(ticketId), (thread) =>
+        thread.some((item) => item.id === message.id) ? thread : [...thread, message],
+      )
+      patchCachedTicket(ticketId, (ticket) => ({
+        ...ticket,
+        status: message.status ?? ticket.status,
+        lastResponseBy: message.authorName,
+        lastResponseAt: message.createdAt,
+        responseCount: responseCount ?? ticket.responseCount,
+      }))
+    }),
+  ]
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+}
+
+/**
+ * Keep the query cache in step with hub events while mounted. Mount once per page.
+ */
+export function useLiveTicketUpdates() {
+  const { user } = useAuth()
+  const { connection } = useSignalR()
+  const userId = user?.id
+
+  React.useEffect(() => {
+    if (!connection) return
+    return subscribeLiveTicketUpdates(connection, userId)
+  }, [connection, userId])
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { useMemo, useSyncExternalStore } from "react"
+import { useQuery } from "@/hooks/use-query"
+import { usePublicSettings } from "@/hooks/use-system-settings"
+import { useAuth } from "@/lib/auth-context"
+import { queryKeys } from "@/lib/query-keys"
+import { DEFAULT_SLA_TIMEZONE, evaluateTicketSla, type SlaTicket, type TicketSla } from "@/lib/sla"
+import { getSlaSettings } from "@/lib/sla-api"
+
+const SLA_SETTINGS_STALE_TIME_MS = 5 * 60_000
+const SLA_TICK_MS = 30_000
+
+/* One timer for every countdown on the page */
+let now = Date.now()
+let timer: ReturnType<typeof setInterval> | null = null
+const clockListeners = new Set<() => void>()
+
+const subscribeClock = (listener: () => void) => {
+  clockListeners.add(listener)
+  if (!timer) {
+    now = Date.now()
+    timer = setInterval(() => {
+      now = Date.now()
+      clockListeners.forEach((notify) => notify())
+    }, SLA_TICK_MS)
+  }
+  return () => {
+    clockListeners.delete(listener)
+    if (clockListeners.size === 0 && timer) {
+      clearInterval(timer)
+      timer = null
+    }
+  }
+}
+
+const getNow = () => now
+
+/**
+ * SLA policies, business calendar and the timezone they are counted in
+ */
+export function useSlaSettings() {
+  const { token } = useAuth()
+  const result = useQuery(token ? queryKeys.slaSettings : null, () => getSlaSettings(token), {
+    staleTime: SLA_SETTINGS_STALE_TIME_MS,
+  })
+  const { settings: publicSettings } = usePublicSettings()
+
+  return {
+    settings: result.data ?? null,
+    timezone: publicSettings?.timezone || DEFAULT_SLA_TIMEZONE,
+    isLoading: result.isLoading,
+    error: result.error,
+    refresh: result.refetch,
+  }
+}
+
+/**
+ * A ticket's SLA clocks, re-evaluated as time passes; null while the policies load or when none applies
+ */
+export function useTicketSla(ticket: SlaTicket | null): TicketSla | null {
+  const { settings, timezone } = useSlaSettings()
+  const current = useSyncExternalStore(subscribeClock, getNow, getNow)
+
+  return useMemo(
+    () => (ticket && settings ? evaluateTicketSla(ticket, settings, timezone, current) : null),
+    [ticket, settings, timezone, current]
+  )
+}
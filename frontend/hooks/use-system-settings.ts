@@ -0,0 +1,40 @@
+"use client"
+
+import { useQuery } from "@/hooks/use-query"
+import { useAuth } from "@/lib/auth-context"
+import { queryKeys } from "@/lib/query-keys"
+import { getPublicSettings, getSystemSettings } from "@/lib/settings-api"
+
+const SETTINGS_STALE_TIME_MS = 5 * 60_000
+
+/**
+ * System settings from the shared cache; settings rarely change, so they stay fresh for a few minutes
+ */
+export function useSystemSettings({ enabled = true }: { enabled?: boolean } = {}) {
+  const { token } = useAuth()
+  const result = useQuery(token ? queryKeys.systemSettings : null, () => getSystemSettings(token), {
+    staleTime: SETTINGS_STALE_TIME_MS,
+    enabled,
+  })
+
+  return {
+    settings: result.data ?? null,
+    isLoading: result.isLoading,
+    error: result.error,
+    refresh: result.refetch,
+  }
+}
+
+/**
+ * Settings every user may read (upload limits, session timeout, password rules); works before sign-in
+ */
+export function usePublicSettings() {
+  const result = useQuery(queryKeys.publicSettings, getPublicSettings, { staleTime: SETTINGS_STALE_TIME_MS })
+
+  return {
+    settings: result.data ?? null,
+    isLoading: result.isLoading,
+    error: result.error,
+    refresh: result.refetch,
+  }
+}
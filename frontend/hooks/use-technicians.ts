@@ -0,0 +1,70 @@
+"use client"
+
+import * as React from "react"
+
+import { useQuery } from "@/hooks/use-query"
+import { useCan } from "@/hooks/use-permissions"
+import { useTicketSummary } from "@/hooks/use-ticket-query"
+import type { ApiTicketSummaryQuery } from "@/lib/api-types"
+import { useAuth } from "@/lib/auth-context"
+import { queryKeys } from "@/lib/query-keys"
+import { getAllTechnicians } from "@/lib/technicians-api"
+import { technicianRating, type TechnicianProfile } from "@/data/technician-profiles"
+
+const BUSY_THRESHOLD = 5
+
+// The tickets that still take a technician's time
+const ACTIVE_TICKETS: ApiTicketSummaryQuery = { status: ["New", "InProgress", "WaitingForClient"] }
+
+/**
+ * Technician accounts (for assigning and managing them; other users get an empty list without a request)
+ */
+export function useTechnicians() {
+  const { user, token } = useAuth()
+  const can = useCan()
+  const allowed = can("tickets.assign") || can("technicians.manage")
+  const result = useQuery(token && user && allowed ? queryKeys.technicians : null, () =>
+    getAllTechnicians(token),
+  )
+
+  return {
+    technicians: result.data ?? [],
+    isLoading: result.isLoading,
+    error: result.error,
+    refresh: result.refetch,
+  }
+}
+
+/**
+ * Active technicians with their current load, counted by the server
+ */
+export function useTechnicianProfiles(): TechnicianProfile[] {
+  const can = useCan()
+  const { technicians } = useTechnicians()
+  const { assignedCount } = useTicketSummary(ACTIVE_TICKETS, {
+    enabled: can("tickets.assign") || can("technicians.manage"),
+  })
+
+  return React.useMemo(
+    () =>
+      technicians
+        .filter((tech) => tech.isActive)
+        .map((tech): TechnicianProfile => {
+          const activeTickets = assignedCount(tech.id)
+
+          return {
+            id: tech.id,
+            name: tech.fullName,
+            email: tech.email,
+            department: tech.department || "",
+            status: activeTickets >= BUSY_THRESHOLD ? "busy" : "available",
+            specialties: [],
+            ...technicianRating(tech.satisfaction),
+            activeTickets,
+            completedTickets: 0,
+            avgResponseTime: "0",
+          }
+        }),
+    [technicians, assignedCount],
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import * as React from "react"
+
+import { useQuery } from "@/hooks/use-query"
+import type { ApiTicketMessageDto } from "@/lib/api-types"
+import { useAuth } from "@/lib/auth-context"
+import { OFFLINE_TICKET_ID_PREFIX } from "@/lib/offline-outbox"
+import { getQueryData } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import { mapApiMessageToResponse } from "@/lib/ticket-mappers"
+import { getTicketMessages } from "@/lib/tickets-api"
+import type { TicketResponse } from "@/types"
+
+/**
+ * Lazily loads the message thread of a ticket through the query cache.
+ * When `expectedCount` (the list summary's response count) differs from the cached thread, it is refetched.
+ */
+export function useTicketMessages(ticketId: string | null | undefined, expectedCount?: number) {
+  const { token } = useAuth()
+  // Nothing to fetch for a ticket created offline; its thread is whatever was queued for it
+  const result = useQuery(token && ticketId ? queryKeys.ticketMessages(ticketId) : null, () =>
+    ticketId!.startsWith(OFFLINE_TICKET_ID_PREFIX)
+      ? Promise.resolve(getQueryData<ApiTicketMessageDto[]>(queryKeys.ticketMessages(ticketId!)) ?? [])
+      : getTicketMessages(token, ticketId!),
+  )
+  const { data: messages, isFetching, refetch } = result
+
+  // Only one catch-up fetch per ticket and count, in case the server's summary and thread disagree
+  const checkedRef = React.useRef<string | null>(null)
+  React.useEffect(() => {
+    if (!ticketId || !messages || isFetching || typeof expectedCount !== "number") return
+    const checkKey = `${ticketId}:${expectedCount}`
+    if (messages.length === expectedCount || checkedRef.current === checkKey) return
+    checkedRef.current = checkKey
+    void refetch()
+  }, [ticketId, messages, isFetching, expectedCount, refetch])
+
+  const responses = React.useMemo<TicketResponse[]>(() => (messages ?? []).map(mapApiMessageToResponse), [messages])
+
+  return {
+    responses,
+    isLoading: result.isLoading,
+    error: result.error,
+    refresh: refetch,
+  }
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import * as React from "react"
+
+import { useQuery } from "@/hooks/use-query"
+import { useAuth } from "@/lib/auth-context"
+import { queryKeys } from "@/lib/query-keys"
+import type { ApiTicketSummaryQuery } from "@/lib/api-types"
+import {
+  DEFAULT_TICKET_PAGE_SIZE,
+  getTechnicianTicketSummary,
+  getTicketSummary,
+  queryTechnicianTickets,
+  queryTickets,
+} from "@/lib/tickets-api"
+import {
+  mapApiTicketToUi,
+  mapTicketFiltersToQuery,
+  mapUiStatusToApi,
+  type TicketListFilters,
+} from "@/lib/ticket-mappers"
+import { useCategories } from "@/services/useCategories"
+import type { Ticket, TicketStatus } from "@/types"
+
+const SEARCH_DEBOUNCE_MS = 300
+
+interface UseTicketQueryOptions {
+  /** "technician" reads from the technician's own queue instead of the general list */
+  scope?: "all" | "technician"
+  pageSize?: number
+  enabled?: boolean
+}
+
+/**
+ * Loads one page of tickets with filtering and sorting done by the backend.
+ * Changing the filters returns to the first page; the search term is debounced.
+ * Pages are cached, and a ticket mutation anywhere refreshes the page on screen.
+ */
+export function useTicketQuery(filters: TicketListFilters, options: UseTicketQueryOptions = {}) {
+  const { scope = "all", pageSize = DEFAULT_TICKET_PAGE_SIZE, enabled = true } = options
+  const { token } = useAuth()
+  const { categories } = useCategories()
+
+  const [search, setSearch] = React.useState(filters.search ?? "")
+
+  React.useEffect(() => {
+    const handle = window.setTimeout(() => setSearch(filters.search ?? ""), SEARCH_DEBOUNCE_MS)
+    return () => window.clearTimeout(handle)
+  }, [filters.search])
+
+  const filterKey = JSON.stringify({ ...filters, search })
+
+  // The page is remembered per filter combination, so any filter change lands back on page 1
+  const [pageState, setPageState] = React.useState({ key: filterKey, page: 1 })
+  const page = pageState.key === filterKey ? pageState.page : 1
+  const setPage = React.useCallback(
+    (next: number) => setPageState({ key: filterKey, page: Math.max(1, next) }),
+    [filterKey],
+  )
+
+  const query = mapTicketFiltersToQuery({ ...filters, search }, page, pageSize)
+  const result = useQuery(
+    enabled && token ? queryKeys.ticketList(scope, query) : null,
+    () => (scope === "technician" ? queryTechnicianTickets : queryTickets)(token, query),
+    { keepPreviousData: true },
+  )
+
+  const tickets = React.useMemo<Ticket[]>(
+    () => (result.data?.items ?? []).map((ticket) => mapApiTicketToUi(ticket, categories)),
+    [result.data, categories],
+  )
+  const totalCount = result.data?.totalCount ?? 0
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize))
+
+  React.useEffect(() => {
+    if (result.data && page > pageCount) {
+      setPage(pageCount)
+    }
+  }, [result.data, page, pageCount, setPage])
+
+  return {
+    tickets,
+    totalCount,
+    page,
+    pageSize,
+    pageCount,
+    setPage,
+    isLoading: result.isLoading,
+    isFetching: result.isFetching,
+    error: result.error,
+    refresh: result.refetch,
+  }
+}
+
+interface UseTicketSummaryOptions {
+  /** "technician" counts the technician's own queue instead of the general list */
+  scope?: "all" | "technician"
+  enabled?: boolean
+}
+
+/**
+ * Ticket counts for the given filters, computed by the backend so badges and dashboard cards
+ * never download the tickets. Refreshed along with the lists whenever a ticket changes.
+ */
+export function useTicketSummary(query: ApiTicketSummaryQuery = {}, options: UseTicketSummaryOptions = {}) {
+  const { scope = "all", enabled = true } = options
+  const { token } = useAuth()
+
+  const result = useQuery(
+    enabled && token ? queryKeys.ticketSummary(scope, query) : null,
+    () => (scope === "technician" ? getTechnicianTicketSummary : getTicketSummary)(token, query),
+    { keepPreviousData: true },
+  )
+  const summary = result.data
+
+  /** Tickets in any of the given statuses; every ticket without any */
+  const count = React.useCallback(
+    (...statuses: TicketStatus[]) => {
+      if (!summary) return 0
+      if (statuses.length === 0) return summary.totalCount
+      const apiStatuses = statuses.map(mapUiStatusToApi)
+      return summary.byStatus
+        .filter((entry) => apiStatuses.includes(entry.status))
+        .reduce((total, entry) => total + entry.count, 0)
+    },
+    [summary],
+  )
+
+  /** Tickets assigned to the given user */
+  const assignedCount = React.useCallback(
+    (userId: string) => summary?.byAssignee.find((entry) => entry.userId === userId)?.count ?? 0,
+    [summary],
+  )
+
+  return {
+    summary: summary ?? null,
+    count,
+    assignedCount,
+    isLoading: result.isLoading,
+    error: result.error,
+    refresh: result.refetch,
+  }
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { useMemo } from "react"
+import { useQuery } from "@/hooks/use-query"
+import { useAuth } from "@/lib/auth-context"
+import { queryKeys } from "@/lib/query-keys"
+import { DEFAULT_TICKET_WORKFLOW, statusOptions, workflowFromApi } from "@/lib/ticket-workflow"
+import { getTicketWorkflow } from "@/lib/workflow-api"
+import type { TicketStatus } from "@/types"
+
+const WORKFLOW_STALE_TIME_MS = 5 * 60_000
+
+/**
+ * The ticket workflow from the server; the built-in one applies until it loads, or when it can't
+ */
+export function useTicketWorkflow() {
+  const { token } = useAuth()
+  const result = useQuery(token ? queryKeys.ticketWorkflow : null, () => getTicketWorkflow(token), {
+    staleTime: WORKFLOW_STALE_TIME_MS,
+  })
+  const workflow = useMemo(() => (result.data ? workflowFromApi(result.data) : DEFAULT_TICKET_WORKFLOW), [result.data])
+
+  return {
+    workflow,
+    /** False while the built-in workflow stands in for the server's */
+    isLoaded: !!result.data,
+    isLoading: result.isLoading,
+    error: result.error,
+    refresh: result.refetch,
+  }
+}
+
+/**
+ * Statuses the signed-in user may pick for a ticket currently in `status`, the current one first
+ */
+export function useStatusOptions(status: TicketStatus | null | undefined): TicketStatus[] {
+  const { user } = useAuth()
+  const { workflow } = useTicketWorkflow()
+  return useMemo(
+    () => (status && user ? statusOptions(workflow, status, user.role) : status ? [status] : []),
+    [workflow, status, user]
+  )
+}
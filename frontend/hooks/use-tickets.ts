@@ -0,0 +1,553 @@
+"use client"
+
+import * as React from "react"
+
+import { uploadPendingAttachments } from "@/hooks/use-attachments"
+import { useQuery } from "@/hooks/use-query"
+import { useTicketWorkflow } from "@/hooks/use-ticket-workflow"
+import { toast } from "@/hooks/use-toast"
+import { ApiNetworkError, ApiNotFoundError, getApiErrorMessage } from "@/lib/api-errors"
+import type {
+  ApiPagedResponse,
+  ApiSimilarTicketDto,
+  ApiSimilarTicketsQuery,
+  ApiTechnicianResponse,
+  ApiTicketCreateRequest,
+  ApiTicketMessageDto,
+  ApiTicketResponse,
+  ApiTicketUpdateRequest,
+} from "@/lib/api-types"
+import { useAuth } from "@/lib/auth-context"
+import {
+  OFFLINE_TICKET_ID_PREFIX,
+  enqueueOutbox,
+  isOffline,
+  type OutboxHandlers,
+  type OutboxOperation,
+} from "@/lib/offline-outbox"
+import {
+  fetchQuery,
+  getQueriesData,
+  getQueryData,
+  invalidateQueries,
+  runOptimisticMutation,
+  setQueryData,
+  updateQueries,
+} from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
+import {
+  addTicketMessage,
+  assignTechnician,
+  createTicket as createTicketRequest,
+  getSimilarTickets,
+  getTicket,
+  mergeTickets as mergeTicketsRequest,
+  updateTicket as updateTicketRequest,
+} from "@/lib/tickets-api"
+import { mapApiStatusToUi, mapApiTicketToUi, mapUiPriorityToApi, mapUiStatusToApi } from "@/lib/ticket-mappers"
+import { TicketTransitionError, assertTransition, type TicketWorkflow } from "@/lib/ticket-workflow"
+import { categoryService } from "@/services/CategoryService"
+import { useCategories } from "@/services/useCategories"
+import type { Ticket, TicketDraft, TicketStatus, UserRole } from "@/types"
+
+type CachedTicketList = ApiPagedResponse<ApiTicketResponse>
+
+/**
+ * Apply the same edit to every cached copy of a ticket: list pages and the detail
+ */
+export const patchCachedTicket = (ticketId: string, update: (ticket: ApiTicketResponse) => ApiTicketResponse) => {
+  const apply = (ticket: ApiTicketResponse) => (ticket.id === ticketId ? update(ticket) : ticket)
+  updateQueries<CachedTicketList>(queryKeys.ticketLists, (data) => ({ ...data, items: data.items.map(apply) }))
+  updateQueries<ApiTicketResponse>(queryKeys.ticket(ticketId), apply)
+}
+
+const ticketQueries = (ticketId: string) => [queryKeys.tickets, queryKeys.ticket(ticketId)]
+
+const findCachedTicket = (ticketId: string): ApiTicketResponse | undefined => {
+  const detail = getQueryData<ApiTicketResponse>(queryKeys.ticket(ticketId))
+  if (detail) return detail
+  for (const [, page] of getQueriesData<CachedTicketList>(queryKeys.ticketLists)) {
+    const ticket = page.items.find((item) => item.id === ticketId)
+    if (ticket) return ticket
+  }
+  return undefined
+}
+
+const readQueuedTicket = (ticketId: string) => {
+  const ticket = findCachedTicket(ticketId)
+  return ticket ? Promise.resolve(ticket) : Promise.reject(new ApiNotFoundError("Ticket not found"))
+}
+
+/**
+ * The ticket a status change starts from: the cached copy, or the server's. Without either the
+ * change is refused, since nothing else checks it against the workflow.
+ */
+const loadTransitionSource = async (token: string, ticketId: string): Promise<ApiTicketResponse> => {
+  const cached = findCachedTicket(ticketId)
+  if (cached) return cached
+  try {
+    const ticket = await getTicket(token, ticketId)
+    setQueryData(queryKeys.ticket(ticketId), ticket)
+    return ticket
+  } catch (error) {
+    if (error instanceof ApiNetworkError) {
+      throw new TicketTransitionError("وضعیت فعلی تیکت در دسترس نیست؛ پس از اتصال دوباره تلاش کنید")
+    }
+    throw error
+  }
+}
+
+/**
+ * Throws a TicketTransitionError when the workflow doesn't let the user make this status change
+ */
+const checkTransition = async (
+  token: string,
+  workflow: TicketWorkflow,
+  role: UserRole,
+  ticketId: string,
+  to: TicketStatus,
+  { note, assignedTo }: { note?: string; assignedTo?: string | null } = {},
+) => {
+  const ticket = await loadTransitionSource(token, ticketId)
+  assertTransition(workflow, {
+    from: mapApiStatusToUi(ticket.status),
+    to,
+    role,
+    note,
+    assigned: !!(assignedTo || ticket.assignedToUserId),
+  })
+}
+
+/** The version a queued change is made against, for conflict detection when it replays */
+const baseVersion = (ticketId: string) =>
+  ticketId.startsWith(OFFLINE_TICKET_ID_PREFIX) ? undefined : (findCachedTicket(ticketId)?.updatedAt ?? null)
+
+/**
+ * Send a write, or queue it in the outbox when the server can't be reached.
+ * Resolves to undefined when queued. Only requests that never left the browser are queued;
+ * a timeout may have reached the server and is reported instead of risking a duplicate.
+ */
+async function sendOrQueue<T>(userId: string, send: () => Promise<T>, operation: OutboxOperation): Promise<T | undefined> {
+  const queuedTicket = operation.kind !== "createTicket" && operation.ticketId.startsWith(OFFLINE_TICKET_ID_PREFIX)
+  if (!queuedTicket && !isOffline()) {
+    try {
+      return await send()
+    } catch (error) {
+      if (!(error instanceof ApiNetworkError)) throw error
+    }
+  }
+  await enqueueOutbox(userId, operation)
+  return undefined
+}
+
+const replaceMessage = (ticketId: string, pendingId: string, created: ApiTicketMessageDto) => {
+  // The hub may have delivered the new message before the request returned
+  updateQueries<ApiTicketMessageDto[]>(queryKeys.ticketMessages(ticketId), (thread) =>
+    thread.some((item) => item.id === created.id)
+      ? thread.filter((item) => item.id !== pendingId)
+      : thread.map((item) => (item.id === pendingId ? created : item)),
+  )
+}
+
+/**
+ * Replay of changes queued by useTicketMutations while offline
+ */
+export const ticketOutboxHandlers: OutboxHandlers = {
+  createTicket: async ({ tempId, request, files }, token) => {
+    const created = await createTicketRequest(token, request)
+    patchCachedTicket(tempId, () => created)
+    setQueryData(queryKeys.ticket(created.id), created)
+    void invalidateQueries(queryKeys.tickets)
+    if (files.length > 0) {
+      await uploadPendingAttachments(token, created.id, files)
+    }
+    return { ticketId: created.id, updatedAt: created.updatedAt ?? null }
+  },
+  reply: async ({ ticketId, pendingMessageId, request }, token) => {
+    const created = await addTicketMessage(token, ticketId, request)
+    replaceMessage(ticketId, pendingMessageId, created)
+    void invalidateQueries(queryKeys.ticket(ticketId))
+    return { ticketId }
+  },
+  updateTicket: async ({ ticketId, request }, token) => {
+    const updated = await updateTicketRequest(token, ticketId, request)
+    patchCachedTicket(ticketId, (ticket) => ({ ...ticket, ...updated }))
+    return { ticketId, updatedAt: updated.updatedAt ?? null }
+  },
+}
+
+const queuedToast = (description: string) =>
+  toast({ title: "در صف ارسال", description: `${description} پس از برقراری اتصال ارسال می‌شود.` })
+
+/**
+ * A single ticket, shared with the list caches so edits show up in both places
+ */
+export function useTicket(ticketId: string | null | undefined) {
+  const { token } = useAuth()
+  const { categories } = useCategories()
+
+  // A ticket created offline only exists in the cache until its creation replays
+  const result = useQuery(token && ticketId ? queryKeys.ticket(ticketId) : null, () =>
+    ticketId!.startsWith(OFFLINE_TICKET_ID_PREFIX)
+      ? readQueuedTicket(ticketId!)
+      : getTicket(token, ticketId!),
+  )
+
+  const ticket = React.useMemo<Ticket | null>(
+    () => (result.data ? mapApiTicketToUi(result.data, categories) : null),
+    [result.data, categories],
+  )
+
+  return {
+    ticket,
+    isLoading: result.isLoading,
+    error: result.error,
+    refresh: result.refetch,
+  }
+}
+
+const SIMILAR_DEBOUNCE_MS = 400
+// Shorter titles match nearly everything
+const SIMILAR_MIN_TITLE_LENGTH = 3
+
+export type SimilarTicket = Omit<ApiSimilarTicketDto, "status"> & { status: TicketStatus }
+
+interface SimilarTicketsDraft {
+  categoryId?: number | null
+  title?: string | null
+  description?: string | null
+}
+
+/**
+ * Open tickets of the draft's category that read like it, compared on the server across every
+ * client's tickets. The text is debounced so a request goes out once the writer pauses.
+ */
+export function useSimilarTickets(
+  draft: SimilarTicketsDraft,
+  options: Pick<ApiSimilarTicketsQuery, "excludeId" | "minScore" | "limit"> & { enabled?: boolean } = {},
+) {
+  const { token } = useAuth()
+  const { excludeId, minScore, limit, enabled = true } = options
+  const [text, setText] = React.useState({ title: draft.title ?? "", description: draft.description ?? "" })
+
+  React.useEffect(() => {
+    const handle = window.setTimeout(
+      () => setText({ title: draft.title ?? "", description: draft.description ?? "" }),
+      SIMILAR_DEBOUNCE_MS,
+    )
+    return () => window.clearTimeout(handle)
+  }, [draft.title, draft.description])
+
+  const title = text.title.trim()
+  const description = text.description.trim()
+  const query: ApiSimilarTicketsQuery | null =
+    enabled && typeof draft.categoryId === "number" && title.length >= SIMILAR_MIN_TITLE_LENGTH
+      ? {
+          categoryId: draft.categoryId,
+          title,
+          ...(description ? { description } : {}),
+          ...(excludeId ? { excludeId } : {}),
+          ...(typeof minScore === "number" ? { minScore } : {}),
+          ...(typeof limit === "number" ? { limit } : {}),
+        }
+      : null
+
+  const result = useQuery(
+    token && query ? queryKeys.similarTickets(query) : null,
+    () => getSimilarTickets(token, query!),
+    { keepPreviousData: true, silent: true },
+  )
+
+  // Clearing the title or category hides what the last draft matched
+  const active = query !== null
+  const tickets = React.useMemo<SimilarTicket[]>(
+    () => (active ? (result.data ?? []) : []).map((ticket) => ({ ...ticket, status: mapApiStatusToUi(ticket.status) })),
+    [result.data, active],
+  )
+
+  return {
+    tickets,
+    isLoading: result.isLoading,
+    error: result.error,
+  }
+}
+
+/**
+ * Ticket writes. Status, priority, assignment and replies are applied to the cache first
+ * and rolled back if the server rejects them; the affected queries revalidate afterwards.
+ */
+export function useTicketMutations() {
+  const { user, token } = useAuth()
+  const { categories, setCategories } = useCategories()
+  const { workflow } = useTicketWorkflow()
+
+  const resolveCategories = React.useCallback(async () => {
+    if (Object.values(categories).some((category) => typeof category.backendId !== "undefined")) {
+      return categories
+    }
+    try {
+      const fresh = await fetchQuery(queryKeys.categories, () => categoryService.list(), { force: true })
+      setCategories(fresh)
+      return fresh
+    } catch (error) {
+      console.error("Failed to hydrate categories from backend", error)
+      return categories
+    }
+  }, [categories, setCategories])
+
+  /**
+   * Create a ticket from the form draft, then upload the files picked for it.
+   * Offline, the ticket is queued and listed with a temporary id until it replays.
+   * Throws so the form can report the failure.
+   */
+  const createTicket = React.useCallback(
+    async (draft: TicketDraft, files: File[] = []) => {
+      if (!token || !user) return
+
+      const catMap = await resolveCategories()
+      const category = catMap[draft.category]
+      if (!category || typeof category.backendId === "undefined") {
+        console.warn("Missing category mapping for", draft.category, category)
+        toast({
+          title: "دسته‌بندی نامعتبر است",
+          description: "دسته‌بندی‌ها هنوز از سرور بارگذاری نشده‌اند. چند لحظه بعد دوباره تلاش کنید.",
+          variant: "destructive",
+        })
+        return
+      }
+
+      const subIssue = draft.subcategory ? category.subIssues[draft.subcategory] : undefined
+      const request: ApiTicketCreateRequest = {
+        title: draft.title,
+        description: draft.description,
+        categoryId: category.backendId,
+        subcategoryId: subIssue?.backendId,
+        priority: mapUiPriorityToApi(draft.priority),
+      }
+      const tempId = `${OFFLINE_TICKET_ID_PREFIX}${crypto.randomUUID()}`
+
+      const created = await sendOrQueue(user.id, () => createTicketRequest(token, request), {
+        kind: "createTicket",
+        tempId,
+        request,
+        files,
+      })
+      if (!created) {
+        const placeholder: ApiTicketResponse = {
+          ...request,
+          id: tempId,
+          categoryName: category.label,
+          subcategoryName: subIssue?.label ?? null,
+          status: "New",
+          createdAt: new Date().toISOString(),
+          createdByUserId: user.id,
+          createdByName: user.name,
+          createdByEmail: user.email,
+          updatedAt: null,
+          responseCount: 0,
+          attachmentCount: 0,
+          sla: { pausedMinutes: 0 },
+          reopenCount: 0,
+        }
+        setQueryData(queryKeys.ticket(tempId), placeholder)
+        // A technician's own queue only lists tickets assigned to them
+        updateQueries<CachedTicketList>(queryKeys.ticketLists, (data, key) =>
+          key.includes("technician")
+            ? data
+            : { ...data, items: [placeholder, ...data.items], totalCount: data.totalCount + 1 },
+        )
+        queuedToast("تیکت شما ذخیره شد و")
+        return
+      }
+
+      setQueryData(queryKeys.ticket(created.id), created)
+      void invalidateQueries(queryKeys.tickets)
+
+      if (files.length > 0) {
+        await uploadPendingAttachments(token, created.id, files)
+      }
+    },
+    [token, user, resolveCategories],
+  )
+
+  /**
+   * Change status, priority or the assigned technician. Failures are reported with a toast.
+   * Status and priority changes made offline are queued; assignment needs the server.
+   * A status change that needs a note goes through respondToTicket instead.
+   */
+  const updateTicket = React.useCallback(
+    async (ticketId: string, updates: Partial<Ticket>) => {
+      if (!token || !user) {
+        toast({
+          title: "خطا",
+          description: "لطفاً ابتدا وارد سیستم شوید",
+          variant: "destructive",
+        })
+        return
+      }
+
+      const payload: ApiTicketUpdateRequest = {}
+      if (updates.status) {
+        try {
+          await checkTransition(token, workflow, user.role, ticketId, updates.status, { assignedTo: updates.assignedTo })
+        } catch (error) {
+          toast({
+            title: "تغییر وضعیت مجاز نیست",
+            description: error instanceof TicketTransitionError ? error.message : getApiErrorMessage(error),
+            variant: "destructive",
+          })
+          return
+        }
+        payload.status = mapUiStatusToApi(updates.status)
+      }
+      if (updates.priority) {
+        payload.priority = mapUiPriorityToApi(updates.priority)
+      }
+      if (typeof updates.assignedTo !== "undefined" && !updates.assignedTo) {
+        payload.assignedToUserId = null
+      }
+
+      const technicianId = updates.assignedTo || null
+      if (!technicianId && Object.keys(payload).length === 0) {
+        return
+      }
+
+      const technician = technicianId
+        ? getQueryData<ApiTechnicianResponse[]>(queryKeys.technicians)?.find((tech) => tech.id === technicianId)
+        : undefined
+
+      const baseUpdatedAt = baseVersion(ticketId)
+      let queued = false
+
+      try {
+        await runOptimisticMutation({
+          affects: ticketQueries(ticketId),
+          apply: () =>
+            patchCachedTicket(ticketId, (ticket) => ({
+              ...ticket,
+              ...(payload.status ? { status: payload.status } : {}),
+              ...(payload.priority ? { priority: payload.priority } : {}),
+              ...(technicianId
+                ? {
+                    assignedToUserId: technicianId,
+                    assignedToName: technician?.fullName ?? ticket.assignedToName,
+                    assignedTechnicianName: technician?.fullName ?? ticket.assignedTechnicianName,
+                  }
+                : payload.assignedToUserId === null
+                  ? { assignedToUserId: null, assignedToName: null, assignedToEmail: null, assignedTechnicianName: null }
+                  : {}),
+            })),
+          mutate: async () => {
+            // Assignment has its own endpoint; any other change still goes through PATCH
+            if (technicianId) {
+              await assignTechnician(token, ticketId, technicianId)
+            }
+            if (Object.keys(payload).length > 0) {
+              const sent = await sendOrQueue(user.id, () => updateTicketRequest(token, ticketId, payload), {
+                kind: "updateTicket",
+                ticketId,
+                request: payload,
+                baseUpdatedAt,
+              })
+              queued = !sent
+            }
+          },
+        })
+
+        if (queued) {
+          queuedToast("تغییرات تیکت ذخیره شد و")
+          return
+        }
+        toast(
+          technicianId
+            ? { title: "تکنسین تعیین شد", description: `تیکت ${ticketId} با موفقیت به تکنسین واگذار شد` }
+            : { title: "تیکت به‌روزرسانی شد", description: "تغییرات با موفقیت اعمال شد" },
+        )
+      } catch (error) {
+        console.error("Failed to update ticket", error)
+        toast({
+          title: technicianId ? "تعیین تکنسین ناموفق بود" : "به‌روزرسانی تیکت ناموفق بود",
+          description: getApiErrorMessage(error),
+          variant: "destructive",
+        })
+      }
+    },
+    [token, user, workflow],
+  )
+
+  /**
+   * Post a reply, optionally changing the status. The message appears at once and is
+   * swapped for the server's copy, or stays pending in the outbox while offline.
+   * Throws so the reply dialog can stay open on failure, a TicketTransitionError when the
+   * workflow doesn't allow the status change.
+   */
+  const respondToTicket = React.useCallback(
+    async (ticketId: string, message: string, status: TicketStatus) => {
+      if (!token || !user) return
+      await checkTransition(token, workflow, user.role, ticketId, status, { note: message })
+
+      const apiStatus = mapUiStatusToApi(status)
+      const now = new Date().toISOString()
+      const pending: ApiTicketMessageDto = {
+        id: `pending-${Date.now()}`,
+        authorUserId: user.id,
+        authorName: user.name,
+        authorEmail: user.email,
+        message,
+        createdAt: now,
+        status: apiStatus,
+      }
+
+      const baseUpdatedAt = baseVersion(ticketId)
+      const created = await runOptimisticMutation({
+        affects: [...ticketQueries(ticketId), queryKeys.ticketMessages(ticketId)],
+        apply: () => {
+          updateQueries<ApiTicketMessageDto[]>(queryKeys.ticketMessages(ticketId), (thread) => [...thread, pending])
+          patchCachedTicket(ticketId, (ticket) => ({
+            ...ticket,
+            status: apiStatus,
+            lastResponseBy: user.name,
+            lastResponseAt: now,
+            responseCount: (ticket.responseCount ?? 0) + 1,
+          }))
+        },
+        mutate: () =>
+          sendOrQueue(user.id, () => addTicketMessage(token, ticketId, { message, status: apiStatus }), {
+            kind: "reply",
+            ticketId,
+            pendingMessageId: pending.id,
+            request: { message, status: apiStatus },
+            baseUpdatedAt,
+          }),
+        invalidate: ticketQueries(ticketId),
+      })
+
+      if (!created) {
+        return { queued: true }
+      }
+      replaceMessage(ticketId, pending.id, created)
+      return { queued: false }
+    },
+    [token, user, workflow],
+  )
+
+  /**
+   * Fold duplicates into a primary ticket. Needs the server, so it isn't queued offline;
+   * throws so the merge dialog can stay open on failure.
+   */
+  const mergeTickets = React.useCallback(
+    async (primaryId: string, ticketIds: string[]) => {
+      if (!token || !user) return []
+      const { primary, mergedTicketIds } = await mergeTicketsRequest(token, primaryId, { ticketIds })
+      setQueryData(queryKeys.ticket(primary.id), primary)
+      void invalidateQueries(queryKeys.tickets)
+      void invalidateQueries(queryKeys.ticketMessages(primary.id))
+      void invalidateQueries(queryKeys.ticketAttachments(primary.id))
+      mergedTicketIds.forEach((ticketId) => void invalidateQueries(queryKeys.ticket(ticketId)))
+      return mergedTicketIds
+    },
+    [token, user],
+  )
+
+  return { createTicket, updateTicket, respondToTicket, mergeTickets }
+}
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  apiRequest,
+  onApiUnauthorized,
+  registerApiInterceptor,
+  setApiTokenProvider,
+  type ApiRequestContext,
+} from "./api-client"
+import { ApiNotFoundError, ApiServerError, ApiTimeoutError } from "./api-errors"
+
+const backend = vi.fn<(url: string, init: RequestInit) => Promise<Response>>()
+const cleanups: (() => void)[] = []
+
+const reply = (status: number, body: unknown = {}) => Response.json(body, { status })
+
+// A backend that answers with the given statuses in turn, then keeps repeating the last one
+const answering = (...statuses: number[]) => {
+  backend.mockImplementation(async () => reply(statuses.length > 1 ? statuses.shift()! : statuses[0]))
+}
+
+beforeEach(() => {
+  backend.mockReset()
+  vi.stubGlobal("fetch", backend)
+  vi.spyOn(console, "debug").mockImplementation(() => undefined)
+  vi.spyOn(console, "error").mockImplementation(() => undefined)
+  setApiTokenProvider(null)
+})
+
+afterEach(() => {
+  cleanups.splice(0).forEach((cleanup) => cleanup())
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("interceptors", () => {
+  it("run in registration order, and a returned context replaces the request", async () => {
+    answering(200)
+    const onResponse = vi.fn()
+    cleanups.push(
+      registerApiInterceptor({
+        onRequest: (context) => {
+          context.headers["X-Request-Id"] = "r-1"
+        },
+      }),
+      registerApiInterceptor({
+        onRequest: (context) => ({ ...context, url: `${context.url}?trace=${context.headers["X-Request-Id"]}` }),
+        onResponse,
+      }),
+    )
+
+    await apiRequest("/api/tickets", { token: null })
+
+    const [url, init] = backend.mock.calls[0]
+    expect(url).toBe("http://localhost:5000/api/tickets?trace=r-1")
+    expect(init.headers).toMatchObject({ "X-Request-Id": "r-1" })
+    expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({ status: 200 }), expect.anything())
+  })
+
+  it("see the error that is about to be thrown, even when one of them fails", async () => {
+    answering(404)
+    const onError = vi.fn<(error: unknown, context: ApiRequestContext) => void>()
+    cleanups.push(
+      registerApiInterceptor({
+        onError: () => {
+          throw new Error("reporting failed")
+        },
+      }),
+      registerApiInterceptor({ onError }),
+    )
+
+    const ticketId = "T-1"
+    await expect(apiRequest(`/api/tickets/${ticketId}`, { token: null, silent: true })).rejects.toBeInstanceOf(
+      ApiNotFoundError,
+    )
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(ApiNotFoundError)
+    expect(onError.mock.calls[0][1]).toMatchObject({ method: "GET", path: "/api/tickets/T-1" })
+  })
+
+  it("stop running once removed", async () => {
+    answering(200)
+    const onRequest = vi.fn()
+    registerApiInterceptor({ onRequest })()
+
+    await apiRequest("/api/tickets", { token: null })
+
+    expect(onRequest).not.toHaveBeenCalled()
+  })
+})
+
+describe("retries", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    // No jitter: the waits are exactly 300ms, then 600ms
+    vi.spyOn(Math, "random").mockReturnValue(0)
+  })
+
+  it("back off exponentially between attempts of an idempotent request", async () => {
+    answering(503, 502, 200)
+    const request = apiRequest("/api/tickets", { token: null })
+
+    await vi.advanceTimersByTimeAsync(299)
+    expect(backend).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(backend).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(599)
+    expect(backend).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+
+    await expect(request).resolves.toEqual({})
+    expect(backend).toHaveBeenCalledTimes(3)
+  })
+
+  it("give up with the server's error once the retries are used", async () => {
+    answering(503)
+    const request = expect(apiRequest("/api/tickets", { token: null, retries: 1 })).rejects.toBeInstanceOf(
+      ApiServerError,
+    )
+
+    await vi.runAllTimersAsync()
+
+    await request
+    expect(backend).toHaveBeenCalledTimes(2)
+  })
+
+  it("retry a request that timed out", async () => {
+    backend.mockImplementationOnce(
+      (_url, init) =>
+        new Promise((_resolve, reject) =>
+          init.signal!.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError"))),
+        ),
+    )
+    backend.mockImplementation(async () => reply(200))
+    const request = apiRequest("/api/tickets", { token: null, timeoutMs: 1_000 })
+
+    await vi.advanceTimersByTimeAsync(1_000 + 300)
+
+    await expect(request).resolves.toEqual({})
+    expect(backend).toHaveBeenCalledTimes(2)
+  })
+
+  it("throw a timeout once a request without retries runs out of time", async () => {
+    backend.mockImplementation(
+      (_url, init) =>
+        new Promise((_resolve, reject) =>
+          init.signal!.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError"))),
+        ),
+    )
+    const request = expect(
+      apiRequest("/api/tickets", { token: null, timeoutMs: 1_000, retries: 0 }),
+    ).rejects.toBeInstanceOf(ApiTimeoutError)
+
+    await vi.advanceTimersByTimeAsync(1_000)
+
+    await request
+    expect(backend).toHaveBeenCalledTimes(1)
+  })
+
+  it.each(["POST", "PATCH"])("never happen for %s, which may not be safe to repeat", async (method) => {
+    answering(503, 200)
+
+    await expect(
+      apiRequest("/api/tickets", { method, token: null, body: {}, retries: 2, silent: true }),
+    ).rejects.toBeInstanceOf(ApiServerError)
+    expect(backend).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("onApiUnauthorized", () => {
+  it("fires once for a session whose token is rejected, and again for the next session", async () => {
+    answering(401)
+    const listener = vi.fn()
+    cleanups.push(onApiUnauthorized(listener))
+
+    setApiTokenProvider(() => "expired-token")
+    await expect(apiRequest("/api/auth/me", { silent: true })).rejects.toMatchObject({ kind: "unauthorized" })
+    await expect(apiRequest("/api/tickets", { silent: true })).rejects.toMatchObject({ kind: "unauthorized" })
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    setApiTokenProvider(() => "next-token")
+    await expect(apiRequest("/api/auth/me", { silent: true })).rejects.toMatchObject({ kind: "unauthorized" })
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+
+  it("doesn't fire for an anonymous request, such as a failed sign-in", async () => {
+    answering(401)
+    const listener = vi.fn()
+    cleanups.push(onApiUnauthorized(listener))
+
+    await expect(
+      apiRequest("/api/auth/login", { method: "POST", token: null, body: {}, silent: true }),
+    ).rejects.toMatchObject({ kind: "unauthorized" })
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
@@ -1,110 +1,460 @@
 // lib/api-client.ts
-const API_BASE_URL =
+import {
+  ApiCancelledError,
+  ApiError,
+  ApiNetworkError,
+  ApiTimeoutError,
+  createApiError,
+} from "./api-errors";
+import { CSRF_HEADER, CSRF_SAFE_METHODS, ensureCsrfToken, isSessionHandle, sessionMode } from "./cookie-session";
+
+/** The backend itself; the browser talks to it directly only in token mode */
+export const BACKEND_BASE_URL =
   process.env.NEXT_PUBLIC_API_BASE_URL?.replace(/\/+$/, "") || "http://localhost:5000";
 
-interface ApiRequestOptions {
+// In cookie mode every call goes to the same-origin proxy (app/api/[...path]), which adds the token
+const API_BASE_URL = sessionMode === "cookie" ? "" : BACKEND_BASE_URL;
+
+const DEFAULT_DOWNLOAD_TIMEOUT_MS = 60000;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([502, 503]);
+
+export interface ApiRequestOptions {
   method?: string;
+  /**
+   * Bearer token. Leave undefined to use the token registered by AuthProvider;
+   * pass null to send the request anonymously.
+   */
   token?: string | null;
   body?: unknown;
   silent?: boolean; // If true, suppress console.error on non-2xx responses (still throws error)
+  timeoutMs?: number;
+  /** Retries for idempotent verbs on 502/503/timeouts; ignored for POST and PATCH */
+  retries?: number;
 }
 
+/** Mutable description of an outgoing request, passed through the interceptor pipeline */
+export interface ApiRequestContext {
+  method: string;
+  path: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  timeoutMs: number;
+  attempt: number;
+  silent: boolean;
+  /** Authenticated by the session cookie rather than an Authorization header (cookie mode) */
+  cookieSession: boolean;
+}
+
+export interface ApiInterceptor {
+  /** Runs before every attempt; may modify the context in place or return a replacement */
+  onRequest?: (context: ApiRequestContext) => ApiRequestContext | void | Promise<ApiRequestContext | void>;
+  /** Runs for every response, successful or not, before the body is read */
+  onResponse?: (response: Response, context: ApiRequestContext) => void | Promise<void>;
+  /** Runs once for the error that is about to be thrown to the caller */
+  onError?: (error: ApiError, context: ApiRequestContext) => void | Promise<void>;
+}
+
+type TokenProvider = () => string | null;
+type UnauthorizedListener = () => void;
+
+const interceptors: ApiInterceptor[] = [];
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+let tokenProvider: TokenProvider | null = null;
+let unauthorizedEmitted = false;
+
+/**
+ * Add an interceptor to the pipeline. Interceptors run in registration order.
+ * Returns a function that removes it again.
+ */
+export function registerApiInterceptor(interceptor: ApiInterceptor): () => void {
+  interceptors.push(interceptor);
+  return () => {
+    const index = interceptors.indexOf(interceptor);
+    if (index !== -1) interceptors.splice(index, 1);
+  };
+}
+
+/**
+ * Let AuthProvider supply the current token so callers don't have to pass it
+ */
+export function setApiTokenProvider(provider: TokenProvider | null) {
+  tokenProvider = provider;
+  // A new session may fail authentication again and should be told about it
+  unauthorizedEmitted = false;
+}
+
+/**
+ * Listen for the first 401 of a session. Fired once until a new token provider is set.
+ */
+export function onApiUnauthorized(listener: UnauthorizedListener): () => void {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+const emitUnauthorized = () => {
+  if (unauthorizedEmitted) return;
+  unauthorizedEmitted = true;
+  unauthorizedListeners.forEach((listener) => listener());
+};
+
+/* ---------- debug logging ---------- */
+
+const REDACTED_KEYS = /pass(word)?|token|secret|authorization|otp|code|recovery/i;
+
+const redact = (value: unknown, depth = 0): unknown => {
+  if (depth > 4 || value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+      key,
+      REDACTED_KEYS.test(key) ? "[redacted]" : redact(item, depth + 1),
+    ])
+  );
+};
+
+const isDebugLoggingEnabled =
+  process.env.NODE_ENV !== "production" && process.env.NEXT_PUBLIC_API_DEBUG !== "false";
+
+const debugLogger: ApiInterceptor = {
+  onRequest: (context) => {
+    console.debug(`[apiRequest] ${context.method} ${context.url}`, {
+      attempt: context.attempt,
+      hasToken: isAuthenticated(context),
+      body: redact(context.body),
+    });
+  },
+  onResponse: (response, context) => {
+    console.debug(`[apiRequest] ${context.method} ${context.url} → ${response.status} ${response.statusText}`);
+  },
+};
+
+if (isDebugLoggingEnabled) {
+  registerApiInterceptor(debugLogger);
+}
+
+/* ---------- pipeline ---------- */
+
+/** Absolute URL of a backend path */
+export const resolveApiUrl = (path: string) =>
+  `${API_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`;
+
+/** Token of the current session, for transports that authenticate on their own (e.g. SignalR) */
+export const getApiToken = () => tokenProvider?.() ?? null;
+
+const resolveToken = (token: string | null | undefined) =>
+  typeof token === "undefined" ? getApiToken() : token;
+
+const isAuthenticated = (context: ApiRequestContext) =>
+  "Authorization" in context.headers || context.cookieSession;
+
+/**
+ * Credentials for a request. A session handle is never sent: in cookie mode the proxy attaches the
+ * real token, and writes carry the CSRF token instead. Other tokens (e.g. a two-factor challenge)
+ * go out as usual.
+ */
+const authenticate = async (headers: Record<string, string>, method: string, token: string | null) => {
+  if (token && !isSessionHandle(token)) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+  if (sessionMode === "cookie" && !CSRF_SAFE_METHODS.has(method)) {
+    headers[CSRF_HEADER] = await ensureCsrfToken();
+  }
+  return isSessionHandle(token);
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const backoffDelay = (attempt: number) =>
+  RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.floor(Math.random() * RETRY_BASE_DELAY_MS);
+
+const runRequestInterceptors = async (context: ApiRequestContext) => {
+  let current = context;
+  for (const interceptor of interceptors) {
+    if (interceptor.onRequest) {
+      current = (await interceptor.onRequest(current)) ?? current;
+    }
+  }
+  return current;
+};
+
+const runResponseInterceptors = async (response: Response, context: ApiRequestContext) => {
+  for (const interceptor of interceptors) {
+    await interceptor.onResponse?.(response, context);
+  }
+};
+
+const runErrorInterceptors = async (error: ApiError, context: ApiRequestContext) => {
+  for (const interceptor of interceptors) {
+    try {
+      await interceptor.onError?.(error, context);
+    } catch (hookError) {
+      console.error("[apiRequest] error interceptor failed", hookError);
+    }
+  }
+};
+
+const parseErrorBody = (text: string): unknown => {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Not JSON (e.g. a proxy error page); keep the raw text as the message
+    return { detail: text };
+  }
+};
+
+const readErrorBody = async (res: Response): Promise<unknown> =>
+  parseErrorBody(await res.text().catch(() => ""));
+
+const reportFailedResponse = async (status: number, error: ApiError, context: ApiRequestContext) => {
+  // Only a rejected bearer token means the session is gone; a failed login is just a 401 too
+  if (status === 401 && isAuthenticated(context)) {
+    emitUnauthorized();
+  }
+  await runErrorInterceptors(error, context);
+};
+
 export async function apiRequest<TResponse>(
   path: string,
   options: ApiRequestOptions = {}
 ): Promise<TResponse> {
-  const { method = "GET", token, body, silent = false } = options;
-
-  const url = `${API_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`;
+  const {
+    method = "GET",
+    body,
+    silent = false,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+  } = options;
+  const token = resolveToken(options.token);
+  const upperMethod = method.toUpperCase();
+  const maxRetries = IDEMPOTENT_METHODS.has(upperMethod) ? options.retries ?? DEFAULT_RETRIES : 0;
 
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
   };
+  const cookieSession = await authenticate(headers, upperMethod, token);
 
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
+  const baseContext: ApiRequestContext = {
+    method: upperMethod,
+    path,
+    url: resolveApiUrl(path),
+    headers,
+    body,
+    timeoutMs,
+    attempt: 0,
+    silent,
+    cookieSession,
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    const context = await runRequestInterceptors({
+      ...baseContext,
+      headers: { ...baseContext.headers },
+      attempt,
+    });
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), context.timeoutMs);
+
+    let res: Response;
+    try {
+      res = await fetch(context.url, {
+        method: context.method,
+        headers: context.headers,
+        body: context.body ? JSON.stringify(context.body) : undefined,
+        signal: controller.signal,
+      });
+    } catch (caught) {
+      clearTimeout(timeoutId);
+      const isTimeout = caught instanceof Error && caught.name === "AbortError";
+      if (isTimeout && attempt <= maxRetries) {
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+      const error = isTimeout
+        ? new ApiTimeoutError()
+        : new ApiNetworkError(caught instanceof Error ? caught.message : String(caught));
+      await runErrorInterceptors(error, context);
+      throw error;
+    }
+    clearTimeout(timeoutId);
+
+    await runResponseInterceptors(res, context);
+
+    if (RETRYABLE_STATUSES.has(res.status) && attempt <= maxRetries) {
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    if (!res.ok) {
+      const errorBody = await readErrorBody(res);
+      const error = createApiError(res.status, errorBody, undefined, res.headers.get("Retry-After"));
+      // Only log error if not silent (silent mode suppresses error spam for expected 404s)
+      if (!context.silent) {
+        console.error(`[apiRequest] ERROR ${context.method} ${context.url}:`, {
+          status: res.status,
+          statusText: res.statusText,
+          body: redact(errorBody),
+          message: error.message,
+        });
+      }
+      await reportFailedResponse(res.status, error, context);
+      throw error;
+    }
+
+    if (res.status === 204) {
+      // No Content
+      return undefined as TResponse;
+    }
+
+    return (await res.json()) as TResponse;
   }
+}
+
+/* ---------- file transfers ---------- */
+
+export interface ApiUploadOptions {
+  method?: string;
+  /** Same semantics as ApiRequestOptions.token */
+  token?: string | null;
+  /** FormData for multipart uploads, or a Blob for raw chunks */
+  body: FormData | Blob;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** 0 (the default) waits as long as the transfer takes */
+  timeoutMs?: number;
+  onProgress?: (loadedBytes: number, totalBytes: number) => void;
+}
+
+/**
+ * Send a file or chunk with upload progress. Uses XMLHttpRequest because fetch cannot report
+ * upload progress; goes through the same interceptors and error types as apiRequest.
+ * Aborting `signal` rejects with ApiCancelledError.
+ */
+export async function apiUpload<TResponse>(path: string, options: ApiUploadOptions): Promise<TResponse> {
+  const { method = "POST", body, signal, timeoutMs = 0, onProgress } = options;
+  const token = resolveToken(options.token);
+
+  // Multipart bodies need the browser to set Content-Type with its boundary
+  const headers: Record<string, string> = { ...options.headers };
+  const cookieSession = await authenticate(headers, method.toUpperCase(), token);
 
-  // Log the full resolved URL for debugging (this is critical for finding 404 issues)
-  console.log(`[apiRequest] ${method} ${url}`, {
-    baseUrl: API_BASE_URL,
-    path: path,
-    hasToken: !!token,
-    body: body ? JSON.stringify(body).substring(0, 100) : undefined,
+  const context = await runRequestInterceptors({
+    method: method.toUpperCase(),
+    path,
+    url: resolveApiUrl(path),
+    headers,
+    body,
+    timeoutMs,
+    attempt: 1,
+    silent: false,
+    cookieSession,
+  });
+
+  if (signal?.aborted) {
+    throw new ApiCancelledError();
+  }
+
+  const xhr = new XMLHttpRequest();
+  const outcome = await new Promise<"load" | "error" | "timeout" | "abort">((resolve) => {
+    xhr.open(context.method, context.url);
+    Object.entries(context.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.timeout = context.timeoutMs;
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded, event.total);
+    };
+    xhr.onload = () => resolve("load");
+    xhr.onerror = () => resolve("error");
+    xhr.ontimeout = () => resolve("timeout");
+    xhr.onabort = () => resolve("abort");
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(context.body as FormData | Blob);
+  });
+
+  if (outcome !== "load") {
+    const error =
+      outcome === "abort"
+        ? new ApiCancelledError()
+        : outcome === "timeout"
+          ? new ApiTimeoutError()
+          : new ApiNetworkError();
+    await runErrorInterceptors(error, context);
+    throw error;
+  }
+
+  await runResponseInterceptors(new Response(null, { status: xhr.status, statusText: xhr.statusText }), context);
+
+  if (xhr.status < 200 || xhr.status >= 300) {
+    const errorBody = parseErrorBody(xhr.responseText);
+    const error = createApiError(xhr.status, errorBody, undefined, xhr.getResponseHeader("Retry-After"));
+    console.error(`[apiUpload] ERROR ${context.method} ${context.url}:`, {
+      status: xhr.status,
+      body: redact(errorBody),
+      message: error.message,
+    });
+    await reportFailedResponse(xhr.status, error, context);
+    throw error;
+  }
+
+  return (xhr.responseText ? JSON.parse(xhr.responseText) : undefined) as TResponse;
+}
+
+/**
+ * Fetch a binary resource (e.g. an attachment) with the session's credentials
+ */
+export async function apiDownload(
+  path: string,
+  options: { token?: string | null; signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<Blob> {
+  const token = resolveToken(options.token);
+  const headers: Record<string, string> = {};
+  const cookieSession = await authenticate(headers, "GET", token);
+
+  const context = await runRequestInterceptors({
+    method: "GET",
+    path,
+    url: resolveApiUrl(path),
+    headers,
+    timeoutMs: options.timeoutMs ?? DEFAULT_DOWNLOAD_TIMEOUT_MS,
+    attempt: 1,
+    silent: false,
+    cookieSession,
   });
 
-  // Add timeout to prevent hanging requests
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+  const timeoutId = setTimeout(() => controller.abort("timeout"), context.timeoutMs);
+  options.signal?.addEventListener("abort", () => controller.abort("cancelled"), { once: true });
 
   let res: Response;
   try {
-    res = await fetch(url, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-    if (error.name === "AbortError") {
-      throw new Error("Request timeout: Backend server may not be responding");
-    }
+    res = await fetch(context.url, { headers: context.headers, signal: controller.signal });
+  } catch (caught) {
+    const error =
+      !(caught instanceof Error && caught.name === "AbortError")
+        ? new ApiNetworkError(caught instanceof Error ? caught.message : String(caught))
+        : controller.signal.reason === "cancelled"
+          ? new ApiCancelledError()
+          : new ApiTimeoutError();
+    await runErrorInterceptors(error, context);
     throw error;
+  } finally {
+    clearTimeout(timeoutId);
   }
 
-  console.log(`[apiRequest] ${method} ${url} → ${res.status} ${res.statusText}`);
+  await runResponseInterceptors(res, context);
 
   if (!res.ok) {
-    let errorBody: unknown = null;
-    let errorMessage = `API request failed with status ${res.status}`;
-    try {
-      errorBody = await res.json();
-      // Try to extract error message from response
-      if (errorBody && typeof errorBody === "object") {
-        const body = errorBody as Record<string, unknown>;
-        if (body.errors && typeof body.errors === "object") {
-          // ModelState errors
-          const errors = body.errors as Record<string, unknown>;
-          const firstError = Object.values(errors)[0];
-          if (Array.isArray(firstError) && firstError.length > 0) {
-            errorMessage = String(firstError[0]);
-          }
-        } else if (body.message && typeof body.message === "string") {
-          errorMessage = body.message;
-        } else if (body.title && typeof body.title === "string") {
-          errorMessage = body.title;
-        }
-      }
-    } catch {
-      // If JSON parsing fails, try to get text
-      try {
-        const text = await res.text();
-        if (text) errorMessage = text;
-      } catch {
-        // ignore
-      }
-    }
-    // Only log error if not silent (silent mode suppresses error spam for expected 404s)
-    if (!silent) {
-      console.error(`[apiRequest] ERROR ${method} ${url}:`, {
-        status: res.status,
-        statusText: res.statusText,
-        body: errorBody,
-        message: errorMessage,
-      });
-    }
-    const error = new Error(errorMessage);
-    (error as any).status = res.status;
-    (error as any).body = errorBody;
+    const error = createApiError(res.status, await readErrorBody(res), undefined, res.headers.get("Retry-After"));
+    await reportFailedResponse(res.status, error, context);
     throw error;
   }
 
-  if (res.status === 204) {
-    // No Content
-    return undefined as TResponse;
-  }
-
-  return (await res.json()) as TResponse;
+  return res.blob();
 }
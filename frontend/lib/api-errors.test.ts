@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  ApiConflictError,
+  ApiError,
+  ApiLockedError,
+  ApiNetworkError,
+  ApiRateLimitError,
+  ApiServerError,
+  ApiValidationError,
+  createApiError,
+  getApiErrorMessage,
+  parseRetryAfter,
+} from "./api-errors"
+
+describe("createApiError", () => {
+  it.each([
+    [400, ApiValidationError],
+    [422, ApiValidationError],
+    [409, ApiConflictError],
+    [412, ApiConflictError],
+    [423, ApiLockedError],
+    [429, ApiRateLimitError],
+    [503, ApiServerError],
+  ])("maps %i to its error class", (status, type) => {
+    const error = createApiError(status, null)
+    expect(error).toBeInstanceOf(type)
+    expect(error.status).toBe(status)
+  })
+
+  it("keeps an unmapped status as a plain ApiError", () => {
+    const error = createApiError(418, null)
+    expect(error.constructor).toBe(ApiError)
+    expect(error.message).toBe("API request failed with status 418")
+  })
+
+  it("collects ASP.NET validation errors under camelCase field names", () => {
+    const error = createApiError(400, {
+      title: "One or more validation errors occurred.",
+      errors: {
+        Email: ["ایمیل تکراری است"],
+        "request.FullName": "نام الزامی است",
+        "$.tags[0]": ["نامعتبر"],
+        Empty: [],
+      },
+    }) as ApiValidationError
+
+    expect(error.fieldErrors).toEqual({
+      email: ["ایمیل تکراری است"],
+      fullName: ["نام الزامی است"],
+      tags: ["نامعتبر"],
+    })
+    expect(error.message).toBe("ایمیل تکراری است")
+    expect(error.firstErrors()).toEqual({
+      email: "ایمیل تکراری است",
+      fullName: "نام الزامی است",
+      tags: "نامعتبر",
+    })
+  })
+
+  it("prefers the problem's detail, then a message, then its title", () => {
+    expect(createApiError(404, { detail: "detail", message: "message", title: "title" }).message).toBe("detail")
+    expect(createApiError(404, { message: "message", title: "title" }).message).toBe("message")
+    expect(createApiError(404, { title: "title" }).message).toBe("title")
+    expect(createApiError(404, "Not Found", "fallback").message).toBe("fallback")
+  })
+
+  it("reads the rate limit's wait from Retry-After or the problem", () => {
+    expect((createApiError(429, null, undefined, "30") as ApiRateLimitError).retryAfterSeconds).toBe(30)
+    expect((createApiError(429, { retryAfterSeconds: 12 }) as ApiRateLimitError).retryAfterSeconds).toBe(12)
+    expect((createApiError(429, null) as ApiRateLimitError).retryAfterSeconds).toBeUndefined()
+  })
+})
+
+describe("parseRetryAfter", () => {
+  it("reads seconds or an HTTP date", () => {
+    const now = Date.parse("2026-01-05T10:00:00Z")
+    expect(parseRetryAfter("2.5", now)).toBe(3)
+    expect(parseRetryAfter("Mon, 05 Jan 2026 10:01:00 GMT", now)).toBe(60)
+    expect(parseRetryAfter("Mon, 05 Jan 2026 09:00:00 GMT", now)).toBe(0)
+    expect(parseRetryAfter("soon", now)).toBeUndefined()
+    expect(parseRetryAfter(null, now)).toBeUndefined()
+  })
+})
+
+describe("getApiErrorMessage", () => {
+  it("shows the server's explanation when there is one", () => {
+    const conflict = createApiError(409, { detail: "تیکت بسته شده است" })
+    expect(getApiErrorMessage(conflict)).toBe("تیکت بسته شده است")
+    expect(getApiErrorMessage(createApiError(400, { errors: { title: ["عنوان الزامی است"] } }))).toBe(
+      "عنوان الزامی است",
+    )
+  })
+
+  it("falls back to the catalogue message for the failure kind", () => {
+    expect(getApiErrorMessage(new ApiNetworkError(), "en")).toBe(
+      "Cannot reach the server. Check your network connection.",
+    )
+    expect(getApiErrorMessage(createApiError(500, null), "en")).toBe(
+      "The server ran into a problem. Please try again.",
+    )
+    expect(getApiErrorMessage(new Error("boom"), "en")).toBe("Something went wrong. Please try again.")
+  })
+})
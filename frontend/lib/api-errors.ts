@@ -0,0 +1,292 @@
+export type ApiErrorLocale = "fa" | "en"
+
+export type ApiErrorKind =
+  | "validation"
+  | "unauthorized"
+  | "forbidden"
+  | "notFound"
+  | "conflict"
+  | "locked"
+  | "rateLimited"
+  | "server"
+  | "network"
+  | "timeout"
+  | "cancelled"
+  | "unknown"
+
+/**
+ * RFC 7807 problem details, plus the `errors` map ASP.NET adds for validation failures
+ */
+export interface ApiProblemDetails {
+  type?: string
+  title?: string
+  status?: number
+  detail?: string
+  instance?: string
+  errors?: Record<string, string[] | string>
+  [extension: string]: unknown
+}
+
+const messageCatalogue: Record<ApiErrorKind, Record<ApiErrorLocale, string>> = {
+  validation: {
+    fa: "برخی از مقادیر وارد شده معتبر نیستند.",
+    en: "Some of the values you entered are not valid.",
+  },
+  unauthorized: {
+    fa: "نشست شما منقضی شده است. لطفاً دوباره وارد شوید.",
+    en: "Your session has expired. Please sign in again.",
+  },
+  forbidden: {
+    fa: "شما اجازه انجام این عملیات را ندارید.",
+    en: "You are not allowed to perform this action.",
+  },
+  notFound: {
+    fa: "مورد درخواستی یافت نشد.",
+    en: "The requested item was not found.",
+  },
+  conflict: {
+    fa: "این مورد در این فاصله تغییر کرده یا تکراری است. صفحه را به‌روزرسانی کنید.",
+    en: "This item was changed in the meantime or already exists. Refresh and try again.",
+  },
+  locked: {
+    fa: "حساب کاربری به دلیل تلاش‌های ناموفق متعدد موقتاً قفل شده است.",
+    en: "This account is temporarily locked after too many failed attempts.",
+  },
+  rateLimited: {
+    fa: "تعداد درخواست‌ها بیش از حد مجاز است. کمی بعد دوباره تلاش کنید.",
+    en: "Too many requests. Please wait a moment and try again.",
+  },
+  server: {
+    fa: "خطایی در سرور رخ داد. لطفاً دوباره تلاش کنید.",
+    en: "The server ran into a problem. Please try again.",
+  },
+  network: {
+    fa: "ارتباط با سرور برقرار نشد. اتصال شبکه را بررسی کنید.",
+    en: "Cannot reach the server. Check your network connection.",
+  },
+  timeout: {
+    fa: "پاسخ سرور بیش از حد طول کشید. دوباره تلاش کنید.",
+    en: "The server took too long to respond. Please try again.",
+  },
+  cancelled: {
+    fa: "عملیات لغو شد.",
+    en: "The request was cancelled.",
+  },
+  unknown: {
+    fa: "خطای نامشخصی رخ داد. لطفاً دوباره تلاش کنید.",
+    en: "Something went wrong. Please try again.",
+  },
+}
+
+interface ApiErrorInit {
+  status?: number
+  body?: unknown
+  problem?: ApiProblemDetails
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind = "unknown"
+  readonly status?: number
+  readonly body?: unknown
+  readonly problem?: ApiProblemDetails
+
+  constructor(message: string, init: ApiErrorInit = {}) {
+    super(message)
+    this.name = new.target.name
+    this.status = init.status
+    this.body = init.body
+    this.problem = init.problem
+  }
+
+  /** Server-authored explanation, when the response carried one */
+  get detail(): string | undefined {
+    if (this.problem?.detail) return this.problem.detail
+    const body = this.body as { message?: unknown } | undefined
+    return typeof body?.message === "string" ? body.message : undefined
+  }
+
+  /** Generic message for this kind of failure from the catalogue */
+  localizedMessage(locale: ApiErrorLocale = "fa"): string {
+    return messageCatalogue[this.kind][locale]
+  }
+}
+
+export class ApiValidationError extends ApiError {
+  override readonly kind = "validation"
+  /** Server messages keyed by camelCase field name */
+  readonly fieldErrors: Record<string, string[]>
+
+  constructor(message: string, init: ApiErrorInit & { fieldErrors?: Record<string, string[]> } = {}) {
+    super(message, init)
+    this.fieldErrors = init.fieldErrors ?? {}
+  }
+
+  /** First message per field, convenient for forms that show one error at a time */
+  firstErrors(): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(this.fieldErrors)
+        .filter(([, messages]) => messages.length > 0)
+        .map(([field, messages]) => [field, messages[0]])
+    )
+  }
+}
+
+export class ApiUnauthorizedError extends ApiError {
+  override readonly kind = "unauthorized"
+}
+
+export class ApiForbiddenError extends ApiError {
+  override readonly kind = "forbidden"
+}
+
+export class ApiNotFoundError extends ApiError {
+  override readonly kind = "notFound"
+}
+
+export class ApiConflictError extends ApiError {
+  override readonly kind = "conflict"
+}
+
+/** 423: the account is locked, e.g. after repeated failed sign-ins */
+export class ApiLockedError extends ApiError {
+  override readonly kind = "locked"
+}
+
+export class ApiRateLimitError extends ApiError {
+  override readonly kind = "rateLimited"
+  /** Seconds until the server takes requests again, from Retry-After; undefined when it didn't say */
+  readonly retryAfterSeconds?: number
+
+  constructor(message: string, init: ApiErrorInit & { retryAfterSeconds?: number } = {}) {
+    super(message, init)
+    this.retryAfterSeconds = init.retryAfterSeconds
+  }
+}
+
+export class ApiServerError extends ApiError {
+  override readonly kind = "server"
+}
+
+export class ApiNetworkError extends ApiError {
+  override readonly kind = "network"
+
+  constructor(message = "Network request failed", init: ApiErrorInit = {}) {
+    super(message, init)
+  }
+}
+
+export class ApiTimeoutError extends ApiError {
+  override readonly kind = "timeout"
+
+  constructor(message = "Request timeout: Backend server may not be responding", init: ApiErrorInit = {}) {
+    super(message, init)
+  }
+}
+
+/** The caller aborted the request, e.g. the user cancelled an upload */
+export class ApiCancelledError extends ApiError {
+  override readonly kind = "cancelled"
+
+  constructor(message = "Request cancelled", init: ApiErrorInit = {}) {
+    super(message, init)
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError
+
+// "Email", "request.FullName" and "$.title" all name the same kind of thing: a camelCase form field
+const normalizeFieldName = (key: string) => {
+  const last = key.replace(/^\$\.?/, "").split(".").pop() ?? key
+  const withoutIndex = last.replace(/\[\d+\]$/, "")
+  return withoutIndex.charAt(0).toLowerCase() + withoutIndex.slice(1)
+}
+
+const toFieldErrors = (errors: ApiProblemDetails["errors"]): Record<string, string[]> => {
+  const result: Record<string, string[]> = {}
+  Object.entries(errors ?? {}).forEach(([key, value]) => {
+    const messages = (Array.isArray(value) ? value : [value]).map(String).filter(Boolean)
+    if (messages.length === 0) return
+    const field = normalizeFieldName(key)
+    result[field] = [...(result[field] ?? []), ...messages]
+  })
+  return result
+}
+
+const asProblem = (body: unknown): ApiProblemDetails | undefined =>
+  body && typeof body === "object" && !Array.isArray(body) ? (body as ApiProblemDetails) : undefined
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds))
+  const at = Date.parse(value)
+  return Number.isNaN(at) ? undefined : Math.max(0, Math.ceil((at - now) / 1000))
+}
+
+/**
+ * Build the matching ApiError subclass for a non-2xx response. `retryAfter` is the response's
+ * Retry-After header, if any; cross-origin it is only readable when the API exposes it, so a
+ * `retryAfterSeconds` problem extension is accepted too.
+ */
+export function createApiError(
+  status: number,
+  body: unknown,
+  fallbackMessage?: string,
+  retryAfter?: string | null
+): ApiError {
+  const problem = asProblem(body)
+  const fieldErrors = toFieldErrors(problem?.errors)
+  const firstFieldError = Object.values(fieldErrors)[0]?.[0]
+  const bodyMessage = typeof problem?.message === "string" ? problem.message : undefined
+  const message =
+    firstFieldError ??
+    problem?.detail ??
+    bodyMessage ??
+    problem?.title ??
+    fallbackMessage ??
+    `API request failed with status ${status}`
+  const init = { status, body, problem }
+
+  if (status === 400 || status === 422) {
+    return new ApiValidationError(message, { ...init, fieldErrors })
+  }
+  switch (status) {
+    case 401:
+      return new ApiUnauthorizedError(message, init)
+    case 403:
+      return new ApiForbiddenError(message, init)
+    case 404:
+      return new ApiNotFoundError(message, init)
+    case 409:
+    case 412:
+      return new ApiConflictError(message, init)
+    case 423:
+      return new ApiLockedError(message, init)
+    case 429:
+      return new ApiRateLimitError(message, {
+        ...init,
+        retryAfterSeconds:
+          parseRetryAfter(retryAfter) ??
+          (typeof problem?.retryAfterSeconds === "number" ? problem.retryAfterSeconds : undefined),
+      })
+    default:
+      return status >= 500 ? new ApiServerError(message, init) : new ApiError(message, init)
+  }
+}
+
+/**
+ * Text to show the user for any thrown value: the server's own explanation when it sent one,
+ * otherwise the catalogue message for the failure kind
+ */
+export function getApiErrorMessage(error: unknown, locale: ApiErrorLocale = "fa"): string {
+  if (isApiError(error)) {
+    if (error instanceof ApiValidationError && Object.keys(error.fieldErrors).length > 0) {
+      return error.message
+    }
+    return error.detail ?? error.localizedMessage(locale)
+  }
+  return messageCatalogue.unknown[locale]
+}
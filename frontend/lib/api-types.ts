@@ -1,147 +1,379 @@
-export type ApiUserRole = "Client" | "Technician" | "Admin"
-
-export interface ApiUserDto {
-  id: string
-  fullName: string
-  email: string
-  role: ApiUserRole
-  phoneNumber?: string | null
-  department?: string | null
-  avatarUrl?: string | null
-}
+import type { components } from "./generated/ticketing-api"
 
-export interface ApiAuthResponse {
-  token: string
-  user: ApiUserDto
-}
+/*
+ * DTOs the backend documents come from its OpenAPI snapshot (openapi/ticketing-backend.json,
+ * regenerated with `npm run api:generate`). Only add hand-written types below for endpoints
+ * listed in openapi/client-only-routes.json.
+ */
+type Schemas = components["schemas"]
 
-export interface ApiCategoryResponse {
-  id: number
-  name: string
-  description?: string | null
-  subcategories: ApiSubcategoryResponse[]
-}
+export type ApiUserRole = Schemas["UserRole"]
+export type ApiUserDto = Schemas["UserDto"]
+/** Sign-in responses carry a long-lived refresh token next to the access token */
+export type ApiAuthResponse = Schemas["AuthResponse"]
+/** POST /api/auth/refresh revokes the refresh token sent and returns a new pair */
+export type ApiRefreshTokenRequest = Schemas["RefreshTokenRequest"]
+export type ApiRefreshTokenResponse = Schemas["RefreshTokenResponse"]
+/** POST /api/auth/logout revokes the refresh token, so a copy of it can't start a new session */
+export type ApiLogoutRequest = Schemas["LogoutRequest"]
+/**
+ * POST /api/auth/hub-token: a short-lived token the notification hub accepts and the rest of the
+ * API rejects, for connections that can't carry the session cookie
+ */
+export type ApiHubTokenResponse = Schemas["HubTokenResponse"]
+/**
+ * POST /api/auth/oidc trades the identity provider's ID token for the app's session. The server verifies
+ * the token against the provider's keys, provisions the account on first sign-in and maps the
+ * verified claims to a role with its own configuration.
+ */
+export type ApiOidcLoginRequest = Schemas["OidcLoginRequest"]
+/** GET /api/auth/oidc/nonce; the provider must put it in the ID token, which the backend accepts once */
+export type ApiOidcNonceResponse = Schemas["OidcNonceResponse"]
 
-export interface ApiSubcategoryResponse {
-  id: number
-  name: string
-}
+export type ApiCategoryResponse = Schemas["CategoryResponse"]
+export type ApiCategoryListResponse = Schemas["CategoryListResponse"]
+export type ApiCategoryRequest = Schemas["CategoryRequest"]
+export type ApiSubcategoryResponse = Schemas["SubcategoryResponse"]
+export type ApiSubcategoryRequest = Schemas["SubcategoryRequest"]
 
-export type ApiTicketPriority = "Low" | "Medium" | "High" | "Critical"
-export type ApiTicketStatus = "New" | "InProgress" | "WaitingForClient" | "Resolved" | "Closed"
+export type ApiTicketPriority = Schemas["TicketPriority"]
+export type ApiTicketStatus = Schemas["TicketStatus"]
 
-export interface ApiTicketResponse {
-  id: string
-  title: string
-  description: string
-  categoryId: number
-  categoryName: string
-  subcategoryId?: number | null
-  subcategoryName?: string | null
-  priority: ApiTicketPriority
-  status: ApiTicketStatus
-  createdByUserId: string
-  createdByName: string
-  createdByEmail: string
-  createdByPhoneNumber?: string | null
-  createdByDepartment?: string | null
-  assignedToUserId?: string | null
-  assignedToName?: string | null
-  assignedToEmail?: string | null
-  assignedToPhoneNumber?: string | null
-  createdAt: string
-  updatedAt?: string | null
-  dueDate?: string | null
+export type ApiTicketResponse = Schemas["TicketResponse"] & {
+  /* Not in the backend document yet */
+  responsibleTechnicianId?: string | null
 }
 
-export interface ApiTicketMessageDto {
-  id: string
-  authorUserId: string
-  authorName: string
-  authorEmail: string
-  message: string
-  createdAt: string
-  status?: ApiTicketStatus | null
+/** One page of a ticket list; the items carry the client-side additions of ApiTicketResponse */
+export type ApiTicketListResponse = Omit<Schemas["TicketListResponse"], "items"> & { items: ApiTicketResponse[] }
+/**
+ * Counts over the tickets a list query with the same filters would match, for dashboards and
+ * badges that need numbers rather than the tickets themselves
+ */
+export type ApiTicketSummary = Schemas["TicketSummaryResponse"]
+
+export type ApiTicketSlaState = Schemas["TicketSlaStateDto"]
+
+export type ApiSlaSettings = Omit<Schemas["SlaSettingsDto"], "calendar"> & { calendar: ApiBusinessCalendar }
+export type ApiSlaPolicy = Schemas["SlaPolicyDto"]
+export type ApiSlaEscalation = Schemas["SlaEscalationDto"]
+export type ApiSlaEscalationRequest = Schemas["SlaEscalationRequest"]
+export type ApiBusinessHours = Schemas["BusinessHoursDto"]
+/** The document can't mark array items nullable; a day without working hours is null */
+export type ApiBusinessCalendar = Omit<Schemas["BusinessCalendarDto"], "hours"> & {
+  hours: (ApiBusinessHours | null)[]
 }
 
-export interface ApiSystemSettingsResponse {
-  appName: string
-  supportEmail: string
-  supportPhone: string
+export type ApiTicketMessageDto = Schemas["TicketMessageDto"]
+export type ApiTicketCreateRequest = Schemas["TicketCreateRequest"]
+export type ApiTicketUpdateRequest = Schemas["TicketUpdateRequest"]
+export type ApiTicketMessageRequest = Schemas["TicketMessageRequest"]
+export type ApiTicketCalendarResponse = Schemas["TicketCalendarResponse"]
+export type ApiAssignTechnicianRequest = Schemas["AssignTechnicianRequest"]
+
+export type ApiTechnicianResponse = Schemas["TechnicianResponse"]
+export type ApiTechnicianCreateRequest = Schemas["TechnicianCreateRequest"]
+export type ApiTechnicianUpdateRequest = Schemas["TechnicianUpdateRequest"]
+export type ApiTechnicianStatusUpdateRequest = Schemas["TechnicianStatusUpdateRequest"]
+export type ApiTechnicianLinkUserRequest = Schemas["TechnicianLinkUserRequest"]
+
+export type ApiSmartAssignmentStatusResponse = Schemas["SmartAssignmentStatusResponse"]
+export type ApiSmartAssignmentUpdateRequest = Schemas["SmartAssignmentUpdateRequest"]
+export type ApiSmartAssignmentRunResponse = Schemas["SmartAssignmentRunResponse"]
+
+export type ApiNotificationDto = Schemas["NotificationDto"]
+
+/** Choices the backend validates with a pattern, which the generator can only type as string */
+type ApiSettingsChoices = {
   defaultLanguage: "fa" | "en"
   defaultTheme: "light" | "dark" | "system"
-  timezone: string
-  defaultPriority: ApiTicketPriority
-  defaultStatus: ApiTicketStatus
-  responseSlaHours: number
-  autoAssignEnabled: boolean
-  allowClientAttachments: boolean
-  maxAttachmentSizeMB: number
-  emailNotificationsEnabled: boolean
-  smsNotificationsEnabled: boolean
-  notifyOnTicketCreated: boolean
-  notifyOnTicketAssigned: boolean
-  notifyOnTicketReplied: boolean
-  notifyOnTicketClosed: boolean
-  passwordMinLength: number
-  require2FA: boolean
-  sessionTimeoutMinutes: number
-  allowedEmailDomains: string[]
 }
 
-export type ApiSystemSettingsUpdateRequest = ApiSystemSettingsResponse
+export type ApiSystemSettingsResponse = Omit<Schemas["SystemSettingsResponse"], keyof ApiSettingsChoices> &
+  ApiSettingsChoices
+export type ApiSystemSettingsUpdateRequest = Omit<Schemas["SystemSettingsUpdateRequest"], keyof ApiSettingsChoices> &
+  ApiSettingsChoices
 
-export interface ApiUserPreferencesResponse {
+type ApiPreferenceChoices = {
   theme: "light" | "dark" | "system"
   fontSize: "sm" | "md" | "lg"
   language: "fa" | "en"
-  direction: "rtl" | "ltr"
-  timezone: string
-  notifications: {
-    emailEnabled: boolean
-    pushEnabled: boolean
-    smsEnabled: boolean
-    desktopEnabled: boolean
-  }
 }
 
-export type ApiUserPreferencesUpdateRequest = ApiUserPreferencesResponse
+export type ApiUserPreferencesResponse = Omit<Schemas["UserPreferencesResponse"], keyof ApiPreferenceChoices | "direction"> &
+  ApiPreferenceChoices & { direction: "rtl" | "ltr" }
+export type ApiUserPreferencesUpdateRequest = Omit<Schemas["UserPreferencesUpdateRequest"], keyof ApiPreferenceChoices> &
+  ApiPreferenceChoices
+
+export type ApiNotificationPreferencesResponse = Schemas["NotificationPreferencesResponse"]
+export type ApiNotificationPreferencesUpdateRequest = Schemas["NotificationPreferencesUpdateRequest"]
+
+/** The part of the system settings every user (and the sign-in pages) may read */
+export type ApiPublicSettingsResponse = Omit<Schemas["PublicSettingsResponse"], "defaultLanguage"> &
+  Pick<ApiSettingsChoices, "defaultLanguage">
+
+export type ApiTwoFactorStatusResponse = Schemas["TwoFactorStatusResponse"]
+export type ApiTwoFactorSetupResponse = Schemas["TwoFactorSetupResponse"]
+export type ApiTwoFactorCodeRequest = Schemas["TwoFactorCodeRequest"]
+/** Either a TOTP code or one of the single-use recovery codes */
+export type ApiTwoFactorVerifyRequest = Schemas["TwoFactorVerifyRequest"]
+export type ApiTwoFactorRecoveryCodesResponse = Schemas["TwoFactorRecoveryCodesResponse"]
+/** Enrolling with a challenge token completes the sign-in, so the session comes back too */
+export type ApiTwoFactorEnableResponse = Schemas["TwoFactorEnableResponse"]
+
+export type ApiAttachmentDto = Schemas["AttachmentDto"]
+
+/**
+ * Resumable upload: the client sends chunks with a Content-Range header and the server
+ * reports how many bytes it already holds, so an interrupted upload continues where it stopped
+ */
+export type ApiAttachmentUploadSessionRequest = Schemas["AttachmentUploadSessionRequest"]
+
+export type ApiAttachmentUploadSession = Schemas["AttachmentUploadSessionResponse"]
+
+export type ApiTicketSortField = "createdAt" | "updatedAt" | "dueDate" | "priority" | "status" | "title"
+export type ApiSortDirection = "asc" | "desc"
+
+/**
+ * Query parameters of GET /api/tickets and /api/technician/tickets (TicketListQuery in the
+ * backend; query parameters aren't schemas, so they aren't generated). Array filters are sent as
+ * repeated query parameters. `sort` is `field:direction`, e.g. `createdAt:desc`.
+ */
+export interface ApiTicketQuery {
+  page?: number
+  pageSize?: number
+  sort?: `${ApiTicketSortField}:${ApiSortDirection}`
+  status?: ApiTicketStatus[]
+  priority?: ApiTicketPriority[]
+  categoryId?: number
+  subcategoryId?: number
+  assignedTo?: string
+  /** Tickets submitted by this user */
+  createdBy?: string
+  /** true: only tickets nobody is assigned to; false: only assigned ones */
+  unassigned?: boolean
+  createdFrom?: string
+  createdTo?: string
+  search?: string
+}
+
+export interface ApiPagedResponse<T> {
+  items: T[]
+  totalCount: number
+  page: number
+  pageSize: number
+}
+
+/** The filters of a ticket list, without paging and sorting */
+export type ApiTicketSummaryQuery = Omit<ApiTicketQuery, "page" | "pageSize" | "sort">
+
+export type ApiTicketActivityType =
+  | "StatusChanged"
+  | "CommentAdded"
+  | "AssignmentChanged"
+  | "TechnicianStateChanged"
+  | "WorkNoteAdded"
+  | "Merged"
+
+/** The backend records merges; the other types come from the not yet served collaboration endpoints */
+export type ApiTicketActivityDto = Omit<Schemas["TicketActivityDto"], "type"> & { type: ApiTicketActivityType | string }
+
+export type ApiWorkSessionState = "Idle" | "Investigating" | "Responding" | "WaitingForClient" | "Done"
+
+export interface ApiActiveTechnicianDto {
+  technicianId: string
+  technicianUserId: string
+  name: string
+  workingOn: string
+  note?: string | null
+  state: ApiWorkSessionState
+  updatedAt: string
+}
+
+export interface ApiTicketCollaborationResponse {
+  ticketId: string
+  status: ApiTicketStatus
+  lastActivity?: ApiTicketActivityDto | null
+  activeTechnicians: ApiActiveTechnicianDto[]
+  recentActivities: ApiTicketActivityDto[]
+}
 
-export interface ApiTechnicianResponse {
-  id: string
-  fullName: string
-  email: string
-  phone?: string | null
-  department?: string | null
-  isActive: boolean
-  createdAt: string
+export interface ApiUpdateWorkSessionRequest {
+  workingOn: string
+  note?: string | null
+  state: ApiWorkSessionState
 }
 
-export interface ApiTechnicianCreateRequest {
-  fullName: string
-  email: string
-  phone?: string | null
-  department?: string | null
-  isActive?: boolean
+/* Real-time hub payloads (see lib/ticket-hub-events.ts for the event names) */
+
+export interface ApiTicketAssignedEvent {
+  ticketId: string
+  assignedToUserId: string | null
+  assignedToName?: string | null
+  assignedByUserId?: string | null
 }
 
-export interface ApiTechnicianUpdateRequest {
-  fullName: string
-  email: string
-  phone?: string | null
-  department?: string | null
-  isActive?: boolean
+export interface ApiTicketMessageAddedEvent {
+  ticketId: string
+  message: ApiTicketMessageDto
+  /** Thread length after the message was added */
+  responseCount?: number
 }
 
-export interface ApiTechnicianStatusUpdateRequest {
-  isActive: boolean
+/**
+ * Answer of POST /api/auth/login when the password is right but a TOTP code is still needed.
+ * The challenge token only authorizes the /api/auth/2fa endpoints, until the code is verified.
+ * The backend document only describes the session answer of login and register, so this stays here.
+ */
+export interface ApiTwoFactorChallengeResponse {
+  twoFactorRequired: true
+  /**
+   * require2FA is on and the account has no authenticator yet; enroll with the challenge token first.
+   * Login, OIDC and registration must answer such an account with this rather than a session, and
+   * session tokens are refused until POST /api/auth/2fa/enable issues the session.
+   */
+  enrollmentRequired?: boolean
+  challengeToken: string
+  expiresAt?: string | null
 }
 
-export interface ApiNotificationPreferencesResponse {
-  emailEnabled: boolean
-  pushEnabled: boolean
-  smsEnabled: boolean
-  desktopEnabled: boolean
+export type ApiLoginResponse = ApiAuthResponse | ApiTwoFactorChallengeResponse
+
+/**
+ * Brute-force protection on POST /api/auth/login. After a few failures the next attempt needs a
+ * solved CAPTCHA (`captchaId` and `captchaAnswer`), more failures lock the account (423) and too
+ * many failures from one address are throttled (429 with Retry-After).
+ */
+export type ApiLoginRequest = Schemas["LoginRequest"]
+
+/** Extensions on a failed sign-in's error body */
+export interface ApiLoginFailureDetails {
+  /** Failed attempts left before the account is locked */
+  remainingAttempts?: number | null
+  /** The next attempt must include a challenge from GET /api/auth/captcha */
+  captchaRequired?: boolean
+  /** When the lock ends */
+  lockedUntil?: string | null
+  /** The two-factor challenge took too many wrong codes; the sign-in starts again from the password */
+  challengeExpired?: boolean
+  /** ACCOUNT_LOCKED, ACCOUNT_DISABLED and the like */
+  error?: string
+}
+
+/** GET /api/auth/captcha; `image` is a data URL of the distorted characters to type in */
+export type ApiCaptchaChallenge = Schemas["CaptchaChallengeResponse"]
+/**
+ * One sign-in to the current account, newest first in GET /api/auth/sessions. `device` is the browser
+ * and OS the server read from the user agent; `suspicious` marks a new address right after failed attempts.
+ */
+export type ApiSignInActivity = Schemas["SignInActivityDto"]
+export type ApiRevokeSessionsResponse = Schemas["RevokeSessionsResponse"]
+
+/**
+ * Role definitions. The three built-in roles are listed too (read-only, their role name as the id);
+ * custom roles extend a built-in one, which decides the endpoints the account uses, and grant their
+ * own permissions. The backend authorizes by the same permissions.
+ */
+export type ApiRoleDto = Schemas["RoleDto"]
+export type ApiRoleRequest = Schemas["RoleRequest"]
+
+/** Effective permissions of the signed-in user, after applying a custom role */
+export type ApiMyPermissionsResponse = Schemas["MyPermissionsResponse"]
+
+/** Every permission, with each base role's defaults and what a custom role on it may hold */
+export type ApiPermissionCatalogResponse = Schemas["PermissionCatalogResponse"]
+
+/**
+ * User directory (GET /api/users): the profile, the state of the account and its custom role
+ */
+export type ApiUserAccountDto = Schemas["UserAccountDto"]
+
+/** Creates the account and emails the user a link to choose their password */
+export type ApiUserInviteRequest = Schemas["UserInviteRequest"]
+
+export type ApiUserRoleUpdateRequest = Schemas["UserRoleUpdateRequest"]
+
+export type ApiUserStatusUpdateRequest = Schemas["UserStatusUpdateRequest"]
+
+/** Rows are checked one by one; a bad row is reported in the response's errors */
+export type ApiUserImportRequest = Schemas["UserImportRequest"]
+
+/** `skippedCount` rows already had an account; an error's `row` is its index in the request's users */
+export type ApiUserImportResponse = Schemas["UserImportResponse"]
+
+/** The token comes from an invitation or password reset link */
+export type ApiPasswordSetupRequest = Schemas["PasswordSetupRequest"]
+
+/**
+ * "View as user" for support. The reason is stored with the audit entry, together with both users.
+ */
+export type ApiImpersonationRequest = Schemas["ImpersonationRequest"]
+
+/**
+ * A short-lived access token for the target user without a refresh token. The admin rides along
+ * in its `act` claim (RFC 8693), and the server logs both identities on every request made with it.
+ * It stops working at `expiresAt` or when `POST /api/auth/impersonate/end` ends the impersonation.
+ */
+export type ApiImpersonationResponse = Schemas["ImpersonationResponse"]
+
+/** What a status change must carry besides the new status */
+export type ApiWorkflowRequirement = Schemas["WorkflowRequirement"]
+
+/**
+ * One allowed status change and the roles that may make it. The server rejects any change the
+ * workflow doesn't list; staying in the same status is always allowed.
+ */
+export type ApiWorkflowTransition = Schemas["WorkflowTransitionDto"]
+
+export type ApiTicketWorkflow = Schemas["TicketWorkflowDto"]
+
+/**
+ * Satisfaction survey a client answers once their ticket is closed, one per ticket
+ */
+export type ApiTicketSurveyRequest = Schemas["TicketSurveyRequest"]
+
+export type ApiTicketSurvey = Schemas["TicketSurveyDto"]
+
+/** Survey results of a group of tickets; the averages are null when nobody answered */
+export type ApiCsatSummary = Schemas["CsatSummaryDto"]
+
+export type ApiCsatPeriod = Schemas["CsatPeriod"]
+
+/** GET /api/reports/csat; dates are inclusive, YYYY-MM-DD, and default to the last 30 days */
+export interface ApiCsatReportQuery {
+  from?: string
+  to?: string
+  period?: ApiCsatPeriod
+}
+
+/** `byPeriod` is oldest first; its `start` is the first day of the week (Saturday) or month */
+export type ApiCsatReport = Schemas["CsatReportResponse"]
+
+/**
+ * Fold duplicate tickets into a primary one. The server moves their messages and attachments over
+ * and closes each duplicate with `mergedIntoId` pointing at the primary.
+ */
+export type ApiTicketMergeRequest = Schemas["TicketMergeRequest"]
+
+/** `primary` carries the client-side additions of ApiTicketResponse */
+export type ApiTicketMergeResponse = Omit<Schemas["TicketMergeResponse"], "primary"> & { primary: ApiTicketResponse }
+
+/**
+ * A draft or ticket to find duplicates of (SimilarTicketsQuery in the backend). The server compares
+ * it with the open tickets of the category across every client, so a second report of the same
+ * outage is caught.
+ */
+export interface ApiSimilarTicketsQuery {
+  categoryId: number
+  title: string
+  description?: string
+  /** The ticket being compared itself, left out of the results */
+  excludeId?: string
+  /** 0–1; without it the server leaves out weak matches */
+  minScore?: number
+  /** 1–20, 3 by default */
+  limit?: number
 }
 
-export type ApiNotificationPreferencesUpdateRequest = ApiNotificationPreferencesResponse
\ No newline at end of file
+/** Only what a client may see of another client's ticket; `score` is 0–1, best match first */
+export type ApiSimilarTicketDto = Schemas["SimilarTicketResponse"]
@@ -0,0 +1,165 @@
+import { apiDownload, apiRequest, apiUpload } from "./api-client"
+import type {
+  ApiAttachmentDto,
+  ApiAttachmentUploadSession,
+  ApiAttachmentUploadSessionRequest,
+} from "./api-types"
+
+export interface AttachmentTransferOptions {
+  signal?: AbortSignal
+  onProgress?: (loadedBytes: number, totalBytes: number) => void
+}
+
+/**
+ * List the attachments of a ticket, including those sent with replies
+ */
+export async function getTicketAttachments(token: string | null, ticketId: string): Promise<ApiAttachmentDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiAttachmentDto[]>(`/api/tickets/${ticketId}/attachments`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Upload a file in one multipart request. Suitable for small files; see createUploadSession for large ones.
+ */
+export async function uploadTicketAttachment(
+  token: string | null,
+  ticketId: string,
+  file: File,
+  { messageId, signal, onProgress }: AttachmentTransferOptions & { messageId?: string | null } = {}
+): Promise<ApiAttachmentDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const body = new FormData()
+  body.append("file", file, file.name)
+  if (messageId) {
+    body.append("messageId", messageId)
+  }
+  return apiUpload<ApiAttachmentDto>(`/api/tickets/${ticketId}/attachments`, {
+    method: "POST",
+    token,
+    body,
+    signal,
+    onProgress,
+  })
+}
+
+/**
+ * Start a resumable upload for a large file
+ */
+export async function createUploadSession(
+  token: string | null,
+  ticketId: string,
+  request: ApiAttachmentUploadSessionRequest
+): Promise<ApiAttachmentUploadSession> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiAttachmentUploadSession>(`/api/tickets/${ticketId}/attachments/uploads`, {
+    method: "POST",
+    token,
+    body: request,
+  })
+}
+
+/**
+ * Current state of a resumable upload; `receivedBytes` is where the next chunk starts
+ */
+export async function getUploadSession(token: string | null, uploadId: string): Promise<ApiAttachmentUploadSession> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiAttachmentUploadSession>(`/api/attachments/uploads/${uploadId}`, {
+    method: "GET",
+    token,
+    silent: true,
+  })
+}
+
+/**
+ * Send one chunk of a resumable upload, starting at byte `start` of a file of `totalBytes`
+ */
+export async function uploadChunk(
+  token: string | null,
+  uploadId: string,
+  chunk: Blob,
+  start: number,
+  totalBytes: number,
+  { signal, onProgress }: AttachmentTransferOptions = {}
+): Promise<ApiAttachmentUploadSession> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiUpload<ApiAttachmentUploadSession>(`/api/attachments/uploads/${uploadId}`, {
+    method: "PUT",
+    token,
+    body: chunk,
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Content-Range": `bytes ${start}-${start + chunk.size - 1}/${totalBytes}`,
+    },
+    signal,
+    onProgress,
+  })
+}
+
+/**
+ * Finish a resumable upload once every byte has been received
+ */
+export async function completeUploadSession(token: string | null, uploadId: string): Promise<ApiAttachmentDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiAttachmentDto>(`/api/attachments/uploads/${uploadId}/complete`, {
+    method: "POST",
+    token,
+  })
+}
+
+/**
+ * Discard a resumable upload and the chunks received so far
+ */
+export async function cancelUploadSession(token: string | null, uploadId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<void>(`/api/attachments/uploads/${uploadId}`, {
+    method: "DELETE",
+    token,
+    silent: true,
+  })
+}
+
+/**
+ * Delete an attachment (uploader or admin)
+ */
+export async function deleteAttachment(token: string | null, attachmentId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<void>(`/api/attachments/${attachmentId}`, {
+    method: "DELETE",
+    token,
+  })
+}
+
+/**
+ * Download an attachment's content. `inline` asks for the preview rendition
+ * (served with Content-Disposition: inline) instead of the download one.
+ */
+export async function getAttachmentContent(
+  token: string | null,
+  attachmentId: string,
+  { inline = false, signal }: { inline?: boolean; signal?: AbortSignal } = {}
+): Promise<Blob> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const disposition = inline ? "?disposition=inline" : ""
+  return apiDownload(`/api/attachments/${attachmentId}/content${disposition}`, { token, signal })
+}
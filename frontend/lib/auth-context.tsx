@@ -1,8 +1,60 @@
 "use client";
 
-import { createContext, useContext, useEffect, useState, type ReactNode } from "react";
-import { apiRequest } from "@/lib/api-client";
-import type { ApiAuthResponse, ApiUserDto, ApiUserRole } from "@/lib/api-types";
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from "react";
+import { apiRequest, onApiUnauthorized, setApiTokenProvider } from "@/lib/api-client";
+import {
+  ApiError,
+  ApiForbiddenError,
+  ApiLockedError,
+  ApiNetworkError,
+  ApiRateLimitError,
+  ApiServerError,
+  ApiTimeoutError,
+  ApiUnauthorizedError,
+  ApiValidationError,
+} from "@/lib/api-errors";
+import {
+  broadcastSession,
+  clearSessionActivity,
+  getTokenExpiry,
+  isTokenExpired,
+  markSessionActivity,
+  subscribeSession,
+  withRefreshLock,
+  type SessionEndReason,
+} from "@/lib/auth-session";
+import { endCookieSession, getSessionInfo, sessionMode } from "@/lib/cookie-session";
+import { clearOfflineMirror } from "@/lib/offline-mirror";
+import { discardOutbox } from "@/lib/offline-outbox";
+import type { OidcCallbackResult } from "@/lib/oidc";
+import {
+  emailDomainError,
+  getPasswordPolicyError,
+  isEmailDomainAllowed,
+  passwordPolicyFromSettings,
+} from "@/lib/password-policy";
+import { clearQueryCache, fetchQuery, invalidateQueries } from "@/lib/query-cache";
+import { roleFromApi, roleToApi } from "@/lib/role-mappers";
+import { writeRoleHint } from "@/lib/route-access";
+import { queryKeys } from "@/lib/query-keys";
+import { getPublicSettings } from "@/lib/settings-api";
+import { getCaptchaChallenge } from "@/lib/sign-in-security-api";
+import { enableTwoFactor, getTwoFactorStatus, verifyTwoFactorChallenge } from "@/lib/two-factor-api";
+import { toast } from "@/hooks/use-toast";
+import type {
+  ApiAuthResponse,
+  ApiCaptchaChallenge,
+  ApiImpersonationRequest,
+  ApiImpersonationResponse,
+  ApiLoginFailureDetails,
+  ApiLoginRequest,
+  ApiLoginResponse,
+  ApiLogoutRequest,
+  ApiOidcLoginRequest,
+  ApiRefreshTokenRequest,
+  ApiRefreshTokenResponse,
+  ApiUserDto,
+} from "@/lib/api-types";
 
 interface User {
   id: string;
@@ -14,10 +66,67 @@ interface User {
   avatar?: string | null;
 }
 
+/** A password sign-in waiting for its second factor */
+export interface TwoFactorChallenge {
+  token: string;
+  expiresAt?: string | null;
+}
+
+/** The answer to a CAPTCHA, sent with the next sign-in attempt */
+export interface CaptchaSolution {
+  id: string;
+  answer: string;
+}
+
+export type LoginResult =
+  | { status: "signed-in" }
+  /** `remainingAttempts` before the account is locked, when the server says */
+  | { status: "failed"; remainingAttempts: number | null }
+  /** Solve the challenge and try again; `invalidCaptcha` when the last answer was wrong */
+  | { status: "captcha-required"; captcha: ApiCaptchaChallenge; invalidCaptcha: boolean; remainingAttempts: number | null }
+  /** Too many attempts; no use trying before `retryAt` (epoch ms) */
+  | { status: "rate-limited"; retryAt: number }
+  /** `lockedUntil` is null when the server didn't say when the lock ends */
+  | { status: "locked"; lockedUntil: string | null }
+  /** An admin deactivated the account; only they can let it sign in again */
+  | { status: "disabled" }
+  /** Ask for a code from the authenticator (or a recovery code) and call verifyTwoFactor */
+  | { status: "two-factor-required"; challenge: TwoFactorChallenge }
+  /** require2FA is on and the account has no authenticator; set one up with enrollTwoFactor */
+  | { status: "enrollment-required"; challenge: TwoFactorChallenge }
+  /**
+   * A wrong code counts like a wrong password; `remainingAttempts` before the account is locked.
+   * `challengeExpired` when the challenge took its last wrong code and the password is needed again.
+   */
+  | { status: "invalid-code"; remainingAttempts: number | null; challengeExpired: boolean };
+
+/** An admin viewing the app as another user */
+export interface Impersonation {
+  /** The admin who started it, whose session comes back on exit */
+  impersonator: User;
+  reason: string;
+  expiresAt: string | null;
+}
+
+export interface TwoFactorEnrollment {
+  /** Shown to the user once, before the session starts */
+  recoveryCodes: string[];
+  /** Start the session the enrollment unlocked */
+  complete: () => void;
+}
+
 interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<boolean>;
+  login: (email: string, password: string, captcha?: CaptchaSolution) => Promise<LoginResult>;
+  /** Finish a single sign-on started with beginOidcLogin, once the callback route has the ID token */
+  loginWithOidc: (result: OidcCallbackResult) => Promise<LoginResult>;
+  verifyTwoFactor: (
+    challenge: TwoFactorChallenge,
+    code: string,
+    options?: { recovery?: boolean }
+  ) => Promise<LoginResult>;
+  enrollTwoFactor: (challenge: TwoFactorChallenge, code: string) => Promise<TwoFactorEnrollment>;
   register: (userData: {
     name: string;
     email: string;
@@ -26,7 +135,14 @@ interface AuthContextType {
     role: string;
     password: string;
   }) => Promise<boolean>;
-  logout: () => void;
+  /** Ends the session in every open tab */
+  logout: (reason?: SessionEndReason) => void;
+  /** Set while an admin views the app as another user */
+  impersonation: Impersonation | null;
+  /** Switch to the user's view with a scoped token; the server audits each request under both accounts */
+  startImpersonation: (userId: string, reason: string) => Promise<void>;
+  /** Back to the admin's own session */
+  exitImpersonation: () => Promise<void>;
   updateProfile: (
     updates: Partial<Omit<User, "id" | "role">>
   ) => Promise<boolean>;
@@ -40,53 +156,42 @@ interface AuthContextType {
 
 const TOKEN_STORAGE_KEY = "ticketing.auth.token";
 const USER_STORAGE_KEY = "ticketing.auth.user";
+const REFRESH_TOKEN_STORAGE_KEY = "ticketing.auth.refreshToken";
+/** Who is viewing the app as whom, shared so every tab shows the banner; no credentials */
+const IMPERSONATION_STORAGE_KEY = "ticketing.auth.impersonation";
+/** Token mode: the admin's own tokens, kept only by the tab that started the impersonation */
+const IMPERSONATOR_TOKENS_STORAGE_KEY = "ticketing.auth.impersonator";
+/** How long a tab without the admin's tokens waits for the tab that has them to switch back */
+const LEAVE_IMPERSONATION_WAIT_MS = 3_000;
 
-const AuthContext = createContext<AuthContextType | undefined>(undefined);
+/** Refresh the access token this long before it expires */
+const REFRESH_AHEAD_MS = 60_000;
+/** Spreads the open tabs' refreshes; the first one wins and the others adopt its token */
+const REFRESH_JITTER_MS = 5_000;
+const REFRESH_RETRY_MS = 30_000;
+/** A refresh the server failed is retried after 30 s, doubling up to this */
+const REFRESH_MAX_BACKOFF_MS = 5 * 60_000;
+/** setTimeout fires immediately for delays past ~24.8 days */
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
 
-/**
- * Map backend role → frontend role
- * Supports both numeric enums (0,1,2) and string enums ("Admin", "Technician", "Client").
- */
-const roleFromApi = (role: ApiUserRole): User["role"] => {
-  // If backend sends numbers (0,1,2)
-  if (typeof role === "number") {
-    switch (role) {
-      case 2:
-        return "admin";
-      case 1:
-        return "engineer";
-      default:
-        return "client";
-    }
-  }
-
-  // If backend sends strings ("Admin", "Technician", "Client")
-  switch (role.toString().toLowerCase()) {
-    case "admin":
-      return "admin";
-    case "technician":
-      return "engineer";
-    default:
-      return "client";
-  }
+const impersonationExpiredToast = {
+  title: "زمان مشاهده از دید کاربر به پایان رسید",
+  description: "به حساب خودتان بازگشتید.",
 };
 
-/**
- * Map frontend role → backend role
- * Here we return the **string** form so TypeScript is happy with ApiUserRole.
- * (Backend can still interpret this if configured for string enums, or ignore it.)
- */
-const roleToApi = (role: string): ApiUserRole => {
-  switch (role) {
-    case "admin":
-      return "Admin";
-    case "engineer":
-      return "Technician";
-    default:
-      return "Client";
-  }
+const sessionEndToasts: Record<Exclude<SessionEndReason, "user">, { title: string; description: string }> = {
+  idle: {
+    title: "به دلیل عدم فعالیت از حساب خارج شدید",
+    description: "لطفاً دوباره وارد شوید.",
+  },
+  expired: {
+    title: "نشست شما به پایان رسید",
+    description: "لطفاً دوباره وارد شوید.",
+  },
 };
 
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
 const mapUser = (dto: ApiUserDto): User => ({
   id: dto.id,
   name: dto.fullName,
@@ -97,26 +202,521 @@ const mapUser = (dto: ApiUserDto): User => ({
   avatar: dto.avatarUrl ?? null,
 });
 
-function persistSession(token: string, user: User) {
-  if (typeof window === "undefined") return;
+/** A sign-in answer that still asks for a second factor */
+const isTwoFactorChallenge = (response: ApiLoginResponse): response is Extract<ApiLoginResponse, { twoFactorRequired: true }> =>
+  "twoFactorRequired" in response && response.twoFactorRequired === true;
+
+/**
+ * The backend may leave the user out of an auth response; fetch it with the new token then
+ */
+const resolveAuthUser = async (response: ApiAuthResponse): Promise<ApiUserDto> =>
+  response.user ??
+  apiRequest<ApiUserDto>("/api/auth/me", {
+    method: "GET",
+    token: response.token,
+  });
+
+const PUBLIC_SETTINGS_STALE_TIME_MS = 5 * 60_000;
+
+/** Wait this long after a 429 that didn't say for how long */
+const DEFAULT_LOGIN_RETRY_SECONDS = 30;
+
+/**
+ * What a rejected sign-in means for the next attempt: wait, a locked account, a CAPTCHA to solve,
+ * or a plain wrong password. Null for failures that aren't about the credentials.
+ */
+const loginFailureResult = async (error: unknown, captcha?: CaptchaSolution): Promise<LoginResult | null> => {
+  if (!(error instanceof ApiError)) return null;
+  const details = (error.problem ?? {}) as ApiLoginFailureDetails;
+  if (error instanceof ApiRateLimitError) {
+    return { status: "rate-limited", retryAt: Date.now() + (error.retryAfterSeconds ?? DEFAULT_LOGIN_RETRY_SECONDS) * 1000 };
+  }
+  if (error instanceof ApiLockedError) {
+    return { status: "locked", lockedUntil: details.lockedUntil ?? null };
+  }
+  if (error instanceof ApiForbiddenError && details.error === "ACCOUNT_DISABLED") {
+    return { status: "disabled" };
+  }
+  const remainingAttempts = typeof details.remainingAttempts === "number" ? details.remainingAttempts : null;
+  if (details.captchaRequired) {
+    return {
+      status: "captcha-required",
+      captcha: await getCaptchaChallenge(),
+      invalidCaptcha: !!captcha && error instanceof ApiValidationError,
+      remainingAttempts,
+    };
+  }
+  if (error instanceof ApiUnauthorizedError) {
+    return { status: "failed", remainingAttempts };
+  }
+  return null;
+};
+
+/** Public settings through the shared cache; null when they can't be loaded */
+const loadPublicSettings = () =>
+  fetchQuery(queryKeys.publicSettings, getPublicSettings, { staleTime: PUBLIC_SETTINGS_STALE_TIME_MS }).catch(
+    () => null
+  );
+
+/**
+ * Check a new password against the configured policy before it is sent. Reported like a server
+ * validation error so forms show it on the field.
+ */
+const assertPasswordPolicy = async (password: string, email: string | null | undefined, field: string) => {
+  const settings = await loadPublicSettings();
+  const message = getPasswordPolicyError(password, passwordPolicyFromSettings(settings), email);
+  if (message) {
+    throw new ApiValidationError(message, { fieldErrors: { [field]: [message] } });
+  }
+};
+
+/**
+ * Save the session. Leave `refreshToken` undefined to keep the stored one; null removes it.
+ * In cookie mode nothing is stored: the tokens live in httpOnly cookies and the profile is
+ * loaded from the server on start-up.
+ */
+function persistSession(token: string, user: User, refreshToken?: string | null) {
+  if (typeof window === "undefined" || sessionMode === "cookie") return;
   localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, refreshToken);
+  } else if (refreshToken === null) {
+    localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
+  }
   localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
   localStorage.setItem("userEmail", user.email);
   localStorage.setItem("userName", user.name);
 }
 
-function clearSession() {
+/** The admin's own session, kept aside while they view the app as someone else */
+interface StoredImpersonation extends Impersonation {
+  /** Null in token mode in every tab but the one that started the impersonation */
+  token: string | null;
+  refreshToken: string | null;
+  /** Whose data to drop from this browser when the view ends */
+  viewedUserId?: string;
+}
+
+type ImpersonatorTokens = Pick<StoredImpersonation, "token" | "refreshToken">;
+
+/**
+ * In token mode the admin's tokens go to this tab's sessionStorage, so they neither outlive the
+ * tab nor sit in storage every tab can read. Cookie mode only has the proxy's handle to keep.
+ */
+function writeStoredImpersonation({ token, refreshToken, ...details }: StoredImpersonation) {
+  if (sessionMode === "token") {
+    sessionStorage.setItem(IMPERSONATOR_TOKENS_STORAGE_KEY, JSON.stringify({ token, refreshToken }));
+    localStorage.setItem(IMPERSONATION_STORAGE_KEY, JSON.stringify({ ...details, token: null, refreshToken: null }));
+  } else {
+    localStorage.setItem(IMPERSONATION_STORAGE_KEY, JSON.stringify({ ...details, token, refreshToken }));
+  }
+}
+
+function readStoredImpersonation(): StoredImpersonation | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(IMPERSONATION_STORAGE_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as StoredImpersonation;
+    if (sessionMode === "cookie") return stored;
+    const tokens = sessionStorage.getItem(IMPERSONATOR_TOKENS_STORAGE_KEY);
+    const { token, refreshToken }: ImpersonatorTokens = tokens
+      ? (JSON.parse(tokens) as ImpersonatorTokens)
+      : { token: null, refreshToken: null };
+    return { ...stored, token, refreshToken };
+  } catch {
+    return null;
+  }
+}
+
+function removeStoredImpersonation() {
+  localStorage.removeItem(IMPERSONATION_STORAGE_KEY);
+  sessionStorage.removeItem(IMPERSONATOR_TOKENS_STORAGE_KEY);
+}
+
+const toImpersonation = ({ impersonator, reason, expiresAt }: StoredImpersonation): Impersonation => ({
+  impersonator,
+  reason,
+  expiresAt,
+});
+
+/** Put the admin's session back in storage in place of the impersonated one */
+function restoreImpersonator(stored: StoredImpersonation & { token: string }) {
+  removeStoredImpersonation();
+  persistSession(stored.token, stored.impersonator, stored.refreshToken);
+}
+
+const holdsImpersonatorToken = (stored: StoredImpersonation | null): stored is StoredImpersonation & { token: string } =>
+  !!stored?.token;
+
+/** Forget the session in this browser's storage only */
+function clearStoredSession() {
   if (typeof window === "undefined") return;
+  removeStoredImpersonation();
   localStorage.removeItem(TOKEN_STORAGE_KEY);
   localStorage.removeItem(USER_STORAGE_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_STORAGE_KEY);
   localStorage.removeItem("userEmail");
   localStorage.removeItem("userName");
 }
 
+/**
+ * Token mode: revoke the refresh token on the server, the admin's own while impersonating.
+ * Cookie mode's proxy revokes it when the cookies are cleared.
+ */
+function revokeRefreshToken() {
+  if (typeof window === "undefined" || sessionMode === "cookie") return;
+  const refreshToken = readStoredImpersonation()?.refreshToken ?? localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+  if (!refreshToken) return;
+  const body: ApiLogoutRequest = { refreshToken };
+  void apiRequest<void>("/api/auth/logout", { method: "POST", token: null, body, silent: true }).catch(
+    (error: unknown) => console.warn("[session] failed to revoke the refresh token", error)
+  );
+}
+
+function clearSession() {
+  clearStoredSession();
+  if (sessionMode === "cookie") {
+    void endCookieSession();
+  }
+}
+
+/** Drop what this browser holds of the user an admin was viewing the app as */
+function discardViewedUser(stored: StoredImpersonation) {
+  try {
+    const viewedUser = localStorage.getItem(USER_STORAGE_KEY);
+    const viewedId = stored.viewedUserId ?? (viewedUser ? (JSON.parse(viewedUser) as User).id : null);
+    if (viewedId) {
+      void clearOfflineMirror(viewedId);
+      void discardOutbox(viewedId);
+    }
+  } catch {
+    // Nothing readable to clear
+  }
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [token, setToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [impersonation, setImpersonation] = useState<Impersonation | null>(null);
+  const impersonationRef = useRef<Impersonation | null>(null);
+  impersonationRef.current = impersonation;
+  const exitingRef = useRef<Promise<void> | null>(null);
+  const tokenRef = useRef<string | null>(null);
+  // Assigned during render so requests fired from children's effects already see the new token
+  tokenRef.current = token;
+  const userRef = useRef<User | null>(null);
+  userRef.current = user;
+  const refreshRef = useRef<Promise<string | null> | null>(null);
+  /**
+   * Token mode: a session the backend issued to an account that still has to enroll, kept in memory
+   * only and keyed by its challenge token. In cookie mode the proxy holds such sessions back itself.
+   */
+  const heldSessionRef = useRef<{ challengeToken: string; response: ApiAuthResponse } | null>(null);
+
+  /** Set when the account changed under mounted queries; they reload once the new token has rendered */
+  const reloadQueriesRef = useRef(false);
+
+  // Re-registering on every session change also re-arms the one-shot 401 event
+  useEffect(() => {
+    setApiTokenProvider(() => tokenRef.current);
+  }, [token]);
+
+  /**
+   * Nothing cached for one account may be shown to the next. `reload` refetches what is on screen
+   * as the new account; it waits for the render that hands the queries the new token.
+   */
+  const resetQueryCache = useCallback((reload: boolean) => {
+    clearQueryCache();
+    reloadQueriesRef.current = reload;
+  }, []);
+
+  useEffect(() => {
+    if (!reloadQueriesRef.current) return;
+    reloadQueriesRef.current = false;
+    void invalidateQueries([]);
+  }, [token]);
+
+  // Lets middleware.ts route page requests; kept while a stored session is still being verified
+  useEffect(() => {
+    if (token && user) {
+      writeRoleHint(user.role);
+    } else if (!isLoading) {
+      writeRoleHint(null);
+    }
+  }, [token, user, isLoading]);
+
+  /**
+   * Sign out locally; `broadcast` tells the other tabs to do the same
+   */
+  const endSession = useCallback((reason: SessionEndReason, broadcast = true) => {
+    // Queued changes stay for the next sign-in. The readable copy of the account's data goes,
+    // except on expiry, where the same user is expected to sign straight back in
+    const current = userRef.current;
+    if (current && reason !== "expired") {
+      void clearOfflineMirror(current.id);
+    }
+    setUser(null);
+    setToken(null);
+    setImpersonation(null);
+    resetQueryCache(false);
+    // The other tabs share the session, so only the tab that ends it revokes it; a rejected one needs no revoking
+    if (broadcast && reason !== "expired") {
+      revokeRefreshToken();
+    }
+    clearSession();
+    clearSessionActivity();
+    if (broadcast) {
+      broadcastSession({ type: "logout", reason });
+    }
+    if (reason !== "user" && current) {
+      toast({ ...sessionEndToasts[reason], variant: "destructive" });
+    }
+  }, [resetQueryCache]);
+
+  /**
+   * Trade the refresh token for a new access token. Concurrent callers share one request, and the
+   * tabs take turns, each first looking for tokens another tab has just stored.
+   * Resolves to null when there is nothing to refresh with; a refresh token the server turns down
+   * (400/401) ends the session. Rejects when the server can't be reached or fails, and the session
+   * stays for a later attempt.
+   */
+  const refreshSession = useCallback((): Promise<string | null> => {
+    if (refreshRef.current) return refreshRef.current;
+
+    const run = async () => {
+      // The proxy refreshes on its own; a 401 past it means the session is over, unless another tab
+      // has signed in since
+      if (sessionMode === "cookie") {
+        const { handle } = await getSessionInfo();
+        if (!handle || handle === tokenRef.current) return null;
+        setToken(handle);
+        return handle;
+      }
+
+      // One tab refreshes at a time: the refresh token is single-use
+      return withRefreshLock(async () => {
+        // Another tab may have refreshed already, or while this one waited for the lock
+        const storedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
+        if (storedToken && storedToken !== tokenRef.current && !isTokenExpired(storedToken, Date.now() + REFRESH_AHEAD_MS)) {
+          setToken(storedToken);
+          return storedToken;
+        }
+
+        const refreshToken = localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY);
+        if (!refreshToken) return null;
+
+        try {
+          const body: ApiRefreshTokenRequest = { refreshToken };
+          // Sent anonymously: a rejected refresh must not count as the session's 401
+          const response = await apiRequest<ApiRefreshTokenResponse>("/api/auth/refresh", {
+            method: "POST",
+            token: null,
+            body,
+          });
+          localStorage.setItem(TOKEN_STORAGE_KEY, response.token);
+          if (response.refreshToken) {
+            localStorage.setItem(REFRESH_TOKEN_STORAGE_KEY, response.refreshToken);
+          }
+          setToken(response.token);
+          broadcastSession({ type: "session-updated" });
+          return response.token;
+        } catch (error) {
+          if (error instanceof ApiValidationError || error instanceof ApiUnauthorizedError) {
+            // A tab that refreshed outside the lock (e.g. one still running an older build) used the
+            // token first; its newer tokens keep the session
+            const newerToken = localStorage.getItem(TOKEN_STORAGE_KEY);
+            if (
+              localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY) !== refreshToken &&
+              newerToken &&
+              !isTokenExpired(newerToken)
+            ) {
+              setToken(newerToken);
+              return newerToken;
+            }
+            endSession("expired");
+            return null;
+          }
+          throw error;
+        }
+      });
+    };
+
+    refreshRef.current = run().finally(() => {
+      refreshRef.current = null;
+    });
+    return refreshRef.current;
+  }, [endSession]);
+
+  /**
+   * Leave the user's view: close the audited session on the server and switch back to the admin.
+   * Concurrent callers (the exit button, expiry, a 401) share one exit.
+   */
+  const leaveImpersonation = useCallback((expired: boolean): Promise<void> => {
+    if (exitingRef.current) return exitingRef.current;
+
+    const run = async () => {
+      const stored = readStoredImpersonation();
+      const viewedUser = userRef.current;
+      const impersonationToken = tokenRef.current;
+      if (!stored) {
+        setImpersonation(null);
+        return;
+      }
+      // A failure here must not keep the admin in the user's view; the token expires on its own anyway.
+      // In cookie mode the call is what switches the cookies back, so it's made even after expiry
+      const endOnServer = async () => {
+        if (!impersonationToken || (expired && sessionMode !== "cookie")) return;
+        await apiRequest<void>("/api/auth/impersonate/end", {
+          method: "POST",
+          token: impersonationToken,
+          silent: true,
+        }).catch((error: unknown) => console.warn("Ending the impersonation failed:", error));
+      };
+      if (!holdsImpersonatorToken(stored)) {
+        // Only the tab that started it has the admin's tokens; it switches every tab back
+        broadcastSession({ type: "leave-impersonation" });
+        await new Promise((resolve) => setTimeout(resolve, LEAVE_IMPERSONATION_WAIT_MS));
+        if (readStoredImpersonation()) {
+          // That tab is closed and the admin's session went with it
+          await endOnServer();
+          endSession("user");
+        }
+        return;
+      }
+      await endOnServer();
+      if (viewedUser) {
+        void clearOfflineMirror(viewedUser.id);
+        void discardOutbox(viewedUser.id);
+      }
+      restoreImpersonator(stored);
+      resetQueryCache(true);
+      setImpersonation(null);
+      setUser(stored.impersonator);
+      setToken(stored.token);
+      broadcastSession({ type: "session-updated" });
+      if (expired) {
+        toast(impersonationExpiredToast);
+      }
+    };
+
+    exitingRef.current = run().finally(() => {
+      exitingRef.current = null;
+    });
+    return exitingRef.current;
+  }, [endSession, resetQueryCache]);
+
+  useEffect(() => {
+    return onApiUnauthorized(() => {
+      // A rejected impersonation token hands the browser back to the admin
+      if (impersonationRef.current) {
+        void leaveImpersonation(true);
+        return;
+      }
+      // The access token may just have expired; only a failed refresh ends the session. When the
+      // server can't refresh it right now, the refresh timer tries again
+      refreshSession().then(
+        (next) => {
+          if (!next && tokenRef.current) endSession("expired");
+        },
+        (error: unknown) => console.warn("Refreshing the session failed:", error)
+      );
+    });
+  }, [endSession, leaveImpersonation, refreshSession]);
+
+  // Refresh ahead of expiry; without a refresh token the session ends when the token does
+  useEffect(() => {
+    if (!token) return;
+    const expiry = getTokenExpiry(token);
+    if (expiry === null) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+    let failures = 0;
+    // An impersonation token isn't refreshed; the admin's own session takes over when it runs out
+    const impersonating = impersonationRef.current !== null;
+    const schedule = (at: number) => {
+      timer = setTimeout(() => {
+        if (Date.now() < at) schedule(at);
+        else void run();
+      }, Math.min(Math.max(0, at - Date.now()), MAX_TIMER_DELAY_MS));
+    };
+    const run = async () => {
+      if (impersonating) {
+        void leaveImpersonation(true);
+        return;
+      }
+      let refreshed: string | null;
+      try {
+        refreshed = await refreshSession();
+      } catch {
+        // The server is down or failing: keep the session, and back off while it recovers
+        if (!cancelled) {
+          const backoff = Math.min(REFRESH_RETRY_MS * 2 ** failures++, REFRESH_MAX_BACKOFF_MS);
+          schedule(Date.now() + backoff + Math.random() * REFRESH_JITTER_MS);
+        }
+        return;
+      }
+      // A new token re-runs this effect
+      if (refreshed || cancelled) return;
+      if (Date.now() < expiry) {
+        schedule(Math.min(expiry, Date.now() + REFRESH_RETRY_MS));
+      } else if (navigator.onLine) {
+        endSession("expired");
+      }
+      // Offline past expiry the mirrored data stays readable; the first request once online decides
+    };
+
+    schedule(impersonating ? expiry : expiry - REFRESH_AHEAD_MS - Math.random() * REFRESH_JITTER_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [token, endSession, leaveImpersonation, refreshSession]);
+
+  // Keep every open tab on the same session
+  useEffect(() => {
+    return subscribeSession((message) => {
+      if (message.type === "logout") {
+        endSession(message.reason, false);
+        return;
+      }
+      if (message.type === "leave-impersonation") {
+        if (holdsImpersonatorToken(readStoredImpersonation())) void leaveImpersonation(false);
+        return;
+      }
+      const adoptSession = (storedToken: string | null, nextUser: User | null) => {
+        if (!storedToken) return;
+        const storedImpersonation = readStoredImpersonation();
+        setImpersonation(storedImpersonation ? toImpersonation(storedImpersonation) : null);
+        // Another tab signed in as someone else or switched impersonation
+        if (nextUser && nextUser.id !== userRef.current?.id) resetQueryCache(true);
+        setToken(storedToken);
+        // Without one, keep the current user; the next sign-in rewrites it
+        if (nextUser) setUser(nextUser);
+      };
+      if (sessionMode === "cookie") {
+        // The cookies are shared already; only the handle is per tab, and the profile isn't stored
+        getSessionInfo()
+          .then(async ({ handle }) => {
+            if (!handle) return;
+            const me = await apiRequest<ApiUserDto>("/api/auth/me", { token: handle });
+            adoptSession(handle, mapUser(me));
+          })
+          .catch((error: unknown) => console.warn("[session] failed to read the session", error));
+      } else {
+        const storedUser = localStorage.getItem(USER_STORAGE_KEY);
+        let nextUser: User | null = null;
+        try {
+          nextUser = storedUser ? (JSON.parse(storedUser) as User) : null;
+        } catch {
+          // Unreadable; keep the current user
+        }
+        adoptSession(localStorage.getItem(TOKEN_STORAGE_KEY), nextUser);
+      }
+    });
+  }, [endSession, leaveImpersonation, resetQueryCache]);
 
   const fetchCurrentUser = async (authToken: string) => {
     try {
@@ -126,8 +726,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const mapped = mapUser(me);
       setUser(mapped);
       persistSession(authToken, mapped);
-    } catch {
+    } catch (error) {
+      // Offline or a failing server: keep the stored session so the mirrored tickets stay readable; the
+      // next request verifies it
+      if (error instanceof ApiNetworkError || error instanceof ApiTimeoutError || error instanceof ApiServerError) {
+        return;
+      }
       clearSession();
+      resetQueryCache(false);
       setUser(null);
       setToken(null);
     } finally {
@@ -135,12 +741,70 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Cookie mode start-up: the proxy says whether the session cookie is set and the profile is
+   * loaded with it
+   */
+  const loadCookieSession = async (storedImpersonation: StoredImpersonation | null) => {
+    try {
+      let { handle } = await getSessionInfo();
+      if (storedImpersonation && !handle) {
+        // It ran out while the app was closed; the proxy puts the admin's cookie back
+        await apiRequest<void>("/api/auth/impersonate/end", { method: "POST", token: null, silent: true }).catch(
+          () => undefined
+        );
+        discardViewedUser(storedImpersonation);
+        if (holdsImpersonatorToken(storedImpersonation)) {
+          restoreImpersonator(storedImpersonation);
+        } else {
+          removeStoredImpersonation();
+        }
+        ({ handle } = await getSessionInfo());
+      } else if (storedImpersonation) {
+        setImpersonation(toImpersonation(storedImpersonation));
+      }
+      if (!handle) {
+        clearStoredSession();
+        setIsLoading(false);
+        return;
+      }
+      setToken(handle);
+      await fetchCurrentUser(handle);
+    } catch (error) {
+      // The app itself is unreachable; nothing to restore from
+      console.warn("[session] failed to read the session", error);
+      setIsLoading(false);
+    }
+  };
+
   useEffect(() => {
     if (typeof window === "undefined") {
       setIsLoading(false);
       return;
     }
 
+    const storedImpersonation = readStoredImpersonation();
+
+    if (sessionMode === "cookie") {
+      void loadCookieSession(storedImpersonation);
+      return;
+    }
+
+    if (storedImpersonation) {
+      const viewedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
+      if (viewedToken && !isTokenExpired(viewedToken)) {
+        setImpersonation(toImpersonation(storedImpersonation));
+      } else if (holdsImpersonatorToken(storedImpersonation)) {
+        // It ran out while the app was closed; continue as the admin
+        discardViewedUser(storedImpersonation);
+        restoreImpersonator(storedImpersonation);
+      } else {
+        // Ran out, and the admin's tokens left with the tab that held them
+        discardViewedUser(storedImpersonation);
+        clearStoredSession();
+      }
+    }
+
     const storedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
     const storedUser = localStorage.getItem(USER_STORAGE_KEY);
 
@@ -162,7 +826,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setIsLoading(false);
       }, 5000); // 5 second timeout
 
-      fetchCurrentUser(storedToken)
+      // A token that expired while the app was closed is refreshed before it's used. When the server
+      // can't refresh it yet, the stored session stays and the refresh timer tries again
+      const currentToken = isTokenExpired(storedToken)
+        ? refreshSession().then(
+            (fresh) => fresh ?? storedToken,
+            () => null
+          )
+        : Promise.resolve(storedToken);
+
+      currentToken
+        .then((authToken) => (authToken ? fetchCurrentUser(authToken) : setIsLoading(false)))
         .finally(() => {
           clearTimeout(timeoutId);
         });
@@ -172,31 +846,142 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const startSession = (response: ApiAuthResponse, mapped: User) => {
+    resetQueryCache(true);
+    setUser(mapped);
+    setToken(response.token);
+    persistSession(response.token, mapped, response.refreshToken ?? null);
+    markSessionActivity();
+    broadcastSession({ type: "session-updated" });
+  };
+
+  /**
+   * When require2FA is on, an account without an authenticator doesn't get in until it enrolls.
+   * The backend enforces this: such sign-ins get an enrollment challenge and no token. This check
+   * only keeps the page from starting a session it was handed anyway, and fails closed: unless the
+   * settings say require2FA is off, the account's status decides, and a failed lookup throws.
+   */
+  const mustEnroll = async (response: ApiAuthResponse) => {
+    const settings = await loadPublicSettings();
+    if (settings?.require2FA === false) return false;
+    const status = await getTwoFactorStatus(response.token);
+    return !status.enabled;
+  };
+
+  /** Start the session a sign-in answer carries, or report the two-factor step it still needs */
+  const completeLogin = async (response: ApiLoginResponse): Promise<LoginResult> => {
+    if (isTwoFactorChallenge(response)) {
+      const challenge = { token: response.challengeToken, expiresAt: response.expiresAt };
+      return response.enrollmentRequired
+        ? { status: "enrollment-required", challenge }
+        : { status: "two-factor-required", challenge };
+    }
+    if (await mustEnroll(response)) {
+      heldSessionRef.current = { challengeToken: response.token, response };
+      return { status: "enrollment-required", challenge: { token: response.token } };
+    }
+    const mapped = mapUser(await resolveAuthUser(response));
+    startSession(response, mapped);
+    return { status: "signed-in" };
+  };
+
+  const login = async (email: string, password: string, captcha?: CaptchaSolution): Promise<LoginResult> => {
     setIsLoading(true);
     try {
-      const response = await apiRequest<ApiAuthResponse>("/api/auth/login", {
+      const body: ApiLoginRequest = captcha
+        ? { email, password, captchaId: captcha.id, captchaAnswer: captcha.answer }
+        : { email, password };
+      const response = await apiRequest<ApiLoginResponse>("/api/auth/login", {
         method: "POST",
-        body: { email, password },
+        body,
       });
-      const mapped = mapUser(response.user);
-      setUser(mapped);
-      setToken(response.token);
-      persistSession(response.token, mapped);
-      return true;
-    } catch (error: any) {
+      return await completeLogin(response);
+    } catch (error) {
       // Log the actual error for debugging
       console.error("Login error:", error);
       // Check if it's a network error (backend not running)
-      if (error?.message?.includes("fetch") || error?.message?.includes("Failed to fetch")) {
+      if (error instanceof ApiNetworkError) {
         console.error("Backend may not be running. Check if the API server is running on http://localhost:5000");
       }
-      return false;
+      const failure = await loginFailureResult(error, captcha).catch(() => null);
+      if (failure) {
+        return failure;
+      }
+      // Field-level problems go back to the form; everything else is a plain failed login
+      if (error instanceof ApiValidationError) {
+        throw error;
+      }
+      return { status: "failed", remainingAttempts: null };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loginWithOidc = async ({ idToken }: OidcCallbackResult): Promise<LoginResult> => {
+    setIsLoading(true);
+    try {
+      const response = await apiRequest<ApiLoginResponse>("/api/auth/oidc", {
+        method: "POST",
+        body: { idToken } satisfies ApiOidcLoginRequest,
+      });
+      return await completeLogin(response);
+    } catch (error) {
+      if (error instanceof ApiForbiddenError && (error.problem as ApiLoginFailureDetails | undefined)?.error === "ACCOUNT_DISABLED") {
+        return { status: "disabled" };
+      }
+      throw error;
     } finally {
       setIsLoading(false);
     }
   };
 
+  const verifyTwoFactor = async (
+    challenge: TwoFactorChallenge,
+    code: string,
+    { recovery = false }: { recovery?: boolean } = {}
+  ): Promise<LoginResult> => {
+    try {
+      const response = await verifyTwoFactorChallenge({
+        challengeToken: challenge.token,
+        ...(recovery ? { recoveryCode: code } : { code }),
+      });
+      const mapped = mapUser(await resolveAuthUser(response));
+      startSession(response, mapped);
+      return { status: "signed-in" };
+    } catch (error) {
+      const details = (error instanceof ApiError ? error.problem ?? {} : {}) as ApiLoginFailureDetails;
+      if (error instanceof ApiLockedError) {
+        return { status: "locked", lockedUntil: details.lockedUntil ?? null };
+      }
+      // A wrong code; an expired challenge is reported the same way and needs the password again
+      if (error instanceof ApiValidationError || error instanceof ApiUnauthorizedError) {
+        const remainingAttempts = typeof details.remainingAttempts === "number" ? details.remainingAttempts : null;
+        return { status: "invalid-code", remainingAttempts, challengeExpired: !!details.challengeExpired };
+      }
+      throw error;
+    }
+  };
+
+  const enrollTwoFactor = async (challenge: TwoFactorChallenge, code: string): Promise<TwoFactorEnrollment> => {
+    const { recoveryCodes, ...issued } = await enableTwoFactor(challenge.token, code);
+    const held = heldSessionRef.current?.challengeToken === challenge.token ? heldSessionRef.current.response : null;
+    const response =
+      issued.token && issued.refreshToken
+        ? { ...issued, token: issued.token, refreshToken: issued.refreshToken }
+        : held;
+    if (!response) {
+      throw new Error("The server did not issue a session after enrollment");
+    }
+    const mapped = mapUser(await resolveAuthUser(response));
+    return {
+      recoveryCodes,
+      complete: () => {
+        heldSessionRef.current = null;
+        startSession(response, mapped);
+      },
+    };
+  };
+
   const register = async (userData: {
     name: string;
     email: string;
@@ -207,7 +992,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }) => {
     setIsLoading(true);
     try {
-      const response = await apiRequest<ApiAuthResponse>("/api/auth/register", {
+      const settings = await loadPublicSettings();
+      if (!isEmailDomainAllowed(userData.email, settings?.allowedEmailDomains)) {
+        const message = emailDomainError(settings?.allowedEmailDomains ?? []);
+        throw new ApiValidationError(message, { fieldErrors: { email: [message] } });
+      }
+      await assertPasswordPolicy(userData.password, userData.email, "password");
+
+      const response = await apiRequest<ApiLoginResponse>("/api/auth/register", {
         method: "POST",
         body: {
           fullName: userData.name,
@@ -218,24 +1010,55 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           department: userData.department,
         },
       });
-      const mapped = mapUser(response.user);
-      setUser(mapped);
-      setToken(response.token);
-      persistSession(response.token, mapped);
+      // The account exists; one that has to enroll in two-factor authentication does so at its first sign-in
+      if (isTwoFactorChallenge(response) || (await mustEnroll(response))) {
+        return true;
+      }
+      const mapped = mapUser(await resolveAuthUser(response));
+      startSession(response, mapped);
       return true;
-    } catch {
+    } catch (error) {
+      if (error instanceof ApiValidationError) {
+        throw error;
+      }
       return false;
     } finally {
       setIsLoading(false);
     }
   };
 
-  const logout = () => {
-    setUser(null);
-    setToken(null);
-    clearSession();
+  const logout = (reason: SessionEndReason = "user") => {
+    endSession(reason);
   };
 
+  const startImpersonation = async (userId: string, reason: string) => {
+    if (!token || !user) throw new Error("Authentication required");
+    if (impersonation) throw new Error("Already viewing the app as another user");
+    const response = await apiRequest<ApiImpersonationResponse>("/api/auth/impersonate", {
+      method: "POST",
+      token,
+      body: { userId, reason } satisfies ApiImpersonationRequest,
+    });
+    const stored: StoredImpersonation = {
+      impersonator: user,
+      reason,
+      expiresAt: response.expiresAt ?? null,
+      token,
+      refreshToken: localStorage.getItem(REFRESH_TOKEN_STORAGE_KEY),
+      viewedUserId: userId,
+    };
+    writeStoredImpersonation(stored);
+    const mapped = mapUser(response.user);
+    persistSession(response.token, mapped, null);
+    resetQueryCache(true);
+    setImpersonation(toImpersonation(stored));
+    setUser(mapped);
+    setToken(response.token);
+    broadcastSession({ type: "session-updated" });
+  };
+
+  const exitImpersonation = () => leaveImpersonation(false);
+
   const updateProfile = async (updates: Partial<Omit<User, "id" | "role">>) => {
     if (!token) return false;
     try {
@@ -270,6 +1093,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   ) => {
     if (!token) return false;
     try {
+      await assertPasswordPolicy(newPassword, user?.email, "newPassword");
       const response = await apiRequest<{ success: boolean; message: string }>("/api/auth/change-password", {
         method: "POST",
         token,
@@ -280,7 +1104,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         },
       });
       return response?.success ?? true;
-    } catch (error: any) {
+    } catch (error) {
       console.error("Change password error:", error);
       // Re-throw to allow form to handle specific error messages
       throw error;
@@ -291,8 +1115,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     user,
     token,
     login,
+    loginWithOidc,
+    verifyTwoFactor,
+    enrollTwoFactor,
     register,
     logout,
+    impersonation,
+    startImpersonation,
+    exitImpersonation,
     updateProfile,
     changePassword,
     isLoading,
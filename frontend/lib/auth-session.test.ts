@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { withRefreshLock } from "./auth-session"
+
+const LEASE_KEY = "ticketing.auth.refreshLease"
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, String(value)),
+  }
+}
+
+describe("withRefreshLock", () => {
+  beforeEach(() => {
+    vi.stubGlobal("window", {})
+    vi.stubGlobal("localStorage", memoryStorage())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("runs the task under the Web Lock when the browser has one", async () => {
+    const request = vi.fn((_name: string, task: () => Promise<unknown>) => task())
+    vi.stubGlobal("navigator", { locks: { request } })
+    await expect(withRefreshLock(async () => "token")).resolves.toBe("token")
+    expect(request).toHaveBeenCalledWith("ticketing.auth.refresh", expect.any(Function))
+  })
+
+  describe("without Web Locks", () => {
+    beforeEach(() => {
+      vi.stubGlobal("navigator", {})
+    })
+
+    it("runs one task at a time", async () => {
+      const events: string[] = []
+      const task = (name: string) => async () => {
+        events.push(`${name} start`)
+        await new Promise((resolve) => setTimeout(resolve, 50))
+        events.push(`${name} end`)
+        return name
+      }
+      await expect(Promise.all([withRefreshLock(task("a")), withRefreshLock(task("b"))])).resolves.toEqual(["a", "b"])
+      expect(events).toEqual(["a start", "a end", "b start", "b end"])
+      expect(localStorage.getItem(LEASE_KEY)).toBeNull()
+    })
+
+    it("takes over a lease its tab left behind", async () => {
+      localStorage.setItem(LEASE_KEY, JSON.stringify({ owner: "closed tab", until: Date.now() - 1 }))
+      await expect(withRefreshLock(async () => "token")).resolves.toBe("token")
+    })
+
+    it("frees the lease when the task fails", async () => {
+      await expect(withRefreshLock(async () => Promise.reject(new Error("offline")))).rejects.toThrow("offline")
+      expect(localStorage.getItem(LEASE_KEY)).toBeNull()
+    })
+  })
+})
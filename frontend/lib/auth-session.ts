@@ -0,0 +1,175 @@
+/**
+ * Session helpers for AuthProvider: reading a JWT's expiry, and keeping every open tab's
+ * session in step (sign-out, refreshed tokens, one refresh at a time, user activity).
+ */
+
+const CHANNEL_NAME = "ticketing.auth"
+/** Fallback transport for browsers without BroadcastChannel; the storage event reaches other tabs */
+const EVENT_STORAGE_KEY = "ticketing.auth.event"
+const ACTIVITY_STORAGE_KEY = "ticketing.auth.lastActivity"
+const REFRESH_LOCK_NAME = "ticketing.auth.refresh"
+/** Fallback for browsers without the Web Locks API: a lease in localStorage */
+const REFRESH_LEASE_STORAGE_KEY = "ticketing.auth.refreshLease"
+/** A tab that closes mid-refresh leaves its lease behind; the others take over after this long */
+const REFRESH_LEASE_MS = 15_000
+const REFRESH_LEASE_POLL_MS = 100
+
+export type SessionEndReason = "user" | "idle" | "expired"
+
+export type SessionMessage =
+  | { type: "logout"; reason: SessionEndReason }
+  /** Another tab signed in or refreshed the token; read the new one from storage */
+  | { type: "session-updated" }
+  /** A tab without the admin's own tokens asks the one holding them to end the impersonation */
+  | { type: "leave-impersonation" }
+
+interface JwtPayload {
+  exp?: number
+  iat?: number
+  [claim: string]: unknown
+}
+
+/**
+ * Claims of a JWT, without verifying it; the server does that. Null when it isn't a readable JWT.
+ */
+export function decodeJwt(token: string): JwtPayload | null {
+  const payload = token.split(".")[1]
+  if (!payload) return null
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(payload.length / 4) * 4, "=")
+    const json = decodeURIComponent(
+      Array.from(atob(base64), (char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`).join(""),
+    )
+    return JSON.parse(json) as JwtPayload
+  } catch {
+    return null
+  }
+}
+
+/**
+ * When the token expires, in epoch ms; null when it carries no `exp`
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp
+  return typeof exp === "number" ? exp * 1000 : null
+}
+
+export function isTokenExpired(token: string, now = Date.now()): boolean {
+  const expiry = getTokenExpiry(token)
+  return expiry !== null && expiry <= now
+}
+
+let channel: BroadcastChannel | null | undefined
+
+const getChannel = () => {
+  if (typeof channel === "undefined") {
+    channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(CHANNEL_NAME)
+  }
+  return channel
+}
+
+/**
+ * Tell the other tabs about a session change. The sending tab doesn't receive its own message.
+ */
+export function broadcastSession(message: SessionMessage) {
+  if (typeof window === "undefined") return
+  const current = getChannel()
+  if (current) {
+    current.postMessage(message)
+    return
+  }
+  // A changing value is needed for the storage event to fire every time
+  localStorage.setItem(EVENT_STORAGE_KEY, JSON.stringify({ ...message, at: Date.now() }))
+  localStorage.removeItem(EVENT_STORAGE_KEY)
+}
+
+/**
+ * Receive session changes made in other tabs; returns the unsubscribe function
+ */
+export function subscribeSession(listener: (message: SessionMessage) => void): () => void {
+  if (typeof window === "undefined") return () => {}
+  const current = getChannel()
+  if (current) {
+    const handleMessage = (event: MessageEvent<SessionMessage>) => listener(event.data)
+    current.addEventListener("message", handleMessage)
+    return () => current.removeEventListener("message", handleMessage)
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== EVENT_STORAGE_KEY || !event.newValue) return
+    try {
+      listener(JSON.parse(event.newValue) as SessionMessage)
+    } catch {
+      // Not ours
+    }
+  }
+  window.addEventListener("storage", handleStorage)
+  return () => window.removeEventListener("storage", handleStorage)
+}
+
+interface RefreshLease {
+  owner: string
+  until: number
+}
+
+const readLease = (): RefreshLease | null => {
+  try {
+    return JSON.parse(localStorage.getItem(REFRESH_LEASE_STORAGE_KEY) ?? "null") as RefreshLease | null
+  } catch {
+    return null
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Run `task` while no other tab runs one. Refresh tokens are single-use, so two tabs refreshing
+ * with the same one would have the second turned down and sign the user out; the tab that waited
+ * finds the new tokens in storage instead.
+ */
+export async function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof window === "undefined") return task()
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(REFRESH_LOCK_NAME, task)
+  }
+
+  // Storage is shared but not atomic: write the lease, then check no other tab overwrote it
+  const owner = `${Date.now()}-${Math.random().toString(36).slice(2)}`
+  for (;;) {
+    const lease = readLease()
+    if (!lease || lease.until <= Date.now()) {
+      localStorage.setItem(REFRESH_LEASE_STORAGE_KEY, JSON.stringify({ owner, until: Date.now() + REFRESH_LEASE_MS }))
+      await sleep(REFRESH_LEASE_POLL_MS)
+      if (readLease()?.owner === owner) break
+    } else {
+      await sleep(REFRESH_LEASE_POLL_MS)
+    }
+  }
+  try {
+    return await task()
+  } finally {
+    if (readLease()?.owner === owner) localStorage.removeItem(REFRESH_LEASE_STORAGE_KEY)
+  }
+}
+
+/**
+ * Record user activity. Shared through localStorage so working in one tab keeps the others signed in too.
+ */
+export function markSessionActivity(now = Date.now()) {
+  if (typeof window === "undefined") return
+  localStorage.setItem(ACTIVITY_STORAGE_KEY, String(now))
+}
+
+/**
+ * Epoch ms of the latest activity in any tab; null before any was recorded
+ */
+export function getLastSessionActivity(): number | null {
+  if (typeof window === "undefined") return null
+  const value = Number(localStorage.getItem(ACTIVITY_STORAGE_KEY))
+  return Number.isFinite(value) && value > 0 ? value : null
+}
+
+export function clearSessionActivity() {
+  if (typeof window === "undefined") return
+  localStorage.removeItem(ACTIVITY_STORAGE_KEY)
+}
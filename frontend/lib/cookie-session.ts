@@ -0,0 +1,90 @@
+/*
+ * Cookie session mode (NEXT_PUBLIC_SESSION_MODE=cookie). The browser never sees the JWT: the
+ * route handler in app/api/[...path] proxies every /api call to the backend, keeps the access and
+ * refresh tokens in httpOnly cookies and attaches them on the server. Writes must repeat the
+ * readable CSRF cookie in a header (double submit).
+ *
+ * AuthProvider still tracks a token, but in this mode it is an opaque handle that only says that
+ * a session exists; apiRequest never sends it.
+ */
+
+export type SessionMode = "token" | "cookie"
+
+export const sessionMode: SessionMode = process.env.NEXT_PUBLIC_SESSION_MODE === "cookie" ? "cookie" : "token"
+
+export const SESSION_COOKIE = "tiq_session"
+export const REFRESH_COOKIE = "tiq_refresh"
+/** The admin's own access token while they view the app as another user */
+export const IMPERSONATOR_COOKIE = "tiq_impersonator"
+export const CSRF_COOKIE = "tiq_csrf"
+export const CSRF_HEADER = "X-CSRF-Token"
+
+/** The proxy answers sign-ins with one of these in place of the token */
+export const SESSION_HANDLE_PREFIX = "cookie-session:"
+
+/** Served by the app itself, not the backend */
+export const SESSION_ROUTE = "/api/session"
+export const HUB_TOKEN_ROUTE = "/api/session/hub-token"
+
+export const CSRF_SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"])
+
+export interface SessionInfo {
+  /** Null when there is no session cookie */
+  handle: string | null
+  csrfToken: string
+}
+
+export const isSessionHandle = (token: string | null | undefined): token is string =>
+  !!token && token.startsWith(SESSION_HANDLE_PREFIX)
+
+const readCookie = (name: string) => {
+  if (typeof document === "undefined") return null
+  const prefix = `${name}=`
+  const cookie = document.cookie.split("; ").find((item) => item.startsWith(prefix))
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null
+}
+
+let sessionRequest: Promise<SessionInfo> | null = null
+
+/**
+ * Ask the proxy whether a session cookie is set; also issues the CSRF cookie. Concurrent callers share one request.
+ */
+export function getSessionInfo(): Promise<SessionInfo> {
+  sessionRequest ??= fetch(SESSION_ROUTE, { method: "GET", cache: "no-store" })
+    .then((response) => {
+      if (!response.ok) throw new Error(`Session check failed with ${response.status}`)
+      return response.json() as Promise<SessionInfo>
+    })
+    .finally(() => {
+      sessionRequest = null
+    })
+  return sessionRequest
+}
+
+/**
+ * The CSRF token to send with a write, fetching the cookie first when this browser has none yet
+ */
+export async function ensureCsrfToken(): Promise<string> {
+  return readCookie(CSRF_COOKIE) ?? (await getSessionInfo()).csrfToken
+}
+
+/**
+ * Revoke the session's refresh token and clear the session cookies
+ */
+export async function endCookieSession(): Promise<void> {
+  await fetch(SESSION_ROUTE, {
+    method: "DELETE",
+    headers: { [CSRF_HEADER]: await ensureCsrfToken() },
+  }).catch((error: unknown) => console.warn("[session] failed to clear the session cookies", error))
+}
+
+/**
+ * A short-lived, hub-scoped token for the SignalR hub, which the browser connects to directly.
+ * Kept in memory only for the connection attempt.
+ */
+export async function getHubAccessToken(): Promise<string> {
+  const response = await fetch(HUB_TOKEN_ROUTE, { method: "GET", cache: "no-store" })
+  if (!response.ok) return ""
+  const { accessToken } = (await response.json()) as { accessToken: string }
+  return accessToken
+}
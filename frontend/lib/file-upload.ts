@@ -1,49 +1,163 @@
-export interface UploadedFile {
-  id: string
-  name: string
-  size: number
-  type: string
-  url: string
-  uploadedAt: string
+import { ApiCancelledError } from "./api-errors"
+import type { ApiAttachmentDto, ApiPublicSettingsResponse } from "./api-types"
+import {
+  cancelUploadSession,
+  completeUploadSession,
+  createUploadSession,
+  getUploadSession,
+  uploadChunk,
+  uploadTicketAttachment,
+} from "./attachments-api"
+import type { UserRole } from "@/types"
+
+const MB = 1024 * 1024
+
+/** Files from this size on are sent in resumable chunks instead of one request */
+const RESUMABLE_THRESHOLD_BYTES = 8 * MB
+const RESUME_STORAGE_PREFIX = "its.upload:"
+
+export interface AttachmentPolicy {
+  maxSizeMB: number
+  canUpload: boolean
 }
 
-export const validateFile = (file: File): string | null => {
-  const maxSize = 10 * 1024 * 1024 // 10MB
-  const allowedTypes = [
-    "image/jpeg",
-    "image/png",
-    "image/gif",
-    "application/pdf",
-    "text/plain",
-    "application/msword",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    "application/vnd.ms-excel",
-    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  ]
+/** Used until the settings have loaded; the server enforces the real limits either way */
+export const DEFAULT_ATTACHMENT_POLICY: AttachmentPolicy = { maxSizeMB: 10, canUpload: true }
+
+/**
+ * Upload rules for a user, from the system settings. Staff can always attach files;
+ * clients only when `allowClientAttachments` is on.
+ */
+export const getAttachmentPolicy = (
+  settings: Pick<ApiPublicSettingsResponse, "allowClientAttachments" | "maxAttachmentSizeMB"> | null | undefined,
+  role: UserRole | undefined
+): AttachmentPolicy => ({
+  maxSizeMB: settings?.maxAttachmentSizeMB ?? DEFAULT_ATTACHMENT_POLICY.maxSizeMB,
+  canUpload: role !== "client" || (settings?.allowClientAttachments ?? DEFAULT_ATTACHMENT_POLICY.canUpload),
+})
+
+export const validateFile = (file: File, policy: AttachmentPolicy = DEFAULT_ATTACHMENT_POLICY): string | null => {
+  if (!policy.canUpload) {
+    return "امکان ارسال پیوست برای شما فعال نیست"
+  }
 
-  if (file.size > maxSize) {
-    return "حجم فایل نباید بیشتر از ۱۰ مگابایت باشد"
+  if (file.size === 0) {
+    return "فایل خالی است"
   }
 
-  if (!allowedTypes.includes(file.type)) {
-    return "نوع فایل مجاز نیست"
+  if (file.size > policy.maxSizeMB * MB) {
+    return `حجم فایل نباید بیشتر از ${policy.maxSizeMB.toLocaleString("fa-IR")} مگابایت باشد`
   }
 
   return null
 }
 
-export const uploadFile = async (file: File): Promise<UploadedFile> => {
-  // Simulate file upload
-  await new Promise((resolve) => setTimeout(resolve, 1000))
+/** A file picked before its ticket exists; it is uploaded once the ticket has been created */
+export interface PendingAttachment {
+  id: string
+  file: File
+}
+
+export interface UploadFileOptions {
+  /** Attach to a reply instead of the ticket itself */
+  messageId?: string | null
+  signal?: AbortSignal
+  /** Percentage from 0 to 100 */
+  onProgress?: (percent: number) => void
+}
+
+// The upload ID survives a reload, so picking the same file again for the same ticket resumes it
+const resumeKey = (ticketId: string, file: File) =>
+  `${RESUME_STORAGE_PREFIX}${ticketId}:${file.name}:${file.size}:${file.lastModified}`
+
+const readResumeId = (key: string) => (typeof window === "undefined" ? null : window.localStorage.getItem(key))
+
+const writeResumeId = (key: string, uploadId: string | null) => {
+  if (typeof window === "undefined") return
+  if (uploadId) {
+    window.localStorage.setItem(key, uploadId)
+  } else {
+    window.localStorage.removeItem(key)
+  }
+}
+
+const uploadResumable = async (
+  token: string | null,
+  ticketId: string,
+  file: File,
+  { messageId, signal, onProgress }: UploadFileOptions
+): Promise<ApiAttachmentDto> => {
+  const key = resumeKey(ticketId, file)
+  const reportProgress = (bytes: number) => onProgress?.(Math.min(100, Math.round((bytes / file.size) * 100)))
 
-  return {
-    id: Math.random().toString(36).substr(2, 9),
-    name: file.name,
-    size: file.size,
-    type: file.type,
-    url: URL.createObjectURL(file),
-    uploadedAt: new Date().toISOString(),
+  let session = null
+  const savedId = readResumeId(key)
+  if (savedId) {
+    // An expired or finished session is simply started over
+    session = await getUploadSession(token, savedId).catch(() => null)
   }
+  if (!session) {
+    session = await createUploadSession(token, ticketId, {
+      fileName: file.name,
+      contentType: file.type || "application/octet-stream",
+      size: file.size,
+      messageId,
+    })
+  }
+  writeResumeId(key, session.uploadId)
+
+  const { uploadId, chunkSize } = session
+  let offset = session.receivedBytes
+  reportProgress(offset)
+
+  try {
+    while (offset < file.size) {
+      const start = offset
+      const chunk = file.slice(start, start + chunkSize)
+      const next = await uploadChunk(token, uploadId, chunk, start, file.size, {
+        signal,
+        onProgress: (loaded) => reportProgress(start + loaded),
+      })
+      // The server's count is authoritative; it may have kept less than was sent
+      if (next.receivedBytes <= start) {
+        throw new Error(`Upload ${uploadId} made no progress at byte ${start}`)
+      }
+      offset = next.receivedBytes
+    }
+
+    const attachment = await completeUploadSession(token, uploadId)
+    writeResumeId(key, null)
+    return attachment
+  } catch (error) {
+    // A cancelled upload is discarded; anything else keeps its session so a retry resumes it
+    if (error instanceof ApiCancelledError) {
+      writeResumeId(key, null)
+      void cancelUploadSession(token, uploadId).catch(() => undefined)
+    }
+    throw error
+  }
+}
+
+/**
+ * Upload a file to a ticket with progress reporting and cancellation.
+ * Large files go through a resumable chunked session.
+ */
+export const uploadFile = async (
+  token: string | null,
+  ticketId: string,
+  file: File,
+  options: UploadFileOptions = {}
+): Promise<ApiAttachmentDto> => {
+  if (file.size >= RESUMABLE_THRESHOLD_BYTES) {
+    return uploadResumable(token, ticketId, file, options)
+  }
+
+  const { messageId, signal, onProgress } = options
+  return uploadTicketAttachment(token, ticketId, file, {
+    messageId,
+    signal,
+    onProgress: (loaded, total) => onProgress?.(Math.round((loaded / total) * 100)),
+  })
 }
 
 export const formatFileSize = (bytes: number): string => {
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { createApiError } from "./api-errors"
+import { applyServerValidationErrors } from "./form-errors"
+
+interface ProfileForm {
+  name: string
+  email: string
+}
+
+describe("applyServerValidationErrors", () => {
+  const error = createApiError(400, {
+    errors: {
+      FullName: ["نام الزامی است"],
+      Email: ["ایمیل تکراری است"],
+      TenantId: ["نامعتبر"],
+    },
+  })
+
+  it("puts each server message on its form field, renaming where the names differ", () => {
+    const setError = vi.fn()
+    const applied = applyServerValidationErrors<ProfileForm>(error, setError, ["name", "email"], {
+      fullName: "name",
+    })
+
+    expect(applied).toEqual(["name", "email"])
+    expect(setError).toHaveBeenCalledWith(
+      "name",
+      { type: "server", message: "نام الزامی است" },
+      { shouldFocus: true },
+    )
+    expect(setError).toHaveBeenCalledWith(
+      "email",
+      { type: "server", message: "ایمیل تکراری است" },
+      { shouldFocus: false },
+    )
+  })
+
+  it("leaves other errors to the caller", () => {
+    const setError = vi.fn()
+    expect(applyServerValidationErrors<ProfileForm>(createApiError(409, null), setError, ["email"])).toEqual([])
+    expect(applyServerValidationErrors<ProfileForm>(new Error("boom"), setError, ["email"])).toEqual([])
+    expect(setError).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,27 @@
+import type { FieldValues, Path, UseFormSetError } from "react-hook-form"
+import { ApiValidationError } from "./api-errors"
+
+/**
+ * Put server-side validation messages on the matching react-hook-form fields.
+ * `fieldMap` renames server fields whose names differ from the form (e.g. `fullName` → `name`).
+ * Returns the form fields that received an error; an empty array means nothing could be placed.
+ */
+export function applyServerValidationErrors<T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fields: ReadonlyArray<Path<T>>,
+  fieldMap: Partial<Record<string, Path<T>>> = {}
+): Path<T>[] {
+  if (!(error instanceof ApiValidationError)) {
+    return []
+  }
+
+  const applied: Path<T>[] = []
+  Object.entries(error.firstErrors()).forEach(([serverField, message]) => {
+    const field = fieldMap[serverField] ?? (serverField as Path<T>)
+    if (!fields.includes(field)) return
+    setError(field, { type: "server", message }, { shouldFocus: applied.length === 0 })
+    applied.push(field)
+  })
+  return applied
+}
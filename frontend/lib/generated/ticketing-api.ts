@@ -0,0 +1,4834 @@
+/**
+ * Generated from openapi/ticketing-backend.json by `npm run api:generate`. Do not edit.
+ * Refresh the snapshot from a running backend with `npm run api:snapshot`.
+ */
+
+export interface paths {
+    "/api/admin/assignment/smart": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SmartAssignmentStatusResponse"];
+                        "text/json": components["schemas"]["SmartAssignmentStatusResponse"];
+                        "text/plain": components["schemas"]["SmartAssignmentStatusResponse"];
+                    };
+                };
+            };
+        };
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["SmartAssignmentUpdateRequest"];
+                    "application/json": components["schemas"]["SmartAssignmentUpdateRequest"];
+                    "text/json": components["schemas"]["SmartAssignmentUpdateRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SmartAssignmentStatusResponse"];
+                        "text/json": components["schemas"]["SmartAssignmentStatusResponse"];
+                        "text/plain": components["schemas"]["SmartAssignmentStatusResponse"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/assignment/smart/run": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: {
+                    end?: string;
+                    scope?: string;
+                    start?: string;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SmartAssignmentRunResponse"];
+                        "text/json": components["schemas"]["SmartAssignmentRunResponse"];
+                        "text/plain": components["schemas"]["SmartAssignmentRunResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/cleanup/invalid-admin-users": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["CleanupInvalidAdminUsersRequest"];
+                    "application/json": components["schemas"]["CleanupInvalidAdminUsersRequest"];
+                    "text/json": components["schemas"]["CleanupInvalidAdminUsersRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/debug/technicians": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/debug/users": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/technicians": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TechnicianResponse"][];
+                        "text/json": components["schemas"]["TechnicianResponse"][];
+                        "text/plain": components["schemas"]["TechnicianResponse"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TechnicianCreateRequest"];
+                    "application/json": components["schemas"]["TechnicianCreateRequest"];
+                    "text/json": components["schemas"]["TechnicianCreateRequest"];
+                };
+            };
+            responses: {
+                /** @description Created */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TechnicianResponse"];
+                        "text/json": components["schemas"]["TechnicianResponse"];
+                        "text/plain": components["schemas"]["TechnicianResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/technicians/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TechnicianResponse"];
+                        "text/json": components["schemas"]["TechnicianResponse"];
+                        "text/plain": components["schemas"]["TechnicianResponse"];
+                    };
+                };
+            };
+        };
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TechnicianUpdateRequest"];
+                    "application/json": components["schemas"]["TechnicianUpdateRequest"];
+                    "text/json": components["schemas"]["TechnicianUpdateRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TechnicianResponse"];
+                        "text/json": components["schemas"]["TechnicianResponse"];
+                        "text/plain": components["schemas"]["TechnicianResponse"];
+                    };
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Unauthorized */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Forbidden */
+                403: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/admin/technicians/{id}/link-user": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TechnicianLinkUserRequest"];
+                    "application/json": components["schemas"]["TechnicianLinkUserRequest"];
+                    "text/json": components["schemas"]["TechnicianLinkUserRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TechnicianResponse"];
+                        "text/json": components["schemas"]["TechnicianResponse"];
+                        "text/plain": components["schemas"]["TechnicianResponse"];
+                    };
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Conflict */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/api/admin/technicians/{id}/status": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TechnicianStatusUpdateRequest"];
+                    "application/json": components["schemas"]["TechnicianStatusUpdateRequest"];
+                    "text/json": components["schemas"]["TechnicianStatusUpdateRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/api/attachments/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/attachments/{id}/content": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    disposition?: string;
+                };
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/attachments/uploads/{uploadId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    uploadId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AttachmentUploadSessionResponse"];
+                        "text/json": components["schemas"]["AttachmentUploadSessionResponse"];
+                        "text/plain": components["schemas"]["AttachmentUploadSessionResponse"];
+                    };
+                };
+            };
+        };
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    uploadId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AttachmentUploadSessionResponse"];
+                        "text/json": components["schemas"]["AttachmentUploadSessionResponse"];
+                        "text/plain": components["schemas"]["AttachmentUploadSessionResponse"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    uploadId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/attachments/uploads/{uploadId}/complete": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    uploadId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AttachmentDto"];
+                        "text/json": components["schemas"]["AttachmentDto"];
+                        "text/plain": components["schemas"]["AttachmentDto"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TwoFactorStatusResponse"];
+                        "text/json": components["schemas"]["TwoFactorStatusResponse"];
+                        "text/plain": components["schemas"]["TwoFactorStatusResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa/disable": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TwoFactorCodeRequest"];
+                    "application/json": components["schemas"]["TwoFactorCodeRequest"];
+                    "text/json": components["schemas"]["TwoFactorCodeRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa/enable": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TwoFactorCodeRequest"];
+                    "application/json": components["schemas"]["TwoFactorCodeRequest"];
+                    "text/json": components["schemas"]["TwoFactorCodeRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TwoFactorEnableResponse"];
+                        "text/json": components["schemas"]["TwoFactorEnableResponse"];
+                        "text/plain": components["schemas"]["TwoFactorEnableResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa/recovery-codes": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TwoFactorCodeRequest"];
+                    "application/json": components["schemas"]["TwoFactorCodeRequest"];
+                    "text/json": components["schemas"]["TwoFactorCodeRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TwoFactorRecoveryCodesResponse"];
+                        "text/json": components["schemas"]["TwoFactorRecoveryCodesResponse"];
+                        "text/plain": components["schemas"]["TwoFactorRecoveryCodesResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa/setup": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TwoFactorSetupResponse"];
+                        "text/json": components["schemas"]["TwoFactorSetupResponse"];
+                        "text/plain": components["schemas"]["TwoFactorSetupResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/auth/2fa/verify": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TwoFactorVerifyRequest"];
+                    "application/json": components["schemas"]["TwoFactorVerifyRequest"];
+                    "text/json": components["schemas"]["TwoFactorVerifyRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthResponse"];
+                        "text/json": components["schemas"]["AuthResponse"];
+                        "text/plain": components["schemas"]["AuthResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/captcha": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CaptchaChallengeResponse"];
+                        "text/json": components["schemas"]["CaptchaChallengeResponse"];
+                        "text/plain": components["schemas"]["CaptchaChallengeResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/change-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["ChangePasswordRequest"];
+                    "application/json": components["schemas"]["ChangePasswordRequest"];
+                    "text/json": components["schemas"]["ChangePasswordRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/debug-users": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/hub-token": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["HubTokenResponse"];
+                        "text/json": components["schemas"]["HubTokenResponse"];
+                        "text/plain": components["schemas"]["HubTokenResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/impersonate": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["ImpersonationRequest"];
+                    "application/json": components["schemas"]["ImpersonationRequest"];
+                    "text/json": components["schemas"]["ImpersonationRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ImpersonationResponse"];
+                        "text/json": components["schemas"]["ImpersonationResponse"];
+                        "text/plain": components["schemas"]["ImpersonationResponse"];
+                    };
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/impersonate/end": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description No Content */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/login": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["LoginRequest"];
+                    "application/json": components["schemas"]["LoginRequest"];
+                    "text/json": components["schemas"]["LoginRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthResponse"];
+                        "text/json": components["schemas"]["AuthResponse"];
+                        "text/plain": components["schemas"]["AuthResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/logout": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["LogoutRequest"];
+                    "application/json": components["schemas"]["LogoutRequest"];
+                    "text/json": components["schemas"]["LogoutRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/me": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["UserDto"];
+                        "text/json": components["schemas"]["UserDto"];
+                        "text/plain": components["schemas"]["UserDto"];
+                    };
+                };
+            };
+        };
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["UpdateProfileRequest"];
+                    "application/json": components["schemas"]["UpdateProfileRequest"];
+                    "text/json": components["schemas"]["UpdateProfileRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["UserDto"];
+                        "text/json": components["schemas"]["UserDto"];
+                        "text/plain": components["schemas"]["UserDto"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/me/permissions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["MyPermissionsResponse"];
+                        "text/json": components["schemas"]["MyPermissionsResponse"];
+                        "text/plain": components["schemas"]["MyPermissionsResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/oidc": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["OidcLoginRequest"];
+                    "application/json": components["schemas"]["OidcLoginRequest"];
+                    "text/json": components["schemas"]["OidcLoginRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthResponse"];
+                        "text/json": components["schemas"]["AuthResponse"];
+                        "text/plain": components["schemas"]["AuthResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/oidc/nonce": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["OidcNonceResponse"];
+                        "text/json": components["schemas"]["OidcNonceResponse"];
+                        "text/plain": components["schemas"]["OidcNonceResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/password/setup": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["PasswordSetupRequest"];
+                    "application/json": components["schemas"]["PasswordSetupRequest"];
+                    "text/json": components["schemas"]["PasswordSetupRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/refresh": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["RefreshTokenRequest"];
+                    "application/json": components["schemas"]["RefreshTokenRequest"];
+                    "text/json": components["schemas"]["RefreshTokenRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["RefreshTokenResponse"];
+                        "text/json": components["schemas"]["RefreshTokenResponse"];
+                        "text/plain": components["schemas"]["RefreshTokenResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/register": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["RegisterRequest"];
+                    "application/json": components["schemas"]["RegisterRequest"];
+                    "text/json": components["schemas"]["RegisterRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AuthResponse"];
+                        "text/json": components["schemas"]["AuthResponse"];
+                        "text/plain": components["schemas"]["AuthResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/sessions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SignInActivityDto"][];
+                        "text/json": components["schemas"]["SignInActivityDto"][];
+                        "text/plain": components["schemas"]["SignInActivityDto"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Auth/sessions/revoke-others": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["RevokeSessionsResponse"];
+                        "text/json": components["schemas"]["RevokeSessionsResponse"];
+                        "text/plain": components["schemas"]["RevokeSessionsResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Categories": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CategoryResponse"][];
+                        "text/json": components["schemas"]["CategoryResponse"][];
+                        "text/plain": components["schemas"]["CategoryResponse"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["CategoryRequest"];
+                    "application/json": components["schemas"]["CategoryRequest"];
+                    "text/json": components["schemas"]["CategoryRequest"];
+                };
+            };
+            responses: {
+                /** @description Created */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CategoryResponse"];
+                        "text/json": components["schemas"]["CategoryResponse"];
+                        "text/plain": components["schemas"]["CategoryResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Categories/{categoryId}/subcategories": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    categoryId: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SubcategoryResponse"][];
+                        "text/json": components["schemas"]["SubcategoryResponse"][];
+                        "text/plain": components["schemas"]["SubcategoryResponse"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    categoryId: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["SubcategoryRequest"];
+                    "application/json": components["schemas"]["SubcategoryRequest"];
+                    "text/json": components["schemas"]["SubcategoryRequest"];
+                };
+            };
+            responses: {
+                /** @description Created */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SubcategoryResponse"];
+                        "text/json": components["schemas"]["SubcategoryResponse"];
+                        "text/plain": components["schemas"]["SubcategoryResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Categories/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["CategoryRequest"];
+                    "application/json": components["schemas"]["CategoryRequest"];
+                    "text/json": components["schemas"]["CategoryRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CategoryResponse"];
+                        "text/json": components["schemas"]["CategoryResponse"];
+                        "text/plain": components["schemas"]["CategoryResponse"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Categories/admin": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    page?: number;
+                    pageSize?: number;
+                    search?: string;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CategoryListResponse"];
+                        "text/json": components["schemas"]["CategoryListResponse"];
+                        "text/plain": components["schemas"]["CategoryListResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Categories/subcategories/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["SubcategoryRequest"];
+                    "application/json": components["schemas"]["SubcategoryRequest"];
+                    "text/json": components["schemas"]["SubcategoryRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SubcategoryResponse"];
+                        "text/json": components["schemas"]["SubcategoryResponse"];
+                        "text/plain": components["schemas"]["SubcategoryResponse"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: number;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Notifications": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["NotificationDto"][];
+                        "text/json": components["schemas"]["NotificationDto"][];
+                        "text/plain": components["schemas"]["NotificationDto"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Notifications/{id}/read": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/api/ping": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/reports/csat": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    From?: string;
+                    Period?: components["schemas"]["CsatPeriod"];
+                    To?: string;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["CsatReportResponse"];
+                        "text/json": components["schemas"]["CsatReportResponse"];
+                        "text/plain": components["schemas"]["CsatReportResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Roles": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["RoleDto"][];
+                        "text/json": components["schemas"]["RoleDto"][];
+                        "text/plain": components["schemas"]["RoleDto"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["RoleRequest"];
+                    "application/json": components["schemas"]["RoleRequest"];
+                    "text/json": components["schemas"]["RoleRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["RoleDto"];
+                        "text/json": components["schemas"]["RoleDto"];
+                        "text/plain": components["schemas"]["RoleDto"];
+                    };
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Conflict */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Roles/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["RoleRequest"];
+                    "application/json": components["schemas"]["RoleRequest"];
+                    "text/json": components["schemas"]["RoleRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["RoleDto"];
+                        "text/json": components["schemas"]["RoleDto"];
+                        "text/plain": components["schemas"]["RoleDto"];
+                    };
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Conflict */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description No Content */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Roles/{id}/members/{userId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                    userId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description No Content */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                    userId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description No Content */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Roles/permissions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["PermissionCatalogResponse"];
+                        "text/json": components["schemas"]["PermissionCatalogResponse"];
+                        "text/plain": components["schemas"]["PermissionCatalogResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Settings/public": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["PublicSettingsResponse"];
+                        "text/json": components["schemas"]["PublicSettingsResponse"];
+                        "text/plain": components["schemas"]["PublicSettingsResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Settings/system": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SystemSettingsResponse"];
+                        "text/json": components["schemas"]["SystemSettingsResponse"];
+                        "text/plain": components["schemas"]["SystemSettingsResponse"];
+                    };
+                };
+            };
+        };
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["SystemSettingsUpdateRequest"];
+                    "application/json": components["schemas"]["SystemSettingsUpdateRequest"];
+                    "text/json": components["schemas"]["SystemSettingsUpdateRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SystemSettingsResponse"];
+                        "text/json": components["schemas"]["SystemSettingsResponse"];
+                        "text/plain": components["schemas"]["SystemSettingsResponse"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/sla/settings": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SlaSettingsDto"];
+                        "text/json": components["schemas"]["SlaSettingsDto"];
+                        "text/plain": components["schemas"]["SlaSettingsDto"];
+                    };
+                };
+            };
+        };
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["SlaSettingsDto"];
+                    "application/json": components["schemas"]["SlaSettingsDto"];
+                    "text/json": components["schemas"]["SlaSettingsDto"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SlaSettingsDto"];
+                        "text/json": components["schemas"]["SlaSettingsDto"];
+                        "text/plain": components["schemas"]["SlaSettingsDto"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/technician/tickets": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    AssignedTo?: string;
+                    CategoryId?: number;
+                    CreatedBy?: string;
+                    CreatedFrom?: string;
+                    CreatedTo?: string;
+                    Page?: number;
+                    PageSize?: number;
+                    Priority?: components["schemas"]["TicketPriority"][];
+                    Search?: string;
+                    Sort?: string;
+                    Status?: components["schemas"]["TicketStatus"][];
+                    SubcategoryId?: number;
+                    Unassigned?: boolean;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketListResponse"];
+                        "text/json": components["schemas"]["TicketListResponse"];
+                        "text/plain": components["schemas"]["TicketListResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/technician/tickets/summary": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    AssignedTo?: string;
+                    CategoryId?: number;
+                    CreatedBy?: string;
+                    CreatedFrom?: string;
+                    CreatedTo?: string;
+                    Priority?: components["schemas"]["TicketPriority"][];
+                    Search?: string;
+                    Status?: components["schemas"]["TicketStatus"][];
+                    SubcategoryId?: number;
+                    Unassigned?: boolean;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketSummaryResponse"];
+                        "text/json": components["schemas"]["TicketSummaryResponse"];
+                        "text/plain": components["schemas"]["TicketSummaryResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    AssignedTo?: string;
+                    CategoryId?: number;
+                    CreatedBy?: string;
+                    CreatedFrom?: string;
+                    CreatedTo?: string;
+                    Page?: number;
+                    PageSize?: number;
+                    Priority?: components["schemas"]["TicketPriority"][];
+                    Search?: string;
+                    Sort?: string;
+                    Status?: components["schemas"]["TicketStatus"][];
+                    SubcategoryId?: number;
+                    Unassigned?: boolean;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketListResponse"];
+                        "text/json": components["schemas"]["TicketListResponse"];
+                        "text/plain": components["schemas"]["TicketListResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TicketCreateRequest"];
+                    "application/json": components["schemas"]["TicketCreateRequest"];
+                    "text/json": components["schemas"]["TicketCreateRequest"];
+                };
+            };
+            responses: {
+                /** @description Created */
+                201: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketResponse"];
+                        "text/json": components["schemas"]["TicketResponse"];
+                        "text/plain": components["schemas"]["TicketResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketResponse"];
+                        "text/json": components["schemas"]["TicketResponse"];
+                        "text/plain": components["schemas"]["TicketResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TicketUpdateRequest"];
+                    "application/json": components["schemas"]["TicketUpdateRequest"];
+                    "text/json": components["schemas"]["TicketUpdateRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketResponse"];
+                        "text/json": components["schemas"]["TicketResponse"];
+                        "text/plain": components["schemas"]["TicketResponse"];
+                    };
+                };
+            };
+        };
+        trace?: never;
+    };
+    "/api/Tickets/{id}/activities": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketActivityDto"][];
+                        "text/json": components["schemas"]["TicketActivityDto"][];
+                        "text/plain": components["schemas"]["TicketActivityDto"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets/{id}/assign": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** @deprecated */
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": string;
+                    "application/json": string;
+                    "text/json": string;
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketResponse"];
+                        "text/json": components["schemas"]["TicketResponse"];
+                        "text/plain": components["schemas"]["TicketResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets/{id}/assign-technician": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["AssignTechnicianRequest"];
+                    "application/json": components["schemas"]["AssignTechnicianRequest"];
+                    "text/json": components["schemas"]["AssignTechnicianRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketResponse"];
+                        "text/json": components["schemas"]["TicketResponse"];
+                        "text/plain": components["schemas"]["TicketResponse"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets/{id}/merge": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TicketMergeRequest"];
+                    "application/json": components["schemas"]["TicketMergeRequest"];
+                    "text/json": components["schemas"]["TicketMergeRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketMergeResponse"];
+                        "text/json": components["schemas"]["TicketMergeResponse"];
+                        "text/plain": components["schemas"]["TicketMergeResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets/{id}/messages": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketMessageDto"][];
+                        "text/json": components["schemas"]["TicketMessageDto"][];
+                        "text/plain": components["schemas"]["TicketMessageDto"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TicketMessageRequest"];
+                    "application/json": components["schemas"]["TicketMessageRequest"];
+                    "text/json": components["schemas"]["TicketMessageRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketMessageDto"];
+                        "text/json": components["schemas"]["TicketMessageDto"];
+                        "text/plain": components["schemas"]["TicketMessageDto"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/tickets/{id}/sla/escalations": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["SlaEscalationRequest"];
+                    "application/json": components["schemas"]["SlaEscalationRequest"];
+                    "text/json": components["schemas"]["SlaEscalationRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets/{id}/survey": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TicketSurveyRequest"];
+                    "application/json": components["schemas"]["TicketSurveyRequest"];
+                    "text/json": components["schemas"]["TicketSurveyRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketSurveyDto"];
+                        "text/json": components["schemas"]["TicketSurveyDto"];
+                        "text/plain": components["schemas"]["TicketSurveyDto"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/tickets/{ticketId}/attachments": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    ticketId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AttachmentDto"][];
+                        "text/json": components["schemas"]["AttachmentDto"][];
+                        "text/plain": components["schemas"]["AttachmentDto"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    ticketId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "multipart/form-data": {
+                        /** Format: binary */
+                        file?: string;
+                        /** Format: uuid */
+                        messageId?: string;
+                    };
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AttachmentDto"];
+                        "text/json": components["schemas"]["AttachmentDto"];
+                        "text/plain": components["schemas"]["AttachmentDto"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/tickets/{ticketId}/attachments/uploads": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    ticketId: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["AttachmentUploadSessionRequest"];
+                    "application/json": components["schemas"]["AttachmentUploadSessionRequest"];
+                    "text/json": components["schemas"]["AttachmentUploadSessionRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["AttachmentUploadSessionResponse"];
+                        "text/json": components["schemas"]["AttachmentUploadSessionResponse"];
+                        "text/plain": components["schemas"]["AttachmentUploadSessionResponse"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets/calendar": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    end?: string;
+                    start?: string;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketCalendarResponse"][];
+                        "text/json": components["schemas"]["TicketCalendarResponse"][];
+                        "text/plain": components["schemas"]["TicketCalendarResponse"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets/similar": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query: {
+                    CategoryId: number;
+                    Description?: string;
+                    ExcludeId?: string;
+                    Limit?: number;
+                    MinScore?: number;
+                    Title: string;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["SimilarTicketResponse"][];
+                        "text/json": components["schemas"]["SimilarTicketResponse"][];
+                        "text/plain": components["schemas"]["SimilarTicketResponse"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Tickets/summary": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: {
+                    AssignedTo?: string;
+                    CategoryId?: number;
+                    CreatedBy?: string;
+                    CreatedFrom?: string;
+                    CreatedTo?: string;
+                    Priority?: components["schemas"]["TicketPriority"][];
+                    Search?: string;
+                    Status?: components["schemas"]["TicketStatus"][];
+                    SubcategoryId?: number;
+                    Unassigned?: boolean;
+                };
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketSummaryResponse"];
+                        "text/json": components["schemas"]["TicketSummaryResponse"];
+                        "text/plain": components["schemas"]["TicketSummaryResponse"];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["UserAccountDto"][];
+                        "text/json": components["schemas"]["UserAccountDto"][];
+                        "text/plain": components["schemas"]["UserAccountDto"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users/{id}/reset-password": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description No Content */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users/{id}/role": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["UserRoleUpdateRequest"];
+                    "application/json": components["schemas"]["UserRoleUpdateRequest"];
+                    "text/json": components["schemas"]["UserRoleUpdateRequest"];
+                };
+            };
+            responses: {
+                /** @description No Content */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users/{id}/sessions/revoke": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["RevokeSessionsResponse"];
+                        "text/json": components["schemas"]["RevokeSessionsResponse"];
+                        "text/plain": components["schemas"]["RevokeSessionsResponse"];
+                    };
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users/{id}/status": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path: {
+                    id: string;
+                };
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["UserStatusUpdateRequest"];
+                    "application/json": components["schemas"]["UserStatusUpdateRequest"];
+                    "text/json": components["schemas"]["UserStatusUpdateRequest"];
+                };
+            };
+            responses: {
+                /** @description No Content */
+                204: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content?: never;
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Not Found */
+                404: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users/import": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["UserImportRequest"];
+                    "application/json": components["schemas"]["UserImportRequest"];
+                    "text/json": components["schemas"]["UserImportRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["UserImportResponse"];
+                        "text/json": components["schemas"]["UserImportResponse"];
+                        "text/plain": components["schemas"]["UserImportResponse"];
+                    };
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users/invite": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["UserInviteRequest"];
+                    "application/json": components["schemas"]["UserInviteRequest"];
+                    "text/json": components["schemas"]["UserInviteRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["UserAccountDto"];
+                        "text/json": components["schemas"]["UserAccountDto"];
+                        "text/plain": components["schemas"]["UserAccountDto"];
+                    };
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Conflict */
+                409: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users/me/notifications": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["NotificationPreferencesResponse"];
+                        "text/json": components["schemas"]["NotificationPreferencesResponse"];
+                        "text/plain": components["schemas"]["NotificationPreferencesResponse"];
+                    };
+                };
+            };
+        };
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["NotificationPreferencesUpdateRequest"];
+                    "application/json": components["schemas"]["NotificationPreferencesUpdateRequest"];
+                    "text/json": components["schemas"]["NotificationPreferencesUpdateRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["NotificationPreferencesResponse"];
+                        "text/json": components["schemas"]["NotificationPreferencesResponse"];
+                        "text/plain": components["schemas"]["NotificationPreferencesResponse"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users/me/preferences": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["UserPreferencesResponse"];
+                        "text/json": components["schemas"]["UserPreferencesResponse"];
+                        "text/plain": components["schemas"]["UserPreferencesResponse"];
+                    };
+                };
+                /** @description Unauthorized */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["UserPreferencesUpdateRequest"];
+                    "application/json": components["schemas"]["UserPreferencesUpdateRequest"];
+                    "text/json": components["schemas"]["UserPreferencesUpdateRequest"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["UserPreferencesResponse"];
+                        "text/json": components["schemas"]["UserPreferencesResponse"];
+                        "text/plain": components["schemas"]["UserPreferencesResponse"];
+                    };
+                };
+                /** @description Bad Request */
+                400: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+                /** @description Unauthorized */
+                401: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["ProblemDetails"];
+                        "text/json": components["schemas"]["ProblemDetails"];
+                        "text/plain": components["schemas"]["ProblemDetails"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/Users/technicians": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["UserDto"][];
+                        "text/json": components["schemas"]["UserDto"][];
+                        "text/plain": components["schemas"]["UserDto"][];
+                    };
+                };
+            };
+        };
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/workflow": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: never;
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketWorkflowDto"];
+                        "text/json": components["schemas"]["TicketWorkflowDto"];
+                        "text/plain": components["schemas"]["TicketWorkflowDto"];
+                    };
+                };
+            };
+        };
+        put: {
+            parameters: {
+                query?: never;
+                header?: never;
+                path?: never;
+                cookie?: never;
+            };
+            requestBody?: {
+                content: {
+                    "application/*+json": components["schemas"]["TicketWorkflowDto"];
+                    "application/json": components["schemas"]["TicketWorkflowDto"];
+                    "text/json": components["schemas"]["TicketWorkflowDto"];
+                };
+            };
+            responses: {
+                /** @description OK */
+                200: {
+                    headers: {
+                        [name: string]: unknown;
+                    };
+                    content: {
+                        "application/json": components["schemas"]["TicketWorkflowDto"];
+                        "text/json": components["schemas"]["TicketWorkflowDto"];
+                        "text/plain": components["schemas"]["TicketWorkflowDto"];
+                    };
+                };
+            };
+        };
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        AssignTechnicianRequest: {
+            /** Format: uuid */
+            technicianId: string;
+        };
+        AttachmentDto: {
+            contentType: string;
+            fileName: string;
+            /** Format: uuid */
+            id: string;
+            /** Format: uuid */
+            messageId?: string | null;
+            /** Format: int64 */
+            size: number;
+            /** Format: uuid */
+            ticketId: string;
+            /** Format: date-time */
+            uploadedAt: string;
+            uploadedByName?: string | null;
+            /** Format: uuid */
+            uploadedByUserId?: string | null;
+        };
+        AttachmentUploadSessionRequest: {
+            contentType: string;
+            fileName: string;
+            /** Format: uuid */
+            messageId?: string | null;
+            /** Format: int64 */
+            size?: number;
+        };
+        AttachmentUploadSessionResponse: {
+            /** Format: int32 */
+            chunkSize: number;
+            /** Format: date-time */
+            expiresAt?: string | null;
+            /** Format: int64 */
+            receivedBytes: number;
+            /** Format: uuid */
+            uploadId: string;
+        };
+        AuthResponse: {
+            refreshToken: string;
+            token: string;
+            user?: components["schemas"]["UserDto"] | null;
+        };
+        BaseRolePermissionsDto: {
+            available: string[];
+            defaults: string[];
+            role: components["schemas"]["UserRole"];
+        };
+        BusinessCalendarDto: {
+            holidays: string[];
+            hours: components["schemas"]["BusinessHoursDto"][];
+            recurringHolidays: string[];
+        };
+        BusinessHoursDto: {
+            end: string;
+            start: string;
+        };
+        CaptchaChallengeResponse: {
+            /** Format: date-time */
+            expiresAt: string;
+            /** Format: uuid */
+            id: string;
+            image: string;
+        };
+        CategoryListResponse: {
+            items: components["schemas"]["CategoryResponse"][];
+            /** Format: int32 */
+            page: number;
+            /** Format: int32 */
+            pageSize: number;
+            /** Format: int32 */
+            totalCount: number;
+        };
+        CategoryRequest: {
+            description?: string | null;
+            isActive: boolean;
+            name: string;
+        };
+        CategoryResponse: {
+            /** Format: date-time */
+            createdAt: string;
+            description?: string | null;
+            /** Format: int32 */
+            id: number;
+            isActive: boolean;
+            name: string;
+            subcategories: components["schemas"]["SubcategoryResponse"][];
+        };
+        ChangePasswordRequest: {
+            confirmNewPassword: string;
+            currentPassword: string;
+            newPassword: string;
+        };
+        CleanupInvalidAdminUsersRequest: {
+            /** Format: date-time */
+            roleFixBeforeUtc?: string | null;
+        };
+        CsatCategorySummaryDto: {
+            /** Format: double */
+            averageRating?: number | null;
+            /** Format: int32 */
+            categoryId: number;
+            categoryName: string;
+            /** Format: double */
+            firstContactResolutionRate?: number | null;
+            /** Format: int32 */
+            responses: number;
+            /** Format: double */
+            satisfiedRate?: number | null;
+        };
+        /** @enum {string} */
+        CsatPeriod: "Week" | "Month";
+        CsatPeriodSummaryDto: {
+            /** Format: double */
+            averageRating?: number | null;
+            /** Format: double */
+            firstContactResolutionRate?: number | null;
+            /** Format: int32 */
+            responses: number;
+            /** Format: double */
+            satisfiedRate?: number | null;
+            /** Format: date-time */
+            start: string;
+        };
+        CsatReportResponse: {
+            byCategory: components["schemas"]["CsatCategorySummaryDto"][];
+            byPeriod: components["schemas"]["CsatPeriodSummaryDto"][];
+            byTechnician: components["schemas"]["CsatTechnicianSummaryDto"][];
+            overall: components["schemas"]["CsatSummaryDto"];
+        };
+        CsatSummaryDto: {
+            /** Format: double */
+            averageRating?: number | null;
+            /** Format: double */
+            firstContactResolutionRate?: number | null;
+            /** Format: int32 */
+            responses: number;
+            /** Format: double */
+            satisfiedRate?: number | null;
+        };
+        CsatTechnicianSummaryDto: {
+            /** Format: double */
+            averageRating?: number | null;
+            /** Format: double */
+            firstContactResolutionRate?: number | null;
+            /** Format: int32 */
+            responses: number;
+            /** Format: double */
+            satisfiedRate?: number | null;
+            /** Format: uuid */
+            technicianId: string;
+            technicianName: string;
+        };
+        HubTokenResponse: {
+            accessToken: string;
+            /** Format: date-time */
+            expiresAt: string;
+        };
+        ImpersonationRequest: {
+            reason: string;
+            /** Format: uuid */
+            userId: string | null;
+        };
+        ImpersonationResponse: {
+            /** Format: date-time */
+            expiresAt: string;
+            token: string;
+            user: components["schemas"]["UserDto"];
+        };
+        LoginRequest: {
+            captchaAnswer?: string | null;
+            /** Format: uuid */
+            captchaId?: string | null;
+            email: string;
+            password: string;
+        };
+        LogoutRequest: {
+            refreshToken: string;
+        };
+        MyPermissionsResponse: {
+            permissions: string[];
+            /** Format: uuid */
+            roleId?: string | null;
+            roleName?: string | null;
+        };
+        NotificationDto: {
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: uuid */
+            id: string;
+            isRead: boolean;
+            message: string;
+        };
+        NotificationPreferencesResponse: {
+            desktopEnabled: boolean;
+            emailEnabled: boolean;
+            pushEnabled: boolean;
+            smsEnabled: boolean;
+        };
+        NotificationPreferencesUpdateRequest: {
+            desktopEnabled: boolean;
+            emailEnabled: boolean;
+            pushEnabled: boolean;
+            smsEnabled: boolean;
+        };
+        OidcLoginRequest: {
+            idToken: string;
+        };
+        OidcNonceResponse: {
+            /** Format: date-time */
+            expiresAt: string;
+            nonce: string;
+        };
+        PasswordSetupRequest: {
+            password: string;
+            token: string;
+        };
+        PermissionCatalogResponse: {
+            baseRoles: components["schemas"]["BaseRolePermissionsDto"][];
+            permissions: string[];
+        };
+        ProblemDetails: {
+            detail?: string | null;
+            instance?: string | null;
+            /** Format: int32 */
+            status?: number | null;
+            title?: string | null;
+            type?: string | null;
+        } & {
+            [key: string]: unknown;
+        };
+        PublicSettingsResponse: {
+            allowClientAttachments: boolean;
+            allowedEmailDomains: string[];
+            appName: string;
+            defaultLanguage: string;
+            /** Format: int32 */
+            maxAttachmentSizeMB: number;
+            /** Format: int32 */
+            passwordMinLength: number;
+            require2FA: boolean;
+            /** Format: int32 */
+            sessionTimeoutMinutes: number;
+            supportEmail: string;
+            supportPhone: string;
+            timezone: string;
+        };
+        RefreshTokenRequest: {
+            refreshToken: string;
+        };
+        RefreshTokenResponse: {
+            refreshToken: string;
+            token: string;
+        };
+        RegisterRequest: {
+            department?: string | null;
+            /** Format: email */
+            email: string;
+            fullName: string;
+            password: string;
+            phoneNumber?: string | null;
+            role: components["schemas"]["UserRole"] | null;
+        };
+        RevokeSessionsResponse: {
+            /** Format: int32 */
+            revokedCount: number;
+        };
+        RoleDto: {
+            baseRole: components["schemas"]["UserRole"];
+            description?: string | null;
+            id: string;
+            isBuiltIn: boolean;
+            memberIds: string[];
+            name: string;
+            permissions: string[];
+        };
+        RoleRequest: {
+            baseRole: components["schemas"]["UserRole"] | null;
+            description?: string | null;
+            name: string;
+            permissions: string[];
+        };
+        SignInActivityDto: {
+            device?: string | null;
+            /** Format: uuid */
+            id: string;
+            ipAddress?: string | null;
+            isCurrent: boolean;
+            /** Format: date-time */
+            occurredAt: string;
+            succeeded: boolean;
+            suspicious: boolean;
+        };
+        SimilarTicketResponse: {
+            canView: boolean;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: uuid */
+            id: string;
+            /** Format: double */
+            score: number;
+            status: components["schemas"]["TicketStatus"];
+            title: string;
+        };
+        /** @enum {string} */
+        SlaClock: "Response" | "Resolution";
+        SlaEscalationDto: {
+            notify: boolean;
+            /** Format: uuid */
+            reassignToUserId?: string | null;
+        };
+        SlaEscalationRequest: {
+            clock: components["schemas"]["SlaClock"];
+            policyId: string;
+        };
+        SlaPolicyDto: {
+            /** Format: int32 */
+            categoryId?: number | null;
+            escalation: components["schemas"]["SlaEscalationDto"];
+            /** Format: int32 */
+            firstResponseMinutes: number;
+            id: string;
+            name: string;
+            priority?: components["schemas"]["TicketPriority"] | null;
+            /** Format: int32 */
+            resolutionMinutes: number;
+        };
+        SlaSettingsDto: {
+            /** Format: int32 */
+            atRiskPercent: number;
+            calendar: components["schemas"]["BusinessCalendarDto"];
+            policies: components["schemas"]["SlaPolicyDto"][];
+        };
+        SmartAssignmentRunResponse: {
+            /** Format: int32 */
+            assignedCount: number;
+            message: string;
+        };
+        SmartAssignmentStatusResponse: {
+            enabled: boolean;
+        };
+        SmartAssignmentUpdateRequest: {
+            enabled: boolean;
+        };
+        SubcategoryRequest: {
+            description?: string | null;
+            isActive: boolean;
+            name: string;
+        };
+        SubcategoryResponse: {
+            /** Format: date-time */
+            createdAt: string;
+            description?: string | null;
+            /** Format: int32 */
+            id: number;
+            isActive: boolean;
+            name: string;
+        };
+        SystemSettingsResponse: {
+            allowClientAttachments: boolean;
+            allowedEmailDomains: string[];
+            appName: string;
+            autoAssignEnabled: boolean;
+            defaultLanguage: string;
+            defaultPriority: components["schemas"]["TicketPriority"];
+            defaultStatus: components["schemas"]["TicketStatus"];
+            defaultTheme: string;
+            emailNotificationsEnabled: boolean;
+            /** Format: int32 */
+            maxAttachmentSizeMB: number;
+            notifyOnTicketAssigned: boolean;
+            notifyOnTicketClosed: boolean;
+            notifyOnTicketCreated: boolean;
+            notifyOnTicketReplied: boolean;
+            /** Format: int32 */
+            passwordMinLength: number;
+            require2FA: boolean;
+            /** Format: int32 */
+            responseSlaHours: number;
+            /** Format: int32 */
+            sessionTimeoutMinutes: number;
+            smsNotificationsEnabled: boolean;
+            supportEmail: string;
+            supportPhone: string;
+            timezone: string;
+        };
+        SystemSettingsUpdateRequest: {
+            allowClientAttachments: boolean;
+            allowedEmailDomains: string[];
+            appName: string;
+            autoAssignEnabled: boolean;
+            defaultLanguage: string;
+            defaultPriority: components["schemas"]["TicketPriority"];
+            defaultStatus: components["schemas"]["TicketStatus"];
+            defaultTheme: string;
+            emailNotificationsEnabled: boolean;
+            /** Format: int32 */
+            maxAttachmentSizeMB: number;
+            notifyOnTicketAssigned: boolean;
+            notifyOnTicketClosed: boolean;
+            notifyOnTicketCreated: boolean;
+            notifyOnTicketReplied: boolean;
+            /** Format: int32 */
+            passwordMinLength: number;
+            require2FA: boolean;
+            /** Format: int32 */
+            responseSlaHours: number;
+            /** Format: int32 */
+            sessionTimeoutMinutes: number;
+            smsNotificationsEnabled: boolean;
+            /** Format: email */
+            supportEmail: string;
+            supportPhone: string;
+            timezone: string;
+        };
+        TechnicianCreateRequest: {
+            department?: string | null;
+            email: string;
+            fullName: string;
+            isActive: boolean;
+            phone?: string | null;
+        };
+        TechnicianLinkUserRequest: {
+            /** Format: uuid */
+            userId: string;
+        };
+        TechnicianResponse: {
+            /** Format: date-time */
+            createdAt: string;
+            department?: string | null;
+            email: string;
+            fullName: string;
+            /** Format: uuid */
+            id: string;
+            isActive: boolean;
+            phone?: string | null;
+            satisfaction: components["schemas"]["CsatSummaryDto"];
+            /** Format: uuid */
+            userId?: string | null;
+        };
+        TechnicianStatusUpdateRequest: {
+            isActive: boolean;
+        };
+        TechnicianUpdateRequest: {
+            department?: string | null;
+            email: string;
+            fullName: string;
+            isActive: boolean;
+            phone?: string | null;
+        };
+        TicketActivityDto: {
+            actorEmail: string;
+            actorName: string;
+            /** Format: uuid */
+            actorUserId: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: uuid */
+            id: string;
+            message: string;
+            /** Format: uuid */
+            ticketId: string;
+            type: components["schemas"]["TicketActivityType"];
+        };
+        /** @enum {string} */
+        TicketActivityType: "Merged";
+        TicketAssigneeCount: {
+            /** Format: int32 */
+            count: number;
+            /** Format: uuid */
+            userId: string;
+        };
+        TicketCalendarResponse: {
+            assignedTechnicianName?: string | null;
+            categoryName: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            dueDate?: string | null;
+            /** Format: uuid */
+            id: string;
+            priority: components["schemas"]["TicketPriority"];
+            status: components["schemas"]["TicketStatus"];
+            ticketNumber: string;
+            title: string;
+        };
+        TicketCreateRequest: {
+            /** Format: int32 */
+            categoryId: number;
+            description: string;
+            priority: components["schemas"]["TicketPriority"];
+            /** Format: int32 */
+            subcategoryId?: number | null;
+            title: string;
+        };
+        TicketListResponse: {
+            items: components["schemas"]["TicketResponse"][];
+            /** Format: int32 */
+            page: number;
+            /** Format: int32 */
+            pageSize: number;
+            /** Format: int32 */
+            totalCount: number;
+        };
+        TicketMergeRequest: {
+            ticketIds: string[];
+        };
+        TicketMergeResponse: {
+            mergedTicketIds: string[];
+            primary: components["schemas"]["TicketResponse"];
+        };
+        TicketMessageDto: {
+            authorEmail: string;
+            authorName: string;
+            /** Format: uuid */
+            authorUserId: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: uuid */
+            id: string;
+            message: string;
+            status?: components["schemas"]["TicketStatus"] | null;
+        };
+        TicketMessageRequest: {
+            message: string;
+            status?: components["schemas"]["TicketStatus"] | null;
+        };
+        /** @enum {string} */
+        TicketPriority: "Low" | "Medium" | "High" | "Critical";
+        TicketResponse: {
+            assignedTechnicianName?: string | null;
+            assignedToEmail?: string | null;
+            assignedToName?: string | null;
+            assignedToPhoneNumber?: string | null;
+            /** Format: uuid */
+            assignedToUserId?: string | null;
+            /** Format: int32 */
+            attachmentCount: number;
+            attachments?: components["schemas"]["AttachmentDto"][] | null;
+            /** Format: int32 */
+            categoryId: number;
+            categoryName: string;
+            /** Format: date-time */
+            createdAt: string;
+            createdByDepartment?: string | null;
+            createdByEmail: string;
+            createdByName: string;
+            createdByPhoneNumber?: string | null;
+            /** Format: uuid */
+            createdByUserId: string;
+            description: string;
+            /** Format: date-time */
+            dueDate?: string | null;
+            /** Format: uuid */
+            id: string;
+            /** Format: date-time */
+            lastResponseAt?: string | null;
+            lastResponseBy?: string | null;
+            /** Format: uuid */
+            mergedIntoId?: string | null;
+            priority: components["schemas"]["TicketPriority"];
+            /** Format: int32 */
+            reopenCount: number;
+            /** Format: date-time */
+            resolvedAt?: string | null;
+            /** Format: int32 */
+            responseCount: number;
+            sla: components["schemas"]["TicketSlaStateDto"];
+            status: components["schemas"]["TicketStatus"];
+            /** Format: int32 */
+            subcategoryId?: number | null;
+            subcategoryName?: string | null;
+            survey?: components["schemas"]["TicketSurveyDto"] | null;
+            title: string;
+            /** Format: date-time */
+            updatedAt?: string | null;
+        };
+        TicketSlaStateDto: {
+            /** Format: date-time */
+            escalatedAt?: string | null;
+            /** Format: date-time */
+            firstRespondedAt?: string | null;
+            /** Format: int32 */
+            pausedMinutes: number;
+            /** Format: date-time */
+            pausedSince?: string | null;
+            /** Format: date-time */
+            resolvedAt?: string | null;
+        };
+        /** @enum {string} */
+        TicketStatus: "New" | "InProgress" | "WaitingForClient" | "Resolved" | "Closed";
+        TicketStatusCount: {
+            /** Format: int32 */
+            count: number;
+            status: components["schemas"]["TicketStatus"];
+        };
+        TicketSummaryResponse: {
+            byAssignee: components["schemas"]["TicketAssigneeCount"][];
+            byStatus: components["schemas"]["TicketStatusCount"][];
+            /** Format: int32 */
+            totalCount: number;
+        };
+        TicketSurveyDto: {
+            comment?: string | null;
+            /** Format: int32 */
+            rating: number;
+            resolvedOnFirstContact: boolean;
+            /** Format: date-time */
+            submittedAt: string;
+        };
+        TicketSurveyRequest: {
+            comment?: string | null;
+            /** Format: int32 */
+            rating: number;
+            resolvedOnFirstContact: boolean;
+        };
+        TicketUpdateRequest: {
+            /** Format: uuid */
+            assignedToUserId?: string | null;
+            description?: string | null;
+            /** Format: date-time */
+            dueDate?: string | null;
+            priority?: components["schemas"]["TicketPriority"] | null;
+            status?: components["schemas"]["TicketStatus"] | null;
+        };
+        TicketWorkflowDto: {
+            /** Format: int32 */
+            autoCloseResolvedDays: number;
+            transitions: components["schemas"]["WorkflowTransitionDto"][];
+        };
+        TwoFactorCodeRequest: {
+            code: string;
+        };
+        TwoFactorEnableResponse: {
+            recoveryCodes: string[];
+            refreshToken?: string | null;
+            token?: string | null;
+            user?: components["schemas"]["UserDto"] | null;
+        };
+        TwoFactorRecoveryCodesResponse: {
+            recoveryCodes: string[];
+        };
+        TwoFactorSetupResponse: {
+            otpauthUri: string;
+            qrCodeDataUrl: string;
+            secret: string;
+        };
+        TwoFactorStatusResponse: {
+            enabled: boolean;
+            /** Format: int32 */
+            recoveryCodesRemaining: number;
+        };
+        TwoFactorVerifyRequest: {
+            challengeToken: string;
+            code?: string | null;
+            recoveryCode?: string | null;
+        };
+        UpdateProfileRequest: {
+            avatarUrl?: string | null;
+            department?: string | null;
+            email?: string | null;
+            fullName?: string | null;
+            phoneNumber?: string | null;
+        };
+        UserAccountDto: {
+            avatarUrl?: string | null;
+            /** Format: date-time */
+            createdAt: string;
+            department?: string | null;
+            email: string;
+            fullName: string;
+            /** Format: uuid */
+            id: string;
+            isActive: boolean;
+            /** Format: date-time */
+            lastLoginAt?: string | null;
+            phoneNumber?: string | null;
+            role: components["schemas"]["UserRole"];
+            /** Format: uuid */
+            roleId?: string | null;
+            roleName?: string | null;
+        };
+        UserDto: {
+            avatarUrl?: string | null;
+            department?: string | null;
+            email: string;
+            fullName: string;
+            /** Format: uuid */
+            id: string;
+            phoneNumber?: string | null;
+            role: components["schemas"]["UserRole"];
+        };
+        UserImportError: {
+            email: string;
+            message: string;
+            /** Format: int32 */
+            row: number;
+        };
+        UserImportRequest: {
+            users: components["schemas"]["UserImportRow"][];
+        };
+        UserImportResponse: {
+            /** Format: int32 */
+            createdCount: number;
+            errors: components["schemas"]["UserImportError"][];
+            /** Format: int32 */
+            skippedCount: number;
+        };
+        UserImportRow: {
+            department?: string | null;
+            email: string;
+            fullName: string;
+            phoneNumber?: string | null;
+            role?: components["schemas"]["UserRole"] | null;
+        };
+        UserInviteRequest: {
+            department?: string | null;
+            /** Format: email */
+            email: string;
+            fullName: string;
+            phoneNumber?: string | null;
+            role: components["schemas"]["UserRole"] | null;
+        };
+        UserPreferencesResponse: {
+            direction: string;
+            fontSize: string;
+            language: string;
+            notifications: components["schemas"]["NotificationPreferencesResponse"];
+            theme: string;
+            timezone: string;
+        };
+        UserPreferencesUpdateRequest: {
+            fontSize: string;
+            language: string;
+            theme: string;
+            timezone: string;
+        };
+        /** @enum {string} */
+        UserRole: "Client" | "Technician" | "Admin";
+        UserRoleUpdateRequest: {
+            role: components["schemas"]["UserRole"] | null;
+        };
+        UserStatusUpdateRequest: {
+            isActive: boolean | null;
+        };
+        /** @enum {string} */
+        WorkflowRequirement: "Note" | "Assignee";
+        WorkflowTransitionDto: {
+            from: components["schemas"]["TicketStatus"];
+            requires: components["schemas"]["WorkflowRequirement"][];
+            roles: components["schemas"]["UserRole"][];
+            to: components["schemas"]["TicketStatus"];
+        };
+    };
+    responses: never;
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export type operations = Record<string, never>;
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  HUB_MAX_RETRY_ATTEMPTS,
+  acquireHub,
+  getHubStatus,
+  hubReconnectDelay,
+  joinTicketGroup,
+  setHubConnectionFactory,
+} from "./hub-connection"
+import { InProcessHub } from "./in-process-hub"
+import { ticketGroupName } from "./ticket-hub-events"
+
+const HUB_URL = "http://localhost/test-hub"
+
+describe("hubReconnectDelay", () => {
+  beforeEach(() => {
+    vi.spyOn(Math, "random").mockReturnValue(0)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("doubles the delay for each attempt", () => {
+    expect([0, 1, 2, 3].map(hubReconnectDelay)).toEqual([1000, 2000, 4000, 8000])
+  })
+
+  it("caps the delay at 30 seconds", () => {
+    expect(hubReconnectDelay(5)).toBe(30000)
+    expect(hubReconnectDelay(20)).toBe(30000)
+  })
+
+  it("adds up to a second of jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999)
+    expect(hubReconnectDelay(0)).toBe(1999)
+  })
+})
+
+describe("shared hub connection", () => {
+  let hub: InProcessHub
+  let release: (() => void) | undefined
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(Math, "random").mockReturnValue(0)
+    vi.spyOn(console, "warn").mockImplementation(() => undefined)
+    hub = new InProcessHub()
+    setHubConnectionFactory(() => hub.createConnection())
+  })
+
+  afterEach(() => {
+    release?.()
+    release = undefined
+    setHubConnectionFactory(null)
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  const connect = async () => {
+    release = acquireHub(HUB_URL).release
+    await vi.advanceTimersByTimeAsync(0)
+  }
+
+  it("retries a failed start with backoff until it connects", async () => {
+    hub.failNextStarts = 2
+    await connect()
+    expect(getHubStatus(HUB_URL)).toBe("reconnecting")
+
+    await vi.advanceTimersByTimeAsync(999)
+    expect(hub.connectionCount).toBe(0)
+    // The second attempt fails as well and waits twice as long
+    await vi.advanceTimersByTimeAsync(1)
+    expect(getHubStatus(HUB_URL)).toBe("reconnecting")
+
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(hub.connectionCount).toBe(0)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(getHubStatus(HUB_URL)).toBe("connected")
+    expect(hub.connectionCount).toBe(1)
+  })
+
+  it("gives up once the start has failed too often in a row", async () => {
+    hub.failNextStarts = HUB_MAX_RETRY_ATTEMPTS + 1
+    await connect()
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000)
+    expect(getHubStatus(HUB_URL)).toBe("disconnected")
+    expect(hub.connectionCount).toBe(0)
+    expect(hub.failNextStarts).toBe(0)
+  })
+
+  it("shares one connection and closes it when the last user releases it", async () => {
+    await connect()
+    const second = acquireHub(HUB_URL)
+    expect(hub.connectionCount).toBe(1)
+
+    second.release()
+    expect(getHubStatus(HUB_URL)).toBe("connected")
+    release?.()
+    release = undefined
+    await vi.advanceTimersByTimeAsync(0)
+    expect(getHubStatus(HUB_URL)).toBe("disconnected")
+    expect(hub.connectionCount).toBe(0)
+  })
+
+  it("joins ticket groups subscribed before the connection was up", async () => {
+    release = acquireHub(HUB_URL).release
+    const leave = joinTicketGroup("T-1", HUB_URL)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(hub.groupSize(ticketGroupName("T-1"))).toBe(1)
+
+    leave()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(hub.groupSize(ticketGroupName("T-1"))).toBe(0)
+  })
+
+  it("re-joins its ticket groups after a reconnect", async () => {
+    await connect()
+    joinTicketGroup("T-1", HUB_URL)
+    joinTicketGroup("T-2", HUB_URL)
+    await vi.advanceTimersByTimeAsync(0)
+
+    hub.disconnectAll()
+    expect(getHubStatus(HUB_URL)).toBe("reconnecting")
+    expect(hub.groupSize(ticketGroupName("T-1"))).toBe(0)
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(getHubStatus(HUB_URL)).toBe("connected")
+    expect(hub.groupSize(ticketGroupName("T-1"))).toBe(1)
+    expect(hub.groupSize(ticketGroupName("T-2"))).toBe(1)
+  })
+
+  it("keeps one group membership for several subscribers", async () => {
+    await connect()
+    const leaveFirst = joinTicketGroup("T-1", HUB_URL)
+    const leaveSecond = joinTicketGroup("T-1", HUB_URL)
+    await vi.advanceTimersByTimeAsync(0)
+
+    leaveFirst()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(hub.groupSize(ticketGroupName("T-1"))).toBe(1)
+    leaveSecond()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(hub.groupSize(ticketGroupName("T-1"))).toBe(0)
+  })
+})
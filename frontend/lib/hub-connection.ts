@@ -0,0 +1,229 @@
+import { HubConnectionBuilder, LogLevel } from "@microsoft/signalr"
+
+import { BACKEND_BASE_URL, getApiToken } from "./api-client"
+import { getHubAccessToken, sessionMode } from "./cookie-session"
+import { TicketHubMethods, type TicketHubEventName, type TicketHubEvents } from "./ticket-hub-events"
+
+// The hub is reached directly even in cookie mode; the proxy only handles plain HTTP
+export const SIGNALR_HUB_URL = process.env.NEXT_PUBLIC_SIGNALR_HUB_URL || `${BACKEND_BASE_URL}/notificationHub`
+
+const hubAccessToken = () => (sessionMode === "cookie" ? getHubAccessToken() : getApiToken() ?? "")
+
+const RECONNECT_BASE_DELAY_MS = 1000
+const RECONNECT_MAX_DELAY_MS = 30000
+// Starts that fail in a row before the hub is given up on until it is acquired again
+export const HUB_MAX_RETRY_ATTEMPTS = 10
+
+/**
+ * The part of @microsoft/signalr's HubConnection the app relies on.
+ * Lets tests and local development swap in the in-process hub.
+ */
+export interface HubConnectionLike {
+  readonly state: string
+  start(): Promise<void>
+  stop(): Promise<void>
+  invoke<T = unknown>(methodName: string, ...args: unknown[]): Promise<T>
+  on<E extends TicketHubEventName>(event: E, handler: (payload: TicketHubEvents[E]) => void): void
+  off<E extends TicketHubEventName>(event: E, handler: (payload: TicketHubEvents[E]) => void): void
+  onreconnecting(callback: (error?: Error) => void): void
+  onreconnected(callback: (connectionId?: string) => void): void
+  onclose(callback: (error?: Error) => void): void
+}
+
+export type HubConnectionFactory = (url: string) => HubConnectionLike
+
+export type HubStatus = "disconnected" | "connecting" | "connected" | "reconnecting"
+
+/** Exponential backoff with jitter, capped */
+export const hubReconnectDelay = (attempt: number) =>
+  Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt) +
+  Math.floor(Math.random() * RECONNECT_BASE_DELAY_MS)
+
+const createSignalRConnection: HubConnectionFactory = (url) =>
+  new HubConnectionBuilder()
+    .withUrl(url, { accessTokenFactory: hubAccessToken })
+    .withAutomaticReconnect({ nextRetryDelayInMilliseconds: ({ previousRetryCount }) => hubReconnectDelay(previousRetryCount) })
+    .configureLogging(process.env.NODE_ENV === "production" ? LogLevel.Warning : LogLevel.Information)
+    .build()
+
+let connectionFactory: HubConnectionFactory = createSignalRConnection
+
+/**
+ * Replace how hub connections are created, e.g. with InProcessHub.createConnection.
+ * Pass null to go back to SignalR. Only affects connections opened afterwards.
+ */
+export function setHubConnectionFactory(factory: HubConnectionFactory | null) {
+  connectionFactory = factory ?? createSignalRConnection
+}
+
+interface SharedHub {
+  url: string
+  connection: HubConnectionLike
+  status: HubStatus
+  users: number
+  /** Ticket groups joined, with how many subscribers want each */
+  groups: Map<string, number>
+  listeners: Set<() => void>
+  attempt: number
+  retryTimer?: ReturnType<typeof setTimeout>
+  released: boolean
+}
+
+const hubs = new Map<string, SharedHub>()
+
+const setStatus = (hub: SharedHub, status: HubStatus) => {
+  if (hub.status === status) return
+  hub.status = status
+  hub.listeners.forEach((listener) => listener())
+}
+
+// Group membership belongs to a connection, so a new or reconnected connection joins again
+const joinAllGroups = (hub: SharedHub) => {
+  hub.groups.forEach((_, ticketId) => {
+    hub.connection.invoke(TicketHubMethods.joinTicketGroup, ticketId).catch((error: unknown) => {
+      console.error("[hub] failed to join ticket group", ticketId, error)
+    })
+  })
+}
+
+// Try again after the backoff, or stop once the hub has failed too often in a row
+const scheduleRetry = (hub: SharedHub, error?: unknown) => {
+  if (hub.attempt >= HUB_MAX_RETRY_ATTEMPTS) {
+    console.warn(`[hub] giving up after ${hub.attempt} failed attempts`, error)
+    setStatus(hub, "disconnected")
+    return
+  }
+  const delay = hubReconnectDelay(hub.attempt++)
+  console.warn(`[hub] connection failed, retrying in ${delay}ms`, error)
+  setStatus(hub, "reconnecting")
+  hub.retryTimer = setTimeout(() => startHub(hub), delay)
+}
+
+const startHub = (hub: SharedHub) => {
+  if (hub.released) return
+  setStatus(hub, hub.attempt === 0 ? "connecting" : "reconnecting")
+  hub.connection
+    .start()
+    .then(() => {
+      if (hub.released) {
+        void hub.connection.stop()
+        return
+      }
+      hub.attempt = 0
+      setStatus(hub, "connected")
+      joinAllGroups(hub)
+    })
+    .catch((error: unknown) => {
+      if (hub.released) return
+      // Automatic reconnect only covers dropped connections; failed starts are retried here
+      scheduleRetry(hub, error)
+    })
+}
+
+const createHub = (url: string): SharedHub => {
+  const hub: SharedHub = {
+    url,
+    connection: connectionFactory(url),
+    status: "disconnected",
+    users: 0,
+    groups: new Map(),
+    listeners: new Set(),
+    attempt: 0,
+    released: false,
+  }
+
+  hub.connection.onreconnecting(() => setStatus(hub, "reconnecting"))
+  hub.connection.onreconnected(() => {
+    setStatus(hub, "connected")
+    joinAllGroups(hub)
+  })
+  hub.connection.onclose((error) => {
+    if (hub.released) {
+      setStatus(hub, "disconnected")
+      return
+    }
+    // Automatic reconnect gave up or the server closed the connection; start over with backoff
+    scheduleRetry(hub, error)
+  })
+
+  startHub(hub)
+  return hub
+}
+
+/**
+ * Use the shared connection to a hub, opening it on first use.
+ * Returns the release function; the connection closes when its last user releases it.
+ */
+export function acquireHub(url: string = SIGNALR_HUB_URL): { connection: HubConnectionLike; release: () => void } {
+  let hub = hubs.get(url)
+  if (!hub) {
+    hub = createHub(url)
+    hubs.set(url, hub)
+  }
+  hub.users++
+
+  const current = hub
+  let released = false
+  return {
+    connection: current.connection,
+    release: () => {
+      if (released) return
+      released = true
+      current.users--
+      if (current.users > 0) return
+      current.released = true
+      clearTimeout(current.retryTimer)
+      hubs.delete(url)
+      void current.connection.stop().catch(() => undefined)
+      setStatus(current, "disconnected")
+    },
+  }
+}
+
+export function getHubStatus(url: string = SIGNALR_HUB_URL): HubStatus {
+  return hubs.get(url)?.status ?? "disconnected"
+}
+
+/**
+ * Listen for status changes of a hub that is currently acquired
+ */
+export function subscribeHubStatus(url: string, listener: () => void): () => void {
+  const hub = hubs.get(url)
+  if (!hub) return () => {}
+  hub.listeners.add(listener)
+  return () => {
+    hub.listeners.delete(listener)
+  }
+}
+
+/**
+ * Receive the events of one ticket's group while subscribed. Several subscribers share one membership.
+ * Returns the function that leaves again.
+ */
+export function joinTicketGroup(ticketId: string, url: string = SIGNALR_HUB_URL): () => void {
+  const hub = hubs.get(url)
+  if (!hub) return () => {}
+
+  const count = hub.groups.get(ticketId) ?? 0
+  hub.groups.set(ticketId, count + 1)
+  if (count === 0 && hub.status === "connected") {
+    hub.connection.invoke(TicketHubMethods.joinTicketGroup, ticketId).catch((error: unknown) => {
+      console.error("[hub] failed to join ticket group", ticketId, error)
+    })
+  }
+
+  let left = false
+  return () => {
+    if (left) return
+    left = true
+    const remaining = (hub.groups.get(ticketId) ?? 1) - 1
+    if (remaining > 0) {
+      hub.groups.set(ticketId, remaining)
+      return
+    }
+    hub.groups.delete(ticketId)
+    if (hub.status === "connected") {
+      hub.connection.invoke(TicketHubMethods.leaveTicketGroup, ticketId).catch(() => undefined)
+    }
+  }
+}
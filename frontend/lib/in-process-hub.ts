@@ -0,0 +1,171 @@
+import type { HubConnectionLike } from "./hub-connection"
+import { TicketHubMethods, ticketGroupName, type TicketHubEventName, type TicketHubEvents } from "./ticket-hub-events"
+
+type HubMethodHandler<A extends unknown[] = unknown[]> = (connection: InProcessConnection, ...args: A) => unknown
+type HubEventHandler = (payload: unknown) => void
+
+/**
+ * A notification hub that lives in the page instead of on the server, for tests and for
+ * working on real-time features without the backend:
+ *
+ *   const hub = new InProcessHub()
+ *   setHubConnectionFactory(() => hub.createConnection())
+ *   hub.sendToGroup(ticketGroupName(id), "ticket:updated", ticket)
+ *
+ * Like SignalR, group membership is lost when a connection drops and must be re-joined.
+ */
+export class InProcessHub {
+  private readonly connections = new Set<InProcessConnection>()
+  private readonly groups = new Map<string, Set<InProcessConnection>>()
+  private readonly methods = new Map<string, HubMethodHandler>()
+  /** Make the next start() calls fail, e.g. to exercise the retry backoff */
+  failNextStarts = 0
+
+  constructor() {
+    this.handle(TicketHubMethods.joinTicketGroup, (connection, ticketId: string) => {
+      this.addToGroup(connection, ticketGroupName(ticketId))
+    })
+    this.handle(TicketHubMethods.leaveTicketGroup, (connection, ticketId: string) => {
+      this.removeFromGroup(connection, ticketGroupName(ticketId))
+    })
+  }
+
+  createConnection = (): HubConnectionLike => new InProcessConnection(this)
+
+  /** Register or replace a method clients can invoke */
+  handle<A extends unknown[]>(methodName: string, handler: HubMethodHandler<A>) {
+    this.methods.set(methodName, handler as HubMethodHandler)
+  }
+
+  /** Push an event to every connected client */
+  send<E extends TicketHubEventName>(event: E, payload: TicketHubEvents[E]) {
+    this.connections.forEach((connection) => connection.receive(event, payload))
+  }
+
+  /** Push an event to the clients in a group, e.g. `ticketGroupName(ticketId)` */
+  sendToGroup<E extends TicketHubEventName>(group: string, event: E, payload: TicketHubEvents[E]) {
+    this.groups.get(group)?.forEach((connection) => connection.receive(event, payload))
+  }
+
+  groupSize(group: string) {
+    return this.groups.get(group)?.size ?? 0
+  }
+
+  get connectionCount() {
+    return this.connections.size
+  }
+
+  /** Drop every connection as a network failure would; clients go through their reconnect logic */
+  disconnectAll(error = new Error("Connection lost")) {
+    Array.from(this.connections).forEach((connection) => connection.drop(error))
+  }
+
+  /** @internal */
+  connect(connection: InProcessConnection) {
+    this.connections.add(connection)
+  }
+
+  /** @internal */
+  disconnect(connection: InProcessConnection) {
+    this.connections.delete(connection)
+    this.groups.forEach((members) => members.delete(connection))
+  }
+
+  /** @internal */
+  async invoke(connection: InProcessConnection, methodName: string, args: unknown[]) {
+    const handler = this.methods.get(methodName)
+    if (!handler) {
+      throw new Error(`Method does not exist: ${methodName}`)
+    }
+    return handler(connection, ...args)
+  }
+
+  private addToGroup(connection: InProcessConnection, group: string) {
+    const members = this.groups.get(group) ?? new Set()
+    members.add(connection)
+    this.groups.set(group, members)
+  }
+
+  private removeFromGroup(connection: InProcessConnection, group: string) {
+    this.groups.get(group)?.delete(connection)
+  }
+}
+
+class InProcessConnection implements HubConnectionLike {
+  state = "Disconnected"
+  private readonly handlers = new Map<string, Set<HubEventHandler>>()
+  private readonly reconnecting: Array<(error?: Error) => void> = []
+  private readonly reconnected: Array<(connectionId?: string) => void> = []
+  private readonly closed: Array<(error?: Error) => void> = []
+
+  constructor(private readonly hub: InProcessHub) {}
+
+  async start() {
+    if (this.state !== "Disconnected") {
+      throw new Error("Cannot start a connection that is not in the 'Disconnected' state.")
+    }
+    this.state = "Connecting"
+    await Promise.resolve()
+    if (this.hub.failNextStarts > 0) {
+      this.hub.failNextStarts--
+      this.state = "Disconnected"
+      throw new Error("Failed to start the connection")
+    }
+    this.state = "Connected"
+    this.hub.connect(this)
+  }
+
+  async stop() {
+    if (this.state === "Disconnected") return
+    this.hub.disconnect(this)
+    this.state = "Disconnected"
+    this.closed.forEach((callback) => callback())
+  }
+
+  async invoke<T = unknown>(methodName: string, ...args: unknown[]): Promise<T> {
+    if (this.state !== "Connected") {
+      throw new Error("Cannot send data if the connection is not in the 'Connected' State.")
+    }
+    return (await this.hub.invoke(this, methodName, args)) as T
+  }
+
+  on<E extends TicketHubEventName>(event: E, handler: (payload: TicketHubEvents[E]) => void) {
+    const handlers = this.handlers.get(event) ?? new Set()
+    handlers.add(handler as HubEventHandler)
+    this.handlers.set(event, handlers)
+  }
+
+  off<E extends TicketHubEventName>(event: E, handler: (payload: TicketHubEvents[E]) => void) {
+    this.handlers.get(event)?.delete(handler as HubEventHandler)
+  }
+
+  onreconnecting(callback: (error?: Error) => void) {
+    this.reconnecting.push(callback)
+  }
+
+  onreconnected(callback: (connectionId?: string) => void) {
+    this.reconnected.push(callback)
+  }
+
+  onclose(callback: (error?: Error) => void) {
+    this.closed.push(callback)
+  }
+
+  receive(event: string, payload: unknown) {
+    this.handlers.get(event)?.forEach((handler) => handler(payload))
+  }
+
+  /** Lose the connection, then reconnect on the next tick the way automatic reconnect would */
+  drop(error: Error) {
+    if (this.state !== "Connected") return
+    this.hub.disconnect(this)
+    this.state = "Reconnecting"
+    this.reconnecting.forEach((callback) => callback(error))
+    setTimeout(() => {
+      if (this.state !== "Reconnecting") return
+      this.state = "Connected"
+      this.hub.connect(this)
+      this.reconnected.forEach((callback) => callback())
+    }, 0)
+  }
+}
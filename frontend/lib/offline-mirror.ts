@@ -0,0 +1,95 @@
+import { clearMirror, readMirror, writeMirror, type MirrorRecord } from "./offline-store"
+import { hashQueryKey, hydrateQueryData, subscribeQueryCache, type QueryKey } from "./query-cache"
+
+/** Root segments of the query keys copied to IndexedDB: ticket lists, tickets, threads and categories */
+const MIRRORED_ROOTS = new Set(["tickets", "ticket", "ticket-messages", "categories"])
+
+const WRITE_DELAY_MS = 500
+
+interface MirrorSession {
+  users: number
+  /** Stop mirroring; pending writes are saved unless `discard` is set */
+  stop: (discard?: boolean) => void
+}
+
+const sessions = new Map<string, MirrorSession>()
+
+const isMirrored = (key: QueryKey) => typeof key[0] === "string" && MIRRORED_ROOTS.has(key[0])
+
+const startSession = (userId: string): MirrorSession["stop"] => {
+  const queued = new Map<string, MirrorRecord>()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let hydrating = false
+
+  const flush = () => {
+    timer = undefined
+    const records = Array.from(queued.values())
+    queued.clear()
+    writeMirror(records).catch((error: unknown) => console.warn("[offline] failed to update the mirror", error))
+  }
+
+  const unsubscribe = subscribeQueryCache((key, state) => {
+    // Cleared entries (sign-out) and data read back from the mirror are not written again
+    if (hydrating || typeof state.data === "undefined" || !isMirrored(key)) return
+    const id = `${userId}:${hashQueryKey(key)}`
+    queued.set(id, { id, userId, key, data: state.data, savedAt: Date.now() })
+    timer ??= setTimeout(flush, WRITE_DELAY_MS)
+  })
+
+  readMirror(userId)
+    .then((records) => {
+      hydrating = true
+      try {
+        records.forEach((record) => hydrateQueryData(record.key, record.data))
+      } finally {
+        hydrating = false
+      }
+    })
+    .catch((error: unknown) => console.warn("[offline] failed to read the mirror", error))
+
+  return (discard = false) => {
+    unsubscribe()
+    if (!timer) return
+    clearTimeout(timer)
+    if (discard) {
+      timer = undefined
+      queued.clear()
+    } else {
+      flush()
+    }
+  }
+}
+
+/**
+ * Keep an IndexedDB copy of the user's tickets, threads and categories, and load it into
+ * the query cache so pages have data to show while the server can't be reached.
+ * Several pages may start it; returns the function that stops this use.
+ */
+export function startOfflineMirror(userId: string): () => void {
+  let session = sessions.get(userId)
+  if (!session) {
+    session = { users: 0, stop: startSession(userId) }
+    sessions.set(userId, session)
+  }
+  session.users++
+
+  const current = session
+  let stopped = false
+  return () => {
+    if (stopped) return
+    stopped = true
+    current.users--
+    if (current.users > 0 || sessions.get(userId) !== current) return
+    sessions.delete(userId)
+    current.stop()
+  }
+}
+
+/**
+ * Delete a user's offline copy, e.g. on sign-out, so the next person on this browser can't read it
+ */
+export function clearOfflineMirror(userId: string): Promise<void> {
+  sessions.get(userId)?.stop(true)
+  sessions.delete(userId)
+  return clearMirror(userId).catch((error: unknown) => console.warn("[offline] failed to clear the mirror", error))
+}
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { ApiNetworkError, createApiError } from "./api-errors"
+import type { ApiTicketResponse } from "./api-types"
+import {
+  getOfflineSyncStatus,
+  replayOutbox,
+  resolveOutboxEntry,
+  startOutbox,
+  type OutboxEntry,
+  type OutboxHandlers,
+  type OutboxOperation,
+} from "./offline-outbox"
+import { deleteOutboxRecord, putOutboxRecord, readOutbox, type OutboxRecord } from "./offline-store"
+import { clearQueryCache, getQueryData } from "./query-cache"
+import { queryKeys } from "./query-keys"
+import { getTicket } from "./tickets-api"
+
+vi.mock("./api-client", () => ({ getApiToken: () => "token", registerApiInterceptor: vi.fn() }))
+vi.mock("./offline-store", () => ({
+  readOutbox: vi.fn(),
+  putOutboxRecord: vi.fn(),
+  deleteOutboxRecord: vi.fn(),
+  clearOutbox: vi.fn(),
+}))
+vi.mock("./tickets-api", () => ({ getTicket: vi.fn() }))
+
+const MONDAY_10 = "2026-01-05T10:00:00Z"
+const MONDAY_11 = "2026-01-05T11:00:00Z"
+
+// The outbox as IndexedDB would hold it
+const stored = new Map<string, OutboxRecord>()
+// The server's version of each ticket
+const serverTickets = new Map<string, string>()
+
+const handlers = {
+  createTicket: vi.fn<OutboxHandlers["createTicket"]>(),
+  reply: vi.fn<OutboxHandlers["reply"]>(),
+  updateTicket: vi.fn<OutboxHandlers["updateTicket"]>(),
+}
+
+const entry = (sequence: number, operation: OutboxOperation): OutboxEntry => ({
+  id: `entry-${sequence}`,
+  userId: "user-1",
+  sequence,
+  queuedAt: MONDAY_10,
+  operation,
+  state: "pending",
+})
+
+const update = (ticketId: string, baseUpdatedAt?: string): OutboxOperation => ({
+  kind: "updateTicket",
+  ticketId,
+  request: { status: "Resolved" },
+  baseUpdatedAt,
+})
+
+const reply = (ticketId: string, baseUpdatedAt?: string): OutboxOperation => ({
+  kind: "reply",
+  ticketId,
+  pendingMessageId: "pending-1",
+  request: { message: "Restarted it, works now" },
+  baseUpdatedAt,
+})
+
+const entries = () => getOfflineSyncStatus().entries
+const stateOf = (id: string) => entries().find((item) => item.id === id)?.state
+
+let stop: () => void = () => undefined
+
+// Start the outbox with `queued` left over from an earlier visit, and wait for the replay it begins
+const startWith = async (...queued: OutboxEntry[]) => {
+  queued.forEach((item) => stored.set(item.id, item))
+  stop = startOutbox("user-1", handlers)
+  // The stubs answer straight away, so the read and the replay are both done within one task
+  await new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+beforeEach(() => {
+  stored.clear()
+  serverTickets.clear()
+  Object.values(handlers).forEach((handler) => handler.mockReset())
+  handlers.updateTicket.mockImplementation(async ({ ticketId }) => ({ ticketId, updatedAt: MONDAY_11 }))
+  handlers.reply.mockImplementation(async ({ ticketId }) => ({ ticketId, updatedAt: MONDAY_11 }))
+
+  vi.mocked(readOutbox).mockImplementation(async () => [...stored.values()] as never[])
+  vi.mocked(putOutboxRecord).mockImplementation(async (record) => void stored.set(record.id, record))
+  vi.mocked(deleteOutboxRecord).mockImplementation(async (id) => void stored.delete(id))
+  vi.mocked(getTicket).mockImplementation(
+    async (_token, id) => ({ id, updatedAt: serverTickets.get(id) ?? MONDAY_10 }) as ApiTicketResponse,
+  )
+  vi.spyOn(console, "error").mockImplementation(() => undefined)
+})
+
+afterEach(() => {
+  stop()
+  clearQueryCache()
+  vi.restoreAllMocks()
+})
+
+describe("replayOutbox", () => {
+  it("sends queued changes in order and empties the queue", async () => {
+    handlers.createTicket.mockResolvedValue({ ticketId: "T-9", updatedAt: MONDAY_10 })
+    const created = entry(1, {
+      kind: "createTicket",
+      tempId: "offline-1",
+      request: { title: "Printer jam", description: "", categoryId: 1, priority: "Medium" },
+      files: [],
+    })
+
+    await startWith(entry(3, update("offline-1")), created, entry(2, reply("offline-1")))
+
+    // The later writes reach the ticket under the id the server gave it
+    expect(handlers.reply).toHaveBeenCalledWith(expect.objectContaining({ ticketId: "T-9" }), "token")
+    expect(handlers.updateTicket).toHaveBeenCalledWith(expect.objectContaining({ ticketId: "T-9" }), "token")
+    const order = [handlers.createTicket, handlers.reply, handlers.updateTicket].map(
+      (handler) => handler.mock.invocationCallOrder[0],
+    )
+    expect(order).toEqual([...order].sort((a, b) => a - b))
+    expect(entries()).toEqual([])
+    expect(stored.size).toBe(0)
+    expect(getOfflineSyncStatus().lastSyncedAt).not.toBeNull()
+  })
+
+  it("holds a change to a ticket edited on the server as a conflict, with the changes after it", async () => {
+    serverTickets.set("T-1", MONDAY_11)
+
+    await startWith(entry(1, update("T-1", MONDAY_10)), entry(2, reply("T-1")), entry(3, update("T-2", MONDAY_10)))
+
+    expect(entries().find((item) => item.id === "entry-1")).toMatchObject({
+      state: "conflict",
+      serverUpdatedAt: MONDAY_11,
+    })
+    expect(stateOf("entry-2")).toBe("pending")
+    expect(handlers.reply).not.toHaveBeenCalled()
+    // Other tickets aren't held up
+    expect(handlers.updateTicket).toHaveBeenCalledTimes(1)
+    expect(handlers.updateTicket).toHaveBeenCalledWith(expect.objectContaining({ ticketId: "T-2" }), "token")
+    // The screen shows the server's version next to the conflict
+    expect(getQueryData(queryKeys.ticket("T-1"))).toMatchObject({ updatedAt: MONDAY_11 })
+  })
+
+  it("doesn't count the outbox's own earlier writes as conflicts", async () => {
+    handlers.updateTicket.mockImplementation(async ({ ticketId }) => {
+      serverTickets.set(ticketId, MONDAY_11)
+      return { ticketId, updatedAt: MONDAY_11 }
+    })
+
+    await startWith(entry(1, update("T-1", MONDAY_10)), entry(2, reply("T-1", MONDAY_10)))
+
+    expect(handlers.reply).toHaveBeenCalledWith(expect.objectContaining({ baseUpdatedAt: MONDAY_11 }), "token")
+    expect(entries()).toEqual([])
+  })
+
+  it("sends a conflicting change once the user chooses to overwrite", async () => {
+    serverTickets.set("T-1", MONDAY_11)
+    await startWith(entry(1, update("T-1", MONDAY_10)))
+
+    await resolveOutboxEntry("entry-1", "overwrite")
+    await replayOutbox()
+
+    expect(handlers.updateTicket).toHaveBeenCalledTimes(1)
+    expect(entries()).toEqual([])
+  })
+
+  it("drops a conflicting change the user discards", async () => {
+    serverTickets.set("T-1", MONDAY_11)
+    await startWith(entry(1, update("T-1", MONDAY_10)))
+
+    await resolveOutboxEntry("entry-1", "discard")
+
+    expect(handlers.updateTicket).not.toHaveBeenCalled()
+    expect(stored.size).toBe(0)
+  })
+
+  it("keeps the whole queue while the server can't be reached", async () => {
+    handlers.updateTicket.mockRejectedValue(new ApiNetworkError())
+
+    await startWith(entry(1, update("T-1")), entry(2, update("T-2")))
+
+    expect(handlers.updateTicket).toHaveBeenCalledTimes(1)
+    expect(entries().map((item) => item.state)).toEqual(["pending", "pending"])
+  })
+
+  it("marks a change the server refuses as failed, and holds the changes after it", async () => {
+    handlers.updateTicket.mockRejectedValue(createApiError(400, { errors: { status: ["Invalid transition"] } }))
+
+    await startWith(entry(1, update("T-1")), entry(2, reply("T-1")))
+
+    expect(entries().find((item) => item.id === "entry-1")).toMatchObject({
+      state: "failed",
+      error: expect.any(String),
+    })
+    expect(stateOf("entry-2")).toBe("pending")
+    expect(handlers.reply).not.toHaveBeenCalled()
+  })
+})
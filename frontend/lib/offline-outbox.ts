@@ -0,0 +1,347 @@
+import { getApiToken, registerApiInterceptor } from "./api-client"
+import { ApiNetworkError, ApiTimeoutError, ApiUnauthorizedError, getApiErrorMessage } from "./api-errors"
+import type {
+  ApiTicketCreateRequest,
+  ApiTicketMessageRequest,
+  ApiTicketResponse,
+  ApiTicketUpdateRequest,
+} from "./api-types"
+import { clearOutbox, deleteOutboxRecord, putOutboxRecord, readOutbox } from "./offline-store"
+import { setQueryData } from "./query-cache"
+import { queryKeys } from "./query-keys"
+import { getTicket } from "./tickets-api"
+
+/** Prefix of the ids given to tickets created offline until the server assigns a real one */
+export const OFFLINE_TICKET_ID_PREFIX = "offline-"
+
+const RETRY_INTERVAL_MS = 30_000
+
+/**
+ * A write made while offline. `baseUpdatedAt` is the ticket's `updatedAt` the change was made
+ * against; undefined when there is nothing to compare with (e.g. a ticket created offline).
+ */
+export type OutboxOperation =
+  | { kind: "createTicket"; tempId: string; request: ApiTicketCreateRequest; files: File[] }
+  | {
+      kind: "reply"
+      ticketId: string
+      pendingMessageId: string
+      request: ApiTicketMessageRequest
+      baseUpdatedAt?: string | null
+    }
+  | { kind: "updateTicket"; ticketId: string; request: ApiTicketUpdateRequest; baseUpdatedAt?: string | null }
+
+export type OutboxEntryState = "pending" | "conflict" | "failed"
+
+export interface OutboxEntry {
+  id: string
+  userId: string
+  sequence: number
+  queuedAt: string
+  operation: OutboxOperation
+  state: OutboxEntryState
+  /** Why the entry is held back: the server's version for conflicts, the error for failures */
+  serverUpdatedAt?: string | null
+  error?: string
+  /** Replay even though the ticket changed on the server since the entry was queued */
+  overwrite?: boolean
+}
+
+export interface OutboxReplayResult {
+  /** The ticket the operation wrote to; for created tickets, the server's id */
+  ticketId: string
+  /** The ticket's `updatedAt` after the write, when the response carried it */
+  updatedAt?: string | null
+}
+
+/** Sends one kind of queued operation to the server and reconciles the cache with the result */
+export type OutboxHandlers = {
+  [K in OutboxOperation["kind"]]: (
+    operation: Extract<OutboxOperation, { kind: K }>,
+    token: string,
+  ) => Promise<OutboxReplayResult>
+}
+
+export interface OfflineSyncStatus {
+  /** The browser has a network and the API answered the last request */
+  online: boolean
+  syncing: boolean
+  entries: OutboxEntry[]
+  /** Epoch ms of the last replay that emptied the queue */
+  lastSyncedAt: number | null
+}
+
+interface OutboxSession {
+  userId: string
+  handlers: OutboxHandlers
+  users: number
+  retryTimer?: ReturnType<typeof setInterval>
+}
+
+let status: OfflineSyncStatus = { online: true, syncing: false, entries: [], lastSyncedAt: null }
+let session: OutboxSession | null = null
+let replaying: Promise<void> | null = null
+let browserOnline = true
+let serverReachable = true
+let connectivityWatched = false
+const listeners = new Set<() => void>()
+
+const setStatus = (patch: Partial<OfflineSyncStatus>) => {
+  status = { ...status, ...patch }
+  listeners.forEach((listener) => listener())
+}
+
+const setEntries = (entries: OutboxEntry[]) => setStatus({ entries: [...entries].sort((a, b) => a.sequence - b.sequence) })
+
+const targetTicketId = (operation: OutboxOperation) =>
+  operation.kind === "createTicket" ? operation.tempId : operation.ticketId
+
+const isOfflineFailure = (error: unknown) => error instanceof ApiNetworkError || error instanceof ApiTimeoutError
+
+const toTime = (value: string | null | undefined) => (value ? Date.parse(value) : 0)
+
+const updateConnectivity = () => {
+  const online = browserOnline && serverReachable
+  if (online === status.online) return
+  setStatus({ online })
+  if (online) void replayOutbox()
+}
+
+// The API client already sees every request; its outcome is the best signal of whether the server is reachable
+const watchConnectivity = () => {
+  if (connectivityWatched || typeof window === "undefined") return
+  connectivityWatched = true
+  browserOnline = navigator.onLine
+  window.addEventListener("online", () => {
+    browserOnline = true
+    // The network is back; give the server a chance before the next request proves otherwise
+    serverReachable = true
+    updateConnectivity()
+  })
+  window.addEventListener("offline", () => {
+    browserOnline = false
+    updateConnectivity()
+  })
+  registerApiInterceptor({
+    onResponse: () => {
+      serverReachable = true
+      updateConnectivity()
+    },
+    onError: (error) => {
+      if (error instanceof ApiNetworkError) {
+        serverReachable = false
+        updateConnectivity()
+      }
+    },
+  })
+  updateConnectivity()
+}
+
+const saveEntry = async (entry: OutboxEntry) => {
+  await putOutboxRecord({ ...entry })
+  setEntries([...status.entries.filter((item) => item.id !== entry.id), entry])
+}
+
+const removeEntry = async (id: string) => {
+  await deleteOutboxRecord(id)
+  setEntries(status.entries.filter((item) => item.id !== id))
+}
+
+/**
+ * Point the entries queued after a successful write at the ticket's new version, so our own
+ * earlier changes don't count as conflicts. Entries for a ticket created offline get its real id.
+ */
+const rebaseLaterEntries = async (previousId: string, result: OutboxReplayResult, token: string) => {
+  const later = status.entries.filter(
+    (entry) => entry.state === "pending" && entry.operation.kind !== "createTicket" && targetTicketId(entry.operation) === previousId,
+  )
+  if (later.length === 0) return
+
+  let updatedAt = result.updatedAt
+  if (typeof updatedAt === "undefined") {
+    const fresh = await getTicket(token, result.ticketId)
+    setQueryData(queryKeys.ticket(fresh.id), fresh)
+    updatedAt = fresh.updatedAt ?? null
+  }
+  for (const entry of later) {
+    await saveEntry({
+      ...entry,
+      operation: { ...entry.operation, ticketId: result.ticketId, baseUpdatedAt: updatedAt } as OutboxOperation,
+    })
+  }
+}
+
+const replayEntries = async ({ handlers }: OutboxSession) => {
+  const token = getApiToken()
+  if (!token) return
+
+  // Later writes to a ticket wait behind an earlier one that is held back, so they never apply out of order
+  const held = new Set<string>()
+
+  for (const { id } of status.entries) {
+    const entry = status.entries.find((item) => item.id === id)
+    if (!entry) continue
+    const ticketId = targetTicketId(entry.operation)
+    if (entry.state !== "pending" || held.has(ticketId)) {
+      held.add(ticketId)
+      continue
+    }
+
+    try {
+      const { operation } = entry
+      if (operation.kind !== "createTicket" && typeof operation.baseUpdatedAt !== "undefined" && !entry.overwrite) {
+        const current: ApiTicketResponse = await getTicket(token, operation.ticketId)
+        if (toTime(current.updatedAt) > toTime(operation.baseUpdatedAt)) {
+          setQueryData(queryKeys.ticket(current.id), current)
+          await saveEntry({ ...entry, state: "conflict", serverUpdatedAt: current.updatedAt ?? null })
+          held.add(ticketId)
+          continue
+        }
+      }
+
+      const result = await (handlers[operation.kind] as (op: OutboxOperation, token: string) => Promise<OutboxReplayResult>)(
+        operation,
+        token,
+      )
+      await removeEntry(entry.id)
+      await rebaseLaterEntries(ticketId, result, token)
+    } catch (error) {
+      // Still offline or signed out: keep the rest of the queue for the next attempt
+      if (isOfflineFailure(error) || error instanceof ApiUnauthorizedError) return
+      console.error("[offline] failed to replay queued change", entry.operation.kind, error)
+      await saveEntry({
+        ...entry,
+        state: "failed",
+        error: getApiErrorMessage(error),
+      })
+      held.add(ticketId)
+    }
+  }
+
+  if (status.entries.length === 0) {
+    setStatus({ lastSyncedAt: Date.now() })
+  }
+}
+
+/**
+ * Send queued changes in the order they were made. Entries whose ticket changed on the server
+ * in the meantime are held as conflicts for the user to resolve. Concurrent calls share one run.
+ */
+export function replayOutbox(): Promise<void> {
+  const current = session
+  if (!current || !status.online) return Promise.resolve()
+  if (replaying) return replaying
+  if (!status.entries.some((entry) => entry.state === "pending")) return Promise.resolve()
+
+  setStatus({ syncing: true })
+  replaying = replayEntries(current)
+    .catch((error: unknown) => console.error("[offline] replay failed", error))
+    .finally(() => {
+      replaying = null
+      setStatus({ syncing: false })
+    })
+  return replaying
+}
+
+/**
+ * Queue a change to be sent once the server can be reached again
+ */
+export async function enqueueOutbox(userId: string, operation: OutboxOperation): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    userId,
+    sequence: Math.max(Date.now(), ...status.entries.map((item) => item.sequence + 1)),
+    queuedAt: new Date().toISOString(),
+    operation,
+    state: "pending",
+  }
+  await saveEntry(entry)
+  return entry
+}
+
+/**
+ * Settle a held entry: `overwrite` sends it anyway (or retries a failure), `discard` drops it
+ */
+export async function resolveOutboxEntry(id: string, resolution: "overwrite" | "discard"): Promise<OutboxEntry | undefined> {
+  const entry = status.entries.find((item) => item.id === id)
+  if (!entry) return undefined
+  if (resolution === "discard") {
+    await removeEntry(id)
+  } else {
+    await saveEntry({ ...entry, state: "pending", overwrite: entry.state === "conflict" || entry.overwrite, error: undefined })
+    void replayOutbox()
+  }
+  return entry
+}
+
+/**
+ * Drop every change still queued for a user, e.g. ones made while an admin viewed the app as them:
+ * replayed later under the user's own session, they would no longer be attributed to the admin
+ */
+export async function discardOutbox(userId: string): Promise<void> {
+  if (session?.userId === userId) setEntries([])
+  await clearOutbox(userId).catch((error: unknown) => console.warn("[offline] failed to clear the outbox", error))
+}
+
+/**
+ * Whether writes should go to the outbox instead of the server right now
+ */
+export function isOffline() {
+  return !status.online
+}
+
+export function getOfflineSyncStatus(): OfflineSyncStatus {
+  return status
+}
+
+export function subscribeOfflineSync(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Load a user's queued changes and replay them whenever the connection comes back.
+ * Several pages may start it; returns the function that stops this use.
+ */
+export function startOutbox(userId: string, handlers: OutboxHandlers): () => void {
+  watchConnectivity()
+
+  if (session && session.userId !== userId) {
+    clearInterval(session.retryTimer)
+    session = null
+    setEntries([])
+  }
+  if (!session) {
+    const created: OutboxSession = { userId, handlers, users: 0 }
+    session = created
+    readOutbox<OutboxEntry>(userId)
+      .then((entries) => {
+        if (session !== created) return
+        setEntries(entries)
+        void replayOutbox()
+      })
+      .catch((error: unknown) => console.warn("[offline] failed to read the outbox", error))
+    // Nothing announces that the server is back when only the server was down, so try now and then
+    created.retryTimer = setInterval(() => {
+      if (!status.online && browserOnline && status.entries.some((entry) => entry.state === "pending")) {
+        serverReachable = true
+        updateConnectivity()
+      }
+    }, RETRY_INTERVAL_MS)
+  }
+  session.users++
+
+  const current = session
+  let stopped = false
+  return () => {
+    if (stopped) return
+    stopped = true
+    current.users--
+    if (current.users > 0 || session !== current) return
+    clearInterval(current.retryTimer)
+    session = null
+    setEntries([])
+  }
+}
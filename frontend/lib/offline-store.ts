@@ -0,0 +1,141 @@
+/**
+ * IndexedDB storage behind offline mode: a per-user mirror of cached server data and the
+ * outbox of writes made while offline. Every function resolves to an empty result when
+ * IndexedDB is unavailable (SSR, private browsing), so callers never have to check.
+ */
+
+const DB_NAME = "ticketing-offline"
+const DB_VERSION = 1
+const MIRROR_STORE = "mirror"
+const OUTBOX_STORE = "outbox"
+const USER_INDEX = "userId"
+
+export interface MirrorRecord {
+  /** `${userId}:${query hash}` */
+  id: string
+  userId: string
+  key: readonly unknown[]
+  data: unknown
+  savedAt: number
+}
+
+/** The fields the store relies on; the outbox module owns the rest of the row */
+export interface OutboxRecord {
+  id: string
+  userId: string
+  /** Replay order */
+  sequence: number
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null)
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(MIRROR_STORE)) {
+          db.createObjectStore(MIRROR_STORE, { keyPath: "id" }).createIndex(USER_INDEX, USER_INDEX)
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "id" }).createIndex(USER_INDEX, USER_INDEX)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.warn("[offline] IndexedDB is unavailable; offline mode is disabled", request.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void,
+  fallback: T,
+): Promise<T> => {
+  const db = await openDb()
+  if (!db) return fallback
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = run(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request ? request.result : fallback)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+const getAllForUser = <T>(storeName: string, userId: string) =>
+  withStore<T[]>(storeName, "readonly", (store) => store.index(USER_INDEX).getAll(userId) as IDBRequest<T[]>, [])
+
+const deleteAllForUser = async (storeName: string, userId: string) => {
+  const db = await openDb()
+  if (!db) return
+  const transaction = db.transaction(storeName, "readwrite")
+  const keys = await requestToPromise(transaction.objectStore(storeName).index(USER_INDEX).getAllKeys(userId))
+  keys.forEach((key) => transaction.objectStore(storeName).delete(key))
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+export function readMirror(userId: string): Promise<MirrorRecord[]> {
+  return getAllForUser<MirrorRecord>(MIRROR_STORE, userId)
+}
+
+/**
+ * Save mirrored queries in one transaction
+ */
+export async function writeMirror(records: MirrorRecord[]): Promise<void> {
+  if (records.length === 0) return
+  await withStore<undefined>(
+    MIRROR_STORE,
+    "readwrite",
+    (store) => {
+      records.forEach((record) => store.put(record))
+    },
+    undefined,
+  )
+}
+
+/**
+ * Forget everything mirrored for a user, e.g. when they sign out
+ */
+export function clearMirror(userId: string): Promise<void> {
+  return deleteAllForUser(MIRROR_STORE, userId)
+}
+
+export function readOutbox<T extends OutboxRecord>(userId: string): Promise<T[]> {
+  return getAllForUser<T>(OUTBOX_STORE, userId).then((records) => records.sort((a, b) => a.sequence - b.sequence))
+}
+
+export async function putOutboxRecord(record: OutboxRecord): Promise<void> {
+  await withStore<undefined>(
+    OUTBOX_STORE,
+    "readwrite",
+    (store) => {
+      store.put(record)
+    },
+    undefined,
+  )
+}
+
+export function clearOutbox(userId: string): Promise<void> {
+  return deleteAllForUser(OUTBOX_STORE, userId)
+}
+
+export async function deleteOutboxRecord(id: string): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.delete(id), undefined)
+}
@@ -0,0 +1,152 @@
+import { spawn, type ChildProcess } from "node:child_process"
+import { createServer } from "node:net"
+import path from "node:path"
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { decodeJwt } from "./auth-session"
+import type * as OidcModule from "./oidc"
+
+/*
+ * Runs the sign-in against scripts/mock-oidc.mjs, the provider `npm run oidc:mock` starts, with
+ * the browser's storage and location stubbed.
+ */
+
+const APP_ORIGIN = "http://localhost:3000"
+const CLIENT_ID = "helpdesk"
+// Issued by GET /api/auth/oidc/nonce in the app
+const NONCE = "backend-nonce"
+
+const freePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const server = createServer()
+    server.once("error", reject)
+    server.listen(0, () => {
+      const { port } = server.address() as { port: number }
+      server.close(() => resolve(port))
+    })
+  })
+
+const startMockProvider = (port: number) =>
+  new Promise<ChildProcess>((resolve, reject) => {
+    const child = spawn(process.execPath, [path.resolve(__dirname, "../scripts/mock-oidc.mjs")], {
+      env: { ...process.env, MOCK_OIDC_PORT: String(port), MOCK_OIDC_CLIENT_ID: CLIENT_ID },
+      stdio: ["ignore", "pipe", "inherit"],
+    })
+    child.once("error", reject)
+    child.once("exit", (code) => reject(new Error(`The mock provider exited with ${code}`)))
+    child.stdout?.on("data", (chunk: Buffer) => {
+      if (chunk.toString().includes("Mock OIDC provider at")) resolve(child)
+    })
+  })
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>()
+  return {
+    get length() {
+      return items.size
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, String(value)),
+  }
+}
+
+describe("OpenID Connect sign-in", () => {
+  let provider: ChildProcess
+  let oidc: typeof OidcModule
+  const assign = vi.fn<(url: string) => void>()
+
+  beforeAll(async () => {
+    const port = await freePort()
+    provider = await startMockProvider(port)
+    vi.stubEnv("NEXT_PUBLIC_OIDC_ISSUER", `http://localhost:${port}`)
+    vi.stubEnv("NEXT_PUBLIC_OIDC_CLIENT_ID", CLIENT_ID)
+    vi.stubGlobal("window", { location: { origin: APP_ORIGIN, assign } })
+    // The configuration is read from the environment when the module loads
+    oidc = await import("./oidc")
+  })
+
+  afterAll(() => {
+    provider?.kill()
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  beforeEach(() => {
+    assign.mockReset()
+    vi.stubGlobal("sessionStorage", memoryStorage())
+  })
+
+  /** Start a sign-in and let the provider sign in `email`; resolves to the callback's parameters */
+  const signInAs = async (email: string, returnTo?: string) => {
+    await oidc.beginOidcLogin(NONCE, returnTo)
+    const authorize = new URL(assign.mock.calls[0][0])
+    authorize.searchParams.set("login_hint", email)
+    const response = await fetch(authorize, { redirect: "manual" })
+    const callback = new URL(response.headers.get("location")!)
+    expect(`${callback.origin}${callback.pathname}`).toBe(`${APP_ORIGIN}${oidc.OIDC_CALLBACK_PATH}`)
+    return callback.searchParams
+  }
+
+  it("sends the browser to the provider with PKCE and the backend's nonce", async () => {
+    await oidc.beginOidcLogin(NONCE)
+    const authorize = new URL(assign.mock.calls[0][0])
+    expect(authorize.searchParams.get("client_id")).toBe(CLIENT_ID)
+    expect(authorize.searchParams.get("nonce")).toBe(NONCE)
+    expect(authorize.searchParams.get("code_challenge_method")).toBe("S256")
+    expect(authorize.searchParams.get("redirect_uri")).toBe(`${APP_ORIGIN}${oidc.OIDC_CALLBACK_PATH}`)
+  })
+
+  it.each([
+    ["admin@sso.test", "helpdesk-admins"],
+    ["tech@sso.test", "helpdesk-technicians"],
+    ["client@sso.test", "finance"],
+  ])("hands the backend %s's ID token, with the groups it maps to a role", async (email, group) => {
+    const result = await oidc.completeOidcLogin(await signInAs(email, "/tickets/T-1"))
+    expect(Object.keys(result).sort()).toEqual(["idToken", "returnTo"])
+    expect(decodeJwt(result.idToken)).toMatchObject({ email, groups: [group], nonce: NONCE })
+    expect(result.returnTo).toBe("/tickets/T-1")
+  })
+
+  it("drops a return path that leaves the app", async () => {
+    const result = await oidc.completeOidcLogin(await signInAs("client@sso.test", "/\t/evil.com"))
+    expect(result.returnTo).toBe("/")
+  })
+
+  it("rejects a callback whose state doesn't match", async () => {
+    const params = await signInAs("client@sso.test")
+    params.set("state", "forged")
+    await expect(oidc.completeOidcLogin(params)).rejects.toMatchObject({ code: "state-mismatch" })
+  })
+
+  it("rejects a replayed callback", async () => {
+    const params = await signInAs("client@sso.test")
+    await oidc.completeOidcLogin(params)
+    await expect(oidc.completeOidcLogin(params)).rejects.toMatchObject({ code: "state-mismatch" })
+  })
+
+  it("reports the provider's error", async () => {
+    await oidc.beginOidcLogin(NONCE)
+    const params = new URLSearchParams({ error: "access_denied", error_description: "The user cancelled" })
+    await expect(oidc.completeOidcLogin(params)).rejects.toMatchObject({
+      code: "provider-error",
+      message: "The user cancelled",
+    })
+  })
+
+  it("fails when the provider won't trade the code", async () => {
+    const params = await signInAs("client@sso.test")
+    params.set("code", "unknown")
+    await expect(oidc.completeOidcLogin(params)).rejects.toMatchObject({ code: "token-exchange" })
+  })
+
+  it("rejects an ID token issued for another sign-in", async () => {
+    const params = await signInAs("client@sso.test")
+    const key = "ticketing.oidc.pending"
+    const pending = JSON.parse(sessionStorage.getItem(key)!)
+    sessionStorage.setItem(key, JSON.stringify({ ...pending, nonce: "another" }))
+    await expect(oidc.completeOidcLogin(params)).rejects.toMatchObject({ code: "invalid-id-token" })
+  })
+})
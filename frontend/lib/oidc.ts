@@ -0,0 +1,201 @@
+import { decodeJwt } from "./auth-session"
+import { sanitizeReturnTo } from "./route-access"
+
+/*
+ * Single sign-on with the organization's OpenID Connect provider: authorization code flow with
+ * PKCE, as a public client. The browser trades the code for the provider's ID token and the
+ * backend trades that (after verifying its signature) for the app's own JWT. The nonce is issued by
+ * the backend, which accepts each one once. The role comes from the backend's own mapping of the
+ * verified claims; nothing the browser says about it is trusted.
+ *
+ * Configured with NEXT_PUBLIC_OIDC_* variables; SSO is offered only when the issuer and client
+ * id are set. `npm run oidc:mock` starts a provider to develop and test against.
+ */
+
+export interface OidcConfig {
+  issuer: string
+  clientId: string
+  scope: string
+  /** Shown on the sign-in button */
+  providerName: string
+}
+
+export const oidcConfig: OidcConfig | null =
+  process.env.NEXT_PUBLIC_OIDC_ISSUER && process.env.NEXT_PUBLIC_OIDC_CLIENT_ID
+    ? {
+        issuer: process.env.NEXT_PUBLIC_OIDC_ISSUER.replace(/\/+$/, ""),
+        clientId: process.env.NEXT_PUBLIC_OIDC_CLIENT_ID,
+        scope: process.env.NEXT_PUBLIC_OIDC_SCOPE || "openid profile email",
+        providerName: process.env.NEXT_PUBLIC_OIDC_PROVIDER_NAME || "SSO",
+      }
+    : null
+
+/** Route the provider redirects back to */
+export const OIDC_CALLBACK_PATH = "/login/callback"
+
+const PENDING_LOGIN_STORAGE_KEY = "ticketing.oidc.pending"
+
+export type OidcErrorCode = "not-configured" | "provider-error" | "state-mismatch" | "token-exchange" | "invalid-id-token"
+
+/**
+ * A sign-in that can't complete; `code` says which step failed
+ */
+export class OidcError extends Error {
+  readonly code: OidcErrorCode
+
+  constructor(code: OidcErrorCode, message: string) {
+    super(message)
+    this.name = "OidcError"
+    this.code = code
+  }
+}
+
+interface OidcDiscovery {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+}
+
+interface PendingOidcLogin {
+  state: string
+  nonce: string
+  codeVerifier: string
+  /** Where to go once signed in */
+  returnTo: string
+}
+
+export interface OidcCallbackResult {
+  idToken: string
+  returnTo: string
+}
+
+let discoveryPromise: Promise<OidcDiscovery> | null = null
+
+function discover(config: OidcConfig): Promise<OidcDiscovery> {
+  discoveryPromise ??= fetch(`${config.issuer}/.well-known/openid-configuration`)
+    .then((response) => {
+      if (!response.ok) throw new Error(`Discovery failed with ${response.status}`)
+      return response.json() as Promise<OidcDiscovery>
+    })
+    .catch((error) => {
+      // Let the next attempt try again
+      discoveryPromise = null
+      throw new OidcError("provider-error", `Could not reach the identity provider: ${error.message}`)
+    })
+  return discoveryPromise
+}
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "")
+
+const randomString = (byteLength = 32) => base64Url(crypto.getRandomValues(new Uint8Array(byteLength)))
+
+/** S256 code challenge for a PKCE verifier */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier))
+  return base64Url(new Uint8Array(digest))
+}
+
+const redirectUri = () => `${window.location.origin}${OIDC_CALLBACK_PATH}`
+
+/**
+ * Send the browser to the provider's sign-in page with a nonce from GET /api/auth/oidc/nonce. Only
+ * same-origin paths are accepted as `returnTo`.
+ */
+export async function beginOidcLogin(nonce: string, returnTo = "/"): Promise<void> {
+  if (!oidcConfig) {
+    throw new OidcError("not-configured", "Single sign-on is not configured")
+  }
+  const discovery = await discover(oidcConfig)
+  const pending: PendingOidcLogin = {
+    state: randomString(),
+    nonce,
+    codeVerifier: randomString(48),
+    returnTo: sanitizeReturnTo(returnTo),
+  }
+  // Session storage: the flow belongs to this tab and must not outlive it
+  sessionStorage.setItem(PENDING_LOGIN_STORAGE_KEY, JSON.stringify(pending))
+
+  const url = new URL(discovery.authorization_endpoint)
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: oidcConfig.clientId,
+    redirect_uri: redirectUri(),
+    scope: oidcConfig.scope,
+    state: pending.state,
+    nonce: pending.nonce,
+    code_challenge: await createCodeChallenge(pending.codeVerifier),
+    code_challenge_method: "S256",
+  }).toString()
+  window.location.assign(url.toString())
+}
+
+const takePendingLogin = (): PendingOidcLogin | null => {
+  const raw = sessionStorage.getItem(PENDING_LOGIN_STORAGE_KEY)
+  sessionStorage.removeItem(PENDING_LOGIN_STORAGE_KEY)
+  try {
+    return raw ? (JSON.parse(raw) as PendingOidcLogin) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Finish the sign-in on the callback route: check the state, trade the code for the provider's
+ * tokens and check the ID token was issued for this sign-in
+ */
+export async function completeOidcLogin(params: URLSearchParams): Promise<OidcCallbackResult> {
+  if (!oidcConfig) {
+    throw new OidcError("not-configured", "Single sign-on is not configured")
+  }
+  const pending = takePendingLogin()
+  const providerError = params.get("error")
+  if (providerError) {
+    throw new OidcError("provider-error", params.get("error_description") ?? providerError)
+  }
+  const code = params.get("code")
+  if (!pending || !code || params.get("state") !== pending.state) {
+    // A stale tab, a replayed callback URL or a forged redirect
+    throw new OidcError("state-mismatch", "The sign-in response does not match a sign-in started here")
+  }
+
+  const discovery = await discover(oidcConfig)
+  let tokens: { id_token?: string }
+  try {
+    const response = await fetch(discovery.token_endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectUri(),
+        client_id: oidcConfig.clientId,
+        code_verifier: pending.codeVerifier,
+      }),
+    })
+    tokens = await response.json()
+    if (!response.ok) {
+      throw new Error((tokens as { error_description?: string }).error_description ?? `HTTP ${response.status}`)
+    }
+  } catch (error) {
+    throw new OidcError("token-exchange", `The identity provider rejected the sign-in: ${(error as Error).message}`)
+  }
+
+  const idToken = tokens.id_token
+  const claims = idToken ? decodeJwt(idToken) : null
+  const audience = claims ? ([] as unknown[]).concat(claims.aud) : []
+  if (
+    !idToken ||
+    !claims ||
+    claims.nonce !== pending.nonce ||
+    claims.iss !== discovery.issuer ||
+    !audience.includes(oidcConfig.clientId)
+  ) {
+    throw new OidcError("invalid-id-token", "The identity provider returned an ID token for a different sign-in")
+  }
+
+  return { idToken, returnTo: pending.returnTo }
+}
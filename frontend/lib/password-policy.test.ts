@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+import * as yup from "yup"
+
+import {
+  DEFAULT_PASSWORD_POLICY,
+  checkPassword,
+  getPasswordPolicyError,
+  getPasswordStrength,
+  isCommonPassword,
+  isEmailDomainAllowed,
+  passwordPolicyFromSettings,
+  passwordPolicySchema,
+} from "./password-policy"
+
+const policy = DEFAULT_PASSWORD_POLICY
+
+const failedRules = (password: string, email?: string) =>
+  checkPassword(password, policy, email)
+    .filter((check) => !check.passed)
+    .map((check) => check.rule)
+
+describe("passwordPolicyFromSettings", () => {
+  it("takes the configured length but never goes below six", () => {
+    expect(passwordPolicyFromSettings({ passwordMinLength: 12 }).minLength).toBe(12)
+    expect(passwordPolicyFromSettings({ passwordMinLength: 4 }).minLength).toBe(6)
+    expect(passwordPolicyFromSettings(null)).toEqual(DEFAULT_PASSWORD_POLICY)
+  })
+})
+
+describe("isCommonPassword", () => {
+  it.each(["password", "Password", "P@ssw0rd123!", "qwerty2024", "Tehran1404!"])("blocks %s", (password) => {
+    expect(isCommonPassword(password)).toBe(true)
+  })
+
+  it("lets other passwords through", () => {
+    expect(isCommonPassword("Blue-Kettle-42")).toBe(false)
+  })
+})
+
+describe("checkPassword", () => {
+  it("passes a password that meets every rule", () => {
+    expect(failedRules("Blue-Kettle-42", "sara@example.com")).toEqual([])
+  })
+
+  it("reports each broken rule", () => {
+    expect(failedRules("Ab1!")).toEqual(["length"])
+    expect(failedRules("bluekettle")).toEqual(["classes"])
+    expect(failedRules("Welcome123!")).toEqual(["common"])
+    expect(failedRules("Sara-Kettle-42", "sara@example.com")).toEqual(["email"])
+  })
+
+  it("only matches an email's local part long enough to mean something", () => {
+    expect(failedRules("Al-Kettle-42", "al@example.com")).toEqual([])
+  })
+})
+
+describe("getPasswordPolicyError", () => {
+  it("explains the first broken rule", () => {
+    expect(getPasswordPolicyError("Ab1!", policy)).toContain("۸")
+    expect(getPasswordPolicyError("Blue-Kettle-42", policy)).toBeNull()
+  })
+})
+
+describe("getPasswordStrength", () => {
+  it("keeps passwords that break the policy at weak or below", () => {
+    expect(getPasswordStrength("", policy)).toBe(0)
+    expect(getPasswordStrength("abc", policy)).toBe(0)
+    expect(getPasswordStrength("Welcome123!", policy)).toBe(1)
+  })
+
+  it("rates length and variety above the minimum", () => {
+    expect(getPasswordStrength("BlueKettle4", policy)).toBe(2)
+    expect(getPasswordStrength("BlueKettle42", policy)).toBe(3)
+    expect(getPasswordStrength("Blue-Kettle-42", policy)).toBe(4)
+  })
+})
+
+describe("passwordPolicySchema", () => {
+  it("checks the password against a sibling email field", async () => {
+    const schema = yup.object({
+      email: yup.string(),
+      password: passwordPolicySchema(policy, { emailField: "email" }),
+    })
+    await expect(schema.validate({ email: "sara@example.com", password: "Sara-Kettle-42" })).rejects.toThrow("ایمیل")
+    await expect(schema.validate({ email: "sara@example.com", password: "Blue-Kettle-42" })).resolves.toBeTruthy()
+  })
+})
+
+describe("isEmailDomainAllowed", () => {
+  it("allows every domain without a list", () => {
+    expect(isEmailDomainAllowed("sara@gmail.com", [])).toBe(true)
+    expect(isEmailDomainAllowed("sara@gmail.com", null)).toBe(true)
+  })
+
+  it("allows listed domains and their subdomains", () => {
+    const domains = ["@Example.com", " corp.ir "]
+    expect(isEmailDomainAllowed("sara@example.com", domains)).toBe(true)
+    expect(isEmailDomainAllowed("sara@mail.corp.ir", domains)).toBe(true)
+    expect(isEmailDomainAllowed("sara@notexample.com", domains)).toBe(false)
+    expect(isEmailDomainAllowed("sara", domains)).toBe(false)
+  })
+})
@@ -0,0 +1,185 @@
+import * as yup from "yup"
+import type { ApiPublicSettingsResponse } from "./api-types"
+
+export interface PasswordPolicy {
+  minLength: number
+  /**
+   * How many of lowercase, uppercase, digits and symbols a password must mix. Fixed at 3: only the
+   * length is an admin setting, and the backend (Infrastructure/Auth/PasswordPolicy.cs) enforces 3 too.
+   */
+  minCharacterClasses: number
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  minCharacterClasses: 3,
+}
+
+/**
+ * The policy the admin configured in the system settings; defaults until they have loaded
+ */
+export function passwordPolicyFromSettings(
+  settings: Pick<ApiPublicSettingsResponse, "passwordMinLength"> | null | undefined
+): PasswordPolicy {
+  return {
+    ...DEFAULT_PASSWORD_POLICY,
+    minLength: Math.max(settings?.passwordMinLength ?? DEFAULT_PASSWORD_POLICY.minLength, 6),
+  }
+}
+
+/*
+ * Passwords that top every breach list. Compared after lowercasing, undoing common letter
+ * substitutions and dropping the digits and symbols people append, so "P@ssw0rd123!" matches too.
+ */
+const COMMON_PASSWORDS = new Set([
+  "password", "passw0rd", "qwerty", "qwertyuiop", "asdfgh", "asdfghjkl", "zxcvbnm", "azerty",
+  "123456", "1234567", "12345678", "123456789", "1234567890", "111111", "000000", "123123",
+  "654321", "666666", "121212", "112233", "987654321", "abc123", "abcdef", "abcd1234",
+  "letmein", "welcome", "admin", "administrator", "root", "login", "guest", "user", "test",
+  "iloveyou", "monkey", "dragon", "master", "sunshine", "princess", "football", "baseball",
+  "shadow", "superman", "michael", "freedom", "whatever", "trustno1", "secret", "changeme",
+  "default", "hello", "starwars", "computer", "internet", "google", "samsung", "ticket",
+  "ticketing", "support", "helpdesk", "company", "iran", "tehran",
+])
+
+const LEET_SUBSTITUTIONS: Record<string, string> = { "@": "a", "4": "a", "3": "e", "1": "i", "!": "i", "0": "o", "$": "s", "5": "s", "7": "t" }
+
+const normalizeForBlocklist = (password: string) => {
+  const lower = password.toLowerCase()
+  const trimmed = lower.replace(/[\d\W_]+$/, "") || lower
+  return [lower, trimmed, trimmed.replace(/[@431!0$57]/g, (char) => LEET_SUBSTITUTIONS[char] ?? char)]
+}
+
+export const isCommonPassword = (password: string) =>
+  normalizeForBlocklist(password).some((candidate) => COMMON_PASSWORDS.has(candidate))
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z\d]/]
+
+const countCharacterClasses = (password: string) =>
+  CHARACTER_CLASSES.filter((pattern) => pattern.test(password)).length
+
+/** The email, or its part before the @ when that is long enough to be meaningful */
+const containsEmail = (password: string, email: string | null | undefined) => {
+  if (!email) return false
+  const lower = password.toLowerCase()
+  const [localPart] = email.toLowerCase().split("@")
+  return lower.includes(email.toLowerCase()) || (localPart.length >= 3 && lower.includes(localPart))
+}
+
+export type PasswordRule = "length" | "classes" | "common" | "email"
+
+export interface PasswordCheck {
+  rule: PasswordRule
+  passed: boolean
+  message: string
+}
+
+const toFaDigits = (value: number) => value.toLocaleString("fa-IR")
+
+/**
+ * Every rule of the policy with whether the password meets it, in display order
+ */
+export function checkPassword(password: string, policy: PasswordPolicy, email?: string | null): PasswordCheck[] {
+  return [
+    {
+      rule: "length",
+      passed: password.length >= policy.minLength,
+      message: `حداقل ${toFaDigits(policy.minLength)} کاراکتر`,
+    },
+    {
+      rule: "classes",
+      passed: countCharacterClasses(password) >= policy.minCharacterClasses,
+      message: `ترکیبی از حداقل ${toFaDigits(policy.minCharacterClasses)} نوع از حروف کوچک، حروف بزرگ، عدد و نماد`,
+    },
+    {
+      rule: "common",
+      passed: password.length > 0 && !isCommonPassword(password),
+      message: "جزو رمزهای عبور رایج یا لو رفته نباشد",
+    },
+    {
+      rule: "email",
+      passed: password.length > 0 && !containsEmail(password, email),
+      message: "شامل ایمیل شما نباشد",
+    },
+  ]
+}
+
+const ruleErrors: Record<PasswordRule, (policy: PasswordPolicy) => string> = {
+  length: (policy) => `رمز عبور باید حداقل ${toFaDigits(policy.minLength)} کاراکتر باشد`,
+  classes: (policy) =>
+    `رمز عبور باید ترکیبی از حداقل ${toFaDigits(policy.minCharacterClasses)} نوع از حروف کوچک، حروف بزرگ، عدد و نماد باشد`,
+  common: () => "این رمز عبور بسیار رایج است یا در نشت‌های اطلاعاتی دیده شده است",
+  email: () => "رمز عبور نباید شامل ایمیل شما باشد",
+}
+
+/**
+ * Why the password breaks the policy, or null when it doesn't
+ */
+export function getPasswordPolicyError(
+  password: string,
+  policy: PasswordPolicy,
+  email?: string | null
+): string | null {
+  const failed = checkPassword(password, policy, email).find((check) => !check.passed)
+  return failed ? ruleErrors[failed.rule](policy) : null
+}
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4
+
+export const passwordStrengthLabels: Record<PasswordStrength, string> = {
+  0: "خیلی ضعیف",
+  1: "ضعیف",
+  2: "متوسط",
+  3: "خوب",
+  4: "قوی",
+}
+
+/**
+ * 0–4 for the strength meter. A password that breaks the policy never rates above weak.
+ */
+export function getPasswordStrength(password: string, policy: PasswordPolicy, email?: string | null): PasswordStrength {
+  if (!password) return 0
+  if (checkPassword(password, policy, email).some((check) => !check.passed)) {
+    return password.length >= policy.minLength / 2 ? 1 : 0
+  }
+  let score = 2
+  if (password.length >= policy.minLength + 4) score++
+  if (countCharacterClasses(password) === CHARACTER_CLASSES.length) score++
+  return score as PasswordStrength
+}
+
+/**
+ * yup rule for a new password. `emailField` names the sibling field holding the account's email;
+ * pass `email` instead when it isn't part of the form.
+ */
+export const passwordPolicySchema = (
+  policy: PasswordPolicy,
+  { emailField, email }: { emailField?: string; email?: string | null } = {}
+) =>
+  yup
+    .string()
+    .required("رمز عبور الزامی است")
+    .test("password-policy", function (value) {
+      const owner = emailField ? (this.parent?.[emailField] as string | undefined) : email
+      const message = getPasswordPolicyError(value ?? "", policy, owner)
+      return message ? this.createError({ message }) : true
+    })
+
+/* ---------- email domains ---------- */
+
+const normalizeDomain = (domain: string) => domain.trim().toLowerCase().replace(/^@/, "")
+
+/**
+ * Whether registration accepts this email. An empty list allows every domain.
+ */
+export function isEmailDomainAllowed(email: string, allowedDomains: readonly string[] | null | undefined): boolean {
+  const domains = (allowedDomains ?? []).map(normalizeDomain).filter(Boolean)
+  if (domains.length === 0) return true
+  const domain = email.trim().toLowerCase().split("@")[1]
+  // Subdomains of an allowed domain count too
+  return !!domain && domains.some((allowed) => domain === allowed || domain.endsWith(`.${allowed}`))
+}
+
+export const emailDomainError = (allowedDomains: readonly string[]) =>
+  `ثبت‌نام فقط با ایمیل سازمانی امکان‌پذیر است (${allowedDomains.map(normalizeDomain).join("، ")})`
+
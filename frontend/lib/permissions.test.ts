@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest"
+
+import { resolvePermissions, toPermissionCatalog } from "./permissions"
+
+describe("resolvePermissions", () => {
+  it("grants nothing until the server sends the list", () => {
+    expect([...resolvePermissions()]).toEqual([])
+  })
+
+  it("ignores unknown names from the server", () => {
+    expect([...resolvePermissions(["tickets.update", "tickets.teleport"])]).toEqual(["tickets.update"])
+  })
+})
+
+describe("toPermissionCatalog", () => {
+  it("keys the server's base roles by the app's role names", () => {
+    const catalog = toPermissionCatalog({
+      permissions: ["tickets.viewAssigned", "tickets.update", "tickets.teleport"],
+      baseRoles: [
+        { role: "Technician", defaults: ["tickets.viewAssigned"], available: ["tickets.viewAssigned", "tickets.update"] },
+        { role: "Client", defaults: [], available: ["tickets.teleport"] },
+      ],
+    })
+
+    expect(catalog.defaults.engineer).toEqual(["tickets.viewAssigned"])
+    expect(catalog.available.engineer).toEqual(["tickets.viewAssigned", "tickets.update"])
+    expect(catalog.available.client).toEqual([])
+    expect(catalog.available.admin).toEqual([])
+  })
+})
@@ -0,0 +1,101 @@
+import type { ApiPermissionCatalogResponse } from "./api-types"
+import { roleFromApi } from "./role-mappers"
+
+/**
+ * What a signed-in user may do. UI visibility is derived from these, never from the role name.
+ * The backend (Application/Services/Permissions.cs) authorizes by the same names and owns everything
+ * else about them: which permissions a user holds and which base roles may hold each.
+ */
+export const PERMISSIONS = [
+  "tickets.create",
+  "tickets.viewOwn",
+  "tickets.viewAssigned",
+  "tickets.viewAll",
+  "tickets.assign",
+  "tickets.update",
+  "tickets.merge",
+  "tickets.collaborate",
+  "attachments.manage",
+  "categories.manage",
+  "technicians.manage",
+  "automation.manage",
+  "sla.manage",
+  "workflow.manage",
+  "reports.view",
+  "settings.system",
+  "roles.manage",
+  "users.manage",
+  "users.impersonate",
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]
+
+/** The roles the backend knows; a custom role extends one of them */
+export type BaseRole = "client" | "engineer" | "admin"
+
+export const permissionLabels: Record<Permission, string> = {
+  "tickets.create": "ثبت درخواست جدید",
+  "tickets.viewOwn": "مشاهده درخواست‌های خود",
+  "tickets.viewAssigned": "مشاهده تیکت‌های محول شده",
+  "tickets.viewAll": "مشاهده همه تیکت‌ها",
+  "tickets.assign": "تخصیص تیکت به تکنسین",
+  "tickets.update": "تغییر وضعیت و اولویت تیکت‌ها",
+  "tickets.merge": "ادغام تیکت‌های تکراری",
+  "tickets.collaborate": "ثبت فعالیت در همکاری روی تیکت",
+  "attachments.manage": "حذف پیوست‌های دیگران",
+  "categories.manage": "مدیریت دسته‌بندی‌ها",
+  "technicians.manage": "مدیریت تکنسین‌ها",
+  "automation.manage": "تنظیمات تخصیص خودکار",
+  "sla.manage": "مدیریت SLA و ساعات کاری",
+  "workflow.manage": "مدیریت گردش کار تیکت‌ها",
+  "reports.view": "مشاهده گزارش رضایت مشتریان",
+  "settings.system": "تنظیمات سیستم",
+  "roles.manage": "مدیریت نقش‌ها و دسترسی‌ها",
+  "users.manage": "مدیریت کاربران",
+  "users.impersonate": "مشاهده سامانه از دید کاربران دیگر",
+}
+
+export const baseRoleLabels: Record<BaseRole, string> = {
+  client: "کاربر",
+  engineer: "تکنسین",
+  admin: "مدیر سیستم",
+}
+
+/**
+ * Each base role's default permissions and the ones a custom role on it may hold, from the backend's
+ * catalogue (GET /api/roles/permissions)
+ */
+export interface PermissionCatalog {
+  defaults: Record<BaseRole, readonly Permission[]>
+  available: Record<BaseRole, readonly Permission[]>
+}
+
+export const isPermission = (value: string): value is Permission => (PERMISSIONS as readonly string[]).includes(value)
+
+/** The catalogue by the app's role names, without permissions this app doesn't know */
+export function toPermissionCatalog(response: ApiPermissionCatalogResponse): PermissionCatalog {
+  const catalog: PermissionCatalog = {
+    defaults: { client: [], engineer: [], admin: [] },
+    available: { client: [], engineer: [], admin: [] },
+  }
+  response.baseRoles.forEach((entry) => {
+    const role = roleFromApi(entry.role)
+    catalog.defaults[role] = entry.defaults.filter(isPermission)
+    catalog.available[role] = entry.available.filter(isPermission)
+  })
+  return catalog
+}
+
+/**
+ * The permission set for a user, from the server's list. Nothing is granted until it arrives, and
+ * names from a newer server are ignored.
+ */
+export function resolvePermissions(serverPermissions?: readonly string[] | null): ReadonlySet<Permission> {
+  return new Set(serverPermissions?.filter(isPermission) ?? [])
+}
+
+/**
+ * True when every listed permission is held. An empty list is always allowed.
+ */
+export const hasPermissions = (granted: ReadonlySet<Permission>, required: Permission | readonly Permission[]) =>
+  (typeof required === "string" ? [required] : required).every((permission) => granted.has(permission))
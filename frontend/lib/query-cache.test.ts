@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  clearQueryCache,
+  fetchQuery,
+  getQueriesData,
+  getQueryData,
+  getQueryState,
+  hashQueryKey,
+  hydrateQueryData,
+  invalidateQueries,
+  runOptimisticMutation,
+  setQueryData,
+  subscribeQuery,
+  updateQueries,
+} from "./query-cache"
+
+afterEach(() => {
+  clearQueryCache()
+  vi.useRealTimers()
+})
+
+describe("hashQueryKey", () => {
+  it("ignores the order of object keys and undefined values", () => {
+    expect(hashQueryKey(["tickets", { page: 1, sort: "createdAt" }])).toBe(
+      hashQueryKey(["tickets", { sort: "createdAt", page: 1, search: undefined }]),
+    )
+    expect(hashQueryKey(["tickets", { page: 1 }])).not.toBe(hashQueryKey(["tickets", { page: 2 }]))
+  })
+})
+
+describe("fetchQuery", () => {
+  it("shares one request between concurrent calls", async () => {
+    const fetcher = vi.fn(async () => "data")
+    const [first, second] = await Promise.all([fetchQuery(["a"], fetcher), fetchQuery(["a"], fetcher)])
+    expect(first).toBe("data")
+    expect(second).toBe("data")
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it("serves fresh data from the cache and refetches stale data", async () => {
+    vi.useFakeTimers()
+    const fetcher = vi.fn(async () => fetcher.mock.calls.length)
+    await fetchQuery(["a"], fetcher, { staleTime: 1_000 })
+    expect(await fetchQuery(["a"], fetcher, { staleTime: 1_000 })).toBe(1)
+
+    vi.advanceTimersByTime(1_000)
+    expect(await fetchQuery(["a"], fetcher, { staleTime: 1_000 })).toBe(2)
+    expect(await fetchQuery(["a"], fetcher, { staleTime: 1_000, force: true })).toBe(3)
+  })
+
+  it("keeps the cached data next to a failed revalidation's error", async () => {
+    await fetchQuery(["a"], async () => "data")
+    await expect(fetchQuery(["a"], () => Promise.reject(new Error("offline")))).rejects.toThrow("offline")
+    expect(getQueryState(["a"])).toMatchObject({ data: "data", isFetching: false, error: { message: "offline" } })
+  })
+})
+
+describe("writes", () => {
+  it("updates every query under a prefix", () => {
+    setQueryData(["tickets", "list", { page: 1 }], [1, 2])
+    setQueryData(["tickets", "list", { page: 2 }], [3])
+    setQueryData(["users"], [9])
+
+    updateQueries<number[]>(["tickets", "list"], (data) => data.map((value) => value * 10))
+
+    expect(getQueriesData<number[]>(["tickets"]).map(([, data]) => data)).toEqual([[10, 20], [30]])
+    expect(getQueryData(["users"])).toEqual([9])
+  })
+
+  it("hydrates only queries that hold no data yet, and marks them stale", () => {
+    setQueryData(["a"], "fetched")
+    hydrateQueryData(["a"], "restored")
+    hydrateQueryData(["b"], "restored")
+
+    expect(getQueryData(["a"])).toBe("fetched")
+    expect(getQueryState(["b"])).toMatchObject({ data: "restored", updatedAt: 0 })
+  })
+})
+
+describe("invalidateQueries", () => {
+  it("refetches the queries on screen and only marks the rest stale", async () => {
+    const shown = vi.fn(async () => "shown")
+    const hidden = vi.fn(async () => "hidden")
+    await fetchQuery(["tickets", 1], shown)
+    await fetchQuery(["tickets", 2], hidden)
+    const unsubscribe = subscribeQuery(["tickets", 1], () => {})
+
+    await invalidateQueries(["tickets"])
+
+    expect(shown).toHaveBeenCalledTimes(2)
+    expect(hidden).toHaveBeenCalledTimes(1)
+    expect(getQueryState(["tickets", 2]).updatedAt).toBe(0)
+    unsubscribe()
+  })
+})
+
+describe("runOptimisticMutation", () => {
+  it("keeps the optimistic write when the request succeeds", async () => {
+    setQueryData(["ticket", "T-1"], { status: "open" })
+
+    await runOptimisticMutation({
+      affects: [["ticket"]],
+      apply: () => setQueryData(["ticket", "T-1"], { status: "closed" }),
+      mutate: async () => undefined,
+    })
+
+    expect(getQueryData(["ticket", "T-1"])).toEqual({ status: "closed" })
+  })
+
+  it("restores the previous data when the request fails", async () => {
+    setQueryData(["ticket", "T-1"], { status: "open" })
+
+    await expect(
+      runOptimisticMutation({
+        affects: [["ticket"]],
+        apply: () => setQueryData(["ticket", "T-1"], { status: "closed" }),
+        mutate: () => Promise.reject(new Error("conflict")),
+      }),
+    ).rejects.toThrow("conflict")
+
+    expect(getQueryData(["ticket", "T-1"])).toEqual({ status: "open" })
+  })
+
+  it("removes the optimistic data of a query that had none", async () => {
+    const unsubscribe = subscribeQuery(["ticket", "T-1"], () => {})
+
+    await expect(
+      runOptimisticMutation({
+        affects: [["ticket"]],
+        apply: () => setQueryData(["ticket", "T-1"], { status: "closed" }),
+        mutate: () => Promise.reject(new Error("conflict")),
+        invalidate: [],
+      }),
+    ).rejects.toThrow("conflict")
+
+    expect(getQueryData(["ticket", "T-1"])).toBeUndefined()
+    unsubscribe()
+  })
+})
+
+describe("clearQueryCache", () => {
+  it("drops the data and tells subscribers", () => {
+    setQueryData(["a"], "data")
+    const listener = vi.fn()
+    const unsubscribe = subscribeQuery(["a"], listener)
+
+    clearQueryCache()
+
+    expect(getQueryData(["a"])).toBeUndefined()
+    expect(listener).toHaveBeenCalled()
+    unsubscribe()
+  })
+
+  it("neither shares nor caches a request that was in flight", async () => {
+    let resolveOld!: (value: string) => void
+    const oldRequest = fetchQuery(["me"], () => new Promise<string>((resolve) => (resolveOld = resolve)))
+    const unsubscribe = subscribeQuery(["me"], () => {})
+
+    clearQueryCache()
+    const newRequest = fetchQuery(["me"], async () => "new-user-data")
+    resolveOld("old-user-data")
+
+    await expect(newRequest).resolves.toBe("new-user-data")
+    await oldRequest
+    expect(getQueryData(["me"])).toBe("new-user-data")
+    unsubscribe()
+  })
+
+  it("drops what a request in flight returns after the clear", async () => {
+    let resolveOld!: (value: string) => void
+    const oldRequest = fetchQuery(["me"], () => new Promise<string>((resolve) => (resolveOld = resolve)))
+    const unsubscribe = subscribeQuery(["me"], () => {})
+
+    clearQueryCache()
+    resolveOld("old-user-data")
+    await oldRequest
+
+    expect(getQueryState(["me"])).toEqual({ error: null, updatedAt: 0, isFetching: false })
+    unsubscribe()
+  })
+})
@@ -0,0 +1,275 @@
+/**
+ * Small keyed cache for server data: stale-while-revalidate reads, de-duplicated requests,
+ * and snapshot/restore so optimistic writes can be rolled back.
+ */
+
+export type QueryKey = readonly unknown[]
+
+export interface QueryState<T> {
+  data?: T
+  error: Error | null
+  /** Epoch ms of the last successful fetch or write; 0 means stale */
+  updatedAt: number
+  isFetching: boolean
+}
+
+interface Entry {
+  key: QueryKey
+  state: QueryState<unknown>
+  promise?: Promise<unknown>
+  fetcher?: () => Promise<unknown>
+  listeners: Set<() => void>
+}
+
+export type QuerySnapshot = Array<[string, QueryState<unknown> | undefined]>
+
+const entries = new Map<string, Entry>()
+const cacheListeners = new Set<(key: QueryKey, state: QueryState<unknown>) => void>()
+
+// Bumped by clearQueryCache so requests started before it can't write into the cleared cache
+let cacheGeneration = 0
+
+const EMPTY_STATE: QueryState<never> = Object.freeze({ error: null, updatedAt: 0, isFetching: false })
+
+// Object keys are sorted so `{ page, sort }` and `{ sort, page }` name the same query
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value as Record<string, unknown>)
+      .filter((key) => typeof (value as Record<string, unknown>)[key] !== "undefined")
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`
+  }
+  return JSON.stringify(value) ?? "null"
+}
+
+export const hashQueryKey = (key: QueryKey) => stableStringify(key)
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.every((part, index) => stableStringify(part) === stableStringify(key[index]))
+
+const ensureEntry = (key: QueryKey): Entry => {
+  const hash = hashQueryKey(key)
+  let entry = entries.get(hash)
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, listeners: new Set() }
+    entries.set(hash, entry)
+  }
+  return entry
+}
+
+const replaceState = (entry: Entry, state: QueryState<unknown>) => {
+  // Replace rather than mutate so subscribers can compare snapshots by reference
+  entry.state = state
+  entry.listeners.forEach((listener) => listener())
+  cacheListeners.forEach((listener) => listener(entry.key, entry.state))
+}
+
+const setState = (entry: Entry, patch: Partial<QueryState<unknown>>) => replaceState(entry, { ...entry.state, ...patch })
+
+/**
+ * Changes every time clearQueryCache runs, so data kept outside the cache can tell it is from before
+ */
+export const getQueryCacheGeneration = () => cacheGeneration
+
+/**
+ * Current state of a query; a shared empty state when nothing is cached yet
+ */
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (entries.get(hashQueryKey(key))?.state ?? EMPTY_STATE) as QueryState<T>
+}
+
+/**
+ * Cached data of a query, if any
+ */
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return getQueryState<T>(key).data
+}
+
+/**
+ * Cached data of every query under `prefix`
+ */
+export function getQueriesData<T>(prefix: QueryKey): Array<[QueryKey, T]> {
+  const result: Array<[QueryKey, T]> = []
+  entries.forEach((entry) => {
+    if (typeof entry.state.data !== "undefined" && matchesPrefix(entry.key, prefix)) {
+      result.push([entry.key, entry.state.data as T])
+    }
+  })
+  return result
+}
+
+/**
+ * Subscribe to changes of one query; returns the unsubscribe function
+ */
+export function subscribeQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = ensureEntry(key)
+  entry.listeners.add(listener)
+  return () => {
+    entry.listeners.delete(listener)
+  }
+}
+
+/**
+ * Listen for state changes of every query, e.g. to persist them; returns the unsubscribe function
+ */
+export function subscribeQueryCache(listener: (key: QueryKey, state: QueryState<unknown>) => void): () => void {
+  cacheListeners.add(listener)
+  return () => {
+    cacheListeners.delete(listener)
+  }
+}
+
+/**
+ * Fetch a query unless fresh data is cached. Concurrent calls share one request.
+ * Cached data stays visible while a stale query revalidates.
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = 0, force = false }: { staleTime?: number; force?: boolean } = {}
+): Promise<T> {
+  const entry = ensureEntry(key)
+  entry.fetcher = fetcher
+
+  const { data, updatedAt } = entry.state
+  if (!force && typeof data !== "undefined" && updatedAt > 0 && Date.now() - updatedAt < staleTime) {
+    return Promise.resolve(data as T)
+  }
+  if (entry.promise) {
+    return entry.promise as Promise<T>
+  }
+
+  const generation = cacheGeneration
+  setState(entry, { isFetching: true })
+  const request = fetcher()
+    .then((result) => {
+      if (generation === cacheGeneration) {
+        setState(entry, { data: result, error: null, updatedAt: Date.now(), isFetching: false })
+      }
+      return result
+    })
+    .catch((err: unknown) => {
+      if (generation === cacheGeneration) {
+        setState(entry, { error: err instanceof Error ? err : new Error(String(err)), isFetching: false })
+      }
+      throw err
+    })
+    .finally(() => {
+      if (entry.promise === request) entry.promise = undefined
+    })
+  entry.promise = request
+  return request
+}
+
+/**
+ * Write query data directly, e.g. with a mutation's response
+ */
+export function setQueryData<T>(key: QueryKey, updater: T | ((previous: T | undefined) => T | undefined)) {
+  const entry = ensureEntry(key)
+  const next =
+    typeof updater === "function"
+      ? (updater as (previous: T | undefined) => T | undefined)(entry.state.data as T | undefined)
+      : updater
+  setState(entry, { data: next, updatedAt: Date.now() })
+}
+
+/**
+ * Seed a query with data restored from elsewhere, e.g. the offline mirror. The data is marked
+ * stale so it revalidates, and never replaces data that was already fetched.
+ */
+export function hydrateQueryData<T>(key: QueryKey, data: T) {
+  const entry = ensureEntry(key)
+  if (typeof entry.state.data !== "undefined") return
+  setState(entry, { data, updatedAt: 0 })
+}
+
+/**
+ * Apply `updater` to the data of every cached query under `prefix`
+ */
+export function updateQueries<T>(prefix: QueryKey, updater: (data: T, key: QueryKey) => T) {
+  entries.forEach((entry) => {
+    if (typeof entry.state.data === "undefined" || !matchesPrefix(entry.key, prefix)) return
+    setState(entry, { data: updater(entry.state.data as T, entry.key) })
+  })
+}
+
+/**
+ * Capture the state of every query under the given prefixes so it can be restored later
+ */
+export function snapshotQueries(prefixes: QueryKey[]): QuerySnapshot {
+  const snapshot: QuerySnapshot = []
+  entries.forEach((entry, hash) => {
+    if (prefixes.some((prefix) => matchesPrefix(entry.key, prefix))) {
+      snapshot.push([hash, entry.state])
+    }
+  })
+  return snapshot
+}
+
+export function restoreQueries(snapshot: QuerySnapshot) {
+  snapshot.forEach(([hash, state]) => {
+    const entry = entries.get(hash)
+    if (entry) replaceState(entry, state ?? EMPTY_STATE)
+  })
+}
+
+/**
+ * Mark every query under `prefix` stale and refetch the ones currently on screen. All are marked
+ * before any refetch starts, so a fetcher that reads another of them through fetchQuery gets fresh data.
+ */
+export function invalidateQueries(prefix: QueryKey): Promise<void> {
+  const invalidated: Entry[] = []
+  entries.forEach((entry) => {
+    if (!matchesPrefix(entry.key, prefix)) return
+    setState(entry, { updatedAt: 0 })
+    invalidated.push(entry)
+  })
+  const refetches = invalidated
+    .filter((entry) => entry.listeners.size > 0 && entry.fetcher)
+    .map((entry) => fetchQuery(entry.key, entry.fetcher!, { force: true }).catch(() => undefined))
+  return Promise.all(refetches).then(() => undefined)
+}
+
+/**
+ * Drop everything, e.g. when the user signs out. Requests still in flight are forgotten, and
+ * what they return is not cached.
+ */
+export function clearQueryCache() {
+  cacheGeneration++
+  entries.forEach((entry) => {
+    entry.promise = undefined
+    replaceState(entry, EMPTY_STATE)
+  })
+  entries.forEach((entry, hash) => {
+    if (entry.listeners.size === 0) entries.delete(hash)
+  })
+}
+
+/**
+ * Apply optimistic writes, run the request, and restore the previous data if it fails.
+ * Queries under `invalidate` are revalidated in the background afterwards either way.
+ */
+export async function runOptimisticMutation<T>({
+  affects,
+  apply,
+  mutate,
+  invalidate = affects,
+}: {
+  affects: QueryKey[]
+  apply: () => void
+  mutate: () => Promise<T>
+  invalidate?: QueryKey[]
+}): Promise<T> {
+  const snapshot = snapshotQueries(affects)
+  apply()
+  try {
+    return await mutate()
+  } catch (error) {
+    restoreQueries(snapshot)
+    throw error
+  } finally {
+    invalidate.forEach((prefix) => void invalidateQueries(prefix))
+  }
+}
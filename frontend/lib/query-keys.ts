@@ -0,0 +1,34 @@
+import type { ApiCsatReportQuery, ApiSimilarTicketsQuery, ApiTicketQuery, ApiTicketSummaryQuery } from "./api-types"
+
+/**
+ * Cache keys for server resources. Keys are prefixes of each other where one invalidation
+ * should cover several queries, e.g. `queryKeys.tickets` covers every ticket list and summary.
+ */
+export const queryKeys = {
+  tickets: ["tickets"] as const,
+  ticketLists: ["tickets", "list"] as const,
+  ticketList: (scope: "all" | "technician", query: ApiTicketQuery) => ["tickets", "list", scope, query] as const,
+  ticketSummary: (scope: "all" | "technician", query: ApiTicketSummaryQuery) =>
+    ["tickets", "summary", scope, query] as const,
+  similarTickets: (query: ApiSimilarTicketsQuery) => ["ticket-similar", query] as const,
+  ticket: (id: string) => ["ticket", id] as const,
+  ticketMessages: (id: string) => ["ticket-messages", id] as const,
+  ticketAttachments: (id: string) => ["ticket-attachments", id] as const,
+  ticketCalendar: ["ticket-calendar"] as const,
+  ticketCalendarRange: (start: string, end: string) => ["ticket-calendar", start, end] as const,
+  categories: ["categories"] as const,
+  technicians: ["technicians"] as const,
+  settings: ["settings"] as const,
+  systemSettings: ["settings", "system"] as const,
+  publicSettings: ["settings", "public"] as const,
+  slaSettings: ["settings", "sla"] as const,
+  ticketWorkflow: ["settings", "workflow"] as const,
+  csatReports: ["csat-report"] as const,
+  csatReport: (query: ApiCsatReportQuery) => ["csat-report", query] as const,
+  twoFactorStatus: ["two-factor-status"] as const,
+  signInActivity: ["sign-in-activity"] as const,
+  myPermissions: ["my-permissions"] as const,
+  roles: ["roles"] as const,
+  permissionCatalog: ["permission-catalog"] as const,
+  users: ["users"] as const,
+}
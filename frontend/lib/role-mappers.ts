@@ -0,0 +1,46 @@
+import type { ApiUserRole } from "./api-types"
+import type { UserRole } from "@/types"
+
+/**
+ * Map backend role → frontend role
+ * Supports both numeric enums (0,1,2) and string enums ("Admin", "Technician", "Client").
+ */
+export const roleFromApi = (role: ApiUserRole): UserRole => {
+  // If backend sends numbers (0,1,2)
+  if (typeof role === "number") {
+    switch (role) {
+      case 2:
+        return "admin"
+      case 1:
+        return "engineer"
+      default:
+        return "client"
+    }
+  }
+
+  // If backend sends strings ("Admin", "Technician", "Client")
+  switch (role.toString().toLowerCase()) {
+    case "admin":
+      return "admin"
+    case "technician":
+      return "engineer"
+    default:
+      return "client"
+  }
+}
+
+/**
+ * Map frontend role → backend role
+ * Here we return the **string** form so TypeScript is happy with ApiUserRole.
+ * (Backend can still interpret this if configured for string enums, or ignore it.)
+ */
+export const roleToApi = (role: string): ApiUserRole => {
+  switch (role) {
+    case "admin":
+      return "Admin"
+    case "engineer":
+      return "Technician"
+    default:
+      return "Client"
+  }
+}
@@ -0,0 +1,100 @@
+import { apiRequest } from "./api-client"
+import type { ApiMyPermissionsResponse, ApiPermissionCatalogResponse, ApiRoleDto, ApiRoleRequest } from "./api-types"
+
+/**
+ * Effective permissions of the signed-in user
+ */
+export async function getMyPermissions(token: string | null): Promise<ApiMyPermissionsResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiMyPermissionsResponse>("/api/auth/me/permissions", {
+    method: "GET",
+    token,
+    silent: true,
+  })
+}
+
+/**
+ * Every permission, each base role's defaults and what a custom role on it may hold (requires roles.manage)
+ */
+export async function getPermissionCatalog(token: string | null): Promise<ApiPermissionCatalogResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiPermissionCatalogResponse>("/api/roles/permissions", {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Built-in and custom roles with their members (requires roles.manage)
+ */
+export async function getRoles(token: string | null): Promise<ApiRoleDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiRoleDto[]>("/api/roles", {
+    method: "GET",
+    token,
+  })
+}
+
+export async function createRole(token: string | null, request: ApiRoleRequest): Promise<ApiRoleDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiRoleDto>("/api/roles", {
+    method: "POST",
+    token,
+    body: request,
+  })
+}
+
+export async function updateRole(token: string | null, id: string, request: ApiRoleRequest): Promise<ApiRoleDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiRoleDto>(`/api/roles/${id}`, {
+    method: "PUT",
+    token,
+    body: request,
+  })
+}
+
+/**
+ * Delete a custom role; its members fall back to their base role
+ */
+export async function deleteRole(token: string | null, id: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest<void>(`/api/roles/${id}`, {
+    method: "DELETE",
+    token,
+  })
+}
+
+/**
+ * Give a user a custom role. A user holds at most one; assigning replaces the previous one.
+ */
+export async function addRoleMember(token: string | null, roleId: string, userId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest<void>(`/api/roles/${roleId}/members/${userId}`, {
+    method: "PUT",
+    token,
+  })
+}
+
+export async function removeRoleMember(token: string | null, roleId: string, userId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest<void>(`/api/roles/${roleId}/members/${userId}`, {
+    method: "DELETE",
+    token,
+  })
+}
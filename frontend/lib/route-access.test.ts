@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+
+import { LOGIN_PATH, loginPath, sanitizeReturnTo } from "./route-access"
+
+describe("sanitizeReturnTo", () => {
+  it("keeps same-origin paths with their query and hash", () => {
+    expect(sanitizeReturnTo("/tickets/T-1")).toBe("/tickets/T-1")
+    expect(sanitizeReturnTo("/tickets?status=open#list")).toBe("/tickets?status=open#list")
+  })
+
+  it("falls back to the home page without a value", () => {
+    expect(sanitizeReturnTo(null)).toBe("/")
+    expect(sanitizeReturnTo(undefined)).toBe("/")
+    expect(sanitizeReturnTo("")).toBe("/")
+  })
+
+  it.each([
+    "//evil.com",
+    "/\\evil.com",
+    "\\\\evil.com",
+    "/\t/evil.com",
+    "/\n/evil.com",
+    "/\r/evil.com",
+    "\t//evil.com",
+    "https://evil.com/tickets",
+    "javascript:alert(1)",
+  ])("rejects %j, which leaves the origin", (value) => {
+    expect(sanitizeReturnTo(value)).toBe("/")
+  })
+
+  it("reduces a same-origin absolute URL to its path", () => {
+    expect(sanitizeReturnTo("http://localhost/tickets")).toBe("/tickets")
+  })
+})
+
+describe("loginPath", () => {
+  it("remembers where to return after signing in", () => {
+    expect(loginPath("/tickets/T-1")).toBe(`${LOGIN_PATH}?returnTo=${encodeURIComponent("/tickets/T-1")}`)
+  })
+
+  it("leaves out a return path that is the home page or unsafe", () => {
+    expect(loginPath("/")).toBe(LOGIN_PATH)
+    expect(loginPath("/\t/evil.com")).toBe(LOGIN_PATH)
+  })
+})
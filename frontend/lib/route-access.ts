@@ -0,0 +1,112 @@
+/*
+ * Which pages need a session and which roles may open them, checked by middleware.ts before a
+ * page renders. This only decides navigation; the backend still authorizes every API call.
+ */
+
+import { decodeJwt } from "./auth-session"
+import { SESSION_COOKIE, sessionMode } from "./cookie-session"
+
+export type RouteRole = "client" | "engineer" | "admin"
+
+/**
+ * Token mode keeps the JWT in localStorage, out of the server's sight; AuthProvider mirrors the
+ * signed-in user's role in this cookie so the middleware can tell. It carries no credentials.
+ */
+export const ROLE_HINT_COOKIE = "tiq_role"
+export const ROLE_HINT_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+export const LOGIN_PATH = "/login"
+
+/** Where invitation and password reset emails link to */
+export const SET_PASSWORD_PATH = "/set-password"
+
+/** Open without a session; everything else redirects to the login page */
+const PUBLIC_PATHS = [LOGIN_PATH, SET_PASSWORD_PATH]
+
+/** Pages limited to some roles, by path prefix; the first match wins */
+const ROLE_RESTRICTED_PATHS: { prefix: string; roles: RouteRole[] }[] = [
+  { prefix: "/examples", roles: ["admin"] },
+]
+
+// The role claim as the backend's JWT handler writes it, long or short
+const ROLE_CLAIMS = ["http://schemas.microsoft.com/ws/2008/06/identity/claims/role", "role"]
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`)
+
+export const isPublicPath = (pathname: string) => PUBLIC_PATHS.some((path) => matchesPrefix(pathname, path))
+
+/** Null when every signed-in user may open the page */
+export const rolesAllowedAt = (pathname: string): RouteRole[] | null =>
+  ROLE_RESTRICTED_PATHS.find((rule) => matchesPrefix(pathname, rule.prefix))?.roles ?? null
+
+// Stands in for the page's origin where there is none (middleware); only the comparison matters
+const FALLBACK_ORIGIN = "http://localhost"
+
+/**
+ * A same-origin path to send the user back to after signing in; anything else becomes "/".
+ * Resolved the way the browser would, so tabs, newlines and backslashes can't turn it into
+ * a protocol-relative URL on another host.
+ */
+export const sanitizeReturnTo = (value: string | null | undefined) => {
+  if (!value) return "/"
+  const origin = typeof window === "undefined" ? FALLBACK_ORIGIN : window.location.origin
+  let url: URL
+  try {
+    url = new URL(value, origin)
+  } catch {
+    return "/"
+  }
+  return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : "/"
+}
+
+/**
+ * The login page, remembering where to go afterwards
+ */
+export const loginPath = (returnTo?: string) => {
+  const target = sanitizeReturnTo(returnTo)
+  return target === "/" ? LOGIN_PATH : `${LOGIN_PATH}?returnTo=${encodeURIComponent(target)}`
+}
+
+const roleFromClaim = (value: unknown): RouteRole => {
+  switch (String(Array.isArray(value) ? value[0] : value).toLowerCase()) {
+    case "admin":
+    case "2":
+      return "admin"
+    case "technician":
+    case "1":
+      return "engineer"
+    default:
+      return "client"
+  }
+}
+
+const isRouteRole = (value: string | undefined): value is RouteRole =>
+  value === "client" || value === "engineer" || value === "admin"
+
+/**
+ * The role of the request's session, or null when it has none. A cookie session counts even
+ * with an expired access token: the proxy refreshes it on the page's first call.
+ */
+export function sessionRoleOf(cookies: { get(name: string): { value: string } | undefined }): RouteRole | null {
+  if (sessionMode === "cookie") {
+    const token = cookies.get(SESSION_COOKIE)?.value
+    if (!token) return null
+    const claims = decodeJwt(token)
+    const claim = ROLE_CLAIMS.map((name) => claims?.[name]).find((value) => value !== undefined)
+    return roleFromClaim(claim)
+  }
+  const hint = cookies.get(ROLE_HINT_COOKIE)?.value
+  return isRouteRole(hint) ? hint : null
+}
+
+/**
+ * Mirror the signed-in user's role for the middleware (token mode); null clears it
+ */
+export function writeRoleHint(role: RouteRole | null) {
+  if (typeof document === "undefined" || sessionMode === "cookie") return
+  const secure = window.location.protocol === "https:" ? "; Secure" : ""
+  document.cookie = role
+    ? `${ROLE_HINT_COOKIE}=${role}; Path=/; Max-Age=${ROLE_HINT_MAX_AGE_SECONDS}; SameSite=Lax${secure}`
+    : `${ROLE_HINT_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax${secure}`
+}
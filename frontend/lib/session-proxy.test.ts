@@ -0,0 +1,180 @@
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { REFRESH_COOKIE, SESSION_COOKIE, isSessionHandle } from "./cookie-session"
+import { hasValidCsrfToken, proxyToBackend } from "./session-proxy"
+
+const CSRF = "csrf-token"
+
+const backend = vi.fn<(url: string, init: RequestInit) => Promise<Response>>()
+
+// Answers of a backend that holds the session back until an account with require2FA has enrolled
+const answer = (url: string, init: RequestInit) => {
+  const path = new URL(url).pathname
+  switch (path) {
+    case "/api/auth/login":
+      return Response.json({ twoFactorRequired: true, enrollmentRequired: true, challengeToken: "challenge-token" })
+    case "/api/auth/2fa/enable":
+      return new Headers(init.headers).get("authorization") === "Bearer challenge-token"
+        ? Response.json({ recoveryCodes: ["r-1"], token: "access-token", refreshToken: "refresh-token" })
+        : Response.json({ title: "Unauthorized" }, { status: 401 })
+    default:
+      return Response.json({ title: "Not Found" }, { status: 404 })
+  }
+}
+
+const post = (path: string, authorization?: string) =>
+  new NextRequest(`http://localhost:3000${path}`, {
+    method: "POST",
+    body: "{}",
+    headers: {
+      "Content-Type": "application/json",
+      "X-CSRF-Token": CSRF,
+      cookie: `tiq_csrf=${CSRF}`,
+      ...(authorization ? { Authorization: authorization } : {}),
+    },
+  })
+
+const withCsrf = (method: string, { cookie, header }: { cookie?: string; header?: string }) =>
+  new NextRequest("http://localhost:3000/api/tickets", {
+    method,
+    headers: {
+      ...(cookie ? { cookie: `tiq_csrf=${cookie}` } : {}),
+      ...(header ? { "X-CSRF-Token": header } : {}),
+    },
+  })
+
+beforeEach(() => {
+  backend.mockReset()
+  vi.stubGlobal("fetch", backend)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("two-factor enrollment", () => {
+  it("sets the session cookies of a sign-in without asking the backend anything else", async () => {
+    backend.mockResolvedValue(Response.json({ token: "access-token", refreshToken: "refresh-token" }))
+
+    const response = await proxyToBackend(post("/api/auth/login"))
+
+    expect(backend).toHaveBeenCalledTimes(1)
+    expect(response.cookies.get(SESSION_COOKIE)?.value).toBe("access-token")
+    expect(response.cookies.get(REFRESH_COOKIE)?.value).toBe("refresh-token")
+    expect(isSessionHandle((await response.json()).token)).toBe(true)
+  })
+
+  it("passes the backend's enrollment challenge through without a session", async () => {
+    backend.mockImplementation(async (url, init) => answer(url, init))
+
+    const response = await proxyToBackend(post("/api/auth/login"))
+
+    expect(await response.json()).toMatchObject({ enrollmentRequired: true, challengeToken: "challenge-token" })
+    expect(response.cookies.get(SESSION_COOKIE)).toBeUndefined()
+    expect(response.cookies.get(REFRESH_COOKIE)).toBeUndefined()
+  })
+
+  it("starts the session the backend issues once the account has enrolled", async () => {
+    backend.mockImplementation(async (url, init) => answer(url, init))
+
+    const response = await proxyToBackend(post("/api/auth/2fa/enable", "Bearer challenge-token"))
+
+    expect(response.status).toBe(200)
+    expect(isSessionHandle((await response.json()).token)).toBe(true)
+    expect(response.cookies.get(SESSION_COOKIE)?.value).toBe("access-token")
+    expect(response.cookies.get(REFRESH_COOKIE)?.value).toBe("refresh-token")
+  })
+})
+
+describe("proxyToBackend", () => {
+  const forwardedHeaders = () => new Headers(backend.mock.calls[0][1].headers)
+
+  // The proxy reads TRUSTED_PROXY_COUNT when it loads
+  const proxyBehind = async (trustedProxies: number) => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", String(trustedProxies))
+    vi.resetModules()
+    return (await import("./session-proxy")).proxyToBackend
+  }
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("sends the connection's address and ignores X-Forwarded-For without trusted proxies", async () => {
+    backend.mockResolvedValue(Response.json([]))
+    const request = new NextRequest("https://tickets.example.com/api/tickets", {
+      headers: {
+        "X-Forwarded-For": "203.0.113.9",
+        "X-Real-IP": "203.0.113.9",
+        "X-Tiq-Socket-Address": "198.51.100.20",
+        Forwarded: "for=203.0.113.9",
+        "X-Forwarded-Host": "evil.example.com",
+      },
+    })
+
+    await proxyToBackend(request)
+
+    const headers = forwardedHeaders()
+    expect(headers.get("x-forwarded-for")).toBe("198.51.100.20")
+    expect(headers.get("x-forwarded-host")).toBe("tickets.example.com")
+    expect(headers.get("x-forwarded-proto")).toBe("https")
+    expect(headers.has("x-real-ip")).toBe(false)
+    expect(headers.has("forwarded")).toBe(false)
+    expect(headers.has("x-tiq-socket-address")).toBe(false)
+  })
+
+  it("sends no address rather than the browser's when the connection's is unknown", async () => {
+    backend.mockResolvedValue(Response.json([]))
+
+    await proxyToBackend(
+      new NextRequest("http://localhost:3000/api/tickets", { headers: { "X-Forwarded-For": "203.0.113.9" } }),
+    )
+
+    expect(forwardedHeaders().has("x-forwarded-for")).toBe(false)
+  })
+
+  it.each([
+    [1, "198.51.100.7"],
+    [2, "203.0.113.9"],
+  ])("sends the address the nearest of %i trusted proxies saw", async (trustedProxies, address) => {
+    backend.mockResolvedValue(Response.json([]))
+    const proxy = await proxyBehind(trustedProxies)
+
+    await proxy(
+      new NextRequest("http://localhost:3000/api/tickets", {
+        headers: { "X-Forwarded-For": "192.0.2.1, 203.0.113.9, 198.51.100.7", "X-Tiq-Socket-Address": "10.0.0.2" },
+      }),
+    )
+
+    expect(forwardedHeaders().get("x-forwarded-for")).toBe(address)
+  })
+})
+
+describe("hasValidCsrfToken", () => {
+  it.each(["GET", "HEAD", "OPTIONS"])("lets %s through without a token", (method) => {
+    expect(hasValidCsrfToken(withCsrf(method, {}))).toBe(true)
+  })
+
+  it("accepts a write whose header repeats the cookie", () => {
+    expect(hasValidCsrfToken(withCsrf("POST", { cookie: CSRF, header: CSRF }))).toBe(true)
+  })
+
+  it.each([
+    ["no token at all", {}],
+    ["only the cookie", { cookie: CSRF }],
+    ["only the header", { header: CSRF }],
+    ["a header that differs from the cookie", { cookie: CSRF, header: "csrf-tokem" }],
+    ["a header of another length", { cookie: CSRF, header: `${CSRF}-2` }],
+    ["a non-ASCII header of the cookie's length", { cookie: CSRF, header: "csrf-tokeé" }],
+  ])("rejects a write with %s", (_case, tokens) => {
+    expect(hasValidCsrfToken(withCsrf("DELETE", tokens))).toBe(false)
+  })
+
+  it("keeps a rejected write away from the backend", async () => {
+    const response = await proxyToBackend(withCsrf("POST", { cookie: CSRF, header: "forged" }))
+
+    expect(response.status).toBe(403)
+    expect(backend).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,374 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto"
+import { NextResponse, type NextRequest } from "next/server"
+import type { ApiHubTokenResponse, ApiLogoutRequest, ApiRefreshTokenResponse } from "./api-types"
+import { getTokenExpiry } from "./auth-session"
+import {
+  CSRF_COOKIE,
+  CSRF_HEADER,
+  CSRF_SAFE_METHODS,
+  IMPERSONATOR_COOKIE,
+  REFRESH_COOKIE,
+  SESSION_COOKIE,
+  SESSION_HANDLE_PREFIX,
+  sessionMode,
+  type SessionInfo,
+} from "./cookie-session"
+
+/*
+ * Server side of the cookie session mode (see lib/cookie-session.ts), used by the route handlers
+ * under app/api. Sign-in answers from the backend are rewritten: their tokens go into httpOnly
+ * cookies and the browser gets an opaque handle instead.
+ */
+
+const BACKEND_URL = (
+  process.env.API_PROXY_TARGET ||
+  process.env.NEXT_PUBLIC_API_BASE_URL ||
+  "http://localhost:5000"
+).replace(/\/+$/, "")
+
+/**
+ * Reverse proxies in front of this server that append the address they saw to X-Forwarded-For.
+ * With none configured, X-Forwarded-For came from the browser and is never trusted.
+ */
+const TRUSTED_PROXY_COUNT = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_COUNT) || 0))
+
+/** The connection's address, set on every request by server.mjs */
+const SOCKET_ADDRESS_HEADER = "x-tiq-socket-address"
+
+/** Refresh the access token when it has less than this left */
+const REFRESH_AHEAD_SECONDS = 30
+const REFRESH_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+
+// Headers that describe the hop, not the message, or that the proxy sets itself
+const HOP_REQUEST_HEADERS = ["host", "connection", "content-length", "cookie", CSRF_HEADER.toLowerCase()]
+// Whatever the browser claims about where it connects from; set again from the request
+const FORWARDING_REQUEST_HEADERS = [
+  "forwarded",
+  "x-forwarded-for",
+  "x-forwarded-host",
+  "x-forwarded-port",
+  "x-forwarded-proto",
+  "x-real-ip",
+  SOCKET_ADDRESS_HEADER,
+]
+const HOP_RESPONSE_HEADERS = ["connection", "content-encoding", "content-length", "transfer-encoding", "set-cookie"]
+
+const secure = process.env.NODE_ENV === "production"
+
+const problem = (status: number, title: string, detail: string) =>
+  NextResponse.json({ type: "about:blank", title, status, detail }, { status })
+
+export const notFound = () => problem(404, "Not Found", "Cookie sessions are not enabled")
+
+export const isCookieModeEnabled = () => sessionMode === "cookie"
+
+/** Opaque, stable per access token, useless to anyone who reads it */
+const handleFor = (token: string) =>
+  `${SESSION_HANDLE_PREFIX}${createHash("sha256").update(token).digest("base64url").slice(0, 22)}`
+
+const secondsLeft = (token: string) => {
+  const expiry = getTokenExpiry(token)
+  return expiry === null ? null : Math.floor((expiry - Date.now()) / 1000)
+}
+
+function setSessionCookie(response: NextResponse, name: string, token: string) {
+  // Outlives the token on purpose: it tells middleware.ts a session exists, and the proxy
+  // refreshes the token when it's next used
+  response.cookies.set(name, token, {
+    httpOnly: true,
+    secure,
+    sameSite: "lax",
+    path: "/",
+    maxAge: REFRESH_COOKIE_MAX_AGE_SECONDS,
+  })
+}
+
+function setRefreshCookie(response: NextResponse, refreshToken: string) {
+  // Only the proxy reads it
+  response.cookies.set(REFRESH_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: "strict",
+    path: "/api",
+    maxAge: REFRESH_COOKIE_MAX_AGE_SECONDS,
+  })
+}
+
+function clearSessionCookies(response: NextResponse) {
+  response.cookies.delete(SESSION_COOKIE)
+  response.cookies.delete(IMPERSONATOR_COOKIE)
+  response.cookies.set(REFRESH_COOKIE, "", { path: "/api", maxAge: 0 })
+}
+
+/**
+ * The CSRF token of this browser, or a new one when it has none yet
+ */
+const csrfTokenOf = (request: NextRequest) =>
+  request.cookies.get(CSRF_COOKIE)?.value ?? randomBytes(32).toString("base64url")
+
+/**
+ * Issue the CSRF cookie on the response unless the browser already sent it
+ */
+function ensureCsrfCookie(request: NextRequest, response: NextResponse, token = csrfTokenOf(request)) {
+  if (request.cookies.has(CSRF_COOKIE)) return
+  // Readable by the page, so it can be echoed in the header; other origins can neither read nor send it
+  response.cookies.set(CSRF_COOKIE, token, { httpOnly: false, secure, sameSite: "strict", path: "/" })
+}
+
+/**
+ * Double submit: a write must carry the CSRF cookie's value in the header
+ */
+export function hasValidCsrfToken(request: NextRequest): boolean {
+  if (CSRF_SAFE_METHODS.has(request.method)) return true
+  const cookie = request.cookies.get(CSRF_COOKIE)?.value
+  const header = request.headers.get(CSRF_HEADER)
+  if (!cookie || !header) return false
+  // Compare byte lengths: a non-ASCII header can match the cookie's string length and still differ in bytes
+  const expected = Buffer.from(cookie)
+  const actual = Buffer.from(header)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export const csrfRejected = () => problem(403, "Forbidden", "Missing or invalid CSRF token")
+
+async function refreshAccessToken(refreshToken: string): Promise<ApiRefreshTokenResponse | null> {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+      cache: "no-store",
+    })
+    return response.ok ? ((await response.json()) as ApiRefreshTokenResponse) : null
+  } catch {
+    return null
+  }
+}
+
+interface SessionTokens {
+  accessToken: string | null
+  /** Tokens the backend issued while handling this request, to be stored on the response */
+  refreshed: ApiRefreshTokenResponse | null
+}
+
+/**
+ * The request's access token, refreshed first when it is about to expire. An impersonation
+ * session is never refreshed: the refresh token belongs to the admin.
+ */
+async function resolveSession(request: NextRequest, force = false): Promise<SessionTokens> {
+  const accessToken = request.cookies.get(SESSION_COOKIE)?.value ?? null
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value
+  const impersonating = request.cookies.has(IMPERSONATOR_COOKIE)
+  const left = accessToken ? secondsLeft(accessToken) : null
+  const expiring = !accessToken || (left !== null && left < REFRESH_AHEAD_SECONDS)
+  // An expired token counts as no session
+  const usable = left !== null && left <= 0 ? null : accessToken
+  if (!refreshToken || impersonating || (!force && !expiring)) {
+    return { accessToken: usable, refreshed: null }
+  }
+  const refreshed = await refreshAccessToken(refreshToken)
+  return { accessToken: refreshed?.token ?? usable, refreshed }
+}
+
+/**
+ * GET /api/session: whether a session cookie is set, and the CSRF token
+ */
+export async function describeSession(request: NextRequest): Promise<NextResponse> {
+  const { accessToken, refreshed } = await resolveSession(request)
+  const body: SessionInfo = {
+    handle: accessToken ? handleFor(accessToken) : null,
+    csrfToken: csrfTokenOf(request),
+  }
+  const response = NextResponse.json(body, { headers: { "Cache-Control": "no-store" } })
+  ensureCsrfCookie(request, response, body.csrfToken)
+  storeRefreshed(response, refreshed)
+  return response
+}
+
+/**
+ * DELETE /api/session: revoke the refresh token on the backend, then clear the cookies. The cookies
+ * go even when the backend can't be reached; the refresh token then runs out on its own.
+ */
+export async function endSession(request: NextRequest): Promise<NextResponse> {
+  const accessToken = request.cookies.get(SESSION_COOKIE)?.value
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value
+  if (refreshToken) {
+    const body: ApiLogoutRequest = { refreshToken }
+    await fetch(`${BACKEND_URL}/api/auth/logout`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify(body),
+      cache: "no-store",
+    }).catch((error: unknown) => console.warn("[session] failed to revoke the refresh token", error))
+  }
+  const response = new NextResponse(null, { status: 204 })
+  clearSessionCookies(response)
+  return response
+}
+
+/**
+ * GET /api/session/hub-token: a hub-scoped token for the SignalR connection, which the browser
+ * opens directly. The session's own access token never leaves the server.
+ */
+export async function issueHubToken(request: NextRequest): Promise<NextResponse> {
+  const { accessToken, refreshed } = await resolveSession(request)
+  if (!accessToken) {
+    return problem(401, "Unauthorized", "No session")
+  }
+  let backendResponse: Response
+  try {
+    backendResponse = await fetch(`${BACKEND_URL}/api/auth/hub-token`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${accessToken}` },
+      cache: "no-store",
+    })
+  } catch {
+    return problem(502, "Bad Gateway", "The backend could not be reached")
+  }
+  if (!backendResponse.ok) {
+    return problem(backendResponse.status, "Hub token refused", "The backend did not issue a hub token")
+  }
+  const { accessToken: hubToken, expiresAt } = (await backendResponse.json()) as ApiHubTokenResponse
+  const body: ApiHubTokenResponse = { accessToken: hubToken, expiresAt }
+  const response = NextResponse.json(body, { headers: { "Cache-Control": "no-store" } })
+  storeRefreshed(response, refreshed)
+  return response
+}
+
+function storeRefreshed(response: NextResponse, refreshed: ApiRefreshTokenResponse | null) {
+  if (!refreshed) return
+  setSessionCookie(response, SESSION_COOKIE, refreshed.token)
+  if (refreshed.refreshToken) setRefreshCookie(response, refreshed.refreshToken)
+}
+
+/**
+ * The browser's address: the connection's own, or behind trusted proxies the entry the nearest one
+ * appended to X-Forwarded-For. Entries further left came with the request and may be made up.
+ */
+const clientAddressOf = (request: NextRequest) => {
+  if (TRUSTED_PROXY_COUNT === 0) return request.headers.get(SOCKET_ADDRESS_HEADER) || null
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+  return hops.at(-Math.min(TRUSTED_PROXY_COUNT, hops.length)) ?? null
+}
+
+const forwardHeaders = (request: NextRequest, accessToken: string | null) => {
+  const headers = new Headers(request.headers)
+  HOP_REQUEST_HEADERS.forEach((name) => headers.delete(name))
+  FORWARDING_REQUEST_HEADERS.forEach((name) => headers.delete(name))
+  // A token the page passes explicitly (e.g. a two-factor challenge) wins over the session
+  if (!headers.has("authorization") && accessToken) {
+    headers.set("Authorization", `Bearer ${accessToken}`)
+  }
+  // The backend throttles and locks out sign-ins by this address
+  const clientAddress = clientAddressOf(request)
+  if (clientAddress) headers.set("X-Forwarded-For", clientAddress)
+  headers.set("X-Forwarded-Host", request.nextUrl.host)
+  headers.set("X-Forwarded-Proto", request.nextUrl.protocol.replace(/:$/, ""))
+  return headers
+}
+
+const copyResponseHeaders = (source: Response) => {
+  const headers = new Headers(source.headers)
+  HOP_RESPONSE_HEADERS.forEach((name) => headers.delete(name))
+  return headers
+}
+
+type AuthBody = { token?: unknown; refreshToken?: unknown; [key: string]: unknown }
+
+/**
+ * A sign-in answer as the page sees it: a handle in place of the token, no refresh token
+ */
+function withoutTokens(body: AuthBody): AuthBody {
+  if (typeof body.token !== "string") return body
+  const visible: AuthBody = { ...body, token: handleFor(body.token) }
+  delete visible.refreshToken
+  return visible
+}
+
+/**
+ * Keep the tokens of a sign-in answer in cookies
+ */
+function storeSessionTokens(path: string, request: NextRequest, body: AuthBody, response: NextResponse) {
+  const { token, refreshToken } = body
+  if (typeof token !== "string") return
+
+  if (path === "/api/auth/impersonate") {
+    // Kept to switch back to when the impersonation ends
+    const adminToken = request.cookies.get(SESSION_COOKIE)?.value
+    if (adminToken) setSessionCookie(response, IMPERSONATOR_COOKIE, adminToken)
+  } else {
+    response.cookies.delete(IMPERSONATOR_COOKIE)
+    if (typeof refreshToken === "string") {
+      setRefreshCookie(response, refreshToken)
+    } else if (path !== "/api/auth/refresh") {
+      response.cookies.set(REFRESH_COOKIE, "", { path: "/api", maxAge: 0 })
+    }
+  }
+  setSessionCookie(response, SESSION_COOKIE, token)
+}
+
+const sendToBackend = (request: NextRequest, path: string, accessToken: string | null, body: ArrayBuffer | undefined) =>
+  fetch(`${BACKEND_URL}${path}${request.nextUrl.search}`, {
+    method: request.method,
+    headers: forwardHeaders(request, accessToken),
+    body,
+    redirect: "manual",
+    cache: "no-store",
+  })
+
+/**
+ * Forward a request under /api to the backend with the session's token
+ */
+export async function proxyToBackend(request: NextRequest): Promise<NextResponse> {
+  if (!hasValidCsrfToken(request)) return csrfRejected()
+
+  const path = request.nextUrl.pathname
+  const body = CSRF_SAFE_METHODS.has(request.method) ? undefined : await request.arrayBuffer()
+  const explicitAuthorization = request.headers.has("authorization")
+
+  let session = await resolveSession(request)
+  let backendResponse: Response
+  try {
+    backendResponse = await sendToBackend(request, path, session.accessToken, body)
+    // The token may have been revoked or expired early; one refresh and retry before giving up
+    if (backendResponse.status === 401 && !explicitAuthorization && !session.refreshed && session.accessToken) {
+      const retried = await resolveSession(request, true)
+      if (retried.refreshed) {
+        session = retried
+        backendResponse = await sendToBackend(request, path, session.accessToken, body)
+      }
+    }
+  } catch {
+    return problem(502, "Bad Gateway", "The backend could not be reached")
+  }
+
+  const headers = copyResponseHeaders(backendResponse)
+  const isAuthJson =
+    path.startsWith("/api/auth/") && backendResponse.ok && headers.get("content-type")?.includes("application/json")
+
+  let response: NextResponse
+  if (isAuthJson) {
+    const body = (await backendResponse.json()) as AuthBody
+    response = NextResponse.json(withoutTokens(body), { status: backendResponse.status, headers })
+    storeSessionTokens(path, request, body, response)
+  } else if (path === "/api/auth/impersonate/end" && request.cookies.has(IMPERSONATOR_COOKIE)) {
+    // Back to the admin even when the backend no longer accepts the impersonation token
+    response = backendResponse.ok
+      ? new NextResponse(backendResponse.body, { status: backendResponse.status, headers })
+      : new NextResponse(null, { status: 204 })
+    setSessionCookie(response, SESSION_COOKIE, request.cookies.get(IMPERSONATOR_COOKIE)!.value)
+    response.cookies.delete(IMPERSONATOR_COOKIE)
+  } else {
+    response = new NextResponse(backendResponse.body, { status: backendResponse.status, headers })
+  }
+
+  storeRefreshed(response, session.refreshed)
+  ensureCsrfCookie(request, response)
+  return response
+}
@@ -1,5 +1,20 @@
 import { apiRequest } from "./api-client"
-import type { ApiSystemSettingsResponse, ApiSystemSettingsUpdateRequest } from "./api-types"
+import type {
+  ApiPublicSettingsResponse,
+  ApiSystemSettingsResponse,
+  ApiSystemSettingsUpdateRequest,
+} from "./api-types"
+
+/**
+ * Get the settings that clients and technicians need (upload limits, session timeout, password rules).
+ * Readable without signing in.
+ */
+export async function getPublicSettings(): Promise<ApiPublicSettingsResponse> {
+  return apiRequest<ApiPublicSettingsResponse>("/api/settings/public", {
+    method: "GET",
+    token: null,
+  })
+}
 
 /**
  * Get current system settings (Admin only)
@@ -0,0 +1,48 @@
+import { apiRequest } from "./api-client"
+import type { ApiCaptchaChallenge, ApiOidcNonceResponse, ApiRevokeSessionsResponse, ApiSignInActivity } from "./api-types"
+
+/**
+ * A new CAPTCHA for the sign-in form; requested anonymously
+ */
+export async function getCaptchaChallenge(): Promise<ApiCaptchaChallenge> {
+  return apiRequest<ApiCaptchaChallenge>("/api/auth/captcha", {
+    method: "GET",
+    token: null,
+  })
+}
+
+/**
+ * A nonce for a single sign-on, issued by the backend so it can tell the ID token was meant for it
+ */
+export async function getOidcNonce(): Promise<ApiOidcNonceResponse> {
+  return apiRequest<ApiOidcNonceResponse>("/api/auth/oidc/nonce", {
+    method: "GET",
+    token: null,
+  })
+}
+
+/**
+ * Recent sign-ins to the current account, failed ones included
+ */
+export async function getSignInActivity(token: string | null): Promise<ApiSignInActivity[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiSignInActivity[]>("/api/auth/sessions", {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Revoke the refresh tokens of every other session; this browser stays signed in
+ */
+export async function signOutOtherSessions(token: string | null): Promise<ApiRevokeSessionsResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiRevokeSessionsResponse>("/api/auth/sessions/revoke-others", {
+    method: "POST",
+    token,
+  })
+}
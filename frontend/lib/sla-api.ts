@@ -0,0 +1,29 @@
+import { apiRequest } from "./api-client"
+import type { ApiSlaSettings } from "./api-types"
+
+/**
+ * SLA policies and the business calendar; every signed-in user reads them for the countdowns
+ */
+export async function getSlaSettings(token: string | null): Promise<ApiSlaSettings> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiSlaSettings>("/api/sla/settings", {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Replace the SLA policies and business calendar (requires sla.manage)
+ */
+export async function updateSlaSettings(token: string | null, settings: ApiSlaSettings): Promise<ApiSlaSettings> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiSlaSettings>("/api/sla/settings", {
+    method: "PUT",
+    token,
+    body: settings,
+  })
+}
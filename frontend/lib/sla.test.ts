@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest"
+
+import type { ApiBusinessCalendar, ApiSlaSettings } from "./api-types"
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  DEFAULT_SLA_TIMEZONE,
+  addBusinessMinutes,
+  businessMinutesBetween,
+  evaluateTicketSla,
+  type SlaTicket,
+} from "./sla"
+
+const DAY = { start: "09:00", end: "17:00" }
+
+/** Monday to Friday, 09:00–17:00 UTC */
+const OFFICE: ApiBusinessCalendar = {
+  hours: [null, DAY, DAY, DAY, DAY, DAY, null],
+  holidays: [],
+  recurringHolidays: [],
+}
+
+const at = (iso: string) => new Date(iso).getTime()
+
+// 2026-01-05 is a Monday
+describe("businessMinutesBetween", () => {
+  it("counts the minutes inside one working day", () => {
+    expect(businessMinutesBetween(at("2026-01-05T10:00Z"), at("2026-01-05T12:00Z"), OFFICE, "UTC")).toBe(120)
+  })
+
+  it("skips the night", () => {
+    expect(businessMinutesBetween(at("2026-01-05T16:00Z"), at("2026-01-06T10:00Z"), OFFICE, "UTC")).toBe(120)
+  })
+
+  it("skips the weekend", () => {
+    expect(businessMinutesBetween(at("2026-01-09T16:00Z"), at("2026-01-12T10:00Z"), OFFICE, "UTC")).toBe(120)
+  })
+
+  it("skips one-off holidays", () => {
+    const calendar = { ...OFFICE, holidays: ["2026-01-06"] }
+    expect(businessMinutesBetween(at("2026-01-05T16:00Z"), at("2026-01-07T10:00Z"), calendar, "UTC")).toBe(120)
+  })
+
+  it("is zero outside working hours and for a reversed range", () => {
+    expect(businessMinutesBetween(at("2026-01-05T18:00Z"), at("2026-01-06T08:00Z"), OFFICE, "UTC")).toBe(0)
+    expect(businessMinutesBetween(at("2026-01-05T12:00Z"), at("2026-01-05T10:00Z"), OFFICE, "UTC")).toBe(0)
+  })
+
+  it("reads the working hours in the given timezone", () => {
+    // Saturday 07:00 to 09:00 in Tehran (UTC+03:30), which opens at 08:00
+    expect(
+      businessMinutesBetween(
+        at("2026-01-10T03:30Z"),
+        at("2026-01-10T05:30Z"),
+        DEFAULT_BUSINESS_CALENDAR,
+        DEFAULT_SLA_TIMEZONE
+      )
+    ).toBe(60)
+  })
+
+  it("counts Thursday as a half day and Friday as closed in the default calendar", () => {
+    // Thursday 2026-01-08 and Friday 2026-01-09, midnight to midnight in Tehran
+    expect(
+      businessMinutesBetween(
+        at("2026-01-07T20:30Z"),
+        at("2026-01-09T20:30Z"),
+        DEFAULT_BUSINESS_CALENDAR,
+        DEFAULT_SLA_TIMEZONE
+      )
+    ).toBe(240)
+  })
+
+  it("skips holidays recurring on a Solar Hijri date", () => {
+    // Nowruz, 1 Farvardin 1405, falls on Saturday 2026-03-21
+    expect(
+      businessMinutesBetween(
+        at("2026-03-20T20:30Z"),
+        at("2026-03-21T20:30Z"),
+        DEFAULT_BUSINESS_CALENDAR,
+        DEFAULT_SLA_TIMEZONE
+      )
+    ).toBe(0)
+  })
+})
+
+describe("addBusinessMinutes", () => {
+  it("lands inside the same day when the minutes fit", () => {
+    expect(addBusinessMinutes(at("2026-01-05T10:00Z"), 90, OFFICE, "UTC")).toBe(at("2026-01-05T11:30Z"))
+  })
+
+  it("carries the rest over to the next working day", () => {
+    expect(addBusinessMinutes(at("2026-01-05T16:30Z"), 60, OFFICE, "UTC")).toBe(at("2026-01-06T09:30Z"))
+    expect(addBusinessMinutes(at("2026-01-09T16:00Z"), 120, OFFICE, "UTC")).toBe(at("2026-01-12T10:00Z"))
+  })
+
+  it("starts counting at opening time when called outside working hours", () => {
+    expect(addBusinessMinutes(at("2026-01-05T06:00Z"), 30, OFFICE, "UTC")).toBe(at("2026-01-05T09:30Z"))
+  })
+
+  it("ends exactly at closing time when the minutes fill the day", () => {
+    expect(addBusinessMinutes(at("2026-01-05T09:00Z"), 480, OFFICE, "UTC")).toBe(at("2026-01-05T17:00Z"))
+  })
+
+  it("is null for a calendar without working time", () => {
+    const closed: ApiBusinessCalendar = { hours: Array(7).fill(null), holidays: [], recurringHolidays: [] }
+    expect(addBusinessMinutes(at("2026-01-05T10:00Z"), 60, closed, "UTC")).toBeNull()
+  })
+
+  it("is the inverse of businessMinutesBetween", () => {
+    const from = at("2026-01-07T15:10Z")
+    for (const minutes of [0, 1, 50, 480, 1000, 5000]) {
+      const due = addBusinessMinutes(from, minutes, OFFICE, "UTC")!
+      expect(businessMinutesBetween(from, due, OFFICE, "UTC")).toBe(minutes)
+    }
+  })
+})
+
+describe("evaluateTicketSla", () => {
+  const settings: ApiSlaSettings = {
+    policies: [
+      {
+        id: "default",
+        name: "Default",
+        priority: null,
+        categoryId: null,
+        firstResponseMinutes: 60,
+        resolutionMinutes: 480,
+        escalation: { notify: true, reassignToUserId: null },
+      },
+    ],
+    calendar: OFFICE,
+    atRiskPercent: 75,
+  }
+
+  const ticket = (overrides: Partial<SlaTicket> = {}): SlaTicket => ({
+    createdAt: "2026-01-05T09:00:00Z",
+    updatedAt: null,
+    status: "open",
+    priority: "medium",
+    categoryId: 1,
+    ...overrides,
+  })
+
+  it("runs the response clock until the ticket is picked up", () => {
+    const sla = evaluateTicketSla(ticket(), settings, "UTC", at("2026-01-05T09:50Z"))
+    expect(sla?.response).toMatchObject({ state: "at-risk", usedMinutes: 50, remainingMinutes: 10 })
+  })
+
+  it("stops the response clock at the server's first response", () => {
+    const sla = evaluateTicketSla(
+      ticket({
+        status: "in-progress",
+        updatedAt: "2026-01-05T12:00:00Z",
+        sla: { firstRespondedAt: "2026-01-05T09:30:00Z", pausedMinutes: 0 },
+      }),
+      settings,
+      "UTC",
+      at("2026-01-05T13:00Z")
+    )
+    expect(sla?.response).toMatchObject({ state: "met", usedMinutes: 30 })
+  })
+
+  it("takes the last update as the first response when the server didn't record one", () => {
+    const sla = evaluateTicketSla(
+      ticket({ status: "in-progress", updatedAt: "2026-01-05T11:00:00Z" }),
+      settings,
+      "UTC",
+      at("2026-01-05T13:00Z")
+    )
+    expect(sla?.response).toMatchObject({ state: "missed", usedMinutes: 120, remainingMinutes: -60 })
+  })
+
+  it("pauses the resolution clock while waiting for the client", () => {
+    const sla = evaluateTicketSla(
+      ticket({ status: "waiting-for-client", updatedAt: "2026-01-05T11:00:00Z" }),
+      settings,
+      "UTC",
+      at("2026-01-06T15:00Z")
+    )
+    expect(sla?.resolution).toMatchObject({ state: "paused", usedMinutes: 120, dueAt: null })
+  })
+
+  it("is null when no policy covers the ticket", () => {
+    expect(evaluateTicketSla(ticket(), { ...settings, policies: [] }, "UTC", at("2026-01-05T10:00Z"))).toBeNull()
+  })
+})
@@ -0,0 +1,360 @@
+import type {
+  ApiBusinessCalendar,
+  ApiSlaPolicy,
+  ApiSlaSettings,
+  ApiTicketPriority,
+  ApiTicketSlaState,
+} from "./api-types"
+import { mapUiPriorityToApi } from "./ticket-mappers"
+import type { Ticket } from "@/types"
+
+/*
+ * SLA clocks in business time. Targets count only the minutes inside the calendar's working
+ * hours, in the settings' timezone, skipping holidays and the time a ticket waits for the client.
+ * This module drives the countdowns. The backend escalates breaches by the same rules
+ * (Infrastructure/Sla/BusinessTime.cs and SlaService), so change both together.
+ */
+
+export const DEFAULT_SLA_TIMEZONE = "Asia/Tehran"
+
+const WORKDAY = { start: "08:00", end: "16:00" }
+
+/**
+ * The Iranian working week (Saturday to Wednesday, Thursday mornings, Fridays off) and the
+ * national holidays fixed in the Solar Hijri calendar. Lunar holidays move every year and are
+ * entered as one-off dates.
+ */
+export const DEFAULT_BUSINESS_CALENDAR: ApiBusinessCalendar = {
+  hours: [WORKDAY, WORKDAY, WORKDAY, WORKDAY, { start: "08:00", end: "12:00" }, null, WORKDAY],
+  holidays: [],
+  recurringHolidays: ["01-01", "01-02", "01-03", "01-04", "01-12", "01-13", "03-14", "03-15", "11-22", "12-29"],
+}
+
+export const DEFAULT_SLA_SETTINGS: ApiSlaSettings = {
+  policies: [],
+  calendar: DEFAULT_BUSINESS_CALENDAR,
+  atRiskPercent: 75,
+}
+
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+/** Give up looking for working time after this many days (a calendar with no working hours) */
+const MAX_SEARCH_DAYS = 3 * 366
+
+/* ---------- timezone arithmetic ---------- */
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+const formatterFor = (timeZone: string, calendar = "gregory") => {
+  const key = `${timeZone}|${calendar}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(`en-US-u-ca-${calendar}`, {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    })
+    formatters.set(key, formatter)
+  }
+  return formatter
+}
+
+const wallClock = (instant: number, timeZone: string, calendar?: string) => {
+  const parts: Record<string, number> = {}
+  for (const part of formatterFor(timeZone, calendar).formatToParts(instant)) {
+    if (part.type !== "literal" && part.type !== "era") parts[part.type] = Number(part.value)
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number }
+}
+
+/** How far the timezone's wall clock is ahead of UTC at `instant`, in ms */
+const offsetAt = (instant: number, timeZone: string) => {
+  const wall = wallClock(instant, timeZone)
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+  return asUtc - (instant - (instant % 1000))
+}
+
+/** The instant a wall-clock time on a day happens in the timezone; `day` is a UTC-midnight date */
+const zonedInstant = (day: number, minuteOfDay: number, timeZone: string) => {
+  const guess = day + minuteOfDay * MINUTE_MS
+  const first = guess - offsetAt(guess, timeZone)
+  return guess - offsetAt(first, timeZone)
+}
+
+/** The calendar date of `instant` in the timezone, as UTC midnight of that date */
+const localDay = (instant: number, timeZone: string) => {
+  const wall = wallClock(instant, timeZone)
+  return Date.UTC(wall.year, wall.month - 1, wall.day)
+}
+
+const parseClock = (value: string) => {
+  const [hours, minutes] = value.split(":").map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+/* ---------- working windows ---------- */
+
+type Window = readonly [start: number, end: number] | null
+
+// Per calendar object and timezone, so a list re-evaluated every minute doesn't redo the Intl work
+const windowCache = new WeakMap<ApiBusinessCalendar, Map<string, Map<number, Window>>>()
+
+const isHoliday = (day: number, calendar: ApiBusinessCalendar) => {
+  const date = new Date(day)
+  const gregorian = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+  if (calendar.holidays.includes(gregorian)) return true
+  if (calendar.recurringHolidays.length === 0) return false
+  const persian = wallClock(day + 12 * 60 * MINUTE_MS, "UTC", "persian")
+  return calendar.recurringHolidays.includes(`${pad(persian.month)}-${pad(persian.day)}`)
+}
+
+/** The working hours of a calendar date as instants, or null when it is closed */
+const workingWindow = (day: number, calendar: ApiBusinessCalendar, timeZone: string): Window => {
+  let byZone = windowCache.get(calendar)
+  if (!byZone) {
+    byZone = new Map()
+    windowCache.set(calendar, byZone)
+  }
+  let byDay = byZone.get(timeZone)
+  if (!byDay) {
+    byDay = new Map()
+    byZone.set(timeZone, byDay)
+  }
+  const cached = byDay.get(day)
+  if (cached !== undefined) return cached
+
+  const hours = calendar.hours[new Date(day).getUTCDay()]
+  let window: Window = null
+  if (hours && !isHoliday(day, calendar)) {
+    const start = parseClock(hours.start)
+    const end = parseClock(hours.end)
+    if (end > start) {
+      window = [zonedInstant(day, start, timeZone), zonedInstant(day, end, timeZone)]
+    }
+  }
+  byDay.set(day, window)
+  return window
+}
+
+/**
+ * Working minutes between two instants
+ */
+export function businessMinutesBetween(
+  from: number,
+  to: number,
+  calendar: ApiBusinessCalendar,
+  timeZone: string
+): number {
+  if (to <= from) return 0
+  let total = 0
+  // A day's window may start before its UTC midnight, hence the extra day
+  for (let day = localDay(from, timeZone); day <= to + DAY_MS; day += DAY_MS) {
+    const window = workingWindow(day, calendar, timeZone)
+    if (window) {
+      total += Math.max(0, Math.min(window[1], to) - Math.max(window[0], from))
+    }
+  }
+  return Math.floor(total / MINUTE_MS)
+}
+
+/**
+ * The instant `minutes` working minutes after `from`; null when the calendar has no working time
+ */
+export function addBusinessMinutes(
+  from: number,
+  minutes: number,
+  calendar: ApiBusinessCalendar,
+  timeZone: string
+): number | null {
+  let remaining = Math.max(0, minutes) * MINUTE_MS
+  for (let day = localDay(from, timeZone), i = 0; i < MAX_SEARCH_DAYS; day += DAY_MS, i++) {
+    const window = workingWindow(day, calendar, timeZone)
+    if (!window || window[1] <= from) continue
+    const start = Math.max(window[0], from)
+    if (remaining <= window[1] - start) return start + remaining
+    remaining -= window[1] - start
+  }
+  return null
+}
+
+/* ---------- policies and clocks ---------- */
+
+/**
+ * The policy for a ticket: one naming both its priority and category beats one naming either,
+ * which beats a catch-all. Earlier policies win ties.
+ */
+export function findSlaPolicy(
+  policies: readonly ApiSlaPolicy[],
+  priority: ApiTicketPriority,
+  categoryId: number | null | undefined
+): ApiSlaPolicy | null {
+  let best: ApiSlaPolicy | null = null
+  let bestScore = -1
+  for (const policy of policies) {
+    // The server leaves out a policy's priority and category when they match everything
+    if (policy.priority != null && policy.priority !== priority) continue
+    if (policy.categoryId != null && policy.categoryId !== categoryId) continue
+    const score = (policy.categoryId != null ? 2 : 0) + (policy.priority != null ? 1 : 0)
+    if (score > bestScore) {
+      best = policy
+      bestScore = score
+    }
+  }
+  return best
+}
+
+/**
+ * running / at-risk / breached: the clock is ticking. paused: waiting for the client.
+ * met / missed: the target was reached in time or late.
+ */
+export type SlaClockState = "running" | "at-risk" | "breached" | "paused" | "met" | "missed"
+
+export interface SlaClock {
+  kind: "response" | "resolution"
+  state: SlaClockState
+  targetMinutes: number
+  usedMinutes: number
+  /** Working minutes left; negative once breached */
+  remainingMinutes: number
+  /** When the target runs out if the clock keeps running; null once stopped or paused */
+  dueAt: number | null
+}
+
+export interface TicketSla {
+  policy: ApiSlaPolicy
+  response: SlaClock
+  resolution: SlaClock
+  escalatedAt: string | null
+}
+
+/** What the engine needs of a ticket */
+export type SlaTicket = Pick<Ticket, "createdAt" | "updatedAt" | "status" | "priority" | "categoryId"> & {
+  sla?: ApiTicketSlaState | null
+}
+
+const toTime = (value: string | null | undefined) => (value ? new Date(value).getTime() : null)
+
+interface ClockInput {
+  kind: SlaClock["kind"]
+  targetMinutes: number
+  usedMinutes: number
+  stopped: boolean
+  paused: boolean
+}
+
+const buildClock = (
+  { kind, targetMinutes, usedMinutes, stopped, paused }: ClockInput,
+  atRiskPercent: number,
+  now: number,
+  calendar: ApiBusinessCalendar,
+  timeZone: string
+): SlaClock => {
+  const remainingMinutes = targetMinutes - usedMinutes
+  let state: SlaClockState
+  if (stopped) state = remainingMinutes >= 0 ? "met" : "missed"
+  else if (remainingMinutes < 0) state = "breached"
+  else if (paused) state = "paused"
+  else if (usedMinutes >= (targetMinutes * atRiskPercent) / 100) state = "at-risk"
+  else state = "running"
+  const ticking = state === "running" || state === "at-risk"
+  return {
+    kind,
+    state,
+    targetMinutes,
+    usedMinutes,
+    remainingMinutes,
+    dueAt: ticking ? addBusinessMinutes(now, remainingMinutes, calendar, timeZone) : null,
+  }
+}
+
+/**
+ * Both clocks of a ticket at `now`, or null when no policy covers it. The server's clock state
+ * is used when the ticket carries it; otherwise the status and timestamps stand in for it.
+ */
+export function evaluateTicketSla(
+  ticket: SlaTicket,
+  settings: ApiSlaSettings,
+  timeZone: string,
+  now: number
+): TicketSla | null {
+  const policy = findSlaPolicy(settings.policies, mapUiPriorityToApi(ticket.priority), ticket.categoryId)
+  if (!policy) return null
+  const { calendar, atRiskPercent } = settings
+  const state: Partial<ApiTicketSlaState> = ticket.sla ?? {}
+  const createdAt = new Date(ticket.createdAt).getTime()
+  const updatedAt = toTime(ticket.updatedAt)
+  const minutesUntil = (end: number) => businessMinutesBetween(createdAt, end, calendar, timeZone)
+
+  // Picking the ticket up or asking the client something counts as the first response. Without the
+  // server's record of it, the last update is the latest it can have happened
+  const recordedResponse = toTime(state.firstRespondedAt)
+  const responded = recordedResponse !== null || ticket.status !== "open"
+  const firstRespondedAt = recordedResponse ?? (responded ? (updatedAt ?? now) : null)
+  const response = buildClock(
+    {
+      kind: "response",
+      targetMinutes: policy.firstResponseMinutes,
+      usedMinutes: minutesUntil(firstRespondedAt ?? now),
+      stopped: responded,
+      paused: false,
+    },
+    atRiskPercent,
+    now,
+    calendar,
+    timeZone
+  )
+
+  const done = ticket.status === "resolved" || ticket.status === "closed"
+  const waiting = ticket.status === "waiting-for-client"
+  const resolvedAt = toTime(state.resolvedAt) ?? (done ? updatedAt : null)
+  const pausedSince = toTime(state.pausedSince) ?? (waiting ? updatedAt : null)
+  const end = (done ? resolvedAt : null) ?? (waiting ? pausedSince : null) ?? now
+  const resolution = buildClock(
+    {
+      kind: "resolution",
+      targetMinutes: policy.resolutionMinutes,
+      usedMinutes: Math.max(0, minutesUntil(end) - (state.pausedMinutes ?? 0)),
+      stopped: done,
+      paused: waiting,
+    },
+    atRiskPercent,
+    now,
+    calendar,
+    timeZone
+  )
+
+  return { policy, response, resolution, escalatedAt: state.escalatedAt ?? null }
+}
+
+/**
+ * The clock to show for a ticket: the first response until it's given, then resolution
+ */
+export const activeSlaClock = (sla: TicketSla): SlaClock =>
+  sla.response.state === "met" || sla.response.state === "missed" ? sla.resolution : sla.response
+
+/**
+ * Sort rank for urgency: breached first, then at risk, then the rest
+ */
+export const slaUrgency = (clock: SlaClock) =>
+  ({ breached: 0, "at-risk": 1, running: 2, paused: 3, missed: 4, met: 5 })[clock.state]
+
+/**
+ * "۲ ساعت و ۱۵ دقیقه" for a number of working minutes. Stays in hours: a day of working time
+ * isn't 24 hours.
+ */
+export function formatSlaDuration(minutes: number): string {
+  const total = Math.abs(Math.round(minutes))
+  const hours = Math.floor(total / 60)
+  const mins = total % 60
+  const parts: string[] = []
+  if (hours) parts.push(`${hours.toLocaleString("fa-IR")} ساعت`)
+  if (mins) parts.push(`${mins.toLocaleString("fa-IR")} دقیقه`)
+  return parts.length ? parts.join(" و ") : "کمتر از یک دقیقه"
+}
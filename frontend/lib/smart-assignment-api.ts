@@ -1,17 +1,13 @@
 import { apiRequest } from "./api-client";
-
-export interface SmartAssignmentStatusResponse {
-  enabled: boolean;
-}
-
-export interface SmartAssignmentUpdateRequest {
-  enabled: boolean;
-}
-
-export interface SmartAssignmentRunResponse {
-  assignedCount: number;
-  message: string;
-}
+import type {
+  ApiSmartAssignmentRunResponse,
+  ApiSmartAssignmentStatusResponse,
+  ApiSmartAssignmentUpdateRequest,
+} from "./api-types";
+
+export type SmartAssignmentStatusResponse = ApiSmartAssignmentStatusResponse;
+export type SmartAssignmentUpdateRequest = ApiSmartAssignmentUpdateRequest;
+export type SmartAssignmentRunResponse = ApiSmartAssignmentRunResponse;
 
 export async function getSmartAssignmentStatus(
   token: string
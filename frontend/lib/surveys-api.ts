@@ -0,0 +1,38 @@
+import { apiRequest } from "./api-client"
+import type { ApiCsatReport, ApiCsatReportQuery, ApiTicketSurvey, ApiTicketSurveyRequest } from "./api-types"
+
+/**
+ * Answer the satisfaction survey of a closed ticket (its client only, once)
+ */
+export async function submitTicketSurvey(
+  token: string | null,
+  ticketId: string,
+  survey: ApiTicketSurveyRequest
+): Promise<ApiTicketSurvey> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketSurvey>(`/api/tickets/${ticketId}/survey`, {
+    method: "POST",
+    token,
+    body: survey,
+  })
+}
+
+/**
+ * Survey results per technician, category and week or month (requires reports.view)
+ */
+export async function getCsatReport(token: string | null, query: ApiCsatReportQuery = {}): Promise<ApiCsatReport> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const params = new URLSearchParams()
+  if (query.from) params.append("from", query.from)
+  if (query.to) params.append("to", query.to)
+  if (query.period) params.append("period", query.period)
+  const search = params.toString()
+  return apiRequest<ApiCsatReport>(`/api/reports/csat${search ? `?${search}` : ""}`, {
+    method: "GET",
+    token,
+  })
+}
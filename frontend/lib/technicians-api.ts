@@ -8,7 +8,6 @@ import type {
 
 /**
  * Get all technicians (Admin only)
- * Backend route: GET /api/admin/technicians
  */
 export async function getAllTechnicians(token: string | null): Promise<ApiTechnicianResponse[]> {
   if (!token) {
@@ -22,7 +21,6 @@ export async function getAllTechnicians(token: string | null): Promise<ApiTechni
 
 /**
  * Get technician by ID (Admin only)
- * Note: This endpoint may not exist in UsersController - check backend implementation
  */
 export async function getTechnicianById(
   token: string | null,
@@ -31,8 +29,6 @@ export async function getTechnicianById(
   if (!token) {
     throw new Error("Authentication required")
   }
-  // Check if TechniciansController exists with /api/admin/technicians route
-  // If not, this will 404 - handle gracefully if needed
   return apiRequest<ApiTechnicianResponse>(`/api/admin/technicians/${id}`, {
     method: "GET",
     token,
@@ -85,44 +81,10 @@ export async function updateTechnicianStatus(
   if (!token) {
     throw new Error("Authentication required")
   }
-  
-  const requestBody = { isActive }
-  console.log("[technicians-api] Updating technician status:", { id, isActive, requestBody })
-  
-  try {
-    await apiRequest(`/api/admin/technicians/${id}/status`, {
-      method: "PATCH",
-      token,
-      body: requestBody,
-    })
-    console.log("[technicians-api] Technician status updated successfully")
-  } catch (error: any) {
-    console.error("[technicians-api] Failed to update technician status:", {
-      id,
-      isActive,
-      status: error?.status,
-      message: error?.message,
-      body: error?.body,
-    })
-    throw error
-  }
-}
-
-/**
- * Assign technician to ticket (Admin only)
- */
-export async function assignTechnicianToTicket(
-  token: string | null,
-  ticketId: string,
-  technicianId: string
-): Promise<any> {
-  if (!token) {
-    throw new Error("Authentication required")
-  }
-  return apiRequest(`/api/tickets/${ticketId}/assign-technician`, {
-    method: "PUT",
+  const body: ApiTechnicianStatusUpdateRequest = { isActive }
+  await apiRequest<void>(`/api/admin/technicians/${id}/status`, {
+    method: "PATCH",
     token,
-    body: { technicianId },
+    body,
   })
 }
-
@@ -0,0 +1,31 @@
+import type {
+  ApiTicketAssignedEvent,
+  ApiTicketCollaborationResponse,
+  ApiTicketMessageAddedEvent,
+  ApiTicketResponse,
+} from "./api-types"
+
+/**
+ * Events the notification hub pushes to clients, with their payloads.
+ * Created, updated and assigned go to everyone allowed to see the ticket; message and
+ * work session events only reach connections that joined the ticket's group.
+ */
+export interface TicketHubEvents {
+  "ticket:created": ApiTicketResponse
+  "ticket:updated": ApiTicketResponse
+  "ticket:assigned": ApiTicketAssignedEvent
+  "ticket:messageAdded": ApiTicketMessageAddedEvent
+  /** A technician's work session (state, "working on", note) changed */
+  "ticket:collaborationUpdated": ApiTicketCollaborationResponse
+}
+
+export type TicketHubEventName = keyof TicketHubEvents
+
+/** Hub methods the client may invoke */
+export const TicketHubMethods = {
+  joinTicketGroup: "JoinTicketGroup",
+  leaveTicketGroup: "LeaveTicketGroup",
+} as const
+
+/** Group name the backend uses for per-ticket broadcasts */
+export const ticketGroupName = (ticketId: string) => `ticket:${ticketId}`
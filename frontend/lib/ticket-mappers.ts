@@ -1,17 +1,25 @@
-import type { ApiTicketMessageDto, ApiTicketPriority, ApiTicketResponse, ApiTicketStatus } from "@/lib/api-types"
+import type {
+  ApiAttachmentDto,
+  ApiTicketMessageDto,
+  ApiTicketPriority,
+  ApiTicketQuery,
+  ApiTicketResponse,
+  ApiTicketStatus,
+} from "@/lib/api-types"
 import type { CategoriesData } from "@/services/categories-types"
-import type { Ticket, TicketPriority, TicketResponse, TicketStatus } from "@/types"
+import type { Ticket, TicketAttachment, TicketPriority, TicketResponse, TicketStatus } from "@/types"
 
 const statusFromApi: Record<ApiTicketStatus, TicketStatus> = {
   New: "open",
   InProgress: "in-progress",
-  WaitingForClient: "in-progress",
+  WaitingForClient: "waiting-for-client",
   Resolved: "resolved",
   Closed: "closed",
 }
 
 const statusToApi: Record<TicketStatus, ApiTicketStatus> = {
   "in-progress": "InProgress",
+  "waiting-for-client": "WaitingForClient",
   open: "New",
   resolved: "Resolved",
   closed: "Closed",
@@ -57,6 +65,18 @@ export const mapApiMessageToResponse = (message: ApiTicketMessageDto): TicketRes
   timestamp: message.createdAt,
 })
 
+export const mapApiAttachmentToUi = (attachment: ApiAttachmentDto): TicketAttachment => ({
+  id: attachment.id,
+  ticketId: attachment.ticketId,
+  messageId: attachment.messageId ?? null,
+  name: attachment.fileName,
+  size: attachment.size,
+  type: attachment.contentType,
+  uploadedAt: attachment.uploadedAt,
+  uploadedBy: attachment.uploadedByName ?? null,
+  uploadedById: attachment.uploadedByUserId ?? null,
+})
+
 export const mapApiTicketToUi = (
   ticket: ApiTicketResponse,
   categories: CategoriesData,
@@ -68,6 +88,7 @@ export const mapApiTicketToUi = (
     ? Object.entries(categoryEntry[1].subIssues).find(([, sub]) => sub.backendId === ticket.subcategoryId)
     : undefined
   const subcategorySlug = subcategoryEntry?.[0] ?? (ticket.subcategoryName ? slugify(ticket.subcategoryName) : null)
+  const lastResponse = responses[responses.length - 1]
 
   return {
     id: ticket.id,
@@ -94,5 +115,63 @@ export const mapApiTicketToUi = (
     assignedTechnicianEmail: ticket.assignedToEmail ?? null,
     assignedTechnicianPhone: ticket.assignedToPhoneNumber ?? null,
     responses,
+    lastResponseBy: ticket.lastResponseBy ?? lastResponse?.authorName ?? null,
+    lastResponseAt: ticket.lastResponseAt ?? lastResponse?.timestamp ?? null,
+    responseCount: ticket.responseCount ?? (responses.length > 0 ? responses.length : undefined),
+    attachments: ticket.attachments?.map(mapApiAttachmentToUi),
+    attachmentCount: ticket.attachmentCount ?? ticket.attachments?.length,
+    sla: ticket.sla ?? null,
+    resolvedAt: ticket.resolvedAt ?? null,
+    reopenCount: ticket.reopenCount,
+    survey: ticket.survey ?? null,
+    mergedIntoId: ticket.mergedIntoId ?? null,
+  }
+}
+
+export type TicketListSort = NonNullable<ApiTicketQuery["sort"]>
+
+export interface TicketListFilters {
+  statuses?: TicketStatus[]
+  priority?: TicketPriority | "all"
+  categoryId?: number | null
+  /** A technician's user id, or any technician ("assigned") or none ("unassigned") */
+  assignedTo?: string | "assigned" | "unassigned" | null
+  search?: string
+  sort?: TicketListSort
+  createdFrom?: string | null
+  createdTo?: string | null
+}
+
+export const mapTicketFiltersToQuery = (
+  filters: TicketListFilters,
+  page: number,
+  pageSize: number,
+): ApiTicketQuery => {
+  const query: ApiTicketQuery = { page, pageSize, sort: filters.sort ?? "createdAt:desc" }
+  if (filters.statuses?.length) {
+    query.status = Array.from(new Set(filters.statuses.map(mapUiStatusToApi)))
+  }
+  if (filters.priority && filters.priority !== "all") {
+    query.priority = [mapUiPriorityToApi(filters.priority)]
+  }
+  if (typeof filters.categoryId === "number") {
+    query.categoryId = filters.categoryId
+  }
+  if (filters.assignedTo === "unassigned") {
+    query.unassigned = true
+  } else if (filters.assignedTo === "assigned") {
+    query.unassigned = false
+  } else if (filters.assignedTo) {
+    query.assignedTo = filters.assignedTo
+  }
+  if (filters.search?.trim()) {
+    query.search = filters.search.trim()
+  }
+  if (filters.createdFrom) {
+    query.createdFrom = filters.createdFrom
+  }
+  if (filters.createdTo) {
+    query.createdTo = filters.createdTo
   }
+  return query
 }
@@ -0,0 +1,17 @@
+import type { ApiTicketStatus } from "./api-types"
+import { mapApiStatusToUi } from "./ticket-mappers"
+import { ticketStatusColors, ticketStatusLabels } from "./ticket-workflow"
+
+/*
+ * The status tables for code holding backend statuses; the tables themselves live in ticket-workflow
+ */
+
+/**
+ * Persian label for a backend ticket status
+ */
+export const getStatusLabel = (status: ApiTicketStatus): string => ticketStatusLabels[mapApiStatusToUi(status)]
+
+/**
+ * Badge classes for a backend ticket status
+ */
+export const getStatusColor = (status: ApiTicketStatus): string => ticketStatusColors[mapApiStatusToUi(status)]
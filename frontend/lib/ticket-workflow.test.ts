@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+
+import type { ApiTicketWorkflow } from "./api-types"
+import {
+  DEFAULT_TICKET_WORKFLOW,
+  TicketTransitionError,
+  assertTransition,
+  autoCloseAt,
+  findTransition,
+  statusOptions,
+  workflowFromApi,
+  workflowToApi,
+  type TicketWorkflow,
+} from "./ticket-workflow"
+
+const DAY_MS = 24 * 60 * 60_000
+
+describe("default workflow", () => {
+  it.each([
+    ["open", "in-progress", "engineer", true],
+    ["open", "in-progress", "client", false],
+    ["open", "closed", "engineer", false],
+    ["open", "closed", "admin", true],
+    ["in-progress", "open", "engineer", false],
+    ["in-progress", "open", "admin", true],
+    ["waiting-for-client", "in-progress", "client", true],
+    ["resolved", "closed", "client", true],
+    ["resolved", "in-progress", "client", true],
+    ["closed", "in-progress", "engineer", false],
+    ["closed", "in-progress", "admin", true],
+  ] as const)("%s → %s is allowed for %s: %s", (from, to, role, allowed) => {
+    expect(findTransition(DEFAULT_TICKET_WORKFLOW, from, to, role) !== null).toBe(allowed)
+  })
+
+  it("offers each role only the changes it may make, current status first", () => {
+    expect(statusOptions(DEFAULT_TICKET_WORKFLOW, "open", "client")).toEqual(["open"])
+    expect(statusOptions(DEFAULT_TICKET_WORKFLOW, "open", "engineer")).toEqual([
+      "open",
+      "in-progress",
+      "waiting-for-client",
+      "resolved",
+    ])
+    expect(statusOptions(DEFAULT_TICKET_WORKFLOW, "resolved", "client")).toEqual(["resolved", "in-progress", "closed"])
+  })
+})
+
+describe("assertTransition", () => {
+  const check = { from: "in-progress", role: "engineer", assigned: true } as const
+
+  it("lets a ticket keep its status", () => {
+    expect(() => assertTransition(DEFAULT_TICKET_WORKFLOW, { ...check, to: "in-progress" })).not.toThrow()
+  })
+
+  it("rejects changes the role may not make", () => {
+    expect(() => assertTransition(DEFAULT_TICKET_WORKFLOW, { ...check, to: "closed" })).toThrow(TicketTransitionError)
+  })
+
+  it("requires a note where the workflow asks for one", () => {
+    expect(() => assertTransition(DEFAULT_TICKET_WORKFLOW, { ...check, to: "resolved", note: "  " })).toThrow(
+      TicketTransitionError
+    )
+    expect(() =>
+      assertTransition(DEFAULT_TICKET_WORKFLOW, { ...check, to: "resolved", note: "کابل تعویض شد" })
+    ).not.toThrow()
+  })
+
+  it("requires a technician before work starts", () => {
+    const pickUp = { from: "open", to: "in-progress", role: "admin" } as const
+    expect(() => assertTransition(DEFAULT_TICKET_WORKFLOW, { ...pickUp, assigned: false })).toThrow(TicketTransitionError)
+    expect(() => assertTransition(DEFAULT_TICKET_WORKFLOW, { ...pickUp, assigned: true })).not.toThrow()
+  })
+})
+
+describe("autoCloseAt", () => {
+  const resolved = { status: "resolved" as const, resolvedAt: "2026-01-05T10:00:00Z" }
+
+  it("counts the auto-close period from the resolution", () => {
+    expect(autoCloseAt(resolved, DEFAULT_TICKET_WORKFLOW)).toBe(new Date(resolved.resolvedAt).getTime() + 7 * DAY_MS)
+  })
+
+  it("is null for tickets that aren't resolved or when auto-close is off", () => {
+    expect(autoCloseAt({ ...resolved, status: "closed" }, DEFAULT_TICKET_WORKFLOW)).toBeNull()
+    expect(autoCloseAt(resolved, { ...DEFAULT_TICKET_WORKFLOW, autoCloseResolvedDays: 0 })).toBeNull()
+  })
+
+  it("is null rather than NaN for an unusable period or date", () => {
+    const broken: TicketWorkflow = { ...DEFAULT_TICKET_WORKFLOW, autoCloseResolvedDays: Number.NaN }
+    expect(autoCloseAt(resolved, broken)).toBeNull()
+    expect(autoCloseAt({ ...resolved, resolvedAt: "not a date" }, DEFAULT_TICKET_WORKFLOW)).toBeNull()
+    expect(autoCloseAt({ ...resolved, resolvedAt: null }, DEFAULT_TICKET_WORKFLOW)).toBeNull()
+  })
+})
+
+describe("workflowFromApi", () => {
+  it("reads back what workflowToApi writes", () => {
+    expect(workflowFromApi(workflowToApi(DEFAULT_TICKET_WORKFLOW))).toEqual(DEFAULT_TICKET_WORKFLOW)
+  })
+
+  it("uses the default auto-close period when the server leaves it out", () => {
+    const workflow = workflowFromApi({ transitions: [] } as unknown as ApiTicketWorkflow)
+    expect(workflow.autoCloseResolvedDays).toBe(DEFAULT_TICKET_WORKFLOW.autoCloseResolvedDays)
+  })
+
+  it("keeps a period the server sends, in whole days", () => {
+    expect(workflowFromApi({ transitions: [], autoCloseResolvedDays: 3.5 }).autoCloseResolvedDays).toBe(3)
+    expect(workflowFromApi({ transitions: [], autoCloseResolvedDays: 0 }).autoCloseResolvedDays).toBe(0)
+  })
+})
@@ -0,0 +1,193 @@
+import type { ApiTicketWorkflow, ApiWorkflowRequirement } from "./api-types"
+import type { BaseRole } from "./permissions"
+import { roleFromApi, roleToApi } from "./role-mappers"
+import { mapApiStatusToUi, mapUiStatusToApi } from "./ticket-mappers"
+import type { Ticket, TicketStatus } from "@/types"
+
+/*
+ * The ticket workflow: which status changes each role may make and what they must carry.
+ * Status pickers only offer the allowed changes and the ticket mutations (hooks/use-tickets.ts)
+ * refuse the rest. The backend refuses a status change the workflow doesn't give the role; what a
+ * change must carry (a note, an assignee) is checked here only.
+ */
+
+/** Every status, in the order a ticket usually moves through them */
+export const TICKET_STATUSES: readonly TicketStatus[] = ["open", "in-progress", "waiting-for-client", "resolved", "closed"]
+
+export const ticketStatusLabels: Record<TicketStatus, string> = {
+  open: "باز",
+  "in-progress": "در حال انجام",
+  "waiting-for-client": "در انتظار مشتری",
+  resolved: "حل شده",
+  closed: "بسته",
+}
+
+/** Badge classes for each status */
+export const ticketStatusColors: Record<TicketStatus, string> = {
+  open: "bg-red-100 text-red-800 border-red-200",
+  "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
+  "waiting-for-client": "bg-sky-100 text-sky-800 border-sky-200",
+  resolved: "bg-green-100 text-green-800 border-green-200",
+  closed: "bg-gray-100 text-gray-800 border-gray-200",
+}
+
+export type TransitionRequirement = "note" | "assignee"
+
+export const requirementLabels: Record<TransitionRequirement, string> = {
+  note: "توضیح",
+  assignee: "تکنسین مسئول",
+}
+
+export interface WorkflowTransition {
+  from: TicketStatus
+  to: TicketStatus
+  roles: BaseRole[]
+  requires: TransitionRequirement[]
+}
+
+export interface TicketWorkflow {
+  transitions: WorkflowTransition[]
+  /** Days a resolved ticket waits for the client before the server closes it; 0 never */
+  autoCloseResolvedDays: number
+}
+
+const STAFF: BaseRole[] = ["engineer", "admin"]
+const EVERYONE: BaseRole[] = ["client", "engineer", "admin"]
+
+/**
+ * Technicians work tickets through to resolved, clients confirm or reopen them, and only
+ * admins close unresolved tickets or reopen closed ones. Resolving, closing and reopening
+ * need a note saying why. Resolutions nobody answers close after a week.
+ */
+export const DEFAULT_TICKET_WORKFLOW: TicketWorkflow = {
+  transitions: [
+    { from: "open", to: "in-progress", roles: STAFF, requires: ["assignee"] },
+    { from: "open", to: "waiting-for-client", roles: STAFF, requires: ["note"] },
+    { from: "open", to: "resolved", roles: STAFF, requires: ["note"] },
+    { from: "open", to: "closed", roles: ["admin"], requires: ["note"] },
+    { from: "in-progress", to: "open", roles: ["admin"], requires: [] },
+    { from: "in-progress", to: "waiting-for-client", roles: STAFF, requires: ["note"] },
+    { from: "in-progress", to: "resolved", roles: STAFF, requires: ["note"] },
+    { from: "in-progress", to: "closed", roles: ["admin"], requires: ["note"] },
+    { from: "waiting-for-client", to: "in-progress", roles: EVERYONE, requires: [] },
+    { from: "waiting-for-client", to: "resolved", roles: STAFF, requires: ["note"] },
+    { from: "waiting-for-client", to: "closed", roles: ["admin"], requires: ["note"] },
+    { from: "resolved", to: "in-progress", roles: EVERYONE, requires: ["note"] },
+    { from: "resolved", to: "closed", roles: EVERYONE, requires: [] },
+    { from: "closed", to: "in-progress", roles: ["admin"], requires: ["note"] },
+  ],
+  autoCloseResolvedDays: 7,
+}
+
+const requirementFromApi: Record<ApiWorkflowRequirement, TransitionRequirement> = {
+  Note: "note",
+  Assignee: "assignee",
+}
+
+const requirementToApi: Record<TransitionRequirement, ApiWorkflowRequirement> = {
+  note: "Note",
+  assignee: "Assignee",
+}
+
+/** A whole number of days; the default when the server leaves it out or sends something unusable */
+const autoCloseDays = (value: number | null | undefined) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.max(0, Math.floor(value))
+    : DEFAULT_TICKET_WORKFLOW.autoCloseResolvedDays
+
+export const workflowFromApi = (workflow: ApiTicketWorkflow): TicketWorkflow => ({
+  transitions: workflow.transitions.map((transition) => ({
+    from: mapApiStatusToUi(transition.from),
+    to: mapApiStatusToUi(transition.to),
+    roles: Array.from(new Set(transition.roles.map(roleFromApi))),
+    requires: transition.requires.map((requirement) => requirementFromApi[requirement]).filter(Boolean),
+  })),
+  autoCloseResolvedDays: autoCloseDays(workflow.autoCloseResolvedDays),
+})
+
+export const workflowToApi = (workflow: TicketWorkflow): ApiTicketWorkflow => ({
+  transitions: workflow.transitions.map((transition) => ({
+    from: mapUiStatusToApi(transition.from),
+    to: mapUiStatusToApi(transition.to),
+    roles: transition.roles.map(roleToApi),
+    requires: transition.requires.map((requirement) => requirementToApi[requirement]),
+  })),
+  autoCloseResolvedDays: autoCloseDays(workflow.autoCloseResolvedDays),
+})
+
+/**
+ * The transition a role may take from one status to another; null when it isn't allowed
+ */
+export const findTransition = (
+  workflow: TicketWorkflow,
+  from: TicketStatus,
+  to: TicketStatus,
+  role: BaseRole
+): WorkflowTransition | null =>
+  workflow.transitions.find(
+    (transition) => transition.from === from && transition.to === to && transition.roles.includes(role)
+  ) ?? null
+
+/**
+ * Statuses a role may pick for a ticket in `from`, starting with `from` itself (no change)
+ */
+export const statusOptions = (workflow: TicketWorkflow, from: TicketStatus, role: BaseRole): TicketStatus[] => [
+  from,
+  ...TICKET_STATUSES.filter((to) => to !== from && findTransition(workflow, from, to, role)),
+]
+
+/** A status change the workflow doesn't allow, or one missing what the workflow requires */
+export class TicketTransitionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TicketTransitionError"
+  }
+}
+
+interface TransitionCheck {
+  from: TicketStatus
+  to: TicketStatus
+  role: BaseRole
+  /** The message sent with the change */
+  note?: string | null
+  /** Whether the ticket has (or gets, in the same change) a technician */
+  assigned: boolean
+}
+
+/**
+ * Throws a TicketTransitionError explaining why the change can't be made
+ */
+export function assertTransition(workflow: TicketWorkflow, { from, to, role, note, assigned }: TransitionCheck) {
+  if (from === to) return
+  const transition = findTransition(workflow, from, to, role)
+  if (!transition) {
+    throw new TicketTransitionError(
+      `تغییر وضعیت از «${ticketStatusLabels[from]}» به «${ticketStatusLabels[to]}» برای نقش شما مجاز نیست`
+    )
+  }
+  if (transition.requires.includes("note") && !note?.trim()) {
+    throw new TicketTransitionError(`برای تغییر وضعیت به «${ticketStatusLabels[to]}» نوشتن توضیح الزامی است`)
+  }
+  if (transition.requires.includes("assignee") && !assigned) {
+    throw new TicketTransitionError(`برای تغییر وضعیت به «${ticketStatusLabels[to]}» ابتدا تکنسین را تعیین کنید`)
+  }
+}
+
+const DAY_MS = 24 * 60 * 60_000
+
+/**
+ * When the server will close a resolved ticket the client hasn't answered; null when it won't
+ */
+export const autoCloseAt = (
+  ticket: Pick<Ticket, "status" | "resolvedAt">,
+  workflow: TicketWorkflow
+): number | null => {
+  const days = workflow.autoCloseResolvedDays
+  const since = ticket.resolvedAt ? new Date(ticket.resolvedAt).getTime() : Number.NaN
+  if (ticket.status !== "resolved" || !Number.isFinite(days) || days <= 0 || Number.isNaN(since)) return null
+  return since + days * DAY_MS
+}
+
+/** Tickets still being worked on, and not already folded into another */
+export const isMergeable = (ticket: Pick<Ticket, "status" | "mergedIntoId">) =>
+  !ticket.mergedIntoId && ticket.status !== "resolved" && ticket.status !== "closed"
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { apiRequest } from "./api-client"
+import { createApiError } from "./api-errors"
+import type { ApiTicketListResponse, ApiTicketResponse } from "./api-types"
+import { getTicketSummary, queryTechnicianTickets, queryTickets } from "./tickets-api"
+
+vi.mock("./api-client", () => ({ apiRequest: vi.fn() }))
+
+const request = vi.mocked(apiRequest)
+
+const ticket = (id: string): ApiTicketResponse => ({
+  id,
+  title: `Ticket ${id}`,
+  description: "",
+  status: "New",
+  priority: "Medium",
+  categoryId: 1,
+  categoryName: "Hardware",
+  createdAt: "2026-01-05T10:00:00Z",
+  createdByUserId: "client-1",
+  createdByName: "Client",
+  createdByEmail: "client@example.com",
+  responseCount: 0,
+  attachmentCount: 0,
+  sla: { pausedMinutes: 0 },
+  reopenCount: 0,
+})
+
+const routes = () => request.mock.calls.map(([route]) => route)
+
+beforeEach(() => {
+  request.mockReset()
+})
+
+describe("queryTickets", () => {
+  it("returns the server's page", async () => {
+    const page: ApiTicketListResponse = { items: [ticket("T-1")], totalCount: 9, page: 2, pageSize: 1 }
+    request.mockResolvedValueOnce(page)
+
+    await expect(queryTickets("token", { page: 2, pageSize: 1, status: ["New"] })).resolves.toBe(page)
+    expect(routes()).toEqual(["/api/tickets?page=2&pageSize=1&status=New"])
+  })
+
+  it("sends the technician's query to their own route", async () => {
+    request.mockResolvedValueOnce({ items: [], totalCount: 0, page: 1, pageSize: 20 })
+
+    await queryTechnicianTickets("token", { sort: "createdAt:asc", search: " printer " })
+
+    expect(routes()).toEqual(["/api/technician/tickets?page=1&pageSize=20&sort=createdAt%3Aasc&search=printer"])
+  })
+})
+
+describe("getTicketSummary", () => {
+  it("returns the server's counts", async () => {
+    const summary = { totalCount: 2, byStatus: [{ status: "New" as const, count: 2 }], byAssignee: [] }
+    request.mockResolvedValueOnce(summary)
+
+    await expect(getTicketSummary("token", { status: ["New"] })).resolves.toBe(summary)
+    expect(routes()).toEqual(["/api/tickets/summary?status=New"])
+  })
+
+  it("passes a refused query on as an error", async () => {
+    request.mockRejectedValueOnce(createApiError(400, { errors: { createdFrom: ["The value is not valid."] } }))
+
+    await expect(getTicketSummary("token", { createdFrom: "yesterday" })).rejects.toMatchObject({ kind: "validation" })
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+})
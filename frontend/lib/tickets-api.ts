@@ -0,0 +1,375 @@
+import { apiRequest } from "./api-client"
+import type {
+  ApiSimilarTicketDto,
+  ApiSimilarTicketsQuery,
+  ApiTicketActivityDto,
+  ApiTicketCalendarResponse,
+  ApiTicketCollaborationResponse,
+  ApiTicketCreateRequest,
+  ApiTicketListResponse,
+  ApiTicketMergeRequest,
+  ApiTicketMergeResponse,
+  ApiTicketMessageDto,
+  ApiTicketMessageRequest,
+  ApiTicketQuery,
+  ApiTicketResponse,
+  ApiTicketSummary,
+  ApiTicketSummaryQuery,
+  ApiTicketUpdateRequest,
+  ApiUpdateWorkSessionRequest,
+} from "./api-types"
+
+export type ApiTicketTechnicianState = "Invited" | "Accepted" | "InProgress" | "Completed" | "Declined"
+
+export interface ApiTicketTechnicianDto {
+  technicianId: string
+  technicianUserId: string
+  technicianName: string
+  technicianEmail: string
+  isLead: boolean
+  state: ApiTicketTechnicianState
+  assignedAt: string
+}
+
+export interface ApiSetResponsibleTechnicianRequest {
+  responsibleTechnicianId: string
+}
+
+export const DEFAULT_TICKET_PAGE_SIZE = 20
+
+const appendTicketFilters = (params: URLSearchParams, query: ApiTicketSummaryQuery) => {
+  query.status?.forEach((status) => params.append("status", status))
+  query.priority?.forEach((priority) => params.append("priority", priority))
+  if (typeof query.categoryId !== "undefined") params.append("categoryId", String(query.categoryId))
+  if (typeof query.subcategoryId !== "undefined") params.append("subcategoryId", String(query.subcategoryId))
+  if (query.assignedTo) params.append("assignedTo", query.assignedTo)
+  if (query.createdBy) params.append("createdBy", query.createdBy)
+  if (typeof query.unassigned !== "undefined") params.append("unassigned", String(query.unassigned))
+  if (query.createdFrom) params.append("createdFrom", query.createdFrom)
+  if (query.createdTo) params.append("createdTo", query.createdTo)
+  if (query.search?.trim()) params.append("search", query.search.trim())
+  return params
+}
+
+const buildTicketQueryString = (query: ApiTicketQuery) => {
+  const params = new URLSearchParams()
+  params.append("page", String(query.page ?? 1))
+  params.append("pageSize", String(query.pageSize ?? DEFAULT_TICKET_PAGE_SIZE))
+  if (query.sort) params.append("sort", query.sort)
+  return appendTicketFilters(params, query).toString()
+}
+
+/**
+ * Get one page of tickets visible to the current user, filtered and sorted on the server
+ * Backend route: GET /api/tickets?page=&pageSize=&sort=&status=&priority=&categoryId=&subcategoryId=&assignedTo=&createdBy=&unassigned=&createdFrom=&createdTo=&search=
+ */
+export async function queryTickets(
+  token: string | null,
+  query: ApiTicketQuery = {}
+): Promise<ApiTicketListResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketListResponse>(`/api/tickets?${buildTicketQueryString(query)}`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Get one page of tickets assigned to the current technician (Technician only)
+ * Backend route: GET /api/technician/tickets with the same query parameters as queryTickets
+ */
+export async function queryTechnicianTickets(
+  token: string | null,
+  query: ApiTicketQuery = {}
+): Promise<ApiTicketListResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketListResponse>(`/api/technician/tickets?${buildTicketQueryString(query)}`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Count the tickets visible to the current user that match the filters, by status and assignee
+ * Backend route: GET /api/tickets/summary with the filter parameters of queryTickets
+ */
+export async function getTicketSummary(
+  token: string | null,
+  query: ApiTicketSummaryQuery = {}
+): Promise<ApiTicketSummary> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const queryString = appendTicketFilters(new URLSearchParams(), query).toString()
+  return apiRequest<ApiTicketSummary>(`/api/tickets/summary?${queryString}`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Count the current technician's assigned tickets that match the filters (Technician only)
+ * Backend route: GET /api/technician/tickets/summary with the filter parameters of queryTickets
+ */
+export async function getTechnicianTicketSummary(
+  token: string | null,
+  query: ApiTicketSummaryQuery = {}
+): Promise<ApiTicketSummary> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const queryString = appendTicketFilters(new URLSearchParams(), query).toString()
+  return apiRequest<ApiTicketSummary>(`/api/technician/tickets/summary?${queryString}`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Get a single ticket by ID
+ */
+export async function getTicket(token: string | null, ticketId: string): Promise<ApiTicketResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Create a new ticket (Client only)
+ */
+export async function createTicket(
+  token: string | null,
+  ticket: ApiTicketCreateRequest
+): Promise<ApiTicketResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketResponse>("/api/tickets", {
+    method: "POST",
+    token,
+    body: ticket,
+  })
+}
+
+/**
+ * Partially update a ticket (status, priority, assignee, due date)
+ */
+export async function updateTicket(
+  token: string | null,
+  ticketId: string,
+  updates: ApiTicketUpdateRequest
+): Promise<ApiTicketResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}`, {
+    method: "PATCH",
+    token,
+    body: updates,
+  })
+}
+
+/**
+ * Assign a technician to a ticket (Admin only)
+ */
+export async function assignTechnician(
+  token: string | null,
+  ticketId: string,
+  technicianId: string
+): Promise<ApiTicketResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}/assign-technician`, {
+    method: "PUT",
+    token,
+    body: { technicianId },
+  })
+}
+
+/**
+ * Get the message thread of a ticket
+ */
+export async function getTicketMessages(
+  token: string | null,
+  ticketId: string
+): Promise<ApiTicketMessageDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketMessageDto[]>(`/api/tickets/${ticketId}/messages`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Post a reply to a ticket, optionally changing its status
+ */
+export async function addTicketMessage(
+  token: string | null,
+  ticketId: string,
+  message: ApiTicketMessageRequest
+): Promise<ApiTicketMessageDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketMessageDto>(`/api/tickets/${ticketId}/messages`, {
+    method: "POST",
+    token,
+    body: message,
+  })
+}
+
+/**
+ * Get tickets for the calendar view (Admin only)
+ * Dates are inclusive and formatted as YYYY-MM-DD.
+ */
+export async function getCalendarTickets(
+  token: string | null,
+  start: string,
+  end: string
+): Promise<ApiTicketCalendarResponse[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const params = new URLSearchParams({ start, end })
+  return apiRequest<ApiTicketCalendarResponse[]>(`/api/tickets/calendar?${params.toString()}`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Get technicians assigned to a ticket (Admin + assigned technicians)
+ */
+export async function getTicketTechnicians(
+  token: string | null,
+  ticketId: string
+): Promise<ApiTicketTechnicianDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketTechnicianDto[]>(`/api/tickets/${ticketId}/technicians`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Delegate responsibility for a ticket to one of its assigned technicians
+ */
+export async function setResponsibleTechnician(
+  token: string | null,
+  ticketId: string,
+  request: ApiSetResponsibleTechnicianRequest
+): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest(`/api/tickets/${ticketId}/responsible`, {
+    method: "PUT",
+    token,
+    body: request,
+  })
+}
+
+/**
+ * Get the activity timeline of a ticket
+ */
+export async function getTicketActivities(
+  token: string | null,
+  ticketId: string
+): Promise<ApiTicketActivityDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketActivityDto[]>(`/api/tickets/${ticketId}/activities`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Get live collaboration data (who is working on what) for a ticket
+ */
+export async function getTicketCollaboration(
+  token: string | null,
+  ticketId: string
+): Promise<ApiTicketCollaborationResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketCollaborationResponse>(`/api/tickets/${ticketId}/collaboration`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Update the current technician's work session on a ticket (Technician only)
+ */
+export async function updateWorkSession(
+  token: string | null,
+  ticketId: string,
+  request: ApiUpdateWorkSessionRequest
+): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest(`/api/tickets/${ticketId}/work/me`, {
+    method: "PUT",
+    token,
+    body: request,
+  })
+}
+
+/**
+ * Merge duplicates into a ticket (requires tickets.merge)
+ */
+export async function mergeTickets(
+  token: string | null,
+  primaryId: string,
+  request: ApiTicketMergeRequest
+): Promise<ApiTicketMergeResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketMergeResponse>(`/api/tickets/${primaryId}/merge`, {
+    method: "POST",
+    token,
+    body: request,
+  })
+}
+
+/**
+ * Open tickets of a category that read like the given title and description, best match first.
+ * Suggestions are best effort, so a failure isn't logged; callers show none.
+ * Backend route: GET /api/tickets/similar?categoryId=&title=&description=&excludeId=&minScore=&limit=
+ */
+export async function getSimilarTickets(
+  token: string | null,
+  query: ApiSimilarTicketsQuery
+): Promise<ApiSimilarTicketDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const params = new URLSearchParams({ categoryId: String(query.categoryId), title: query.title })
+  if (query.description) params.append("description", query.description)
+  if (query.excludeId) params.append("excludeId", query.excludeId)
+  if (typeof query.minScore !== "undefined") params.append("minScore", String(query.minScore))
+  if (typeof query.limit !== "undefined") params.append("limit", String(query.limit))
+  return apiRequest<ApiSimilarTicketDto[]>(`/api/tickets/similar?${params.toString()}`, {
+    method: "GET",
+    token,
+    silent: true,
+  })
+}
@@ -0,0 +1,99 @@
+import { apiRequest } from "./api-client"
+import type {
+  ApiAuthResponse,
+  ApiTwoFactorCodeRequest,
+  ApiTwoFactorEnableResponse,
+  ApiTwoFactorRecoveryCodesResponse,
+  ApiTwoFactorSetupResponse,
+  ApiTwoFactorStatusResponse,
+  ApiTwoFactorVerifyRequest,
+} from "./api-types"
+
+/**
+ * Whether the signed-in user has an authenticator, and how many recovery codes are left
+ */
+export async function getTwoFactorStatus(token: string | null): Promise<ApiTwoFactorStatusResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTwoFactorStatusResponse>("/api/auth/2fa", {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Create a new TOTP secret. It isn't active until confirmed with enableTwoFactor.
+ * `token` is the session token, or the challenge token of a sign-in that requires enrollment.
+ */
+export async function startTwoFactorSetup(token: string | null): Promise<ApiTwoFactorSetupResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTwoFactorSetupResponse>("/api/auth/2fa/setup", {
+    method: "POST",
+    token,
+  })
+}
+
+/**
+ * Activate the secret from startTwoFactorSetup with a code from the authenticator.
+ * Returns the recovery codes; they are shown only this once.
+ */
+export async function enableTwoFactor(token: string | null, code: string): Promise<ApiTwoFactorEnableResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const body: ApiTwoFactorCodeRequest = { code }
+  return apiRequest<ApiTwoFactorEnableResponse>("/api/auth/2fa/enable", {
+    method: "POST",
+    token,
+    body,
+  })
+}
+
+/**
+ * Turn two-factor authentication off; needs a current code
+ */
+export async function disableTwoFactor(token: string | null, code: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const body: ApiTwoFactorCodeRequest = { code }
+  await apiRequest<void>("/api/auth/2fa/disable", {
+    method: "POST",
+    token,
+    body,
+  })
+}
+
+/**
+ * Replace all recovery codes; the old ones stop working
+ */
+export async function regenerateRecoveryCodes(
+  token: string | null,
+  code: string
+): Promise<ApiTwoFactorRecoveryCodesResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const body: ApiTwoFactorCodeRequest = { code }
+  return apiRequest<ApiTwoFactorRecoveryCodesResponse>("/api/auth/2fa/recovery-codes", {
+    method: "POST",
+    token,
+    body,
+  })
+}
+
+/**
+ * Second sign-in step: trade the login challenge and a code for the session
+ */
+export async function verifyTwoFactorChallenge(
+  request: ApiTwoFactorVerifyRequest
+): Promise<ApiAuthResponse> {
+  return apiRequest<ApiAuthResponse>("/api/auth/2fa/verify", {
+    method: "POST",
+    token: null,
+    body: request,
+  })
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+
+import { USER_IMPORT_TEMPLATE, parseCsv, parseUserImportCsv } from "./user-import"
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("a,b\nc,d")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ])
+  })
+
+  it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+    expect(parseCsv('"Rezaei, Ali","say ""hi""","two\nlines"\n')).toEqual([["Rezaei, Ali", 'say "hi"', "two\nlines"]])
+  })
+
+  it("handles CRLF line endings and Excel's BOM", () => {
+    expect(parseCsv("\uFEFFemail,name\r\na@example.com,Ali\r\n")).toEqual([
+      ["email", "name"],
+      ["a@example.com", "Ali"],
+    ])
+  })
+})
+
+describe("parseUserImportCsv", () => {
+  it("reads the downloadable template", () => {
+    const result = parseUserImportCsv(USER_IMPORT_TEMPLATE)
+    expect(result.errors).toEqual([])
+    expect(result.users).toEqual([
+      {
+        email: "ali@example.com",
+        fullName: "علی رضایی",
+        role: "Client",
+        department: "مالی",
+        phoneNumber: "09120000000",
+      },
+    ])
+    expect(result.lines).toEqual([2])
+  })
+
+  it("accepts header aliases in any order and role names in either language", () => {
+    const csv = [
+      "نقش,ایمیل,نام",
+      "technician,Sara@Example.com,Sara",
+      "مدیر سیستم,omid@example.com,Omid",
+      ",li@example.com,Li",
+    ]
+    const { users, errors } = parseUserImportCsv(csv.join("\n"))
+    expect(errors).toEqual([])
+    expect(users.map(({ email, role }) => [email, role])).toEqual([
+      ["sara@example.com", "Technician"],
+      ["omid@example.com", "Admin"],
+      ["li@example.com", "Client"],
+    ])
+  })
+
+  it("reports bad rows by file line and keeps the rest", () => {
+    const csv = [
+      "email,fullName,role",
+      "ali@example.com,Ali,client",
+      "not-an-email,Bad,client",
+      "",
+      "sara@example.com,,client",
+      "omid@example.com,Omid,manager",
+      "ALI@example.com,Ali again,client",
+      "li@example.com,Li,admin",
+    ]
+    const result = parseUserImportCsv(csv.join("\n"))
+    expect(result.users.map((user) => user.email)).toEqual(["ali@example.com", "li@example.com"])
+    expect(result.lines).toEqual([2, 8])
+    expect(result.errors.map((error) => error.line)).toEqual([3, 5, 6, 7])
+  })
+
+  it("requires the email and name columns", () => {
+    expect(parseUserImportCsv("email,role\na@example.com,client").errors).toEqual([
+      { line: 1, message: expect.stringContaining("fullName") },
+    ])
+    expect(parseUserImportCsv("").errors).toEqual([{ line: 1, message: expect.any(String) }])
+  })
+})
@@ -0,0 +1,149 @@
+import type { ApiUserInviteRequest } from "./api-types"
+import { baseRoleLabels, type BaseRole } from "./permissions"
+import { roleToApi } from "./role-mappers"
+
+export interface UserImportRowError {
+  /** 1-based line in the file, header included */
+  line: number
+  message: string
+}
+
+export interface UserImportParseResult {
+  users: ApiUserInviteRequest[]
+  /** File line of each entry in `users`, to point server-side errors back at the file */
+  lines: number[]
+  errors: UserImportRowError[]
+}
+
+/** Header names (lowercased, spaces removed) accepted for each column */
+const COLUMN_ALIASES: Record<keyof ApiUserInviteRequest, string[]> = {
+  email: ["email", "e-mail", "ایمیل"],
+  fullName: ["fullname", "name", "نام", "نامکامل"],
+  role: ["role", "نقش"],
+  department: ["department", "بخش", "واحد"],
+  phoneNumber: ["phone", "phonenumber", "mobile", "تلفن", "موبایل"],
+}
+
+/** Role column values: the app's role names, the backend's, or their Persian labels */
+const ROLE_ALIASES: Record<string, BaseRole> = {
+  client: "client",
+  user: "client",
+  engineer: "engineer",
+  technician: "engineer",
+  admin: "admin",
+  ...Object.fromEntries((Object.entries(baseRoleLabels) as [BaseRole, string][]).map(([role, label]) => [label, role])),
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with commas, doubled quotes and
+ * line breaks, CRLF line endings and a UTF-8 BOM (Excel writes one).
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+  const source = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+    if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+/**
+ * Read a department's users from a CSV file with a header row. `email` and `fullName` are required;
+ * `role` defaults to client. Invalid and repeated rows are reported and left out.
+ */
+export function parseUserImportCsv(text: string): UserImportParseResult {
+  const result: UserImportParseResult = { users: [], lines: [], errors: [] }
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    result.errors.push({ line: 1, message: "فایل خالی است" })
+    return result
+  }
+
+  const normalizedHeader = header.map((name) => name.trim().toLowerCase().replace(/\s+/g, ""))
+  const columnIndex = Object.fromEntries(
+    (Object.entries(COLUMN_ALIASES) as [keyof ApiUserInviteRequest, string[]][]).map(([column, aliases]) => [
+      column,
+      normalizedHeader.findIndex((name) => aliases.includes(name)),
+    ])
+  ) as Record<keyof ApiUserInviteRequest, number>
+
+  if (columnIndex.email === -1 || columnIndex.fullName === -1) {
+    result.errors.push({ line: 1, message: "ستون‌های email و fullName در سطر اول الزامی هستند" })
+    return result
+  }
+
+  const seen = new Set<string>()
+  rows.forEach((fields, index) => {
+    const line = index + 2
+    const read = (column: keyof ApiUserInviteRequest) =>
+      columnIndex[column] === -1 ? "" : (fields[columnIndex[column]] ?? "").trim()
+
+    // Blank lines, usually at the end of the file
+    if (fields.every((value) => !value.trim())) return
+
+    const email = read("email").toLowerCase()
+    const fullName = read("fullName")
+    const roleValue = read("role").toLowerCase()
+    const baseRole: BaseRole | undefined = roleValue ? ROLE_ALIASES[roleValue] : "client"
+
+    if (!EMAIL_PATTERN.test(email)) {
+      result.errors.push({ line, message: `ایمیل نامعتبر است: ${email || "(خالی)"}` })
+    } else if (!fullName) {
+      result.errors.push({ line, message: "نام کاربر وارد نشده است" })
+    } else if (!baseRole) {
+      result.errors.push({ line, message: `نقش ناشناخته است: ${read("role")}` })
+    } else if (seen.has(email)) {
+      result.errors.push({ line, message: `ایمیل تکراری است: ${email}` })
+    } else {
+      seen.add(email)
+      result.users.push({
+        email,
+        fullName,
+        role: roleToApi(baseRole),
+        department: read("department") || null,
+        phoneNumber: read("phoneNumber") || null,
+      })
+      result.lines.push(line)
+    }
+  })
+
+  return result
+}
+
+/** Header row of the sample file offered for download */
+export const USER_IMPORT_TEMPLATE = "email,fullName,role,department,phone\nali@example.com,علی رضایی,client,مالی,09120000000\n"
@@ -0,0 +1,114 @@
+import { apiRequest } from "./api-client"
+import type {
+  ApiPasswordSetupRequest,
+  ApiRevokeSessionsResponse,
+  ApiUserAccountDto,
+  ApiUserImportRequest,
+  ApiUserImportResponse,
+  ApiUserInviteRequest,
+  ApiUserRole,
+  ApiUserRoleUpdateRequest,
+  ApiUserStatusUpdateRequest,
+} from "./api-types"
+
+/**
+ * Every user account (admin only)
+ */
+export async function getUsers(token: string | null): Promise<ApiUserAccountDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiUserAccountDto[]>("/api/users", {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Create an account and email the user an invitation to set their password
+ */
+export async function inviteUser(token: string | null, request: ApiUserInviteRequest): Promise<ApiUserAccountDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiUserAccountDto>("/api/users/invite", {
+    method: "POST",
+    token,
+    body: request,
+  })
+}
+
+/**
+ * Invite many users at once; rows that fail are reported without stopping the rest
+ */
+export async function importUsers(token: string | null, request: ApiUserImportRequest): Promise<ApiUserImportResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiUserImportResponse>("/api/users/import", {
+    method: "POST",
+    token,
+    body: request,
+  })
+}
+
+export async function updateUserRole(token: string | null, userId: string, role: ApiUserRole): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest<void>(`/api/users/${userId}/role`, {
+    method: "PUT",
+    token,
+    body: { role } satisfies ApiUserRoleUpdateRequest,
+  })
+}
+
+/**
+ * Deactivated users can't sign in; their tickets and history stay
+ */
+export async function updateUserStatus(token: string | null, userId: string, isActive: boolean): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest<void>(`/api/users/${userId}/status`, {
+    method: "PUT",
+    token,
+    body: { isActive } satisfies ApiUserStatusUpdateRequest,
+  })
+}
+
+/**
+ * Email the user a password reset link
+ */
+export async function resetUserPassword(token: string | null, userId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest<void>(`/api/users/${userId}/reset-password`, {
+    method: "POST",
+    token,
+  })
+}
+
+/**
+ * Revoke every refresh token of the user, signing them out everywhere once their access token expires
+ */
+export async function revokeUserSessions(token: string | null, userId: string): Promise<ApiRevokeSessionsResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiRevokeSessionsResponse>(`/api/users/${userId}/sessions/revoke`, {
+    method: "POST",
+    token,
+  })
+}
+
+/**
+ * Choose a password with the token of an invitation or password reset link; no session is needed
+ */
+export async function setupPassword(request: ApiPasswordSetupRequest): Promise<void> {
+  await apiRequest<void>("/api/auth/password/setup", {
+    method: "POST",
+    body: request,
+  })
+}
@@ -0,0 +1,29 @@
+import { apiRequest } from "./api-client"
+import type { ApiTicketWorkflow } from "./api-types"
+
+/**
+ * The ticket workflow; every signed-in user reads it to know which status changes they may make
+ */
+export async function getTicketWorkflow(token: string | null): Promise<ApiTicketWorkflow> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketWorkflow>("/api/workflow", {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Replace the ticket workflow (requires workflow.manage)
+ */
+export async function updateTicketWorkflow(token: string | null, workflow: ApiTicketWorkflow): Promise<ApiTicketWorkflow> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketWorkflow>("/api/workflow", {
+    method: "PUT",
+    token,
+    body: workflow,
+  })
+}
@@ -0,0 +1,30 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { isPublicPath, loginPath, rolesAllowedAt, sessionRoleOf } from "@/lib/route-access"
+
+/**
+ * Sends visitors without a session to the login page, remembering the deep link, and keeps
+ * users off pages their role can't open. Runs before the page renders, so nothing protected flashes.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  if (isPublicPath(pathname)) {
+    return NextResponse.next()
+  }
+
+  const role = sessionRoleOf(request.cookies)
+  if (!role) {
+    return NextResponse.redirect(new URL(loginPath(`${pathname}${search}`), request.url))
+  }
+
+  const allowed = rolesAllowedAt(pathname)
+  if (allowed && !allowed.includes(role)) {
+    return NextResponse.redirect(new URL("/", request.url))
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  // Pages only: the API proxy, Next's assets and files in public/ pass straight through
+  matcher: ["/((?!api/|_next/|.*\\.[\\w]+$).*)"],
+}
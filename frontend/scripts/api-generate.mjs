@@ -0,0 +1,49 @@
+// Generates lib/generated/ticketing-api.ts from the checked-in OpenAPI snapshot.
+// Usage: npm run api:generate
+
+import { readFile, writeFile, mkdir } from "node:fs/promises"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+import openapiTS, { astToString } from "openapi-typescript"
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..")
+
+export const SNAPSHOT_PATH = path.join(root, "openapi", "ticketing-backend.json")
+export const GENERATED_PATH = path.join(root, "lib", "generated", "ticketing-api.ts")
+
+const HEADER = `/**
+ * Generated from openapi/ticketing-backend.json by \`npm run api:generate\`. Do not edit.
+ * Refresh the snapshot from a running backend with \`npm run api:snapshot\`.
+ */
+
+`
+
+/** Sort paths and schemas so snapshots only change when the API does */
+export function normalizeDocument(document) {
+  const sortKeys = (object) =>
+    Object.fromEntries(Object.entries(object ?? {}).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+  return {
+    ...document,
+    paths: sortKeys(document.paths),
+    components: { ...document.components, schemas: sortKeys(document.components?.schemas) },
+  }
+}
+
+export async function readSnapshot() {
+  return JSON.parse(await readFile(SNAPSHOT_PATH, "utf8"))
+}
+
+export async function generateApiTypes(document) {
+  const ast = await openapiTS(document, { alphabetize: true })
+  return HEADER + astToString(ast)
+}
+
+export async function writeApiTypes(document) {
+  await mkdir(path.dirname(GENERATED_PATH), { recursive: true })
+  await writeFile(GENERATED_PATH, await generateApiTypes(document))
+  console.log(`Wrote ${path.relative(root, GENERATED_PATH)}`)
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  await writeApiTypes(await readSnapshot())
+}
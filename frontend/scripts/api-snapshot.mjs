@@ -0,0 +1,26 @@
+// Downloads the backend's OpenAPI document into openapi/ticketing-backend.json and regenerates the types.
+// Usage: npm run api:snapshot [-- <swagger.json url>]
+// Defaults to OPENAPI_URL, then NEXT_PUBLIC_API_BASE_URL + /swagger/v1/swagger.json.
+
+import { writeFile } from "node:fs/promises"
+import path from "node:path"
+import { SNAPSHOT_PATH, normalizeDocument, writeApiTypes } from "./api-generate.mjs"
+
+const baseUrl = (process.env.NEXT_PUBLIC_API_BASE_URL || "http://localhost:5000").replace(/\/+$/, "")
+const url = process.argv[2] || process.env.OPENAPI_URL || `${baseUrl}/swagger/v1/swagger.json`
+
+const response = await fetch(url).catch((error) => {
+  console.error(`Could not reach ${url}. Is the backend running?`)
+  console.error(error.message)
+  process.exit(1)
+})
+if (!response.ok) {
+  console.error(`GET ${url} failed with ${response.status} ${response.statusText}`)
+  process.exit(1)
+}
+
+const document = normalizeDocument(await response.json())
+await writeFile(SNAPSHOT_PATH, `${JSON.stringify(document, null, 2)}\n`)
+console.log(`Wrote ${path.relative(process.cwd(), SNAPSHOT_PATH)} from ${url}`)
+
+await writeApiTypes(document)
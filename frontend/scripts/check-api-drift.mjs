@@ -0,0 +1,198 @@
+// Fails when the frontend and the backend's OpenAPI snapshot disagree:
+//  1. lib/generated/ticketing-api.ts must match what the snapshot generates
+//  2. every route the client calls (apiRequest / apiUpload / apiDownload) or server code calls
+//     directly (fetch(`${BACKEND_URL}/api/...`), the SLA sweep's backend(...)) must exist in the
+//     snapshot, unless openapi/client-only-routes.json lists it as waiting for backend support
+// Usage: npm run test:api
+
+import { readFile, readdir } from "node:fs/promises"
+import path from "node:path"
+import { fileURLToPath } from "node:url"
+import { GENERATED_PATH, generateApiTypes, normalizeDocument, readSnapshot } from "./api-generate.mjs"
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..")
+const SOURCE_DIRS = ["app", "components", "hooks", "lib", "services"]
+const CLIENT_ONLY_PATH = path.join(root, "openapi", "client-only-routes.json")
+const CALL_PATTERN = /\bapi(Request|Upload|Download)\s*(?:<[^(]*>)?\(\s*/g
+// Route handlers and server jobs reach the backend without apiRequest
+const BACKEND_CALL_PATTERN = /\b(?:fetch\s*\(\s*(?=`\$\{BACKEND_URL\})|backend\s*(?:<[^(]*>)?\(\s*)/g
+const BACKEND_URL_PREFIX = "${BACKEND_URL}"
+
+const failures = []
+const warnings = []
+
+async function listSources(dir) {
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => [])
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const full = path.join(dir, entry.name)
+      if (entry.isDirectory()) return entry.name === "generated" ? [] : listSources(full)
+      return /\.(ts|tsx)$/.test(entry.name) ? [full] : []
+    }),
+  )
+  return files.flat()
+}
+
+/** Read a string or template literal starting at `start`; returns its raw body or null */
+function readLiteral(source, start) {
+  const quote = source[start]
+  if (quote === '"' || quote === "'") {
+    const end = source.indexOf(quote, start + 1)
+    return end === -1 ? null : source.slice(start + 1, end)
+  }
+  if (quote !== "`") return null
+
+  let i = start + 1
+  let depth = 0
+  while (i < source.length) {
+    const char = source[i]
+    if (depth === 0 && char === "`") return source.slice(start + 1, i)
+    if (char === "$" && source[i + 1] === "{") {
+      depth++
+      i += 2
+      continue
+    }
+    if (depth > 0 && char === "{") depth++
+    if (depth > 0 && char === "}") depth--
+    // Nested template literals inside ${...}
+    if (depth > 0 && char === "`") {
+      const nested = readLiteral(source, i)
+      if (nested === null) return null
+      i += nested.length + 2
+      continue
+    }
+    i++
+  }
+  return null
+}
+
+/**
+ * Turn a client URL into a route template: interpolations that form a whole path segment become
+ * `{param}`, anything appended to a segment (query strings, suffixes) is dropped
+ */
+function toRoute(raw) {
+  let route = ""
+  let i = 0
+  while (i < raw.length) {
+    if (raw[i] === "?") break
+    if (raw[i] === "$" && raw[i + 1] === "{") {
+      let depth = 1
+      let j = i + 2
+      while (j < raw.length && depth > 0) {
+        if (raw[j] === "{") depth++
+        if (raw[j] === "}") depth--
+        j++
+      }
+      const next = raw[j]
+      if (route.endsWith("/") && (next === undefined || next === "/" || next === "?")) {
+        route += "{param}"
+      } else if (next === undefined || next === "?") {
+        break
+      }
+      i = j
+      continue
+    }
+    route += raw[i]
+    i++
+  }
+  return route.replace(/\/+$/, "")
+}
+
+function resolveUrlArgument(source, argStart) {
+  const literal = readLiteral(source, argStart)
+  if (literal !== null) return literal
+
+  // `const url = ...; apiRequest(url, ...)`
+  const identifier = /^[A-Za-z_$][\w$]*/.exec(source.slice(argStart))?.[0]
+  if (!identifier) return null
+  const declarations = [...source.slice(0, argStart).matchAll(new RegExp(`(?:const|let)\\s+${identifier}\\s*=\\s*`, "g"))]
+  const declaration = declarations.at(-1)
+  return declaration ? readLiteral(source, declaration.index + declaration[0].length) : null
+}
+
+function findMethod(source, argStart, kind, pattern = CALL_PATTERN) {
+  if (kind === "Download") return "GET"
+  const nextCall = source.slice(argStart + 1).search(pattern)
+  const window = source.slice(argStart, nextCall === -1 ? argStart + 600 : argStart + 1 + nextCall)
+  return /\bmethod:\s*["'](\w+)["']/.exec(window)?.[1]?.toUpperCase() ?? "GET"
+}
+
+async function collectClientRoutes() {
+  const files = (await Promise.all(SOURCE_DIRS.map((dir) => listSources(path.join(root, dir))))).flat()
+  const routes = []
+  for (const file of files) {
+    if (file.endsWith(path.join("lib", "api-client.ts"))) continue
+    const source = await readFile(file, "utf8")
+    for (const match of source.matchAll(CALL_PATTERN)) {
+      const argStart = match.index + match[0].length
+      const location = `${path.relative(root, file)}:${source.slice(0, argStart).split("\n").length}`
+      const url = resolveUrlArgument(source, argStart)
+      if (url === null) {
+        warnings.push(`${location}: could not work out the URL passed to api${match[1]}`)
+        continue
+      }
+      if (!url.startsWith("/api/")) continue
+      routes.push({ method: findMethod(source, argStart, match[1]), route: toRoute(url), location })
+    }
+    for (const match of source.matchAll(BACKEND_CALL_PATTERN)) {
+      const argStart = match.index + match[0].length
+      const location = `${path.relative(root, file)}:${source.slice(0, argStart).split("\n").length}`
+      const literal = readLiteral(source, argStart)
+      const url = literal?.startsWith(BACKEND_URL_PREFIX) ? literal.slice(BACKEND_URL_PREFIX.length) : literal
+      // `${BACKEND_URL}${path}` forwards whatever the caller asked for
+      if (!url?.startsWith("/api/")) continue
+      routes.push({ method: findMethod(source, argStart, "fetch", BACKEND_CALL_PATTERN), route: toRoute(url), location })
+    }
+  }
+  return routes
+}
+
+// ASP.NET routes are case-insensitive and parameter names don't matter to the caller
+const routeKey = (method, route) =>
+  `${method.toUpperCase()} ${route.toLowerCase().replace(/\{[^}]+\}/g, "{param}").replace(/\/+$/, "")}`
+
+const snapshot = await readSnapshot()
+
+// 1. Snapshot is normalized and the generated types are current
+if (JSON.stringify(normalizeDocument(snapshot)) !== JSON.stringify(snapshot)) {
+  failures.push("openapi/ticketing-backend.json is not normalized; refresh it with `npm run api:snapshot`")
+}
+const generated = await readFile(GENERATED_PATH, "utf8").catch(() => "")
+if (generated !== (await generateApiTypes(snapshot))) {
+  failures.push("lib/generated/ticketing-api.ts is out of date; run `npm run api:generate`")
+}
+
+// 2. Every client route exists on the backend
+const backendRoutes = new Set(
+  Object.entries(snapshot.paths).flatMap(([route, operations]) =>
+    Object.keys(operations).map((method) => routeKey(method, route)),
+  ),
+)
+const clientOnly = JSON.parse(await readFile(CLIENT_ONLY_PATH, "utf8"))
+const clientOnlyRoutes = new Map(clientOnly.map((entry) => [routeKey(entry.method, entry.route), entry]))
+const usedClientOnly = new Set()
+
+for (const { method, route, location } of await collectClientRoutes()) {
+  const key = routeKey(method, route)
+  if (backendRoutes.has(key)) continue
+  if (clientOnlyRoutes.has(key)) {
+    usedClientOnly.add(key)
+    continue
+  }
+  failures.push(`${location}: ${method} ${route} is not in the backend's OpenAPI document`)
+}
+
+clientOnlyRoutes.forEach((entry, key) => {
+  if (backendRoutes.has(key)) {
+    failures.push(`${entry.method} ${entry.route} is now served by the backend; remove it from openapi/client-only-routes.json`)
+  } else if (!usedClientOnly.has(key)) {
+    warnings.push(`${entry.method} ${entry.route} is listed in openapi/client-only-routes.json but no longer called`)
+  }
+})
+
+warnings.forEach((warning) => console.warn(`warning: ${warning}`))
+if (failures.length > 0) {
+  failures.forEach((failure) => console.error(`error: ${failure}`))
+  process.exit(1)
+}
+console.log(`API client matches the backend snapshot (${backendRoutes.size} operations, ${usedClientOnly.size} client-only routes)`)
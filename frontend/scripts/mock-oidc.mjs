@@ -0,0 +1,176 @@
+// A local OpenID Connect provider for developing and testing single sign-on (authorization code + PKCE).
+// Usage: npm run oidc:mock, then start the app with
+//   NEXT_PUBLIC_OIDC_ISSUER=http://localhost:9400 NEXT_PUBLIC_OIDC_CLIENT_ID=helpdesk
+// The sign-in page lists the mock users below; `login_hint=<email>` on the authorize request skips it.
+// Signing keys are generated on every start and published at /jwks.
+
+import { createHash, createSign, generateKeyPairSync, randomBytes } from "node:crypto"
+import { createServer } from "node:http"
+
+const PORT = Number(process.env.MOCK_OIDC_PORT || 9400)
+const ISSUER = (process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`).replace(/\/+$/, "")
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || "helpdesk"
+const TOKEN_LIFETIME_SECONDS = 3600
+const CODE_LIFETIME_MS = 60_000
+
+// The backend maps the groups claim to a role: helpdesk-admins and helpdesk-technicians, everyone else a client
+const USERS = [
+  { sub: "mock-admin", email: "admin@sso.test", name: "SSO Admin", groups: ["helpdesk-admins"] },
+  { sub: "mock-tech", email: "tech@sso.test", name: "SSO Technician", groups: ["helpdesk-technicians"] },
+  { sub: "mock-client", email: "client@sso.test", name: "SSO Client", groups: ["finance"] },
+]
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 })
+const KEY_ID = randomBytes(8).toString("hex")
+const jwks = { keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, use: "sig", alg: "RS256" }] }
+
+/** Authorize requests waiting for a user to be picked, and issued codes, by their random id */
+const pendingRequests = new Map()
+const codes = new Map()
+
+const base64Url = (input) => Buffer.from(input).toString("base64url")
+
+function signJwt(claims) {
+  const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: KEY_ID }))
+  const payload = base64Url(JSON.stringify(claims))
+  const signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(privateKey, "base64url")
+  return `${header}.${payload}.${signature}`
+}
+
+function send(res, status, body, headers = {}) {
+  const isJson = typeof body !== "string"
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    "Cache-Control": "no-store",
+    "Content-Type": isJson ? "application/json" : "text/html; charset=utf-8",
+    ...headers,
+  })
+  res.end(isJson ? JSON.stringify(body) : body)
+}
+
+const oauthError = (res, error, description, status = 400) =>
+  send(res, status, { error, error_description: description })
+
+function redirectWithCode(res, request, user) {
+  const code = randomBytes(24).toString("base64url")
+  codes.set(code, { ...request, user, expiresAt: Date.now() + CODE_LIFETIME_MS })
+  const location = new URL(request.redirectUri)
+  location.searchParams.set("code", code)
+  if (request.state) location.searchParams.set("state", request.state)
+  send(res, 302, "", { Location: location.toString() })
+}
+
+function authorize(res, params) {
+  const request = {
+    clientId: params.get("client_id"),
+    redirectUri: params.get("redirect_uri"),
+    state: params.get("state"),
+    nonce: params.get("nonce"),
+    codeChallenge: params.get("code_challenge"),
+  }
+  if (params.get("response_type") !== "code") return oauthError(res, "unsupported_response_type", "Only code is supported")
+  if (request.clientId !== CLIENT_ID) return oauthError(res, "unauthorized_client", `Unknown client ${request.clientId}`)
+  if (!request.redirectUri) return oauthError(res, "invalid_request", "redirect_uri is required")
+  if (!request.codeChallenge || params.get("code_challenge_method") !== "S256") {
+    return oauthError(res, "invalid_request", "PKCE with S256 is required")
+  }
+
+  const hinted = USERS.find((user) => user.email === params.get("login_hint"))
+  if (hinted) return redirectWithCode(res, request, hinted)
+
+  const requestId = randomBytes(12).toString("hex")
+  pendingRequests.set(requestId, request)
+  const options = USERS.map(
+    (user, index) =>
+      `<li><a href="/authorize/complete?request=${requestId}&user=${index}">${user.name}</a> &lt;${user.email}&gt; — ${user.groups.join(", ")}</li>`,
+  ).join("")
+  send(res, 200, `<!doctype html><title>Mock OIDC sign-in</title><h1>Sign in as</h1><ul>${options}</ul>`)
+}
+
+function completeAuthorize(res, params) {
+  const request = pendingRequests.get(params.get("request"))
+  const user = USERS[Number(params.get("user"))]
+  if (!request || !user) return oauthError(res, "invalid_request", "Unknown sign-in request")
+  pendingRequests.delete(params.get("request"))
+  redirectWithCode(res, request, user)
+}
+
+function token(res, params) {
+  if (params.get("grant_type") !== "authorization_code") {
+    return oauthError(res, "unsupported_grant_type", "Only authorization_code is supported")
+  }
+  const grant = codes.get(params.get("code"))
+  codes.delete(params.get("code"))
+  if (!grant || grant.expiresAt < Date.now()) return oauthError(res, "invalid_grant", "Unknown or expired code")
+  if (params.get("client_id") !== grant.clientId || params.get("redirect_uri") !== grant.redirectUri) {
+    return oauthError(res, "invalid_grant", "client_id or redirect_uri does not match the authorize request")
+  }
+  const challenge = createHash("sha256").update(params.get("code_verifier") ?? "").digest("base64url")
+  if (challenge !== grant.codeChallenge) return oauthError(res, "invalid_grant", "code_verifier does not match")
+
+  const now = Math.floor(Date.now() / 1000)
+  const { user } = grant
+  const claims = {
+    iss: ISSUER,
+    sub: user.sub,
+    aud: grant.clientId,
+    iat: now,
+    exp: now + TOKEN_LIFETIME_SECONDS,
+    email: user.email,
+    email_verified: true,
+    name: user.name,
+    groups: user.groups,
+    ...(grant.nonce ? { nonce: grant.nonce } : {}),
+  }
+  send(res, 200, {
+    token_type: "Bearer",
+    expires_in: TOKEN_LIFETIME_SECONDS,
+    id_token: signJwt(claims),
+    access_token: signJwt({ ...claims, aud: ISSUER, scope: "openid profile email" }),
+  })
+}
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let body = ""
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => resolve(new URLSearchParams(body)))
+    req.on("error", reject)
+  })
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", ISSUER)
+  if (req.method === "OPTIONS") return send(res, 204, "")
+
+  switch (`${req.method} ${url.pathname}`) {
+    case "GET /.well-known/openid-configuration":
+      return send(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        code_challenge_methods_supported: ["S256"],
+        scopes_supported: ["openid", "profile", "email"],
+        claims_supported: ["sub", "email", "name", "groups"],
+      })
+    case "GET /jwks":
+      return send(res, 200, jwks)
+    case "GET /authorize":
+      return authorize(res, url.searchParams)
+    case "GET /authorize/complete":
+      return completeAuthorize(res, url.searchParams)
+    case "POST /token":
+      return token(res, await readBody(req))
+    default:
+      return send(res, 404, { error: "not_found" })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider at ${ISSUER} (client id "${CLIENT_ID}")`)
+  USERS.forEach((user) => console.log(`  ${user.email.padEnd(18)} groups: ${user.groups.join(", ")}`))
+})
@@ -0,0 +1,27 @@
+import { createServer } from "node:http"
+
+/*
+ * Runs Next.js with the address of each connection in a request header, so the cookie session proxy
+ * (lib/session-proxy.ts) knows the browser's address when no reverse proxy is in front of it.
+ * `node server.mjs` serves the production build, `node server.mjs --dev` the development server.
+ */
+
+// Read by lib/session-proxy.ts; always overwritten here, so a browser can't set it
+const SOCKET_ADDRESS_HEADER = "x-tiq-socket-address"
+
+const dev = process.argv.includes("--dev")
+const port = Number(process.env.PORT || 3000)
+process.env.NODE_ENV ??= dev ? "development" : "production"
+
+const { default: next } = await import("next")
+const app = next({ dev, port })
+const handle = app.getRequestHandler()
+await app.prepare()
+
+createServer((request, response) => {
+  delete request.headers[SOCKET_ADDRESS_HEADER]
+  if (request.socket.remoteAddress) request.headers[SOCKET_ADDRESS_HEADER] = request.socket.remoteAddress
+  handle(request, response)
+}).listen(port, () => {
+  console.log(`> Ready on http://localhost:${port}`)
+})
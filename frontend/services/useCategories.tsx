@@ -3,6 +3,8 @@
 import React, { createContext, useCallback, useContext, useEffect, useState } from "react"
 import type { CategoriesData } from "@/services/categories-types"
 import { categoryService } from "@/services/CategoryService"
+import { fetchQuery, getQueryData, setQueryData, subscribeQuery } from "@/lib/query-cache"
+import { queryKeys } from "@/lib/query-keys"
 
 type Ctx = {
   categories: CategoriesData
@@ -22,8 +24,14 @@ export function CategoryProvider({ children, initial }: { children: React.ReactN
         await categoryService.seedIfEmpty?.(initial)
       }
 
-      const data = await categoryService.list()
-      if (!active) return
+      // Shared through the query cache so remounting the provider doesn't refetch the tree
+      const data = await fetchQuery(queryKeys.categories, () => categoryService.list(), {
+        staleTime: 5 * 60_000,
+      }).catch((error: unknown) => {
+        console.error("Failed to load categories", error)
+        return undefined
+      })
+      if (!active || !data) return
 
       if (Object.keys(data).length > 0) {
         setCategories(data)
@@ -37,8 +45,19 @@ export function CategoryProvider({ children, initial }: { children: React.ReactN
     }
   }, [initial])
 
+  // Offline, the tree arrives later from the IndexedDB mirror instead of the fetch above
+  useEffect(
+    () =>
+      subscribeQuery(queryKeys.categories, () => {
+        const data = getQueryData<CategoriesData>(queryKeys.categories)
+        if (data && Object.keys(data).length > 0) setCategories(data)
+      }),
+    [],
+  )
+
   const save = useCallback(async (d: CategoriesData) => {
     setCategories(d)
+    setQueryData(queryKeys.categories, d)
     await categoryService.saveAll(d)
   }, [])
 
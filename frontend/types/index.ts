@@ -1,4 +1,6 @@
-export type TicketStatus = "open" | "in-progress" | "resolved" | "closed"
+import type { ApiTicketSlaState, ApiTicketSurvey } from "@/lib/api-types"
+
+export type TicketStatus = "open" | "in-progress" | "waiting-for-client" | "resolved" | "closed"
 export type TicketPriority = "low" | "medium" | "high" | "urgent"
 export type TicketCategory = string
 
@@ -11,6 +13,18 @@ export interface TicketResponse {
   timestamp: string
 }
 
+export interface TicketAttachment {
+  id: string
+  ticketId: string
+  messageId?: string | null
+  name: string
+  size: number
+  type: string
+  uploadedAt: string
+  uploadedBy?: string | null
+  uploadedById?: string | null
+}
+
 export interface Ticket {
   id: string
   title: string
@@ -36,11 +50,23 @@ export interface Ticket {
   assignedTechnicianEmail?: string | null
   assignedTechnicianPhone?: string | null
   responses?: TicketResponse[]
-  attachments?: Array<Record<string, unknown>>
+  attachments?: TicketAttachment[]
+  attachmentCount?: number
   dynamicFields?: Record<string, unknown>
   lastResponseBy?: string | null
   lastResponseAt?: string | null
+  responseCount?: number
+  sla?: ApiTicketSlaState | null
+  resolvedAt?: string | null
+  reopenCount?: number
+  survey?: ApiTicketSurvey | null
+  mergedIntoId?: string | null
   [key: string]: unknown
 }
 
+export type TicketDraft = Pick<
+  Ticket,
+  "title" | "description" | "priority" | "category" | "subcategory" | "clientName" | "clientEmail" | "dynamicFields"
+>
+
 export type UserRole = "client" | "engineer" | "admin"
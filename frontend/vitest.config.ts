@@ -0,0 +1,14 @@
+import path from "node:path"
+import { defineConfig } from "vitest/config"
+
+// Unit tests sit next to the modules they cover; e2e/ belongs to Playwright
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, ".") },
+  },
+  test: {
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", "e2e/**", ".next/**"],
+    environment: "node",
+  },
+})